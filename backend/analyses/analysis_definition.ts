@@ -0,0 +1,71 @@
+import type { ChartSpec } from "../../utils/chart_spec";
+import type { CsvTable } from "../../utils/csv";
+import type { DatasetProfile } from "../../utils/data_profile";
+import type {
+  AnalysisParameter,
+  AnalysisParameters,
+  ColumnRole,
+} from "./analysis_parameters";
+
+/** What the data needs for an analysis to run on it. */
+export interface AnalysisRequirements {
+  /** The fewest rows. */
+  rows: number;
+  /**
+   * How many columns of each kind are needed; any one of these will do. No
+   * columns are needed when this is empty.
+   */
+  columns: Partial<Record<ColumnRole, number>>[];
+}
+
+/** What an analysis returns, so clients know before running it. */
+export interface AnalysisOutputs {
+  charts: boolean;
+  /** The names of the tables returned. */
+  tables: string[];
+  /** The names of the metrics returned. */
+  metrics: string[];
+}
+
+export interface AnalysisTable {
+  name: string;
+  header: string[];
+  rows: string[][];
+}
+
+export interface AnalysisResult {
+  charts: ChartSpec[];
+  /** The table the charts are drawn from, as CSV, when it isn't the dataset. */
+  chartData?: string;
+  tables: AnalysisTable[];
+  /** Each metric's value, or null when it can't be measured. */
+  metrics: Record<string, number | string | null>;
+  /** The result in lines of text, for a prompt. */
+  summary: string;
+  /** Everything the analysis computed, such as the whole forecast. */
+  details: unknown;
+}
+
+/**
+ * A named analysis the server runs on request. Changing what an analysis
+ * takes or returns means adding a new version, so clients pinned to an old
+ * one keep working.
+ */
+export interface AnalysisDefinition {
+  name: string;
+  version: number;
+  title: string;
+  description: string;
+  parameters: readonly AnalysisParameter[];
+  requires: AnalysisRequirements;
+  outputs: AnalysisOutputs;
+  /**
+   * Runs the analysis with checked parameters on data that meets its
+   * requirements.
+   */
+  run: (
+    table: CsvTable,
+    profile: DatasetProfile,
+    parameters: AnalysisParameters,
+  ) => AnalysisResult;
+}
@@ -0,0 +1,40 @@
+/**
+ * Why an analysis couldn't run:
+ * - `unknown_analysis`: no analysis, or no version of one, has the name or
+ *   number asked for.
+ * - `invalid_parameters`: a parameter is unknown, missing or out of range,
+ *   or names a column that doesn't exist or is the wrong kind.
+ * - `unsupported_data`: the data doesn't have what the analysis needs, such
+ *   as a column of dates for a forecast.
+ */
+export const ANALYSIS_ERROR_CATEGORIES = [
+  "unknown_analysis",
+  "invalid_parameters",
+  "unsupported_data",
+] as const;
+
+export type AnalysisErrorCategory = (typeof ANALYSIS_ERROR_CATEGORIES)[number];
+
+export class AnalysisError extends Error {
+  constructor(
+    readonly category: AnalysisErrorCategory,
+    message: string,
+  ) {
+    super(message);
+
+    Object.setPrototypeOf(this, AnalysisError.prototype);
+  }
+}
+
+const STATUS_BY_CATEGORY: Record<AnalysisErrorCategory, number> = {
+  unknown_analysis: 404,
+  invalid_parameters: 400,
+  unsupported_data: 422,
+};
+
+/**
+ * The HTTP status a route responds with when an analysis can't run for this
+ * reason.
+ */
+export const statusForAnalysisError = (category: AnalysisErrorCategory) =>
+  STATUS_BY_CATEGORY[category];
@@ -0,0 +1,185 @@
+import type { ColumnProfile, DatasetProfile } from "../../utils/data_profile";
+import { NUMERIC_COLUMN_TYPES } from "../../utils/csv";
+import { AnalysisError } from "./analysis_error";
+
+/**
+ * The kinds of column analyses read:
+ * - `numeric`: numbers, currencies and percentages.
+ * - `date`: dates and times.
+ * - `categorical`: categories and yes/no values.
+ */
+export const COLUMN_ROLES = ["numeric", "date", "categorical"] as const;
+
+export type ColumnRole = (typeof COLUMN_ROLES)[number];
+
+/** Whether a column's values are of a kind. */
+export const fitsRole = (column: ColumnProfile, role: ColumnRole) => {
+  switch (role) {
+    case "numeric":
+      return NUMERIC_COLUMN_TYPES.has(column.kind);
+    case "date":
+      return column.kind === "date";
+    case "categorical":
+      return column.kind === "category" || column.kind === "boolean";
+    default:
+      return false;
+  }
+};
+
+/**
+ * The columns of a kind worth analyzing: those with values that vary, and
+ * no IDs.
+ */
+export const columnsInRole = (profile: DatasetProfile, role: ColumnRole) =>
+  profile.columns.filter(
+    (column) =>
+      fitsRole(column, role) &&
+      column.count > 0 &&
+      !column.suspectedId &&
+      !column.constant,
+  );
+
+interface ParameterBase {
+  name: string;
+  /** What the parameter does, and its default when that depends on the data. */
+  description: string;
+}
+
+/**
+ * A parameter an analysis takes: a column of the data, a list of columns, a
+ * number, or one or more of a list of choices.
+ */
+export type AnalysisParameter = ParameterBase &
+  (
+    | { type: "column" | "columns"; roles: ColumnRole[] }
+    | {
+        type: "integer" | "number";
+        min?: number;
+        max?: number;
+        default?: number;
+      }
+    | { type: "choice"; choices: readonly string[]; default?: string }
+    | { type: "choices"; choices: readonly string[]; default?: string[] }
+  );
+
+export type ParameterValue = string | number | string[];
+
+export type AnalysisParameters = Record<string, ParameterValue>;
+
+const invalid = (message: string) =>
+  new AnalysisError("invalid_parameters", message);
+
+const readColumn = (
+  profile: DatasetProfile,
+  parameter: ParameterBase & { roles: ColumnRole[] },
+  value: unknown,
+) => {
+  if (typeof value !== "string") {
+    throw invalid(`"${parameter.name}" must be a column name`);
+  }
+  const column = profile.columns.find(({ name }) => name === value);
+  if (!column) {
+    throw invalid(`The data has no column named "${value}"`);
+  }
+  if (!parameter.roles.some((role) => fitsRole(column, role))) {
+    throw invalid(
+      `"${value}" can't be the ${parameter.name}; it needs a column of ${parameter.roles.join(" or ")} values`,
+    );
+  }
+  return value;
+};
+
+const readValue = (
+  parameter: AnalysisParameter,
+  value: unknown,
+  profile: DatasetProfile,
+): ParameterValue => {
+  switch (parameter.type) {
+    case "column":
+      return readColumn(profile, parameter, value);
+    case "columns":
+      if (!Array.isArray(value) || value.length === 0) {
+        throw invalid(`"${parameter.name}" must be a list of column names`);
+      }
+      return value.map((item) => readColumn(profile, parameter, item));
+    case "integer":
+    case "number": {
+      const { min = -Infinity, max = Infinity } = parameter;
+      if (
+        typeof value !== "number" ||
+        !Number.isFinite(value) ||
+        (parameter.type === "integer" && !Number.isInteger(value))
+      ) {
+        throw invalid(
+          `"${parameter.name}" must be ${parameter.type === "integer" ? "a whole number" : "a number"}`,
+        );
+      }
+      if (value < min || value > max) {
+        throw invalid(
+          `"${parameter.name}" must be from ${min} to ${max}, not ${value}`,
+        );
+      }
+      return value;
+    }
+    case "choice":
+      if (typeof value !== "string" || !parameter.choices.includes(value)) {
+        throw invalid(
+          `"${parameter.name}" must be one of ${parameter.choices.join(", ")}`,
+        );
+      }
+      return value;
+    case "choices":
+      if (
+        !Array.isArray(value) ||
+        value.length === 0 ||
+        !value.every(
+          (item) =>
+            typeof item === "string" && parameter.choices.includes(item),
+        )
+      ) {
+        throw invalid(
+          `"${parameter.name}" must be a list of ${parameter.choices.join(", ")}`,
+        );
+      }
+      return value as string[];
+    default:
+      throw invalid(`Unknown parameter "${(parameter as ParameterBase).name}"`);
+  }
+};
+
+/**
+ * Checks the parameters an analysis was given against those it declares,
+ * filling in declared defaults.
+ * @param given - The parameters as sent, if any.
+ * @returns The parameters given, and the defaults of those that weren't.
+ * @throws AnalysisError if a parameter is unknown or invalid.
+ */
+export const readParameters = (
+  declared: readonly AnalysisParameter[],
+  given: unknown,
+  profile: DatasetProfile,
+): AnalysisParameters => {
+  if (given != null && (typeof given !== "object" || Array.isArray(given))) {
+    throw invalid("Parameters must be an object of names and values");
+  }
+  const values = (given ?? {}) as Record<string, unknown>;
+  const names = declared.map(({ name }) => name);
+  const unknown = Object.keys(values).find((name) => !names.includes(name));
+  if (unknown !== undefined) {
+    throw invalid(
+      names.length > 0
+        ? `Unknown parameter "${unknown}"; use ${names.join(", ")}`
+        : `Unknown parameter "${unknown}"; this analysis takes none`,
+    );
+  }
+  const parameters: AnalysisParameters = {};
+  for (const parameter of declared) {
+    const value =
+      values[parameter.name] ??
+      ("default" in parameter ? parameter.default : undefined);
+    if (value != null) {
+      parameters[parameter.name] = readValue(parameter, value, profile);
+    }
+  }
+  return parameters;
+};
@@ -0,0 +1,166 @@
+import type { CsvTable } from "../../utils/csv";
+import type { DatasetProfile } from "../../utils/data_profile";
+import { AnomalyError } from "../anomalies";
+import { CorrelationError } from "../correlations";
+import { ForecastError } from "../forecasting";
+import type { AnalysisDefinition, AnalysisResult } from "./analysis_definition";
+import { AnalysisError } from "./analysis_error";
+import type { AnalysisParameters } from "./analysis_parameters";
+import { columnsInRole, readParameters } from "./analysis_parameters";
+import { BUILTIN_ANALYSES } from "./builtin_analyses";
+
+/** An analysis as clients see it: everything but how it runs. */
+export type AnalysisDescription = Omit<AnalysisDefinition, "run"> & {
+  /** Every version there is, oldest first. */
+  versions: number[];
+};
+
+export interface AnalysisRun extends AnalysisResult {
+  analysis: { name: string; version: number };
+  /** The parameters used, with the defaults of those not given. */
+  parameters: AnalysisParameters;
+}
+
+const describeCounts = (counts: AnalysisDefinition["requires"]["columns"][0]) =>
+  Object.entries(counts)
+    .map(([role, count]) => `${count} ${role} column${count === 1 ? "" : "s"}`)
+    .join(" and ");
+
+// Checks the data has the rows and columns an analysis needs
+const checkRequirements = (
+  { title, requires }: AnalysisDefinition,
+  profile: DatasetProfile,
+) => {
+  if (profile.rowCount < requires.rows) {
+    throw new AnalysisError(
+      "unsupported_data",
+      `${title} needs at least ${requires.rows} rows; the data has ${profile.rowCount}`,
+    );
+  }
+  const met = requires.columns.some((counts) =>
+    Object.entries(counts).every(
+      ([role, count]) =>
+        columnsInRole(profile, role as keyof typeof counts).length >=
+        (count ?? 0),
+    ),
+  );
+  if (requires.columns.length > 0 && !met) {
+    throw new AnalysisError(
+      "unsupported_data",
+      `${title} needs ${requires.columns.map(describeCounts).join(", or ")}`,
+    );
+  }
+};
+
+/**
+ * The analyses clients can run by name. Each one declares its parameters,
+ * what data it needs and what it returns; the registry checks the first two
+ * before running it.
+ */
+export class AnalysisRegistry {
+  private readonly byName = new Map<string, AnalysisDefinition[]>();
+
+  constructor(definitions: readonly AnalysisDefinition[]) {
+    for (const definition of definitions) {
+      const versions = this.byName.get(definition.name) ?? [];
+      if (versions.some(({ version }) => version === definition.version)) {
+        throw new Error(
+          `Analysis "${definition.name}" has two definitions of version ${definition.version}`,
+        );
+      }
+      versions.push(definition);
+      versions.sort((a, b) => a.version - b.version);
+      this.byName.set(definition.name, versions);
+    }
+  }
+
+  /** The latest version of every analysis. */
+  list(): AnalysisDescription[] {
+    return [...this.byName.values()].map((versions) =>
+      this.describe(versions[versions.length - 1], versions),
+    );
+  }
+
+  /**
+   * An analysis by name.
+   * @param version - Defaults to the latest.
+   * @throws AnalysisError if there's no such analysis or version.
+   */
+  find(name: string, version?: number): AnalysisDefinition {
+    const versions = this.byName.get(name);
+    if (!versions) {
+      throw new AnalysisError(
+        "unknown_analysis",
+        `There's no analysis named "${name}"; use ${[...this.byName.keys()].join(", ")}`,
+      );
+    }
+    if (version === undefined) {
+      return versions[versions.length - 1];
+    }
+    const definition = versions.find((v) => v.version === version);
+    if (!definition) {
+      throw new AnalysisError(
+        "unknown_analysis",
+        `"${name}" has no version ${version}; use ${versions.map((v) => v.version).join(", ")}`,
+      );
+    }
+    return definition;
+  }
+
+  /** An analysis by name, as clients see it. */
+  describeAnalysis(name: string, version?: number): AnalysisDescription {
+    return this.describe(this.find(name, version), this.byName.get(name) ?? []);
+  }
+
+  /**
+   * Runs an analysis on a dataset.
+   * @param parameters - The parameters as sent, checked against those the
+   * analysis declares.
+   * @throws AnalysisError if the analysis doesn't exist, the parameters are
+   * invalid or the data doesn't have what it needs.
+   */
+  run(
+    name: string,
+    table: CsvTable,
+    profile: DatasetProfile,
+    { version, parameters }: { version?: number; parameters?: unknown } = {},
+  ): AnalysisRun {
+    const definition = this.find(name, version);
+    const checked = readParameters(definition.parameters, parameters, profile);
+    checkRequirements(definition, profile);
+    try {
+      return {
+        analysis: { name: definition.name, version: definition.version },
+        parameters: checked,
+        ...definition.run(table, profile, checked),
+      };
+    } catch (e) {
+      // The services an analysis runs reject bad requests and unsuitable
+      // data their own way
+      if (
+        e instanceof ForecastError ||
+        e instanceof AnomalyError ||
+        e instanceof CorrelationError
+      ) {
+        throw new AnalysisError(
+          e.category === "invalid_request"
+            ? "invalid_parameters"
+            : "unsupported_data",
+          e.message,
+        );
+      }
+      throw e;
+    }
+  }
+
+  private describe(
+    { run: _run, ...definition }: AnalysisDefinition,
+    versions: AnalysisDefinition[],
+  ): AnalysisDescription {
+    return { ...definition, versions: versions.map((v) => v.version) };
+  }
+}
+
+/** A registry of the analyses the server comes with. */
+export const createAnalysisRegistry = (): AnalysisRegistry =>
+  new AnalysisRegistry(BUILTIN_ANALYSES);
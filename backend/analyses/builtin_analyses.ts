@@ -0,0 +1,371 @@
+import { TIME_UNITS } from "../../utils/chart_spec";
+import { formatCsv } from "../../utils/csv";
+import {
+  describeProfile,
+  formatProfileNumber,
+  suggestCharts,
+} from "../../utils/data_profile";
+import type { AnomalyMethod, AnomalySensitivity } from "../anomalies";
+import {
+  ANOMALY_METHODS,
+  ANOMALY_SENSITIVITIES,
+  anomalyCharts,
+  DEFAULT_ANOMALY_METHODS,
+  describeAnomalies,
+  findAnomalies,
+} from "../anomalies";
+import type { CorrelationMethod, PValueCorrection } from "../correlations";
+import {
+  CORRELATION_METHODS,
+  correlateDataset,
+  correlationCharts,
+  describeCorrelations,
+  P_VALUE_CORRECTIONS,
+} from "../correlations";
+import type { ForecastModel, Frequency, SeriesAggregate } from "../forecasting";
+import {
+  DEFAULT_FORECAST_PERIODS,
+  DEFAULT_INTERVAL_LEVEL,
+  describeForecast,
+  FORECAST_MODELS,
+  forecastChart,
+  forecastDataset,
+  MAX_FORECAST_PERIODS,
+  SERIES_AGGREGATES,
+} from "../forecasting";
+import type { AnalysisDefinition } from "./analysis_definition";
+
+const formatNumber = (n: number) => formatProfileNumber(n);
+
+// The most charts an overview suggests
+const MAX_OVERVIEW_CHARTS = 8;
+
+const overview: AnalysisDefinition = {
+  name: "overview",
+  version: 1,
+  title: "Overview",
+  description:
+    "Charts the most telling views of the data and sizes up each column: its kind, missing values and distinct values.",
+  parameters: [
+    {
+      name: "charts",
+      type: "integer",
+      description: "The most charts to suggest.",
+      min: 1,
+      max: MAX_OVERVIEW_CHARTS,
+      default: 4,
+    },
+  ],
+  requires: { rows: 1, columns: [] },
+  outputs: {
+    charts: true,
+    tables: ["columns"],
+    metrics: ["rows", "columns", "missingCells", "duplicateRows"],
+  },
+  run: (_table, profile, parameters) => ({
+    // Drawn from the dataset itself
+    charts: suggestCharts(profile, parameters.charts as number),
+    tables: [
+      {
+        name: "columns",
+        header: ["Column", "Kind", "Missing", "Distinct"],
+        rows: profile.columns.map((column) => [
+          column.name,
+          column.kind,
+          String(column.missing),
+          String(column.distinct),
+        ]),
+      },
+    ],
+    metrics: {
+      rows: profile.rowCount,
+      columns: profile.columns.length,
+      missingCells: profile.missingCells,
+      duplicateRows: profile.duplicateRows,
+    },
+    summary: describeProfile(profile),
+    details: profile,
+  }),
+};
+
+const correlations: AnalysisDefinition = {
+  name: "correlations",
+  version: 1,
+  title: "Correlations",
+  description:
+    "Measures and tests how strongly each pair of numeric columns, and each pair of categorical columns, move together.",
+  parameters: [
+    {
+      name: "method",
+      type: "choice",
+      description: "How numeric columns are compared.",
+      choices: CORRELATION_METHODS,
+      default: "pearson",
+    },
+    {
+      name: "correction",
+      type: "choice",
+      description: "How p-values are adjusted for the number of pairs tested.",
+      choices: P_VALUE_CORRECTIONS,
+      default: "holm",
+    },
+    {
+      name: "alpha",
+      type: "number",
+      description: "The adjusted p-value a relationship is significant below.",
+      min: 0.001,
+      max: 0.2,
+      default: 0.05,
+    },
+    {
+      name: "columns",
+      type: "columns",
+      description:
+        "The columns to compare. Defaults to every numeric and categorical column that isn't an ID or constant.",
+      roles: ["numeric", "categorical"],
+    },
+  ],
+  requires: { rows: 3, columns: [{ numeric: 2 }, { categorical: 2 }] },
+  outputs: {
+    charts: true,
+    tables: ["matrix", "relationships"],
+    metrics: ["pairsTested", "significantPairs"],
+  },
+  run: (table, profile, parameters) => {
+    const report = correlateDataset(
+      table,
+      {
+        method: parameters.method as CorrelationMethod,
+        correction: parameters.correction as PValueCorrection,
+        alpha: parameters.alpha as number,
+        columns: parameters.columns as string[] | undefined,
+      },
+      profile,
+    );
+    const charts = correlationCharts(report);
+    return {
+      charts: charts.specs,
+      chartData: formatCsv(charts.table),
+      tables: [
+        { name: "matrix", ...charts.table },
+        {
+          name: "relationships",
+          header: [
+            "Column",
+            "Compared with",
+            "Measure",
+            "Coefficient",
+            "Adjusted p-value",
+            "Rows",
+          ],
+          rows: report.relationships.map((pair) => [
+            ...pair.columns,
+            pair.measure,
+            formatNumber(pair.coefficient),
+            formatNumber(pair.adjustedPValue),
+            String(pair.n),
+          ]),
+        },
+      ],
+      metrics: {
+        pairsTested: report.pairs.length,
+        significantPairs: report.pairs.filter(({ significant }) => significant)
+          .length,
+      },
+      summary: describeCorrelations(report),
+      details: report,
+    };
+  },
+};
+
+const forecast: AnalysisDefinition = {
+  name: "forecast",
+  version: 1,
+  title: "Forecast",
+  description:
+    "Forecasts a column over time with the model that backtests best, with prediction intervals.",
+  parameters: [
+    {
+      name: "targetColumn",
+      type: "column",
+      description:
+        "The column to forecast. Defaults to the first numeric column.",
+      roles: ["numeric"],
+    },
+    {
+      name: "dateColumn",
+      type: "column",
+      description: "The column of dates. Defaults to the first date column.",
+      roles: ["date"],
+    },
+    {
+      name: "periods",
+      type: "integer",
+      description: "How many periods to forecast.",
+      min: 1,
+      max: MAX_FORECAST_PERIODS,
+      default: DEFAULT_FORECAST_PERIODS,
+    },
+    {
+      name: "frequency",
+      type: "choice",
+      description:
+        "The period the series is resampled to. Defaults to the typical gap between dates.",
+      choices: TIME_UNITS,
+    },
+    {
+      name: "aggregate",
+      type: "choice",
+      description:
+        "How values in one period are combined. Defaults to mean for percentages and sum for others.",
+      choices: SERIES_AGGREGATES,
+    },
+    {
+      name: "model",
+      type: "choice",
+      description: "The model to use. Defaults to the one that backtests best.",
+      choices: FORECAST_MODELS,
+    },
+    {
+      name: "intervalLevel",
+      type: "number",
+      description: "The probability each prediction interval holds the value.",
+      min: 0.5,
+      max: 0.99,
+      default: DEFAULT_INTERVAL_LEVEL,
+    },
+  ],
+  requires: { rows: 4, columns: [{ date: 1, numeric: 1 }] },
+  outputs: {
+    charts: true,
+    tables: ["forecast"],
+    metrics: ["model", "accuracy", "trendPerPeriod"],
+  },
+  run: (table, profile, parameters) => {
+    const result = forecastDataset(
+      table,
+      {
+        targetColumn: parameters.targetColumn as string | undefined,
+        dateColumn: parameters.dateColumn as string | undefined,
+        periods: parameters.periods as number,
+        frequency: parameters.frequency as Frequency | undefined,
+        aggregate: parameters.aggregate as SeriesAggregate | undefined,
+        model: parameters.model as ForecastModel | undefined,
+        intervalLevel: parameters.intervalLevel as number,
+      },
+      profile,
+    );
+    const chart = forecastChart(result);
+    return {
+      charts: [chart.spec],
+      chartData: formatCsv(chart.table),
+      tables: [
+        {
+          name: "forecast",
+          header: ["Period", "Forecast", "Lower bound", "Upper bound"],
+          rows: result.forecast.map(({ period, value, lower, upper }) => [
+            period,
+            formatNumber(value),
+            formatNumber(lower),
+            formatNumber(upper),
+          ]),
+        },
+      ],
+      metrics: {
+        model: result.model,
+        accuracy: result.accuracy,
+        trendPerPeriod: result.trendPerPeriod,
+      },
+      summary: describeForecast(result),
+      details: result,
+    };
+  },
+};
+
+const anomalies: AnalysisDefinition = {
+  name: "anomalies",
+  version: 1,
+  title: "Anomalies",
+  description:
+    "Flags unusual values and rows, each with the method, score and threshold that flagged it.",
+  parameters: [
+    {
+      name: "sensitivity",
+      type: "choice",
+      description: "How readily values are flagged.",
+      choices: ANOMALY_SENSITIVITIES,
+      default: "medium",
+    },
+    {
+      name: "methods",
+      type: "choices",
+      description:
+        "The methods to look with. Those that can't run on the data are skipped.",
+      choices: ANOMALY_METHODS,
+      default: DEFAULT_ANOMALY_METHODS,
+    },
+    {
+      name: "columns",
+      type: "columns",
+      description:
+        "The columns to check. Defaults to every numeric column that isn't an ID or constant.",
+      roles: ["numeric"],
+    },
+    {
+      name: "dateColumn",
+      type: "column",
+      description:
+        "The dates the seasonal method orders rows by. Defaults to the first date column.",
+      roles: ["date"],
+    },
+  ],
+  requires: { rows: 3, columns: [{ numeric: 1 }] },
+  outputs: {
+    charts: true,
+    tables: ["anomalies"],
+    metrics: ["rowsChecked", "rowsFlagged"],
+  },
+  run: (table, profile, parameters) => {
+    const report = findAnomalies(
+      table,
+      {
+        sensitivity: parameters.sensitivity as AnomalySensitivity,
+        methods: parameters.methods as AnomalyMethod[],
+        columns: parameters.columns as string[] | undefined,
+        dateColumn: parameters.dateColumn as string | undefined,
+      },
+      profile,
+    );
+    const charts = anomalyCharts(report, table);
+    return {
+      charts: charts.specs,
+      chartData: formatCsv(charts.table),
+      tables: [
+        {
+          name: "anomalies",
+          header: ["Row", "Columns", "Methods", "Severity"],
+          rows: report.rows.map((row) => [
+            String(row.row),
+            row.columns.join(", "),
+            row.methods.join(", "),
+            formatNumber(row.severity),
+          ]),
+        },
+      ],
+      metrics: {
+        rowsChecked: report.rowCount,
+        rowsFlagged: report.rows.length,
+      },
+      summary: describeAnomalies(report, table),
+      details: report,
+    };
+  },
+};
+
+/** The analyses the server comes with. */
+export const BUILTIN_ANALYSES: readonly AnalysisDefinition[] = [
+  overview,
+  correlations,
+  forecast,
+  anomalies,
+];
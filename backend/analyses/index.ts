@@ -0,0 +1,28 @@
+export type {
+  AnalysisDefinition,
+  AnalysisOutputs,
+  AnalysisRequirements,
+  AnalysisResult,
+  AnalysisTable,
+} from "./analysis_definition";
+export type { AnalysisErrorCategory } from "./analysis_error";
+export {
+  ANALYSIS_ERROR_CATEGORIES,
+  AnalysisError,
+  statusForAnalysisError,
+} from "./analysis_error";
+export type {
+  AnalysisParameter,
+  AnalysisParameters,
+  ColumnRole,
+  ParameterValue,
+} from "./analysis_parameters";
+export {
+  COLUMN_ROLES,
+  columnsInRole,
+  fitsRole,
+  readParameters,
+} from "./analysis_parameters";
+export type { AnalysisDescription, AnalysisRun } from "./analysis_registry";
+export { AnalysisRegistry, createAnalysisRegistry } from "./analysis_registry";
+export { BUILTIN_ANALYSES } from "./builtin_analyses";
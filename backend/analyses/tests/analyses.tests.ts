@@ -0,0 +1,125 @@
+/** @jest-environment node */
+import { parseCsv } from "../../../utils/csv";
+import { profileDataset } from "../../../utils/data_profile";
+import type { AnalysisDefinition } from "../index";
+import {
+  AnalysisError,
+  AnalysisRegistry,
+  BUILTIN_ANALYSES,
+  createAnalysisRegistry,
+  readParameters,
+} from "../index";
+
+// Two years of monthly sales that grow steadily, with a spike in month 10,
+// and a cost that follows sales
+const SALES = [
+  "Month,Region,Sales,Cost",
+  ...Array.from({ length: 24 }, (_, i) => {
+    const month = `${2022 + Math.floor(i / 12)}-${String((i % 12) + 1).padStart(2, "0")}-01`;
+    const sales = i === 9 ? 900.5 : 100.5 + 5 * i + ((i * 7) % 3);
+    return `${month},${["North", "South"][i % 2]},${sales},${sales * 0.6 + (i % 4)}`;
+  }),
+].join("\n");
+
+const table = parseCsv(SALES);
+const profile = profileDataset(table);
+
+const categoryOf = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (e) {
+    return e instanceof AnalysisError ? e.category : e;
+  }
+  return undefined;
+};
+
+describe("readParameters", () => {
+  const { parameters } = createAnalysisRegistry().find("forecast");
+
+  it("checks parameters and fills in defaults", () => {
+    expect(
+      readParameters(parameters, { targetColumn: "Cost", periods: 6 }, profile),
+    ).toEqual({ targetColumn: "Cost", periods: 6, intervalLevel: 0.95 });
+  });
+
+  it("rejects unknown, mistyped and out of range parameters", () => {
+    const read = (given: unknown) => () =>
+      readParameters(parameters, given, profile);
+
+    expect(categoryOf(read({ horizon: 6 }))).toBe("invalid_parameters");
+    expect(categoryOf(read({ periods: 2.5 }))).toBe("invalid_parameters");
+    expect(categoryOf(read({ periods: 1000 }))).toBe("invalid_parameters");
+    expect(categoryOf(read({ model: "arima" }))).toBe("invalid_parameters");
+    expect(categoryOf(read({ targetColumn: "Region" }))).toBe(
+      "invalid_parameters",
+    );
+    expect(categoryOf(read({ targetColumn: "Profit" }))).toBe(
+      "invalid_parameters",
+    );
+    expect(categoryOf(read([6]))).toBe("invalid_parameters");
+  });
+});
+
+describe("AnalysisRegistry", () => {
+  const v1 = BUILTIN_ANALYSES[0];
+  const v2: AnalysisDefinition = { ...v1, version: 2, title: "Overview 2" };
+
+  it("finds the latest version unless one is asked for", () => {
+    const registry = new AnalysisRegistry([v2, v1]);
+
+    expect(registry.find("overview").version).toBe(2);
+    expect(registry.find("overview", 1).version).toBe(1);
+    expect(registry.list()).toEqual([
+      expect.objectContaining({
+        name: "overview",
+        version: 2,
+        versions: [1, 2],
+      }),
+    ]);
+    expect(registry.list()[0]).not.toHaveProperty("run");
+    expect(categoryOf(() => registry.find("overview", 3))).toBe(
+      "unknown_analysis",
+    );
+    expect(categoryOf(() => registry.find("python"))).toBe("unknown_analysis");
+    expect(() => new AnalysisRegistry([v1, v1])).toThrow(/two definitions/);
+  });
+
+  it("returns what each analysis declares", () => {
+    const registry = createAnalysisRegistry();
+
+    for (const { name, outputs } of registry.list()) {
+      const result = registry.run(name, table, profile);
+
+      expect(result.analysis.name).toBe(name);
+      expect(result.charts.length > 0).toBe(outputs.charts);
+      expect(result.tables.map((t) => t.name)).toEqual(outputs.tables);
+      expect(Object.keys(result.metrics)).toEqual(outputs.metrics);
+      expect(result.summary).not.toBe("");
+    }
+  });
+
+  it("forecasts with the parameters given", () => {
+    const result = createAnalysisRegistry().run("forecast", table, profile, {
+      parameters: { targetColumn: "Sales", periods: 3, model: "linear" },
+    });
+
+    expect(result).toMatchObject({
+      analysis: { name: "forecast", version: 1 },
+      parameters: { targetColumn: "Sales", periods: 3, model: "linear" },
+      metrics: { model: "linear" },
+    });
+    expect(result.tables[0].rows).toHaveLength(3);
+    expect(result.chartData).toMatch(/^Month,Series,Sales\n/);
+  });
+
+  it("rejects data without the columns an analysis needs", () => {
+    const regions = parseCsv("Region,Sales\nNorth,1.5\nSouth,2.5\nEast,3.5");
+    const registry = createAnalysisRegistry();
+    const run = (name: string) => () =>
+      registry.run(name, regions, profileDataset(regions));
+
+    expect(categoryOf(run("forecast"))).toBe("unsupported_data");
+    expect(categoryOf(run("correlations"))).toBe("unsupported_data");
+    expect(categoryOf(run("anomalies"))).toBe(undefined);
+  });
+});
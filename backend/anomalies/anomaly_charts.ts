@@ -0,0 +1,137 @@
+import type { ChartSpec } from "../../utils/chart_spec";
+import type { CsvTable } from "../../utils/csv";
+import { ANOMALY_METHOD_NAMES } from "./describe_anomalies";
+import type { AnomalyReport } from "./find_anomalies";
+
+/** The values of a chart's flag column, in the order their colours are given. */
+export const ANOMALY_FLAGS = ["Anomaly", "Normal"] as const;
+
+// Anomalies stand out in red against muted typical values
+const ANOMALY_PALETTE = ["#e45756", "#bab0ac"];
+
+// Charts the columns with the most anomalies, up to this many
+const MAX_COLUMN_CHARTS = 3;
+
+// Names a column so it doesn't clash with those already in the table
+const uniqueName = (name: string, taken: string[]) => {
+  let unique = name;
+  for (let n = 2; taken.includes(unique); n++) {
+    unique = `${name} (${n})`;
+  }
+  taken.push(unique);
+  return unique;
+};
+
+/**
+ * Charts where anomalies are: each of the columns with the most anomalies
+ * over time, or by row when there are no dates, and the first two columns
+ * against each other for rows unusual across columns. Points are coloured by
+ * whether they're anomalous.
+ * @param data - The table the report is about.
+ * @returns The charts' specs and the table they're drawn from: the row
+ * number, the dates and columns charted, and a flag column per chart.
+ * There are no charts when nothing was found.
+ */
+export const anomalyCharts = (
+  report: AnomalyReport,
+  data: CsvTable,
+): { specs: ChartSpec[]; table: CsvTable } => {
+  const counts = new Map<string, number>();
+  for (const { method, columns } of report.anomalies) {
+    if (method !== "multivariate") {
+      counts.set(columns[0], (counts.get(columns[0]) ?? 0) + 1);
+    }
+  }
+  const charted = report.columns
+    .filter((column) => counts.has(column))
+    .sort((a, b) => (counts.get(b) ?? 0) - (counts.get(a) ?? 0))
+    .slice(0, MAX_COLUMN_CHARTS);
+  const multivariate = report.anomalies.some(
+    ({ method }) => method === "multivariate",
+  );
+  const [first, second] = report.columns;
+
+  const sources = [
+    ...new Set([
+      ...(report.dateColumn ? [report.dateColumn] : []),
+      ...charted,
+      ...(multivariate ? [first, second] : []),
+    ]),
+  ];
+  const header = [...sources];
+  const rowColumn = uniqueName("Row", header);
+  const flagged = (predicate: (column: string[]) => boolean) => {
+    const rows = new Set(
+      report.anomalies
+        .filter(({ columns }) => predicate(columns))
+        .map(({ row }) => row),
+    );
+    return data.rows.map((_, index) =>
+      rows.has(index + 1) ? ANOMALY_FLAGS[0] : ANOMALY_FLAGS[1],
+    );
+  };
+  const flags = [
+    ...charted.map((column) => ({
+      name: uniqueName(`${column} anomaly`, header),
+      values: flagged(
+        (columns) => columns.length === 1 && columns[0] === column,
+      ),
+    })),
+    ...(multivariate
+      ? [
+          {
+            name: uniqueName("Unusual row", header),
+            values: flagged((columns) => columns.length > 1),
+          },
+        ]
+      : []),
+  ];
+
+  const x = report.dateColumn
+    ? { field: report.dateColumn, type: "temporal" as const }
+    : { field: rowColumn, type: "quantitative" as const };
+  const specs: ChartSpec[] = charted.map((column, i) => ({
+    title: `Unusual ${column} values`,
+    description: `${column} with the values found unusual by ${report.methods
+      .filter((method) => method !== "multivariate")
+      .map((method) => ANOMALY_METHOD_NAMES[method])
+      .join(", ")} at ${report.sensitivity} sensitivity`,
+    mark: "point",
+    encoding: {
+      x,
+      y: { field: column, type: "quantitative" },
+      color: { field: flags[i].name, type: "nominal", title: "Value" },
+    },
+    palette: ANOMALY_PALETTE,
+  }));
+  if (multivariate) {
+    specs.push({
+      title: `Rows unusual across ${report.columns.length} columns`,
+      description: `${second} against ${first}, with the rows whose combination of values is unusual`,
+      mark: "point",
+      encoding: {
+        x: { field: first, type: "quantitative" },
+        y: { field: second, type: "quantitative" },
+        color: {
+          field: flags[flags.length - 1].name,
+          type: "nominal",
+          title: "Row",
+        },
+      },
+      palette: ANOMALY_PALETTE,
+    });
+  }
+
+  const indexes = sources.map((column) => data.header.indexOf(column));
+  return {
+    specs,
+    table: {
+      header: [...sources, rowColumn, ...flags.map(({ name }) => name)],
+      rows: data.rows.map((row, index) => [
+        ...indexes.map((i) => row[i] ?? ""),
+        String(index + 1),
+        ...flags.map(({ values }) => values[index]),
+      ]),
+    },
+  };
+};
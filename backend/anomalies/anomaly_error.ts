@@ -0,0 +1,35 @@
+/**
+ * Why anomalies couldn't be looked for:
+ * - `invalid_request`: the options are invalid, e.g. an unknown method or
+ *   sensitivity, or a named column that doesn't exist or isn't numeric.
+ * - `no_numeric_columns`: the data has no numeric column to check.
+ */
+export const ANOMALY_ERROR_CATEGORIES = [
+  "invalid_request",
+  "no_numeric_columns",
+] as const;
+
+export type AnomalyErrorCategory = (typeof ANOMALY_ERROR_CATEGORIES)[number];
+
+export class AnomalyError extends Error {
+  constructor(
+    readonly category: AnomalyErrorCategory,
+    message: string,
+  ) {
+    super(message);
+
+    Object.setPrototypeOf(this, AnomalyError.prototype);
+  }
+}
+
+const STATUS_BY_CATEGORY: Record<AnomalyErrorCategory, number> = {
+  invalid_request: 400,
+  no_numeric_columns: 422,
+};
+
+/**
+ * The HTTP status a route responds with when anomaly detection fails for
+ * this reason.
+ */
+export const statusForAnomalyError = (category: AnomalyErrorCategory) =>
+  STATUS_BY_CATEGORY[category];
@@ -0,0 +1,250 @@
+import { quantileOf } from "../../utils/data_profile";
+import { normalQuantile } from "../forecasting";
+
+/**
+ * How unusual values are found:
+ * - `zscore`: standard deviations from the column's mean.
+ * - `iqr`: interquartile ranges beyond the column's quartiles, as a box
+ *   plot's whiskers.
+ * - `mad`: the modified z-score, from the median and the median absolute
+ *   deviation, which outliers themselves don't skew.
+ * - `seasonal`: the modified z-score of what's left of a time series once its
+ *   trend and seasonal cycle are taken out, so a December peak is only
+ *   unusual if it's bigger than December's usually are.
+ * - `multivariate`: the Mahalanobis distance of a row's numbers from the
+ *   typical row, for combinations that are unusual even when each value
+ *   isn't.
+ */
+export const ANOMALY_METHODS = [
+  "zscore",
+  "iqr",
+  "mad",
+  "seasonal",
+  "multivariate",
+] as const;
+
+export type AnomalyMethod = (typeof ANOMALY_METHODS)[number];
+
+/** How readily values are called unusual; `high` flags the most. */
+export const ANOMALY_SENSITIVITIES = ["low", "medium", "high"] as const;
+
+export type AnomalySensitivity = (typeof ANOMALY_SENSITIVITIES)[number];
+
+// The score each method flags values above. Multivariate distances are
+// compared with the chi-square distribution, so theirs are the probability
+// a typical row falls within the threshold.
+const THRESHOLDS: Record<AnomalyMethod, Record<AnomalySensitivity, number>> = {
+  zscore: { low: 3.5, medium: 3, high: 2.5 },
+  iqr: { low: 3, medium: 1.5, high: 1 },
+  mad: { low: 5, medium: 3.5, high: 2.5 },
+  seasonal: { low: 5, medium: 3.5, high: 2.5 },
+  multivariate: { low: 0.999, medium: 0.99, high: 0.975 },
+};
+
+// Scales the median absolute deviation to a standard deviation for
+// normally distributed values, and the mean absolute deviation when the
+// median one is 0
+const MAD_SCALE = 0.6745;
+const MEAN_AD_SCALE = 1.2533;
+
+/**
+ * The chi-square value a fraction `p` of values fall below, by the
+ * Wilson-Hilferty approximation.
+ */
+export const chiSquareQuantile = (p: number, degrees: number) => {
+  const spread = 2 / (9 * degrees);
+  return degrees * (1 - spread + normalQuantile(p) * Math.sqrt(spread)) ** 3;
+};
+
+/**
+ * The score a method flags values above at a sensitivity.
+ * @param columnCount - The columns compared, for `multivariate`.
+ */
+export const anomalyThreshold = (
+  method: AnomalyMethod,
+  sensitivity: AnomalySensitivity,
+  columnCount = 1,
+) => {
+  const threshold = THRESHOLDS[method][sensitivity];
+  return method === "multivariate"
+    ? Math.sqrt(chiSquareQuantile(threshold, columnCount))
+    : threshold;
+};
+
+const mean = (values: number[]) =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const sortedOf = (values: number[]) => Float64Array.from(values).sort();
+
+/**
+ * Scores each value by how far it is from the rest, signed so values below
+ * typical are negative. Every score is 0 when the values don't vary.
+ */
+export const scoreValues = (
+  method: "zscore" | "iqr" | "mad",
+  values: number[],
+): number[] => {
+  switch (method) {
+    case "zscore": {
+      const average = mean(values);
+      const std = Math.sqrt(
+        values.reduce((sum, value) => sum + (value - average) ** 2, 0) /
+          (values.length - 1),
+      );
+      return values.map((value) => (std > 0 ? (value - average) / std : 0));
+    }
+    case "iqr": {
+      const sorted = sortedOf(values);
+      const q1 = quantileOf(sorted, 0.25);
+      const q3 = quantileOf(sorted, 0.75);
+      const iqr = q3 - q1;
+      return values.map((value) => {
+        if (iqr === 0) {
+          return 0;
+        }
+        if (value > q3) {
+          return (value - q3) / iqr;
+        }
+        return value < q1 ? (value - q1) / iqr : 0;
+      });
+    }
+    case "mad": {
+      const median = quantileOf(sortedOf(values), 0.5);
+      const deviations = values.map((value) => Math.abs(value - median));
+      const mad = quantileOf(sortedOf(deviations), 0.5);
+      const meanAd = mean(deviations);
+      return values.map((value) => {
+        if (mad > 0) {
+          return (MAD_SCALE * (value - median)) / mad;
+        }
+        return meanAd > 0 ? (value - median) / (MEAN_AD_SCALE * meanAd) : 0;
+      });
+    }
+    default:
+      return values.map(() => 0);
+  }
+};
+
+// A centred moving average over one cycle, repeating the nearest average at
+// the ends where the window doesn't fit
+const movingAverage = (values: number[], window: number) => {
+  const half = Math.floor(window / 2);
+  const averages = values.map((_, t) => {
+    if (t < half || t + half >= values.length) {
+      return undefined;
+    }
+    if (window % 2 === 1) {
+      return mean(values.slice(t - half, t + half + 1));
+    }
+    // An even window is averaged twice, half a period either side
+    return (
+      (mean(values.slice(t - half, t + half)) +
+        mean(values.slice(t - half + 1, t + half + 1))) /
+      2
+    );
+  });
+  return averages.map(
+    (average, t) =>
+      average ??
+      (averages[
+        Math.min(Math.max(t, half), values.length - 1 - half)
+      ] as number),
+  );
+};
+
+/**
+ * Scores a time series by what's left once its trend and seasonal cycle are
+ * taken out, by classical additive decomposition.
+ * @param values - One value per period, with no gaps, covering at least two
+ * cycles.
+ */
+export const scoreSeasonalResiduals = (
+  values: number[],
+  seasonLength: number,
+) => {
+  const trend = movingAverage(values, seasonLength);
+  const detrended = values.map((value, t) => value - trend[t]);
+  // The median of each point in the cycle, so an anomaly doesn't shift the
+  // cycle and make the same point of other cycles look unusual
+  const seasons = Array.from({ length: seasonLength }, (_, s) =>
+    quantileOf(
+      sortedOf(detrended.filter((_, t) => t % seasonLength === s)),
+      0.5,
+    ),
+  );
+  const offset = mean(seasons);
+  const residuals = detrended.map(
+    (value, t) => value - (seasons[t % seasonLength] - offset),
+  );
+  return scoreValues("mad", residuals);
+};
+
+// Inverts a matrix by Gauss-Jordan elimination, or returns undefined when
+// it's singular
+const invert = (matrix: number[][]) => {
+  const n = matrix.length;
+  const rows = matrix.map((row, i) => [
+    ...row,
+    ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)),
+  ]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-12) {
+      return undefined;
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    const scale = rows[col][col];
+    rows[col] = rows[col].map((value) => value / scale);
+    for (let row = 0; row < n; row++) {
+      if (row !== col) {
+        const factor = rows[row][col];
+        rows[row] = rows[row].map((value, j) => value - factor * rows[col][j]);
+      }
+    }
+  }
+  return rows.map((row) => row.slice(n));
+};
+
+/**
+ * Scores rows of numbers by their Mahalanobis distance from the mean row,
+ * which allows for how the columns vary together.
+ * @param rows - Complete rows, with a number for each column.
+ * @returns undefined if the columns are linear combinations of each other,
+ * so distances can't be measured.
+ */
+export const scoreMahalanobis = (rows: number[][]) => {
+  const k = rows[0].length;
+  const means = Array.from({ length: k }, (_, j) =>
+    mean(rows.map((row) => row[j])),
+  );
+  const centred = rows.map((row) => row.map((value, j) => value - means[j]));
+  const covariance = Array.from({ length: k }, (_, i) =>
+    Array.from(
+      { length: k },
+      (_, j) =>
+        centred.reduce((sum, row) => sum + row[i] * row[j], 0) /
+        (rows.length - 1),
+    ),
+  );
+  const inverse = invert(covariance);
+  if (!inverse) {
+    return undefined;
+  }
+  return centred.map((row) =>
+    Math.sqrt(
+      Math.max(
+        0,
+        row.reduce(
+          (sum, a, i) =>
+            sum + row.reduce((inner, b, j) => inner + a * inverse[i][j] * b, 0),
+          0,
+        ),
+      ),
+    ),
+  );
+};
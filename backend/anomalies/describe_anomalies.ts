@@ -0,0 +1,74 @@
+import type { CsvTable } from "../../utils/csv";
+import { formatProfileNumber, truncateCell } from "../../utils/data_profile";
+import type { AnomalyMethod } from "./anomaly_methods";
+import type { AnomalyReport } from "./find_anomalies";
+
+/** What each method is called when anomalies are described. */
+export const ANOMALY_METHOD_NAMES: Record<AnomalyMethod, string> = {
+  zscore: "z-score",
+  iqr: "IQR",
+  mad: "MAD (modified z-score)",
+  seasonal: "seasonal residual",
+  multivariate: "multivariate (Mahalanobis distance)",
+};
+
+export interface DescribeAnomaliesOptions {
+  /** How many of the most severe rows to list. Defaults to 20. */
+  maxRows?: number;
+}
+
+const formatNumber = (n: number) => formatProfileNumber(n);
+
+/**
+ * Describes anomalies in lines of text for a prompt: how they were looked
+ * for, how many rows were flagged, and the most severe rows with the values,
+ * methods, scores and thresholds behind each.
+ */
+export const describeAnomalies = (
+  report: AnomalyReport,
+  data: CsvTable,
+  { maxRows = 20 }: DescribeAnomaliesOptions = {},
+) => {
+  const percent = report.rowCount
+    ? (100 * report.rows.length) / report.rowCount
+    : 0;
+  const lines = [
+    `Sensitivity: ${report.sensitivity}`,
+    `Columns checked: ${report.columns.join(", ")}`,
+    `Methods and thresholds: ${report.methods
+      .map(
+        (method) =>
+          `${ANOMALY_METHOD_NAMES[method]} above ${formatNumber(report.thresholds[method] ?? 0)}`,
+      )
+      .join("; ")}`,
+    ...report.skipped.map(
+      ({ method, reason }) =>
+        `Not run: ${ANOMALY_METHOD_NAMES[method]} (${reason})`,
+    ),
+    `Rows flagged: ${report.rows.length} of ${report.rowCount} (${formatNumber(percent)}%)`,
+  ];
+  if (report.rows.length === 0) {
+    return lines.join("\n");
+  }
+  lines.push(
+    `Most severe rows (severity is the score over its threshold):`,
+    ...report.rows.slice(0, maxRows).map(({ row, severity }) => {
+      const findings = report.anomalies
+        .filter((anomaly) => anomaly.row === row)
+        .map(({ columns, method, score, threshold, direction, period }) => {
+          const values = columns
+            .map((column) => {
+              const cell = data.rows[row - 1]?.[data.header.indexOf(column)];
+              return `${column} = ${truncateCell(cell ?? "", 40)}`;
+            })
+            .join(", ");
+          return `${values}${direction ? ` (${direction})` : ""}${period ? ` in the period from ${period}` : ""}: ${ANOMALY_METHOD_NAMES[method]} score ${formatNumber(score)} > ${formatNumber(threshold)}`;
+        });
+      return `- Row ${row}, severity ${formatNumber(severity)}: ${findings.join("; ")}`;
+    }),
+  );
+  if (report.rows.length > maxRows) {
+    lines.push(`- ...and ${report.rows.length - maxRows} more rows`);
+  }
+  return lines.join("\n");
+};
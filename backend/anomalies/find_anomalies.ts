@@ -0,0 +1,436 @@
+import type { CsvTable } from "../../utils/csv";
+import {
+  isMissing,
+  NUMERIC_COLUMN_TYPES,
+  parseCsv,
+  parseDate,
+  parseNumber,
+} from "../../utils/csv";
+import type { ColumnProfile, DatasetProfile } from "../../utils/data_profile";
+import { profileDataset } from "../../utils/data_profile";
+import { floorTime } from "../charts";
+import type { TimeSeries } from "../forecasting";
+import {
+  buildTimeSeries,
+  ForecastError,
+  isoDate,
+  SEASON_LENGTHS,
+} from "../forecasting";
+import { AnomalyError } from "./anomaly_error";
+import type { AnomalyMethod, AnomalySensitivity } from "./anomaly_methods";
+import {
+  ANOMALY_METHODS,
+  ANOMALY_SENSITIVITIES,
+  anomalyThreshold,
+  scoreMahalanobis,
+  scoreSeasonalResiduals,
+  scoreValues,
+} from "./anomaly_methods";
+
+export interface AnomalyOptions {
+  /** Defaults to `mad`, `seasonal` and `multivariate`. */
+  methods?: AnomalyMethod[];
+  /** Defaults to `medium`. */
+  sensitivity?: AnomalySensitivity;
+  /**
+   * The numeric columns to check. Defaults to every numeric column that
+   * isn't an ID or constant.
+   */
+  columns?: string[];
+  /** The dates `seasonal` orders rows by. Defaults to the first date column. */
+  dateColumn?: string;
+}
+
+/**
+ * A value, or for `multivariate` a row, that a method found unusual.
+ */
+export interface Anomaly {
+  /** The row's number, counting from 1 after the header. */
+  row: number;
+  /** The column whose value is unusual, or every column compared. */
+  columns: string[];
+  method: AnomalyMethod;
+  /** How unusual the value is, in the method's units. */
+  score: number;
+  /** The score values are unusual above, at the sensitivity asked for. */
+  threshold: number;
+  /** Whether the value is above or below typical, for one column. */
+  direction?: "high" | "low";
+  /** For `seasonal`, the start of the unusual period, as an ISO date. */
+  period?: string;
+}
+
+/**
+ * A row with at least one anomaly, and how far past its threshold the most
+ * unusual one is: a severity of 2 is a score twice its threshold.
+ */
+export interface AnomalousRow {
+  row: number;
+  columns: string[];
+  methods: AnomalyMethod[];
+  severity: number;
+}
+
+export interface AnomalyReport {
+  sensitivity: AnomalySensitivity;
+  /** The methods that ran. */
+  methods: AnomalyMethod[];
+  /** The methods asked for that couldn't run, and why. */
+  skipped: { method: AnomalyMethod; reason: string }[];
+  columns: string[];
+  dateColumn?: string;
+  /** The threshold each method that ran used. */
+  thresholds: Partial<Record<AnomalyMethod, number>>;
+  rowCount: number;
+  /** Every anomaly found, by row. */
+  anomalies: Anomaly[];
+  /** The rows with anomalies, most severe first. */
+  rows: AnomalousRow[];
+}
+
+export const DEFAULT_ANOMALY_METHODS: AnomalyMethod[] = [
+  "mad",
+  "seasonal",
+  "multivariate",
+];
+
+// The fewest values a column's spread can be measured from
+const MIN_VALUES = 3;
+
+const checkOptions = ({ methods, sensitivity }: AnomalyOptions) => {
+  const unknown = methods?.find((method) => !ANOMALY_METHODS.includes(method));
+  if (unknown !== undefined) {
+    throw new AnomalyError(
+      "invalid_request",
+      `Unknown method "${unknown}"; use ${ANOMALY_METHODS.join(", ")}`,
+    );
+  }
+  if (methods?.length === 0) {
+    throw new AnomalyError("invalid_request", "Choose at least one method");
+  }
+  if (
+    sensitivity !== undefined &&
+    !ANOMALY_SENSITIVITIES.includes(sensitivity)
+  ) {
+    throw new AnomalyError(
+      "invalid_request",
+      `Unknown sensitivity "${sensitivity}"; use ${ANOMALY_SENSITIVITIES.join(", ")}`,
+    );
+  }
+};
+
+const findColumn = (profile: DatasetProfile, name: string) => {
+  const column = profile.columns.find((c) => c.name === name);
+  if (!column) {
+    throw new AnomalyError(
+      "invalid_request",
+      `The data has no column named "${name}"`,
+    );
+  }
+  return column;
+};
+
+const isMeasure = (column: ColumnProfile) =>
+  NUMERIC_COLUMN_TYPES.has(column.kind) &&
+  column.count > 0 &&
+  !column.suspectedId &&
+  !column.constant;
+
+const chooseColumns = (profile: DatasetProfile, names?: string[]) => {
+  if (!names) {
+    return profile.columns.filter(isMeasure);
+  }
+  return names.map((name) => {
+    const column = findColumn(profile, name);
+    if (!NUMERIC_COLUMN_TYPES.has(column.kind)) {
+      throw new AnomalyError(
+        "invalid_request",
+        `"${name}" isn't a column of numbers`,
+      );
+    }
+    return column;
+  });
+};
+
+const chooseDateColumn = (profile: DatasetProfile, name?: string) => {
+  if (name === undefined) {
+    return profile.columns.find((c) => c.kind === "date" && c.distinct > 1);
+  }
+  const column = findColumn(profile, name);
+  if (column.kind !== "date") {
+    throw new AnomalyError(
+      "invalid_request",
+      `"${name}" isn't a column of dates`,
+    );
+  }
+  return column;
+};
+
+const readNumbers = (table: CsvTable, column: string) => {
+  const index = table.header.indexOf(column);
+  return table.rows.map((row) =>
+    isMissing(row[index] ?? "") ? undefined : parseNumber(row[index]),
+  );
+};
+
+// Scores one column's values, skipping missing ones
+const univariateAnomalies = (
+  method: "zscore" | "iqr" | "mad",
+  column: string,
+  numbers: (number | undefined)[],
+  threshold: number,
+): Anomaly[] => {
+  const present = numbers.flatMap((value, index) =>
+    value === undefined ? [] : [{ value, index }],
+  );
+  if (present.length < MIN_VALUES) {
+    return [];
+  }
+  const scores = scoreValues(
+    method,
+    present.map(({ value }) => value),
+  );
+  return present.flatMap(({ index }, i) =>
+    Math.abs(scores[i]) > threshold
+      ? [
+          {
+            row: index + 1,
+            columns: [column],
+            method,
+            score: Math.abs(scores[i]),
+            threshold,
+            direction: scores[i] > 0 ? ("high" as const) : ("low" as const),
+          },
+        ]
+      : [],
+  );
+};
+
+// Scores each column's totals per period, and flags every row in an
+// unusual period
+const seasonalAnomalies = (
+  table: CsvTable,
+  profile: DatasetProfile,
+  dateColumn: string,
+  column: string,
+  threshold: number,
+): Anomaly[] | string => {
+  let series: TimeSeries;
+  try {
+    series = buildTimeSeries(table, profile, {
+      dateColumn,
+      targetColumn: column,
+    });
+  } catch (e) {
+    if (e instanceof ForecastError) {
+      return e.message;
+    }
+    throw e;
+  }
+  const seasonLength = SEASON_LENGTHS[series.frequency];
+  if (seasonLength < 2) {
+    return `Dates a ${series.frequency} apart have no seasonal cycle`;
+  }
+  if (series.points.length < 2 * seasonLength) {
+    return `Needs two cycles of ${seasonLength} periods; the data spans ${series.points.length}`;
+  }
+  const scores = scoreSeasonalResiduals(
+    series.points.map(({ value }) => value),
+    seasonLength,
+  );
+  const unusual = new Map(
+    series.points.flatMap(({ period, filled }, i) =>
+      !filled && Math.abs(scores[i]) > threshold
+        ? [[period, scores[i]] as const]
+        : [],
+    ),
+  );
+  const dateIndex = table.header.indexOf(dateColumn);
+  const numbers = readNumbers(table, column);
+  return table.rows.flatMap((row, index) => {
+    const time = isMissing(row[dateIndex] ?? "")
+      ? undefined
+      : parseDate(row[dateIndex]);
+    if (time === undefined || numbers[index] === undefined) {
+      return [];
+    }
+    const period = isoDate(floorTime(time, series.frequency));
+    const score = unusual.get(period);
+    return score === undefined
+      ? []
+      : [
+          {
+            row: index + 1,
+            columns: [column],
+            method: "seasonal" as const,
+            score: Math.abs(score),
+            threshold,
+            direction: score > 0 ? ("high" as const) : ("low" as const),
+            period,
+          },
+        ];
+  });
+};
+
+// Scores the rows with a number in every column by their distance from the
+// typical row
+const multivariateAnomalies = (
+  table: CsvTable,
+  columns: string[],
+  threshold: number,
+): Anomaly[] | string => {
+  if (columns.length < 2) {
+    return "Needs at least 2 numeric columns";
+  }
+  const numbers = columns.map((column) => readNumbers(table, column));
+  const complete = table.rows.flatMap((_, index) => {
+    const values = numbers.map((column) => column[index]);
+    return values.every((value) => value !== undefined)
+      ? [{ index, values: values as number[] }]
+      : [];
+  });
+  if (complete.length <= columns.length + 1) {
+    return `Needs more than ${columns.length + 1} rows with a number in every column`;
+  }
+  const distances = scoreMahalanobis(complete.map(({ values }) => values));
+  if (!distances) {
+    return "Some columns are combinations of others, so distances can't be measured";
+  }
+  return complete.flatMap(({ index }, i) =>
+    distances[i] > threshold
+      ? [
+          {
+            row: index + 1,
+            columns,
+            method: "multivariate" as const,
+            score: distances[i],
+            threshold,
+          },
+        ]
+      : [],
+  );
+};
+
+// Gathers the anomalies of each row
+const summarizeRows = (anomalies: Anomaly[]): AnomalousRow[] => {
+  const rows = new Map<number, AnomalousRow>();
+  for (const anomaly of anomalies) {
+    const row = rows.get(anomaly.row) ?? {
+      row: anomaly.row,
+      columns: [],
+      methods: [],
+      severity: 0,
+    };
+    for (const column of anomaly.columns) {
+      if (!row.columns.includes(column)) {
+        row.columns.push(column);
+      }
+    }
+    if (!row.methods.includes(anomaly.method)) {
+      row.methods.push(anomaly.method);
+    }
+    row.severity = Math.max(row.severity, anomaly.score / anomaly.threshold);
+    rows.set(anomaly.row, row);
+  }
+  return [...rows.values()].sort(
+    (a, b) => b.severity - a.severity || a.row - b.row,
+  );
+};
+
+/**
+ * Looks for unusual values in a dataset's numeric columns with each method
+ * asked for. Methods that can't run on the data, such as `seasonal` without
+ * dates, are skipped with the reason.
+ * @param data - The dataset as CSV text with a header row, or already parsed.
+ * @param profile - The dataset's profile, if it's already been made.
+ * @throws AnomalyError if the options are invalid or there's nothing to check.
+ */
+export const findAnomalies = (
+  data: string | CsvTable,
+  options: AnomalyOptions = {},
+  profile?: DatasetProfile,
+): AnomalyReport => {
+  checkOptions(options);
+  const table = typeof data === "string" ? parseCsv(data) : data;
+  const dataProfile = profile ?? profileDataset(table);
+  const columns = chooseColumns(dataProfile, options.columns).map(
+    ({ name }) => name,
+  );
+  if (columns.length === 0) {
+    throw new AnomalyError(
+      "no_numeric_columns",
+      "The data has no numeric column to look for anomalies in",
+    );
+  }
+  const sensitivity = options.sensitivity ?? "medium";
+  const dateColumn = chooseDateColumn(dataProfile, options.dateColumn)?.name;
+
+  const methods: AnomalyMethod[] = [];
+  const skipped: AnomalyReport["skipped"] = [];
+  const thresholds: AnomalyReport["thresholds"] = {};
+  const anomalies: Anomaly[] = [];
+  for (const method of options.methods ?? DEFAULT_ANOMALY_METHODS) {
+    const threshold = anomalyThreshold(method, sensitivity, columns.length);
+    let found: Anomaly[] | string;
+    switch (method) {
+      case "zscore":
+      case "iqr":
+      case "mad":
+        found = columns.flatMap((column) =>
+          univariateAnomalies(
+            method,
+            column,
+            readNumbers(table, column),
+            threshold,
+          ),
+        );
+        break;
+      case "seasonal":
+        if (!dateColumn) {
+          found = "The data has no column of dates";
+          break;
+        }
+        found = [];
+        for (const column of columns) {
+          const result = seasonalAnomalies(
+            table,
+            dataProfile,
+            dateColumn,
+            column,
+            threshold,
+          );
+          // Every column shares the dates, so one can't run if none can
+          if (typeof result === "string") {
+            found = result;
+            break;
+          }
+          found.push(...result);
+        }
+        break;
+      case "multivariate":
+        found = multivariateAnomalies(table, columns, threshold);
+        break;
+      default:
+        found = `Unknown method "${method}"`;
+    }
+    if (typeof found === "string") {
+      skipped.push({ method, reason: found });
+    } else {
+      methods.push(method);
+      thresholds[method] = threshold;
+      anomalies.push(...found);
+    }
+  }
+
+  return {
+    sensitivity,
+    methods,
+    skipped,
+    columns,
+    dateColumn,
+    thresholds,
+    rowCount: table.rows.length,
+    anomalies: anomalies.sort((a, b) => a.row - b.row),
+    rows: summarizeRows(anomalies),
+  };
+};
@@ -0,0 +1,26 @@
+export { ANOMALY_FLAGS, anomalyCharts } from "./anomaly_charts";
+export type { AnomalyErrorCategory } from "./anomaly_error";
+export {
+  ANOMALY_ERROR_CATEGORIES,
+  AnomalyError,
+  statusForAnomalyError,
+} from "./anomaly_error";
+export type { AnomalyMethod, AnomalySensitivity } from "./anomaly_methods";
+export {
+  ANOMALY_METHODS,
+  ANOMALY_SENSITIVITIES,
+  anomalyThreshold,
+  chiSquareQuantile,
+  scoreMahalanobis,
+  scoreSeasonalResiduals,
+  scoreValues,
+} from "./anomaly_methods";
+export type { DescribeAnomaliesOptions } from "./describe_anomalies";
+export { ANOMALY_METHOD_NAMES, describeAnomalies } from "./describe_anomalies";
+export type {
+  AnomalousRow,
+  Anomaly,
+  AnomalyOptions,
+  AnomalyReport,
+} from "./find_anomalies";
+export { DEFAULT_ANOMALY_METHODS, findAnomalies } from "./find_anomalies";
@@ -0,0 +1,204 @@
+/** @jest-environment node */
+import { parseCsv } from "../../../utils/csv";
+import {
+  AnomalyError,
+  anomalyCharts,
+  anomalyThreshold,
+  describeAnomalies,
+  findAnomalies,
+  scoreValues,
+} from "../index";
+
+// Orders with one huge amount in row 7
+const ORDERS = [
+  "Region,Amount,Discount",
+  ...Array.from({ length: 20 }, (_, i) => {
+    const amount = i === 6 ? 900 : 100 + 5 * i;
+    return `${i % 2 ? "North" : "South"},${amount},${10 + (i % 3)}`;
+  }),
+].join("\n");
+
+// Discounts that grow with the amount, but not in row 15, whose discount is
+// ordinary on its own yet far too small for its amount
+const DISCOUNTS = [
+  "Amount,Discount",
+  ...Array.from({ length: 20 }, (_, i) => {
+    const amount = 100 + 5 * i;
+    const discount = i === 14 ? 12 : amount / 10 + (i % 3) * 0.5;
+    return `${amount},${discount}`;
+  }),
+].join("\n");
+
+// Three years of monthly sales that peak each summer, with a March in the
+// second year as high as a summer
+const monthlySales = () => {
+  const cycle = [10, 12, 15, 20, 30, 40, 45, 40, 30, 20, 15, 12];
+  return [
+    "Month,Sales",
+    ...Array.from({ length: 36 }, (_, i) => {
+      const month = new Date(Date.UTC(2021, i, 1)).toISOString().slice(0, 10);
+      const sales = i === 14 ? 44 : cycle[i % 12] + (i % 4) - 1.5;
+      return `${month},${sales}`;
+    }),
+  ].join("\n");
+};
+
+const categoryOf = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (e) {
+    return e instanceof AnomalyError ? e.category : e;
+  }
+  return undefined;
+};
+
+describe("scoreValues", () => {
+  it("scores values by how far they are from the rest", () => {
+    const values = [1, 2, 3, 4, 5, 6, 7, 8, 9, 100];
+
+    const [low, , , , , , , , , high] = scoreValues("mad", values);
+    expect(high).toBeCloseTo((0.6745 * (100 - 5.5)) / 2.5, 6);
+    expect(low).toBeLessThan(0);
+    expect(scoreValues("iqr", values)[9]).toBeCloseTo((100 - 7.75) / 4.5, 6);
+    expect(scoreValues("zscore", [4, 4, 4])).toEqual([0, 0, 0]);
+  });
+});
+
+describe("findAnomalies", () => {
+  it("flags unusual values with the method, score and threshold", () => {
+    const report = findAnomalies(ORDERS, { methods: ["mad", "iqr"] });
+
+    expect(report).toMatchObject({
+      sensitivity: "medium",
+      methods: ["mad", "iqr"],
+      columns: ["Amount", "Discount"],
+      thresholds: { mad: 3.5, iqr: 1.5 },
+      rowCount: 20,
+    });
+    const amount = report.anomalies.filter(
+      ({ columns }) => columns[0] === "Amount",
+    );
+    expect(amount.map(({ row, method }) => [row, method])).toEqual([
+      [7, "mad"],
+      [7, "iqr"],
+    ]);
+    expect(amount[0]).toMatchObject({ direction: "high", threshold: 3.5 });
+    expect(amount[0].score).toBeGreaterThan(3.5);
+    expect(report.rows[0]).toMatchObject({ row: 7, columns: ["Amount"] });
+  });
+
+  it("flags more at a higher sensitivity", () => {
+    const flagged = (sensitivity: "low" | "high") =>
+      findAnomalies(ORDERS, { methods: ["zscore"], sensitivity }).rows.length;
+
+    expect(anomalyThreshold("zscore", "high")).toBe(2.5);
+    expect(flagged("high")).toBeGreaterThanOrEqual(flagged("low"));
+    expect(flagged("low")).toBeGreaterThan(0);
+  });
+
+  it("finds rows whose combination of values is unusual", () => {
+    const report = findAnomalies(DISCOUNTS, { methods: ["multivariate"] });
+
+    expect(report.thresholds.multivariate).toBeCloseTo(Math.sqrt(9.21), 1);
+    expect(report.anomalies.map(({ row }) => row)).toEqual([15]);
+    expect(report.anomalies.find(({ row }) => row === 15)?.columns).toEqual([
+      "Amount",
+      "Discount",
+    ]);
+  });
+
+  it("finds values unusual for their season", () => {
+    const csv = monthlySales();
+
+    const seasonal = findAnomalies(csv, { methods: ["seasonal", "mad"] });
+
+    expect(seasonal.dateColumn).toBe("Month");
+    expect(
+      seasonal.anomalies
+        .filter(({ method }) => method === "seasonal")
+        .map(({ row, period }) => [row, period]),
+    ).toEqual([[15, "2022-03-01"]]);
+    // The value itself isn't unusual for the year
+    expect(seasonal.anomalies.some(({ method }) => method === "mad")).toBe(
+      false,
+    );
+  });
+
+  it("skips methods the data can't support, saying why", () => {
+    const report = findAnomalies(ORDERS, {
+      methods: ["seasonal", "mad"],
+      columns: ["Amount"],
+    });
+
+    expect(report.methods).toEqual(["mad"]);
+    expect(report.skipped).toEqual([
+      { method: "seasonal", reason: "The data has no column of dates" },
+    ]);
+    expect(
+      findAnomalies(ORDERS, { methods: ["multivariate"], columns: ["Amount"] })
+        .skipped[0].reason,
+    ).toBe("Needs at least 2 numeric columns");
+  });
+
+  it("rejects data and options it can't use", () => {
+    expect(categoryOf(() => findAnomalies("Region\nNorth\nSouth"))).toBe(
+      "no_numeric_columns",
+    );
+    expect(
+      categoryOf(() =>
+        findAnomalies(ORDERS, { sensitivity: "extreme" as "high" }),
+      ),
+    ).toBe("invalid_request");
+    expect(
+      categoryOf(() => findAnomalies(ORDERS, { columns: ["Region"] })),
+    ).toBe("invalid_request");
+  });
+});
+
+describe("anomalyCharts", () => {
+  it("charts each column with its anomalies flagged", () => {
+    const table = parseCsv(ORDERS);
+    const report = findAnomalies(table, {
+      methods: ["mad", "multivariate"],
+    });
+
+    const { specs, table: chartTable } = anomalyCharts(report, table);
+
+    expect(specs.map(({ title }) => title)).toEqual([
+      "Unusual Amount values",
+      "Rows unusual across 2 columns",
+    ]);
+    expect(specs[0].encoding).toMatchObject({
+      x: { field: "Row", type: "quantitative" },
+      color: { field: "Amount anomaly" },
+    });
+    expect(chartTable.header).toEqual([
+      "Amount",
+      "Discount",
+      "Row",
+      "Amount anomaly",
+      "Unusual row",
+    ]);
+    expect(chartTable.rows[6].slice(2, 4)).toEqual(["7", "Anomaly"]);
+    expect(chartTable.rows[0][3]).toBe("Normal");
+  });
+});
+
+describe("describeAnomalies", () => {
+  it("lists the most severe rows with the evidence for each", () => {
+    const table = parseCsv(ORDERS);
+
+    const text = describeAnomalies(
+      findAnomalies(table, { methods: ["mad"], columns: ["Amount"] }),
+      table,
+    );
+
+    expect(text).toContain(
+      "Methods and thresholds: MAD (modified z-score) above 3.5",
+    );
+    expect(text).toContain("Rows flagged: 1 of 20 (5%)");
+    expect(text).toMatch(
+      /- Row 7, severity [\d.]+: Amount = 900 \(high\): MAD \(modified z-score\) score [\d.]+ > 3\.5/,
+    );
+  });
+});
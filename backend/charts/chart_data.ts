@@ -0,0 +1,282 @@
+import type {
+  ChannelEncoding,
+  ChartEncoding,
+  ChartSpec,
+  TimeUnit,
+} from "../../utils/chart_spec";
+import type { CsvTable } from "../../utils/csv";
+import { isMissing, parseDate, parseNumber } from "../../utils/csv";
+import { ChartRenderError } from "./chart_render_error";
+
+export type ChannelName = keyof ChartEncoding;
+
+export const CHANNEL_NAMES: readonly ChannelName[] = [
+  "x",
+  "y",
+  "color",
+  "theta",
+];
+
+export type ChartValue = number | string;
+
+/**
+ * The values one mark shows, by channel. Dates are milliseconds since the
+ * epoch, binned values are the start of their bin, and categories are the
+ * cell text.
+ */
+export type ChartDatum = Partial<Record<ChannelName, ChartValue>>;
+
+export interface ChartData {
+  rows: ChartDatum[];
+  /** The bin width of each binned channel. */
+  binSteps: Partial<Record<ChannelName, number>>;
+}
+
+// Matches Vega-Lite's default number of bins
+const DEFAULT_MAXBINS = 10;
+
+const isCounted = ({ aggregate }: ChannelEncoding) =>
+  aggregate === "count" || aggregate === "distinct";
+
+/**
+ * Floors a date to the start of its period. Dates are floored in UTC, which
+ * is how `Date.parse` reads ISO dates, and weeks start on Monday.
+ */
+export const floorTime = (time: number, unit: TimeUnit) => {
+  const date = new Date(time);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  switch (unit) {
+    case "year":
+      return Date.UTC(year, 0, 1);
+    case "quarter":
+      return Date.UTC(year, month - (month % 3), 1);
+    case "month":
+      return Date.UTC(year, month, 1);
+    case "week":
+      // Weeks start on Monday
+      return Date.UTC(
+        year,
+        month,
+        date.getUTCDate() - ((date.getUTCDay() + 6) % 7),
+      );
+    case "day":
+      return Date.UTC(year, month, date.getUTCDate());
+    default:
+      return time;
+  }
+};
+
+const readValue = (
+  cell: string,
+  channel: ChannelEncoding,
+): ChartValue | undefined => {
+  if (isMissing(cell)) {
+    return undefined;
+  }
+  if (channel.type === "quantitative" && !isCounted(channel)) {
+    return parseNumber(cell);
+  }
+  if (channel.type === "temporal") {
+    const time = parseDate(cell);
+    return time === undefined || channel.timeUnit == null
+      ? time
+      : floorTime(time, channel.timeUnit);
+  }
+  return cell.trim();
+};
+
+/**
+ * A round bin width that splits `min` to `max` into at most `maxbins` bins.
+ */
+export const binStep = (min: number, max: number, maxbins: number) => {
+  const raw = (max - min) / maxbins;
+  if (!(raw > 0)) {
+    return 1;
+  }
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  return (
+    [1, 2, 5, 10].map((m) => m * magnitude).find((step) => step >= raw) ??
+    10 * magnitude
+  );
+};
+
+const binValues = (rows: ChartDatum[], name: ChannelName, maxbins: number) => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const row of rows) {
+    const value = row[name] as number;
+    min = value < min ? value : min;
+    max = value > max ? value : max;
+  }
+  const step = binStep(min, max, maxbins);
+  for (const row of rows) {
+    row[name] = Math.floor((row[name] as number) / step) * step;
+  }
+  return step;
+};
+
+/**
+ * Orders chart values: numbers and dates numerically, text naturally, so
+ * "Week 2" comes before "Week 10".
+ */
+export const compareValues = (a: ChartValue, b: ChartValue) =>
+  typeof a === "number" && typeof b === "number"
+    ? a - b
+    : String(a).localeCompare(String(b), undefined, { numeric: true });
+
+export const median = (sorted: ArrayLike<number>) => {
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const aggregateValues = (
+  channel: ChannelEncoding,
+  values: ChartValue[],
+): number => {
+  const numbers = values as number[];
+  switch (channel.aggregate) {
+    case "count":
+      return values.length;
+    case "distinct":
+      return new Set(values).size;
+    case "sum":
+      return numbers.reduce((total, n) => total + n, 0);
+    case "mean":
+      return numbers.reduce((total, n) => total + n, 0) / numbers.length;
+    case "median":
+      return median(Float64Array.from(numbers).sort());
+    case "min":
+      return numbers.reduce((least, n) => (n < least ? n : least), Infinity);
+    case "max":
+      return numbers.reduce((most, n) => (n > most ? n : most), -Infinity);
+    default:
+      throw new ChartRenderError(`Unknown aggregate "${channel.aggregate}"`);
+  }
+};
+
+// Groups rows by the unaggregated channels and aggregates the others
+const aggregateRows = (
+  rows: ChartDatum[],
+  keys: ChannelName[],
+  measures: readonly (readonly [ChannelName, ChannelEncoding])[],
+): ChartDatum[] => {
+  const groups = new Map<
+    string,
+    { key: ChartDatum; values: Map<ChannelName, ChartValue[]>; size: number }
+  >();
+  for (const row of rows) {
+    const id = JSON.stringify(keys.map((name) => row[name]));
+    let group = groups.get(id);
+    if (!group) {
+      const key: ChartDatum = {};
+      for (const name of keys) {
+        key[name] = row[name];
+      }
+      group = { key, values: new Map(), size: 0 };
+      groups.set(id, group);
+    }
+    group.size++;
+    for (const [name] of measures) {
+      if (row[name] !== undefined) {
+        const values = group.values.get(name) ?? [];
+        values.push(row[name] as ChartValue);
+        group.values.set(name, values);
+      }
+    }
+  }
+
+  return [...groups.values()].map(({ key, values, size }) => {
+    const datum = { ...key };
+    for (const [name, channel] of measures) {
+      datum[name] =
+        channel.field == null
+          ? size
+          : aggregateValues(channel, values.get(name) ?? []);
+    }
+    return datum;
+  });
+};
+
+const sortRows = (rows: ChartDatum[], spec: ChartSpec, keys: ChannelName[]) => {
+  const byChannel = (name: ChannelName, direction: number) => {
+    rows.sort(
+      (a, b) =>
+        direction * compareValues(a[name] as ChartValue, b[name] as ChartValue),
+    );
+  };
+  // Categories and dates in ascending order unless the spec says otherwise
+  for (const name of [...keys].reverse()) {
+    byChannel(name, 1);
+  }
+  for (const name of CHANNEL_NAMES) {
+    const sort = spec.encoding[name]?.sort;
+    if (sort === "ascending" || sort === "descending") {
+      byChannel(name, sort === "ascending" ? 1 : -1);
+    } else if (sort != null) {
+      const other = sort.replace("-", "") as ChannelName;
+      byChannel(other, sort.startsWith("-") ? -1 : 1);
+    }
+  }
+};
+
+/**
+ * Reads the values a chart spec shows out of a table: converts each encoded
+ * column to its encoding type, drops rows missing any of them, bins and
+ * aggregates, then sorts. Mirrors the Python renderer, so both draw the same
+ * chart.
+ * @throws ChartRenderError if the spec names a column the table doesn't have.
+ */
+export const prepareChartData = (
+  spec: ChartSpec,
+  table: CsvTable,
+): ChartData => {
+  const channels = CHANNEL_NAMES.flatMap((name) => {
+    const channel = spec.encoding[name];
+    return channel ? [[name, channel] as const] : [];
+  });
+
+  const fields = channels.flatMap(([name, channel]) => {
+    if (channel.field == null) {
+      return [];
+    }
+    const index = table.header.indexOf(channel.field);
+    if (index === -1) {
+      throw new ChartRenderError(`Unknown column "${channel.field}"`);
+    }
+    return [[name, channel, index] as const];
+  });
+
+  const rows: ChartDatum[] = [];
+  for (const cells of table.rows) {
+    const row: ChartDatum = {};
+    const complete = fields.every(([name, channel, index]) => {
+      row[name] = readValue(cells[index], channel);
+      return row[name] !== undefined;
+    });
+    if (complete) {
+      rows.push(row);
+    }
+  }
+
+  const binSteps: ChartData["binSteps"] = {};
+  for (const [name, channel] of channels) {
+    if (channel.bin && rows.length > 0) {
+      const maxbins =
+        typeof channel.bin === "object" ? channel.bin.maxbins : DEFAULT_MAXBINS;
+      binSteps[name] = binValues(rows, name, maxbins);
+    }
+  }
+
+  const measures = channels.filter(([, channel]) => channel.aggregate != null);
+  const keys = channels
+    .filter(([, channel]) => channel.aggregate == null)
+    .map(([name]) => name);
+  const result =
+    measures.length > 0 ? aggregateRows(rows, keys, measures) : rows;
+
+  sortRows(result, spec, keys);
+  return { rows: result, binSteps };
+};
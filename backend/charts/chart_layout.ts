@@ -0,0 +1,340 @@
+import { CHART_THEME, textWidth, truncateLabel } from "./chart_theme";
+import type { ChartValue } from "./chart_data";
+import type { Scale } from "./scales";
+import { element, escapeXml } from "./svg";
+
+/**
+ * A rectangle of the chart, in SVG pixels.
+ */
+export interface Box {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export type Legend =
+  | {
+      kind: "swatches";
+      title: string;
+      entries: { label: string; color: string }[];
+    }
+  | {
+      kind: "gradient";
+      title: string;
+      /** The colours from lowest to highest. */
+      stops: string[];
+      low: string;
+      high: string;
+    };
+
+const SWATCH_SIZE = 12;
+const LEGEND_ROW_HEIGHT = 20;
+const GRADIENT_WIDTH = 14;
+const GRADIENT_HEIGHT = 200;
+
+export const text = (
+  content: string,
+  attributes: Record<string, string | number | undefined>,
+) =>
+  element(
+    "text",
+    {
+      "font-size": CHART_THEME.labelSize,
+      fill: CHART_THEME.textColor,
+      ...attributes,
+    },
+    escapeXml(content),
+  );
+
+export const legendWidth = (legend: Legend) => {
+  const title = textWidth(legend.title, CHART_THEME.legendSize);
+  if (legend.kind === "gradient") {
+    const labels = Math.max(
+      textWidth(legend.low, CHART_THEME.legendSize),
+      textWidth(legend.high, CHART_THEME.legendSize),
+    );
+    return Math.max(title, GRADIENT_WIDTH + 8 + labels);
+  }
+  const labels = legend.entries.map((entry) =>
+    textWidth(truncateLabel(entry.label), CHART_THEME.legendSize),
+  );
+  return Math.max(title, SWATCH_SIZE + 8 + Math.max(0, ...labels));
+};
+
+/**
+ * Draws a legend with its top left corner at `left`, `top`. Swatch legends
+ * that don't fit in `maxHeight` end with a count of the entries left out.
+ */
+export const drawLegend = (
+  legend: Legend,
+  left: number,
+  top: number,
+  maxHeight: number,
+) => {
+  const size = CHART_THEME.legendSize;
+  const elements = [
+    text(legend.title, {
+      x: left,
+      y: top + size,
+      "font-size": size,
+      "font-weight": "bold",
+    }),
+  ];
+
+  if (legend.kind === "gradient") {
+    const barTop = top + size + 10;
+    elements.push(
+      element("defs", {}, [
+        element(
+          "linearGradient",
+          { id: "legend-gradient", x1: 0, y1: 1, x2: 0, y2: 0 },
+          legend.stops.map((color, index) =>
+            element("stop", {
+              offset: index / Math.max(1, legend.stops.length - 1),
+              "stop-color": color,
+            }),
+          ),
+        ),
+      ]),
+      element("rect", {
+        x: left,
+        y: barTop,
+        width: GRADIENT_WIDTH,
+        height: GRADIENT_HEIGHT,
+        fill: "url(#legend-gradient)",
+      }),
+      text(legend.high, {
+        x: left + GRADIENT_WIDTH + 8,
+        y: barTop + size * 0.8,
+        "font-size": size,
+      }),
+      text(legend.low, {
+        x: left + GRADIENT_WIDTH + 8,
+        y: barTop + GRADIENT_HEIGHT,
+        "font-size": size,
+      }),
+    );
+    return elements;
+  }
+
+  const fits = Math.max(
+    1,
+    Math.floor((maxHeight - size - 10) / LEGEND_ROW_HEIGHT),
+  );
+  const shown =
+    legend.entries.length > fits
+      ? legend.entries.slice(0, fits - 1)
+      : legend.entries;
+  shown.forEach(({ label, color }, index) => {
+    const rowTop = top + size + 10 + index * LEGEND_ROW_HEIGHT;
+    elements.push(
+      element("rect", {
+        x: left,
+        y: rowTop,
+        width: SWATCH_SIZE,
+        height: SWATCH_SIZE,
+        rx: 2,
+        fill: color,
+      }),
+      text(truncateLabel(label), {
+        x: left + SWATCH_SIZE + 8,
+        y: rowTop + SWATCH_SIZE - 1,
+        "font-size": size,
+      }),
+    );
+  });
+  if (shown.length < legend.entries.length) {
+    elements.push(
+      text(`+${legend.entries.length - shown.length} more`, {
+        x: left,
+        y: top + size + 10 + shown.length * LEGEND_ROW_HEIGHT + SWATCH_SIZE - 1,
+        "font-size": size,
+        fill: CHART_THEME.mutedTextColor,
+      }),
+    );
+  }
+  return elements;
+};
+
+/**
+ * A plot area with axes. `x` and `y` map values to pixels; on band scales
+ * they give the start of the value's band, which is `xBand` or `yBand`
+ * pixels wide. Continuous y values grow upwards; categories on y run from
+ * the top down.
+ */
+export interface CartesianFrame {
+  plot: Box;
+  x(value: ChartValue): number;
+  y(value: ChartValue): number;
+  xBand: number;
+  yBand: number;
+  /** Gridlines, drawn under the marks. */
+  grid: string[];
+  /** Axes, their labels and titles, and the legend. */
+  axes: string[];
+}
+
+// Shows every nth label when there are too many to fit
+const labelStride = (count: number, space: number, labelSpace: number) =>
+  Math.max(1, Math.ceil((count * labelSpace) / Math.max(1, space)));
+
+/**
+ * Lays out a plot area in `area`, leaving room for tick labels, axis titles
+ * and the legend, and draws the axes.
+ */
+export const cartesianFrame = (
+  area: Box,
+  xScale: Scale,
+  yScale: Scale,
+  {
+    xTitle,
+    yTitle,
+    legend,
+  }: { xTitle?: string; yTitle?: string; legend?: Legend },
+): CartesianFrame => {
+  const { labelSize, axisTitleSize } = CHART_THEME;
+  const xLabels = xScale.ticks.map((tick) => truncateLabel(tick.label));
+  const yLabels = yScale.ticks.map((tick) => truncateLabel(tick.label));
+  const widest = (labels: string[]) =>
+    Math.max(0, ...labels.map((label) => textWidth(label, labelSize)));
+
+  const left =
+    area.left + 12 + (yTitle ? axisTitleSize + 12 : 0) + widest(yLabels) + 8;
+  const right =
+    area.left + area.width - (legend ? legendWidth(legend) + 32 : 24);
+
+  // Category labels are turned on their side when they'd overlap
+  const xCategorical = xScale.kind !== "linear";
+  const slot = (right - left) / Math.max(1, xLabels.length);
+  const rotate = xCategorical && widest(xLabels) + 8 > slot;
+  const xLabelHeight = rotate
+    ? (widest(xLabels) + labelSize) * Math.SQRT1_2
+    : labelSize;
+  const bottom =
+    area.top +
+    area.height -
+    (10 + xLabelHeight + 10 + (xTitle ? axisTitleSize + 10 : 0));
+  const plot: Box = {
+    left,
+    top: area.top + 10,
+    width: Math.max(1, right - left),
+    height: Math.max(1, bottom - area.top - 10),
+  };
+
+  const x = (value: ChartValue) =>
+    plot.left + xScale.position(value) * plot.width;
+  const y = (value: ChartValue) =>
+    yScale.kind === "linear"
+      ? plot.top + (1 - yScale.position(value)) * plot.height
+      : plot.top + yScale.position(value) * plot.height;
+  const xBand = xScale.bandwidth * plot.width;
+  const yBand = yScale.bandwidth * plot.height;
+  const plotBottom = plot.top + plot.height;
+
+  const grid: string[] = [];
+  const axes: string[] = [];
+  const gridLine = (x1: number, y1: number, x2: number, y2: number) =>
+    element("line", {
+      x1,
+      y1,
+      x2,
+      y2,
+      stroke: CHART_THEME.gridColor,
+      "stroke-width": 1,
+    });
+
+  if (yScale.kind === "linear") {
+    for (const tick of yScale.ticks) {
+      grid.push(gridLine(plot.left, y(tick.value), right, y(tick.value)));
+    }
+  }
+  if (xScale.kind === "linear") {
+    for (const tick of xScale.ticks) {
+      grid.push(gridLine(x(tick.value), plot.top, x(tick.value), plotBottom));
+    }
+  }
+
+  axes.push(
+    element("line", {
+      x1: plot.left,
+      y1: plotBottom,
+      x2: right,
+      y2: plotBottom,
+      stroke: CHART_THEME.axisColor,
+    }),
+  );
+
+  const xStride = rotate
+    ? labelStride(xLabels.length, plot.width, labelSize + 4)
+    : 1;
+  xScale.ticks.forEach((tick, index) => {
+    if (index % xStride !== 0) {
+      return;
+    }
+    const center = x(tick.value) + xBand / 2;
+    const top = plotBottom + 8;
+    axes.push(
+      rotate
+        ? text(xLabels[index], {
+            x: center,
+            y: top + labelSize * 0.7,
+            "text-anchor": "end",
+            transform: `rotate(-45 ${Math.round(center)} ${Math.round(top)})`,
+          })
+        : text(xLabels[index], {
+            x: center,
+            y: top + labelSize,
+            "text-anchor": "middle",
+          }),
+    );
+  });
+
+  const yStride =
+    yScale.kind === "linear"
+      ? 1
+      : labelStride(yLabels.length, plot.height, labelSize + 4);
+  yScale.ticks.forEach((tick, index) => {
+    if (index % yStride !== 0) {
+      return;
+    }
+    axes.push(
+      text(yLabels[index], {
+        x: plot.left - 8,
+        y: y(tick.value) + yBand / 2 + labelSize * 0.35,
+        "text-anchor": "end",
+      }),
+    );
+  });
+
+  if (xTitle) {
+    axes.push(
+      text(xTitle, {
+        x: plot.left + plot.width / 2,
+        y: area.top + area.height - 10,
+        "text-anchor": "middle",
+        "font-size": axisTitleSize,
+        "font-weight": "bold",
+      }),
+    );
+  }
+  if (yTitle) {
+    const titleX = area.left + 12 + axisTitleSize;
+    const titleY = plot.top + plot.height / 2;
+    axes.push(
+      text(yTitle, {
+        x: titleX,
+        y: titleY,
+        "text-anchor": "middle",
+        "font-size": axisTitleSize,
+        "font-weight": "bold",
+        transform: `rotate(-90 ${Math.round(titleX)} ${Math.round(titleY)})`,
+      }),
+    );
+  }
+  if (legend) {
+    axes.push(...drawLegend(legend, right + 24, plot.top, plot.height));
+  }
+
+  return { plot, x, y, xBand, yBand, grid, axes };
+};
@@ -0,0 +1,20 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { ChartSpec } from "../../utils/chart_spec";
+
+const RENDERER_PATH = path.join(__dirname, "chart_renderer.py");
+
+let renderer: string | undefined;
+
+/**
+ * The Python that draws these charts in the sandbox, one figure per spec in
+ * order. The specs are embedded as JSON string literals, which Python reads
+ * the same way, so nothing in them is ever run as code.
+ */
+export const chartSpecsToPython = (specs: ChartSpec[]): string => {
+  renderer ??= fs.readFileSync(RENDERER_PATH, "utf8");
+  const calls = specs.map(
+    (spec) => `draw_chart(json.loads(${JSON.stringify(JSON.stringify(spec))}))`,
+  );
+  return [renderer, ...calls].join("\n");
+};
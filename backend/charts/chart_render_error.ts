@@ -0,0 +1,11 @@
+/**
+ * A chart spec couldn't be drawn from the data it was given, e.g. it names a
+ * column the CSV doesn't have.
+ */
+export class ChartRenderError extends Error {
+  constructor(message: string) {
+    super(message);
+
+    Object.setPrototypeOf(this, ChartRenderError.prototype);
+  }
+}
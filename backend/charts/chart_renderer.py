@@ -0,0 +1,298 @@
+"""Draws chart specs (see utils/chart_spec.ts) with pandas and matplotlib.
+
+chart_python.ts appends one `draw_chart(...)` call per spec to this file and
+runs the result in the Python sandbox, where `data`, `pd`, `np`, `plt` and
+`sns` are already defined. Specs have been checked against the dataset's
+columns before they get here, so a spec that still can't be drawn fails the
+job with a runtime error.
+"""
+
+import json
+
+from matplotlib.colors import LinearSegmentedColormap
+
+# Pandas names for the spec's aggregates. A `count` without a field counts
+# rows, which is `size`.
+AGGREGATES = {
+    "sum": "sum",
+    "mean": "mean",
+    "median": "median",
+    "min": "min",
+    "max": "max",
+    "count": "count",
+    "distinct": "nunique",
+}
+
+TIME_UNITS = {"year": "Y", "quarter": "Q", "month": "M", "week": "W", "day": "D"}
+
+# Matches Vega-Lite's default number of bins
+DEFAULT_MAXBINS = 10
+
+# Strips what parseNumber in dataset_summary.ts ignores
+NUMBER_NOISE = r"[$€£,%\s]"
+
+
+def channel_title(channel):
+    if channel.get("title"):
+        return channel["title"]
+    field = channel.get("field")
+    aggregate = channel.get("aggregate")
+    if field is None:
+        return "Count"
+    if aggregate:
+        return f"{aggregate.capitalize()} of {field}"
+    return field
+
+
+def channel_values(channel):
+    """The column a channel shows, converted to its encoding type."""
+    values = data[channel["field"]]
+    counted = channel.get("aggregate") in ("count", "distinct")
+    if channel["type"] == "quantitative" and not counted:
+        if values.dtype == object:
+            values = values.astype(str).str.replace(NUMBER_NOISE, "", regex=True)
+        values = pd.to_numeric(values, errors="coerce")
+    elif channel["type"] == "temporal":
+        values = pd.to_datetime(values, errors="coerce")
+        unit = channel.get("timeUnit")
+        if unit:
+            values = values.dt.to_period(TIME_UNITS[unit]).dt.start_time
+    if channel.get("bin"):
+        bins = channel["bin"]
+        maxbins = bins["maxbins"] if isinstance(bins, dict) else DEFAULT_MAXBINS
+        values = pd.cut(values, bins=int(maxbins))
+    return values
+
+
+def tidy(spec):
+    """One column per channel, aggregated when any channel has an aggregate."""
+    encoding = spec["encoding"]
+    frame = pd.DataFrame(index=data.index)
+    for name, channel in encoding.items():
+        if channel.get("field") is not None:
+            frame[name] = channel_values(channel)
+    frame = frame.dropna()
+
+    measures = [name for name, channel in encoding.items() if channel.get("aggregate")]
+    if not measures:
+        return frame
+    keys = [name for name in encoding if name not in measures]
+
+    result = {}
+    for name in measures:
+        channel = encoding[name]
+        how = AGGREGATES[channel["aggregate"]]
+        if not keys:
+            result[name] = [len(frame) if name not in frame else frame[name].agg(how)]
+        elif name not in frame:
+            result[name] = frame.groupby(keys, observed=False).size()
+        else:
+            result[name] = frame.groupby(keys, observed=False)[name].agg(how)
+    if not keys:
+        return pd.DataFrame(result)
+    return pd.DataFrame(result).fillna(0).reset_index()
+
+
+def sort_frame(frame, spec):
+    for name, channel in spec["encoding"].items():
+        order = channel.get("sort")
+        if not order or name not in frame:
+            continue
+        by = name if order in ("ascending", "descending") else order.lstrip("-")
+        ascending = order == "ascending" or order in ("x", "y")
+        frame = frame.sort_values(by, ascending=ascending, kind="stable")
+    return frame
+
+
+def format_value(value, channel):
+    if isinstance(value, pd.Timestamp):
+        unit = channel.get("timeUnit")
+        if unit == "year":
+            return value.strftime("%Y")
+        if unit == "quarter":
+            return f"{value.year} Q{value.quarter}"
+        if unit == "month":
+            return value.strftime("%b %Y")
+        return value.strftime("%Y-%m-%d")
+    if isinstance(value, float) and value.is_integer():
+        return str(int(value))
+    return str(value)
+
+
+def series_colors(spec, count):
+    palette = spec.get("palette")
+    if palette:
+        return [palette[index % len(palette)] for index in range(count)]
+    if count == 1 and spec.get("color"):
+        return [spec["color"]]
+    return sns.color_palette("husl", count)
+
+
+def split_series(frame, spec):
+    """(label, rows, colour) for each series the color channel splits into."""
+    if "color" not in frame:
+        return [(None, frame, series_colors(spec, 1)[0])]
+    groups = list(frame.groupby("color", sort=False))
+    colors = series_colors(spec, len(groups))
+    channel = spec["encoding"]["color"]
+    return [
+        (format_value(key, channel), rows, colors[index])
+        for index, (key, rows) in enumerate(groups)
+    ]
+
+
+def label_categories(ax, axis, labels):
+    if axis == "x":
+        rotate = len(labels) > 8 or any(len(label) > 8 for label in labels)
+        ax.set_xticklabels(labels, rotation=45 if rotate else 0, ha="right" if rotate else "center")
+    else:
+        ax.set_yticklabels(labels)
+
+
+def draw_bar(ax, frame, spec):
+    encoding = spec["encoding"]
+    horizontal = encoding["x"]["type"] == "quantitative" and encoding["y"]["type"] != "quantitative"
+    category, value = ("y", "x") if horizontal else ("x", "y")
+    series = split_series(frame, spec)
+
+    if encoding[category].get("bin"):
+        for label, rows, color in series:
+            lefts = [interval.left for interval in rows[category]]
+            widths = [interval.length for interval in rows[category]]
+            alpha = 0.7 if len(series) > 1 else 1
+            ax.bar(lefts, rows[value], width=widths, align="edge", color=color, edgecolor="white", alpha=alpha, label=label)
+        return
+
+    categories = list(dict.fromkeys(frame[category]))
+    positions = np.arange(len(categories))
+    width = 0.8 / len(series)
+    for index, (label, rows, color) in enumerate(series):
+        totals = rows.groupby(category, sort=False)[value].sum()
+        values = [totals.get(key, 0) for key in categories]
+        offsets = positions - 0.4 + width * (index + 0.5)
+        if horizontal:
+            ax.barh(offsets, values, height=width, color=color, label=label)
+        else:
+            ax.bar(offsets, values, width=width, color=color, label=label)
+
+    labels = [format_value(key, encoding[category]) for key in categories]
+    if horizontal:
+        ax.set_yticks(positions)
+        label_categories(ax, "y", labels)
+        ax.invert_yaxis()
+    else:
+        ax.set_xticks(positions)
+        label_categories(ax, "x", labels)
+
+
+def binned_to_midpoints(frame, spec):
+    for name, channel in spec["encoding"].items():
+        if channel.get("bin") and name in frame:
+            frame[name] = frame[name].map(lambda interval: interval.mid).astype(float)
+    return frame
+
+
+def draw_line(ax, frame, spec, filled=False):
+    frame = binned_to_midpoints(frame, spec)
+    if spec["encoding"]["x"]["type"] != "nominal" and not spec["encoding"]["x"].get("sort"):
+        frame = frame.sort_values("x", kind="stable")
+    for label, rows, color in split_series(frame, spec):
+        marker = "o" if len(rows) <= 30 else None
+        ax.plot(rows["x"], rows["y"], marker=marker, linewidth=2, color=color, label=label)
+        if filled:
+            ax.fill_between(rows["x"], rows["y"], alpha=0.3, color=color)
+
+
+def draw_area(ax, frame, spec):
+    draw_line(ax, frame, spec, filled=True)
+
+
+def draw_point(ax, frame, spec):
+    frame = binned_to_midpoints(frame, spec)
+    for label, rows, color in split_series(frame, spec):
+        ax.scatter(rows["x"], rows["y"], s=40, alpha=0.7, color=color, label=label)
+
+
+def draw_arc(ax, frame, spec):
+    totals = frame.groupby("color", sort=False)["theta"].sum()
+    totals = totals[totals > 0]
+    channel = spec["encoding"]["color"]
+    labels = [format_value(key, channel) for key in totals.index]
+    inner = spec.get("innerRadius") or 0
+    wedges = {"edgecolor": "white"}
+    if inner:
+        wedges["width"] = 1 - inner
+    ax.pie(
+        totals.values,
+        labels=labels,
+        colors=series_colors(spec, len(totals)),
+        autopct="%1.1f%%",
+        startangle=90,
+        counterclock=False,
+        wedgeprops=wedges,
+        pctdistance=1 - (1 - inner) / 2 if inner else 0.6,
+    )
+    ax.axis("equal")
+
+
+def draw_rect(ax, frame, spec):
+    encoding = spec["encoding"]
+    table = frame.pivot_table(index="y", columns="x", values="color", aggfunc="mean", observed=False)
+    table.index = [format_value(key, encoding["y"]) for key in table.index]
+    table.columns = [format_value(key, encoding["x"]) for key in table.columns]
+    palette = spec.get("palette")
+    cmap = LinearSegmentedColormap.from_list("spec", palette) if palette and len(palette) > 1 else "viridis"
+    sns.heatmap(
+        table,
+        ax=ax,
+        cmap=cmap,
+        annot=table.size <= 150,
+        fmt=".3g",
+        linewidths=0.5,
+        cbar_kws={"label": channel_title(encoding["color"])},
+    )
+
+
+def draw_boxplot(ax, frame, spec):
+    encoding = spec["encoding"]
+    if "x" in frame:
+        groups = list(frame.groupby("x", sort=True))
+        values = [rows["y"] for _, rows in groups]
+        labels = [format_value(key, encoding["x"]) for key, _ in groups]
+    else:
+        values = [frame["y"]]
+        labels = [channel_title(encoding["y"])]
+    boxes = ax.boxplot(values, patch_artist=True)
+    for box, color in zip(boxes["boxes"], series_colors(spec, len(values))):
+        box.set_facecolor(color)
+        box.set_alpha(0.8)
+    ax.set_xticks(range(1, len(values) + 1))
+    label_categories(ax, "x", labels)
+
+
+MARKS = {
+    "bar": draw_bar,
+    "line": draw_line,
+    "area": draw_area,
+    "point": draw_point,
+    "arc": draw_arc,
+    "rect": draw_rect,
+    "boxplot": draw_boxplot,
+}
+
+
+def draw_chart(spec):
+    fig, ax = plt.subplots(figsize=(10, 6))
+    frame = sort_frame(tidy(spec), spec)
+    MARKS[spec["mark"]](ax, frame, spec)
+
+    encoding = spec["encoding"]
+    if spec["mark"] not in ("arc",):
+        if "x" in encoding:
+            ax.set_xlabel(channel_title(encoding["x"]))
+        if "y" in encoding:
+            ax.set_ylabel(channel_title(encoding["y"]))
+    if spec["mark"] in ("bar", "line", "area", "point") and "color" in frame:
+        ax.legend(title=channel_title(encoding["color"]))
+    ax.set_title(spec["title"], fontsize=14, fontweight="bold")
+    fig.tight_layout()
@@ -0,0 +1,285 @@
+import type {
+  ChannelEncoding,
+  ChartEncoding,
+  ChartMark,
+  ChartSpec,
+} from "../../utils/chart_spec";
+import {
+  CHANNEL_SORTS,
+  CHART_AGGREGATES,
+  CHART_MARKS,
+  ENCODING_TYPES,
+  TIME_UNITS,
+} from "../../utils/chart_spec";
+import { NUMERIC_COLUMN_TYPES } from "../../utils/csv";
+import type { ColumnProfile } from "../dataset";
+import type { Schema } from "../llm";
+import { schema } from "../llm";
+
+const { array, boolean, number, object, oneOf, optional, string } = schema;
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const hexColor: Schema<string> = {
+  description: 'CSS hex colour such as "#4c78a8"',
+  validate(value, path, issues) {
+    if (typeof value !== "string" || !HEX_COLOR.test(value.trim())) {
+      issues.push(
+        `${path}: expected a hex colour such as "#4c78a8", got ${JSON.stringify(value)}`,
+      );
+      return undefined;
+    }
+    return value.trim();
+  },
+};
+
+// Vega-Lite accepts either `true` or the binning parameters
+const bin: Schema<boolean | { maxbins: number }> = {
+  description: 'boolean | { "maxbins": number }',
+  validate(value, path, issues) {
+    if (typeof value === "object" && value != null && !Array.isArray(value)) {
+      return object({ maxbins: number({ min: 2, max: 200 }) }).validate(
+        value,
+        path,
+        issues,
+      );
+    }
+    return boolean().validate(value, path, issues);
+  },
+};
+
+const channel = object({
+  field: optional(string({ minLength: 1 })),
+  type: oneOf(ENCODING_TYPES),
+  aggregate: optional(oneOf(CHART_AGGREGATES)),
+  bin: optional(bin),
+  timeUnit: optional(oneOf(TIME_UNITS)),
+  sort: optional(oneOf(CHANNEL_SORTS)),
+  title: optional(string()),
+});
+
+/**
+ * The shape of a chart spec, without checking it against any dataset.
+ */
+export const chartSpecShape: Schema<ChartSpec> = object({
+  title: string({ minLength: 1 }),
+  description: optional(string()),
+  mark: oneOf(CHART_MARKS),
+  encoding: object({
+    x: optional(channel),
+    y: optional(channel),
+    color: optional(channel),
+    theta: optional(channel),
+  }),
+  innerRadius: optional(number({ min: 0, max: 0.9 })),
+  color: optional(hexColor),
+  palette: optional(array(hexColor, { minItems: 1 })),
+});
+
+type ChannelName = keyof ChartEncoding;
+
+// The channels each mark needs, and the ones it can't use
+const MARK_CHANNELS: Record<
+  ChartMark,
+  { required: ChannelName[]; unused: ChannelName[] }
+> = {
+  bar: { required: ["x", "y"], unused: ["theta"] },
+  line: { required: ["x", "y"], unused: ["theta"] },
+  area: { required: ["x", "y"], unused: ["theta"] },
+  point: { required: ["x", "y"], unused: ["theta"] },
+  arc: { required: ["theta", "color"], unused: ["x", "y"] },
+  rect: { required: ["x", "y", "color"], unused: ["theta"] },
+  boxplot: { required: ["y"], unused: ["theta", "color"] },
+};
+
+// Aggregates that work on any column, since they only count
+const COUNTING_AGGREGATES = new Set(["count", "distinct"]);
+
+const normalizeName = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// The column the model most likely meant by a name that doesn't exist
+const closestColumn = (field: string, columns: ColumnProfile[]) => {
+  const wanted = normalizeName(field);
+  return (
+    columns.find(({ name }) => normalizeName(name) === wanted) ??
+    columns.find(({ name }) => {
+      const candidate = normalizeName(name);
+      return (
+        candidate.length > 0 &&
+        (candidate.includes(wanted) || wanted.includes(candidate))
+      );
+    })
+  );
+};
+
+const describeUnknownColumn = (field: string, columns: ColumnProfile[]) => {
+  const closest = closestColumn(field, columns);
+  return closest
+    ? `unknown column ${JSON.stringify(field)}, did you mean ${JSON.stringify(closest.name)}?`
+    : `unknown column ${JSON.stringify(field)}; the columns are ${columns
+        .map(({ name }) => JSON.stringify(name))
+        .join(", ")}`;
+};
+
+const validateChannel = (
+  name: ChannelName,
+  encoding: ChannelEncoding,
+  spec: ChartSpec,
+  columns: ColumnProfile[],
+  path: string,
+  issues: string[],
+) => {
+  const { field, type, aggregate, bin, timeUnit, sort } = encoding;
+
+  if (field == null) {
+    if (aggregate !== "count") {
+      issues.push(`${path}.field: required unless aggregate is "count"`);
+    }
+  } else {
+    const column = columns.find((column) => column.name === field);
+    if (!column) {
+      issues.push(`${path}.field: ${describeUnknownColumn(field, columns)}`);
+    } else {
+      const numeric = NUMERIC_COLUMN_TYPES.has(column.kind);
+      const counted = aggregate != null && COUNTING_AGGREGATES.has(aggregate);
+      if (aggregate != null && !counted && !numeric) {
+        issues.push(
+          `${path}.aggregate: "${aggregate}" needs a numeric column, but ${JSON.stringify(field)} is ${column.kind}; use "count" or "distinct"`,
+        );
+      } else if (type === "quantitative" && !numeric && !counted) {
+        issues.push(
+          `${path}.type: ${JSON.stringify(field)} is ${column.kind}, not numeric; use "nominal" or aggregate "count"`,
+        );
+      }
+      if (type === "temporal" && column.kind !== "date") {
+        issues.push(
+          `${path}.type: ${JSON.stringify(field)} is ${column.kind}, not a date; use "ordinal" or "nominal"`,
+        );
+      }
+    }
+  }
+
+  if (bin && type !== "quantitative") {
+    issues.push(`${path}.bin: only quantitative fields can be binned`);
+  }
+  if (timeUnit != null && type !== "temporal") {
+    issues.push(`${path}.timeUnit: only temporal fields have a time unit`);
+  }
+  if (sort != null && !["ascending", "descending"].includes(sort)) {
+    const other = sort.replace("-", "") as ChannelName;
+    if (other === name || !spec.encoding[other]) {
+      issues.push(
+        `${path}.sort: "${sort}" must name another channel of this chart`,
+      );
+    }
+  }
+};
+
+/**
+ * Checks that a chart spec can be drawn from a dataset: every field names one
+ * of its columns, each channel's type and aggregate suit the column's values,
+ * and the mark has the channels it needs. Issues are pushed to `issues` in
+ * the same form schema validation uses, so they can be shown to the model.
+ */
+export const validateChartSpec = (
+  spec: ChartSpec,
+  columns: ColumnProfile[],
+  path: string,
+  issues: string[],
+) => {
+  const { required, unused } = MARK_CHANNELS[spec.mark];
+  for (const name of required) {
+    if (!spec.encoding[name]) {
+      issues.push(
+        `${path}.encoding.${name}: required for "${spec.mark}" charts`,
+      );
+    }
+  }
+  for (const name of unused) {
+    if (spec.encoding[name]) {
+      issues.push(
+        `${path}.encoding.${name}: "${spec.mark}" charts don't use ${name}`,
+      );
+    }
+  }
+
+  for (const name of ["x", "y", "color", "theta"] as const) {
+    const encoding = spec.encoding[name];
+    if (encoding) {
+      validateChannel(
+        name,
+        encoding,
+        spec,
+        columns,
+        `${path}.encoding.${name}`,
+        issues,
+      );
+    }
+  }
+
+  const { x, y, color, theta } = spec.encoding;
+  const channels = [x, y, color, theta];
+  if (
+    channels.some((channel) => channel?.bin) &&
+    !channels.some((channel) => channel?.aggregate)
+  ) {
+    issues.push(
+      `${path}.encoding: binned charts need an aggregate on another channel, e.g. "count" on y`,
+    );
+  }
+  if (color && spec.mark === "rect" && color.type !== "quantitative") {
+    issues.push(`${path}.encoding.color: must be quantitative for heatmaps`);
+  }
+  if (color && spec.mark !== "rect" && color.type === "quantitative") {
+    issues.push(
+      `${path}.encoding.color: splits "${spec.mark}" charts into series, so it must be nominal, ordinal or temporal`,
+    );
+  }
+  if (
+    spec.mark === "boxplot" &&
+    y &&
+    (y.type !== "quantitative" || y.aggregate)
+  ) {
+    issues.push(
+      `${path}.encoding.y: box plots need an unaggregated quantitative y`,
+    );
+  }
+  if (spec.mark === "arc" && theta && theta.type !== "quantitative") {
+    issues.push(`${path}.encoding.theta: must be quantitative`);
+  }
+  if (
+    ["bar", "line", "area"].includes(spec.mark) &&
+    x &&
+    y &&
+    x.type !== "quantitative" &&
+    y.type !== "quantitative"
+  ) {
+    issues.push(
+      `${path}.encoding: "${spec.mark}" charts need a quantitative x or y`,
+    );
+  }
+  if (spec.innerRadius != null && spec.mark !== "arc") {
+    issues.push(`${path}.innerRadius: only "arc" charts have an inner radius`);
+  }
+};
+
+/**
+ * A chart spec that must also be drawable from a dataset with these columns.
+ * Used in response schemas, so the model is asked to fix specs that name
+ * columns that don't exist or encode them in ways that can't be drawn.
+ */
+export const chartSpecSchema = (
+  columns: ColumnProfile[],
+): Schema<ChartSpec> => ({
+  description: chartSpecShape.description,
+  validate(value, path, issues) {
+    const spec = chartSpecShape.validate(value, path, issues);
+    if (spec === undefined) {
+      return undefined;
+    }
+    const issueCount = issues.length;
+    validateChartSpec(spec, columns, path, issues);
+    return issues.length === issueCount ? spec : undefined;
+  },
+});
@@ -0,0 +1,717 @@
+import type {
+  ChannelEncoding,
+  ChartMark,
+  ChartSpec,
+} from "../../utils/chart_spec";
+import type { CsvTable } from "../../utils/csv";
+import type {
+  ChannelName,
+  ChartData,
+  ChartDatum,
+  ChartValue,
+} from "./chart_data";
+import { compareValues, prepareChartData } from "./chart_data";
+import type { Box, CartesianFrame, Legend } from "./chart_layout";
+import { cartesianFrame, drawLegend, legendWidth, text } from "./chart_layout";
+import { ChartRenderError } from "./chart_render_error";
+import {
+  CHART_THEME,
+  interpolateColor,
+  isDark,
+  textWidth,
+  truncateLabel,
+} from "./chart_theme";
+import type { Scale } from "./scales";
+import {
+  bandScale,
+  formatNumber,
+  linearScale,
+  pointScale,
+  timeScale,
+} from "./scales";
+import { element, linePath } from "./svg";
+
+export interface ChartSvgOptions {
+  /** Defaults to the theme's size, 1000 by 600. */
+  width?: number;
+  height?: number;
+}
+
+interface MarkContext {
+  spec: ChartSpec;
+  data: ChartData;
+  /** The space below the title. */
+  area: Box;
+}
+
+type MarkRenderer = (context: MarkContext) => string[];
+
+interface Series {
+  label?: string;
+  rows: ChartDatum[];
+  color: string;
+}
+
+const TITLE_HEIGHT = 56;
+
+const channelTitle = (channel: ChannelEncoding) => {
+  if (channel.title) {
+    return channel.title;
+  }
+  if (channel.field == null) {
+    return "Count";
+  }
+  return channel.aggregate
+    ? `${channel.aggregate[0].toUpperCase()}${channel.aggregate.slice(1)} of ${channel.field}`
+    : channel.field;
+};
+
+/**
+ * Labels a value the way the Python renderer does: dates at the precision
+ * of their time unit, bins as ranges.
+ */
+const formatValue = (
+  value: ChartValue,
+  channel: ChannelEncoding | undefined,
+  binStep?: number,
+) => {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (channel?.type === "temporal") {
+    const date = new Date(value);
+    switch (channel.timeUnit) {
+      case "year":
+        return String(date.getUTCFullYear());
+      case "quarter":
+        return `${date.getUTCFullYear()} Q${Math.floor(date.getUTCMonth() / 3) + 1}`;
+      case "month":
+        return date.toLocaleString("en-US", {
+          month: "short",
+          year: "numeric",
+          timeZone: "UTC",
+        });
+      default:
+        return date.toISOString().slice(0, 10);
+    }
+  }
+  if (binStep !== undefined) {
+    return `${formatNumber(value, binStep)}–${formatNumber(value + binStep, binStep)}`;
+  }
+  return formatNumber(value);
+};
+
+const required = (spec: ChartSpec, name: ChannelName) => {
+  const channel = spec.encoding[name];
+  if (!channel) {
+    throw new ChartRenderError(
+      `A ${spec.mark} chart needs a "${name}" channel`,
+    );
+  }
+  return channel;
+};
+
+const distinct = (rows: ChartDatum[], name: ChannelName) => [
+  ...new Set(rows.map((row) => row[name] as ChartValue)),
+];
+
+const seriesColors = (spec: ChartSpec, count: number) => {
+  const palette = spec.palette?.length
+    ? spec.palette
+    : count === 1 && spec.color
+      ? [spec.color]
+      : CHART_THEME.palette;
+  return Array.from(
+    { length: count },
+    (_, index) => palette[index % palette.length],
+  );
+};
+
+// One series per value of the color channel, in ascending order unless the
+// channel is sorted some other way
+const splitSeries = (spec: ChartSpec, rows: ChartDatum[]): Series[] => {
+  const channel = spec.encoding.color;
+  if (!channel) {
+    return [{ rows, color: seriesColors(spec, 1)[0] }];
+  }
+  const groups = new Map<ChartValue, ChartDatum[]>();
+  for (const row of rows) {
+    const value = row.color as ChartValue;
+    groups.set(value, [...(groups.get(value) ?? []), row]);
+  }
+  const entries = [...groups];
+  if (channel.sort == null) {
+    entries.sort(([a], [b]) => compareValues(a, b));
+  }
+  const colors = seriesColors(spec, entries.length);
+  return entries.map(([value, groupRows], index) => ({
+    label: formatValue(value, channel),
+    rows: groupRows,
+    color: colors[index],
+  }));
+};
+
+const seriesLegend = (spec: ChartSpec, series: Series[]): Legend | undefined =>
+  spec.encoding.color && {
+    kind: "swatches",
+    title: channelTitle(spec.encoding.color),
+    entries: series.map(({ label, color }) => ({
+      label: label ?? "",
+      color,
+    })),
+  };
+
+const categoryLabels = (
+  values: ChartValue[],
+  channel: ChannelEncoding,
+  binStep?: number,
+) => values.map((value) => truncateLabel(formatValue(value, channel, binStep)));
+
+// A scale for a channel drawn as positions: dates and numbers along a
+// continuous axis, categories evenly spaced
+const positionScale = (
+  rows: ChartDatum[],
+  name: ChannelName,
+  channel: ChannelEncoding,
+  { zero = false }: { zero?: boolean } = {},
+): Scale => {
+  const values = rows.map((row) => row[name] as ChartValue);
+  if (channel.type === "temporal") {
+    return timeScale(values as number[]);
+  }
+  if (channel.type === "quantitative") {
+    return linearScale(values as number[], { zero });
+  }
+  const categories = distinct(rows, name);
+  return pointScale(categories, categoryLabels(categories, channel));
+};
+
+// Lines and points mark the middle of each bin
+const binMidpoints = ({ rows, binSteps }: ChartData) =>
+  rows.map((row) => {
+    const moved = { ...row };
+    for (const [name, step] of Object.entries(binSteps)) {
+      moved[name] = (row[name] as number) + step / 2;
+    }
+    return moved;
+  });
+
+const frameLayers = (frame: CartesianFrame, marks: string[]) => [
+  ...frame.grid,
+  ...marks,
+  ...frame.axes,
+];
+
+const drawBar: MarkRenderer = ({ spec, data, area }) => {
+  const x = required(spec, "x");
+  const y = required(spec, "y");
+  // Bars lie on their side when the categories are on the y axis
+  const horizontal =
+    x.type === "quantitative" &&
+    !x.bin &&
+    (y.type !== "quantitative" || Boolean(y.bin));
+  const category: ChannelName = horizontal ? "y" : "x";
+  const measure: ChannelName = horizontal ? "x" : "y";
+  const series = splitSeries(spec, data.rows);
+  const binStep = data.binSteps[category];
+
+  const totals = series.map(({ rows }) => {
+    const sums = new Map<ChartValue, number>();
+    for (const row of rows) {
+      const key = row[category] as ChartValue;
+      sums.set(key, (sums.get(key) ?? 0) + (row[measure] as number));
+    }
+    return sums;
+  });
+  const categories = distinct(data.rows, category);
+  const categoryScale =
+    binStep === undefined
+      ? bandScale(categories, categoryLabels(categories, horizontal ? y : x))
+      : linearScale([
+          ...(categories as number[]),
+          ...(categories as number[]).map((start) => start + binStep),
+        ]);
+  const valueScale = linearScale(
+    totals.flatMap((sums) => [...sums.values()]),
+    { zero: true },
+  );
+
+  const frame = cartesianFrame(
+    area,
+    horizontal ? valueScale : categoryScale,
+    horizontal ? categoryScale : valueScale,
+    {
+      xTitle: channelTitle(x),
+      yTitle: channelTitle(y),
+      legend: seriesLegend(spec, series),
+    },
+  );
+  const categoryPixel = horizontal ? frame.y : frame.x;
+  const valuePixel = horizontal ? frame.x : frame.y;
+  const band = horizontal ? frame.yBand : frame.xBand;
+
+  const bars = series.flatMap(({ color }, index) =>
+    [...totals[index]].map(([key, value]) => {
+      let [c0, c1] = [0, 0];
+      if (binStep === undefined) {
+        const width = band / series.length;
+        c0 = categoryPixel(key) + index * width;
+        c1 = c0 + width;
+      } else {
+        // Overlapping histograms are see-through; a hairline separates bins
+        [c0, c1] = [
+          categoryPixel(key),
+          categoryPixel((key as number) + binStep),
+        ].sort((a, b) => a - b);
+        [c0, c1] = [c0 + 0.5, c1 - 0.5];
+      }
+      const [v0, v1] = [valuePixel(0), valuePixel(value)].sort((a, b) => a - b);
+      return element("rect", {
+        x: horizontal ? v0 : c0,
+        y: horizontal ? c0 : v0,
+        width: horizontal ? v1 - v0 : c1 - c0,
+        height: horizontal ? c1 - c0 : v1 - v0,
+        fill: color,
+        "fill-opacity":
+          binStep !== undefined && series.length > 1 ? 0.7 : undefined,
+      });
+    }),
+  );
+  return frameLayers(frame, bars);
+};
+
+const drawLineOrArea = ({ spec, data, area }: MarkContext, filled: boolean) => {
+  const x = required(spec, "x");
+  const y = required(spec, "y");
+  const rows = binMidpoints(data);
+  const series = splitSeries(spec, rows);
+  const frame = cartesianFrame(
+    area,
+    positionScale(rows, "x", x),
+    positionScale(rows, "y", y, { zero: filled }),
+    {
+      xTitle: channelTitle(x),
+      yTitle: channelTitle(y),
+      legend: seriesLegend(spec, series),
+    },
+  );
+
+  const marks = series.flatMap(({ rows: seriesRows, color }) => {
+    const points = seriesRows.map((row): [number, number] => [
+      frame.x(row.x as ChartValue),
+      frame.y(row.y as ChartValue),
+    ]);
+    const elements: string[] = [];
+    if (filled && points.length > 0) {
+      const baseline = frame.y(0);
+      elements.push(
+        element("path", {
+          d: `${linePath(points)} L${points[points.length - 1][0]} ${baseline} L${points[0][0]} ${baseline} Z`,
+          fill: color,
+          "fill-opacity": 0.3,
+        }),
+      );
+    }
+    elements.push(
+      element("path", {
+        d: linePath(points),
+        fill: "none",
+        stroke: color,
+        "stroke-width": 2.5,
+        "stroke-linejoin": "round",
+      }),
+    );
+    // Markers only while they don't crowd the line
+    if (points.length <= 30) {
+      elements.push(
+        ...points.map(([cx, cy]) =>
+          element("circle", {
+            cx,
+            cy,
+            r: 3.5,
+            fill: color,
+            stroke: CHART_THEME.background,
+            "stroke-width": 1.5,
+          }),
+        ),
+      );
+    }
+    return elements;
+  });
+  return frameLayers(frame, marks);
+};
+
+const drawPoint: MarkRenderer = ({ spec, data, area }) => {
+  const x = required(spec, "x");
+  const y = required(spec, "y");
+  const rows = binMidpoints(data);
+  const series = splitSeries(spec, rows);
+  const frame = cartesianFrame(
+    area,
+    positionScale(rows, "x", x),
+    positionScale(rows, "y", y),
+    {
+      xTitle: channelTitle(x),
+      yTitle: channelTitle(y),
+      legend: seriesLegend(spec, series),
+    },
+  );
+  const marks = series.flatMap(({ rows: seriesRows, color }) =>
+    seriesRows.map((row) =>
+      element("circle", {
+        cx: frame.x(row.x as ChartValue),
+        cy: frame.y(row.y as ChartValue),
+        r: 4.5,
+        fill: color,
+        "fill-opacity": 0.7,
+      }),
+    ),
+  );
+  return frameLayers(frame, marks);
+};
+
+const polar = (cx: number, cy: number, radius: number, angle: number) =>
+  [cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)] as const;
+
+// A slice from `start` to `end` radians, clockwise from three o'clock. Each
+// arc goes via its midpoint, so no half is more than a semicircle and a
+// slice of the whole pie still draws.
+const slicePath = (
+  cx: number,
+  cy: number,
+  outer: number,
+  inner: number,
+  start: number,
+  end: number,
+) => {
+  const middle = (start + end) / 2;
+  const arc = (radius: number, angles: number[], sweep: 0 | 1) =>
+    angles
+      .map((angle) => {
+        const [px, py] = polar(cx, cy, radius, angle);
+        return `A${radius} ${radius} 0 0 ${sweep} ${px} ${py}`;
+      })
+      .join(" ");
+  const [ox, oy] = polar(cx, cy, outer, start);
+  if (inner <= 0) {
+    return `M${cx} ${cy} L${ox} ${oy} ${arc(outer, [middle, end], 1)} Z`;
+  }
+  const [ix, iy] = polar(cx, cy, inner, end);
+  return `M${ox} ${oy} ${arc(outer, [middle, end], 1)} L${ix} ${iy} ${arc(inner, [middle, start], 0)} Z`;
+};
+
+const drawArc: MarkRenderer = ({ spec, data, area }) => {
+  required(spec, "theta");
+  const color = required(spec, "color");
+  const totals = new Map<ChartValue, number>();
+  for (const row of data.rows) {
+    const key = row.color as ChartValue;
+    totals.set(key, (totals.get(key) ?? 0) + (row.theta as number));
+  }
+  const slices = [...totals].filter(([, value]) => value > 0);
+  const sum = slices.reduce((total, [, value]) => total + value, 0);
+  if (sum === 0) {
+    return [noData(area)];
+  }
+  const colors = seriesColors(spec, slices.length);
+  const legend: Legend = {
+    kind: "swatches",
+    title: channelTitle(color),
+    entries: slices.map(([key], index) => ({
+      label: formatValue(key, color),
+      color: colors[index],
+    })),
+  };
+
+  const legendLeft = area.left + area.width - legendWidth(legend) - 32;
+  const outer = Math.max(
+    10,
+    Math.min(legendLeft - area.left - 48, area.height - 32) / 2,
+  );
+  const inner = outer * (spec.innerRadius ?? 0);
+  const cx = area.left + (legendLeft - area.left) / 2;
+  const cy = area.top + area.height / 2;
+
+  const elements: string[] = [];
+  let angle = -Math.PI / 2;
+  slices.forEach(([, value], index) => {
+    const share = value / sum;
+    const end = angle + share * 2 * Math.PI;
+    elements.push(
+      element("path", {
+        d: slicePath(cx, cy, outer, inner, angle, end),
+        fill: colors[index],
+        stroke: CHART_THEME.background,
+        "stroke-width": 2,
+      }),
+    );
+    // Slivers are left unlabelled rather than covered in overlapping text
+    if (share >= 0.04) {
+      const [lx, ly] = polar(
+        cx,
+        cy,
+        inner > 0 ? (outer + inner) / 2 : outer * 0.62,
+        (angle + end) / 2,
+      );
+      elements.push(
+        text(`${(share * 100).toFixed(1)}%`, {
+          x: lx,
+          y: ly + CHART_THEME.labelSize * 0.35,
+          "text-anchor": "middle",
+          fill: isDark(colors[index]) ? "#ffffff" : CHART_THEME.textColor,
+        }),
+      );
+    }
+    angle = end;
+  });
+  elements.push(...drawLegend(legend, legendLeft, area.top + 10, area.height));
+  return elements;
+};
+
+const drawRect: MarkRenderer = ({ spec, data, area }) => {
+  const x = required(spec, "x");
+  const y = required(spec, "y");
+  const color = required(spec, "color");
+
+  // Rows that share a cell are averaged, like a pivot table
+  const cells = new Map<
+    string,
+    { x: ChartValue; y: ChartValue; sum: number; count: number }
+  >();
+  for (const row of data.rows) {
+    const id = JSON.stringify([row.x, row.y]);
+    const cell = cells.get(id) ?? {
+      x: row.x as ChartValue,
+      y: row.y as ChartValue,
+      sum: 0,
+      count: 0,
+    };
+    cell.sum += row.color as number;
+    cell.count++;
+    cells.set(id, cell);
+  }
+  const xValues = distinct(data.rows, "x").sort(compareValues);
+  const yValues = distinct(data.rows, "y").sort(compareValues);
+  const means = [...cells.values()].map((cell) => cell.sum / cell.count);
+  let [low, high] = [Infinity, -Infinity];
+  for (const value of means) {
+    [low, high] = [Math.min(low, value), Math.max(high, value)];
+  }
+  const stops =
+    spec.palette && spec.palette.length > 1
+      ? spec.palette
+      : CHART_THEME.sequential;
+
+  const frame = cartesianFrame(
+    area,
+    bandScale(xValues, categoryLabels(xValues, x, data.binSteps.x), {
+      padding: 0.04,
+    }),
+    bandScale(yValues, categoryLabels(yValues, y, data.binSteps.y), {
+      padding: 0.04,
+    }),
+    {
+      xTitle: channelTitle(x),
+      yTitle: channelTitle(y),
+      legend: {
+        kind: "gradient",
+        title: channelTitle(color),
+        stops,
+        low: formatNumber(low),
+        high: formatNumber(high),
+      },
+    },
+  );
+
+  // Values are written in the cells while there's room to read them
+  const annotate = cells.size <= 150;
+  const fontSize = Math.min(CHART_THEME.labelSize, frame.yBand * 0.4);
+  const marks = [...cells.values()].flatMap((cell, index) => {
+    const value = means[index];
+    const fill = interpolateColor(
+      stops,
+      high > low ? (value - low) / (high - low) : 0.5,
+    );
+    const left = frame.x(cell.x);
+    const top = frame.y(cell.y);
+    const elements = [
+      element("rect", {
+        x: left,
+        y: top,
+        width: frame.xBand,
+        height: frame.yBand,
+        fill,
+      }),
+    ];
+    if (annotate) {
+      const label = formatNumber(value);
+      if (textWidth(label, fontSize) < frame.xBand - 4) {
+        elements.push(
+          text(label, {
+            x: left + frame.xBand / 2,
+            y: top + frame.yBand / 2 + fontSize * 0.35,
+            "text-anchor": "middle",
+            "font-size": fontSize,
+            fill: isDark(fill) ? "#ffffff" : CHART_THEME.textColor,
+          }),
+        );
+      }
+    }
+    return elements;
+  });
+  return frameLayers(frame, marks);
+};
+
+// Quartiles interpolated between the nearest values, as numpy does
+const quantile = (sorted: Float64Array, p: number) => {
+  const position = (sorted.length - 1) * p;
+  const below = Math.floor(position);
+  const above = Math.min(below + 1, sorted.length - 1);
+  return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+};
+
+const drawBoxplot: MarkRenderer = ({ spec, data, area }) => {
+  const y = required(spec, "y");
+  const x = spec.encoding.x;
+  const groups = new Map<ChartValue, number[]>();
+  for (const row of data.rows) {
+    const key = x ? (row.x as ChartValue) : channelTitle(y);
+    groups.set(key, [...(groups.get(key) ?? []), row.y as number]);
+  }
+  const keys = [...groups.keys()].sort(compareValues);
+  const colors = seriesColors(spec, keys.length);
+  const frame = cartesianFrame(
+    area,
+    bandScale(
+      keys,
+      x ? categoryLabels(keys, x, data.binSteps.x) : keys.map(String),
+      { padding: 0.4 },
+    ),
+    linearScale(data.rows.map((row) => row.y as number)),
+    { xTitle: x && channelTitle(x), yTitle: channelTitle(y) },
+  );
+
+  const marks = keys.flatMap((key, index) => {
+    const values = Float64Array.from(groups.get(key) ?? []).sort();
+    const [q1, mid, q3] = [0.25, 0.5, 0.75].map((p) => quantile(values, p));
+    const reach = 1.5 * (q3 - q1);
+    const inside = values.filter((v) => v >= q1 - reach && v <= q3 + reach);
+    const [low, high] = [inside[0] ?? q1, inside[inside.length - 1] ?? q3];
+    const left = frame.x(key);
+    const center = left + frame.xBand / 2;
+    const stroke = CHART_THEME.textColor;
+    const line = (x1: number, y1: number, x2: number, y2: number) =>
+      element("line", { x1, y1, x2, y2, stroke, "stroke-width": 1.5 });
+    return [
+      line(center, frame.y(high), center, frame.y(q3)),
+      line(center, frame.y(q1), center, frame.y(low)),
+      line(
+        center - frame.xBand / 4,
+        frame.y(high),
+        center + frame.xBand / 4,
+        frame.y(high),
+      ),
+      line(
+        center - frame.xBand / 4,
+        frame.y(low),
+        center + frame.xBand / 4,
+        frame.y(low),
+      ),
+      element("rect", {
+        x: left,
+        y: frame.y(q3),
+        width: frame.xBand,
+        height: Math.max(1, frame.y(q1) - frame.y(q3)),
+        fill: colors[index],
+        "fill-opacity": 0.8,
+        stroke,
+        "stroke-width": 1.5,
+      }),
+      line(left, frame.y(mid), left + frame.xBand, frame.y(mid)),
+      ...[...values]
+        .filter((v) => v < low || v > high)
+        .map((v) =>
+          element("circle", {
+            cx: center,
+            cy: frame.y(v),
+            r: 3,
+            fill: "none",
+            stroke,
+          }),
+        ),
+    ];
+  });
+  return frameLayers(frame, marks);
+};
+
+const MARKS: Record<ChartMark, MarkRenderer> = {
+  bar: drawBar,
+  line: (context) => drawLineOrArea(context, false),
+  area: (context) => drawLineOrArea(context, true),
+  point: drawPoint,
+  arc: drawArc,
+  rect: drawRect,
+  boxplot: drawBoxplot,
+};
+
+const noData = (area: Box) =>
+  text("No data to show", {
+    x: area.left + area.width / 2,
+    y: area.top + area.height / 2,
+    "text-anchor": "middle",
+    "font-size": CHART_THEME.axisTitleSize,
+    fill: CHART_THEME.mutedTextColor,
+  });
+
+/**
+ * Draws a chart spec as an SVG document, from the rows of `table`.
+ * @throws ChartRenderError if the spec can't be drawn from the table, e.g. it
+ * names a column the table doesn't have.
+ */
+export const renderChartSvg = (
+  spec: ChartSpec,
+  table: CsvTable,
+  {
+    width = CHART_THEME.width,
+    height = CHART_THEME.height,
+  }: ChartSvgOptions = {},
+) => {
+  const draw = MARKS[spec.mark];
+  if (!draw) {
+    throw new ChartRenderError(`Unknown mark "${spec.mark}"`);
+  }
+  const data = prepareChartData(spec, table);
+  const area: Box = {
+    left: 0,
+    top: TITLE_HEIGHT,
+    width,
+    height: height - TITLE_HEIGHT,
+  };
+  // Long titles shrink to fit rather than run off the edge
+  const titleSize = Math.min(
+    CHART_THEME.titleSize,
+    ((width - 40) / Math.max(1, textWidth(spec.title, 1))) * 0.95,
+  );
+
+  return element(
+    "svg",
+    {
+      xmlns: "http://www.w3.org/2000/svg",
+      width,
+      height,
+      viewBox: `0 0 ${width} ${height}`,
+      "font-family": CHART_THEME.fontFamily,
+    },
+    [
+      element("rect", { width, height, fill: CHART_THEME.background }),
+      text(spec.title, {
+        x: width / 2,
+        y: 36,
+        "text-anchor": "middle",
+        "font-size": titleSize,
+        "font-weight": "bold",
+      }),
+      ...(data.rows.length > 0 ? draw({ spec, data, area }) : [noData(area)]),
+    ],
+  );
+};
@@ -0,0 +1,86 @@
+/**
+ * The look every natively rendered chart shares. Sizes are in SVG pixels;
+ * PNGs are drawn at `pngScale` times that.
+ */
+export const CHART_THEME = {
+  width: 1000,
+  height: 600,
+  pngScale: 1.5,
+  background: "#ffffff",
+  // DejaVu Sans is the font most Linux servers have; the others are for
+  // viewers that open the SVG elsewhere.
+  fontFamily: "DejaVu Sans, Helvetica, Arial, sans-serif",
+  titleSize: 22,
+  axisTitleSize: 14,
+  labelSize: 12,
+  legendSize: 12,
+  textColor: "#333333",
+  mutedTextColor: "#666666",
+  axisColor: "#999999",
+  gridColor: "#e5e5e5",
+  /** Series and slice colours, Vega's `tableau10` scheme. */
+  palette: [
+    "#4c78a8",
+    "#f58518",
+    "#e45756",
+    "#72b7b2",
+    "#54a24b",
+    "#eeca3b",
+    "#b279a2",
+    "#ff9da6",
+    "#9d755d",
+    "#bab0ac",
+  ],
+  /** Heatmap colours from lowest to highest. */
+  sequential: ["#eff6fc", "#6baed6", "#08519c"],
+  /** Labels longer than this are cut short with an ellipsis. */
+  maxLabelLength: 24,
+};
+
+/**
+ * The approximate width of text in the theme's font, used to make room for
+ * labels. DejaVu Sans averages a little under 0.6em per character.
+ */
+export const textWidth = (text: string, fontSize: number) =>
+  text.length * fontSize * 0.58;
+
+export const truncateLabel = (label: string) =>
+  label.length > CHART_THEME.maxLabelLength
+    ? `${label.slice(0, CHART_THEME.maxLabelLength - 1)}…`
+    : label;
+
+const parseHex = (color: string) => {
+  const hex =
+    color.length === 4
+      ? [...color.slice(1)].map((digit) => digit + digit).join("")
+      : color.slice(1);
+  return [0, 2, 4].map((offset) => parseInt(hex.slice(offset, offset + 2), 16));
+};
+
+const toHex = (channels: number[]) =>
+  `#${channels
+    .map((channel) => Math.round(channel).toString(16).padStart(2, "0"))
+    .join("")}`;
+
+/**
+ * The colour a fraction `t` of the way along evenly spaced hex colour stops.
+ */
+export const interpolateColor = (stops: string[], t: number) => {
+  if (stops.length === 1) {
+    return stops[0];
+  }
+  const scaled = Math.min(1, Math.max(0, t)) * (stops.length - 1);
+  const index = Math.min(stops.length - 2, Math.floor(scaled));
+  const from = parseHex(stops[index]);
+  const to = parseHex(stops[index + 1]);
+  const local = scaled - index;
+  return toHex(from.map((channel, i) => channel + (to[i] - channel) * local));
+};
+
+/**
+ * Whether text on this background should be light to stay readable.
+ */
+export const isDark = (color: string) => {
+  const [r, g, b] = parseHex(color);
+  return 0.299 * r + 0.587 * g + 0.114 * b < 140;
+};
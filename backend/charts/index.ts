@@ -0,0 +1,13 @@
+export type { ChartData, ChartDatum, ChartValue } from "./chart_data";
+export { floorTime, prepareChartData } from "./chart_data";
+export { chartSpecsToPython } from "./chart_python";
+export { ChartRenderError } from "./chart_render_error";
+export type { ChartImageFormat, ChartRenderOptions } from "./chart_renderer";
+export { CHART_IMAGE_FORMATS, renderCharts, svgToPng } from "./chart_renderer";
+export {
+  chartSpecSchema,
+  chartSpecShape,
+  validateChartSpec,
+} from "./chart_spec_schema";
+export type { ChartSvgOptions } from "./chart_svg";
+export { renderChartSvg } from "./chart_svg";
@@ -0,0 +1,264 @@
+import type { ChartValue } from "./chart_data";
+
+/**
+ * A tick on an axis: the value it marks and its label.
+ */
+export interface Tick {
+  value: ChartValue;
+  label: string;
+}
+
+/**
+ * Maps data values to positions between 0 and 1 along an axis. Band scales
+ * give each category a band starting at its position, `bandwidth` wide;
+ * continuous scales map values to points and have no bandwidth.
+ */
+export interface Scale {
+  kind: "band" | "point" | "linear";
+  position(value: ChartValue): number;
+  bandwidth: number;
+  ticks: Tick[];
+  /** For linear scales, the domain after rounding to whole ticks. */
+  domain?: [number, number];
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+// Rounds away floating point noise such as 0.30000000000000004
+const clean = (value: number) => Number(value.toPrecision(12));
+
+/**
+ * A round step (1, 2 or 5 times a power of ten) that splits a span into
+ * about `count` intervals.
+ */
+export const niceStep = (span: number, count: number) => {
+  const raw = span / count;
+  if (!(raw > 0)) {
+    return 1;
+  }
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const fraction = raw / magnitude;
+  return (
+    (fraction <= 1.5 ? 1 : fraction <= 3 ? 2 : fraction <= 7 ? 5 : 10) *
+    magnitude
+  );
+};
+
+const trimZeros = (text: string) =>
+  text.includes(".") ? text.replace(/\.?0+$/, "") : text;
+
+/**
+ * Formats a number for a label: thousands separators, and k, M or B for
+ * large values. `step` is the gap between neighbouring labels, which sets
+ * how many decimals are worth showing.
+ */
+export const formatNumber = (value: number, step?: number) => {
+  const magnitude = Math.abs(value);
+  // Thousands are only abbreviated from 10k, so years stay as they are
+  for (const [threshold, size, suffix] of [
+    [1e9, 1e9, "B"],
+    [1e6, 1e6, "M"],
+    [1e4, 1e3, "k"],
+  ] as const) {
+    if (magnitude >= threshold) {
+      const decimals =
+        step === undefined
+          ? 1
+          : Math.min(2, Math.max(0, -Math.floor(Math.log10(step / size))));
+      return `${trimZeros((value / size).toFixed(decimals))}${suffix}`;
+    }
+  }
+  const decimals =
+    step === undefined
+      ? 2
+      : Math.min(6, Math.max(0, -Math.floor(Math.log10(step) + 1e-9)));
+  return value.toLocaleString("en-US", {
+    minimumFractionDigits: step === undefined ? 0 : decimals,
+    maximumFractionDigits: decimals,
+  });
+};
+
+/**
+ * A linear scale over `values`, widened to whole ticks. With `zero` the
+ * domain always includes 0, as bar and area charts need.
+ */
+export const linearScale = (
+  values: number[],
+  { zero = false, tickCount = 6 }: { zero?: boolean; tickCount?: number } = {},
+): Scale => {
+  let min = zero ? 0 : Infinity;
+  let max = zero ? 0 : -Infinity;
+  for (const value of values) {
+    min = value < min ? value : min;
+    max = value > max ? value : max;
+  }
+  if (min === Infinity) {
+    [min, max] = [0, 1];
+  } else if (min === max) {
+    const pad = min === 0 ? 1 : Math.abs(min) * 0.1;
+    [min, max] = [min - pad, max + pad];
+  }
+
+  const step = niceStep(max - min, tickCount);
+  const start = Math.floor(clean(min / step)) * step;
+  const end = Math.ceil(clean(max / step)) * step;
+  const ticks: Tick[] = [];
+  for (let i = 0; clean(start + i * step) <= clean(end); i++) {
+    const value = clean(start + i * step);
+    ticks.push({ value, label: formatNumber(value, step) });
+  }
+
+  return {
+    kind: "linear",
+    position: (value) => ((value as number) - start) / (end - start),
+    bandwidth: 0,
+    ticks,
+    domain: [start, end],
+  };
+};
+
+const formatDay = (time: number) => {
+  const date = new Date(time);
+  return `${MONTHS[date.getUTCMonth()]} ${date.getUTCDate()}`;
+};
+
+const formatMonth = (time: number) => {
+  const date = new Date(time);
+  return `${MONTHS[date.getUTCMonth()]} ${date.getUTCFullYear()}`;
+};
+
+const formatYear = (time: number) => String(new Date(time).getUTCFullYear());
+
+// Calendar intervals for date ticks, smallest first
+const TIME_INTERVALS: {
+  months: number;
+  days: number;
+  format: (time: number) => string;
+}[] = [
+  ...[1, 2, 7, 14].map((days) => ({ months: 0, days, format: formatDay })),
+  ...[1, 3, 6].map((months) => ({ months, days: 0, format: formatMonth })),
+  ...[1, 2, 5, 10, 20, 50, 100].map((years) => ({
+    months: years * 12,
+    days: 0,
+    format: formatYear,
+  })),
+];
+
+const timeTicks = (
+  min: number,
+  max: number,
+  { months, days, format }: (typeof TIME_INTERVALS)[number],
+) => {
+  const ticks: Tick[] = [];
+  const first = new Date(min);
+  if (months > 0) {
+    // Months and years are aligned to their step, e.g. quarters start in
+    // January, April, July and October
+    const index = first.getUTCFullYear() * 12 + first.getUTCMonth();
+    let month = Math.ceil(index / months) * months;
+    for (;;) {
+      const time = Date.UTC(Math.floor(month / 12), month % 12, 1);
+      if (time > max) {
+        break;
+      }
+      if (time >= min) {
+        ticks.push({ value: time, label: format(time) });
+      }
+      month += months;
+    }
+  } else {
+    let time = Math.ceil(min / DAY) * DAY;
+    for (; time <= max; time += days * DAY) {
+      ticks.push({ value: time, label: format(time) });
+    }
+  }
+  return ticks;
+};
+
+/**
+ * A linear scale over dates, in milliseconds, with ticks on calendar
+ * boundaries: days, months or years, whichever gives a readable number.
+ */
+export const timeScale = (
+  values: number[],
+  { tickCount = 8 }: { tickCount?: number } = {},
+): Scale => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of values) {
+    min = value < min ? value : min;
+    max = value > max ? value : max;
+  }
+  if (min === Infinity) {
+    [min, max] = [0, DAY];
+  } else if (min === max) {
+    [min, max] = [min - DAY, max + DAY];
+  }
+
+  const interval =
+    TIME_INTERVALS.find(
+      (candidate) => timeTicks(min, max, candidate).length <= tickCount,
+    ) ?? TIME_INTERVALS[TIME_INTERVALS.length - 1];
+
+  return {
+    kind: "linear",
+    position: (value) => ((value as number) - min) / (max - min),
+    bandwidth: 0,
+    ticks: timeTicks(min, max, interval),
+    domain: [min, max],
+  };
+};
+
+const indexOf = (values: ChartValue[]) => {
+  const index = new Map<ChartValue, number>();
+  values.forEach((value, i) => index.set(value, i));
+  return index;
+};
+
+/**
+ * One band per category, in the order given, with `padding` of each band
+ * left empty between neighbours.
+ */
+export const bandScale = (
+  values: ChartValue[],
+  labels: string[],
+  { padding = 0.2 }: { padding?: number } = {},
+): Scale => {
+  const index = indexOf(values);
+  const step = 1 / Math.max(1, values.length + padding);
+  return {
+    kind: "band",
+    position: (value) => (padding + (index.get(value) ?? 0)) * step,
+    bandwidth: step * (1 - padding),
+    ticks: values.map((value, i) => ({ value, label: labels[i] })),
+  };
+};
+
+/**
+ * Evenly spaced points for categories, as on the x axis of a line chart
+ * over months named in text.
+ */
+export const pointScale = (values: ChartValue[], labels: string[]): Scale => {
+  const index = indexOf(values);
+  return {
+    kind: "point",
+    position: (value) =>
+      ((index.get(value) ?? 0) + 0.5) / Math.max(1, values.length),
+    bandwidth: 0,
+    ticks: values.map((value, i) => ({ value, label: labels[i] })),
+  };
+};
@@ -0,0 +1,50 @@
+// A few helpers for writing SVG as strings
+
+const ENTITIES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+export const escapeXml = (text: string) =>
+  text.replace(/[&<>"']/g, (char) => ENTITIES[char]);
+
+export type SvgAttributes = Record<string, string | number | undefined>;
+
+// Two decimals are plenty for pixel coordinates and keep the SVG small
+const formatAttribute = (value: string | number) =>
+  typeof value === "number" ? String(Math.round(value * 100) / 100) : value;
+
+/**
+ * Writes one element. Attributes that are `undefined` are left out, and
+ * `children` is inserted as is, so text must be escaped by the caller.
+ */
+export const element = (
+  tag: string,
+  attributes: SvgAttributes,
+  children: string | string[] = "",
+) => {
+  const attributeText = Object.entries(attributes)
+    .filter(
+      (entry): entry is [string, string | number] => entry[1] !== undefined,
+    )
+    .map(([name, value]) => ` ${name}="${escapeXml(formatAttribute(value))}"`)
+    .join("");
+  const content = Array.isArray(children) ? children.join("") : children;
+  return content
+    ? `<${tag}${attributeText}>${content}</${tag}>`
+    : `<${tag}${attributeText}/>`;
+};
+
+/**
+ * A path through points, as `M x y L x y ...`.
+ */
+export const linePath = (points: [number, number][]) =>
+  points
+    .map(
+      ([x, y], index) =>
+        `${index === 0 ? "M" : "L"}${formatAttribute(x)} ${formatAttribute(y)}`,
+    )
+    .join(" ");
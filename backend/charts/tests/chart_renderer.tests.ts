@@ -0,0 +1,224 @@
+import type { ChartSpec } from "../../../utils/chart_spec";
+import { parseCsv } from "../../../utils/csv";
+import {
+  ChartRenderError,
+  prepareChartData,
+  renderCharts,
+  renderChartSvg,
+} from "../index";
+
+const CSV_DATA = [
+  "Date,Region,Revenue,Units",
+  '2024-01-01,North,"$1,200.50",3',
+  "2024-01-20,South,300,5",
+  "2024-02-10,North,450.25,2",
+  "2024-03-15,East,n/a,9",
+  "2024-03-18,South,700,14",
+].join("\n");
+
+const table = parseCsv(CSV_DATA);
+
+const revenueByRegion: ChartSpec = {
+  title: "Revenue by region",
+  mark: "bar",
+  encoding: {
+    x: { field: "Region", type: "nominal", sort: "-y" },
+    y: { field: "Revenue", type: "quantitative", aggregate: "sum" },
+  },
+};
+
+const count = (svg: string, tag: string) => svg.split(`<${tag} `).length - 1;
+
+describe("prepareChartData", () => {
+  it("aggregates by the unaggregated channels and applies sorts", () => {
+    expect(prepareChartData(revenueByRegion, table)).toEqual({
+      rows: [
+        { x: "North", y: 1650.75 },
+        { x: "South", y: 1000 },
+      ],
+      binSteps: {},
+    });
+  });
+
+  it("groups dates by their time unit", () => {
+    const { rows } = prepareChartData(
+      {
+        title: "Units by month",
+        mark: "line",
+        encoding: {
+          x: { field: "Date", type: "temporal", timeUnit: "month" },
+          y: { field: "Units", type: "quantitative", aggregate: "mean" },
+        },
+      },
+      table,
+    );
+
+    expect(rows).toEqual([
+      { x: Date.UTC(2024, 0, 1), y: 4 },
+      { x: Date.UTC(2024, 1, 1), y: 2 },
+      { x: Date.UTC(2024, 2, 1), y: 11.5 },
+    ]);
+  });
+
+  it("bins values and counts rows without a field", () => {
+    const { rows, binSteps } = prepareChartData(
+      {
+        title: "Units",
+        mark: "bar",
+        encoding: {
+          x: { field: "Units", type: "quantitative", bin: { maxbins: 3 } },
+          y: { type: "quantitative", aggregate: "count" },
+        },
+      },
+      table,
+    );
+
+    expect(binSteps).toEqual({ x: 5 });
+    expect(rows).toEqual([
+      { x: 0, y: 2 },
+      { x: 5, y: 2 },
+      { x: 10, y: 1 },
+    ]);
+  });
+
+  it("rejects columns the table doesn't have", () => {
+    expect(() =>
+      prepareChartData(
+        {
+          ...revenueByRegion,
+          encoding: {
+            ...revenueByRegion.encoding,
+            y: { field: "Profit", type: "quantitative", aggregate: "sum" },
+          },
+        },
+        table,
+      ),
+    ).toThrow(new ChartRenderError('Unknown column "Profit"'));
+  });
+});
+
+describe("renderChartSvg", () => {
+  it("draws a bar per category with labelled axes", () => {
+    const svg = renderChartSvg(revenueByRegion, table);
+
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg"/);
+    expect(svg).toContain('width="1000" height="600"');
+    // The background and two bars
+    expect(count(svg, "rect")).toBe(3);
+    expect(svg).toContain(">North</text>");
+    expect(svg).toContain(">Sum of Revenue</text>");
+    expect(svg.indexOf(">North<")).toBeLessThan(svg.indexOf(">South<"));
+  });
+
+  it("draws each mark type", () => {
+    const specs: ChartSpec[] = [
+      {
+        title: "Revenue over time",
+        mark: "area",
+        encoding: {
+          x: { field: "Date", type: "temporal" },
+          y: { field: "Revenue", type: "quantitative" },
+          color: { field: "Region", type: "nominal" },
+        },
+      },
+      {
+        title: "Units against revenue",
+        mark: "point",
+        encoding: {
+          x: { field: "Revenue", type: "quantitative" },
+          y: { field: "Units", type: "quantitative" },
+        },
+      },
+      {
+        title: "Units by region",
+        mark: "arc",
+        innerRadius: 0.5,
+        encoding: {
+          theta: { field: "Units", type: "quantitative", aggregate: "sum" },
+          color: { field: "Region", type: "nominal" },
+        },
+      },
+      {
+        title: "Units by region and month",
+        mark: "rect",
+        encoding: {
+          x: { field: "Date", type: "temporal", timeUnit: "month" },
+          y: { field: "Region", type: "nominal" },
+          color: { field: "Units", type: "quantitative", aggregate: "sum" },
+        },
+      },
+      {
+        title: "Units by region",
+        mark: "boxplot",
+        encoding: {
+          x: { field: "Region", type: "nominal" },
+          y: { field: "Units", type: "quantitative" },
+        },
+      },
+    ];
+    const [area, point, arc, rect, boxplot] = specs.map((spec) =>
+      renderChartSvg(spec, table),
+    );
+
+    // A filled area and a line for each of the two regions with revenue
+    expect(count(area, "path")).toBe(4);
+    expect(area).toContain(">Jan 1</text>");
+    expect(count(point, "circle")).toBe(4);
+    // Three slices, labelled with their share
+    expect(count(arc, "path")).toBe(3);
+    expect(arc).toContain(">57.6%</text>");
+    expect(rect).toContain('fill="url(#legend-gradient)"');
+    expect(rect).toContain(">Mar 2024</text>");
+    expect(count(boxplot, "rect")).toBe(4);
+  });
+
+  it("escapes text from the dataset", () => {
+    const svg = renderChartSvg(
+      { ...revenueByRegion, title: "Revenue <by> region & more" },
+      parseCsv("Region,Revenue\nR&D,10\n<script>,20"),
+    );
+
+    expect(svg).toContain(">Revenue &lt;by&gt; region &amp; more</text>");
+    expect(svg).toContain(">R&amp;D</text>");
+    expect(svg).not.toContain("<script>");
+  });
+
+  it("says when no rows are left to draw", () => {
+    const svg = renderChartSvg(revenueByRegion, parseCsv("Region,Revenue"));
+
+    expect(svg).toContain(">No data to show</text>");
+  });
+});
+
+describe("renderCharts", () => {
+  it("returns a PNG data URL per spec", () => {
+    const images = renderCharts(CSV_DATA, [revenueByRegion, revenueByRegion]);
+
+    expect(images).toHaveLength(2);
+    const png = Buffer.from(images[0].split(",")[1], "base64");
+    expect(images[0]).toMatch(/^data:image\/png;base64,/);
+    expect([...png.subarray(0, 8)]).toEqual([
+      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ]);
+    // 1.5 times the SVG's size
+    expect(png.readUInt32BE(16)).toBe(1500);
+    expect(png.readUInt32BE(20)).toBe(900);
+  });
+
+  it("returns SVG data URLs and reports each chart as it is drawn", () => {
+    const onChart = jest.fn();
+
+    const [image] = renderCharts(CSV_DATA, [revenueByRegion], {
+      format: "svg",
+      width: 400,
+      height: 300,
+      onChart,
+    });
+
+    expect(image).toMatch(/^data:image\/svg\+xml;base64,/);
+    expect(Buffer.from(image.split(",")[1], "base64").toString()).toContain(
+      'viewBox="0 0 400 300"',
+    );
+    expect(onChart).toHaveBeenCalledWith(image, 0, 1);
+  });
+});
@@ -0,0 +1,155 @@
+import type { ChartSpec } from "../../../utils/chart_spec";
+import { summarizeDataset } from "../../dataset";
+import {
+  chartSpecSchema,
+  chartSpecsToPython,
+  validateChartSpec,
+} from "../index";
+
+const { columns } = summarizeDataset(
+  [
+    "Date,Region,Revenue,Units",
+    '2024-01-01,North,"$1,200.50",3',
+    "2024-02-10,South,300,5",
+    "2024-03-15,North,450.25,2",
+  ].join("\n"),
+);
+
+const revenueByRegion: ChartSpec = {
+  title: "Revenue by region",
+  mark: "bar",
+  encoding: {
+    x: { field: "Region", type: "nominal", sort: "-y" },
+    y: { field: "Revenue", type: "quantitative", aggregate: "sum" },
+  },
+};
+
+const issuesFor = (spec: ChartSpec) => {
+  const issues: string[] = [];
+  validateChartSpec(spec, columns, "$", issues);
+  return issues;
+};
+
+describe("chartSpecSchema", () => {
+  it("accepts specs that can be drawn from the dataset", () => {
+    const issues: string[] = [];
+    const histogram = {
+      title: "Units",
+      mark: "bar",
+      encoding: {
+        x: { field: "Units", type: "quantitative", bin: { maxbins: 5 } },
+        y: { type: "quantitative", aggregate: "count" },
+      },
+    };
+
+    expect(
+      chartSpecSchema(columns).validate(revenueByRegion, "$", issues),
+    ).toEqual({
+      title: "Revenue by region",
+      mark: "bar",
+      encoding: {
+        x: { field: "Region", type: "nominal", sort: "-y" },
+        y: { field: "Revenue", type: "quantitative", aggregate: "sum" },
+      },
+    });
+    expect(chartSpecSchema(columns).validate(histogram, "$", issues)).toEqual(
+      expect.objectContaining({ mark: "bar" }),
+    );
+    expect(issues).toEqual([]);
+  });
+
+  it("reports malformed specs before checking columns", () => {
+    const issues: string[] = [];
+
+    chartSpecSchema(columns).validate(
+      { title: "Pie", mark: "pie", encoding: {}, color: "blue" },
+      "$.chart",
+      issues,
+    );
+
+    expect(issues).toEqual([
+      '$.chart.mark: expected one of bar, line, area, point, arc, rect, boxplot, got "pie"',
+      '$.chart.color: expected a hex colour such as "#4c78a8", got "blue"',
+    ]);
+  });
+});
+
+describe("validateChartSpec", () => {
+  it("suggests the column a misspelt field meant", () => {
+    expect(
+      issuesFor({
+        ...revenueByRegion,
+        encoding: {
+          x: { field: "region", type: "nominal" },
+          y: { field: "Profit", type: "quantitative", aggregate: "sum" },
+        },
+      }),
+    ).toEqual([
+      '$.encoding.x.field: unknown column "region", did you mean "Region"?',
+      '$.encoding.y.field: unknown column "Profit"; the columns are "Date", "Region", "Revenue", "Units"',
+    ]);
+  });
+
+  it("checks encodings against the column types", () => {
+    expect(
+      issuesFor({
+        title: "Mixed up",
+        mark: "line",
+        encoding: {
+          x: { field: "Region", type: "temporal", timeUnit: "month" },
+          y: { field: "Region", type: "quantitative", aggregate: "mean" },
+        },
+      }),
+    ).toEqual([
+      '$.encoding.x.type: "Region" is category, not a date; use "ordinal" or "nominal"',
+      '$.encoding.y.aggregate: "mean" needs a numeric column, but "Region" is category; use "count" or "distinct"',
+    ]);
+  });
+
+  it("checks the channels each mark needs", () => {
+    expect(
+      issuesFor({
+        title: "Share",
+        mark: "arc",
+        encoding: {
+          x: { field: "Region", type: "nominal" },
+          theta: { field: "Units", type: "quantitative" },
+          color: { field: "Units", type: "quantitative" },
+        },
+      }),
+    ).toEqual([
+      '$.encoding.x: "arc" charts don\'t use x',
+      '$.encoding.color: splits "arc" charts into series, so it must be nominal, ordinal or temporal',
+    ]);
+    expect(
+      issuesFor({
+        title: "Histogram",
+        mark: "bar",
+        encoding: {
+          x: { field: "Units", type: "quantitative", bin: true },
+          y: { field: "Revenue", type: "quantitative" },
+        },
+      }),
+    ).toEqual([
+      '$.encoding: binned charts need an aggregate on another channel, e.g. "count" on y',
+    ]);
+  });
+});
+
+describe("chartSpecsToPython", () => {
+  it("embeds each spec as data for the renderer", () => {
+    const code = chartSpecsToPython([
+      { ...revenueByRegion, title: 'Revenue "by" region\nin 2024' },
+    ]);
+
+    expect(code).toContain("def draw_chart(spec):");
+    const call = code.split("\n").pop() as string;
+    expect(call).toMatch(/^draw_chart\(json\.loads\(".*"\)\)$/);
+    // Python reads the literal the same way JSON does
+    const literal = call.slice("draw_chart(json.loads(".length, -2);
+    expect(JSON.parse(JSON.parse(literal))).toEqual({
+      ...revenueByRegion,
+      title: 'Revenue "by" region\nin 2024',
+    });
+  });
+});
@@ -0,0 +1,243 @@
+import {
+  chiSquareSurvival,
+  normalTwoSided,
+  studentTTwoSided,
+} from "./distributions";
+
+/**
+ * How two numeric columns are correlated:
+ * - `pearson`: how closely they follow a straight line.
+ * - `spearman`: how closely their ranks do, for any relationship that only
+ *   goes one way, and less swayed by outliers.
+ * - `kendall`: how much more often pairs of rows are in the same order on
+ *   both columns than in opposite orders.
+ */
+export const CORRELATION_METHODS = ["pearson", "spearman", "kendall"] as const;
+
+export type CorrelationMethod = (typeof CORRELATION_METHODS)[number];
+
+/**
+ * A coefficient from -1 to 1, or from 0 to 1 for Cramér's V, and the chance
+ * of one at least this far from 0 if the columns were unrelated.
+ */
+export interface Association {
+  coefficient: number;
+  pValue: number;
+}
+
+// Plain or typed arrays, as ranks are
+type Numbers = number[] | Float64Array;
+
+const mean = (values: Numbers) => {
+  let sum = 0;
+  for (const value of values) {
+    sum += value;
+  }
+  return sum / values.length;
+};
+
+const pearsonCoefficient = (xs: Numbers, ys: Numbers) => {
+  const [xMean, yMean] = [mean(xs), mean(ys)];
+  let [products, xSquares, ySquares] = [0, 0, 0];
+  for (let i = 0; i < xs.length; i++) {
+    const [dx, dy] = [xs[i] - xMean, ys[i] - yMean];
+    products += dx * dy;
+    xSquares += dx * dx;
+    ySquares += dy * dy;
+  }
+  if (xSquares === 0 || ySquares === 0) {
+    return undefined;
+  }
+  // Rounding can push a perfect correlation just past 1
+  return Math.max(-1, Math.min(1, products / Math.sqrt(xSquares * ySquares)));
+};
+
+// Tests a Pearson or Spearman coefficient with the t distribution
+const withTTest = (
+  coefficient: number | undefined,
+  n: number,
+): Association | undefined => {
+  if (coefficient === undefined) {
+    return undefined;
+  }
+  const degrees = n - 2;
+  const remainder = 1 - coefficient * coefficient;
+  return {
+    coefficient,
+    pValue:
+      remainder <= 0
+        ? 0
+        : studentTTwoSided(
+            coefficient * Math.sqrt(degrees / remainder),
+            degrees,
+          ),
+  };
+};
+
+/** Each value's rank from 1, with tied values given the mean of their ranks. */
+export const rankValues = (values: Numbers) => {
+  const order = Array.from(values, (_, i) => i).sort(
+    (a, b) => values[a] - values[b],
+  );
+  const ranks = new Float64Array(values.length);
+  for (let start = 0; start < order.length; ) {
+    let end = start + 1;
+    while (end < order.length && values[order[end]] === values[order[start]]) {
+      end++;
+    }
+    const rank = (start + end + 1) / 2;
+    for (let i = start; i < end; i++) {
+      ranks[order[i]] = rank;
+    }
+    start = end;
+  }
+  return ranks;
+};
+
+// Sorts values in place by merge sort, counting the pairs that were out of
+// order; equal values aren't out of order
+const sortCountingSwaps = (values: Float64Array) => {
+  let swaps = 0;
+  let from = values;
+  let to = new Float64Array(values.length);
+  for (let width = 1; width < values.length; width *= 2) {
+    for (let left = 0; left < values.length; left += 2 * width) {
+      const middle = Math.min(left + width, values.length);
+      const right = Math.min(left + 2 * width, values.length);
+      let [i, j, k] = [left, middle, left];
+      while (i < middle && j < right) {
+        if (from[j] < from[i]) {
+          swaps += middle - i;
+          to[k++] = from[j++];
+        } else {
+          to[k++] = from[i++];
+        }
+      }
+      while (i < middle) {
+        to[k++] = from[i++];
+      }
+      while (j < right) {
+        to[k++] = from[j++];
+      }
+    }
+    [from, to] = [to, from];
+  }
+  values.set(from);
+  return swaps;
+};
+
+// The pairs within runs of equal values, in sorted values
+const tiedPairs = (sorted: Numbers) => {
+  let pairs = 0;
+  for (let start = 0; start < sorted.length; ) {
+    let end = start + 1;
+    while (end < sorted.length && sorted[end] === sorted[start]) {
+      end++;
+    }
+    pairs += ((end - start) * (end - start - 1)) / 2;
+    start = end;
+  }
+  return pairs;
+};
+
+// Kendall's tau-b, which allows for ties, by Knight's O(n log n) algorithm
+const kendallCoefficient = (xs: Numbers, ys: Numbers) => {
+  const n = xs.length;
+  const order = Array.from(xs, (_, i) => i).sort(
+    (a, b) => xs[a] - xs[b] || ys[a] - ys[b],
+  );
+  const x = Float64Array.from(order, (i) => xs[i]);
+  const y = Float64Array.from(order, (i) => ys[i]);
+  let [xTies, jointTies] = [0, 0];
+  for (let start = 0; start < n; ) {
+    let end = start + 1;
+    while (end < n && x[end] === x[start]) {
+      end++;
+    }
+    xTies += ((end - start) * (end - start - 1)) / 2;
+    jointTies += tiedPairs(y.subarray(start, end));
+    start = end;
+  }
+  const discordant = sortCountingSwaps(y);
+  const yTies = tiedPairs(y);
+  const pairs = (n * (n - 1)) / 2;
+  const denominator = Math.sqrt((pairs - xTies) * (pairs - yTies));
+  if (denominator === 0) {
+    return undefined;
+  }
+  return (pairs - xTies - yTies + jointTies - 2 * discordant) / denominator;
+};
+
+/**
+ * Correlates two numeric columns, with the p-value of the coefficient.
+ * Kendall's is tested with the normal approximation, which assumes few ties.
+ * @param xs - Complete pairs of values, at least 3, with `ys`.
+ * @returns undefined when either column doesn't vary.
+ */
+export const correlate = (
+  method: CorrelationMethod,
+  xs: Numbers,
+  ys: Numbers,
+): Association | undefined => {
+  const n = xs.length;
+  switch (method) {
+    case "pearson":
+      return withTTest(pearsonCoefficient(xs, ys), n);
+    case "spearman":
+      return withTTest(pearsonCoefficient(rankValues(xs), rankValues(ys)), n);
+    case "kendall": {
+      const coefficient = kendallCoefficient(xs, ys);
+      if (coefficient === undefined) {
+        return undefined;
+      }
+      const z =
+        (3 * coefficient * Math.sqrt(n * (n - 1))) / Math.sqrt(2 * (2 * n + 5));
+      return { coefficient, pValue: normalTwoSided(z) };
+    }
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Cramér's V between two categorical columns, from 0 for unrelated to 1 for
+ * columns that determine each other, tested by the chi-square test of their
+ * contingency table.
+ * @param xs - Complete pairs of values with `ys`.
+ * @returns undefined when either column has only one value.
+ */
+export const cramersV = (
+  xs: string[],
+  ys: string[],
+): Association | undefined => {
+  const counts = new Map<string, Map<string, number>>();
+  const xTotals = new Map<string, number>();
+  const yTotals = new Map<string, number>();
+  xs.forEach((x, i) => {
+    const row = counts.get(x) ?? new Map<string, number>();
+    row.set(ys[i], (row.get(ys[i]) ?? 0) + 1);
+    counts.set(x, row);
+    xTotals.set(x, (xTotals.get(x) ?? 0) + 1);
+    yTotals.set(ys[i], (yTotals.get(ys[i]) ?? 0) + 1);
+  });
+  const smaller = Math.min(xTotals.size, yTotals.size);
+  if (smaller < 2) {
+    return undefined;
+  }
+  const n = xs.length;
+  let chiSquare = 0;
+  for (const [x, xTotal] of xTotals) {
+    for (const [y, yTotal] of yTotals) {
+      const expected = (xTotal * yTotal) / n;
+      const observed = counts.get(x)?.get(y) ?? 0;
+      chiSquare += (observed - expected) ** 2 / expected;
+    }
+  }
+  return {
+    coefficient: Math.min(1, Math.sqrt(chiSquare / (n * (smaller - 1)))),
+    pValue: chiSquareSurvival(
+      chiSquare,
+      (xTotals.size - 1) * (yTotals.size - 1),
+    ),
+  };
+};
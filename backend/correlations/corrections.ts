@@ -0,0 +1,58 @@
+/**
+ * How p-values are adjusted for testing many pairs at once, so that some
+ * pairs looking related by chance doesn't pass for a finding:
+ * - `holm`: Holm's step-down method, which keeps the chance of any false
+ *   finding below the significance level, like `bonferroni` but finds more.
+ * - `bonferroni`: multiplies each p-value by the number of tests.
+ * - `benjaminiHochberg`: keeps the expected share of false findings below
+ *   the significance level, and finds the most.
+ * - `none`: leaves p-values as they are.
+ */
+export const P_VALUE_CORRECTIONS = [
+  "holm",
+  "bonferroni",
+  "benjaminiHochberg",
+  "none",
+] as const;
+
+export type PValueCorrection = (typeof P_VALUE_CORRECTIONS)[number];
+
+/**
+ * Adjusts p-values from tests made together.
+ * @returns The adjusted p-values, in the order given, each at most 1.
+ */
+export const adjustPValues = (
+  pValues: number[],
+  correction: PValueCorrection,
+): number[] => {
+  const m = pValues.length;
+  const order = pValues
+    .map((_, i) => i)
+    .sort((a, b) => pValues[a] - pValues[b]);
+  const adjusted = new Array<number>(m);
+  switch (correction) {
+    case "holm": {
+      // Each adjusted p-value is at least the one before it in order
+      let highest = 0;
+      order.forEach((index, rank) => {
+        highest = Math.max(highest, Math.min(1, (m - rank) * pValues[index]));
+        adjusted[index] = highest;
+      });
+      return adjusted;
+    }
+    case "bonferroni":
+      return pValues.map((p) => Math.min(1, m * p));
+    case "benjaminiHochberg": {
+      // Each adjusted p-value is at most the one after it in order
+      let lowest = 1;
+      for (let rank = m - 1; rank >= 0; rank--) {
+        const index = order[rank];
+        lowest = Math.min(lowest, (m * pValues[index]) / (rank + 1));
+        adjusted[index] = lowest;
+      }
+      return adjusted;
+    }
+    default:
+      return [...pValues];
+  }
+};
@@ -0,0 +1,351 @@
+import type { CsvTable } from "../../utils/csv";
+import {
+  isMissing,
+  NUMERIC_COLUMN_TYPES,
+  parseCsv,
+  parseNumber,
+} from "../../utils/csv";
+import type { ColumnProfile, DatasetProfile } from "../../utils/data_profile";
+import { profileDataset } from "../../utils/data_profile";
+import type { Association, CorrelationMethod } from "./coefficients";
+import { CORRELATION_METHODS, correlate, cramersV } from "./coefficients";
+import { CorrelationError } from "./correlation_error";
+import type { PValueCorrection } from "./corrections";
+import { adjustPValues, P_VALUE_CORRECTIONS } from "./corrections";
+
+export interface CorrelationOptions {
+  /** How numeric columns are correlated. Defaults to `pearson`. */
+  method?: CorrelationMethod;
+  /** Defaults to `holm`. */
+  correction?: PValueCorrection;
+  /**
+   * The adjusted p-value relationships are significant below. Defaults to
+   * 0.05.
+   */
+  alpha?: number;
+  /**
+   * The numeric and categorical columns to compare. Defaults to the first 25
+   * numeric columns that aren't IDs or constant, and the first 10 columns of
+   * categories with at most 50 values.
+   */
+  columns?: string[];
+  /** How many of the strongest relationships to rank. Defaults to 10. */
+  maxRelationships?: number;
+}
+
+/** What a pair of columns is measured by: the method, or Cramér's V. */
+export type CorrelationMeasure = CorrelationMethod | "cramersV";
+
+/** Two columns that were compared, and how strongly they're related. */
+export interface CorrelationPair {
+  columns: [string, string];
+  measure: CorrelationMeasure;
+  /** From -1 to 1, or from 0 to 1 for Cramér's V. */
+  coefficient: number;
+  pValue: number;
+  /** The p-value adjusted for every pair tested. */
+  adjustedPValue: number;
+  /** The rows with values in both columns, which the pair is measured on. */
+  n: number;
+  /** Whether the adjusted p-value is below the significance level. */
+  significant: boolean;
+}
+
+/**
+ * Every pair of some columns' coefficients. Pairs that couldn't be measured
+ * are null, and a column's coefficient with itself is 1.
+ */
+export interface CorrelationMatrix {
+  measure: CorrelationMeasure;
+  columns: string[];
+  /** By the index of each column in `columns`. */
+  coefficients: (number | null)[][];
+  /** Adjusted p-values, null on the diagonal. */
+  pValues: (number | null)[][];
+}
+
+export interface CorrelationReport {
+  method: CorrelationMethod;
+  correction: PValueCorrection;
+  alpha: number;
+  rowCount: number;
+  /** The numeric columns, if two or more were compared. */
+  matrix?: CorrelationMatrix;
+  /** Cramér's V between categorical columns, if two or more were compared. */
+  categoricalMatrix?: CorrelationMatrix;
+  /** Every pair measured, strongest first. */
+  pairs: CorrelationPair[];
+  /** The pairs that couldn't be measured, and why. */
+  skipped: { columns: [string, string]; reason: string }[];
+  /** The strongest significant pairs, strongest first. */
+  relationships: CorrelationPair[];
+}
+
+const DEFAULT_ALPHA = 0.05;
+const DEFAULT_MAX_RELATIONSHIPS = 10;
+
+// How many columns of each kind are compared unless they're named, which
+// keeps the matrices readable and the pairs to test in the hundreds
+const MAX_NUMERIC_COLUMNS = 25;
+const MAX_CATEGORICAL_COLUMNS = 10;
+
+// Columns with more values than this are more like labels than categories
+const MAX_CATEGORIES = 50;
+
+// The fewest rows a pair can be tested on
+const MIN_ROWS = 3;
+
+const checkOptions = ({
+  method,
+  correction,
+  alpha,
+  maxRelationships,
+}: CorrelationOptions) => {
+  if (method !== undefined && !CORRELATION_METHODS.includes(method)) {
+    throw new CorrelationError(
+      "invalid_request",
+      `Unknown method "${method}"; use ${CORRELATION_METHODS.join(", ")}`,
+    );
+  }
+  if (correction !== undefined && !P_VALUE_CORRECTIONS.includes(correction)) {
+    throw new CorrelationError(
+      "invalid_request",
+      `Unknown correction "${correction}"; use ${P_VALUE_CORRECTIONS.join(", ")}`,
+    );
+  }
+  if (
+    alpha !== undefined &&
+    !(typeof alpha === "number" && alpha > 0 && alpha < 1)
+  ) {
+    throw new CorrelationError(
+      "invalid_request",
+      "The significance level must be between 0 and 1",
+    );
+  }
+  if (
+    maxRelationships !== undefined &&
+    !(Number.isInteger(maxRelationships) && maxRelationships > 0)
+  ) {
+    throw new CorrelationError(
+      "invalid_request",
+      "The number of relationships must be a whole number above 0",
+    );
+  }
+};
+
+const isMeasure = (column: ColumnProfile) =>
+  NUMERIC_COLUMN_TYPES.has(column.kind) &&
+  column.count > 0 &&
+  !column.suspectedId &&
+  !column.constant;
+
+const isCategorical = (column: ColumnProfile) =>
+  column.kind === "category" || column.kind === "boolean";
+
+const chooseColumns = (profile: DatasetProfile, names?: string[]) => {
+  if (!names) {
+    return {
+      numeric: profile.columns.filter(isMeasure).slice(0, MAX_NUMERIC_COLUMNS),
+      categorical: profile.columns
+        .filter(
+          (column) =>
+            isCategorical(column) &&
+            !column.suspectedId &&
+            !column.constant &&
+            column.distinct <= MAX_CATEGORIES,
+        )
+        .slice(0, MAX_CATEGORICAL_COLUMNS),
+    };
+  }
+  const columns = names.map((name) => {
+    const column = profile.columns.find((c) => c.name === name);
+    if (!column) {
+      throw new CorrelationError(
+        "invalid_request",
+        `The data has no column named "${name}"`,
+      );
+    }
+    if (!NUMERIC_COLUMN_TYPES.has(column.kind) && !isCategorical(column)) {
+      throw new CorrelationError(
+        "invalid_request",
+        `"${name}" isn't a column of numbers or categories`,
+      );
+    }
+    return column;
+  });
+  return {
+    numeric: columns.filter((column) => NUMERIC_COLUMN_TYPES.has(column.kind)),
+    categorical: columns.filter(isCategorical),
+  };
+};
+
+// A column's cells, with missing ones undefined
+const readColumn = <T>(
+  table: CsvTable,
+  column: string,
+  read: (cell: string) => T | undefined,
+) => {
+  const index = table.header.indexOf(column);
+  return table.rows.map((row) => {
+    const cell = row[index] ?? "";
+    return isMissing(cell) ? undefined : read(cell);
+  });
+};
+
+// The indexes of the rows with values in both columns
+const completeRows = (a: unknown[], b: unknown[]) =>
+  a.flatMap((value, i) =>
+    value === undefined || b[i] === undefined ? [] : [i],
+  );
+
+interface Measured {
+  columns: [string, string];
+  measure: CorrelationMeasure;
+  association: Association;
+  n: number;
+}
+
+// Measures every pair of columns of one kind, from their values
+const measurePairs = <T>(
+  names: string[],
+  values: (T | undefined)[][],
+  measure: CorrelationMeasure,
+  associate: (a: T[], b: T[]) => Association | undefined,
+  skipped: CorrelationReport["skipped"],
+) => {
+  const measured: Measured[] = [];
+  for (let i = 0; i < names.length; i++) {
+    for (let j = i + 1; j < names.length; j++) {
+      const columns: [string, string] = [names[i], names[j]];
+      const rows = completeRows(values[i], values[j]);
+      if (rows.length < MIN_ROWS) {
+        skipped.push({
+          columns,
+          reason: `Fewer than ${MIN_ROWS} rows have values in both`,
+        });
+        continue;
+      }
+      const association = associate(
+        rows.map((row) => values[i][row] as T),
+        rows.map((row) => values[j][row] as T),
+      );
+      if (!association) {
+        skipped.push({
+          columns,
+          reason: "One of them has the same value in every row both have",
+        });
+        continue;
+      }
+      measured.push({ columns, measure, association, n: rows.length });
+    }
+  }
+  return measured;
+};
+
+const buildMatrix = (
+  measure: CorrelationMeasure,
+  columns: string[],
+  pairs: CorrelationPair[],
+): CorrelationMatrix | undefined => {
+  if (columns.length < 2) {
+    return undefined;
+  }
+  const coefficients = columns.map((_, i) =>
+    columns.map((__, j): number | null => (i === j ? 1 : null)),
+  );
+  const pValues = columns.map(() => columns.map((): number | null => null));
+  for (const pair of pairs) {
+    if (pair.measure !== measure) {
+      continue;
+    }
+    const [i, j] = pair.columns.map((column) => columns.indexOf(column));
+    coefficients[i][j] = coefficients[j][i] = pair.coefficient;
+    pValues[i][j] = pValues[j][i] = pair.adjustedPValue;
+  }
+  return { measure, columns, coefficients, pValues };
+};
+
+/**
+ * Measures how strongly each pair of a dataset's columns is related:
+ * numeric columns by the method asked for and categorical columns by
+ * Cramér's V. Each pair is measured on the rows with values in both, and
+ * its p-value is adjusted for every pair tested.
+ * @param data - The dataset as CSV text with a header row, or already parsed.
+ * @param profile - The dataset's profile, if it's already been made.
+ * @throws CorrelationError if the options are invalid or there aren't two
+ * columns of a kind to compare.
+ */
+export const correlateDataset = (
+  data: string | CsvTable,
+  options: CorrelationOptions = {},
+  profile?: DatasetProfile,
+): CorrelationReport => {
+  checkOptions(options);
+  const table = typeof data === "string" ? parseCsv(data) : data;
+  const dataProfile = profile ?? profileDataset(table);
+  const chosen = chooseColumns(dataProfile, options.columns);
+  const numeric = chosen.numeric.map(({ name }) => name);
+  const categorical = chosen.categorical.map(({ name }) => name);
+  if (numeric.length < 2 && categorical.length < 2) {
+    throw new CorrelationError(
+      "too_few_columns",
+      "Correlations need two numeric or two categorical columns to compare",
+    );
+  }
+  const method = options.method ?? "pearson";
+  const correction = options.correction ?? "holm";
+  const alpha = options.alpha ?? DEFAULT_ALPHA;
+
+  const skipped: CorrelationReport["skipped"] = [];
+  const measured = [
+    ...measurePairs(
+      numeric,
+      numeric.map((column) => readColumn(table, column, parseNumber)),
+      method,
+      (a: number[], b: number[]) => correlate(method, a, b),
+      skipped,
+    ),
+    ...measurePairs(
+      categorical,
+      categorical.map((column) =>
+        readColumn(table, column, (cell) => cell.trim()),
+      ),
+      "cramersV",
+      cramersV,
+      skipped,
+    ),
+  ];
+  const adjusted = adjustPValues(
+    measured.map(({ association }) => association.pValue),
+    correction,
+  );
+  const pairs: CorrelationPair[] = measured
+    .map(({ columns, measure, association, n }, i) => ({
+      columns,
+      measure,
+      coefficient: association.coefficient,
+      pValue: association.pValue,
+      adjustedPValue: adjusted[i],
+      n,
+      significant: adjusted[i] < alpha,
+    }))
+    .sort(
+      (a, b) =>
+        Math.abs(b.coefficient) - Math.abs(a.coefficient) ||
+        a.adjustedPValue - b.adjustedPValue,
+    );
+
+  return {
+    method,
+    correction,
+    alpha,
+    rowCount: table.rows.length,
+    matrix: buildMatrix(method, numeric, pairs),
+    categoricalMatrix: buildMatrix("cramersV", categorical, pairs),
+    pairs,
+    skipped,
+    relationships: pairs
+      .filter(({ significant }) => significant)
+      .slice(0, options.maxRelationships ?? DEFAULT_MAX_RELATIONSHIPS),
+  };
+};
@@ -0,0 +1,73 @@
+import type { ChartSpec } from "../../utils/chart_spec";
+import type { CsvTable } from "../../utils/csv";
+import type { CorrelationMatrix, CorrelationReport } from "./correlate_dataset";
+import { CORRELATION_MEASURE_NAMES } from "./describe_correlations";
+
+// Negative correlations in blue and positive ones in red, from lowest to
+// highest
+const DIVERGING_PALETTE = ["#2166ac", "#f7f7f7", "#b2182b"];
+
+const COLUMN = "Column";
+const COMPARED_WITH = "Compared with";
+const COEFFICIENT = "Correlation";
+const CRAMERS_V = "Cramér's V";
+
+// A matrix's cells, as rows of the chart table with the coefficient in its
+// own column and the other left empty
+const matrixRows = (matrix: CorrelationMatrix, valueIndex: 0 | 1) =>
+  matrix.columns.flatMap((column, i) =>
+    matrix.columns.flatMap((other, j) => {
+      const coefficient = matrix.coefficients[i][j];
+      if (coefficient == null) {
+        return [];
+      }
+      const values = ["", ""];
+      values[valueIndex] = String(Number(coefficient.toFixed(3)));
+      return [[column, other, ...values]];
+    }),
+  );
+
+/**
+ * Charts correlation matrices as heatmaps: the numeric columns' coefficients
+ * and the categorical columns' Cramér's V, whichever were measured.
+ * @returns The charts' specs and the table they're drawn from, with a row
+ * for each cell of each matrix.
+ */
+export const correlationCharts = (
+  report: CorrelationReport,
+): { specs: ChartSpec[]; table: CsvTable } => {
+  const specs: ChartSpec[] = [];
+  const rows: string[][] = [];
+  if (report.matrix) {
+    const name = CORRELATION_MEASURE_NAMES[report.matrix.measure];
+    specs.push({
+      title: "Correlation matrix",
+      description: `${name} between each pair of numeric columns`,
+      mark: "rect",
+      encoding: {
+        x: { field: COLUMN, type: "nominal" },
+        y: { field: COMPARED_WITH, type: "nominal" },
+        color: { field: COEFFICIENT, type: "quantitative", title: name },
+      },
+      palette: DIVERGING_PALETTE,
+    });
+    rows.push(...matrixRows(report.matrix, 0));
+  }
+  if (report.categoricalMatrix) {
+    specs.push({
+      title: "Association between categories",
+      description: `${CRAMERS_V} between each pair of categorical columns, from 0 for unrelated to 1 for columns that determine each other`,
+      mark: "rect",
+      encoding: {
+        x: { field: COLUMN, type: "nominal" },
+        y: { field: COMPARED_WITH, type: "nominal" },
+        color: { field: CRAMERS_V, type: "quantitative" },
+      },
+    });
+    rows.push(...matrixRows(report.categoricalMatrix, 1));
+  }
+  return {
+    specs,
+    table: { header: [COLUMN, COMPARED_WITH, COEFFICIENT, CRAMERS_V], rows },
+  };
+};
@@ -0,0 +1,37 @@
+/**
+ * Why correlations couldn't be measured:
+ * - `invalid_request`: the options are invalid, e.g. an unknown method or
+ *   correction, or a named column that doesn't exist or can't be compared.
+ * - `too_few_columns`: the data doesn't have two numeric or two categorical
+ *   columns to compare.
+ */
+export const CORRELATION_ERROR_CATEGORIES = [
+  "invalid_request",
+  "too_few_columns",
+] as const;
+
+export type CorrelationErrorCategory =
+  (typeof CORRELATION_ERROR_CATEGORIES)[number];
+
+export class CorrelationError extends Error {
+  constructor(
+    readonly category: CorrelationErrorCategory,
+    message: string,
+  ) {
+    super(message);
+
+    Object.setPrototypeOf(this, CorrelationError.prototype);
+  }
+}
+
+const STATUS_BY_CATEGORY: Record<CorrelationErrorCategory, number> = {
+  invalid_request: 400,
+  too_few_columns: 422,
+};
+
+/**
+ * The HTTP status a route responds with when correlations can't be measured
+ * for this reason.
+ */
+export const statusForCorrelationError = (category: CorrelationErrorCategory) =>
+  STATUS_BY_CATEGORY[category];
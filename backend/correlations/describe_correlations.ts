@@ -0,0 +1,98 @@
+import { formatProfileNumber } from "../../utils/data_profile";
+import type { PValueCorrection } from "./corrections";
+import type {
+  CorrelationMeasure,
+  CorrelationPair,
+  CorrelationReport,
+} from "./correlate_dataset";
+
+/** What each measure is called when correlations are described. */
+export const CORRELATION_MEASURE_NAMES: Record<CorrelationMeasure, string> = {
+  pearson: "Pearson's r",
+  spearman: "Spearman's rho",
+  kendall: "Kendall's tau",
+  cramersV: "Cramér's V",
+};
+
+/** What each correction is called when correlations are described. */
+export const P_VALUE_CORRECTION_NAMES: Record<PValueCorrection, string> = {
+  holm: "Holm",
+  bonferroni: "Bonferroni",
+  benjaminiHochberg: "Benjamini-Hochberg",
+  none: "no correction",
+};
+
+/**
+ * How strong a coefficient is by the usual rule of thumb: `strong` from
+ * 0.7, `moderate` from 0.3, either way.
+ */
+export const correlationStrength = (coefficient: number) => {
+  const size = Math.abs(coefficient);
+  if (size >= 0.7) {
+    return "strong";
+  }
+  return size >= 0.3 ? "moderate" : "weak";
+};
+
+export interface DescribeCorrelationsOptions {
+  /** How many of the strongest pairs that aren't significant to list. Defaults to 5. */
+  maxOtherPairs?: number;
+}
+
+const formatNumber = (n: number) => formatProfileNumber(n);
+
+/** Writes p-values too small to matter as an upper bound. */
+export const formatPValue = (p: number) =>
+  p < 0.001 ? "< 0.001" : formatProfileNumber(Number(p.toPrecision(2)));
+
+const describePair = ({
+  columns,
+  measure,
+  coefficient,
+  pValue,
+  adjustedPValue,
+  n,
+}: CorrelationPair) => {
+  // Cramér's V has no direction
+  const direction =
+    measure === "cramersV" ? "" : coefficient < 0 ? " negative" : " positive";
+  return `- ${columns[0]} and ${columns[1]}: ${CORRELATION_MEASURE_NAMES[measure]} ${formatNumber(Number(coefficient.toFixed(3)))} (${correlationStrength(coefficient)}${direction}), p ${formatPValue(pValue)}, adjusted p ${formatPValue(adjustedPValue)}, ${n} rows`;
+};
+
+/**
+ * Describes correlations in lines of text for a prompt: how they were
+ * measured and tested, the significant relationships, strongest first, and
+ * the strongest pairs that weren't significant.
+ */
+export const describeCorrelations = (
+  report: CorrelationReport,
+  { maxOtherPairs = 5 }: DescribeCorrelationsOptions = {},
+) => {
+  const significant = report.pairs.filter((pair) => pair.significant);
+  const others = report.pairs
+    .filter((pair) => !pair.significant)
+    .slice(0, maxOtherPairs);
+  const lines = [
+    `Numeric columns: ${report.matrix?.columns.join(", ") ?? "fewer than two"}, by ${CORRELATION_MEASURE_NAMES[report.method]}`,
+    `Categorical columns: ${report.categoricalMatrix?.columns.join(", ") ?? "fewer than two"}, by ${CORRELATION_MEASURE_NAMES.cramersV}`,
+    `Significance: adjusted p below ${formatNumber(report.alpha)}, adjusted by ${P_VALUE_CORRECTION_NAMES[report.correction]} for ${report.pairs.length} pairs tested`,
+    ...report.skipped.map(
+      ({ columns, reason }) =>
+        `Not measured: ${columns[0]} and ${columns[1]} (${reason})`,
+    ),
+    `Significant relationships: ${significant.length} of ${report.pairs.length}`,
+  ];
+  if (report.relationships.length > 0) {
+    lines.push(
+      "Strongest significant relationships:",
+      ...report.relationships.map(describePair),
+    );
+  }
+  if (others.length > 0) {
+    lines.push(
+      "Strongest pairs that aren't significant:",
+      ...others.map(describePair),
+    );
+  }
+  return lines.join("\n");
+};
@@ -0,0 +1,139 @@
+// The tail probabilities significance tests need, from the regularized
+// incomplete gamma and beta functions as in Numerical Recipes
+
+const MAX_ITERATIONS = 200;
+const EPSILON = 1e-14;
+// Keeps continued fractions from dividing by 0
+const TINY = 1e-300;
+
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028,
+  771.32342877765313, -176.61502916214059, 12.507343278686905,
+  -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+/** The natural log of the gamma function, by the Lanczos approximation. */
+export const logGamma = (x: number): number => {
+  if (x < 0.5) {
+    // The reflection formula
+    return (
+      Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x)
+    );
+  }
+  const z = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) {
+    sum += LANCZOS[i] / (z + i);
+  }
+  const t = z + LANCZOS.length - 1.5;
+  return (
+    0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum)
+  );
+};
+
+// The lower regularized gamma function P(a, x) by its series, which
+// converges quickly for x < a + 1
+const gammaSeries = (a: number, x: number) => {
+  let term = 1 / a;
+  let sum = term;
+  for (let n = 1; n < MAX_ITERATIONS; n++) {
+    term *= x / (a + n);
+    sum += term;
+    if (Math.abs(term) < Math.abs(sum) * EPSILON) {
+      break;
+    }
+  }
+  return sum * Math.exp(-x + a * Math.log(x) - logGamma(a));
+};
+
+// The upper regularized gamma function Q(a, x) by its continued fraction,
+// which converges quickly for x >= a + 1
+const gammaContinuedFraction = (a: number, x: number) => {
+  let b = x + 1 - a;
+  let c = 1 / TINY;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < MAX_ITERATIONS; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    d = Math.abs(d) < TINY ? TINY : d;
+    c = b + an / c;
+    c = Math.abs(c) < TINY ? TINY : c;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) {
+      break;
+    }
+  }
+  return Math.exp(-x + a * Math.log(x) - logGamma(a)) * h;
+};
+
+/** The upper regularized gamma function Q(a, x), from 1 down to 0. */
+export const upperGamma = (a: number, x: number) => {
+  if (x <= 0) {
+    return 1;
+  }
+  return x < a + 1 ? 1 - gammaSeries(a, x) : gammaContinuedFraction(a, x);
+};
+
+// The continued fraction of the incomplete beta function
+const betaContinuedFraction = (x: number, a: number, b: number) => {
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  d = Math.abs(d) < TINY ? TINY : d;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m < MAX_ITERATIONS; m++) {
+    const m2 = 2 * m;
+    for (const an of [
+      (m * (b - m) * x) / ((a + m2 - 1) * (a + m2)),
+      (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1)),
+    ]) {
+      d = 1 + an * d;
+      d = Math.abs(d) < TINY ? TINY : d;
+      c = 1 + an / c;
+      c = Math.abs(c) < TINY ? TINY : c;
+      d = 1 / d;
+      h *= d * c;
+    }
+    if (Math.abs(d * c - 1) < EPSILON) {
+      break;
+    }
+  }
+  return h;
+};
+
+/** The regularized incomplete beta function I_x(a, b). */
+export const incompleteBeta = (x: number, a: number, b: number): number => {
+  if (x <= 0) {
+    return 0;
+  }
+  if (x >= 1) {
+    return 1;
+  }
+  const front = Math.exp(
+    logGamma(a + b) -
+      logGamma(a) -
+      logGamma(b) +
+      a * Math.log(x) +
+      b * Math.log(1 - x),
+  );
+  // The fraction converges quickly on this side of the mean, and the other
+  // side follows by symmetry
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+};
+
+/** The chance of a Student's t at least as far from 0 as `t`, either way. */
+export const studentTTwoSided = (t: number, degrees: number) =>
+  incompleteBeta(degrees / (degrees + t * t), degrees / 2, 0.5);
+
+/** The chance of a standard normal value at least as far from 0 as `z`. */
+export const normalTwoSided = (z: number) => upperGamma(0.5, (z * z) / 2);
+
+/** The chance of a chi-square value at least as large as `x`. */
+export const chiSquareSurvival = (x: number, degrees: number) =>
+  upperGamma(degrees / 2, x / 2);
@@ -0,0 +1,40 @@
+export type { Association, CorrelationMethod } from "./coefficients";
+export {
+  CORRELATION_METHODS,
+  correlate,
+  cramersV,
+  rankValues,
+} from "./coefficients";
+export type {
+  CorrelationMatrix,
+  CorrelationMeasure,
+  CorrelationOptions,
+  CorrelationPair,
+  CorrelationReport,
+} from "./correlate_dataset";
+export { correlateDataset } from "./correlate_dataset";
+export { correlationCharts } from "./correlation_charts";
+export type { CorrelationErrorCategory } from "./correlation_error";
+export {
+  CORRELATION_ERROR_CATEGORIES,
+  CorrelationError,
+  statusForCorrelationError,
+} from "./correlation_error";
+export type { PValueCorrection } from "./corrections";
+export { adjustPValues, P_VALUE_CORRECTIONS } from "./corrections";
+export type { DescribeCorrelationsOptions } from "./describe_correlations";
+export {
+  CORRELATION_MEASURE_NAMES,
+  correlationStrength,
+  describeCorrelations,
+  formatPValue,
+  P_VALUE_CORRECTION_NAMES,
+} from "./describe_correlations";
+export {
+  chiSquareSurvival,
+  incompleteBeta,
+  logGamma,
+  normalTwoSided,
+  studentTTwoSided,
+  upperGamma,
+} from "./distributions";
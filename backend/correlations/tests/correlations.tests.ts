@@ -0,0 +1,234 @@
+/** @jest-environment node */
+import {
+  adjustPValues,
+  chiSquareSurvival,
+  correlate,
+  correlateDataset,
+  CorrelationError,
+  correlationCharts,
+  cramersV,
+  describeCorrelations,
+  normalTwoSided,
+  studentTTwoSided,
+} from "../index";
+
+// Sales that follow ad spend closely, a column of noise, and a sales channel
+// that each region always uses. Ad spend is missing in rows 5 and 10.
+const CAMPAIGNS = [
+  "Region,Channel,Ad spend,Sales,Noise",
+  ...Array.from({ length: 30 }, (_, i) => {
+    const region = ["North", "South", "East"][i % 3];
+    const channel = region === "South" ? "Store" : "Online";
+    const spend = 10 + i;
+    const sales = 3 * spend + ((i * 7) % 5);
+    const noise = (i * 37) % 17;
+    const missing = i === 4 || i === 9;
+    return `${region},${channel},${missing ? "" : spend},${sales},${noise}`;
+  }),
+].join("\n");
+
+// Kendall's tau-b by comparing every pair of rows
+const naiveKendall = (xs: number[], ys: number[]) => {
+  let [concordant, discordant, xTies, yTies] = [0, 0, 0, 0];
+  for (let i = 0; i < xs.length; i++) {
+    for (let j = i + 1; j < xs.length; j++) {
+      const sign = Math.sign(xs[i] - xs[j]) * Math.sign(ys[i] - ys[j]);
+      concordant += sign > 0 ? 1 : 0;
+      discordant += sign < 0 ? 1 : 0;
+      xTies += xs[i] === xs[j] && ys[i] !== ys[j] ? 1 : 0;
+      yTies += ys[i] === ys[j] && xs[i] !== xs[j] ? 1 : 0;
+    }
+  }
+  return (
+    (concordant - discordant) /
+    Math.sqrt(
+      (concordant + discordant + xTies) * (concordant + discordant + yTies),
+    )
+  );
+};
+
+const categoryOf = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (e) {
+    return e instanceof CorrelationError ? e.category : e;
+  }
+  return undefined;
+};
+
+describe("distributions", () => {
+  it("gives the textbook tail probabilities", () => {
+    expect(normalTwoSided(1.959964)).toBeCloseTo(0.05, 5);
+    expect(studentTTwoSided(2.228139, 10)).toBeCloseTo(0.05, 5);
+    expect(studentTTwoSided(0, 10)).toBeCloseTo(1, 10);
+    expect(chiSquareSurvival(3.841459, 1)).toBeCloseTo(0.05, 5);
+    expect(chiSquareSurvival(9.487729, 4)).toBeCloseTo(0.05, 5);
+  });
+});
+
+describe("correlate", () => {
+  it("measures straight-line and ranked relationships", () => {
+    const xs = [1, 2, 3, 4, 5, 6, 7, 8];
+    const cubes = xs.map((x) => x ** 3);
+
+    const pearson = correlate("pearson", xs, cubes);
+    const spearman = correlate("spearman", xs, cubes);
+
+    expect(pearson?.coefficient).toBeGreaterThan(0.9);
+    expect(pearson?.coefficient).toBeLessThan(1);
+    expect(spearman).toEqual({ coefficient: 1, pValue: 0 });
+    expect(correlate("pearson", xs, [...xs].reverse())?.coefficient).toBe(-1);
+  });
+
+  it("matches Kendall's tau-b counted pair by pair, with ties", () => {
+    const xs = [3, 1, 4, 1, 5, 9, 2, 6, 5, 3, 5, 8];
+    const ys = [2, 7, 1, 8, 2, 8, 1, 8, 2, 8, 4, 5];
+
+    const kendall = correlate("kendall", xs, ys);
+
+    expect(kendall?.coefficient).toBeCloseTo(naiveKendall(xs, ys), 10);
+    expect(kendall?.pValue).toBeGreaterThan(0);
+    expect(kendall?.pValue).toBeLessThan(1);
+  });
+
+  it("can't measure a column that doesn't vary", () => {
+    expect(correlate("pearson", [1, 2, 3], [4, 4, 4])).toBeUndefined();
+    expect(correlate("kendall", [1, 2, 3], [4, 4, 4])).toBeUndefined();
+  });
+});
+
+describe("cramersV", () => {
+  it("is 1 for categories that determine each other and 0 for unrelated ones", () => {
+    const regions = ["N", "N", "S", "S", "N", "N", "S", "S"];
+
+    expect(
+      cramersV(
+        regions,
+        regions.map((r) => `${r}!`),
+      )?.coefficient,
+    ).toBe(1);
+    const unrelated = cramersV(regions, [
+      "a",
+      "b",
+      "a",
+      "b",
+      "a",
+      "b",
+      "a",
+      "b",
+    ]);
+    expect(unrelated?.coefficient).toBe(0);
+    expect(unrelated?.pValue).toBeCloseTo(1, 10);
+  });
+});
+
+describe("adjustPValues", () => {
+  it("adjusts p-values for the number of tests", () => {
+    const pValues = [0.01, 0.04, 0.03, 0.005];
+
+    expect(adjustPValues(pValues, "bonferroni")).toEqual([
+      0.04, 0.16, 0.12, 0.02,
+    ]);
+    const holm = adjustPValues(pValues, "holm");
+    [0.03, 0.06, 0.06, 0.02].forEach((p, i) => expect(holm[i]).toBeCloseTo(p));
+    const fdr = adjustPValues(pValues, "benjaminiHochberg");
+    [0.02, 0.04, 0.04, 0.02].forEach((p, i) => expect(fdr[i]).toBeCloseTo(p));
+    expect(adjustPValues(pValues, "none")).toEqual(pValues);
+  });
+});
+
+describe("correlateDataset", () => {
+  it("ranks the strongest significant relationships", () => {
+    const report = correlateDataset(CAMPAIGNS, { method: "spearman" });
+
+    expect(report).toMatchObject({
+      method: "spearman",
+      correction: "holm",
+      alpha: 0.05,
+      rowCount: 30,
+    });
+    expect(report.relationships.map(({ columns }) => columns)).toEqual([
+      ["Region", "Channel"],
+      ["Ad spend", "Sales"],
+    ]);
+    const [, spend] = report.relationships;
+    // Rows missing ad spend are left out of its pairs only
+    expect(spend).toMatchObject({ measure: "spearman", n: 28 });
+    expect(spend.coefficient).toBeGreaterThan(0.95);
+    expect(spend.adjustedPValue).toBeLessThan(0.001);
+    const noise = report.pairs.find(
+      ({ columns }) => columns[0] === "Sales" && columns[1] === "Noise",
+    );
+    expect(noise).toMatchObject({ n: 30, significant: false });
+  });
+
+  it("returns the matrices as data", () => {
+    const { matrix, categoricalMatrix, pairs } = correlateDataset(CAMPAIGNS);
+
+    expect(matrix?.columns).toEqual(["Ad spend", "Sales", "Noise"]);
+    expect(matrix?.coefficients.map((row, i) => row[i])).toEqual([1, 1, 1]);
+    expect(matrix?.coefficients[0][1]).toBe(matrix?.coefficients[1][0]);
+    expect(matrix?.pValues[0][1]).toBe(
+      pairs.find(({ columns }) => columns.join() === "Ad spend,Sales")
+        ?.adjustedPValue,
+    );
+    expect(categoricalMatrix).toMatchObject({
+      measure: "cramersV",
+      columns: ["Region", "Channel"],
+      coefficients: [
+        [1, 1],
+        [1, 1],
+      ],
+    });
+  });
+
+  it("rejects data without two columns of a kind to compare", () => {
+    expect(categoryOf(() => correlateDataset("Region,Sales\nN,1\nS,2"))).toBe(
+      "too_few_columns",
+    );
+    expect(
+      categoryOf(() =>
+        correlateDataset(CAMPAIGNS, { method: "cosine" as "pearson" }),
+      ),
+    ).toBe("invalid_request");
+    expect(
+      categoryOf(() => correlateDataset(CAMPAIGNS, { columns: ["Profit"] })),
+    ).toBe("invalid_request");
+  });
+});
+
+describe("correlationCharts", () => {
+  it("charts each matrix as a heatmap of its cells", () => {
+    const report = correlateDataset(CAMPAIGNS);
+
+    const { specs, table } = correlationCharts(report);
+
+    expect(specs.map(({ mark, title }) => [mark, title])).toEqual([
+      ["rect", "Correlation matrix"],
+      ["rect", "Association between categories"],
+    ]);
+    expect(table.header).toEqual([
+      "Column",
+      "Compared with",
+      "Correlation",
+      "Cramér's V",
+    ]);
+    expect(table.rows).toHaveLength(3 * 3 + 2 * 2);
+    expect(table.rows[0]).toEqual(["Ad spend", "Ad spend", "1", ""]);
+  });
+});
+
+describe("describeCorrelations", () => {
+  it("describes the tests and the relationships found", () => {
+    const text = describeCorrelations(correlateDataset(CAMPAIGNS));
+
+    expect(text).toContain(
+      "Significance: adjusted p below 0.05, adjusted by Holm for 4 pairs tested",
+    );
+    expect(text).toContain("Significant relationships: 2 of 4");
+    expect(text).toMatch(
+      /- Ad spend and Sales: Pearson's r 0\.9\d+ \(strong positive\), p < 0\.001, adjusted p < 0\.001, 28 rows/,
+    );
+    expect(text).toContain("Strongest pairs that aren't significant:");
+  });
+});
@@ -1,5 +1,5 @@
-import * as fs from "fs/promises";
-import * as path from "path";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
 
 /**
  * This file creates a "database" out of a JSON file. It's only for
@@ -7,36 +7,43 @@ import * as path from "path";
  */
 const DATABASE_FILE_PATH = path.join(__dirname, "db.json");
 
-interface Database<T> {
+export interface Database<T> {
   read(): Promise<T>;
   write(data: T): Promise<void>;
 }
 
 export class JSONFileDatabase<T> implements Database<T> {
-  constructor(private readonly seedData: T) {}
+  constructor(
+    private readonly seedData: T,
+    private readonly filePath = DATABASE_FILE_PATH,
+  ) {}
 
   // Creates a database file if one doesn't already exist
   private async init(): Promise<void> {
     try {
       // Do nothing, since the database is initialized
-      await fs.stat(DATABASE_FILE_PATH);
+      await fs.stat(this.filePath);
     } catch {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
       const file = JSON.stringify(this.seedData);
-      await fs.writeFile(DATABASE_FILE_PATH, file);
+      await fs.writeFile(this.filePath, file);
     }
   }
 
   // Loads and parses the database file
   async read(): Promise<T> {
     await this.init();
-    const file = await fs.readFile(DATABASE_FILE_PATH, "utf8");
+    const file = await fs.readFile(this.filePath, "utf8");
     return JSON.parse(file);
   }
 
-  // Overwrites the database file with provided data
+  // Overwrites the database file with provided data. The data is written to
+  // a temporary file first, so a crash mid-write leaves the old file intact.
   async write(data: T): Promise<void> {
     await this.init();
     const file = JSON.stringify(data);
-    await fs.writeFile(DATABASE_FILE_PATH, file);
+    const temporaryPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(temporaryPath, file);
+    await fs.rename(temporaryPath, this.filePath);
   }
 }
@@ -0,0 +1,48 @@
+/**
+ * Why a dataset request failed:
+ * - `invalid_request`: the upload is malformed, e.g. a chunk is missing or
+ *   the CSV has no header row.
+ * - `unknown_dataset`: there's no dataset with that ID, or it has expired.
+ * - `incomplete`: the dataset is still being uploaded.
+ * - `too_large`: the dataset is bigger than the server keeps.
+ */
+export const DATASET_ERROR_CATEGORIES = [
+  "invalid_request",
+  "unknown_dataset",
+  "incomplete",
+  "too_large",
+] as const;
+
+export type DatasetErrorCategory = (typeof DATASET_ERROR_CATEGORIES)[number];
+
+export class DatasetError extends Error {
+  constructor(
+    readonly category: DatasetErrorCategory,
+    message: string,
+  ) {
+    super(message);
+
+    Object.setPrototypeOf(this, DatasetError.prototype);
+  }
+}
+
+const STATUS_BY_CATEGORY: Record<DatasetErrorCategory, number> = {
+  invalid_request: 400,
+  unknown_dataset: 404,
+  incomplete: 409,
+  too_large: 413,
+};
+
+/**
+ * The HTTP status a route responds with when a request fails for this reason.
+ */
+export const statusForDatasetError = (category: DatasetErrorCategory) =>
+  STATUS_BY_CATEGORY[category];
+
+export class DatasetConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+
+    Object.setPrototypeOf(this, DatasetConfigError.prototype);
+  }
+}
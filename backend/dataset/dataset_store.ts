@@ -0,0 +1,328 @@
+import { randomUUID } from "node:crypto";
+import type { ParsedCsv } from "../../utils/csv";
+import { parseCsv } from "../../utils/csv";
+import type { DatasetProfile } from "../../utils/data_profile";
+import { profileDataset } from "../../utils/data_profile";
+import { readPositiveNumber } from "../env";
+import { DatasetConfigError, DatasetError } from "./dataset_error";
+import type {
+  ColumnKind,
+  DatasetSummary,
+  DatasetSummaryOptions,
+} from "./dataset_summary";
+import { summarizeDataset } from "./dataset_summary";
+
+/**
+ * How long datasets are kept and how much of them.
+ */
+export interface DatasetStoreSettings {
+  /** How long a dataset is kept after it was last used. */
+  ttlMs: number;
+  /** The largest dataset accepted, in bytes of CSV text. */
+  maxBytes: number;
+  /** How many datasets are kept at once; the least recently used go first. */
+  maxDatasets: number;
+}
+
+export const DATASET_STATUSES = ["uploading", "ready"] as const;
+
+export type DatasetStatus = (typeof DATASET_STATUSES)[number];
+
+/**
+ * A stored dataset as callers see it. The row count and columns are set once
+ * the upload is complete.
+ */
+export interface DatasetInfo {
+  id: string;
+  name: string;
+  status: DatasetStatus;
+  byteLength: number;
+  /** How many chunks have been received. */
+  chunkCount: number;
+  rowCount?: number;
+  columns?: { name: string; kind: ColumnKind }[];
+  createdAt: string;
+  lastUsedAt: string;
+  /** When the dataset is deleted unless it's used again first. */
+  expiresAt: string;
+}
+
+const DEFAULT_TTL_MS = 1_800_000;
+const DEFAULT_MAX_BYTES = 100 * 1024 * 1024;
+const DEFAULT_MAX_DATASETS = 20;
+
+/**
+ * Reads the dataset store settings from `DATASET_TTL_MS` (default 30
+ * minutes), `DATASET_MAX_BYTES` (100 MB) and `DATASET_MAX_COUNT` (20).
+ *
+ * @throws DatasetConfigError if a setting isn't a positive number.
+ */
+export const loadDatasetStoreSettings = (
+  env: NodeJS.ProcessEnv = process.env,
+): DatasetStoreSettings => ({
+  ttlMs: readPositiveNumber(
+    env,
+    "DATASET_TTL_MS",
+    DEFAULT_TTL_MS,
+    DatasetConfigError,
+  ),
+  maxBytes: readPositiveNumber(
+    env,
+    "DATASET_MAX_BYTES",
+    DEFAULT_MAX_BYTES,
+    DatasetConfigError,
+  ),
+  maxDatasets: Math.ceil(
+    readPositiveNumber(
+      env,
+      "DATASET_MAX_COUNT",
+      DEFAULT_MAX_DATASETS,
+      DatasetConfigError,
+    ),
+  ),
+});
+
+/**
+ * A CSV dataset parsed once. Its profile and summaries are kept, so routes
+ * that describe it to the model don't profile it again.
+ */
+export class ParsedDataset {
+  readonly table: ParsedCsv;
+  private readonly summaries = new Map<string, DatasetSummary>();
+  private datasetProfile?: DatasetProfile;
+
+  constructor(readonly csvData: string) {
+    this.table = parseCsv(csvData);
+  }
+
+  profile(): DatasetProfile {
+    this.datasetProfile ??= profileDataset(this.table);
+    return this.datasetProfile;
+  }
+
+  summarize(options: DatasetSummaryOptions = {}): DatasetSummary {
+    const key = `${options.tokenBudget}:${options.maxSampleRows}`;
+    let summary = this.summaries.get(key);
+    if (!summary) {
+      summary = summarizeDataset(this.table, options, this.profile());
+      this.summaries.set(key, summary);
+    }
+    return summary;
+  }
+}
+
+interface StoredDataset {
+  info: DatasetInfo;
+  chunks: string[];
+  dataset?: ParsedDataset;
+  lastUsed: number;
+}
+
+// IDs are the only thing guarding a dataset, so they can't be guessable
+const newDatasetId = () => `dataset_${randomUUID()}`;
+
+/**
+ * Keeps uploaded CSV datasets in memory, parsed, so routes can be sent a
+ * `datasetId` instead of the whole CSV each time. A dataset is uploaded in
+ * chunks, which may arrive in any order and be resent, and is parsed when
+ * the upload is completed. Datasets expire once they've gone unused for
+ * `ttlMs`; expired ones are dropped whenever the store is next used.
+ */
+export class DatasetStore {
+  private readonly datasets = new Map<string, StoredDataset>();
+
+  constructor(
+    private readonly settings: DatasetStoreSettings,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /** Starts the upload of a dataset. */
+  create(name = "dataset"): DatasetInfo {
+    this.dropExpired();
+    while (this.datasets.size >= this.settings.maxDatasets) {
+      this.dropLeastRecentlyUsed();
+    }
+    const now = this.now();
+    const stored: StoredDataset = {
+      info: {
+        id: newDatasetId(),
+        name,
+        status: "uploading",
+        byteLength: 0,
+        chunkCount: 0,
+        createdAt: new Date(now).toISOString(),
+        lastUsedAt: "",
+        expiresAt: "",
+      },
+      chunks: [],
+      lastUsed: now,
+    };
+    this.touch(stored);
+    this.datasets.set(stored.info.id, stored);
+    return { ...stored.info };
+  }
+
+  /**
+   * Stores one chunk of an upload's CSV text. Resending a chunk replaces it.
+   * @throws DatasetError if the upload is unknown or already complete, or
+   * the chunk makes it too large, which also discards the upload.
+   */
+  addChunk(id: string, index: number, data: string): DatasetInfo {
+    const stored = this.find(id);
+    if (stored.info.status !== "uploading") {
+      throw new DatasetError(
+        "invalid_request",
+        `Dataset ${id} has already been uploaded`,
+      );
+    }
+    if (!Number.isInteger(index) || index < 0) {
+      throw new DatasetError(
+        "invalid_request",
+        "The chunk index must be a whole number from 0",
+      );
+    }
+
+    const replaced = stored.chunks[index];
+    const byteLength =
+      stored.info.byteLength -
+      (replaced === undefined ? 0 : Buffer.byteLength(replaced)) +
+      Buffer.byteLength(data);
+    if (byteLength > this.settings.maxBytes) {
+      this.datasets.delete(id);
+      throw new DatasetError(
+        "too_large",
+        `Datasets can be at most ${this.settings.maxBytes} bytes`,
+      );
+    }
+
+    stored.chunks[index] = data;
+    stored.info.byteLength = byteLength;
+    stored.info.chunkCount = stored.chunks.filter(
+      (chunk) => chunk !== undefined,
+    ).length;
+    this.touch(stored);
+    return { ...stored.info };
+  }
+
+  /**
+   * Joins and parses an upload's chunks, after checking that all
+   * `chunkCount` of them arrived.
+   * @throws DatasetError if chunks are missing or the CSV has no header row.
+   */
+  complete(id: string, chunkCount: number): DatasetInfo {
+    const stored = this.find(id);
+    if (stored.info.status !== "uploading") {
+      return { ...stored.info };
+    }
+    if (!Number.isInteger(chunkCount) || chunkCount < 1) {
+      throw new DatasetError(
+        "invalid_request",
+        "chunkCount must be a whole number from 1",
+      );
+    }
+    if (stored.chunks.length > chunkCount) {
+      throw new DatasetError(
+        "invalid_request",
+        `Received ${stored.chunks.length} chunks, not ${chunkCount}`,
+      );
+    }
+    for (let index = 0; index < chunkCount; index++) {
+      if (stored.chunks[index] === undefined) {
+        throw new DatasetError("invalid_request", `Chunk ${index} is missing`);
+      }
+    }
+
+    const dataset = new ParsedDataset(stored.chunks.join(""));
+    if (dataset.table.header.length === 0) {
+      throw new DatasetError("invalid_request", "The dataset is empty");
+    }
+    stored.chunks = [];
+    stored.dataset = dataset;
+    stored.info.status = "ready";
+    stored.info.rowCount = dataset.table.rows.length;
+    stored.info.columns = dataset
+      .summarize()
+      .columns.map(({ name, kind }) => ({ name, kind }));
+    this.touch(stored);
+    return { ...stored.info };
+  }
+
+  /**
+   * Reads a dataset, which keeps it from expiring for another `ttlMs`.
+   * @throws DatasetError if it's unknown, expired or still uploading.
+   */
+  get(id: string): ParsedDataset {
+    const stored = this.find(id);
+    if (!stored.dataset) {
+      throw new DatasetError(
+        "incomplete",
+        `Dataset ${id} is still being uploaded`,
+      );
+    }
+    this.touch(stored);
+    return stored.dataset;
+  }
+
+  /**
+   * Describes a dataset, which counts as using it.
+   * @throws DatasetError if it's unknown or expired.
+   */
+  info(id: string): DatasetInfo {
+    const stored = this.find(id);
+    this.touch(stored);
+    return { ...stored.info };
+  }
+
+  /**
+   * Deletes a dataset straight away.
+   * @throws DatasetError if it's unknown or has already expired.
+   */
+  delete(id: string) {
+    this.find(id);
+    this.datasets.delete(id);
+  }
+
+  private find(id: string) {
+    this.dropExpired();
+    const stored = this.datasets.get(id);
+    if (!stored) {
+      throw new DatasetError(
+        "unknown_dataset",
+        `No dataset with ID ${id}; it may have expired`,
+      );
+    }
+    return stored;
+  }
+
+  private touch(stored: StoredDataset) {
+    const now = this.now();
+    stored.lastUsed = now;
+    stored.info.lastUsedAt = new Date(now).toISOString();
+    stored.info.expiresAt = new Date(now + this.settings.ttlMs).toISOString();
+  }
+
+  private dropExpired() {
+    const now = this.now();
+    for (const [id, stored] of this.datasets) {
+      if (now - stored.lastUsed >= this.settings.ttlMs) {
+        this.datasets.delete(id);
+      }
+    }
+  }
+
+  private dropLeastRecentlyUsed() {
+    let oldest: StoredDataset | undefined;
+    for (const stored of this.datasets.values()) {
+      if (!oldest || stored.lastUsed < oldest.lastUsed) {
+        oldest = stored;
+      }
+    }
+    if (oldest) {
+      this.datasets.delete(oldest.info.id);
+    }
+  }
+}
+
+export const createDatasetStore = (
+  env: NodeJS.ProcessEnv = process.env,
+): DatasetStore => new DatasetStore(loadDatasetStoreSettings(env));
@@ -0,0 +1,301 @@
+import type { ColumnType, CsvTable } from "../../utils/csv";
+import { formatCsvRow, parseCsv } from "../../utils/csv";
+import type {
+  ColumnProfile,
+  DatasetProfile,
+  ProfileWarning,
+} from "../../utils/data_profile";
+import {
+  describeColumn,
+  profileDataset,
+  truncateCell,
+} from "../../utils/data_profile";
+
+export type ColumnKind = ColumnType;
+
+// Columns are described by their profile, which reports and chart
+// suggestions share, so they all agree on a column's type and statistics
+export type { ColumnProfile };
+
+export interface DatasetSummaryOptions {
+  /**
+   * The approximate number of tokens the summary may use. Detail is dropped,
+   * starting with sample rows, until the summary fits.
+   */
+  tokenBudget?: number;
+  /** The most sample rows to include, however large the budget. */
+  maxSampleRows?: number;
+}
+
+/**
+ * A compact description of a dataset for use in prompts.
+ */
+export interface DatasetSummary {
+  /** The summary as prompt text. */
+  text: string;
+  estimatedTokens: number;
+  rowCount: number;
+  columns: ColumnProfile[];
+  /** The full profile the summary was written from, with its warnings. */
+  profile: DatasetProfile;
+  sampleRowCount: number;
+  /** The column sample rows were stratified by, if any. */
+  stratifiedBy?: string;
+  /** True when detail had to be dropped to fit the token budget. */
+  truncated: boolean;
+}
+
+const DEFAULT_TOKEN_BUDGET = 3000;
+const DEFAULT_MAX_SAMPLE_ROWS = 20;
+
+// Used to keep stratified samples readable: a column with more groups than
+// this isn't worth spreading a handful of rows across.
+const MAX_STRATA = 12;
+
+// Progressively less detailed renderings, tried in order until one fits
+const DETAIL_LEVELS = [
+  {
+    sampleRows: 20,
+    topValues: 5,
+    maxCellLength: 60,
+    quartiles: true,
+    warnings: true,
+  },
+  {
+    sampleRows: 10,
+    topValues: 5,
+    maxCellLength: 40,
+    quartiles: false,
+    warnings: true,
+  },
+  {
+    sampleRows: 5,
+    topValues: 3,
+    maxCellLength: 30,
+    quartiles: false,
+    warnings: true,
+  },
+  {
+    sampleRows: 2,
+    topValues: 1,
+    maxCellLength: 20,
+    quartiles: false,
+    warnings: false,
+  },
+  {
+    sampleRows: 0,
+    topValues: 0,
+    maxCellLength: 20,
+    quartiles: false,
+    warnings: false,
+  },
+];
+
+/**
+ * Estimates how many tokens a piece of text uses. Tokenisers differ between
+ * models, so this uses the common rule of thumb of four characters per token.
+ */
+export const estimateTokens = (text: string): number =>
+  Math.ceil(text.length / 4);
+
+/**
+ * Picks evenly spaced items, always including the first and last.
+ */
+const spread = <T>(items: T[], count: number): T[] => {
+  if (count >= items.length) {
+    return items;
+  }
+  if (count <= 0) {
+    return [];
+  }
+  if (count === 1) {
+    return [items[0]];
+  }
+  return Array.from(
+    { length: count },
+    (_, i) => items[Math.round((i * (items.length - 1)) / (count - 1))],
+  );
+};
+
+/**
+ * Chooses row indices so every group of the stratification column is
+ * represented in proportion to its size, with at least one row each.
+ */
+const stratifiedSample = (
+  rows: string[][],
+  count: number,
+  column?: number,
+): number[] => {
+  const indices = rows.map((_, index) => index);
+  if (column === undefined || count >= rows.length) {
+    return spread(indices, count);
+  }
+
+  const groups = new Map<string, number[]>();
+  for (const index of indices) {
+    const key = rows[index][column].trim();
+    const members = groups.get(key);
+    if (members) {
+      members.push(index);
+    } else {
+      groups.set(key, [index]);
+    }
+  }
+
+  const quotas = [...groups.values()].map((members) => ({
+    members,
+    quota: Math.max(1, Math.round((count * members.length) / rows.length)),
+  }));
+  let total = quotas.reduce((sum, { quota }) => sum + quota, 0);
+  while (total > count) {
+    const largest = quotas.reduce((a, b) => (b.quota > a.quota ? b : a));
+    if (largest.quota === 0) {
+      break;
+    }
+    largest.quota--;
+    total--;
+  }
+
+  return quotas
+    .flatMap(({ members, quota }) => spread(members, quota))
+    .sort((a, b) => a - b);
+};
+
+const chooseStratificationColumn = (columns: ColumnProfile[]) => {
+  let best: number | undefined;
+  columns.forEach((column, index) => {
+    if (
+      (column.kind === "category" || column.kind === "boolean") &&
+      column.distinct >= 2 &&
+      column.distinct <= MAX_STRATA &&
+      (best === undefined || column.distinct < columns[best].distinct)
+    ) {
+      best = index;
+    }
+  });
+  return best;
+};
+
+const render = (
+  table: CsvTable,
+  columns: ColumnProfile[],
+  warnings: ProfileWarning[],
+  sample: number[],
+  stratifiedBy: string | undefined,
+  level: (typeof DETAIL_LEVELS)[number],
+  shownColumns = columns.length,
+) => {
+  const { maxCellLength } = level;
+  const lines = [
+    `Dataset: ${table.rows.length} rows, ${columns.length} columns`,
+    "",
+    "Columns:",
+    ...columns
+      .slice(0, shownColumns)
+      .map((column) => `- ${describeColumn(column, level)}`),
+  ];
+  if (shownColumns < columns.length) {
+    lines.push(`- (${columns.length - shownColumns} more columns not shown)`);
+  }
+  if (level.warnings && warnings.length > 0) {
+    lines.push(
+      "",
+      "Warnings:",
+      ...warnings.map(({ message }) => `- ${message}`),
+    );
+  }
+
+  if (sample.length > 0) {
+    const heading =
+      sample.length === table.rows.length
+        ? `All ${sample.length} rows:`
+        : `Sample rows (${sample.length} of ${table.rows.length}${stratifiedBy ? `, stratified by ${stratifiedBy}` : ", evenly spaced"}):`;
+    lines.push(
+      "",
+      heading,
+      formatCsvRow(table.header),
+      ...sample.map((index) =>
+        formatCsvRow(
+          table.rows[index].map((cell) => truncateCell(cell, maxCellLength)),
+        ),
+      ),
+    );
+  }
+  return lines.join("\n");
+};
+
+/**
+ * Summarises a CSV dataset for a prompt: its profile's column types,
+ * summary statistics, top categories and warnings, and a stratified sample
+ * of rows. Detail
+ * is reduced until the summary fits the token budget, so prompts stay the
+ * same size however large the dataset is.
+ * @param data - The dataset as CSV text with a header row, or already parsed.
+ * @param options - The token budget and sample size limits.
+ * @param profile - The dataset's profile, if it's already been profiled.
+ */
+export const summarizeDataset = (
+  data: string | CsvTable,
+  {
+    tokenBudget = DEFAULT_TOKEN_BUDGET,
+    maxSampleRows = DEFAULT_MAX_SAMPLE_ROWS,
+  }: DatasetSummaryOptions = {},
+  profile?: DatasetProfile,
+): DatasetSummary => {
+  const table = typeof data === "string" ? parseCsv(data) : data;
+  profile ??= profileDataset(table);
+  const { columns, warnings } = profile;
+  const stratificationColumn = chooseStratificationColumn(columns);
+  const stratifiedBy =
+    stratificationColumn === undefined
+      ? undefined
+      : columns[stratificationColumn].name;
+
+  const summarize = (
+    level: (typeof DETAIL_LEVELS)[number],
+    truncated: boolean,
+    shownColumns?: number,
+  ): DatasetSummary => {
+    const sample = stratifiedSample(
+      table.rows,
+      Math.min(level.sampleRows, maxSampleRows),
+      stratificationColumn,
+    );
+    const text = render(
+      table,
+      columns,
+      warnings,
+      sample,
+      stratifiedBy,
+      level,
+      shownColumns,
+    );
+    return {
+      text,
+      estimatedTokens: estimateTokens(text),
+      rowCount: table.rows.length,
+      columns,
+      profile,
+      sampleRowCount: sample.length,
+      stratifiedBy: sample.length > 0 ? stratifiedBy : undefined,
+      truncated,
+    };
+  };
+
+  for (const [index, level] of DETAIL_LEVELS.entries()) {
+    const summary = summarize(level, index > 0);
+    if (summary.estimatedTokens <= tokenBudget) {
+      return summary;
+    }
+  }
+
+  // Even the least detailed rendering is too big, so list fewer columns
+  const leastDetail = DETAIL_LEVELS[DETAIL_LEVELS.length - 1];
+  let shownColumns = columns.length;
+  let summary = summarize(leastDetail, true, shownColumns);
+  while (summary.estimatedTokens > tokenBudget && shownColumns > 0) {
+    shownColumns = Math.floor(shownColumns / 2);
+    summary = summarize(leastDetail, true, shownColumns);
+  }
+  return summary;
+};
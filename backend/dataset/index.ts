@@ -0,0 +1,26 @@
+export type { DatasetErrorCategory } from "./dataset_error";
+export {
+  DATASET_ERROR_CATEGORIES,
+  DatasetConfigError,
+  DatasetError,
+  statusForDatasetError,
+} from "./dataset_error";
+export type {
+  DatasetInfo,
+  DatasetStatus,
+  DatasetStoreSettings,
+} from "./dataset_store";
+export {
+  createDatasetStore,
+  DATASET_STATUSES,
+  DatasetStore,
+  loadDatasetStoreSettings,
+  ParsedDataset,
+} from "./dataset_store";
+export type {
+  ColumnKind,
+  ColumnProfile,
+  DatasetSummary,
+  DatasetSummaryOptions,
+} from "./dataset_summary";
+export { estimateTokens, summarizeDataset } from "./dataset_summary";
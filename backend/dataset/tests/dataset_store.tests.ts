@@ -0,0 +1,146 @@
+/** @jest-environment node */
+import {
+  DatasetConfigError,
+  DatasetError,
+  DatasetStore,
+  loadDatasetStoreSettings,
+} from "../index";
+
+const SETTINGS = { ttlMs: 60_000, maxBytes: 100, maxDatasets: 2 };
+
+describe("DatasetStore", () => {
+  let now: number;
+  let store: DatasetStore;
+
+  beforeEach(() => {
+    now = Date.parse("2024-05-01T12:00:00Z");
+    store = new DatasetStore(SETTINGS, () => now);
+  });
+
+  const upload = (chunks: string[], name?: string) => {
+    const { id } = store.create(name);
+    chunks.forEach((chunk, index) => store.addChunk(id, index, chunk));
+    return store.complete(id, chunks.length);
+  };
+
+  const categoryOf = (operation: () => unknown) => {
+    try {
+      operation();
+    } catch (e) {
+      return e instanceof DatasetError ? e.category : e;
+    }
+    return undefined;
+  };
+
+  it("joins chunks sent in any order and parses them once", () => {
+    const { id } = store.create("orders.csv");
+    store.addChunk(id, 1, "th,100\nSouth,200");
+    store.addChunk(id, 0, "Region,Sales\nNor");
+
+    expect(store.complete(id, 2)).toEqual({
+      id,
+      name: "orders.csv",
+      status: "ready",
+      byteLength: 32,
+      chunkCount: 2,
+      rowCount: 2,
+      columns: [
+        { name: "Region", kind: "category" },
+        { name: "Sales", kind: "integer" },
+      ],
+      createdAt: "2024-05-01T12:00:00.000Z",
+      lastUsedAt: "2024-05-01T12:00:00.000Z",
+      expiresAt: "2024-05-01T12:01:00.000Z",
+    });
+    const dataset = store.get(id);
+    expect(dataset.table.rows).toEqual([
+      ["North", "100"],
+      ["South", "200"],
+    ]);
+    expect(dataset.summarize()).toBe(dataset.summarize());
+  });
+
+  it("replaces resent chunks", () => {
+    const { id } = store.create();
+    store.addChunk(id, 0, "A\n1");
+    expect(store.addChunk(id, 0, "A\n2")).toMatchObject({
+      byteLength: 3,
+      chunkCount: 1,
+    });
+    store.complete(id, 1);
+
+    expect(store.get(id).table.rows).toEqual([["2"]]);
+  });
+
+  it("refuses incomplete and malformed uploads", () => {
+    const { id } = store.create();
+    store.addChunk(id, 1, "1");
+
+    expect(categoryOf(() => store.get(id))).toBe("incomplete");
+    expect(categoryOf(() => store.complete(id, 2))).toBe("invalid_request");
+    expect(categoryOf(() => store.addChunk(id, -1, "A"))).toBe(
+      "invalid_request",
+    );
+    store.addChunk(id, 0, "A\n");
+    store.complete(id, 2);
+    expect(categoryOf(() => store.addChunk(id, 2, "2"))).toBe(
+      "invalid_request",
+    );
+  });
+
+  it("discards uploads that grow too large", () => {
+    const { id } = store.create();
+    store.addChunk(id, 0, "A\n".repeat(40));
+
+    expect(categoryOf(() => store.addChunk(id, 1, "1\n".repeat(20)))).toBe(
+      "too_large",
+    );
+    expect(categoryOf(() => store.info(id))).toBe("unknown_dataset");
+  });
+
+  it("expires datasets left unused", () => {
+    const { id } = upload(["A\n1"]);
+    now += 50_000;
+    store.get(id);
+    now += 50_000;
+
+    expect(store.info(id).expiresAt).toBe("2024-05-01T12:02:40.000Z");
+    now += 60_000;
+    expect(categoryOf(() => store.get(id))).toBe("unknown_dataset");
+  });
+
+  it("drops the least recently used dataset to make room", () => {
+    const first = upload(["A\n1"]);
+    now += 1000;
+    const second = upload(["B\n2"]);
+    now += 1000;
+    store.get(first.id);
+    upload(["C\n3"]);
+
+    expect(store.info(first.id).status).toBe("ready");
+    expect(categoryOf(() => store.info(second.id))).toBe("unknown_dataset");
+  });
+
+  it("deletes datasets", () => {
+    const { id } = upload(["A\n1"]);
+    store.delete(id);
+
+    expect(categoryOf(() => store.get(id))).toBe("unknown_dataset");
+    expect(categoryOf(() => store.delete(id))).toBe("unknown_dataset");
+  });
+});
+
+describe("loadDatasetStoreSettings", () => {
+  it("reads the settings from the environment", () => {
+    expect(
+      loadDatasetStoreSettings({
+        DATASET_TTL_MS: "1000",
+        DATASET_MAX_BYTES: "2048",
+        DATASET_MAX_COUNT: "3",
+      }),
+    ).toEqual({ ttlMs: 1000, maxBytes: 2048, maxDatasets: 3 });
+    expect(() => loadDatasetStoreSettings({ DATASET_TTL_MS: "soon" })).toThrow(
+      DatasetConfigError,
+    );
+  });
+});
@@ -0,0 +1,107 @@
+import { estimateTokens, summarizeDataset } from "../index";
+
+const REGIONS = ["North", "South", "East", "West"];
+
+// Builds a CSV with mostly North rows so stratification has work to do
+const buildSalesCsv = (rowCount: number) => {
+  const lines = ["Date,Region,Sales,Returned,Notes"];
+  for (let i = 0; i < rowCount; i++) {
+    const region = i % 10 === 0 ? REGIONS[(i / 10) % 4] : "North";
+    const day = String((i % 28) + 1).padStart(2, "0");
+    lines.push(
+      `2024-02-${day},${region},${(i % 97) * 10.5},${i % 3 === 0 ? "yes" : "no"},"Order ${i}, ""rush"""`,
+    );
+  }
+  return lines.join("\n");
+};
+
+describe("summarizeDataset", () => {
+  it("infers column types and summary statistics", () => {
+    const { columns, rowCount } = summarizeDataset(
+      [
+        "Date,Region,Revenue,Units,Active,Comment",
+        '2024-01-01,North,"$1,200.50",3,true,',
+        "2024-03-15,South,300,5,false,late",
+        "2024-02-10,North,450.25,N/A,true,ok",
+      ].join("\n"),
+    );
+
+    expect(rowCount).toBe(3);
+    expect(columns.map(({ name, kind }) => [name, kind])).toEqual([
+      ["Date", "date"],
+      ["Region", "category"],
+      ["Revenue", "number"],
+      ["Units", "integer"],
+      ["Active", "boolean"],
+      ["Comment", "category"],
+    ]);
+    expect(columns[0].range).toEqual({
+      earliest: "2024-01-01",
+      latest: "2024-03-15",
+      days: 74,
+    });
+    expect(columns[1].topValues[0]).toEqual({ value: "North", count: 2 });
+    expect(columns[2].stats).toMatchObject({
+      min: 300,
+      max: 1200.5,
+      median: 450.25,
+    });
+    expect(columns[3]).toMatchObject({ missing: 1, stats: { mean: 4 } });
+    expect(columns[5].missing).toBe(1);
+  });
+
+  it("includes every row of a small dataset", () => {
+    const summary = summarizeDataset("Region,Sales\nNorth,100\nSouth,200");
+
+    expect(summary.sampleRowCount).toBe(2);
+    expect(summary.truncated).toBe(false);
+    expect(summary.text).toContain("All 2 rows:\nRegion,Sales\nNorth,100");
+  });
+
+  it("samples every group of the stratification column", () => {
+    const summary = summarizeDataset(buildSalesCsv(400), {
+      tokenBudget: 100_000,
+      maxSampleRows: 8,
+    });
+    const sampleLines = summary.text.split("\n").slice(-8);
+
+    expect(summary.stratifiedBy).toBe("Returned");
+    expect(summary.sampleRowCount).toBe(8);
+    expect(sampleLines.filter((line) => line.includes(",yes,"))).toHaveLength(
+      3,
+    );
+    expect(summary.text).toContain(
+      "Sample rows (8 of 400, stratified by Returned):",
+    );
+  });
+
+  it("fits large datasets into the token budget", () => {
+    const summary = summarizeDataset(buildSalesCsv(50_000), {
+      tokenBudget: 250,
+    });
+
+    expect(summary.rowCount).toBe(50_000);
+    expect(summary.estimatedTokens).toBeLessThanOrEqual(250);
+    expect(summary.truncated).toBe(true);
+    expect(summary.sampleRowCount).toBeGreaterThan(0);
+    expect(summary.text).toContain("- Sales [number]: 0 missing; min 0");
+  });
+
+  it("drops columns when even the least detail doesn't fit", () => {
+    const header = Array.from({ length: 40 }, (_, i) => `Column ${i}`);
+    const summary = summarizeDataset(
+      `${header.join(",")}\n${header.map((_, i) => i).join(",")}`,
+      { tokenBudget: 150 },
+    );
+
+    expect(summary.estimatedTokens).toBeLessThanOrEqual(150);
+    expect(summary.text).toMatch(/\(\d+ more columns not shown\)/);
+  });
+});
+
+describe("estimateTokens", () => {
+  it("counts roughly four characters per token", () => {
+    expect(estimateTokens("abcdefgh")).toBe(2);
+    expect(estimateTokens("abcdefghi")).toBe(3);
+  });
+});
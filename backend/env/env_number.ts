@@ -0,0 +1,51 @@
+/** The configuration error a module throws, given its message. */
+export type ConfigErrorClass = new (message: string) => Error;
+
+const readNumber = (
+  env: NodeJS.ProcessEnv,
+  name: string,
+  fallback: number,
+  ConfigError: ConfigErrorClass,
+  expected: { valid: (value: number) => boolean; description: string },
+) => {
+  const value = env[name];
+  if (!value) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!expected.valid(parsed)) {
+    throw new ConfigError(`${name} must be ${expected.description}`);
+  }
+  return parsed;
+};
+
+/**
+ * Reads the positive number in `env[name]`, or `fallback` when it isn't set.
+ * @throws ConfigError if the value isn't a positive number.
+ */
+export const readPositiveNumber = (
+  env: NodeJS.ProcessEnv,
+  name: string,
+  fallback: number,
+  ConfigError: ConfigErrorClass,
+): number =>
+  readNumber(env, name, fallback, ConfigError, {
+    valid: (value) => !isNaN(value) && value > 0,
+    description: "a positive number",
+  });
+
+/**
+ * Reads the positive whole number in `env[name]`, or `fallback` when it isn't
+ * set.
+ * @throws ConfigError if the value isn't a positive whole number.
+ */
+export const readPositiveInteger = (
+  env: NodeJS.ProcessEnv,
+  name: string,
+  fallback: number,
+  ConfigError: ConfigErrorClass,
+): number =>
+  readNumber(env, name, fallback, ConfigError, {
+    valid: (value) => Number.isInteger(value) && value > 0,
+    description: "a positive whole number",
+  });
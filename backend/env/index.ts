@@ -0,0 +1,2 @@
+export type { ConfigErrorClass } from "./env_number";
+export { readPositiveInteger, readPositiveNumber } from "./env_number";
@@ -0,0 +1,32 @@
+import { readPositiveInteger, readPositiveNumber } from "../index";
+
+class TestConfigError extends Error {}
+
+describe("readPositiveNumber", () => {
+  it("reads the value, or the fallback when it isn't set", () => {
+    const env = { LIMIT: "2.5", EMPTY: "" };
+
+    expect(readPositiveNumber(env, "LIMIT", 10, TestConfigError)).toBe(2.5);
+    expect(readPositiveNumber(env, "EMPTY", 10, TestConfigError)).toBe(10);
+    expect(readPositiveNumber(env, "MISSING", 10, TestConfigError)).toBe(10);
+  });
+
+  it("throws the module's config error for values that aren't positive", () => {
+    for (const value of ["0", "-1", "ten"]) {
+      expect(() =>
+        readPositiveNumber({ LIMIT: value }, "LIMIT", 10, TestConfigError),
+      ).toThrow(new TestConfigError("LIMIT must be a positive number"));
+    }
+  });
+});
+
+describe("readPositiveInteger", () => {
+  it("rejects fractions", () => {
+    expect(readPositiveInteger({ ROWS: "5" }, "ROWS", 1, TestConfigError)).toBe(
+      5,
+    );
+    expect(() =>
+      readPositiveInteger({ ROWS: "1.5" }, "ROWS", 1, TestConfigError),
+    ).toThrow(new TestConfigError("ROWS must be a positive whole number"));
+  });
+});
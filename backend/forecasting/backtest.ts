@@ -0,0 +1,76 @@
+import type { ForecastModel } from "./models";
+import { fitModel } from "./models";
+
+/**
+ * How well a model forecast the end of the series from the data before it.
+ */
+export interface BacktestResult {
+  model: ForecastModel;
+  /**
+   * The mean absolute percentage error, or null when every value tested
+   * was 0.
+   */
+  mape: number | null;
+  /** The root mean squared error, in the target's units. */
+  rmse: number;
+  /** How many times the model was refitted and tested. */
+  folds: number;
+  /** How many forecast values were tested in all. */
+  points: number;
+}
+
+// Tests at most this many forecasts, each from a later point in the series
+const MAX_FOLDS = 3;
+
+/**
+ * Backtests a model by refitting it to the series up to a cut-off and
+ * comparing its forecasts with the values after it. Cut-offs move back from
+ * the end of the series so the tested stretches don't overlap.
+ * @param horizon - How far ahead the real forecast goes; stretches tested
+ * are no longer than this, nor than a quarter of the series.
+ * @returns undefined if the model can't be fitted to the shortened series.
+ */
+export const backtestModel = (
+  model: ForecastModel,
+  values: number[],
+  seasonLength: number,
+  horizon: number,
+): BacktestResult | undefined => {
+  const testLength = Math.max(
+    1,
+    Math.min(horizon, Math.floor(values.length / 4)),
+  );
+  let squaredErrors = 0;
+  let percentErrors = 0;
+  let nonZero = 0;
+  let points = 0;
+  let folds = 0;
+  for (let fold = 0; fold < MAX_FOLDS; fold++) {
+    const cutOff = values.length - (fold + 1) * testLength;
+    const fitted = fitModel(model, values.slice(0, cutOff), seasonLength);
+    if (!fitted) {
+      break;
+    }
+    const actual = values.slice(cutOff, cutOff + testLength);
+    fitted.forecast(testLength).forEach((predicted, index) => {
+      const error = actual[index] - predicted;
+      squaredErrors += error ** 2;
+      if (actual[index] !== 0) {
+        percentErrors += Math.abs(error / actual[index]);
+        nonZero++;
+      }
+      points++;
+    });
+    folds++;
+  }
+  if (folds === 0) {
+    return undefined;
+  }
+  return {
+    model,
+    mape: nonZero > 0 ? (100 * percentErrors) / nonZero : null,
+    rmse: Math.sqrt(squaredErrors / points),
+    folds,
+    points,
+  };
+};
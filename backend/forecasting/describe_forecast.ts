@@ -0,0 +1,47 @@
+import { formatProfileNumber } from "../../utils/data_profile";
+import type { ForecastResult } from "./forecast";
+import type { ForecastModel } from "./models";
+
+/** What each model is called when a forecast is described. */
+export const FORECAST_MODEL_NAMES: Record<ForecastModel, string> = {
+  linear: "Linear trend",
+  ets: "Exponential smoothing (Holt's trend)",
+  holtWinters: "Holt-Winters seasonal",
+};
+
+const formatNumber = (n: number) => formatProfileNumber(n);
+
+const formatParameters = (parameters: Record<string, number>) =>
+  Object.entries(parameters)
+    .map(([name, value]) => `${name} ${formatNumber(value)}`)
+    .join(", ");
+
+/**
+ * Describes a forecast in lines of text for a prompt: the series, the model
+ * and its backtests, the confidence and each forecast value with its
+ * interval. Narrations quote these numbers rather than make up their own.
+ */
+export const describeForecast = (result: ForecastResult) => {
+  const { history, frequency, targetColumn } = result;
+  const first = history[0];
+  const last = history[history.length - 1];
+  const filled = history.filter((point) => point.filled).length;
+  const percent = formatNumber(result.intervalLevel * 100);
+  return [
+    `Target: ${result.aggregate} of "${targetColumn}" per ${frequency}, by "${result.dateColumn}"`,
+    `History: ${history.length} periods from ${first.period} (${formatNumber(first.value)}) to ${last.period} (${formatNumber(last.value)})${filled > 0 ? `; ${filled} empty periods interpolated` : ""}`,
+    `Model: ${FORECAST_MODEL_NAMES[result.model]} (${formatParameters(result.parameters)})`,
+    "Backtests, best first:",
+    ...result.backtests.map(
+      ({ model, mape, rmse, points }) =>
+        `- ${FORECAST_MODEL_NAMES[model]}: MAPE ${mape == null ? "not measurable" : `${formatNumber(mape)}%`}, RMSE ${formatNumber(rmse)} over ${points} forecast values`,
+    ),
+    `Trend: ${formatNumber(result.trendPerPeriod)} per ${frequency}`,
+    `Confidence: ${result.accuracy == null ? "not measurable" : `${formatNumber(result.accuracy)}% (100 minus the model's backtest MAPE)`}`,
+    `Forecast with ${percent}% prediction intervals:`,
+    ...result.forecast.map(
+      ({ period, value, lower, upper }) =>
+        `- ${period}: ${formatNumber(value)} (${formatNumber(lower)} to ${formatNumber(upper)})`,
+    ),
+  ].join("\n");
+};
@@ -0,0 +1,242 @@
+import { TIME_UNITS } from "../../utils/chart_spec";
+import type { CsvTable } from "../../utils/csv";
+import { parseCsv } from "../../utils/csv";
+import type { DatasetProfile } from "../../utils/data_profile";
+import { profileDataset } from "../../utils/data_profile";
+import type { BacktestResult } from "./backtest";
+import { backtestModel } from "./backtest";
+import { ForecastError } from "./forecast_error";
+import type { ForecastModel } from "./models";
+import { FORECAST_MODELS, fitModel, minimumPoints } from "./models";
+import type {
+  Frequency,
+  SeriesAggregate,
+  SeriesPoint,
+  TimeSeriesOptions,
+} from "./time_series";
+import {
+  addPeriods,
+  buildTimeSeries,
+  isoDate,
+  SEASON_LENGTHS,
+  SERIES_AGGREGATES,
+} from "./time_series";
+
+export interface ForecastOptions extends TimeSeriesOptions {
+  /** How many periods to forecast. Defaults to 12. */
+  periods?: number;
+  /** The model to use. Defaults to the one that backtests best. */
+  model?: ForecastModel;
+  /** The probability each interval holds the value. Defaults to 0.95. */
+  intervalLevel?: number;
+}
+
+export interface ForecastPoint {
+  /** The start of the period, as an ISO date. */
+  period: string;
+  value: number;
+  /** The bottom of the prediction interval. */
+  lower: number;
+  /** The top of the prediction interval. */
+  upper: number;
+}
+
+/**
+ * A forecast and the evidence for it. Every number in it is computed; a
+ * narration of the forecast should quote these rather than its own.
+ */
+export interface ForecastResult {
+  dateColumn: string;
+  targetColumn: string;
+  frequency: Frequency;
+  aggregate: SeriesAggregate;
+  /** The periods in a seasonal cycle at this frequency. */
+  seasonLength: number;
+  /** The resampled series the models were fitted to. */
+  history: SeriesPoint[];
+  model: ForecastModel;
+  parameters: Record<string, number>;
+  /** The backtest of each model that could be fitted, best first. */
+  backtests: BacktestResult[];
+  intervalLevel: number;
+  forecast: ForecastPoint[];
+  /**
+   * 100 minus the chosen model's backtest MAPE, from 0 to 100, or null when
+   * it couldn't be measured.
+   */
+  accuracy: number | null;
+  /** How much the target changes each period at the end of the series. */
+  trendPerPeriod: number;
+}
+
+export const DEFAULT_FORECAST_PERIODS = 12;
+export const MAX_FORECAST_PERIODS = 365;
+export const DEFAULT_INTERVAL_LEVEL = 0.95;
+
+// The fewest points any model is fitted to, leaving one to backtest
+const MIN_POINTS = 4;
+
+/**
+ * The value a standard normal variable falls below with probability `p`,
+ * by Acklam's rational approximation.
+ */
+export const normalQuantile = (p: number) => {
+  const a = [
+    -39.69683028665376, 220.9460984245205, -275.928510446969, 138.357751867269,
+    -30.66479806614716, 2.506628277459239,
+  ];
+  const b = [
+    -54.47609879822406, 161.5858368580409, -155.6989798598866,
+    66.80131188771972, -13.28068155288572,
+  ];
+  const c = [
+    -0.007784894002430293, -0.3223964580411365, -2.400758277161838,
+    -2.549732539343734, 4.374664141464968, 2.938163982698783,
+  ];
+  const d = [
+    0.007784695709041462, 0.3224671290700398, 2.445134137142996,
+    3.754408661907416,
+  ];
+  const tail = (q: number) =>
+    (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+    ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  if (p < 0.02425) {
+    return tail(Math.sqrt(-2 * Math.log(p)));
+  }
+  if (p > 1 - 0.02425) {
+    return -tail(Math.sqrt(-2 * Math.log(1 - p)));
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (
+    ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) *
+      q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  );
+};
+
+const checkOptions = ({
+  periods,
+  intervalLevel,
+  model,
+  frequency,
+  aggregate,
+}: ForecastOptions) => {
+  if (
+    periods !== undefined &&
+    (!Number.isInteger(periods) ||
+      periods < 1 ||
+      periods > MAX_FORECAST_PERIODS)
+  ) {
+    throw new ForecastError(
+      "invalid_request",
+      `Forecast between 1 and ${MAX_FORECAST_PERIODS} periods`,
+    );
+  }
+  if (
+    intervalLevel !== undefined &&
+    !(intervalLevel > 0 && intervalLevel < 1)
+  ) {
+    throw new ForecastError(
+      "invalid_request",
+      "The interval level must be between 0 and 1, e.g. 0.95",
+    );
+  }
+  if (model !== undefined && !FORECAST_MODELS.includes(model)) {
+    throw new ForecastError(
+      "invalid_request",
+      `Unknown model "${model}"; use one of ${FORECAST_MODELS.join(", ")}`,
+    );
+  }
+  if (frequency !== undefined && !TIME_UNITS.includes(frequency)) {
+    throw new ForecastError(
+      "invalid_request",
+      `Unknown frequency "${frequency}"; use one of ${TIME_UNITS.join(", ")}`,
+    );
+  }
+  if (aggregate !== undefined && !SERIES_AGGREGATES.includes(aggregate)) {
+    throw new ForecastError(
+      "invalid_request",
+      `Unknown aggregate "${aggregate}"; use one of ${SERIES_AGGREGATES.join(", ")}`,
+    );
+  }
+};
+
+/**
+ * Forecasts a column of a dataset over time. The data is resampled to one
+ * value per period, each model that fits the series is backtested, and the
+ * model asked for, or the one with the smallest backtest RMSE, is refitted
+ * to the whole series to forecast it with prediction intervals.
+ * @param data - The dataset as CSV text with a header row, or already parsed.
+ * @param profile - The dataset's profile, if it's already been made.
+ * @throws ForecastError if the options are invalid, the data has no series,
+ * or the series is too short.
+ */
+export const forecastDataset = (
+  data: string | CsvTable,
+  options: ForecastOptions = {},
+  profile?: DatasetProfile,
+): ForecastResult => {
+  checkOptions(options);
+  const table = typeof data === "string" ? parseCsv(data) : data;
+  const series = buildTimeSeries(
+    table,
+    profile ?? profileDataset(table),
+    options,
+  );
+  const { points, frequency } = series;
+  if (points.length < MIN_POINTS) {
+    throw new ForecastError(
+      "too_few_points",
+      `Forecasting needs at least ${MIN_POINTS} periods of data; "${series.targetColumn}" has ${points.length} at a ${frequency} frequency`,
+    );
+  }
+  const periods = options.periods ?? DEFAULT_FORECAST_PERIODS;
+  const intervalLevel = options.intervalLevel ?? DEFAULT_INTERVAL_LEVEL;
+  const seasonLength = SEASON_LENGTHS[frequency];
+  const values = points.map(({ value }) => value);
+
+  const backtests = FORECAST_MODELS.flatMap((model) => {
+    const result = backtestModel(model, values, seasonLength, periods);
+    return result ? [result] : [];
+  }).sort((a, b) => a.rmse - b.rmse);
+
+  const model = options.model ?? backtests[0]?.model ?? "linear";
+  const fitted = fitModel(model, values, seasonLength);
+  if (!fitted) {
+    throw new ForecastError(
+      "too_few_points",
+      `The ${model} model needs at least ${minimumPoints(model, seasonLength)} periods of data; "${series.targetColumn}" has ${points.length}`,
+    );
+  }
+
+  const z = normalQuantile(0.5 + intervalLevel / 2);
+  let start = Date.parse(points[points.length - 1].period);
+  const forecast = fitted.forecast(periods).map((value, index) => {
+    start = addPeriods(start, frequency);
+    const margin = z * fitted.standardError(index + 1);
+    return {
+      period: isoDate(start),
+      value,
+      lower: value - margin,
+      upper: value + margin,
+    };
+  });
+
+  const mape = backtests.find((backtest) => backtest.model === model)?.mape;
+  return {
+    dateColumn: series.dateColumn,
+    targetColumn: series.targetColumn,
+    frequency,
+    aggregate: series.aggregate,
+    seasonLength,
+    history: points,
+    model,
+    parameters: fitted.parameters,
+    backtests,
+    intervalLevel,
+    forecast,
+    accuracy: mape == null ? null : Math.max(0, Math.min(100, 100 - mape)),
+    trendPerPeriod: fitted.trendPerPeriod,
+  };
+};
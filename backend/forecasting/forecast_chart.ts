@@ -0,0 +1,59 @@
+import type { ChartSpec } from "../../utils/chart_spec";
+import type { CsvTable } from "../../utils/csv";
+import type { ForecastResult } from "./forecast";
+
+/**
+ * The series a forecast chart draws, in the order their colours are given.
+ */
+export const FORECAST_CHART_SERIES = [
+  "Actual",
+  "Forecast",
+  "Lower bound",
+  "Upper bound",
+] as const;
+
+// Actual and forecast values stand out; the interval bounds are muted
+const FORECAST_PALETTE = ["#4c78a8", "#f58518", "#bab0ac", "#bab0ac"];
+
+const formatValue = (value: number) => String(Math.round(value * 1e4) / 1e4);
+
+/**
+ * Charts a forecast: the history, the forecast carried on from its last
+ * value, and the bounds of the prediction interval, as one line each.
+ * @returns The chart's spec and the table it's drawn from, with the date and
+ * target columns of the forecast and a column naming each row's series.
+ */
+export const forecastChart = (
+  result: ForecastResult,
+): { spec: ChartSpec; table: CsvTable } => {
+  const { dateColumn, targetColumn, history, forecast, frequency } = result;
+  const seriesColumn = [dateColumn, targetColumn].includes("Series")
+    ? "Forecast series"
+    : "Series";
+  const [actual, predicted, lower, upper] = FORECAST_CHART_SERIES;
+  const last = history[history.length - 1];
+  const rows = [
+    ...history.map(({ period, value }) => [period, actual, formatValue(value)]),
+    [last.period, predicted, formatValue(last.value)],
+    ...forecast.flatMap(({ period, value, lower: low, upper: high }) => [
+      [period, predicted, formatValue(value)],
+      [period, lower, formatValue(low)],
+      [period, upper, formatValue(high)],
+    ]),
+  ];
+  const percent = Math.round(result.intervalLevel * 100);
+  return {
+    spec: {
+      title: `${targetColumn} forecast`,
+      description: `${targetColumn} by ${frequency}, with the ${result.model} model's forecast and ${percent}% prediction interval`,
+      mark: "line",
+      encoding: {
+        x: { field: dateColumn, type: "temporal", timeUnit: frequency },
+        y: { field: targetColumn, type: "quantitative" },
+        color: { field: seriesColumn, type: "nominal" },
+      },
+      palette: FORECAST_PALETTE,
+    },
+    table: { header: [dateColumn, seriesColumn, targetColumn], rows },
+  };
+};
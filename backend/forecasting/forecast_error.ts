@@ -0,0 +1,40 @@
+/**
+ * Why a forecast couldn't be made:
+ * - `invalid_request`: the options are invalid, e.g. a named column doesn't
+ *   exist or isn't dates or numbers, or the horizon is out of range.
+ * - `no_time_series`: the data has no column of dates, or no numeric column,
+ *   to forecast.
+ * - `too_few_points`: the series is too short for the model asked for, or
+ *   for any model.
+ */
+export const FORECAST_ERROR_CATEGORIES = [
+  "invalid_request",
+  "no_time_series",
+  "too_few_points",
+] as const;
+
+export type ForecastErrorCategory = (typeof FORECAST_ERROR_CATEGORIES)[number];
+
+export class ForecastError extends Error {
+  constructor(
+    readonly category: ForecastErrorCategory,
+    message: string,
+  ) {
+    super(message);
+
+    Object.setPrototypeOf(this, ForecastError.prototype);
+  }
+}
+
+const STATUS_BY_CATEGORY: Record<ForecastErrorCategory, number> = {
+  invalid_request: 400,
+  no_time_series: 422,
+  too_few_points: 422,
+};
+
+/**
+ * The HTTP status a route responds with when a forecast fails for this
+ * reason.
+ */
+export const statusForForecastError = (category: ForecastErrorCategory) =>
+  STATUS_BY_CATEGORY[category];
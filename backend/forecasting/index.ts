@@ -0,0 +1,40 @@
+export type { BacktestResult } from "./backtest";
+export { backtestModel } from "./backtest";
+export { describeForecast, FORECAST_MODEL_NAMES } from "./describe_forecast";
+export type {
+  ForecastOptions,
+  ForecastPoint,
+  ForecastResult,
+} from "./forecast";
+export {
+  DEFAULT_FORECAST_PERIODS,
+  DEFAULT_INTERVAL_LEVEL,
+  forecastDataset,
+  MAX_FORECAST_PERIODS,
+  normalQuantile,
+} from "./forecast";
+export { FORECAST_CHART_SERIES, forecastChart } from "./forecast_chart";
+export type { ForecastErrorCategory } from "./forecast_error";
+export {
+  FORECAST_ERROR_CATEGORIES,
+  ForecastError,
+  statusForForecastError,
+} from "./forecast_error";
+export type { FittedModel, ForecastModel } from "./models";
+export { FORECAST_MODELS, fitModel, minimumPoints } from "./models";
+export type {
+  Frequency,
+  SeriesAggregate,
+  SeriesPoint,
+  TimeSeries,
+  TimeSeriesOptions,
+} from "./time_series";
+export {
+  addPeriods,
+  buildTimeSeries,
+  detectSeriesColumns,
+  inferFrequency,
+  isoDate,
+  SEASON_LENGTHS,
+  SERIES_AGGREGATES,
+} from "./time_series";
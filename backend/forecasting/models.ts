@@ -0,0 +1,241 @@
+/**
+ * The forecasting models:
+ * - `linear`: a straight-line trend fitted by least squares.
+ * - `ets`: exponential smoothing of the level and trend (Holt's method),
+ *   which follows changes in the trend.
+ * - `holtWinters`: exponential smoothing with an additive seasonal cycle,
+ *   for series that repeat each week, year or quarter.
+ */
+export const FORECAST_MODELS = ["linear", "ets", "holtWinters"] as const;
+
+export type ForecastModel = (typeof FORECAST_MODELS)[number];
+
+/**
+ * A model fitted to a series.
+ */
+export interface FittedModel {
+  model: ForecastModel;
+  /** The smoothing parameters, or the line's intercept and slope. */
+  parameters: Record<string, number>;
+  /** How much the series changes each period at its end, before seasonality. */
+  trendPerPeriod: number;
+  /** The standard deviation of the model's one-step errors. */
+  sigma: number;
+  /** Forecasts the periods after the series. */
+  forecast(horizon: number): number[];
+  /** The standard error of the forecast `step` periods ahead, from 1. */
+  standardError(step: number): number;
+}
+
+// Smoothing parameters are chosen from these by the smallest one-step error
+const SMOOTHING_GRID = [0.05, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1];
+
+/**
+ * The fewest points each model can be fitted to.
+ * @param seasonLength - The periods in a seasonal cycle.
+ */
+export const minimumPoints = (model: ForecastModel, seasonLength: number) => {
+  switch (model) {
+    case "linear":
+      return 3;
+    case "ets":
+      return 4;
+    case "holtWinters":
+      // Two whole cycles to start the seasonal pattern from, and more to
+      // fit it to. A cycle of one period isn't seasonal.
+      return seasonLength > 1 ? 2 * seasonLength + 2 : Infinity;
+    default:
+      return Infinity;
+  }
+};
+
+const mean = (values: number[]) =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const range = (count: number) => Array.from({ length: count }, (_, i) => i + 1);
+
+const fitLinear = (values: number[]): FittedModel => {
+  const n = values.length;
+  const xMean = (n - 1) / 2;
+  const yMean = mean(values);
+  let sxx = 0;
+  let sxy = 0;
+  values.forEach((y, x) => {
+    sxx += (x - xMean) ** 2;
+    sxy += (x - xMean) * (y - yMean);
+  });
+  const slope = sxy / sxx;
+  const intercept = yMean - slope * xMean;
+  const squaredErrors = values.reduce(
+    (sum, y, x) => sum + (y - (intercept + slope * x)) ** 2,
+    0,
+  );
+  const sigma = Math.sqrt(squaredErrors / (n - 2));
+  return {
+    model: "linear",
+    parameters: { intercept, slope },
+    trendPerPeriod: slope,
+    sigma,
+    forecast: (horizon) =>
+      range(horizon).map((step) => intercept + slope * (n - 1 + step)),
+    // Grows with the distance from the middle of the data, as the slope is
+    // uncertain too
+    standardError: (step) =>
+      sigma * Math.sqrt(1 + 1 / n + (n - 1 + step - xMean) ** 2 / sxx),
+  };
+};
+
+// Runs Holt's method, returning the final level and trend and the sum of
+// squared one-step errors
+const runHolt = (values: number[], alpha: number, beta: number) => {
+  let level = values[0];
+  let trend = values[1] - values[0];
+  let squaredErrors = 0;
+  for (let t = 1; t < values.length; t++) {
+    const error = values[t] - (level + trend);
+    squaredErrors += error ** 2;
+    const previous = level;
+    level = alpha * values[t] + (1 - alpha) * (level + trend);
+    trend = beta * (level - previous) + (1 - beta) * trend;
+  }
+  return { level, trend, squaredErrors };
+};
+
+const fitEts = (values: number[]): FittedModel => {
+  let best = { alpha: 1, beta: 0, ...runHolt(values, 1, 0) };
+  for (const alpha of SMOOTHING_GRID) {
+    for (const beta of SMOOTHING_GRID) {
+      const run = runHolt(values, alpha, beta);
+      if (run.squaredErrors < best.squaredErrors) {
+        best = { alpha, beta, ...run };
+      }
+    }
+  }
+  const { alpha, beta, level, trend } = best;
+  const sigma = Math.sqrt(best.squaredErrors / (values.length - 1));
+  return {
+    model: "ets",
+    parameters: { alpha, beta },
+    trendPerPeriod: trend,
+    sigma,
+    forecast: (horizon) => range(horizon).map((step) => level + step * trend),
+    // Each step adds the error of the level and trend updates before it
+    standardError: (step) =>
+      sigma *
+      Math.sqrt(
+        1 +
+          range(step - 1).reduce(
+            (sum, j) => sum + (alpha * (1 + j * beta)) ** 2,
+            0,
+          ),
+      ),
+  };
+};
+
+// Runs additive Holt-Winters. The trend starts as the change between the
+// first two cycles, and the seasonal pattern as the first cycle less that
+// trend, so the pattern doesn't absorb the trend.
+const runHoltWinters = (
+  values: number[],
+  seasonLength: number,
+  alpha: number,
+  beta: number,
+  gamma: number,
+) => {
+  const first = mean(values.slice(0, seasonLength));
+  const second = mean(values.slice(seasonLength, 2 * seasonLength));
+  let trend = (second - first) / seasonLength;
+  const middle = (seasonLength - 1) / 2;
+  let level = first + trend * middle;
+  const seasons = values
+    .slice(0, seasonLength)
+    .map((value, i) => value - (first + trend * (i - middle)));
+  let squaredErrors = 0;
+  for (let t = seasonLength; t < values.length; t++) {
+    const season = t % seasonLength;
+    const error = values[t] - (level + trend + seasons[season]);
+    squaredErrors += error ** 2;
+    const previous = level;
+    level =
+      alpha * (values[t] - seasons[season]) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previous) + (1 - beta) * trend;
+    seasons[season] =
+      gamma * (values[t] - level) + (1 - gamma) * seasons[season];
+  }
+  return { level, trend, seasons, squaredErrors };
+};
+
+const fitHoltWinters = (
+  values: number[],
+  seasonLength: number,
+): FittedModel => {
+  let best = {
+    alpha: 1,
+    beta: 0,
+    gamma: 0,
+    ...runHoltWinters(values, seasonLength, 1, 0, 0),
+  };
+  for (const alpha of SMOOTHING_GRID) {
+    for (const beta of SMOOTHING_GRID) {
+      for (const gamma of SMOOTHING_GRID) {
+        const run = runHoltWinters(values, seasonLength, alpha, beta, gamma);
+        if (run.squaredErrors < best.squaredErrors) {
+          best = { alpha, beta, gamma, ...run };
+        }
+      }
+    }
+  }
+  const { alpha, beta, gamma, level, trend, seasons } = best;
+  const n = values.length;
+  const sigma = Math.sqrt(best.squaredErrors / (n - seasonLength));
+  return {
+    model: "holtWinters",
+    parameters: { alpha, beta, gamma, seasonLength },
+    trendPerPeriod: trend,
+    sigma,
+    forecast: (horizon) =>
+      range(horizon).map(
+        (step) => level + step * trend + seasons[(n - 1 + step) % seasonLength],
+      ),
+    standardError: (step) =>
+      sigma *
+      Math.sqrt(
+        1 +
+          range(step - 1).reduce(
+            (sum, j) =>
+              sum +
+              (alpha * (1 + j * beta) +
+                (j % seasonLength === 0 ? gamma * (1 - alpha) : 0)) **
+                2,
+            0,
+          ),
+      ),
+  };
+};
+
+/**
+ * Fits a model to a series. Smoothing parameters are chosen by the smallest
+ * one-step error over the series.
+ * @param values - The series, one value per period with no gaps.
+ * @param seasonLength - The periods in a seasonal cycle.
+ * @returns undefined if the series is too short for the model.
+ */
+export const fitModel = (
+  model: ForecastModel,
+  values: number[],
+  seasonLength: number,
+): FittedModel | undefined => {
+  if (values.length < minimumPoints(model, seasonLength)) {
+    return undefined;
+  }
+  switch (model) {
+    case "linear":
+      return fitLinear(values);
+    case "ets":
+      return fitEts(values);
+    case "holtWinters":
+      return fitHoltWinters(values, seasonLength);
+    default:
+      return undefined;
+  }
+};
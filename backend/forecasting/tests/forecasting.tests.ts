@@ -0,0 +1,207 @@
+/** @jest-environment node */
+import { parseCsv } from "../../../utils/csv";
+import { profileDataset } from "../../../utils/data_profile";
+import {
+  backtestModel,
+  buildTimeSeries,
+  forecastChart,
+  forecastDataset,
+  ForecastError,
+  inferFrequency,
+  normalQuantile,
+} from "../index";
+
+// One row per month from January 2020, with an ID column to skip
+const monthlyCsv = (values: number[]) =>
+  [
+    "Order ID,Month,Sales",
+    ...values.map((value, i) => {
+      const month = new Date(Date.UTC(2020, i, 1)).toISOString().slice(0, 10);
+      return `${i + 1},${month},${value}`;
+    }),
+  ].join("\n");
+
+// A rising trend with a yearly cycle
+const SEASONAL = Array.from(
+  { length: 48 },
+  (_, i) =>
+    100 + 2 * i + [0, 5, 15, 30, 40, 45, 40, 30, 15, 5, -5, -10][i % 12],
+);
+
+const categoryOf = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (e) {
+    return e instanceof ForecastError ? e.category : e;
+  }
+  return undefined;
+};
+
+describe("buildTimeSeries", () => {
+  it("resamples rows to periods and fills the gaps", () => {
+    const table = parseCsv(
+      [
+        "Date,Sales",
+        "2024-01-03,10",
+        "2024-01-20,5",
+        "2024-02-11,20",
+        "2024-04-02,40",
+        "2024-05-09,50",
+      ].join("\n"),
+    );
+
+    const series = buildTimeSeries(table, profileDataset(table));
+
+    expect(series).toMatchObject({
+      dateColumn: "Date",
+      targetColumn: "Sales",
+      frequency: "month",
+      aggregate: "sum",
+    });
+    expect(series.points).toEqual([
+      { period: "2024-01-01", value: 15, filled: false },
+      { period: "2024-02-01", value: 20, filled: false },
+      { period: "2024-03-01", value: 30, filled: true },
+      { period: "2024-04-01", value: 40, filled: false },
+      { period: "2024-05-01", value: 50, filled: false },
+    ]);
+  });
+
+  it("infers the frequency from the typical gap between dates", () => {
+    const day = 24 * 60 * 60 * 1000;
+
+    expect(inferFrequency([0, day, 2 * day, 3 * day])).toBe("day");
+    expect(inferFrequency([0, 7 * day, 14 * day])).toBe("week");
+    expect(inferFrequency([0, 91 * day, 182 * day])).toBe("quarter");
+    expect(inferFrequency([0, 365 * day, 730 * day])).toBe("year");
+  });
+});
+
+describe("forecastDataset", () => {
+  it("continues a straight line with intervals that widen", () => {
+    const values = Array.from(
+      { length: 24 },
+      (_, i) => 50 + 3 * i + (i % 2 ? 1 : -1),
+    );
+
+    const result = forecastDataset(monthlyCsv(values), {
+      model: "linear",
+      periods: 3,
+    });
+
+    expect(result).toMatchObject({
+      targetColumn: "Sales",
+      frequency: "month",
+      model: "linear",
+      intervalLevel: 0.95,
+    });
+    expect(result.trendPerPeriod).toBeCloseTo(3, 1);
+    expect(result.forecast.map(({ period }) => period)).toEqual([
+      "2022-01-01",
+      "2022-02-01",
+      "2022-03-01",
+    ]);
+    expect(result.forecast[0].value).toBeCloseTo(122, 0);
+    const widths = result.forecast.map(({ lower, upper }) => upper - lower);
+    expect(widths[0]).toBeGreaterThan(0);
+    expect(widths[2]).toBeGreaterThan(widths[0]);
+  });
+
+  it("picks the model that backtests best and reports its accuracy", () => {
+    const result = forecastDataset(monthlyCsv(SEASONAL), { periods: 12 });
+
+    expect(result.model).toBe("holtWinters");
+    expect(result.backtests.map(({ model }) => model)).toEqual([
+      "holtWinters",
+      expect.any(String),
+      expect.any(String),
+    ]);
+    expect(result.backtests[0].rmse).toBeLessThan(result.backtests[1].rmse);
+    expect(result.accuracy).toBeGreaterThan(90);
+    // The cycle's peak in June is forecast again
+    expect(result.forecast[5].value).toBeGreaterThan(result.forecast[0].value);
+    expect(result.forecast[5].value).toBeCloseTo(100 + 2 * 53 + 45, -1);
+  });
+
+  it("narrows the interval at a lower level", () => {
+    const csv = monthlyCsv(SEASONAL);
+    const width = (intervalLevel: number) => {
+      const [{ lower, upper }] = forecastDataset(csv, {
+        model: "ets",
+        intervalLevel,
+      }).forecast;
+      return upper - lower;
+    };
+
+    expect(normalQuantile(0.975)).toBeCloseTo(1.96, 3);
+    expect(normalQuantile(0.1)).toBeCloseTo(-1.2816, 3);
+    expect(width(0.8) / width(0.95)).toBeCloseTo(1.2816 / 1.96, 3);
+  });
+
+  it("explains why a forecast can't be made", () => {
+    expect(categoryOf(() => forecastDataset("Region,Sales\nNorth,1"))).toBe(
+      "no_time_series",
+    );
+    expect(categoryOf(() => forecastDataset(monthlyCsv([1, 2, 3])))).toBe(
+      "too_few_points",
+    );
+    expect(
+      categoryOf(() =>
+        forecastDataset(monthlyCsv(SEASONAL.slice(0, 20)), {
+          model: "holtWinters",
+        }),
+      ),
+    ).toBe("too_few_points");
+    expect(
+      categoryOf(() => forecastDataset(monthlyCsv(SEASONAL), { periods: 0 })),
+    ).toBe("invalid_request");
+    expect(
+      categoryOf(() =>
+        forecastDataset(monthlyCsv(SEASONAL), { targetColumn: "Month" }),
+      ),
+    ).toBe("invalid_request");
+  });
+});
+
+describe("backtestModel", () => {
+  it("measures forecasts against the values they hid", () => {
+    const values = [10, 20, 30, 40, 50, 60, 70, 80];
+
+    expect(backtestModel("linear", values, 12, 2)).toEqual({
+      model: "linear",
+      mape: expect.closeTo(0, 6),
+      rmse: expect.closeTo(0, 6),
+      // The third cut-off leaves too few points to fit a line to
+      folds: 2,
+      points: 4,
+    });
+    expect(backtestModel("holtWinters", values, 12, 2)).toBeUndefined();
+  });
+});
+
+describe("forecastChart", () => {
+  it("charts the history, forecast and interval as series", () => {
+    const result = forecastDataset(monthlyCsv(SEASONAL), {
+      model: "linear",
+      periods: 2,
+    });
+
+    const { spec, table } = forecastChart(result);
+
+    expect(table.header).toEqual(["Month", "Series", "Sales"]);
+    expect(table.rows).toHaveLength(48 + 1 + 2 * 3);
+    expect(table.rows[48]).toEqual(["2023-12-01", "Forecast", "184"]);
+    expect(table.rows.slice(49, 52).map((row) => row[1])).toEqual([
+      "Forecast",
+      "Lower bound",
+      "Upper bound",
+    ]);
+    expect(spec).toMatchObject({
+      mark: "line",
+      encoding: {
+        x: { field: "Month", type: "temporal", timeUnit: "month" },
+        color: { field: "Series" },
+      },
+    });
+  });
+});
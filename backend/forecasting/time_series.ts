@@ -0,0 +1,285 @@
+import type { TimeUnit } from "../../utils/chart_spec";
+import type { CsvTable } from "../../utils/csv";
+import {
+  isMissing,
+  NUMERIC_COLUMN_TYPES,
+  parseDate,
+  parseNumber,
+} from "../../utils/csv";
+import type { ColumnProfile, DatasetProfile } from "../../utils/data_profile";
+import { floorTime } from "../charts";
+import { ForecastError } from "./forecast_error";
+
+/**
+ * The period a series is resampled to. These are the chart time units, so a
+ * forecast charts with one point per period.
+ */
+export type Frequency = TimeUnit;
+
+/** How the values in one period are combined. */
+export const SERIES_AGGREGATES = ["sum", "mean"] as const;
+
+export type SeriesAggregate = (typeof SERIES_AGGREGATES)[number];
+
+/** How many periods make up a seasonal cycle at each frequency. */
+export const SEASON_LENGTHS: Record<Frequency, number> = {
+  day: 7,
+  week: 52,
+  month: 12,
+  quarter: 4,
+  year: 1,
+};
+
+export interface SeriesPoint {
+  /** The start of the period, as an ISO date. */
+  period: string;
+  value: number;
+  /** True for a period with no rows, whose value is interpolated. */
+  filled: boolean;
+}
+
+/**
+ * A target column resampled to one value per period, with no gaps.
+ */
+export interface TimeSeries {
+  dateColumn: string;
+  targetColumn: string;
+  frequency: Frequency;
+  aggregate: SeriesAggregate;
+  points: SeriesPoint[];
+}
+
+export interface TimeSeriesOptions {
+  /** The column of dates. Defaults to the first date column. */
+  dateColumn?: string;
+  /** The column to forecast. Defaults to the first numeric column. */
+  targetColumn?: string;
+  /** Defaults to the typical gap between dates. */
+  frequency?: Frequency;
+  /** Defaults to `mean` for percent columns and `sum` for others. */
+  aggregate?: SeriesAggregate;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The longest typical gap between dates, in days, for each frequency
+const FREQUENCY_GAPS: [Frequency, number][] = [
+  ["day", 1.5],
+  ["week", 10],
+  ["month", 45],
+  ["quarter", 135],
+];
+
+// Keeps daily resampling of decades of dates from making huge series
+const MAX_PERIODS = 10_000;
+
+/**
+ * Adds periods to the start of a period.
+ */
+export const addPeriods = (start: number, frequency: Frequency, count = 1) => {
+  const date = new Date(start);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  switch (frequency) {
+    case "day":
+      return start + count * DAY_MS;
+    case "week":
+      return start + count * 7 * DAY_MS;
+    case "month":
+      return Date.UTC(year, month + count, 1);
+    case "quarter":
+      return Date.UTC(year, month + 3 * count, 1);
+    case "year":
+      return Date.UTC(year + count, 0, 1);
+    default:
+      return start;
+  }
+};
+
+export const isoDate = (time: number) =>
+  new Date(time).toISOString().slice(0, 10);
+
+/**
+ * Guesses the frequency of dates from the median gap between them.
+ * @param times - Distinct times, in order.
+ */
+export const inferFrequency = (times: number[]): Frequency => {
+  const gaps = times
+    .slice(1)
+    .map((time, index) => (time - times[index]) / DAY_MS)
+    .sort((a, b) => a - b);
+  if (gaps.length === 0) {
+    return "day";
+  }
+  const median = gaps[Math.floor(gaps.length / 2)];
+  return FREQUENCY_GAPS.find(([, gap]) => median <= gap)?.[0] ?? "year";
+};
+
+const findColumn = (profile: DatasetProfile, name: string) => {
+  const column = profile.columns.find((c) => c.name === name);
+  if (!column) {
+    throw new ForecastError(
+      "invalid_request",
+      `The data has no column named "${name}"`,
+    );
+  }
+  return column;
+};
+
+const isTarget = (column: ColumnProfile) =>
+  NUMERIC_COLUMN_TYPES.has(column.kind) &&
+  column.count > 0 &&
+  !column.suspectedId &&
+  !column.constant;
+
+/**
+ * Picks the date and target columns of a forecast: the ones named, or the
+ * first column of dates and the first numeric column that isn't an ID.
+ * @throws ForecastError if a named column doesn't fit, or none is found.
+ */
+export const detectSeriesColumns = (
+  profile: DatasetProfile,
+  { dateColumn, targetColumn }: TimeSeriesOptions,
+) => {
+  let date: ColumnProfile | undefined;
+  if (dateColumn) {
+    date = findColumn(profile, dateColumn);
+    if (date.kind !== "date") {
+      throw new ForecastError(
+        "invalid_request",
+        `"${dateColumn}" isn't a column of dates`,
+      );
+    }
+  } else {
+    date = profile.columns.find((c) => c.kind === "date" && c.distinct > 1);
+  }
+  if (!date) {
+    throw new ForecastError(
+      "no_time_series",
+      "The data has no column of dates to forecast along",
+    );
+  }
+
+  let target: ColumnProfile | undefined;
+  if (targetColumn) {
+    target = findColumn(profile, targetColumn);
+    if (!NUMERIC_COLUMN_TYPES.has(target.kind)) {
+      throw new ForecastError(
+        "invalid_request",
+        `"${targetColumn}" isn't a column of numbers`,
+      );
+    }
+  } else {
+    target = profile.columns.find(isTarget);
+  }
+  if (!target) {
+    throw new ForecastError(
+      "no_time_series",
+      "The data has no numeric column to forecast",
+    );
+  }
+  return { date, target };
+};
+
+// Fills the values of empty periods by drawing a line between the periods
+// either side of them
+const interpolate = (values: (number | undefined)[]) => {
+  const known = values.flatMap((value, index) =>
+    value === undefined ? [] : [index],
+  );
+  return values.map((value, index) => {
+    if (value !== undefined) {
+      return value;
+    }
+    const after = known.findIndex((k) => k > index);
+    const [left, right] = [known[after - 1], known[after]];
+    const share = (index - left) / (right - left);
+    return (
+      (values[left] as number) +
+      ((values[right] as number) - (values[left] as number)) * share
+    );
+  });
+};
+
+/**
+ * Resamples a table to one value of the target column per period, from the
+ * first date to the last. Rows without a date or a value are skipped, and
+ * periods without rows are interpolated.
+ * @throws ForecastError if the columns don't fit, or the series would be
+ * too long.
+ */
+export const buildTimeSeries = (
+  table: CsvTable,
+  profile: DatasetProfile,
+  options: TimeSeriesOptions = {},
+): TimeSeries => {
+  const { date, target } = detectSeriesColumns(profile, options);
+  const dateIndex = table.header.indexOf(date.name);
+  const targetIndex = table.header.indexOf(target.name);
+
+  const observations: [number, number][] = [];
+  for (const row of table.rows) {
+    const time = isMissing(row[dateIndex])
+      ? undefined
+      : parseDate(row[dateIndex]);
+    const value = isMissing(row[targetIndex])
+      ? undefined
+      : parseNumber(row[targetIndex]);
+    if (time !== undefined && value !== undefined) {
+      observations.push([time, value]);
+    }
+  }
+
+  const frequency =
+    options.frequency ??
+    inferFrequency(
+      [...new Set(observations.map(([time]) => time))].sort((a, b) => a - b),
+    );
+  const aggregate =
+    options.aggregate ?? (target.kind === "percent" ? "mean" : "sum");
+
+  const periods = new Map<number, { sum: number; count: number }>();
+  for (const [time, value] of observations) {
+    const start = floorTime(time, frequency);
+    const period = periods.get(start) ?? { sum: 0, count: 0 };
+    period.sum += value;
+    period.count++;
+    periods.set(start, period);
+  }
+
+  const starts = [...periods.keys()].sort((a, b) => a - b);
+  const times: number[] = [];
+  for (
+    let time = starts[0];
+    starts.length > 0 && time <= starts[starts.length - 1];
+    time = addPeriods(time, frequency)
+  ) {
+    if (times.length === MAX_PERIODS) {
+      throw new ForecastError(
+        "invalid_request",
+        `The dates span more than ${MAX_PERIODS} periods of a ${frequency}; choose a longer frequency`,
+      );
+    }
+    times.push(time);
+  }
+
+  const values = times.map((time) => {
+    const period = periods.get(time);
+    if (!period) {
+      return undefined;
+    }
+    return aggregate === "mean" ? period.sum / period.count : period.sum;
+  });
+  const filled = interpolate(values);
+  return {
+    dateColumn: date.name,
+    targetColumn: target.name,
+    frequency,
+    aggregate,
+    points: times.map((time, index) => ({
+      period: isoDate(time),
+      value: filled[index],
+      filled: values[index] === undefined,
+    })),
+  };
+};
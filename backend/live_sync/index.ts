@@ -0,0 +1,26 @@
+export type { LiveSyncErrorCategory } from "./live_sync_error";
+export {
+  LIVE_SYNC_ERROR_CATEGORIES,
+  LiveSyncConfigError,
+  LiveSyncError,
+  statusForLiveSyncError,
+} from "./live_sync_error";
+export type {
+  FetchSyncSource,
+  LiveSync,
+  LiveSyncData,
+  LiveSyncEvent,
+  LiveSyncListener,
+  LiveSyncSettings,
+  LiveSyncSource,
+  LiveSyncStatus,
+  SyncRun,
+} from "./live_sync_scheduler";
+export {
+  createLiveSyncScheduler,
+  LIVE_SYNC_STATUSES,
+  LiveSyncScheduler,
+  loadLiveSyncSettings,
+} from "./live_sync_scheduler";
+export type { RowDiff, SyncSnapshot } from "./sync_snapshot";
+export { diffSnapshots, snapshotTable } from "./sync_snapshot";
@@ -0,0 +1,44 @@
+/**
+ * Why a live sync request failed:
+ * - `invalid_request`: the sync's settings are malformed, e.g. it refreshes
+ *   more often than the server allows.
+ * - `not_found`: there's no sync with that ID.
+ *
+ * Failures to read the sheet itself are `SheetsError`s.
+ */
+export const LIVE_SYNC_ERROR_CATEGORIES = [
+  "invalid_request",
+  "not_found",
+] as const;
+
+export type LiveSyncErrorCategory = (typeof LIVE_SYNC_ERROR_CATEGORIES)[number];
+
+export class LiveSyncError extends Error {
+  constructor(
+    readonly category: LiveSyncErrorCategory,
+    message: string,
+  ) {
+    super(message);
+
+    Object.setPrototypeOf(this, LiveSyncError.prototype);
+  }
+}
+
+const STATUS_BY_CATEGORY: Record<LiveSyncErrorCategory, number> = {
+  invalid_request: 400,
+  not_found: 404,
+};
+
+/**
+ * The HTTP status a route responds with when a request fails for this reason.
+ */
+export const statusForLiveSyncError = (category: LiveSyncErrorCategory) =>
+  STATUS_BY_CATEGORY[category];
+
+export class LiveSyncConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+
+    Object.setPrototypeOf(this, LiveSyncConfigError.prototype);
+  }
+}
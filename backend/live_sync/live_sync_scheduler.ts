@@ -0,0 +1,512 @@
+import * as path from "node:path";
+import type { Database } from "../database/database";
+import { JSONFileDatabase } from "../database/database";
+import { readPositiveNumber } from "../env";
+import type { GoogleSheetsClient, SheetTable } from "../sheets";
+import { parseSpreadsheetId, SheetsError } from "../sheets";
+import { LiveSyncConfigError, LiveSyncError } from "./live_sync_error";
+import type { RowDiff, SyncSnapshot } from "./sync_snapshot";
+import { diffSnapshots, snapshotTable } from "./sync_snapshot";
+
+/**
+ * Where syncs are stored and how often they may run.
+ */
+export interface LiveSyncSettings {
+  /** The JSON file syncs are kept in, so they survive restarts. */
+  dbPath: string;
+  /** The shortest refresh interval a sync may have. */
+  minIntervalMs: number;
+  /** The refresh interval of a sync that doesn't ask for one. */
+  defaultIntervalMs: number;
+  /** How many past runs each sync keeps. */
+  historyLimit: number;
+}
+
+/** The sheet range a sync reads. */
+export interface LiveSyncSource {
+  sheetId: string;
+  /** In A1 notation; the whole first tab when left out. */
+  range?: string;
+}
+
+export const LIVE_SYNC_STATUSES = ["active", "paused"] as const;
+
+export type LiveSyncStatus = (typeof LIVE_SYNC_STATUSES)[number];
+
+/**
+ * One read of a sync's source:
+ * - `initial`: the first read, which the next ones are compared with.
+ * - `changed` or `unchanged`: whether the data differed from the last read.
+ * - `failed`: the sheet couldn't be read; the last data is kept.
+ */
+export interface SyncRun {
+  startedAt: string;
+  finishedAt: string;
+  trigger: "scheduled" | "manual";
+  outcome: "initial" | "changed" | "unchanged" | "failed";
+  rowCount?: number;
+  contentHash?: string;
+  diff?: RowDiff;
+  error?: { category?: string; message: string };
+}
+
+export interface LiveSync extends LiveSyncSource {
+  id: string;
+  status: LiveSyncStatus;
+  refreshInterval: number;
+  createdAt: string;
+  lastSync?: string;
+  /** When the data last changed. */
+  lastChange?: string;
+  /** When the next scheduled read is due; left out while paused. */
+  nextSync?: string;
+  rowCount?: number;
+  contentHash?: string;
+  consecutiveFailures: number;
+  /** The most recent runs, newest first. */
+  history: SyncRun[];
+}
+
+interface StoredLiveSync extends LiveSync {
+  snapshot?: SyncSnapshot;
+}
+
+export interface LiveSyncData {
+  syncs: StoredLiveSync[];
+}
+
+/**
+ * What happened to a sync, as told to `subscribe` listeners once it's saved:
+ * - `run`: its source was read, whether or not the data changed.
+ * - `status`: it was paused or resumed.
+ * - `deleted`: it's gone.
+ */
+export type LiveSyncEvent =
+  | { type: "run"; sync: LiveSync; run: SyncRun }
+  | { type: "status"; sync: LiveSync }
+  | { type: "deleted"; syncId: string };
+
+export type LiveSyncListener = (event: LiveSyncEvent) => void;
+
+/** Reads a sync's source. */
+export type FetchSyncSource = (
+  source: LiveSyncSource,
+  signal?: AbortSignal,
+) => Promise<SheetTable>;
+
+const DEFAULT_MIN_INTERVAL_MS = 60_000;
+const DEFAULT_INTERVAL_MS = 3_600_000;
+const DEFAULT_HISTORY_LIMIT = 50;
+const DEFAULT_DB_PATH = path.join(
+  __dirname,
+  "..",
+  "database",
+  "live_sync",
+  "db.json",
+);
+
+// setTimeout fires at once for delays past this, so longer waits are split
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * Reads the live sync settings from `LIVE_SYNC_DB_PATH` (default
+ * `backend/database/live_sync/db.json`), `LIVE_SYNC_MIN_INTERVAL_MS`
+ * (1 minute), `LIVE_SYNC_DEFAULT_INTERVAL_MS` (1 hour) and
+ * `LIVE_SYNC_HISTORY_LIMIT` (50).
+ *
+ * @throws LiveSyncConfigError if a setting isn't a positive number.
+ */
+export const loadLiveSyncSettings = (
+  env: NodeJS.ProcessEnv = process.env,
+): LiveSyncSettings => ({
+  dbPath: env.LIVE_SYNC_DB_PATH || DEFAULT_DB_PATH,
+  minIntervalMs: readPositiveNumber(
+    env,
+    "LIVE_SYNC_MIN_INTERVAL_MS",
+    DEFAULT_MIN_INTERVAL_MS,
+    LiveSyncConfigError,
+  ),
+  defaultIntervalMs: readPositiveNumber(
+    env,
+    "LIVE_SYNC_DEFAULT_INTERVAL_MS",
+    DEFAULT_INTERVAL_MS,
+    LiveSyncConfigError,
+  ),
+  historyLimit: Math.ceil(
+    readPositiveNumber(
+      env,
+      "LIVE_SYNC_HISTORY_LIMIT",
+      DEFAULT_HISTORY_LIMIT,
+      LiveSyncConfigError,
+    ),
+  ),
+});
+
+const newSyncId = () =>
+  `sync_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+
+// The sync as callers see it, without the snapshot of its data
+const toLiveSync = ({
+  snapshot: _snapshot,
+  ...sync
+}: StoredLiveSync): LiveSync => structuredClone(sync);
+
+/**
+ * Reads each sync's sheet range every `refreshInterval`, records whether the
+ * data changed and keeps a history of the runs. Syncs are stored in a JSON
+ * file and picked up again by `start()` after a restart.
+ */
+export class LiveSyncScheduler {
+  private readonly syncs = new Map<string, StoredLiveSync>();
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private readonly running = new Map<string, Promise<SyncRun>>();
+  private readonly listeners = new Set<LiveSyncListener>();
+  private loading?: Promise<void>;
+  private saving: Promise<void> = Promise.resolve();
+  private started = false;
+
+  constructor(
+    private readonly fetchSource: FetchSyncSource,
+    private readonly db: Database<LiveSyncData>,
+    private readonly settings: LiveSyncSettings,
+  ) {}
+
+  /**
+   * Loads the stored syncs and schedules the active ones. Syncs that fell due
+   * while the server was down run straight away.
+   */
+  async start() {
+    await this.ready();
+    this.started = true;
+    for (const sync of this.syncs.values()) {
+      if (sync.status === "active") {
+        this.schedule(sync);
+      }
+    }
+  }
+
+  /** Cancels every scheduled run. Runs already under way finish. */
+  stop() {
+    this.started = false;
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  /**
+   * Calls `listener` whenever a sync is read, paused, resumed or deleted.
+   * Listeners are called synchronously and mustn't throw.
+   * @returns A function that stops the calls.
+   */
+  subscribe(listener: LiveSyncListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async list(): Promise<LiveSync[]> {
+    await this.ready();
+    return [...this.syncs.values()].map(toLiveSync);
+  }
+
+  /**
+   * @throws LiveSyncError with category `not_found` if there's no such sync.
+   */
+  async get(id: string): Promise<LiveSync> {
+    await this.ready();
+    return toLiveSync(this.find(id));
+  }
+
+  /**
+   * Creates a sync and reads its source for the first time, so a sheet that
+   * can't be read is reported now rather than at the first scheduled run.
+   * @throws LiveSyncError if the interval is out of bounds, or SheetsError
+   * if the sheet can't be read.
+   */
+  async create({
+    sheetId,
+    range,
+    refreshInterval = this.settings.defaultIntervalMs,
+  }: LiveSyncSource & { refreshInterval?: number }): Promise<LiveSync> {
+    await this.ready();
+    this.checkInterval(refreshInterval);
+    const sync: StoredLiveSync = {
+      id: newSyncId(),
+      sheetId: parseSpreadsheetId(sheetId),
+      range: range || undefined,
+      status: "active",
+      refreshInterval,
+      createdAt: new Date().toISOString(),
+      consecutiveFailures: 0,
+      history: [],
+    };
+    const startedAt = new Date();
+    const table = await this.fetchSource(sync);
+    this.record(sync, table, startedAt, "manual");
+    this.syncs.set(sync.id, sync);
+    this.schedule(sync);
+    await this.persist();
+    this.emit({ type: "run", sync: toLiveSync(sync), run: sync.history[0] });
+    return toLiveSync(sync);
+  }
+
+  /**
+   * Reads a sync's source now, whatever its schedule or status, and
+   * restarts its schedule from now.
+   * @throws LiveSyncError with category `not_found` if there's no such sync.
+   */
+  async syncNow(id: string): Promise<SyncRun> {
+    await this.ready();
+    return this.run(this.find(id), "manual");
+  }
+
+  /**
+   * Records a read of a sync's source made elsewhere, e.g. by a client
+   * fetching the same range, as a manual run.
+   */
+  async recordRead(id: string, table: SheetTable): Promise<SyncRun> {
+    await this.ready();
+    const sync = this.find(id);
+    const run = this.record(sync, table, new Date(), "manual");
+    this.schedule(sync);
+    await this.persist();
+    this.emit({ type: "run", sync: toLiveSync(sync), run });
+    return run;
+  }
+
+  /**
+   * Stops a sync's scheduled runs until it's resumed.
+   * @throws LiveSyncError with category `not_found` if there's no such sync.
+   */
+  async pause(id: string): Promise<LiveSync> {
+    await this.ready();
+    const sync = this.find(id);
+    sync.status = "paused";
+    sync.nextSync = undefined;
+    this.cancel(id);
+    await this.persist();
+    this.emit({ type: "status", sync: toLiveSync(sync) });
+    return toLiveSync(sync);
+  }
+
+  /**
+   * Restarts a paused sync. If a run fell due while it was paused, it runs
+   * straight away. A new `refreshInterval` may be given.
+   * @throws LiveSyncError if there's no such sync or the interval is out of
+   * bounds.
+   */
+  async resume(id: string, refreshInterval?: number): Promise<LiveSync> {
+    await this.ready();
+    const sync = this.find(id);
+    if (refreshInterval !== undefined) {
+      this.checkInterval(refreshInterval);
+      sync.refreshInterval = refreshInterval;
+    }
+    sync.status = "active";
+    const due =
+      Date.parse(sync.lastSync ?? sync.createdAt) + sync.refreshInterval;
+    sync.nextSync = new Date(Math.max(due, Date.now())).toISOString();
+    this.schedule(sync);
+    await this.persist();
+    this.emit({ type: "status", sync: toLiveSync(sync) });
+    return toLiveSync(sync);
+  }
+
+  /**
+   * Deletes a sync and its history.
+   * @throws LiveSyncError with category `not_found` if there's no such sync.
+   */
+  async delete(id: string) {
+    await this.ready();
+    this.find(id);
+    this.cancel(id);
+    this.syncs.delete(id);
+    await this.persist();
+    this.emit({ type: "deleted", syncId: id });
+  }
+
+  private ready() {
+    this.loading ??= this.db.read().then(({ syncs }) => {
+      for (const sync of syncs) {
+        this.syncs.set(sync.id, sync);
+      }
+    });
+    return this.loading;
+  }
+
+  private find(id: string) {
+    const sync = this.syncs.get(id);
+    if (!sync) {
+      throw new LiveSyncError("not_found", `There's no live sync "${id}"`);
+    }
+    return sync;
+  }
+
+  private checkInterval(refreshInterval: number) {
+    const { minIntervalMs } = this.settings;
+    if (!Number.isFinite(refreshInterval) || refreshInterval < minIntervalMs) {
+      throw new LiveSyncError(
+        "invalid_request",
+        `refreshInterval must be at least ${minIntervalMs} ms`,
+      );
+    }
+  }
+
+  private cancel(id: string) {
+    clearTimeout(this.timers.get(id));
+    this.timers.delete(id);
+  }
+
+  // Sets a timer for the sync's next run, from `nextSync` if it has one
+  private schedule(sync: StoredLiveSync) {
+    this.cancel(sync.id);
+    if (sync.status !== "active") {
+      return;
+    }
+    sync.nextSync ??= new Date(Date.now() + sync.refreshInterval).toISOString();
+    if (!this.started) {
+      return;
+    }
+    const delay = Math.max(0, Date.parse(sync.nextSync) - Date.now());
+    const timer = setTimeout(
+      () => {
+        this.timers.delete(sync.id);
+        if (delay > MAX_TIMER_MS) {
+          this.schedule(sync);
+        } else {
+          // Failures are recorded in the sync's history
+          this.run(sync, "scheduled").catch(() => undefined);
+        }
+      },
+      Math.min(delay, MAX_TIMER_MS),
+    );
+    // Pending syncs don't keep the process alive
+    timer.unref();
+    this.timers.set(sync.id, timer);
+  }
+
+  // Reads the source, unless a read of it is already under way
+  private run(sync: StoredLiveSync, trigger: SyncRun["trigger"]) {
+    const running = this.running.get(sync.id);
+    if (running) {
+      return running;
+    }
+    const startedAt = new Date();
+    const run = this.fetchSource(sync)
+      .then(
+        (table) => this.record(sync, table, startedAt, trigger),
+        (e) => this.recordFailure(sync, e, startedAt, trigger),
+      )
+      .then(async (result) => {
+        // The sync may have been deleted while its source was read
+        if (this.syncs.get(sync.id) === sync) {
+          sync.nextSync = undefined;
+          this.schedule(sync);
+          await this.persist();
+          this.emit({ type: "run", sync: toLiveSync(sync), run: result });
+        }
+        return result;
+      })
+      .finally(() => this.running.delete(sync.id));
+    this.running.set(sync.id, run);
+    return run;
+  }
+
+  private record(
+    sync: StoredLiveSync,
+    table: SheetTable,
+    startedAt: Date,
+    trigger: SyncRun["trigger"],
+  ) {
+    const snapshot = snapshotTable(table);
+    const finishedAt = new Date().toISOString();
+    const diff = sync.snapshot && diffSnapshots(sync.snapshot, snapshot);
+    const outcome = !sync.snapshot
+      ? "initial"
+      : sync.snapshot.contentHash === snapshot.contentHash
+        ? "unchanged"
+        : "changed";
+    const run: SyncRun = {
+      startedAt: startedAt.toISOString(),
+      finishedAt,
+      trigger,
+      outcome,
+      rowCount: table.rows.length,
+      contentHash: snapshot.contentHash,
+      diff,
+    };
+    Object.assign(sync, {
+      snapshot,
+      lastSync: finishedAt,
+      rowCount: table.rows.length,
+      contentHash: snapshot.contentHash,
+      consecutiveFailures: 0,
+      nextSync: undefined,
+    });
+    if (outcome !== "unchanged") {
+      sync.lastChange = finishedAt;
+    }
+    this.addRun(sync, run);
+    return run;
+  }
+
+  private recordFailure(
+    sync: StoredLiveSync,
+    e: unknown,
+    startedAt: Date,
+    trigger: SyncRun["trigger"],
+  ) {
+    const run: SyncRun = {
+      startedAt: startedAt.toISOString(),
+      finishedAt: new Date().toISOString(),
+      trigger,
+      outcome: "failed",
+      error: {
+        category: e instanceof SheetsError ? e.category : undefined,
+        message: e instanceof Error ? e.message : String(e),
+      },
+    };
+    sync.consecutiveFailures++;
+    this.addRun(sync, run);
+    return run;
+  }
+
+  private addRun(sync: StoredLiveSync, run: SyncRun) {
+    sync.history = [run, ...sync.history].slice(0, this.settings.historyLimit);
+  }
+
+  private emit(event: LiveSyncEvent) {
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+
+  // Writes the syncs one save at a time, so an older save can't land last
+  private persist() {
+    const syncs = [...this.syncs.values()];
+    const write = this.saving.then(() => this.db.write({ syncs }));
+    this.saving = write.catch(() => undefined);
+    return write;
+  }
+}
+
+/**
+ * Creates a scheduler that reads sheets with `sheets`, configured from the
+ * environment; see `loadLiveSyncSettings`. Call `start()` to run the stored
+ * syncs.
+ * @throws LiveSyncConfigError if a setting is malformed.
+ */
+export const createLiveSyncScheduler = (
+  sheets: GoogleSheetsClient,
+  env: NodeJS.ProcessEnv = process.env,
+) => {
+  const settings = loadLiveSyncSettings(env);
+  return new LiveSyncScheduler(
+    ({ sheetId, range }, signal) =>
+      sheets.readRange(sheetId, range, { signal }),
+    new JSONFileDatabase<LiveSyncData>({ syncs: [] }, settings.dbPath),
+    settings,
+  );
+};
@@ -0,0 +1,127 @@
+import { createHash } from "node:crypto";
+import type { SheetTable } from "../sheets";
+import { sheetTableToCsv } from "../sheets";
+
+/**
+ * What a sync remembers of the data it last read: enough to tell whether the
+ * data changed and which rows did, without keeping the data itself.
+ */
+export interface SyncSnapshot {
+  /** A SHA-256 of the data as CSV. */
+  contentHash: string;
+  columns: string[];
+  /** A short hash of each row, in order. */
+  rowHashes: string[];
+  /**
+   * The first column's values, when every row has a different one, so rows
+   * can be matched by it. Left out otherwise.
+   */
+  rowKeys?: string[];
+}
+
+/**
+ * How the rows of a dataset changed between two syncs. With a key column,
+ * rows are matched by it and an edited row counts as `changed`; without one,
+ * an edited row counts as one `removed` and one `added`.
+ */
+export interface RowDiff {
+  added: number;
+  removed: number;
+  changed: number;
+  columnsAdded: string[];
+  columnsRemoved: string[];
+  /** The column rows were matched by, if any. */
+  keyColumn?: string;
+}
+
+const hashRow = (values: unknown[]) =>
+  createHash("sha1")
+    .update(JSON.stringify(values))
+    .digest("base64")
+    .slice(0, 12);
+
+/**
+ * Remembers a table so the next read of it can be compared with it.
+ */
+export const snapshotTable = (table: SheetTable): SyncSnapshot => {
+  const rowHashes = table.rows.map((row) => hashRow(row.map((c) => c.value)));
+  const keys = table.rows.map((row) => row[0]?.formatted ?? "");
+  const unique =
+    keys.length > 0 &&
+    keys.every((key) => key !== "") &&
+    new Set(keys).size === keys.length;
+  return {
+    contentHash: createHash("sha256")
+      .update(sheetTableToCsv(table))
+      .digest("hex"),
+    columns: table.columns.map((column) => column.name),
+    rowHashes,
+    rowKeys: unique ? keys : undefined,
+  };
+};
+
+// Counts the hashes each side has more of than the other
+const diffMultisets = (previous: string[], next: string[]) => {
+  const counts = new Map<string, number>();
+  for (const hash of previous) {
+    counts.set(hash, (counts.get(hash) ?? 0) + 1);
+  }
+  let added = 0;
+  for (const hash of next) {
+    const count = counts.get(hash) ?? 0;
+    if (count > 0) {
+      counts.set(hash, count - 1);
+    } else {
+      added++;
+    }
+  }
+  let removed = 0;
+  for (const count of counts.values()) {
+    removed += count;
+  }
+  return { added, removed, changed: 0 };
+};
+
+const diffByKey = (previous: SyncSnapshot, next: SyncSnapshot) => {
+  const before = new Map(
+    (previous.rowKeys ?? []).map((key, index) => [
+      key,
+      previous.rowHashes[index],
+    ]),
+  );
+  let added = 0;
+  let changed = 0;
+  (next.rowKeys ?? []).forEach((key, index) => {
+    const hash = before.get(key);
+    if (hash === undefined) {
+      added++;
+    } else {
+      if (hash !== next.rowHashes[index]) {
+        changed++;
+      }
+      before.delete(key);
+    }
+  });
+  return { added, removed: before.size, changed };
+};
+
+/**
+ * Compares the rows and columns of two snapshots of the same source.
+ */
+export const diffSnapshots = (
+  previous: SyncSnapshot,
+  next: SyncSnapshot,
+): RowDiff => {
+  const keyColumn =
+    previous.rowKeys && next.rowKeys && previous.columns[0] === next.columns[0]
+      ? next.columns[0]
+      : undefined;
+  return {
+    ...(keyColumn === undefined
+      ? diffMultisets(previous.rowHashes, next.rowHashes)
+      : diffByKey(previous, next)),
+    columnsAdded: next.columns.filter((c) => !previous.columns.includes(c)),
+    columnsRemoved: previous.columns.filter((c) => !next.columns.includes(c)),
+    keyColumn,
+  };
+};
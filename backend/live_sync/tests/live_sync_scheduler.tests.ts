@@ -0,0 +1,300 @@
+/** @jest-environment node */
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { JSONFileDatabase } from "../../database/database";
+import type { SheetCell, SheetTable } from "../../sheets";
+import { SheetsError } from "../../sheets";
+import type { LiveSyncData, LiveSyncEvent, LiveSyncSettings } from "../index";
+import {
+  diffSnapshots,
+  LiveSyncError,
+  LiveSyncScheduler,
+  loadLiveSyncSettings,
+  snapshotTable,
+} from "../index";
+
+const cell = (value: string | number): SheetCell => ({
+  kind: typeof value === "number" ? "number" : "string",
+  value,
+  formatted: String(value),
+});
+
+const table = (columns: string[], rows: (string | number)[][]): SheetTable => ({
+  spreadsheetId: "sales",
+  spreadsheetTitle: "Sales",
+  tab: "Sheet1",
+  range: "Sheet1!A1:B3",
+  columns: columns.map((name) => ({ name, kind: "string" })),
+  rows: rows.map((row) => row.map(cell)),
+  truncated: false,
+});
+
+const ORDERS = table(
+  ["Order", "Total"],
+  [
+    ["A-1", 100],
+    ["A-2", 250],
+    ["A-3", 75],
+  ],
+);
+
+describe("diffSnapshots", () => {
+  it("matches rows by a unique first column", () => {
+    const next = table(
+      ["Order", "Total"],
+      [
+        ["A-1", 100],
+        ["A-2", 300],
+        ["A-4", 20],
+        ["A-5", 45],
+      ],
+    );
+
+    expect(diffSnapshots(snapshotTable(ORDERS), snapshotTable(next))).toEqual({
+      added: 2,
+      removed: 1,
+      changed: 1,
+      columnsAdded: [],
+      columnsRemoved: [],
+      keyColumn: "Order",
+    });
+  });
+
+  it("counts rows without a key column as added and removed", () => {
+    const before = table(["Region"], [["North"], ["North"], ["South"]]);
+    const after = table(["Region", "Target"], [["North"], ["East"], ["South"]]);
+
+    expect(diffSnapshots(snapshotTable(before), snapshotTable(after))).toEqual({
+      added: 1,
+      removed: 1,
+      changed: 0,
+      columnsAdded: ["Target"],
+      columnsRemoved: [],
+      keyColumn: undefined,
+    });
+  });
+});
+
+describe("LiveSyncScheduler", () => {
+  let tempDir: string;
+  let settings: LiveSyncSettings;
+  let sheet: SheetTable | Error;
+  let reads: number;
+  let schedulers: LiveSyncScheduler[];
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "live-sync-"));
+    settings = {
+      ...loadLiveSyncSettings({}),
+      dbPath: path.join(tempDir, "db.json"),
+      minIntervalMs: 10,
+      historyLimit: 3,
+    };
+    sheet = ORDERS;
+    reads = 0;
+    schedulers = [];
+  });
+
+  afterEach(() => {
+    schedulers.forEach((scheduler) => scheduler.stop());
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const createScheduler = () => {
+    const scheduler = new LiveSyncScheduler(
+      async () => {
+        reads++;
+        if (sheet instanceof Error) {
+          throw sheet;
+        }
+        return sheet;
+      },
+      new JSONFileDatabase<LiveSyncData>({ syncs: [] }, settings.dbPath),
+      settings,
+    );
+    schedulers.push(scheduler);
+    return scheduler;
+  };
+
+  const waitFor = async (condition: () => Promise<boolean>) => {
+    const deadline = Date.now() + 5000;
+    while (!(await condition())) {
+      if (Date.now() > deadline) {
+        throw new Error("Timed out");
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  };
+
+  it("reads the source when a sync is created", async () => {
+    const sync = await createScheduler().create({
+      sheetId: "https://docs.google.com/spreadsheets/d/sales/edit",
+      range: "Sheet1!A:B",
+      refreshInterval: 60_000,
+    });
+
+    expect(sync).toMatchObject({
+      sheetId: "sales",
+      range: "Sheet1!A:B",
+      status: "active",
+      rowCount: 3,
+      consecutiveFailures: 0,
+    });
+    expect(sync.history).toEqual([
+      expect.objectContaining({ outcome: "initial", trigger: "manual" }),
+    ]);
+    expect(Date.parse(sync.nextSync ?? "")).toBeGreaterThan(Date.now());
+  });
+
+  it("records whether the data changed and how", async () => {
+    const scheduler = createScheduler();
+    const { id } = await scheduler.create({ sheetId: "sales" });
+
+    expect((await scheduler.syncNow(id)).outcome).toBe("unchanged");
+    sheet = table(
+      ["Order", "Total"],
+      [
+        ["A-1", 100],
+        ["A-2", 250],
+      ],
+    );
+    const run = await scheduler.syncNow(id);
+
+    expect(run).toMatchObject({
+      outcome: "changed",
+      rowCount: 2,
+      diff: { added: 0, removed: 1, changed: 0 },
+    });
+    const sync = await scheduler.get(id);
+    expect(sync.lastChange).toBe(run.finishedAt);
+    expect(sync.history.map((r) => r.outcome)).toEqual([
+      "changed",
+      "unchanged",
+      "initial",
+    ]);
+  });
+
+  it("keeps the last data and records failures", async () => {
+    const scheduler = createScheduler();
+    const { id } = await scheduler.create({ sheetId: "sales" });
+    sheet = new SheetsError("permission_denied", "The spreadsheet is private");
+
+    const run = await scheduler.syncNow(id);
+
+    expect(run).toMatchObject({
+      outcome: "failed",
+      error: {
+        category: "permission_denied",
+        message: "The spreadsheet is private",
+      },
+    });
+    expect(await scheduler.get(id)).toMatchObject({
+      rowCount: 3,
+      consecutiveFailures: 1,
+    });
+  });
+
+  it("keeps only the most recent runs", async () => {
+    const scheduler = createScheduler();
+    const { id } = await scheduler.create({ sheetId: "sales" });
+    for (let i = 0; i < 4; i++) {
+      await scheduler.syncNow(id);
+    }
+
+    expect((await scheduler.get(id)).history).toHaveLength(3);
+  });
+
+  it("runs syncs on their interval until paused", async () => {
+    const scheduler = createScheduler();
+    await scheduler.start();
+    const { id } = await scheduler.create({
+      sheetId: "sales",
+      refreshInterval: 20,
+    });
+
+    await waitFor(async () => reads >= 3);
+    const paused = await scheduler.pause(id);
+    const readsWhenPaused = reads;
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(paused.status).toBe("paused");
+    expect(paused.nextSync).toBeUndefined();
+    expect(reads).toBe(readsWhenPaused);
+    expect((await scheduler.get(id)).history[0].trigger).toBe("scheduled");
+
+    await scheduler.resume(id);
+    await waitFor(async () => reads > readsWhenPaused);
+  });
+
+  it("picks up stored syncs after a restart", async () => {
+    const first = createScheduler();
+    const active = await first.create({
+      sheetId: "sales",
+      refreshInterval: 20,
+    });
+    const paused = await first.create({ sheetId: "sales" });
+    await first.pause(paused.id);
+    first.stop();
+
+    const second = createScheduler();
+    expect((await second.list()).map((sync) => sync.status)).toEqual([
+      "active",
+      "paused",
+    ]);
+    const readsBefore = reads;
+    await second.start();
+    await waitFor(async () => (await second.get(active.id)).history.length > 1);
+
+    expect(reads).toBeGreaterThan(readsBefore);
+    expect((await second.get(active.id)).history[0].outcome).toBe("unchanged");
+    expect((await second.get(paused.id)).history).toHaveLength(1);
+  });
+
+  it("deletes syncs", async () => {
+    const scheduler = createScheduler();
+    const { id } = await scheduler.create({ sheetId: "sales" });
+
+    await scheduler.delete(id);
+
+    await expect(scheduler.get(id)).rejects.toThrow(LiveSyncError);
+    expect(await createScheduler().list()).toEqual([]);
+  });
+
+  it("tells subscribers about runs and status changes", async () => {
+    const scheduler = createScheduler();
+    const events: LiveSyncEvent[] = [];
+    const unsubscribe = scheduler.subscribe((event) => events.push(event));
+    const { id } = await scheduler.create({ sheetId: "sales" });
+    sheet = table(["Order", "Total"], [["A-1", 100]]);
+
+    await scheduler.syncNow(id);
+    await scheduler.pause(id);
+    await scheduler.resume(id);
+    await scheduler.delete(id);
+    unsubscribe();
+    await scheduler.create({ sheetId: "sales" });
+
+    expect(
+      events.map((event) =>
+        event.type === "run" ? event.run.outcome : event.type,
+      ),
+    ).toEqual(["initial", "changed", "status", "status", "deleted"]);
+    expect(events[1]).toMatchObject({
+      type: "run",
+      sync: { id, rowCount: 1 },
+      run: { diff: { removed: 2 } },
+    });
+    expect(events[2]).toMatchObject({ sync: { status: "paused" } });
+  });
+
+  it("rejects intervals below the minimum", async () => {
+    const error = await createScheduler()
+      .create({ sheetId: "sales", refreshInterval: 5 })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(LiveSyncError);
+    expect(error.category).toBe("invalid_request");
+    expect(reads).toBe(0);
+  });
+});
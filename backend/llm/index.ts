@@ -0,0 +1,23 @@
+export type { StructuredCompletionOptions } from "./llm_client";
+export {
+  createLLMClient,
+  createLLMClientWithProvider,
+  LLMClient,
+} from "./llm_client";
+export type { LLMConfig, LLMRouteSettings } from "./llm_config";
+export { LLMConfigError, loadLLMConfig } from "./llm_config";
+export type {
+  CompletionRequest,
+  LLMProvider,
+  ProviderName,
+} from "./llm_provider";
+export { LLMProviderError, LLMResponseError } from "./llm_provider";
+export type { MockRecordings } from "./providers";
+export {
+  AnthropicProvider,
+  AzureOpenAIProvider,
+  MockProvider,
+  OpenAIProvider,
+} from "./providers";
+export type { Infer, ParseResult, Schema } from "./schema";
+export * as schema from "./schema";
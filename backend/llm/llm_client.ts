@@ -0,0 +1,192 @@
+import type { LLMConfig, LLMRouteSettings } from "./llm_config";
+import { loadLLMConfig, resolveRouteSettings } from "./llm_config";
+import type {
+  CompletionRequest,
+  LLMProvider,
+  ProviderName,
+} from "./llm_provider";
+import { LLMResponseError } from "./llm_provider";
+import { createProvider } from "./providers";
+import type { Schema } from "./schema";
+import { parseStructuredResponse } from "./schema";
+
+const buildRepairPrompt = (
+  prompt: string,
+  response: string,
+  issues: string[],
+  schema: Schema<unknown>,
+) => `${prompt}
+
+Your previous reply could not be used:
+${response}
+
+It had these problems:
+${issues.map((issue) => `- ${issue}`).join("\n")}
+
+Reply again with ONLY a JSON object matching this shape, nothing else:
+${schema.description}`;
+
+/**
+ * Options for {@link LLMClient.completeStructured}.
+ */
+export interface StructuredCompletionOptions {
+  /**
+   * Receives the reply text as it is generated. When set, the reply is
+   * streamed from the provider rather than fetched in one piece.
+   */
+  onToken?: (token: string) => void;
+  /**
+   * Called before a repair prompt is sent, with the issues found in the
+   * previous reply. Any text passed to `onToken` so far is being discarded.
+   */
+  onRepair?: (issues: string[], attempt: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Routes prompts to the provider and model configured for each route.
+ * Providers are created on first use, so a deployment only needs credentials
+ * for the providers its configuration actually references.
+ */
+export class LLMClient {
+  private readonly providers = new Map<ProviderName, LLMProvider>();
+
+  constructor(
+    private readonly config: LLMConfig,
+    private readonly providerFactory: (name: ProviderName) => LLMProvider,
+  ) {}
+
+  /**
+   * Returns the resolved settings for a route.
+   */
+  settingsFor(route: string): LLMRouteSettings {
+    return resolveRouteSettings(this.config, route);
+  }
+
+  /**
+   * Sends a prompt on behalf of a route and resolves with the model's reply.
+   * @param route - The route name used to look up settings, e.g. `analyze-csv`.
+   * @param prompt - The prompt to send.
+   * @param signal - Aborts the request.
+   */
+  async complete(
+    route: string,
+    prompt: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const request = this.requestFor(route, prompt, signal);
+    return this.providerFor(request.provider).complete(request.completion);
+  }
+
+  /**
+   * Sends a prompt on behalf of a route and yields the model's reply as it is
+   * generated.
+   */
+  stream(
+    route: string,
+    prompt: string,
+    signal?: AbortSignal,
+  ): AsyncIterable<string> {
+    const request = this.requestFor(route, prompt, signal);
+    return this.providerFor(request.provider).stream(request.completion);
+  }
+
+  /**
+   * Sends a prompt and validates the JSON reply against a schema. Invalid
+   * replies are sent back to the model with a repair prompt, up to the route's
+   * `maxRepairAttempts`.
+   * @throws LLMResponseError if no valid reply is produced.
+   */
+  async completeStructured<T>(
+    route: string,
+    prompt: string,
+    schema: Schema<T>,
+    { onToken, onRepair, signal }: StructuredCompletionOptions = {},
+  ): Promise<T> {
+    const { maxRepairAttempts } = this.settingsFor(route);
+    const send = async (text: string) => {
+      if (!onToken) {
+        return this.complete(route, text, signal);
+      }
+      let reply = "";
+      for await (const token of this.stream(route, text, signal)) {
+        reply += token;
+        onToken(token);
+      }
+      return reply;
+    };
+
+    let response = await send(prompt);
+
+    for (let attempt = 1; ; attempt++) {
+      const result = parseStructuredResponse(response, schema);
+      if (result.ok) {
+        return result.value;
+      }
+      if (attempt > maxRepairAttempts) {
+        throw new LLMResponseError(route, result.issues, attempt);
+      }
+      onRepair?.(result.issues, attempt);
+      response = await send(
+        buildRepairPrompt(prompt, response, result.issues, schema),
+      );
+    }
+  }
+
+  private requestFor(
+    route: string,
+    prompt: string,
+    signal?: AbortSignal,
+  ): { provider: ProviderName; completion: CompletionRequest } {
+    const settings = this.settingsFor(route);
+    return {
+      provider: settings.provider,
+      completion: {
+        route,
+        prompt,
+        model: settings.model,
+        maxTokens: settings.maxTokens,
+        temperature: settings.temperature,
+        signal,
+      },
+    };
+  }
+
+  private providerFor(name: ProviderName): LLMProvider {
+    let provider = this.providers.get(name);
+    if (!provider) {
+      provider = this.providerFactory(name);
+      this.providers.set(name, provider);
+    }
+    return provider;
+  }
+}
+
+/**
+ * Creates an LLM client configured from the environment.
+ * See {@link loadLLMConfig} for the variables it reads.
+ */
+export const createLLMClient = (
+  env: NodeJS.ProcessEnv = process.env,
+): LLMClient =>
+  new LLMClient(loadLLMConfig(env), (name) => createProvider(name, env));
+
+/**
+ * Creates an LLM client that sends every route to a single provider. Useful
+ * for tests, where that provider is usually a {@link MockProvider}.
+ */
+export const createLLMClientWithProvider = (
+  provider: LLMProvider,
+  defaults: Partial<LLMRouteSettings> = {},
+): LLMClient =>
+  new LLMClient(
+    {
+      defaults: {
+        ...loadLLMConfig({}).defaults,
+        ...defaults,
+        provider: provider.name,
+      },
+      routes: {},
+    },
+    () => provider,
+  );
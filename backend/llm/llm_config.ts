@@ -0,0 +1,150 @@
+import * as fs from "node:fs";
+import type { ProviderName } from "./llm_provider";
+import { PROVIDER_NAMES } from "./llm_provider";
+
+/**
+ * The model and sampling settings used for a route's completions.
+ */
+export interface LLMRouteSettings {
+  provider: ProviderName;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  /**
+   * How many times an invalid structured response is sent back to the model
+   * with a repair prompt before the request fails.
+   */
+  maxRepairAttempts: number;
+  /**
+   * The approximate number of prompt tokens a dataset summary may use. Routes
+   * that describe a dataset to the model shrink the summary to fit.
+   */
+  datasetTokenBudget: number;
+}
+
+/**
+ * Settings shared by every route, plus per-route overrides keyed by route name
+ * (e.g. `analyze-csv`).
+ */
+export interface LLMConfig {
+  defaults: LLMRouteSettings;
+  routes: Record<string, Partial<LLMRouteSettings>>;
+}
+
+const BUILT_IN_DEFAULTS: LLMRouteSettings = {
+  provider: "openai",
+  model: "gpt-4o",
+  maxTokens: 4000,
+  temperature: 0.7,
+  maxRepairAttempts: 2,
+  datasetTokenBudget: 3000,
+};
+
+export class LLMConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+
+    Object.setPrototypeOf(this, LLMConfigError.prototype);
+  }
+}
+
+const isProviderName = (value: unknown): value is ProviderName =>
+  PROVIDER_NAMES.includes(value as ProviderName);
+
+const validateSettings = (
+  settings: Partial<LLMRouteSettings>,
+  source: string,
+): Partial<LLMRouteSettings> => {
+  if (settings.provider !== undefined && !isProviderName(settings.provider)) {
+    throw new LLMConfigError(
+      `${source}: unknown provider "${settings.provider}", expected one of ${PROVIDER_NAMES.join(", ")}`,
+    );
+  }
+  for (const key of [
+    "maxTokens",
+    "temperature",
+    "maxRepairAttempts",
+    "datasetTokenBudget",
+  ] as const) {
+    const value = settings[key];
+    if (value !== undefined && (typeof value !== "number" || isNaN(value))) {
+      throw new LLMConfigError(`${source}: ${key} must be a number`);
+    }
+  }
+  return settings;
+};
+
+const readEnvironmentDefaults = (
+  env: NodeJS.ProcessEnv,
+): Partial<LLMRouteSettings> => {
+  const settings: Partial<LLMRouteSettings> = {};
+  if (env.LLM_PROVIDER) {
+    settings.provider = env.LLM_PROVIDER as ProviderName;
+  }
+  if (env.LLM_MODEL) {
+    settings.model = env.LLM_MODEL;
+  }
+  if (env.LLM_MAX_TOKENS) {
+    settings.maxTokens = Number(env.LLM_MAX_TOKENS);
+  }
+  if (env.LLM_TEMPERATURE) {
+    settings.temperature = Number(env.LLM_TEMPERATURE);
+  }
+  if (env.LLM_MAX_REPAIR_ATTEMPTS) {
+    settings.maxRepairAttempts = Number(env.LLM_MAX_REPAIR_ATTEMPTS);
+  }
+  if (env.LLM_DATASET_TOKEN_BUDGET) {
+    settings.datasetTokenBudget = Number(env.LLM_DATASET_TOKEN_BUDGET);
+  }
+  return settings;
+};
+
+/**
+ * Builds the LLM configuration. Later sources win over earlier ones:
+ * - built-in defaults (OpenAI `gpt-4o`, 4000 tokens, temperature 0.7, 2 repair
+ *   attempts, 3000-token dataset summaries)
+ * - the `LLM_PROVIDER`, `LLM_MODEL`, `LLM_MAX_TOKENS`, `LLM_TEMPERATURE`,
+ *   `LLM_MAX_REPAIR_ATTEMPTS` and `LLM_DATASET_TOKEN_BUDGET` variables
+ * - the `defaults` and `routes` sections of the JSON file at `LLM_CONFIG_FILE`
+ *
+ * @throws LLMConfigError if a provider name or numeric setting is invalid.
+ */
+export const loadLLMConfig = (
+  env: NodeJS.ProcessEnv = process.env,
+): LLMConfig => {
+  let file: Partial<LLMConfig> = {};
+  if (env.LLM_CONFIG_FILE) {
+    try {
+      file = JSON.parse(fs.readFileSync(env.LLM_CONFIG_FILE, "utf8"));
+    } catch (e) {
+      throw new LLMConfigError(
+        `Failed to read LLM_CONFIG_FILE "${env.LLM_CONFIG_FILE}": ${e instanceof Error ? e.message : e}`,
+      );
+    }
+  }
+
+  const defaults = {
+    ...BUILT_IN_DEFAULTS,
+    ...validateSettings(readEnvironmentDefaults(env), "environment"),
+    ...validateSettings(file.defaults ?? {}, "defaults"),
+  };
+
+  const routes: LLMConfig["routes"] = {};
+  for (const [route, settings] of Object.entries(file.routes ?? {})) {
+    routes[route] = validateSettings(settings, `routes.${route}`);
+  }
+
+  return { defaults, routes };
+};
+
+/**
+ * Returns the settings for a route, falling back to the defaults for anything
+ * the route doesn't override.
+ */
+export const resolveRouteSettings = (
+  config: LLMConfig,
+  route: string,
+): LLMRouteSettings => ({
+  ...config.defaults,
+  ...config.routes[route],
+});
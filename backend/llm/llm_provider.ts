@@ -0,0 +1,80 @@
+/**
+ * The providers an LLM route can be configured to use.
+ * `openai-compatible` covers local servers that speak the OpenAI chat
+ * completions protocol, such as Ollama or vLLM.
+ */
+export const PROVIDER_NAMES = [
+  "openai",
+  "azure-openai",
+  "anthropic",
+  "openai-compatible",
+  "mock",
+] as const;
+
+export type ProviderName = (typeof PROVIDER_NAMES)[number];
+
+/**
+ * A single prompt sent to a provider, along with the settings resolved for the
+ * route that issued it.
+ */
+export interface CompletionRequest {
+  /** The name of the route issuing the request, e.g. `analyze-csv`. */
+  route: string;
+  prompt: string;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  /** Aborts the request, e.g. when the client that asked for it disconnects. */
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+
+  /**
+   * Sends the prompt to the model and resolves with the text of its reply.
+   * @throws LLMProviderError if the provider rejects the request.
+   */
+  complete(request: CompletionRequest): Promise<string>;
+
+  /**
+   * Sends the prompt to the model and yields its reply as it is generated.
+   * Concatenating the chunks gives the same text `complete` would return.
+   * @throws LLMProviderError if the provider rejects the request.
+   */
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
+
+/**
+ * Raised when a provider can't be reached, rejects a request or returns a
+ * response we can't read.
+ */
+export class LLMProviderError extends Error {
+  constructor(
+    readonly provider: ProviderName,
+    message: string,
+    readonly status?: number,
+  ) {
+    super(message);
+
+    Object.setPrototypeOf(this, LLMProviderError.prototype);
+  }
+}
+
+/**
+ * Raised when a model's reply still doesn't match the expected schema after
+ * every repair attempt has been used.
+ */
+export class LLMResponseError extends Error {
+  constructor(
+    readonly route: string,
+    readonly issues: string[],
+    readonly attempts: number,
+  ) {
+    super(
+      `The model returned an invalid response for "${route}" after ${attempts} attempt(s): ${issues.join("; ")}`,
+    );
+
+    Object.setPrototypeOf(this, LLMResponseError.prototype);
+  }
+}
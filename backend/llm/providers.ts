@@ -0,0 +1,371 @@
+import * as fs from "node:fs";
+import { readServerSentEvents } from "../../utils/server_sent_events";
+import type {
+  CompletionRequest,
+  LLMProvider,
+  ProviderName,
+} from "./llm_provider";
+import { LLMProviderError } from "./llm_provider";
+
+const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_COMPATIBLE_BASE_URL = "http://localhost:11434/v1";
+const DEFAULT_AZURE_API_VERSION = "2024-06-01";
+const ANTHROPIC_MESSAGES_URL = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_VERSION = "2023-06-01";
+
+type ChatCompletionResponse = {
+  choices?: { message?: { content?: string | null } }[];
+};
+
+type ChatCompletionChunk = {
+  choices?: { delta?: { content?: string | null } }[];
+};
+
+const ensureOk = (provider: ProviderName, response: Response) => {
+  if (!response.ok) {
+    throw new LLMProviderError(
+      provider,
+      `${provider} API error: ${response.status}`,
+      response.status,
+    );
+  }
+};
+
+const readChatCompletion = async (
+  provider: ProviderName,
+  response: Response,
+): Promise<string> => {
+  ensureOk(provider, response);
+
+  const data = (await response.json()) as ChatCompletionResponse;
+  const content = data.choices?.[0]?.message?.content;
+  if (typeof content !== "string") {
+    throw new LLMProviderError(provider, `${provider} returned no content`);
+  }
+  return content;
+};
+
+/**
+ * Yields the text of a streamed reply. `readDelta` pulls the new text, if
+ * any, out of each parsed event.
+ */
+async function* readStreamedText(
+  provider: ProviderName,
+  response: Response,
+  readDelta: (data: unknown) => string | undefined,
+): AsyncGenerator<string> {
+  ensureOk(provider, response);
+  if (!response.body) {
+    throw new LLMProviderError(provider, `${provider} returned no content`);
+  }
+
+  for await (const event of readServerSentEvents(response.body)) {
+    if (event.data === "[DONE]") {
+      return;
+    }
+    let data: unknown;
+    try {
+      data = JSON.parse(event.data);
+    } catch {
+      throw new LLMProviderError(
+        provider,
+        `${provider} sent an unreadable stream event`,
+      );
+    }
+    const text = readDelta(data);
+    if (text) {
+      yield text;
+    }
+  }
+}
+
+const readChatCompletionChunk = (data: unknown) =>
+  (data as ChatCompletionChunk).choices?.[0]?.delta?.content ?? undefined;
+
+/**
+ * Talks to the OpenAI chat completions API, or to any server that implements
+ * the same protocol when constructed with a different base URL.
+ */
+export class OpenAIProvider implements LLMProvider {
+  constructor(
+    private readonly options: {
+      apiKey?: string;
+      baseUrl: string;
+      name?: "openai" | "openai-compatible";
+    },
+  ) {}
+
+  get name(): ProviderName {
+    return this.options.name ?? "openai";
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    return readChatCompletion(this.name, await this.send(request, false));
+  }
+
+  async *stream(request: CompletionRequest): AsyncGenerator<string> {
+    yield* readStreamedText(
+      this.name,
+      await this.send(request, true),
+      readChatCompletionChunk,
+    );
+  }
+
+  private send(
+    { prompt, model, maxTokens, temperature, signal }: CompletionRequest,
+    stream: boolean,
+  ): Promise<Response> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this.options.apiKey) {
+      headers.Authorization = `Bearer ${this.options.apiKey}`;
+    }
+
+    return fetch(`${this.options.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: [{ role: "user", content: prompt }],
+        max_tokens: maxTokens,
+        temperature,
+        stream,
+      }),
+      signal,
+    });
+  }
+}
+
+/**
+ * Talks to an Azure OpenAI resource. Azure addresses models by deployment, so
+ * the route's `model` setting is used as the deployment name.
+ */
+export class AzureOpenAIProvider implements LLMProvider {
+  readonly name = "azure-openai";
+
+  constructor(
+    private readonly options: {
+      apiKey?: string;
+      endpoint: string;
+      apiVersion: string;
+    },
+  ) {}
+
+  async complete(request: CompletionRequest): Promise<string> {
+    return readChatCompletion(this.name, await this.send(request, false));
+  }
+
+  async *stream(request: CompletionRequest): AsyncGenerator<string> {
+    yield* readStreamedText(
+      this.name,
+      await this.send(request, true),
+      readChatCompletionChunk,
+    );
+  }
+
+  private send(
+    { prompt, model, maxTokens, temperature, signal }: CompletionRequest,
+    stream: boolean,
+  ): Promise<Response> {
+    const url = new URL(
+      `/openai/deployments/${encodeURIComponent(model)}/chat/completions`,
+      this.options.endpoint,
+    );
+    url.searchParams.append("api-version", this.options.apiVersion);
+
+    return fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "api-key": this.options.apiKey ?? "",
+      },
+      body: JSON.stringify({
+        messages: [{ role: "user", content: prompt }],
+        max_tokens: maxTokens,
+        temperature,
+        stream,
+      }),
+      signal,
+    });
+  }
+}
+
+/**
+ * Talks to the Anthropic messages API.
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic";
+
+  constructor(private readonly options: { apiKey?: string; url?: string }) {}
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const response = await this.send(request, false);
+    ensureOk(this.name, response);
+
+    const data = (await response.json()) as {
+      content?: { type: string; text?: string }[];
+    };
+    const text = (data.content ?? [])
+      .filter((block) => block.type === "text")
+      .map((block) => block.text ?? "")
+      .join("");
+    if (!text) {
+      throw new LLMProviderError(this.name, `${this.name} returned no content`);
+    }
+    return text;
+  }
+
+  async *stream(request: CompletionRequest): AsyncGenerator<string> {
+    yield* readStreamedText(
+      this.name,
+      await this.send(request, true),
+      (data) => {
+        const event = data as {
+          type?: string;
+          delta?: { type?: string; text?: string };
+          error?: { message?: string };
+        };
+        if (event.type === "error") {
+          throw new LLMProviderError(
+            this.name,
+            `${this.name} stream error: ${event.error?.message ?? "unknown"}`,
+          );
+        }
+        return event.type === "content_block_delta" &&
+          event.delta?.type === "text_delta"
+          ? event.delta.text
+          : undefined;
+      },
+    );
+  }
+
+  private send(
+    { prompt, model, maxTokens, temperature, signal }: CompletionRequest,
+    stream: boolean,
+  ): Promise<Response> {
+    return fetch(this.options.url ?? ANTHROPIC_MESSAGES_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": this.options.apiKey ?? "",
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: "user", content: prompt }],
+        max_tokens: maxTokens,
+        temperature,
+        stream,
+      }),
+      signal,
+    });
+  }
+}
+
+/**
+ * Recorded responses for the mock provider, keyed by route name. When a route
+ * has several responses they are replayed in order, and the last one repeats.
+ */
+export type MockRecordings = Record<string, string | string[]>;
+
+/**
+ * A deterministic provider that replays recorded responses instead of calling
+ * a model. Use it to exercise routes offline, in tests or local development.
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = "mock";
+
+  /** Every request received, in order, so tests can inspect the prompts. */
+  readonly requests: CompletionRequest[] = [];
+
+  private readonly callCounts = new Map<string, number>();
+
+  constructor(private readonly recordings: MockRecordings) {}
+
+  /**
+   * Loads recordings from a JSON file shaped like {@link MockRecordings}.
+   */
+  static fromFile(filePath: string): MockProvider {
+    return new MockProvider(JSON.parse(fs.readFileSync(filePath, "utf8")));
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    this.requests.push(request);
+
+    const recorded = this.recordings[request.route];
+    if (recorded === undefined) {
+      throw new LLMProviderError(
+        this.name,
+        `No recorded response for route "${request.route}"`,
+      );
+    }
+
+    const responses = Array.isArray(recorded) ? recorded : [recorded];
+    const callCount = this.callCounts.get(request.route) ?? 0;
+    this.callCounts.set(request.route, callCount + 1);
+
+    return responses[Math.min(callCount, responses.length - 1)];
+  }
+
+  /**
+   * Streams the recorded response one word at a time.
+   */
+  async *stream(request: CompletionRequest): AsyncGenerator<string> {
+    const response = await this.complete(request);
+    for (const chunk of response.match(/\s*\S+\s*/g) ?? [response]) {
+      if (request.signal?.aborted) {
+        return;
+      }
+      yield chunk;
+    }
+  }
+}
+
+/**
+ * Creates a provider from environment variables.
+ * @param name - The provider to create.
+ * @param env - The environment to read credentials and endpoints from.
+ */
+export const createProvider = (
+  name: ProviderName,
+  env: NodeJS.ProcessEnv = process.env,
+): LLMProvider => {
+  switch (name) {
+    case "openai":
+      return new OpenAIProvider({
+        apiKey: env.OPENAI_API_KEY,
+        baseUrl: env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+      });
+    case "openai-compatible":
+      return new OpenAIProvider({
+        name: "openai-compatible",
+        apiKey: env.LLM_COMPATIBLE_API_KEY,
+        baseUrl: env.LLM_COMPATIBLE_BASE_URL || DEFAULT_COMPATIBLE_BASE_URL,
+      });
+    case "azure-openai":
+      if (!env.AZURE_OPENAI_ENDPOINT) {
+        throw new LLMProviderError(
+          name,
+          "AZURE_OPENAI_ENDPOINT environment variable is not defined",
+        );
+      }
+      return new AzureOpenAIProvider({
+        apiKey: env.AZURE_OPENAI_API_KEY,
+        endpoint: env.AZURE_OPENAI_ENDPOINT,
+        apiVersion: env.AZURE_OPENAI_API_VERSION || DEFAULT_AZURE_API_VERSION,
+      });
+    case "anthropic":
+      return new AnthropicProvider({ apiKey: env.ANTHROPIC_API_KEY });
+    case "mock":
+      if (!env.LLM_MOCK_RECORDINGS) {
+        throw new LLMProviderError(
+          name,
+          "LLM_MOCK_RECORDINGS environment variable is not defined",
+        );
+      }
+      return MockProvider.fromFile(env.LLM_MOCK_RECORDINGS);
+    default:
+      throw new LLMProviderError(name, `Unknown LLM provider "${name}"`);
+  }
+};
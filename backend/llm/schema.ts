@@ -0,0 +1,232 @@
+/**
+ * A minimal schema description for model output. Each schema validates an
+ * unknown value, collects readable issues, and describes itself so the
+ * description can be shown to the model when asking it to repair its output.
+ */
+export interface Schema<T> {
+  readonly description: string;
+  validate(value: unknown, path: string, issues: string[]): T | undefined;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const describeValue = (value: unknown) =>
+  value == null ? String(value) : Array.isArray(value) ? "array" : typeof value;
+
+export const string = ({
+  minLength = 0,
+}: { minLength?: number } = {}): Schema<string> => ({
+  description: "string",
+  validate(value, path, issues) {
+    if (typeof value !== "string") {
+      issues.push(`${path}: expected string, got ${describeValue(value)}`);
+      return undefined;
+    }
+    if (value.trim().length < minLength) {
+      issues.push(`${path}: must not be empty`);
+      return undefined;
+    }
+    return value;
+  },
+});
+
+/**
+ * A number. Numeric strings such as `"85"` or `"85%"` are accepted and
+ * converted, since models often quote numbers.
+ */
+export const number = ({
+  min,
+  max,
+}: { min?: number; max?: number } = {}): Schema<number> => ({
+  description:
+    min !== undefined && max !== undefined
+      ? `number between ${min} and ${max}`
+      : "number",
+  validate(value, path, issues) {
+    const parsed =
+      typeof value === "string"
+        ? Number(value.trim().replace(/%$/, ""))
+        : value;
+    if (
+      typeof parsed !== "number" ||
+      isNaN(parsed) ||
+      (typeof value === "string" && !value.trim())
+    ) {
+      issues.push(`${path}: expected number, got ${describeValue(value)}`);
+      return undefined;
+    }
+    if (
+      (min !== undefined && parsed < min) ||
+      (max !== undefined && parsed > max)
+    ) {
+      issues.push(`${path}: ${parsed} is outside ${min} to ${max}`);
+      return undefined;
+    }
+    return parsed;
+  },
+});
+
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> => ({
+  description: values.map((value) => JSON.stringify(value)).join(" | "),
+  validate(value, path, issues) {
+    if (!values.includes(value as T)) {
+      issues.push(
+        `${path}: expected one of ${values.join(", ")}, got ${JSON.stringify(value)}`,
+      );
+      return undefined;
+    }
+    return value as T;
+  },
+});
+
+export const array = <T>(
+  item: Schema<T>,
+  { minItems = 0 }: { minItems?: number } = {},
+): Schema<T[]> => ({
+  description: `${item.description}[]`,
+  validate(value, path, issues) {
+    if (!Array.isArray(value)) {
+      issues.push(`${path}: expected array, got ${describeValue(value)}`);
+      return undefined;
+    }
+    if (value.length < minItems) {
+      issues.push(
+        `${path}: expected at least ${minItems} items, got ${value.length}`,
+      );
+      return undefined;
+    }
+    const issueCount = issues.length;
+    const items = value.map((entry, index) =>
+      item.validate(entry, `${path}[${index}]`, issues),
+    );
+    return issues.length === issueCount ? (items as T[]) : undefined;
+  },
+});
+
+/**
+ * A boolean. `"true"` and `"false"` are accepted as well.
+ */
+export const boolean = (): Schema<boolean> => ({
+  description: "boolean",
+  validate(value, path, issues) {
+    if (value === true || value === "true") {
+      return true;
+    }
+    if (value === false || value === "false") {
+      return false;
+    }
+    issues.push(`${path}: expected boolean, got ${describeValue(value)}`);
+    return undefined;
+  },
+});
+
+/**
+ * Marks an object property as optional, substituting `fallback` when the
+ * model leaves it out or sends `null`. Without a fallback the property is
+ * left `undefined`.
+ */
+export const optional = <T, F extends T | undefined = undefined>(
+  schema: Schema<T>,
+  fallback?: F,
+): Schema<T | F> => ({
+  description: `${schema.description} (optional)`,
+  validate(value, path, issues) {
+    if (value == null) {
+      return fallback;
+    }
+    return schema.validate(value, path, issues);
+  },
+});
+
+export const object = <Shape extends Record<string, Schema<unknown>>>(
+  shape: Shape,
+): Schema<{ [K in keyof Shape]: Infer<Shape[K]> }> => ({
+  description: `{ ${Object.entries(shape)
+    .map(([key, schema]) => `"${key}": ${schema.description}`)
+    .join(", ")} }`,
+  validate(value, path, issues) {
+    if (typeof value !== "object" || value == null || Array.isArray(value)) {
+      issues.push(`${path}: expected object, got ${describeValue(value)}`);
+      return undefined;
+    }
+    const issueCount = issues.length;
+    const result: Record<string, unknown> = {};
+    for (const [key, schema] of Object.entries(shape)) {
+      result[key] = schema.validate(
+        (value as Record<string, unknown>)[key],
+        `${path}.${key}`,
+        issues,
+      );
+    }
+    return issues.length === issueCount
+      ? (result as { [K in keyof Shape]: Infer<Shape[K]> })
+      : undefined;
+  },
+});
+
+export type ParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: string[] };
+
+/**
+ * Pulls the JSON object out of a model reply, tolerating markdown fences and
+ * prose around it. Fences inside the object, e.g. around generated code in a
+ * string value, are left alone.
+ */
+export const extractJSON = (text: string): string => {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  return start !== -1 && end > start
+    ? text.slice(start, end + 1)
+    : text.replace(/```(?:json)?\s*/g, "").trim();
+};
+
+/**
+ * Reads the value of a top-level string property from a reply that is still
+ * being streamed, so its text can be shown before the JSON is complete.
+ * Returns `undefined` until the property has started.
+ */
+export const readPartialStringField = (
+  text: string,
+  field: string,
+): string | undefined => {
+  const match = new RegExp(
+    `"${field.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)`,
+  ).exec(text);
+  if (!match) {
+    return undefined;
+  }
+  // Drop a unicode escape that hasn't fully arrived yet.
+  const raw = match[1].replace(/\\u[0-9a-fA-F]{0,3}$/, "");
+  try {
+    return JSON.parse(`"${raw}"`);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Parses a model reply as JSON and validates it against a schema.
+ */
+export const parseStructuredResponse = <T>(
+  text: string,
+  schema: Schema<T>,
+): ParseResult<T> => {
+  let json: unknown;
+  try {
+    json = JSON.parse(extractJSON(text));
+  } catch (e) {
+    return {
+      ok: false,
+      issues: [
+        `response is not valid JSON: ${e instanceof Error ? e.message : e}`,
+      ],
+    };
+  }
+
+  const issues: string[] = [];
+  const value = schema.validate(json, "$", issues);
+  return issues.length === 0
+    ? { ok: true, value: value as T }
+    : { ok: false, issues };
+};
@@ -0,0 +1,247 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  createLLMClientWithProvider,
+  LLMClient,
+  LLMConfigError,
+  LLMProviderError,
+  LLMResponseError,
+  loadLLMConfig,
+  MockProvider,
+  schema,
+} from "../index";
+
+describe("loadLLMConfig", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "llm-config-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const writeConfigFile = (config: unknown) => {
+    const filePath = path.join(tempDir, "llm.json");
+    fs.writeFileSync(filePath, JSON.stringify(config));
+    return filePath;
+  };
+
+  it("falls back to the built-in defaults", () => {
+    expect(loadLLMConfig({})).toEqual({
+      defaults: {
+        provider: "openai",
+        model: "gpt-4o",
+        maxTokens: 4000,
+        temperature: 0.7,
+        maxRepairAttempts: 2,
+        datasetTokenBudget: 3000,
+      },
+      routes: {},
+    });
+  });
+
+  it("lets environment variables override the built-in defaults", () => {
+    const config = loadLLMConfig({
+      LLM_PROVIDER: "anthropic",
+      LLM_MODEL: "claude-sonnet",
+      LLM_TEMPERATURE: "0.2",
+    });
+    expect(config.defaults).toEqual({
+      provider: "anthropic",
+      model: "claude-sonnet",
+      maxTokens: 4000,
+      temperature: 0.2,
+      maxRepairAttempts: 2,
+      datasetTokenBudget: 3000,
+    });
+  });
+
+  it("reads per-route overrides from LLM_CONFIG_FILE", () => {
+    const LLM_CONFIG_FILE = writeConfigFile({
+      defaults: { model: "gpt-4o-mini" },
+      routes: {
+        "chat-orchestrator": { provider: "openai-compatible", model: "llama3" },
+      },
+    });
+    const config = loadLLMConfig({ LLM_CONFIG_FILE, LLM_MODEL: "ignored" });
+
+    expect(config.defaults.model).toBe("gpt-4o-mini");
+    expect(config.routes["chat-orchestrator"]).toEqual({
+      provider: "openai-compatible",
+      model: "llama3",
+    });
+  });
+
+  it("rejects unknown providers", () => {
+    expect(() => loadLLMConfig({ LLM_PROVIDER: "nope" })).toThrow(
+      LLMConfigError,
+    );
+    const LLM_CONFIG_FILE = writeConfigFile({
+      routes: { "analyze-csv": { provider: "nope" } },
+    });
+    expect(() => loadLLMConfig({ LLM_CONFIG_FILE })).toThrow(
+      /routes\.analyze-csv: unknown provider "nope"/,
+    );
+  });
+});
+
+describe("LLMClient", () => {
+  it("sends each route to its configured provider and settings", async () => {
+    const mock = new MockProvider({ "analyze-csv": "analysis" });
+    const other = new MockProvider({});
+    const client = new LLMClient(
+      {
+        defaults: {
+          provider: "openai",
+          model: "gpt-4o",
+          maxTokens: 4000,
+          temperature: 0.7,
+          maxRepairAttempts: 2,
+          datasetTokenBudget: 3000,
+        },
+        routes: {
+          "analyze-csv": { provider: "mock", model: "small", temperature: 0 },
+        },
+      },
+      (name) => (name === "mock" ? mock : other),
+    );
+
+    await expect(client.complete("analyze-csv", "prompt")).resolves.toBe(
+      "analysis",
+    );
+    expect(mock.requests).toEqual([
+      {
+        route: "analyze-csv",
+        prompt: "prompt",
+        model: "small",
+        maxTokens: 4000,
+        temperature: 0,
+      },
+    ]);
+    expect(other.requests).toEqual([]);
+  });
+});
+
+describe("MockProvider", () => {
+  it("replays recorded responses in order and repeats the last one", async () => {
+    const client = createLLMClientWithProvider(
+      new MockProvider({ story: ["first", "second"] }),
+    );
+
+    await expect(client.complete("story", "a")).resolves.toBe("first");
+    await expect(client.complete("story", "b")).resolves.toBe("second");
+    await expect(client.complete("story", "c")).resolves.toBe("second");
+  });
+
+  it("throws when a route has no recording", async () => {
+    const client = createLLMClientWithProvider(new MockProvider({}));
+
+    await expect(client.complete("story", "a")).rejects.toThrow(
+      LLMProviderError,
+    );
+  });
+});
+
+describe("completeStructured", () => {
+  const answerSchema = schema.object({
+    answer: schema.string({ minLength: 1 }),
+    score: schema.number({ min: 0, max: 1 }),
+  });
+
+  it("accepts fenced JSON surrounded by prose", async () => {
+    const client = createLLMClientWithProvider(
+      new MockProvider({
+        route: 'Sure!\n```json\n{"answer": "yes", "score": "0.5"}\n```',
+      }),
+    );
+
+    await expect(
+      client.completeStructured("route", "prompt", answerSchema),
+    ).resolves.toEqual({ answer: "yes", score: 0.5 });
+  });
+
+  it("sends a repair prompt listing the issues and retries", async () => {
+    const mock = new MockProvider({
+      route: ['{"answer": ""}', '{"answer": "yes", "score": 1}'],
+    });
+    const client = createLLMClientWithProvider(mock);
+
+    await expect(
+      client.completeStructured("route", "prompt", answerSchema),
+    ).resolves.toEqual({ answer: "yes", score: 1 });
+    expect(mock.requests).toHaveLength(2);
+    expect(mock.requests[1].prompt).toContain("- $.answer: must not be empty");
+    expect(mock.requests[1].prompt).toContain(
+      "- $.score: expected number, got undefined",
+    );
+  });
+
+  it("gives up after the configured number of repair attempts", async () => {
+    const mock = new MockProvider({ route: "not json" });
+    const client = createLLMClientWithProvider(mock, { maxRepairAttempts: 1 });
+
+    await expect(
+      client.completeStructured("route", "prompt", answerSchema),
+    ).rejects.toThrow(LLMResponseError);
+    expect(mock.requests).toHaveLength(2);
+  });
+
+  it("streams the reply to onToken and reports repairs", async () => {
+    const mock = new MockProvider({
+      route: ['{"answer": ""}', '{"answer": "yes", "score": 1}'],
+    });
+    const client = createLLMClientWithProvider(mock);
+    const tokens: string[] = [];
+    const repairs: string[][] = [];
+
+    await expect(
+      client.completeStructured("route", "prompt", answerSchema, {
+        onToken: (token) => tokens.push(token),
+        onRepair: (issues) => repairs.push(issues),
+      }),
+    ).resolves.toEqual({ answer: "yes", score: 1 });
+    expect(tokens.length).toBeGreaterThan(2);
+    expect(tokens.join("")).toBe('{"answer": ""}{"answer": "yes", "score": 1}');
+    expect(repairs).toEqual([
+      [
+        "$.answer: must not be empty",
+        "$.score: expected number, got undefined",
+      ],
+    ]);
+  });
+});
+
+describe("readPartialStringField", () => {
+  it("reads a string property before the JSON is complete", () => {
+    expect(
+      schema.readPartialStringField('{"response": "Hello, wor', "response"),
+    ).toBe("Hello, wor");
+    expect(
+      schema.readPartialStringField(
+        '{"response": "a \\"quote\\" and\\n',
+        "response",
+      ),
+    ).toBe('a "quote" and\n');
+  });
+
+  it("waits for escapes that haven't fully arrived", () => {
+    expect(
+      schema.readPartialStringField('{"response": "caf\\u00', "response"),
+    ).toBe("caf");
+    expect(
+      schema.readPartialStringField('{"response": "caf\\', "response"),
+    ).toBe("caf");
+    expect(
+      schema.readPartialStringField('{"response": "caf\\u00e9"', "response"),
+    ).toBe("café");
+  });
+
+  it("returns undefined until the property starts", () => {
+    expect(
+      schema.readPartialStringField('{"action": "help", "resp', "response"),
+    ).toBeUndefined();
+  });
+});
@@ -1,895 +1,1290 @@
 import * as express from "express";
-import * as fs from "fs";
-import * as path from "path";
-import { exec } from "child_process";
-import { promisify } from "util";
-
-const execAsync = promisify(exec);
-
-// OpenAI function since content_strategy.ts was removed
-export const callOpenAI = async (prompt: string, model: string = "gpt-4o"): Promise<string> => {
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${process.env.OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model: model,
-      messages: [{ role: "user", content: prompt }],
-      max_tokens: 4000,
-      temperature: 0.7,
-    }),
-  });
+import type { LLMClient } from "../llm";
+import { createLLMClient, LLMResponseError, schema } from "../llm";
+import type { ChartSpec } from "../../utils/chart_spec";
+import { formatCsv, formatCsvRow } from "../../utils/csv";
+import { suggestCharts } from "../../utils/data_profile";
+import {
+  CellError,
+  compileFormula,
+  describeFormulaError,
+  evaluateFormula,
+  formatFormulaValue,
+  FormulaError,
+} from "../../utils/formula";
+import type { StreamProgress } from "../../utils/server_sent_events";
+import type { AnalysisRegistry } from "../analyses";
+import {
+  AnalysisError,
+  createAnalysisRegistry,
+  statusForAnalysisError,
+} from "../analyses";
+import {
+  AnomalyError,
+  anomalyCharts,
+  describeAnomalies,
+  findAnomalies,
+  statusForAnomalyError,
+} from "../anomalies";
+import type { ChartImageFormat } from "../charts";
+import {
+  correlateDataset,
+  CorrelationError,
+  correlationCharts,
+  describeCorrelations,
+  statusForCorrelationError,
+} from "../correlations";
+import {
+  CHART_IMAGE_FORMATS,
+  chartSpecSchema,
+  chartSpecsToPython,
+  renderCharts,
+} from "../charts";
+import type { DatasetInfo, DatasetStore } from "../dataset";
+import {
+  createDatasetStore,
+  DatasetError,
+  ParsedDataset,
+  statusForDatasetError,
+} from "../dataset";
+import {
+  describeForecast,
+  forecastChart,
+  forecastDataset,
+  ForecastError,
+  statusForForecastError,
+} from "../forecasting";
+import type { LiveSync, LiveSyncScheduler } from "../live_sync";
+import {
+  createLiveSyncScheduler,
+  LiveSyncError,
+  statusForLiveSyncError,
+} from "../live_sync";
+import type { PythonSandbox } from "../sandbox";
+import {
+  createPythonSandbox,
+  SandboxError,
+  statusForSandboxError,
+} from "../sandbox";
+import type { GoogleSheetsClient, SheetTable } from "../sheets";
+import {
+  createGoogleSheetsClient,
+  parseSpreadsheetId,
+  SheetsError,
+  sheetTableToCsv,
+  statusForSheetsError,
+} from "../sheets";
+import type { EventStream } from "./event_stream";
+import { openEventStream } from "./event_stream";
+import {
+  buildAnalysisPrompt,
+  buildAnomalyPrompt,
+  buildCorrelationPrompt,
+  buildDataStoryPrompt,
+  buildFormulaTranslationPrompt,
+  buildInsightPrompt,
+  buildNaturalLanguageChartPrompt,
+  buildOrchestratorPrompt,
+  buildPredictionPrompt,
+} from "./prompts";
+import {
+  analyzeCorrelationsResponseSchema,
+  analyzeCsvResponseSchema,
+  chatOrchestratorResponseSchema,
+  detectAnomaliesResponseSchema,
+  generateDataStoryResponseSchema,
+  generatePredictionsResponseSchema,
+  insightRecommendationsResponseSchema,
+  naturalLanguageChartResponseSchema,
+  translateFormulaResponseSchema,
+} from "./response_schemas";
+
+// Errors from the services carry a category, so the client can tell, say,
+// an expired dataset it can upload again from a private sheet
+const describeServiceError = (e: unknown) => {
+  if (e instanceof DatasetError) {
+    return { status: statusForDatasetError(e.category), category: e.category };
+  }
+  if (e instanceof LiveSyncError) {
+    return { status: statusForLiveSyncError(e.category), category: e.category };
+  }
+  if (e instanceof SheetsError) {
+    return { status: statusForSheetsError(e.category), category: e.category };
+  }
+  if (e instanceof AnalysisError) {
+    return { status: statusForAnalysisError(e.category), category: e.category };
+  }
+  if (e instanceof AnomalyError) {
+    return { status: statusForAnomalyError(e.category), category: e.category };
+  }
+  if (e instanceof CorrelationError) {
+    return {
+      status: statusForCorrelationError(e.category),
+      category: e.category,
+    };
+  }
+  if (e instanceof ForecastError) {
+    return { status: statusForForecastError(e.category), category: e.category };
+  }
+  return undefined;
+};
 
-  if (!response.ok) {
-    throw new Error(`OpenAI API error: ${response.status}`);
+// Why a request failed, as the status and body to respond with. Failures are
+// reported explicitly instead of substituting placeholder content:
+// - A model reply that never matched its schema is the upstream model's
+//   fault, so it is a 502 along with the validation issues.
+// - Sandbox failures tell the client whether the code was rejected, failed,
+//   or ran out of time or memory, plus the offending line.
+// - Service errors carry their category.
+const describeError = (error: string, e: unknown) => {
+  const details = e instanceof Error ? e.message : String(e);
+  if (e instanceof LLMResponseError) {
+    return { status: 502, body: { error, details, issues: e.issues } };
+  }
+  if (e instanceof SandboxError) {
+    return {
+      status: statusForSandboxError(e.category),
+      body: {
+        error,
+        category: e.category,
+        details,
+        line: e.line,
+        violations: e.violations.length > 0 ? e.violations : undefined,
+        suggestion:
+          e.category === "internal"
+            ? "Make sure Python is installed with pandas, matplotlib, and seaborn"
+            : undefined,
+      },
+    };
+  }
+  const service = describeServiceError(e);
+  if (service) {
+    return {
+      status: service.status,
+      body: { error, category: service.category, details },
+    };
   }
+  return { status: 500, body: { error, details } };
+};
+
+const sendError = (res: express.Response, error: string, e: unknown) => {
+  const { status, body } = describeError(error, e);
+  return res.status(status).json(body);
+};
 
-  const data = await response.json();
-  return data.choices[0].message.content;
+// Streamed routes have already sent their status, so errors become an event
+const streamError = (stream: EventStream, error: string, e: unknown) =>
+  stream.send("error", describeError(error, e).body);
+
+// The dataset of a sheet range, as /fetch-sheet-data returns it
+const describeSheetTable = (sheetId: string, table: SheetTable) => ({
+  csvData: sheetTableToCsv(table),
+  rowCount: table.rows.length,
+  truncated: table.truncated,
+  sheetInfo: {
+    sheetId,
+    title: table.spreadsheetTitle,
+    tab: table.tab,
+    range: table.range,
+    columns: table.columns.map((column) => column.name),
+    columnTypes: Object.fromEntries(
+      table.columns.map((column) => [column.name, column.kind]),
+    ),
+  },
+});
+
+// A dataset, as the /datasets routes return it
+const describeDataset = (info: DatasetInfo) => ({
+  datasetId: info.id,
+  name: info.name,
+  status: info.status,
+  byteLength: info.byteLength,
+  chunkCount: info.chunkCount,
+  rowCount: info.rowCount,
+  columns: info.columns,
+  createdAt: info.createdAt,
+  lastUsedAt: info.lastUsedAt,
+  expiresAt: info.expiresAt,
+});
+
+// The status of a sync, as /sync-status and /live-syncs return it
+const describeLiveSync = (sync: LiveSync) => ({
+  syncId: sync.id,
+  active: sync.status === "active",
+  status: sync.status,
+  sheetId: sync.sheetId,
+  range: sync.range,
+  refreshInterval: sync.refreshInterval,
+  lastSync: sync.lastSync,
+  nextSync: sync.nextSync,
+  lastChange: sync.lastChange,
+  rowCount: sync.rowCount,
+  contentHash: sync.contentHash,
+  consecutiveFailures: sync.consecutiveFailures,
+  history: sync.history,
+});
+
+// How many rows of a computed column /apply-formula previews, and how many of
+// the rows the formula failed for it describes
+const FORMULA_PREVIEW_ROWS = 10;
+const FORMULA_ERROR_ROWS = 5;
+
+// A formula that can't run is the request's fault. The span of the text at
+// fault is sent along, and the details underline it.
+const describeInvalidFormula = (formula: string, e: FormulaError) => ({
+  error: "Invalid formula",
+  category: e.category,
+  details: describeFormulaError(formula, e),
+  start: e.start,
+  end: e.end,
+});
+
+// How often an idle live sync event stream is written to, so proxies keep it
+// open
+const LIVE_SYNC_HEARTBEAT_MS = 25_000;
+
+// Forwards the text of one string field of a streamed JSON reply as `token`
+// events, so the user reads the answer while the rest of the JSON arrives.
+// A repair attempt restarts the reply, which the client is told about with a
+// `repairing` progress event.
+const streamReplyField = (stream: EventStream, field: string) => {
+  let reply = "";
+  let sent = "";
+  return {
+    reply: () => reply,
+    onToken(token: string) {
+      reply += token;
+      const text = schema.readPartialStringField(reply, field) ?? "";
+      if (text.length > sent.length) {
+        stream.send("token", { text: text.slice(sent.length) });
+        sent = text;
+      }
+    },
+    onRepair(issues: string[], attempt: number) {
+      reply = "";
+      sent = "";
+      stream.send("progress", {
+        stage: "repairing",
+        message: `Fixing an invalid reply (attempt ${attempt})`,
+      } satisfies StreamProgress);
+    },
+  };
 };
 
-// Store for live sync configurations
-const liveSyncConfigs = new Map<string, {
-  sheetId: string;
-  range: string;
-  refreshInterval: number;
-  lastSync: Date;
-  syncJobId?: NodeJS.Timeout;
-}>();
+// Sends each chart as a `chart` event, with a progress update counting them
+const streamCharts =
+  (stream: EventStream) => (image: string, index: number, total: number) => {
+    stream.send("progress", {
+      stage: "rendering",
+      message: `Rendering chart ${index + 1}/${total}`,
+      current: index + 1,
+      total,
+    } satisfies StreamProgress);
+    stream.send("chart", { image, index, total });
+  };
+
+interface DataToInfographicRouterOptions {
+  /**
+   * The client used for every model call. Defaults to one configured from the
+   * environment; pass one backed by a `MockProvider` to run the router offline.
+   */
+  llm?: LLMClient;
+  /**
+   * Renders chart images. Defaults to one configured from the environment.
+   */
+  sandbox?: PythonSandbox;
+  /**
+   * Reads Google Sheets. Defaults to one configured from the environment;
+   * pass one pointed at a `FakeSheetsServer` to run the router offline.
+   */
+  sheets?: GoogleSheetsClient;
+  /**
+   * Runs live syncs. Defaults to one that reads with `sheets` and stores its
+   * syncs where the environment says; the server starts it when it boots.
+   */
+  liveSync?: LiveSyncScheduler;
+  /**
+   * Keeps uploaded datasets for routes sent a `datasetId`. Defaults to one
+   * configured from the environment.
+   */
+  datasets?: DatasetStore;
+  /** The analyses clients can run by name. Defaults to the built-in ones. */
+  analyses?: AnalysisRegistry;
+}
 
-export const createDataToInfographicRouter = () => {
+export const createDataToInfographicRouter = ({
+  llm = createLLMClient(),
+  sandbox = createPythonSandbox(),
+  sheets = createGoogleSheetsClient(),
+  liveSync = createLiveSyncScheduler(sheets),
+  datasets = createDatasetStore(),
+  analyses = createAnalysisRegistry(),
+}: DataToInfographicRouterOptions = {}) => {
   const router = express.Router();
 
-  // POST /api/data-to-infographic/analyze-csv
-  router.post("/analyze-csv", async (req, res) => {
+  // The dataset a request is about: an uploaded one named by `datasetId`,
+  // or CSV text sent with the request. When there's neither, or the upload
+  // can't be used, this responds with the error and returns undefined.
+  const requireDataset = (req: express.Request, res: express.Response) => {
+    const { datasetId, csvData } = req.body;
+    if (datasetId) {
+      try {
+        return datasets.get(String(datasetId));
+      } catch (e) {
+        sendError(res, "Failed to read the dataset", e);
+        return undefined;
+      }
+    }
+    if (typeof csvData === "string" && csvData) {
+      return new ParsedDataset(csvData);
+    }
+    res.status(400).json({ error: "datasetId or csvData is required" });
+    return undefined;
+  };
+
+  // Describes a dataset within the prompt budget configured for the route
+  const summarize = (route: string, dataset: ParsedDataset) =>
+    dataset.summarize({
+      tokenBudget: llm.settingsFor(route).datasetTokenBudget,
+    });
+
+  // Checks chart specs sent by the client against the dataset's columns
+  const parseChartSpecs = (dataset: ParsedDataset, charts: unknown) => {
+    const issues: string[] = [];
+    const specs = schema
+      .array(chartSpecSchema(dataset.summarize().columns), {
+        minItems: 1,
+      })
+      .validate(charts, "$.charts", issues);
+    return specs === undefined ? { issues } : { specs };
+  };
+
+  // Draws chart specs with the native renderer. A chart it can't draw as a
+  // PNG is handed to the Python sandbox instead; SVGs are only drawn natively.
+  const drawCharts = async (
+    dataset: ParsedDataset,
+    specs: ChartSpec[],
+    {
+      format = "png",
+      signal,
+      onChart,
+    }: {
+      format?: ChartImageFormat;
+      signal?: AbortSignal;
+      onChart?: (image: string, index: number, total: number) => void;
+    } = {},
+  ) => {
+    const started = Date.now();
     try {
-      const { csvData, customGraphs } = req.body;
-      if (!csvData) {
-        return res.status(400).json({ error: "csvData is required" });
+      const chartImages = renderCharts(dataset.table, specs, {
+        format,
+        onChart,
+      });
+      return {
+        chartImages,
+        renderer: "native" as const,
+        timings: { queuedMs: 0, runMs: Date.now() - started },
+      };
+    } catch (e) {
+      if (format === "svg") {
+        throw e;
       }
+      const { chartImages, timings } = await sandbox.run(
+        dataset.csvData,
+        chartSpecsToPython(specs),
+        { signal, onChart },
+      );
+      return { chartImages, renderer: "python" as const, timings };
+    }
+  };
+
+  // Runs a dataset store operation, responding with what it returns or why
+  // it failed
+  const sendDataset = (
+    res: express.Response,
+    error: string,
+    operation: () => unknown,
+    successStatus = 200,
+  ) => {
+    try {
+      res.status(successStatus).json(operation());
+    } catch (e) {
+      sendError(res, error, e);
+    }
+  };
+
+  // POST /api/data-to-infographic/datasets
+  // Starts a dataset upload. The CSV is sent in chunks to the returned
+  // `datasetId`, then completed; other routes can then be sent the
+  // `datasetId` instead of `csvData`.
+  router.post("/datasets", (req, res) => {
+    const { name } = req.body ?? {};
+    if (name != null && typeof name !== "string") {
+      return res.status(400).json({ error: "name must be a string" });
+    }
+    sendDataset(
+      res,
+      "Failed to create the dataset",
+      () => describeDataset(datasets.create(name || undefined)),
+      201,
+    );
+  });
 
-      // Step 1: Use GPT-4o to analyze the CSV and suggest visualizations
-      const customGraphsInstruction = customGraphs && customGraphs.trim() 
-        ? `The user specifically requested these types of graphs: "${customGraphs}". Generate AT LEAST 4 charts including these requested types. If less than 4 types are specified, add appropriate additional chart types to reach exactly 4 charts.`
-        : "Generate EXACTLY 4 diverse chart types that make sense for this specific data.";
-
-      const analysisPrompt = `You are a data analyst. Analyze this CSV data and provide insights STRICTLY based on what you see in the data.
-
-CSV Data:
-${csvData}
-
-${customGraphsInstruction}
+  // PUT /api/data-to-infographic/datasets/:datasetId/chunks/:index
+  // Stores one chunk of the CSV text. Chunks are numbered from 0 and can be
+  // sent in any order; resending one replaces it.
+  router.put("/datasets/:datasetId/chunks/:index", (req, res) => {
+    const { data } = req.body ?? {};
+    if (typeof data !== "string") {
+      return res.status(400).json({ error: "data is required" });
+    }
+    sendDataset(res, "Failed to store the chunk", () =>
+      describeDataset(
+        datasets.addChunk(req.params.datasetId, Number(req.params.index), data),
+      ),
+    );
+  });
 
-Analyze the actual columns, values, and patterns in this specific dataset. Do NOT make assumptions beyond what's visible.
+  // POST /api/data-to-infographic/datasets/:datasetId/complete
+  // Parses the uploaded chunks, once all `chunkCount` of them have arrived.
+  router.post("/datasets/:datasetId/complete", (req, res) => {
+    const { chunkCount } = req.body ?? {};
+    sendDataset(res, "Failed to complete the upload", () =>
+      describeDataset(
+        datasets.complete(req.params.datasetId, Number(chunkCount)),
+      ),
+    );
+  });
 
-Return ONLY a JSON object with these exact keys:
-{
-  "data_summary": "Brief overview of the dataset (what it contains, time period, key metrics)",
-  "insights": ["insight1 based on actual data", "insight2 based on actual data", "insight3 based on actual data", "insight4 based on actual data"],
-  "suggested_charts": ["chart_type1", "chart_type2", "chart_type3", "chart_type4"],
-  "python_code": "CLEAN_PYTHON_CODE_HERE"
-}
+  // GET /api/data-to-infographic/datasets/:datasetId
+  router.get("/datasets/:datasetId", (req, res) => {
+    sendDataset(res, "Failed to read the dataset", () =>
+      describeDataset(datasets.info(req.params.datasetId)),
+    );
+  });
 
-Requirements:
-- data_summary: 2-3 sentences describing what the dataset actually contains
-- insights: 4 specific observations based on actual values/patterns in the CSV
-- suggested_charts: 4 different chart types that make sense for this specific data
-- python_code: Generate EXACTLY 4 charts, each with descriptive titles based on actual column names
-
-For python_code:
-- Write ONLY executable Python code (no markdown, no comments)
-- MUST import and use seaborn: import seaborn as sns
-- Use pandas, matplotlib, and SEABORN for ALL visualizations
-- Start with: sns.set_style('whitegrid') and sns.set_palette('husl')
-- Assume data is already loaded as 'data' variable
-- Create EXACTLY 4 different charts using plt.figure() for each
-- Use actual column names from the CSV
-- Add descriptive titles based on the real data
-- Use Seaborn charts: sns.barplot, sns.lineplot, sns.scatterplot, sns.boxplot, sns.heatmap, etc.
-- Generate diverse chart types that suit this specific dataset
-- Make charts visually appealing with seaborn styling, proper colors, labels, and formatting
-- IMPORTANT: For heatmaps/correlation, only use numeric columns: numeric_data = data.select_dtypes(include=[np.number])
-- Handle mixed data types properly - check if columns are numeric before correlation
-- Do NOT include data loading code or plt.show()
-
-Return ONLY the JSON, nothing else.`;
-
-      const gptResponse = await callOpenAI(analysisPrompt, "gpt-4o");
-      let data_summary = "", insights: string[] = [], suggested_charts: string[] = [], python_code = "";
-      
-      // Clean the response to extract JSON
-      let cleanResponse = gptResponse.trim();
-      // Remove markdown code blocks if present
-      cleanResponse = cleanResponse.replace(/```json\s*/g, '').replace(/```\s*/g, '');
-      // Extract JSON if wrapped in other text
-      const jsonMatch = cleanResponse.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        cleanResponse = jsonMatch[0];
-      }
-      
-      try {
-        const parsed = JSON.parse(cleanResponse);
-        data_summary = parsed.data_summary || "Dataset analysis completed";
-        insights = parsed.insights || [];
-        suggested_charts = parsed.suggested_charts || [];
-        python_code = parsed.python_code || "";
-        
-        // Clean the Python code of any remaining formatting
-        if (python_code) {
-          python_code = python_code.replace(/```python\s*/g, '').replace(/```\s*/g, '').trim();
-        }
-      } catch (e) {
-        console.error('Failed to parse GPT response:', cleanResponse);
-        // fallback: return basic response
-        data_summary = "Dataset analysis completed";
-        insights = ["Data analysis completed"];
-        suggested_charts = ["bar"];
-        python_code = "# Basic visualization\nplt.figure(figsize=(10,6))\ndata.plot(kind='bar')\nplt.title('Data Overview')";
-      }
+  // GET /api/data-to-infographic/datasets/:datasetId/profile
+  // The type, missing values, distinct values, statistics, histogram and most
+  // frequent values of each column, the dataset's warnings, and charts
+  // suggested from them.
+  router.get("/datasets/:datasetId/profile", (req, res) => {
+    sendDataset(res, "Failed to profile the dataset", () => {
+      const profile = datasets.get(req.params.datasetId).profile();
+      return {
+        datasetId: req.params.datasetId,
+        ...profile,
+        suggestedCharts: suggestCharts(profile),
+      };
+    });
+  });
 
-      res.json({ data_summary, insights, suggested_charts, python_code });
-    } catch (e: any) {
-      console.error("Error in /analyze-csv:", e);
-      res.status(500).json({ error: "Failed to analyze CSV", details: e.message });
-    }
+  // DELETE /api/data-to-infographic/datasets/:datasetId
+  router.delete("/datasets/:datasetId", (req, res) => {
+    sendDataset(res, "Failed to delete the dataset", () => {
+      datasets.delete(req.params.datasetId);
+      return { datasetId: req.params.datasetId, deleted: true };
+    });
   });
 
-  // NEW FEATURE: Natural Language to Chart
-  router.post("/natural-language-chart", async (req, res) => {
+  // POST /api/data-to-infographic/analyze-csv
+  router.post("/analyze-csv", async (req, res) => {
     try {
-      const { csvData, query } = req.body;
-      if (!csvData || !query) {
-        return res.status(400).json({ error: "csvData and query are required" });
+      const { customGraphs } = req.body;
+      const dataset = requireDataset(req, res);
+      if (!dataset) {
+        return;
       }
 
-      const nlPrompt = `You are a data visualization expert. Parse this natural language query and generate appropriate chart code.
+      const profile = summarize("analyze-csv", dataset);
+      const result = await llm.completeStructured(
+        "analyze-csv",
+        buildAnalysisPrompt(profile.text, customGraphs),
+        analyzeCsvResponseSchema(profile.columns),
+      );
 
-CSV Data:
-${csvData}
+      res.json(result);
+    } catch (e) {
+      sendError(res, "Failed to analyze CSV", e);
+    }
+  });
 
-User Query: "${query}"
+  // POST /api/data-to-infographic/analyze-csv/stream
+  // Streams progress, the summary text as it is written, the final analysis
+  // and, when `renderCharts` is set, each chart as soon as it is drawn.
+  router.post("/analyze-csv/stream", async (req, res) => {
+    const { customGraphs, renderCharts } = req.body;
+    const dataset = requireDataset(req, res);
+    if (!dataset) {
+      return;
+    }
 
-Analyze the query to:
-1. Identify what columns/data the user wants to visualize
-2. Determine the best chart type for their request
-3. Extract time periods, groupings, filters mentioned
-4. Generate appropriate Python code
+    const stream = openEventStream(res);
+    const progress = (update: StreamProgress) =>
+      stream.send("progress", update);
+    let stage = "analyze";
 
-Return ONLY a JSON object:
-{
-  "interpretation": "What the user is asking for",
-  "chart_type": "best chart type for this query",
-  "columns_used": ["column1", "column2"],
-  "python_code": "CLEAN_PYTHON_CODE_HERE"
-}
+    try {
+      progress({ stage: "profiling", message: "Profiling the dataset" });
+      const profile = summarize("analyze-csv", dataset);
 
-For python_code:
-- Write executable Python code using pandas, matplotlib, seaborn
-- MUST import and use: import seaborn as sns
-- Start with: sns.set_style('whitegrid') and sns.set_palette('husl')
-- Assume data is loaded as 'data' variable
-- Create ONE chart using seaborn functions (sns.barplot, sns.lineplot, etc.)
-- Use descriptive title based on the query
-- Include proper labels, colors, and seaborn styling
-- Handle common data transformations (grouping, filtering, etc.)
-- No markdown, no comments, no data loading code
-
-Return ONLY the JSON, nothing else.`;
-
-      const gptResponse = await callOpenAI(nlPrompt, "gpt-4o");
-      let interpretation = "", chart_type = "", columns_used: string[] = [], python_code = "";
-
-      let cleanResponse = gptResponse.trim();
-      cleanResponse = cleanResponse.replace(/```json\s*/g, '').replace(/```\s*/g, '');
-      const jsonMatch = cleanResponse.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        cleanResponse = jsonMatch[0];
+      progress({
+        stage: "analyzing",
+        message: `Analyzing ${profile.rowCount} rows and ${profile.columns.length} columns`,
+      });
+      const summary = streamReplyField(stream, "data_summary");
+      let designingCharts = false;
+      const result = await llm.completeStructured(
+        "analyze-csv",
+        buildAnalysisPrompt(profile.text, customGraphs),
+        analyzeCsvResponseSchema(profile.columns),
+        {
+          signal: stream.signal,
+          onRepair: summary.onRepair,
+          onToken(token) {
+            summary.onToken(token);
+            if (!designingCharts && summary.reply().includes('"charts"')) {
+              designingCharts = true;
+              progress({ stage: "designing charts", message: "Designing charts" });
+            }
+          },
+        },
+      );
+
+      stream.send("result", result);
+
+      if (renderCharts) {
+        stage = "render";
+        progress({ stage: "rendering", message: "Rendering charts" });
+        await drawCharts(dataset, result.charts, {
+          signal: stream.signal,
+          onChart: streamCharts(stream),
+        });
       }
-
-      try {
-        const parsed = JSON.parse(cleanResponse);
-        interpretation = parsed.interpretation || "Query processed";
-        chart_type = parsed.chart_type || "bar";
-        columns_used = parsed.columns_used || [];
-        python_code = parsed.python_code || "";
-        
-        if (python_code) {
-          python_code = python_code.replace(/```python\s*/g, '').replace(/```\s*/g, '').trim();
-        }
-      } catch (e) {
-        console.error('Failed to parse NL response:', cleanResponse);
-        interpretation = "Query processed";
-        chart_type = "bar";
-        columns_used = [];
-        python_code = "plt.figure(figsize=(10,6))\ndata.plot(kind='bar')\nplt.title('Data Visualization')";
+    } catch (e) {
+      if (!stream.signal.aborted) {
+        streamError(
+          stream,
+          stage === "render" ? "Failed to render charts" : "Failed to analyze CSV",
+          e,
+        );
       }
-
-      res.json({ interpretation, chart_type, columns_used, python_code });
-    } catch (e: any) {
-      console.error("Error in /natural-language-chart:", e);
-      res.status(500).json({ error: "Failed to process natural language query", details: e.message });
+    } finally {
+      stream.close();
     }
   });
 
-  // NEW FEATURE: Formula Builder
-  router.post("/apply-formula", async (req, res) => {
+  // NEW FEATURE: Natural Language to Chart
+  router.post("/natural-language-chart", async (req, res) => {
     try {
-      const { csvData, formula, newColumnName } = req.body;
-      if (!csvData || !formula) {
-        return res.status(400).json({ error: "csvData and formula are required" });
+      const { query } = req.body;
+      if (!query) {
+        return res.status(400).json({ error: "query is required" });
+      }
+      const dataset = requireDataset(req, res);
+      if (!dataset) {
+        return;
       }
 
-      const formulaPrompt = `You are a spreadsheet expert. Convert this user formula into executable pandas code.
-
-CSV Data:
-${csvData}
+      const profile = summarize("natural-language-chart", dataset);
+      const result = await llm.completeStructured(
+        "natural-language-chart",
+        buildNaturalLanguageChartPrompt(profile.text, query),
+        naturalLanguageChartResponseSchema(profile.columns),
+      );
 
-User Formula: "${formula}"
-New Column Name: "${newColumnName || 'Calculated'}"
+      res.json(result);
+    } catch (e) {
+      sendError(res, "Failed to process natural language query", e);
+    }
+  });
 
-Convert the formula into pandas code that:
-1. Creates a new column with the calculated values
-2. Handles common spreadsheet functions (SUM, AVERAGE, IF, etc.)
-3. References columns properly
-4. Includes error handling for division by zero, missing values
+  // NEW FEATURE: Formula Builder
+  // Computes a column from a formula (see utils/formula) for every row, and
+  // returns the dataset with the column added. Rows the formula fails for get
+  // an error code such as #DIV/0!, as in spreadsheets.
+  router.post("/apply-formula", (req, res) => {
+    const { formula, newColumnName = "Calculated" } = req.body;
+    if (typeof formula !== "string" || !formula.trim()) {
+      return res.status(400).json({ error: "formula is required" });
+    }
+    if (typeof newColumnName !== "string" || !newColumnName.trim()) {
+      return res.status(400).json({ error: "newColumnName must not be empty" });
+    }
+    const dataset = requireDataset(req, res);
+    if (!dataset) {
+      return;
+    }
 
-Return ONLY a JSON object:
-{
-  "formula_interpretation": "What the formula does",
-  "suggested_column_name": "appropriate column name",
-  "python_code": "CLEAN_PYTHON_CODE_HERE",
-  "sample_calculation": "example of the calculation"
-}
+    const { table } = dataset;
+    const columnName = newColumnName.trim();
+    if (table.header.includes(columnName)) {
+      return res.status(400).json({
+        error: "Invalid column name",
+        details: `The dataset already has a column named "${columnName}"`,
+      });
+    }
 
-For python_code:
-- Write executable Python code using pandas
-- Assume data is loaded as 'data' variable
-- Create the new calculated column
-- Handle edge cases (NaN, division by zero, etc.)
-- Use proper pandas syntax for column operations
-- No markdown, no comments
-
-Common formula patterns:
-- Basic math: (A - B) / A * 100 for percentages
-- Conditionals: IF(condition, value_if_true, value_if_false)
-- Aggregations: SUM(column), AVERAGE(column), etc.
-
-Return ONLY the JSON, nothing else.`;
-
-      const gptResponse = await callOpenAI(formulaPrompt, "gpt-4o");
-      let formula_interpretation = "", suggested_column_name = "", python_code = "", sample_calculation = "";
-
-      let cleanResponse = gptResponse.trim();
-      cleanResponse = cleanResponse.replace(/```json\s*/g, '').replace(/```\s*/g, '');
-      const jsonMatch = cleanResponse.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        cleanResponse = jsonMatch[0];
+    let compiled;
+    try {
+      compiled = compileFormula(formula, table.header);
+    } catch (e) {
+      if (e instanceof FormulaError) {
+        return res.status(400).json(describeInvalidFormula(formula, e));
       }
+      throw e;
+    }
 
-      try {
-        const parsed = JSON.parse(cleanResponse);
-        formula_interpretation = parsed.formula_interpretation || "Formula applied";
-        suggested_column_name = parsed.suggested_column_name || newColumnName || "Calculated";
-        python_code = parsed.python_code || "";
-        sample_calculation = parsed.sample_calculation || "Calculation completed";
-        
-        if (python_code) {
-          python_code = python_code.replace(/```python\s*/g, '').replace(/```\s*/g, '').trim();
-        }
-      } catch (e) {
-        console.error('Failed to parse formula response:', cleanResponse);
-        formula_interpretation = "Formula applied";
-        suggested_column_name = newColumnName || "Calculated";
-        python_code = `data['${suggested_column_name}'] = 0  # Formula parsing failed`;
-        sample_calculation = "Calculation completed";
+    const values = evaluateFormula(compiled, table);
+    const cells = values.map(formatFormulaValue);
+    const errors = values.flatMap((value, row) =>
+      value instanceof CellError
+        ? [
+            {
+              row: row + 1,
+              code: value.code,
+              message: value.message,
+              start: value.start,
+              end: value.end,
+            },
+          ]
+        : [],
+    );
+    const previewColumns = [...compiled.columns, columnName];
+
+    res.json({
+      columnName,
+      columns: compiled.columns,
+      csvData: [
+        formatCsvRow([...table.header, columnName]),
+        ...table.rows.map((row, i) => formatCsvRow([...row, cells[i]])),
+      ].join("\n"),
+      rowCount: table.rows.length,
+      preview: {
+        columns: previewColumns,
+        rows: table.rows.slice(0, FORMULA_PREVIEW_ROWS).map((row, i) => [
+          ...compiled.columns.map(
+            (column) => row[table.header.indexOf(column)],
+          ),
+          cells[i],
+        ]),
+      },
+      errorCount: errors.length,
+      errors: errors.slice(0, FORMULA_ERROR_ROWS),
+    });
+  });
+
+  // Translates a column described in plain English into a formula. The
+  // model only writes the formula, which must compile against the dataset's
+  // columns; /apply-formula computes it.
+  router.post("/translate-formula", async (req, res) => {
+    try {
+      const { description, columnName } = req.body;
+      if (!description) {
+        return res.status(400).json({ error: "description is required" });
+      }
+      const dataset = requireDataset(req, res);
+      if (!dataset) {
+        return;
       }
 
-      res.json({ formula_interpretation, suggested_column_name, python_code, sample_calculation });
-    } catch (e: any) {
-      console.error("Error in /apply-formula:", e);
-      res.status(500).json({ error: "Failed to apply formula", details: e.message });
+      const { formula, column_name, explanation } = await llm.completeStructured(
+        "translate-formula",
+        buildFormulaTranslationPrompt(
+          summarize("translate-formula", dataset).text,
+          description,
+          columnName,
+        ),
+        translateFormulaResponseSchema(dataset.table.header),
+      );
+
+      res.json({ formula, columnName: column_name, explanation });
+    } catch (e) {
+      sendError(res, "Failed to translate the formula", e);
     }
   });
 
   // NEW FEATURE: Live Data Sync - Setup
+  // Reads the range once straight away, then every `refreshInterval` ms.
   router.post("/setup-live-sync", async (req, res) => {
-    try {
-      const { sheetId, range, refreshInterval } = req.body;
-      if (!sheetId || !range) {
-        return res.status(400).json({ error: "sheetId and range are required" });
-      }
-
-      const syncId = `sync_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const config = {
-        sheetId,
-        range,
-        refreshInterval: refreshInterval || 3600000, // Default 1 hour
-        lastSync: new Date(),
-      };
-
-      liveSyncConfigs.set(syncId, config);
+    const { sheetId, range, refreshInterval } = req.body;
+    if (typeof sheetId !== "string" || !sheetId) {
+      return res.status(400).json({ error: "sheetId is required" });
+    }
+    if (range !== undefined && typeof range !== "string") {
+      return res.status(400).json({ error: "range must be a string" });
+    }
+    if (refreshInterval !== undefined && typeof refreshInterval !== "number") {
+      return res
+        .status(400)
+        .json({ error: "refreshInterval must be a number" });
+    }
 
-      res.json({ 
-        syncId,
+    try {
+      const sync = await liveSync.create({ sheetId, range, refreshInterval });
+      res.json({
+        syncId: sync.id,
         message: "Live sync configured successfully",
         config: {
-          sheetId,
-          range,
-          refreshInterval: config.refreshInterval,
-          nextSync: new Date(Date.now() + config.refreshInterval)
-        }
+          sheetId: sync.sheetId,
+          range: sync.range,
+          refreshInterval: sync.refreshInterval,
+          nextSync: sync.nextSync,
+        },
+        lastSync: sync.lastSync,
+        rowCount: sync.rowCount,
       });
-    } catch (e: any) {
-      console.error("Error in /setup-live-sync:", e);
-      res.status(500).json({ error: "Failed to setup live sync", details: e.message });
+    } catch (e) {
+      sendError(res, "Failed to setup live sync", e);
     }
   });
 
   // NEW FEATURE: Live Data Sync - Fetch Data
+  // `sheetId` is a spreadsheet ID or link. `range` is in A1 notation, e.g.
+  // `Sales!A1:F`, and defaults to the whole first tab; pass `ranges` instead
+  // to read several ranges, e.g. one per tab.
   router.post("/fetch-sheet-data", async (req, res) => {
+    const { sheetId, range, ranges, syncId } = req.body;
+    if (typeof sheetId !== "string" || !sheetId) {
+      return res.status(400).json({ error: "sheetId is required" });
+    }
+    if (range !== undefined && typeof range !== "string") {
+      return res.status(400).json({ error: "range must be a string" });
+    }
+    if (
+      ranges !== undefined &&
+      (!Array.isArray(ranges) ||
+        ranges.length === 0 ||
+        !ranges.every((item) => typeof item === "string"))
+    ) {
+      return res
+        .status(400)
+        .json({ error: "ranges must be a non-empty array of strings" });
+    }
+
     try {
-      const { sheetId, range, syncId } = req.body;
-      if (!sheetId || !range) {
-        return res.status(400).json({ error: "sheetId and range are required" });
+      const tables = await sheets.readRanges(
+        sheetId,
+        ranges ?? (range ? [range] : []),
+      );
+      const lastSync = new Date();
+
+      // Fetching a synced range counts as a run of that sync
+      if (typeof syncId === "string" && !ranges) {
+        const sync = (await liveSync.list()).find((item) => item.id === syncId);
+        if (
+          sync &&
+          sync.sheetId === parseSpreadsheetId(sheetId) &&
+          (sync.range ?? "") === (range ?? "")
+        ) {
+          await liveSync.recordRead(syncId, tables[0]);
+        }
       }
 
-      // Mock Google Sheets API call - In production, you'd use actual Google Sheets API
-      // For now, return sample data structure
-      const mockSheetData = {
-        values: [
-          ["Date", "Sales", "Region", "Product"],
-          ["2024-01-01", "1000", "North", "Widget A"],
-          ["2024-01-02", "1200", "South", "Widget B"],
-          ["2024-01-03", "800", "East", "Widget A"],
-          ["2024-01-04", "1500", "West", "Widget C"]
-        ]
-      };
-
-      // Convert to CSV format
-      const csvData = mockSheetData.values.map(row => row.join(",")).join("\n");
-
-      // Update sync config if syncId provided
-      if (syncId && liveSyncConfigs.has(syncId)) {
-        const config = liveSyncConfigs.get(syncId)!;
-        config.lastSync = new Date();
-        liveSyncConfigs.set(syncId, config);
+      if (ranges) {
+        res.json({
+          sheets: tables.map((table) => describeSheetTable(sheetId, table)),
+          lastSync,
+        });
+      } else {
+        res.json({ ...describeSheetTable(sheetId, tables[0]), lastSync });
       }
+    } catch (e) {
+      sendError(res, "Failed to fetch sheet data", e);
+    }
+  });
 
-      res.json({ 
-        csvData,
-        lastSync: new Date(),
-        rowCount: mockSheetData.values.length - 1, // Exclude header
-        sheetInfo: {
-          sheetId,
-          range,
-          columns: mockSheetData.values[0]
-        }
-      });
-    } catch (e: any) {
-      console.error("Error in /fetch-sheet-data:", e);
-      res.status(500).json({ error: "Failed to fetch sheet data", details: e.message });
+  // GET /api/data-to-infographic/sheets/:sheetId
+  // The title and tabs of a spreadsheet, so the panel can offer a tab to read.
+  router.get("/sheets/:sheetId", async (req, res) => {
+    try {
+      res.json(await sheets.getSpreadsheet(req.params.sheetId));
+    } catch (e) {
+      sendError(res, "Failed to read spreadsheet", e);
     }
   });
 
   // NEW FEATURE: Live Data Sync - Status
+  // Includes the sync's recent runs, newest first, with what changed in each.
   router.get("/sync-status/:syncId", async (req, res) => {
     try {
-      const { syncId } = req.params;
-      const config = liveSyncConfigs.get(syncId);
-      
-      if (!config) {
-        return res.status(404).json({ error: "Sync configuration not found" });
+      res.json(describeLiveSync(await liveSync.get(req.params.syncId)));
+    } catch (e) {
+      sendError(res, "Failed to get sync status", e);
+    }
+  });
+
+  // GET /api/data-to-infographic/live-syncs
+  router.get("/live-syncs", async (req, res) => {
+    try {
+      res.json({ syncs: (await liveSync.list()).map(describeLiveSync) });
+    } catch (e) {
+      sendError(res, "Failed to list live syncs", e);
+    }
+  });
+
+  // GET /api/data-to-infographic/live-sync/events?syncIds=a,b
+  // A stream of what happens to the listed syncs, or to every sync when none
+  // are listed: `ready` with their status, then `run` after each read, `status`
+  // when one is paused or resumed and `deleted` when one is deleted.
+  router.get("/live-sync/events", async (req, res) => {
+    const { syncIds } = req.query;
+    if (syncIds !== undefined && typeof syncIds !== "string") {
+      return res
+        .status(400)
+        .json({ error: "syncIds must be a comma-separated list" });
+    }
+    const ids = syncIds?.split(",").filter(Boolean);
+
+    let syncs: LiveSync[];
+    try {
+      syncs = ids
+        ? await Promise.all(ids.map((id) => liveSync.get(id)))
+        : await liveSync.list();
+    } catch (e) {
+      return sendError(res, "Failed to watch live syncs", e);
+    }
+
+    const stream = openEventStream(res);
+    const watched = (syncId: string) => !ids || ids.includes(syncId);
+    const unsubscribe = liveSync.subscribe((event) => {
+      switch (event.type) {
+        case "run":
+          if (watched(event.sync.id)) {
+            stream.send("run", {
+              sync: describeLiveSync(event.sync),
+              run: event.run,
+            });
+          }
+          break;
+        case "status":
+          if (watched(event.sync.id)) {
+            stream.send("status", { sync: describeLiveSync(event.sync) });
+          }
+          break;
+        case "deleted":
+          if (watched(event.syncId)) {
+            stream.send("deleted", { syncId: event.syncId });
+          }
+          break;
+        default:
+          break;
       }
+    });
+    const heartbeat = setInterval(
+      () => stream.comment("heartbeat"),
+      LIVE_SYNC_HEARTBEAT_MS,
+    );
+    stream.signal.addEventListener("abort", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+    stream.send("ready", { syncs: syncs.map(describeLiveSync) });
+  });
 
-      const nextSync = new Date(config.lastSync.getTime() + config.refreshInterval);
-      const status = {
-        syncId,
-        active: true,
-        lastSync: config.lastSync,
-        nextSync,
-        refreshInterval: config.refreshInterval,
-        sheetId: config.sheetId,
-        range: config.range
-      };
+  // POST /api/data-to-infographic/live-sync/:syncId/pause
+  router.post("/live-sync/:syncId/pause", async (req, res) => {
+    try {
+      res.json(describeLiveSync(await liveSync.pause(req.params.syncId)));
+    } catch (e) {
+      sendError(res, "Failed to pause live sync", e);
+    }
+  });
+
+  // POST /api/data-to-infographic/live-sync/:syncId/resume
+  // Takes an optional new `refreshInterval`.
+  router.post("/live-sync/:syncId/resume", async (req, res) => {
+    const { refreshInterval } = req.body ?? {};
+    if (refreshInterval !== undefined && typeof refreshInterval !== "number") {
+      return res
+        .status(400)
+        .json({ error: "refreshInterval must be a number" });
+    }
+    try {
+      const sync = await liveSync.resume(req.params.syncId, refreshInterval);
+      res.json(describeLiveSync(sync));
+    } catch (e) {
+      sendError(res, "Failed to resume live sync", e);
+    }
+  });
 
-      res.json(status);
-    } catch (e: any) {
-      console.error("Error in /sync-status:", e);
-      res.status(500).json({ error: "Failed to get sync status", details: e.message });
+  // DELETE /api/data-to-infographic/live-sync/:syncId
+  router.delete("/live-sync/:syncId", async (req, res) => {
+    try {
+      await liveSync.delete(req.params.syncId);
+      res.json({ syncId: req.params.syncId, deleted: true });
+    } catch (e) {
+      sendError(res, "Failed to delete live sync", e);
     }
   });
 
   // NEW FEATURE: Chat Orchestrator - AI-powered intent recognition
   router.post("/chat-orchestrator", async (req, res) => {
     try {
-      const { message, csvData, hasData } = req.body;
+      const { message, hasData } = req.body;
       if (!message) {
         return res.status(400).json({ error: "message is required" });
       }
 
-      const orchestratorPrompt = `You are an AI assistant that helps users with data visualization. Analyze the user's message and determine what they want to do.
+      const result = await llm.completeStructured(
+        "chat-orchestrator",
+        buildOrchestratorPrompt(message, hasData),
+        chatOrchestratorResponseSchema,
+      );
 
-User message: "${message}"
-Has data uploaded: ${hasData ? 'Yes' : 'No'}
-
-Based on the message, determine the most appropriate action and respond with a JSON object:
+      res.json(result);
+    } catch (e) {
+      sendError(res, "Failed to process chat message", e);
+    }
+  });
 
-{
-  "action": "ACTION_TYPE",
-  "response": "Helpful response to the user",
-  "query": "extracted query for charts (if applicable)",
-  "formula": "extracted formula (if applicable)",
-  "columnName": "suggested column name (if applicable)"
-}
+  // POST /api/data-to-infographic/chat-orchestrator/stream
+  // Streams the assistant's response text as it is written, then the result.
+  router.post("/chat-orchestrator/stream", async (req, res) => {
+    const { message, hasData } = req.body;
+    if (!message) {
+      return res.status(400).json({ error: "message is required" });
+    }
 
-ACTION_TYPE options:
-- "natural_language_chart" - User wants to create a specific chart/visualization
-- "generate_predictions" - User wants forecasting or trend analysis
-- "detect_anomalies" - User wants to find unusual patterns or outliers
-- "generate_story" - User wants AI-generated data storytelling
-- "insight_recommendations" - User wants smart recommendations and insights
-- "general_analysis" - User wants general data analysis or insights
-- "help" - User needs help or guidance
-- "other" - General conversation or unclear intent
-
-Examples:
-- "show me sales by region" → natural_language_chart
-- "predict future trends" → generate_predictions
-- "find anomalies" → detect_anomalies
-- "tell me a story about this data" → generate_story
-- "what should I do with this data" → insight_recommendations
-- "analyze my data" → general_analysis
-
-For natural_language_chart: extract the specific visualization request
-For generate_predictions: identify forecasting needs and time horizons
-For detect_anomalies: understand what patterns to look for
-For generate_story: determine the narrative style and focus
-For insight_recommendations: identify business context and goals
-For other actions: provide helpful guidance
-
-Return ONLY the JSON object, nothing else.`;
-
-      const gptResponse = await callOpenAI(orchestratorPrompt, "gpt-4o");
-      
-      let cleanResponse = gptResponse.trim();
-      cleanResponse = cleanResponse.replace(/```json\s*/g, '').replace(/```\s*/g, '');
-      const jsonMatch = cleanResponse.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        cleanResponse = jsonMatch[0];
+    const stream = openEventStream(res);
+    try {
+      stream.send("progress", {
+        stage: "interpreting",
+        message: "Reading your message",
+      } satisfies StreamProgress);
+
+      const response = streamReplyField(stream, "response");
+      const result = await llm.completeStructured(
+        "chat-orchestrator",
+        buildOrchestratorPrompt(message, hasData),
+        chatOrchestratorResponseSchema,
+        {
+          signal: stream.signal,
+          onToken: response.onToken,
+          onRepair: response.onRepair,
+        },
+      );
+
+      stream.send("result", result);
+    } catch (e) {
+      if (!stream.signal.aborted) {
+        streamError(stream, "Failed to process chat message", e);
       }
+    } finally {
+      stream.close();
+    }
+  });
 
-      try {
-        const parsed = JSON.parse(cleanResponse);
-        res.json({
-          action: parsed.action || 'other',
-          response: parsed.response || 'I can help you with data visualization. What would you like to create?',
-          query: parsed.query || '',
-          formula: parsed.formula || '',
-          columnName: parsed.columnName || ''
-        });
-      } catch (e) {
-        console.error('Failed to parse orchestrator response:', cleanResponse);
-        res.json({
-          action: 'help',
-          response: 'I can help you create charts, apply formulas, or analyze your data. What would you like to do?',
-          query: '',
-          formula: '',
-          columnName: ''
-        });
+  // Measures and tests the relationships between columns, and has the model
+  // explain them
+  router.post("/analyze-correlations", async (req, res) => {
+    const error = "Failed to analyze correlations";
+    try {
+      const { method, correction, alpha, columns, maxRelationships } =
+        req.body;
+      const dataset = requireDataset(req, res);
+      if (!dataset) {
+        return;
       }
-    } catch (e: any) {
-      console.error("Error in /chat-orchestrator:", e);
-      res.status(500).json({ error: "Failed to process chat message", details: e.message });
+
+      const report = correlateDataset(
+        dataset.table,
+        { method, correction, alpha, columns, maxRelationships },
+        dataset.profile(),
+      );
+      const profile = summarize("analyze-correlations", dataset);
+      const narration = await llm.completeStructured(
+        "analyze-correlations",
+        buildCorrelationPrompt(profile.text, describeCorrelations(report)),
+        analyzeCorrelationsResponseSchema,
+      );
+      const charts = correlationCharts(report);
+
+      res.json({
+        ...narration,
+        ...report,
+        charts: charts.specs,
+        chartData: formatCsv(charts.table),
+      });
+    } catch (e) {
+      sendError(res, error, e);
     }
   });
 
   // NEW FEATURE: Predictive Analytics
+  // Forecasts a column with the best-backtesting model, then has the model
+  // narrate the computed numbers. The confidence is the backtest accuracy,
+  // and the chart is drawn from `chartData`, not the dataset.
   router.post("/generate-predictions", async (req, res) => {
+    const error = "Failed to generate predictions";
     try {
-      const { csvData, targetColumn, forecastPeriods } = req.body;
-      if (!csvData) {
-        return res.status(400).json({ error: "csvData is required" });
-      }
-
-      const predictionPrompt = `You are a predictive analytics expert. Analyze this time-series data and generate forecasts.
-
-CSV Data:
-${csvData}
-
-Target Column: ${targetColumn || 'auto-detect best column'}
-Forecast Periods: ${forecastPeriods || 12}
-
-Generate predictions using advanced time-series analysis. Return ONLY a JSON object:
-
-{
-  "forecast_summary": "Brief overview of the prediction analysis",
-  "predictions": ["prediction1", "prediction2", "prediction3"],
-  "confidence": "confidence percentage (70-95)",
-  "trend_analysis": "overall trend direction and strength",
-  "python_code": "CLEAN_PYTHON_CODE_HERE"
-}
-
-For python_code:
-- Use pandas, matplotlib, seaborn, numpy, scipy
-- MUST import: import seaborn as sns
-- Start with: sns.set_style('whitegrid') and sns.set_palette('husl')
-- Auto-detect time columns and numeric columns for forecasting
-- Use statistical methods: linear regression, moving averages, exponential smoothing
-- Create 2-3 prediction charts: trend analysis, forecast visualization, confidence intervals
-- Handle missing data and irregular time series
-- Include actual vs predicted comparisons
-- Add proper titles, labels, and legends
-- No markdown, no comments
-
-Return ONLY the JSON, nothing else.`;
-
-      const gptResponse = await callOpenAI(predictionPrompt, "gpt-4o");
-      let forecast_summary = "", predictions: string[] = [], confidence = "", trend_analysis = "", python_code = "";
-
-      let cleanResponse = gptResponse.trim();
-      cleanResponse = cleanResponse.replace(/```json\s*/g, '').replace(/```\s*/g, '');
-      const jsonMatch = cleanResponse.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        cleanResponse = jsonMatch[0];
-      }
-
-      try {
-        const parsed = JSON.parse(cleanResponse);
-        forecast_summary = parsed.forecast_summary || "Predictive analysis completed";
-        predictions = parsed.predictions || ["Trend analysis generated"];
-        confidence = parsed.confidence || "85";
-        trend_analysis = parsed.trend_analysis || "Trend analysis completed";
-        python_code = parsed.python_code || "";
-        
-        if (python_code) {
-          python_code = python_code.replace(/```python\s*/g, '').replace(/```\s*/g, '').trim();
-        }
-      } catch (e) {
-        console.error('Failed to parse prediction response:', cleanResponse);
-        forecast_summary = "Predictive analysis completed";
-        predictions = ["Trend analysis generated"];
-        confidence = "85";
-        trend_analysis = "Upward trend detected";
-        python_code = "plt.figure(figsize=(12,8))\ndata.plot()\nplt.title('Trend Analysis')\nplt.xlabel('Time')\nplt.ylabel('Values')";
+      const {
+        targetColumn,
+        dateColumn,
+        forecastPeriods,
+        frequency,
+        aggregate,
+        model,
+        intervalLevel,
+      } = req.body;
+      const dataset = requireDataset(req, res);
+      if (!dataset) {
+        return;
       }
 
-      res.json({ forecast_summary, predictions, confidence, trend_analysis, python_code });
-    } catch (e: any) {
-      console.error("Error in /generate-predictions:", e);
-      res.status(500).json({ error: "Failed to generate predictions", details: e.message });
+      const forecast = forecastDataset(
+        dataset.table,
+        {
+          targetColumn,
+          dateColumn,
+          periods: forecastPeriods,
+          frequency,
+          aggregate,
+          model,
+          intervalLevel,
+        },
+        dataset.profile(),
+      );
+      const profile = summarize("generate-predictions", dataset);
+      const narration = await llm.completeStructured(
+        "generate-predictions",
+        buildPredictionPrompt(profile.text, describeForecast(forecast)),
+        generatePredictionsResponseSchema,
+      );
+      const chart = forecastChart(forecast);
+
+      res.json({
+        ...narration,
+        confidence: forecast.accuracy,
+        forecast,
+        charts: [chart.spec],
+        chartData: formatCsv(chart.table),
+      });
+    } catch (e) {
+      sendError(res, error, e);
     }
   });
 
   // NEW FEATURE: Anomaly Detection
+  // Finds unusual rows with the statistical methods asked for, then has the
+  // model narrate them. Every anomaly carries its method, score and
+  // threshold, and the charts are drawn from `chartData`, which flags them.
   router.post("/detect-anomalies", async (req, res) => {
+    const error = "Failed to detect anomalies";
     try {
-      const { csvData, sensitivity } = req.body;
-      if (!csvData) {
-        return res.status(400).json({ error: "csvData is required" });
-      }
-
-      const anomalyPrompt = `You are an anomaly detection expert. Analyze this data for unusual patterns and outliers.
-
-CSV Data:
-${csvData}
-
-Sensitivity: ${sensitivity || 'medium'}
-
-Detect anomalies using statistical methods and machine learning. Return ONLY a JSON object:
-
-{
-  "anomaly_summary": "Brief overview of anomalies found",
-  "anomalies": ["anomaly1 description", "anomaly2 description", "anomaly3 description"],
-  "risk_level": "Low/Medium/High",
-  "affected_records": "number or percentage of anomalous records",
-  "python_code": "CLEAN_PYTHON_CODE_HERE"
-}
-
-For python_code:
-- Use pandas, matplotlib, seaborn, numpy, scipy, sklearn
-- MUST import: import seaborn as sns
-- Start with: sns.set_style('whitegrid') and sns.set_palette('husl')
-- Use multiple anomaly detection methods: Z-score, IQR, Isolation Forest
-- Create 2-3 anomaly visualizations: box plots, scatter plots with outliers highlighted, distribution plots
-- Highlight anomalous points in different colors
-- Show normal vs anomalous data clearly
-- Include statistical thresholds and confidence intervals
-- Add proper titles and legends
-- No markdown, no comments
-
-Return ONLY the JSON, nothing else.`;
-
-      const gptResponse = await callOpenAI(anomalyPrompt, "gpt-4o");
-      let anomaly_summary = "", anomalies: string[] = [], risk_level = "", affected_records = "", python_code = "";
-
-      let cleanResponse = gptResponse.trim();
-      cleanResponse = cleanResponse.replace(/```json\s*/g, '').replace(/```\s*/g, '');
-      const jsonMatch = cleanResponse.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        cleanResponse = jsonMatch[0];
-      }
-
-      try {
-        const parsed = JSON.parse(cleanResponse);
-        anomaly_summary = parsed.anomaly_summary || "Anomaly detection completed";
-        anomalies = parsed.anomalies || ["Statistical outliers detected"];
-        risk_level = parsed.risk_level || "Medium";
-        affected_records = parsed.affected_records || "5%";
-        python_code = parsed.python_code || "";
-        
-        if (python_code) {
-          python_code = python_code.replace(/```python\s*/g, '').replace(/```\s*/g, '').trim();
-        }
-      } catch (e) {
-        console.error('Failed to parse anomaly response:', cleanResponse);
-        anomaly_summary = "Anomaly detection completed";
-        anomalies = ["Statistical outliers detected"];
-        risk_level = "Medium";
-        affected_records = "5%";
-        python_code = "plt.figure(figsize=(10,6))\ndata.boxplot()\nplt.title('Outlier Detection')\nplt.ylabel('Values')";
+      const { sensitivity, methods, columns, dateColumn } = req.body;
+      const dataset = requireDataset(req, res);
+      if (!dataset) {
+        return;
       }
 
-      res.json({ anomaly_summary, anomalies, risk_level, affected_records, python_code });
-    } catch (e: any) {
-      console.error("Error in /detect-anomalies:", e);
-      res.status(500).json({ error: "Failed to detect anomalies", details: e.message });
+      const report = findAnomalies(
+        dataset.table,
+        { sensitivity, methods, columns, dateColumn },
+        dataset.profile(),
+      );
+      const profile = summarize("detect-anomalies", dataset);
+      const narration = await llm.completeStructured(
+        "detect-anomalies",
+        buildAnomalyPrompt(
+          profile.text,
+          describeAnomalies(report, dataset.table),
+        ),
+        detectAnomaliesResponseSchema,
+      );
+      const charts = anomalyCharts(report, dataset.table);
+
+      res.json({
+        ...narration,
+        ...report,
+        charts: charts.specs,
+        chartData: formatCsv(charts.table),
+      });
+    } catch (e) {
+      sendError(res, error, e);
     }
   });
 
   // NEW FEATURE: AI Data Storytelling
   router.post("/generate-data-story", async (req, res) => {
     try {
-      const { csvData, storyType } = req.body;
-      if (!csvData) {
-        return res.status(400).json({ error: "csvData is required" });
+      const { storyType } = req.body;
+      const dataset = requireDataset(req, res);
+      if (!dataset) {
+        return;
       }
 
-      const storyPrompt = `You are a data storytelling expert. Create a compelling narrative from this data.
-
-CSV Data:
-${csvData}
-
-Story Type: ${storyType || 'business narrative'}
-
-Create an engaging data story with clear narrative structure. Return ONLY a JSON object:
-
-{
-  "narrative": "The main story told by the data (3-4 paragraphs)",
-  "plot_points": ["key insight 1", "key insight 2", "key insight 3", "conclusion"],
-  "theme": "The overarching theme or message",
-  "recommendations": "What actions the story suggests",
-  "python_code": "CLEAN_PYTHON_CODE_HERE"
-}
-
-For python_code:
-- Use pandas, matplotlib, seaborn
-- MUST import: import seaborn as sns
-- Start with: sns.set_style('whitegrid') and sns.set_palette('husl')
-- Create 2-3 story-supporting visualizations
-- Use narrative-driven chart titles that tell the story
-- Emphasize the key story elements with annotations
-- Create visually appealing charts that support the narrative
-- Use colors and styling that match the story mood
-- No markdown, no comments
-
-Return ONLY the JSON, nothing else.`;
-
-      const gptResponse = await callOpenAI(storyPrompt, "gpt-4o");
-      let narrative = "", plot_points: string[] = [], theme = "", recommendations = "", python_code = "";
-
-      let cleanResponse = gptResponse.trim();
-      cleanResponse = cleanResponse.replace(/```json\s*/g, '').replace(/```\s*/g, '');
-      const jsonMatch = cleanResponse.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        cleanResponse = jsonMatch[0];
-      }
-
-      try {
-        const parsed = JSON.parse(cleanResponse);
-        narrative = parsed.narrative || "This data tells an interesting story about patterns and trends.";
-        plot_points = parsed.plot_points || ["Data analysis completed"];
-        theme = parsed.theme || "Data-driven insights";
-        recommendations = parsed.recommendations || "Continue monitoring trends";
-        python_code = parsed.python_code || "";
-        
-        if (python_code) {
-          python_code = python_code.replace(/```python\s*/g, '').replace(/```\s*/g, '').trim();
-        }
-      } catch (e) {
-        console.error('Failed to parse story response:', cleanResponse);
-        narrative = "This data reveals interesting patterns worth exploring further.";
-        plot_points = ["Data shows clear trends", "Patterns emerge over time", "Insights suggest actions"];
-        theme = "Data-driven decision making";
-        recommendations = "Use these insights for strategic planning";
-        python_code = "plt.figure(figsize=(10,6))\ndata.plot()\nplt.title('The Data Story')\nplt.xlabel('Timeline')\nplt.ylabel('Values')";
-      }
+      const profile = summarize("generate-data-story", dataset);
+      const result = await llm.completeStructured(
+        "generate-data-story",
+        buildDataStoryPrompt(profile.text, storyType),
+        generateDataStoryResponseSchema(profile.columns),
+      );
 
-      res.json({ narrative, plot_points, theme, recommendations, python_code });
-    } catch (e: any) {
-      console.error("Error in /generate-data-story:", e);
-      res.status(500).json({ error: "Failed to generate data story", details: e.message });
+      res.json(result);
+    } catch (e) {
+      sendError(res, "Failed to generate data story", e);
     }
   });
 
   // NEW FEATURE: Smart Insight Recommendations
   router.post("/insight-recommendations", async (req, res) => {
     try {
-      const { csvData, businessContext } = req.body;
-      if (!csvData) {
-        return res.status(400).json({ error: "csvData is required" });
-      }
-
-      const insightPrompt = `You are a business intelligence expert. Analyze this data and provide actionable recommendations.
-
-CSV Data:
-${csvData}
-
-Business Context: ${businessContext || 'general business analysis'}
-
-Generate smart recommendations based on data patterns. Return ONLY a JSON object:
-
-{
-  "executive_summary": "High-level summary of key findings (2-3 sentences)",
-  "recommendations": ["actionable recommendation 1", "actionable recommendation 2", "actionable recommendation 3"],
-  "impact_assessment": "Potential business impact of implementing recommendations",
-  "priority_actions": ["immediate action 1", "immediate action 2"],
-  "kpi_suggestions": ["KPI to track 1", "KPI to track 2"]
-}
-
-Focus on:
-- Actionable business insights
-- ROI-focused recommendations
-- Data-driven decision making
-- Practical implementation steps
-- Measurable outcomes
-
-Return ONLY the JSON, nothing else.`;
-
-      const gptResponse = await callOpenAI(insightPrompt, "gpt-4o");
-      let executive_summary = "", recommendations: string[] = [], impact_assessment = "", priority_actions: string[] = [], kpi_suggestions: string[] = [];
-
-      let cleanResponse = gptResponse.trim();
-      cleanResponse = cleanResponse.replace(/```json\s*/g, '').replace(/```\s*/g, '');
-      const jsonMatch = cleanResponse.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        cleanResponse = jsonMatch[0];
-      }
-
-      try {
-        const parsed = JSON.parse(cleanResponse);
-        executive_summary = parsed.executive_summary || "Data analysis reveals opportunities for optimization.";
-        recommendations = parsed.recommendations || ["Monitor key metrics", "Implement data-driven processes"];
-        impact_assessment = parsed.impact_assessment || "Moderate positive impact expected";
-        priority_actions = parsed.priority_actions || ["Review current processes"];
-        kpi_suggestions = parsed.kpi_suggestions || ["Track performance metrics"];
-      } catch (e) {
-        console.error('Failed to parse insight response:', cleanResponse);
-        executive_summary = "Data analysis completed with actionable insights identified.";
-        recommendations = ["Implement data monitoring", "Optimize key processes", "Track performance metrics"];
-        impact_assessment = "Positive business impact through data-driven decisions";
-        priority_actions = ["Set up tracking", "Review processes"];
-        kpi_suggestions = ["Performance metrics", "Efficiency indicators"];
+      const { businessContext } = req.body;
+      const dataset = requireDataset(req, res);
+      if (!dataset) {
+        return;
       }
 
-      res.json({ executive_summary, recommendations, impact_assessment, priority_actions, kpi_suggestions });
-    } catch (e: any) {
-      console.error("Error in /insight-recommendations:", e);
-      res.status(500).json({ error: "Failed to generate recommendations", details: e.message });
+      const result = await llm.completeStructured(
+        "insight-recommendations",
+        buildInsightPrompt(
+          summarize("insight-recommendations", dataset).text,
+          businessContext,
+        ),
+        insightRecommendationsResponseSchema,
+      );
+
+      res.json(result);
+    } catch (e) {
+      sendError(res, "Failed to generate recommendations", e);
     }
   });
 
-  // POST /api/data-to-infographic/execute-python
-  router.post("/execute-python", async (req, res) => {
+  // POST /api/data-to-infographic/render-charts
+  // Draws chart specs, after checking them against the dataset's columns, as
+  // PNGs or, with `format: "svg"`, SVGs.
+  router.post("/render-charts", async (req, res) => {
     try {
-      const { csvData, pythonCode } = req.body;
-      if (!csvData || !pythonCode) {
-        return res.status(400).json({ error: "csvData and pythonCode are required" });
+      const { charts, format } = req.body;
+      if (!charts) {
+        return res.status(400).json({ error: "charts are required" });
       }
-
-      // Create unique temporary directory for this execution
-      const tempDir = path.join(__dirname, '../../temp');
-      const jobId = `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const jobDir = path.join(tempDir, jobId);
-      
-      // Ensure temp directories exist
-      if (!fs.existsSync(tempDir)) {
-        fs.mkdirSync(tempDir, { recursive: true });
+      if (format != null && !CHART_IMAGE_FORMATS.includes(format)) {
+        return res.status(400).json({ error: "format must be png or svg" });
       }
-      fs.mkdirSync(jobDir, { recursive: true });
-
-      // Save CSV data to temporary file
-      const csvPath = path.join(jobDir, 'data.csv');
-      fs.writeFileSync(csvPath, csvData);
-
-      // Create modified Python code that saves plots as images
-      const modifiedPythonCode = `
-import pandas as pd
-import matplotlib.pyplot as plt
-import seaborn as sns
-import numpy as np
-import os
-import warnings
-warnings.filterwarnings('ignore')
-
-# Set matplotlib to use Agg backend (non-interactive)
-plt.switch_backend('Agg')
-
-# Configure Seaborn for better visualizations
-sns.set_style("whitegrid")
-sns.set_palette("husl")
-plt.rcParams['figure.figsize'] = (10, 6)
-plt.rcParams['font.size'] = 12
-
-# Load the data
-data = pd.read_csv('${csvPath}')
-
-${pythonCode}
-
-# Save all current figures
-fig_count = 0
-for i in plt.get_fignums():
-    fig = plt.figure(i)
-    fig.savefig(f'chart_{fig_count}.png', dpi=150, bbox_inches='tight', facecolor='white', edgecolor='none')
-    fig_count += 1
-    plt.close(fig)
-
-print(f"Generated {fig_count} charts")
-`;
-
-      // Save the Python script
-      const scriptPath = path.join(jobDir, 'script.py');
-      fs.writeFileSync(scriptPath, modifiedPythonCode);
-
-      // Execute Python script
-      console.log('Executing Python code...');
-      const { stdout, stderr } = await execAsync(`cd "${jobDir}" && python3 script.py`);
-      
-      if (stderr && !stderr.includes('Warning')) {
-        console.error('Python execution error:', stderr);
-        throw new Error(`Python execution failed: ${stderr}`);
+      const dataset = requireDataset(req, res);
+      if (!dataset) {
+        return;
+      }
+      const { specs, issues } = parseChartSpecs(dataset, charts);
+      if (!specs) {
+        return res.status(400).json({ error: "Invalid chart specs", issues });
       }
 
-      console.log('Python output:', stdout);
-
-      // Find generated chart files
-      const chartFiles = fs.readdirSync(jobDir).filter(file => file.startsWith('chart_') && file.endsWith('.png'));
-      
-      // Convert charts to base64
-      console.log(`Found ${chartFiles.length} chart files:`, chartFiles);
-      const chartImages = chartFiles.map((file, index) => {
-        const filePath = path.join(jobDir, file);
-        const imageBuffer = fs.readFileSync(filePath);
-        const base64 = `data:image/png;base64,${imageBuffer.toString('base64')}`;
-        console.log(`Chart ${index + 1}: ${file} (${imageBuffer.length} bytes)`);
-        return base64;
-      });
-
-      // Cleanup temporary files
-      setTimeout(() => {
-        try {
-          fs.rmSync(jobDir, { recursive: true, force: true });
-        } catch (e) {
-          console.warn('Failed to cleanup temp directory:', e);
-        }
-      }, 5000); // Cleanup after 5 seconds
+      const { chartImages, renderer, timings } = await drawCharts(
+        dataset,
+        specs,
+        { format },
+      );
 
-      res.json({ 
+      res.json({
         chartImages,
         chartsGenerated: chartImages.length,
-        message: `Successfully generated ${chartImages.length} charts`,
-        stdout: stdout // Include stdout for formula results
+        renderer,
+        timings,
       });
+    } catch (e) {
+      sendError(res, "Failed to render charts", e);
+    }
+  });
 
-    } catch (e: any) {
-      console.error("Error executing Python code:", e);
-      res.status(500).json({ 
-        error: "Failed to execute Python code", 
-        details: e.message,
-        suggestion: "Make sure Python is installed with pandas, matplotlib, and seaborn"
+  // POST /api/data-to-infographic/render-charts/stream
+  // Streams each chart as soon as it is drawn.
+  router.post("/render-charts/stream", async (req, res) => {
+    const { charts, format } = req.body;
+    if (!charts) {
+      return res.status(400).json({ error: "charts are required" });
+    }
+    if (format != null && !CHART_IMAGE_FORMATS.includes(format)) {
+      return res.status(400).json({ error: "format must be png or svg" });
+    }
+    const dataset = requireDataset(req, res);
+    if (!dataset) {
+      return;
+    }
+    const { specs, issues } = parseChartSpecs(dataset, charts);
+    if (!specs) {
+      return res.status(400).json({ error: "Invalid chart specs", issues });
+    }
+
+    const stream = openEventStream(res);
+    try {
+      stream.send("progress", {
+        stage: "rendering",
+        message: "Rendering charts",
+      } satisfies StreamProgress);
+
+      const { chartImages, renderer, timings } = await drawCharts(
+        dataset,
+        specs,
+        { format, signal: stream.signal, onChart: streamCharts(stream) },
+      );
+
+      stream.send("result", {
+        chartsGenerated: chartImages.length,
+        renderer,
+        timings,
       });
+    } catch (e) {
+      if (!stream.signal.aborted) {
+        streamError(stream, "Failed to render charts", e);
+      }
+    } finally {
+      stream.close();
+    }
+  });
+
+  // GET /api/data-to-infographic/analyses
+  // The analyses the server runs, each with its parameters, what data it
+  // needs and what it returns.
+  router.get("/analyses", (req, res) => {
+    res.json({ analyses: analyses.list() });
+  });
+
+  // POST /api/data-to-infographic/analyses/:name
+  // Runs a named analysis, at the latest version unless `version` is given.
+  // Charts with `chartData` are drawn from it rather than the dataset.
+  router.post("/analyses/:name", (req, res) => {
+    const { version, parameters } = req.body;
+    if (version !== undefined && !Number.isInteger(version)) {
+      return res.status(400).json({ error: "version must be a whole number" });
     }
+    try {
+      // Unknown analyses are rejected before the dataset is read
+      analyses.find(req.params.name, version);
+      const dataset = requireDataset(req, res);
+      if (!dataset) {
+        return;
+      }
+
+      res.json(
+        analyses.run(req.params.name, dataset.table, dataset.profile(), {
+          version,
+          parameters,
+        }),
+      );
+    } catch (e) {
+      if (e instanceof AnalysisError) {
+        return sendError(res, "Failed to run the analysis", e);
+      }
+      throw e;
+    }
+  });
+
+  // The server no longer runs code sent by the client; analyses are run by
+  // name instead
+  router.post(["/execute-python", "/execute-python/stream"], (req, res) => {
+    res.status(410).json({
+      error: "Running Python code sent by the client is no longer supported",
+      details: "Run a named analysis with POST /analyses/:name instead",
+    });
+  });
+
+  // GET /api/data-to-infographic/execute-python/health
+  // Worker counts, queue length, job outcomes and recent latency of the
+  // Python worker pool.
+  router.get("/execute-python/health", (req, res) => {
+    res.json(sandbox.stats());
   });
 
   return router;
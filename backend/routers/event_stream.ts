@@ -0,0 +1,59 @@
+import type * as express from "express";
+
+/**
+ * A `text/event-stream` response that a handler writes events to while it
+ * works.
+ */
+export interface EventStream {
+  /** Aborted when the client disconnects or cancels before the stream ends. */
+  readonly signal: AbortSignal;
+  send(event: string, data: unknown): void;
+  /**
+   * Writes a comment line, which clients ignore. Sent now and then on a
+   * long-lived stream so proxies don't close it as idle.
+   */
+  comment(text: string): void;
+  close(): void;
+}
+
+/**
+ * Switches a response to server-sent events. Validate the request before
+ * calling this, since the status code is sent immediately.
+ */
+export const openEventStream = (res: express.Response): EventStream => {
+  const controller = new AbortController();
+
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    // Stops reverse proxies from buffering the stream
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  res.on("close", () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  return {
+    signal: controller.signal,
+    send(event, data) {
+      if (!res.writableEnded && !controller.signal.aborted) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    },
+    comment(text) {
+      if (!res.writableEnded && !controller.signal.aborted) {
+        res.write(`: ${text}\n\n`);
+      }
+    },
+    close() {
+      if (!res.writableEnded) {
+        res.end();
+      }
+    },
+  };
+};
@@ -0,0 +1,332 @@
+import { FORMULA_FUNCTIONS } from "../../utils/formula";
+
+// Prompts for the data-to-infographic routes. Builders that describe a
+// dataset take its summary from `summarizeDataset`, never the raw CSV, so
+// prompt size doesn't grow with the data.
+
+// Introduces a dataset summary and reminds the model it only sees a profile
+const describeDataset = (dataset: string) =>
+  `Dataset profile (column types, summary statistics and sample rows; charts and generated code use the full dataset, loaded as 'data'):
+${dataset}`;
+
+// The chart spec format (see utils/chart_spec.ts) and what each mark needs.
+// Specs are checked against the dataset's columns, and the model is asked to
+// fix any that can't be drawn.
+const CHART_SPEC_FORMAT = `Each chart is a JSON spec in the style of Vega-Lite:
+{
+  "title": "Descriptive title based on the data",
+  "description": "What the chart shows",
+  "mark": "bar" | "line" | "area" | "point" | "arc" | "rect" | "boxplot",
+  "encoding": {
+    "x": {
+      "field": "column name",
+      "type": "quantitative" | "nominal" | "ordinal" | "temporal",
+      "aggregate": "sum" | "mean" | "median" | "min" | "max" | "count" | "distinct",
+      "bin": true,
+      "timeUnit": "year" | "quarter" | "month" | "week" | "day",
+      "sort": "ascending" | "descending" | "x" | "-x" | "y" | "-y",
+      "title": "Axis title"
+    },
+    "y": { same keys as x },
+    "color": { same keys as x },
+    "theta": { same keys as x }
+  },
+  "innerRadius": 0.5,
+  "color": "#4c78a8",
+  "palette": ["#4c78a8", "#f58518", "#54a24b"]
+}
+
+Rules for chart specs:
+- Only "title", "mark", "encoding" and each channel's "type" are required; leave out keys you don't need
+- "field" must be a column name from the profile, spelled exactly
+- Quantitative channels need a numeric column, unless their aggregate is "count" or "distinct"; a "count" needs no field
+- Temporal channels need a date column; use "timeUnit" to group dates by period
+- "bar", "line" and "area" need "x" and "y", one of them quantitative; aggregate it (e.g. "sum") when the other repeats values
+- Histogram: "bar" with "bin": true on a quantitative x and "aggregate": "count" on y
+- Scatter plot: "point" with quantitative x and y
+- Pie chart: "arc" with a quantitative "theta" and a nominal "color"; add "innerRadius" for a donut
+- Heatmap: "rect" with nominal or ordinal x and y and a quantitative, usually aggregated, "color"
+- Box plot: "boxplot" with an unaggregated quantitative y and, optionally, a nominal x
+- On other marks, a nominal "color" splits the chart into one series per value
+- Sort bars by value with "sort": "-y" on x
+- Colours are hex codes`;
+
+// Asks for a summary, insights and specs for the suggested charts
+export const buildAnalysisPrompt = (dataset: string, customGraphs?: string) => {
+  const customGraphsInstruction =
+    customGraphs && customGraphs.trim()
+      ? `The user specifically requested these types of graphs: "${customGraphs}". Generate AT LEAST 4 charts including these requested types. If less than 4 types are specified, add appropriate additional chart types to reach exactly 4 charts.`
+      : "Generate EXACTLY 4 diverse chart types that make sense for this specific data.";
+
+  return `You are a data analyst. Analyze this dataset and provide insights STRICTLY based on what you see in its profile.
+
+${describeDataset(dataset)}
+
+${customGraphsInstruction}
+
+Analyze the actual columns, values, and patterns in this specific dataset. Do NOT make assumptions beyond what's visible.
+
+Return ONLY a JSON object with these exact keys:
+{
+  "data_summary": "Brief overview of the dataset (what it contains, time period, key metrics)",
+  "insights": ["insight1 based on actual data", "insight2 based on actual data", "insight3 based on actual data", "insight4 based on actual data"],
+  "suggested_charts": ["chart_type1", "chart_type2", "chart_type3", "chart_type4"],
+  "charts": [CHART_SPEC, CHART_SPEC, CHART_SPEC, CHART_SPEC]
+}
+
+Requirements:
+- data_summary: 2-3 sentences describing what the dataset actually contains
+- insights: 4 specific observations based on actual values/patterns in the profile
+- suggested_charts: 4 different chart types that make sense for this specific data
+- charts: one spec per suggested chart, in the same order, each with a descriptive title based on actual column names
+
+${CHART_SPEC_FORMAT}
+
+Return ONLY the JSON, nothing else.`;
+};
+
+// Asks the model which action a chat message maps to
+export const buildOrchestratorPrompt = (message: string, hasData: boolean) =>
+  `You are an AI assistant that helps users with data visualization. Analyze the user's message and determine what they want to do.
+
+User message: "${message}"
+Has data uploaded: ${hasData ? "Yes" : "No"}
+
+Based on the message, determine the most appropriate action and respond with a JSON object:
+
+{
+  "action": "ACTION_TYPE",
+  "response": "Helpful response to the user",
+  "query": "extracted query for charts (if applicable)",
+  "formula": "extracted formula (if applicable)",
+  "columnName": "suggested column name (if applicable)"
+}
+
+ACTION_TYPE options:
+- "natural_language_chart" - User wants to create a specific chart/visualization
+- "generate_predictions" - User wants forecasting or trend analysis
+- "detect_anomalies" - User wants to find unusual patterns or outliers
+- "generate_story" - User wants AI-generated data storytelling
+- "insight_recommendations" - User wants smart recommendations and insights
+- "general_analysis" - User wants general data analysis or insights
+- "help" - User needs help or guidance
+- "other" - General conversation or unclear intent
+
+Examples:
+- "show me sales by region" → natural_language_chart
+- "predict future trends" → generate_predictions
+- "find anomalies" → detect_anomalies
+- "tell me a story about this data" → generate_story
+- "what should I do with this data" → insight_recommendations
+- "analyze my data" → general_analysis
+
+For natural_language_chart: extract the specific visualization request
+For generate_predictions: identify forecasting needs and time horizons
+For detect_anomalies: understand what patterns to look for
+For generate_story: determine the narrative style and focus
+For insight_recommendations: identify business context and goals
+For other actions: provide helpful guidance
+
+Return ONLY the JSON object, nothing else.`;
+
+// Asks for a spec of the chart a natural-language query describes
+export const buildNaturalLanguageChartPrompt = (
+  dataset: string,
+  query: string,
+) =>
+  `You are a data visualization expert. Parse this natural language query and describe the chart it asks for.
+
+${describeDataset(dataset)}
+
+User Query: "${query}"
+
+Analyze the query to:
+1. Identify what columns/data the user wants to visualize
+2. Determine the best chart type for their request
+3. Extract time periods, groupings, filters mentioned
+4. Describe ONE chart as a spec
+
+Return ONLY a JSON object:
+{
+  "interpretation": "What the user is asking for",
+  "chart_type": "best chart type for this query",
+  "columns_used": ["column1", "column2"],
+  "chart": CHART_SPEC
+}
+
+Use a descriptive title based on the query, and the colours the user asks for if any.
+
+${CHART_SPEC_FORMAT}
+
+Return ONLY the JSON, nothing else.`;
+
+// The formula syntax (see utils/formula), with every function's signature so
+// the list can't fall behind what the evaluator supports
+const FORMULA_FORMAT = `Formula syntax, as in spreadsheets:
+- Columns are written in brackets: [Sales], [Order Date]. A column is its value in the current row.
+- Other rows: [Sales][-1] is the previous row's value (blank before the first row).
+- Windows of rows, only inside functions that take several values: [Sales][-2:0] is this row and the two before it, [Sales][:0] every row up to this one, [Sales][:] the whole column.
+- Text is in double quotes ("North"), with "" for a quote inside it. TRUE and FALSE are booleans. Dates are text such as "2024-03-01".
+- Operators: + - * / ^ for arithmetic, & to join text, = <> < > <= >= to compare, and % after a number. A date plus a number is a later date; one date minus another is the days between.
+- Functions:
+${Object.values(FORMULA_FUNCTIONS)
+  .map(({ signature, description }) => `  ${signature}: ${description}`)
+  .join("\n")}`;
+
+// Asks for the formula that computes a column described in plain English
+export const buildFormulaTranslationPrompt = (
+  dataset: string,
+  description: string,
+  columnName?: string,
+) =>
+  `You are a spreadsheet expert. Write a formula for the column this user describes.
+
+${describeDataset(dataset)}
+
+Column description: "${description}"
+${columnName ? `Column name: "${columnName}"` : "Suggest a short name for the column."}
+
+${FORMULA_FORMAT}
+
+Use only the columns of the dataset and the functions listed. The formula is checked against the dataset, and any mistakes are sent back to fix.
+
+Return ONLY a JSON object:
+{
+  "formula": "the formula, e.g. [Sales] - [Cost]",
+  "column_name": "${columnName || "a short name for the new column"}",
+  "explanation": "What the formula computes, in one or two sentences"
+}
+
+Return ONLY the JSON, nothing else.`;
+
+// Asks for a narration of a forecast that's already been computed. The model
+// is given the numbers, so it explains them rather than making up its own.
+export const buildPredictionPrompt = (dataset: string, forecast: string) =>
+  `You are a predictive analytics expert. A forecast has been computed from this data; explain it to a reader.
+
+${describeDataset(dataset)}
+
+Computed forecast:
+${forecast}
+
+Return ONLY a JSON object:
+
+{
+  "forecast_summary": "Brief overview of the forecast: the model used, what it predicts, and how confident it is",
+  "predictions": ["prediction1", "prediction2", "prediction3"],
+  "trend_analysis": "overall trend direction and strength"
+}
+
+Rules:
+- Quote only the numbers given above: forecast values, intervals, backtest errors and the trend. Don't compute or estimate others.
+- State the confidence exactly as given, or say it couldn't be measured when it wasn't.
+- Each prediction names a period, its forecast value and its prediction interval.
+- Mention the interval width and backtest error when they show the forecast is uncertain.
+
+Return ONLY the JSON, nothing else.`;
+
+// Asks for a narration of anomalies that have already been found. The model
+// is given the rows, methods and scores, so it explains them rather than
+// looking for its own.
+export const buildAnomalyPrompt = (dataset: string, anomalies: string) =>
+  `You are an anomaly detection expert. Unusual values have been found in this data; explain them to a reader.
+
+${describeDataset(dataset)}
+
+Anomalies found:
+${anomalies}
+
+Return ONLY a JSON object:
+
+{
+  "anomaly_summary": "Brief overview of what was found and how",
+  "findings": ["finding1", "finding2", "finding3"],
+  "risk_level": "Low/Medium/High"
+}
+
+Rules:
+- Each finding describes one row or a group of similar rows: which values are unusual, by which method, and what might explain them.
+- Quote only the rows, values, scores and thresholds given above. Don't look for other anomalies.
+- When no rows were flagged, say so, give no findings, and use a Low risk level.
+- The risk level reflects how many rows were flagged and how severe they are.
+
+Return ONLY the JSON, nothing else.`;
+
+// Asks for an explanation of correlations computed from the data
+export const buildCorrelationPrompt = (dataset: string, correlations: string) =>
+  `You are a statistics expert. The relationships between this data's columns have been measured and tested; explain them to a reader.
+
+${describeDataset(dataset)}
+
+Correlations measured:
+${correlations}
+
+Return ONLY a JSON object:
+
+{
+  "correlation_summary": "Brief overview of which columns are related and how strongly",
+  "insights": ["insight1", "insight2", "insight3"],
+  "caveats": "What the correlations can't show"
+}
+
+Rules:
+- Each insight describes one significant relationship: its direction, strength and what might explain it.
+- Quote only the coefficients and p-values given above. Don't compute others.
+- Don't call a pair related unless it's significant. When none is, say so and give no insights.
+- Correlation isn't causation; the caveats say what else could explain the relationships.
+
+Return ONLY the JSON, nothing else.`;
+
+// Asks for a narrative about the data and charts that support it
+export const buildDataStoryPrompt = (dataset: string, storyType?: string) =>
+  `You are a data storytelling expert. Create a compelling narrative from this data.
+
+${describeDataset(dataset)}
+
+Story Type: ${storyType || "business narrative"}
+
+Create an engaging data story with clear narrative structure. Return ONLY a JSON object:
+
+{
+  "narrative": "The main story told by the data (3-4 paragraphs)",
+  "plot_points": ["key insight 1", "key insight 2", "key insight 3", "conclusion"],
+  "theme": "The overarching theme or message",
+  "recommendations": "What actions the story suggests",
+  "charts": [CHART_SPEC, CHART_SPEC]
+}
+
+For charts:
+- Create 2-3 story-supporting charts
+- Use narrative-driven chart titles that tell the story
+- Use a palette that matches the story mood
+
+${CHART_SPEC_FORMAT}
+
+Return ONLY the JSON, nothing else.`;
+
+// Asks for business recommendations drawn from the data
+export const buildInsightPrompt = (dataset: string, businessContext?: string) =>
+  `You are a business intelligence expert. Analyze this data and provide actionable recommendations.
+
+${describeDataset(dataset)}
+
+Business Context: ${businessContext || "general business analysis"}
+
+Generate smart recommendations based on data patterns. Return ONLY a JSON object:
+
+{
+  "executive_summary": "High-level summary of key findings (2-3 sentences)",
+  "recommendations": ["actionable recommendation 1", "actionable recommendation 2", "actionable recommendation 3"],
+  "impact_assessment": "Potential business impact of implementing recommendations",
+  "priority_actions": ["immediate action 1", "immediate action 2"],
+  "kpi_suggestions": ["KPI to track 1", "KPI to track 2"]
+}
+
+Focus on:
+- Actionable business insights
+- ROI-focused recommendations
+- Data-driven decision making
+- Practical implementation steps
+- Measurable outcomes
+
+Return ONLY the JSON, nothing else.`;
@@ -0,0 +1,122 @@
+import { compileFormula, FormulaError } from "../../utils/formula";
+import { chartSpecSchema } from "../charts";
+import type { ColumnProfile } from "../dataset";
+import type { Schema } from "../llm";
+import { schema } from "../llm";
+
+const { array, object, oneOf, optional, string } = schema;
+
+const text = string({ minLength: 1 });
+const textList = array(text, { minItems: 1 });
+
+/**
+ * The response schemas for each data-to-infographic route. Model replies are
+ * validated against these before anything reaches the client. Routes that
+ * return charts take the dataset's columns, so chart specs that can't be
+ * drawn from them are sent back to the model to fix.
+ */
+export const analyzeCsvResponseSchema = (columns: ColumnProfile[]) =>
+  object({
+    data_summary: text,
+    insights: textList,
+    suggested_charts: textList,
+    charts: array(chartSpecSchema(columns), { minItems: 1 }),
+  });
+
+export const naturalLanguageChartResponseSchema = (columns: ColumnProfile[]) =>
+  object({
+    interpretation: text,
+    chart_type: text,
+    columns_used: array(text),
+    chart: chartSpecSchema(columns),
+  });
+
+// A formula that must compile against the dataset's columns. The compile
+// error, with the text at fault, is shown to the model to fix.
+const formulaSchema = (header: string[]): Schema<string> => ({
+  description: "formula",
+  validate(value, path, issues) {
+    const formula = text.validate(value, path, issues);
+    if (formula === undefined) {
+      return undefined;
+    }
+    try {
+      compileFormula(formula, header);
+      return formula;
+    } catch (e) {
+      if (!(e instanceof FormulaError)) {
+        throw e;
+      }
+      const where =
+        e.start === e.end
+          ? `at character ${e.start + 1}`
+          : `at "${formula.slice(e.start, e.end)}", characters ${e.start + 1} to ${e.end}`;
+      issues.push(`${path}: ${e.message} (${where})`);
+      return undefined;
+    }
+  },
+});
+
+export const translateFormulaResponseSchema = (header: string[]) =>
+  object({
+    formula: formulaSchema(header),
+    column_name: text,
+    explanation: text,
+  });
+
+export const CHAT_ACTIONS = [
+  "natural_language_chart",
+  "generate_predictions",
+  "detect_anomalies",
+  "generate_story",
+  "insight_recommendations",
+  "general_analysis",
+  "help",
+  "other",
+] as const;
+
+export const chatOrchestratorResponseSchema = object({
+  action: oneOf(CHAT_ACTIONS),
+  response: text,
+  query: optional(string(), ""),
+  formula: optional(string(), ""),
+  columnName: optional(string(), ""),
+});
+
+// The forecast's numbers and chart are computed, so the model only narrates
+export const generatePredictionsResponseSchema = object({
+  forecast_summary: text,
+  predictions: textList,
+  trend_analysis: text,
+});
+
+// The anomalies and their charts are found by the server, so the model only
+// narrates
+export const detectAnomaliesResponseSchema = object({
+  anomaly_summary: text,
+  findings: array(text),
+  risk_level: oneOf(["Low", "Medium", "High"] as const),
+});
+
+export const analyzeCorrelationsResponseSchema = object({
+  correlation_summary: text,
+  insights: array(text),
+  caveats: text,
+});
+
+export const generateDataStoryResponseSchema = (columns: ColumnProfile[]) =>
+  object({
+    narrative: text,
+    plot_points: textList,
+    theme: text,
+    recommendations: text,
+    charts: array(chartSpecSchema(columns), { minItems: 1 }),
+  });
+
+export const insightRecommendationsResponseSchema = object({
+  executive_summary: text,
+  recommendations: textList,
+  impact_assessment: text,
+  priority_actions: textList,
+  kpi_suggestions: textList,
+});
@@ -0,0 +1,1225 @@
+/** @jest-environment node */
+import { Resvg } from "@resvg/resvg-js";
+import * as express from "express";
+import * as fs from "node:fs";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import * as os from "node:os";
+import * as path from "node:path";
+import { createLLMClientWithProvider, MockProvider } from "../../llm";
+import { loadSandboxSettings, PythonSandbox } from "../../sandbox";
+import type { FakeCell } from "../../sheets";
+import { FakeSheetsServer, GoogleSheetsClient } from "../../sheets";
+import { JSONFileDatabase } from "../../database/database";
+import { DatasetStore } from "../../dataset";
+import type { LiveSyncData } from "../../live_sync";
+import { LiveSyncScheduler, loadLiveSyncSettings } from "../../live_sync";
+import { createDataToInfographicRouter } from "../data_to_infographic";
+
+const CSV_DATA = "Region,Sales\nNorth,100\nSouth,200";
+
+const SALES_CHART = {
+  title: "Sales by region",
+  mark: "bar",
+  encoding: {
+    x: { field: "Region", type: "nominal" },
+    y: { field: "Sales", type: "quantitative", aggregate: "sum" },
+  },
+};
+
+describe("createDataToInfographicRouter", () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let mock: MockProvider;
+  let sandbox: PythonSandbox;
+
+  const startServer = (
+    recordings: Record<string, string | string[]>,
+    {
+      sheets,
+      liveSync,
+      datasets,
+    }: {
+      sheets?: GoogleSheetsClient;
+      liveSync?: LiveSyncScheduler;
+      datasets?: DatasetStore;
+    } = {},
+  ) => {
+    mock = new MockProvider(recordings);
+    sandbox = new PythonSandbox(loadSandboxSettings({}));
+    const app = express();
+    app.use(express.json());
+    app.use(
+      "/api/data-to-infographic",
+      createDataToInfographicRouter({
+        llm: createLLMClientWithProvider(mock),
+        sandbox,
+        sheets,
+        liveSync,
+        datasets,
+      }),
+    );
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/data-to-infographic`;
+  };
+
+  // Requests go through `http`, which reports the status with the body
+  const send = (method: string, route: string, body?: unknown) =>
+    new Promise<{ status?: number; body: Record<string, unknown> }>(
+      (resolve, reject) => {
+        const request = http.request(
+          `${baseUrl}${route}`,
+          { method, headers: { "Content-Type": "application/json" } },
+          (response) => {
+            let data = "";
+            response.on("data", (chunk) => (data += chunk));
+            response.on("end", () =>
+              resolve({ status: response.statusCode, body: JSON.parse(data) }),
+            );
+          },
+        );
+        request.on("error", reject);
+        request.end(body === undefined ? undefined : JSON.stringify(body));
+      },
+    );
+
+  const post = (route: string, body: unknown) => send("POST", route, body);
+
+  // Collects the events of a streamed response once it has ended
+  const postStream = (route: string, body: unknown) =>
+    new Promise<{ event: string; data: Record<string, unknown> }[]>(
+      (resolve, reject) => {
+        const request = http.request(
+          `${baseUrl}${route}`,
+          { method: "POST", headers: { "Content-Type": "application/json" } },
+          (response) => {
+            let data = "";
+            response.on("data", (chunk) => (data += chunk));
+            response.on("end", () =>
+              resolve(
+                data
+                  .split("\n\n")
+                  .filter(Boolean)
+                  .map((block) => {
+                    const [, event, json] =
+                      /^event: (.*)\ndata: (.*)$/.exec(block) ?? [];
+                    return { event, data: JSON.parse(json) };
+                  }),
+              ),
+            );
+          },
+        );
+        request.on("error", reject);
+        request.end(JSON.stringify(body));
+      },
+    );
+
+  // Opens a stream that stays open, to read its events as they arrive
+  const openStream = (route: string) =>
+    new Promise<{
+      next: () => Promise<{ event: string; data: Record<string, unknown> }>;
+      close: () => void;
+    }>((resolve, reject) => {
+      const request = http.get(`${baseUrl}${route}`, (response) => {
+        const events: { event: string; data: Record<string, unknown> }[] = [];
+        const waiting: ((event: (typeof events)[number]) => void)[] = [];
+        let data = "";
+        response.on("data", (chunk) => {
+          data += chunk;
+          const blocks = data.split("\n\n");
+          data = blocks.pop() ?? "";
+          for (const block of blocks.filter((b) => !b.startsWith(":"))) {
+            const [, event, json] =
+              /^event: (.*)\ndata: (.*)$/.exec(block) ?? [];
+            const parsed = { event, data: JSON.parse(json) };
+            const waiter = waiting.shift();
+            if (waiter) {
+              waiter(parsed);
+            } else {
+              events.push(parsed);
+            }
+          }
+        });
+        resolve({
+          next: () => {
+            const event = events.shift();
+            return event
+              ? Promise.resolve(event)
+              : new Promise((resolveEvent) => waiting.push(resolveEvent));
+          },
+          close: () => request.destroy(),
+        });
+      });
+      request.on("error", reject);
+    });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await sandbox.close();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("answers /chat-orchestrator from the recorded response", async () => {
+    startServer({
+      "chat-orchestrator": JSON.stringify({
+        action: "natural_language_chart",
+        response: "Sure",
+        query: "sales by region",
+      }),
+    });
+
+    const { status, body } = await post("/chat-orchestrator", {
+      message: "show me sales by region",
+      csvData: CSV_DATA,
+      hasData: true,
+    });
+
+    expect(status).toBe(200);
+    expect(body).toEqual({
+      action: "natural_language_chart",
+      response: "Sure",
+      query: "sales by region",
+      formula: "",
+      columnName: "",
+    });
+    expect(mock.requests).toHaveLength(1);
+    expect(mock.requests[0].route).toBe("chat-orchestrator");
+    expect(mock.requests[0].prompt).toContain("show me sales by region");
+  });
+
+  it("returns a 502 with the issues when the reply never matches the schema", async () => {
+    startServer({
+      "insight-recommendations": '{"executive_summary": "Sales grew"}',
+    });
+
+    const { status, body } = await post("/insight-recommendations", {
+      csvData: CSV_DATA,
+    });
+
+    expect(status).toBe(502);
+    expect(body.error).toBe("Failed to generate recommendations");
+    expect(body.issues).toContain(
+      "$.recommendations: expected array, got undefined",
+    );
+    // The original attempt plus two repair attempts
+    expect(mock.requests).toHaveLength(3);
+  });
+
+  it("describes the dataset to the model with a summary", async () => {
+    startServer({ "generate-data-story": "not json" });
+
+    await post("/generate-data-story", { csvData: CSV_DATA });
+
+    const { prompt } = mock.requests[0];
+    expect(prompt).toContain("Dataset: 2 rows, 2 columns");
+    expect(prompt).toContain(
+      "- Sales [integer]: 0 missing; min 100, max 200, mean 150",
+    );
+    expect(prompt).toContain("All 2 rows:\nRegion,Sales\nNorth,100");
+  });
+
+  it("narrates a computed forecast with its backtest confidence", async () => {
+    const narration = {
+      forecast_summary: "Sales keep rising",
+      predictions: ["2024-01-01: about 148"],
+      trend_analysis: "Up 2 a month",
+    };
+    startServer({ "generate-predictions": JSON.stringify(narration) });
+    const csvData = [
+      "Month,Sales",
+      ...Array.from(
+        { length: 24 },
+        (_, i) =>
+          `${new Date(Date.UTC(2022, i, 1)).toISOString().slice(0, 10)},${100 + 2 * i}`,
+      ),
+    ].join("\n");
+
+    const { status, body } = await post("/generate-predictions", {
+      csvData,
+      forecastPeriods: 3,
+    });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      ...narration,
+      confidence: expect.closeTo(100, 6),
+      forecast: { targetColumn: "Sales", frequency: "month" },
+      charts: [{ title: "Sales forecast", mark: "line" }],
+    });
+    expect(String(body.chartData)).toMatch(/^Month,Series,Sales\n/);
+    const { prompt } = mock.requests[0];
+    expect(prompt).toContain("Confidence: 100%");
+    expect(prompt).toContain("- 2024-01-01: 148 (");
+    expect(prompt).not.toContain("CHART_SPEC");
+  });
+
+  it("explains why data can't be forecast without asking the model", async () => {
+    startServer({});
+
+    const { status, body } = await post("/generate-predictions", {
+      csvData: CSV_DATA,
+    });
+
+    expect(status).toBe(422);
+    expect(body).toMatchObject({
+      error: "Failed to generate predictions",
+      category: "no_time_series",
+    });
+    expect(mock.requests).toHaveLength(0);
+  });
+
+  it("narrates tested correlations and returns the matrix as data", async () => {
+    const narration = {
+      correlation_summary: "Sales rise with ad spend",
+      insights: ["Ad spend and Sales are strongly correlated"],
+      caveats: "Both may follow the season",
+    };
+    startServer({ "analyze-correlations": JSON.stringify(narration) });
+    const csvData = [
+      "Ad spend,Sales,Returns",
+      ...Array.from(
+        { length: 12 },
+        (_, i) => `${10.5 + i},${30 + 3 * i + (i % 2)},${(i * 5) % 7}`,
+      ),
+    ].join("\n");
+
+    const { status, body } = await post("/analyze-correlations", {
+      csvData,
+      method: "spearman",
+    });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      ...narration,
+      method: "spearman",
+      correction: "holm",
+      matrix: { columns: ["Ad spend", "Sales", "Returns"] },
+      relationships: [
+        { columns: ["Ad spend", "Sales"], measure: "spearman", n: 12 },
+      ],
+      charts: [{ title: "Correlation matrix", mark: "rect" }],
+    });
+    expect(String(body.chartData)).toMatch(
+      /^Column,Compared with,Correlation,Cramér's V\n/,
+    );
+    expect(mock.requests[0].prompt).toContain(
+      "- Ad spend and Sales: Spearman's rho",
+    );
+  });
+
+  it("rejects data with nothing to correlate without asking the model", async () => {
+    startServer({});
+
+    const { status, body } = await post("/analyze-correlations", {
+      csvData: "Region,Sales\nNorth,1\nSouth,2",
+    });
+
+    expect(status).toBe(422);
+    expect(body).toMatchObject({
+      error: "Failed to analyze correlations",
+      category: "too_few_columns",
+    });
+    expect(mock.requests).toHaveLength(0);
+  });
+
+  it("narrates the anomalies it found, each with its score and threshold", async () => {
+    const narration = {
+      anomaly_summary: "One order is far larger than the rest",
+      findings: ["Row 4: Sales of 5000 is unusually high"],
+      risk_level: "Low",
+    };
+    startServer({ "detect-anomalies": JSON.stringify(narration) });
+    const csvData = [
+      "Region,Sales",
+      ...[100, 110, 95, 5000, 105, 98, 102, 97].map(
+        (sales, i) => `${i % 2 ? "North" : "South"},${sales}`,
+      ),
+    ].join("\n");
+
+    const { status, body } = await post("/detect-anomalies", {
+      csvData,
+      sensitivity: "high",
+    });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      ...narration,
+      sensitivity: "high",
+      methods: ["mad"],
+      thresholds: { mad: 2.5 },
+      rows: [{ row: 4, columns: ["Sales"], methods: ["mad"] }],
+      charts: [{ title: "Unusual Sales values", mark: "point" }],
+    });
+    expect(body.anomalies).toEqual([
+      expect.objectContaining({
+        row: 4,
+        method: "mad",
+        threshold: 2.5,
+        direction: "high",
+      }),
+    ]);
+    expect(String(body.chartData)).toMatch(/^Sales,Row,Sales anomaly\n/);
+    expect(mock.requests[0].prompt).toContain("- Row 4, severity");
+  });
+
+  it("rejects unknown anomaly sensitivities without asking the model", async () => {
+    startServer({});
+
+    const { status, body } = await post("/detect-anomalies", {
+      csvData: CSV_DATA,
+      sensitivity: "extreme",
+    });
+
+    expect(status).toBe(400);
+    expect(body).toMatchObject({
+      error: "Failed to detect anomalies",
+      category: "invalid_request",
+    });
+    expect(mock.requests).toHaveLength(0);
+  });
+
+  it("returns a 500 when the provider fails", async () => {
+    startServer({});
+
+    const { status, body } = await post("/insight-recommendations", {
+      csvData: CSV_DATA,
+    });
+
+    expect(status).toBe(500);
+    expect(body.details).toBe(
+      'No recorded response for route "insight-recommendations"',
+    );
+  });
+
+  it("lists the analyses it runs with their parameters and outputs", async () => {
+    startServer({});
+
+    const { status, body } = await send("GET", "/analyses");
+
+    expect(status).toBe(200);
+    const analyses = body.analyses as Record<string, unknown>[];
+    expect(analyses.map(({ name }) => name)).toEqual([
+      "overview",
+      "correlations",
+      "forecast",
+      "anomalies",
+    ]);
+    expect(analyses[2]).toMatchObject({
+      version: 1,
+      versions: [1],
+      parameters: expect.arrayContaining([
+        expect.objectContaining({ name: "periods", type: "integer" }),
+      ]),
+      outputs: { charts: true, tables: ["forecast"] },
+    });
+  });
+
+  it("runs an analysis by name without asking the model", async () => {
+    startServer({});
+    const csvData = [
+      "Month,Sales",
+      ...Array.from(
+        { length: 24 },
+        (_, i) =>
+          `${new Date(Date.UTC(2022, i, 1)).toISOString().slice(0, 10)},${100 + 2 * i}`,
+      ),
+    ].join("\n");
+
+    const { status, body } = await post("/analyses/forecast", {
+      csvData,
+      parameters: { periods: 3 },
+    });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      analysis: { name: "forecast", version: 1 },
+      parameters: { periods: 3, intervalLevel: 0.95 },
+      charts: [{ title: "Sales forecast", mark: "line" }],
+      tables: [{ name: "forecast", rows: expect.any(Array) }],
+      metrics: { accuracy: expect.closeTo(100, 6) },
+    });
+    expect(String(body.chartData)).toMatch(/^Month,Series,Sales\n/);
+    expect(mock.requests).toHaveLength(0);
+  });
+
+  it("rejects unknown analyses and parameters", async () => {
+    startServer({});
+
+    const unknown = await post("/analyses/python", { csvData: CSV_DATA });
+    const invalid = await post("/analyses/anomalies", {
+      csvData: CSV_DATA,
+      parameters: { sensitivity: "extreme" },
+    });
+    const unsupported = await post("/analyses/forecast", { csvData: CSV_DATA });
+
+    expect(unknown).toMatchObject({
+      status: 404,
+      body: { category: "unknown_analysis" },
+    });
+    expect(invalid).toMatchObject({
+      status: 400,
+      body: { category: "invalid_parameters" },
+    });
+    expect(unsupported).toMatchObject({
+      status: 422,
+      body: { category: "unsupported_data" },
+    });
+  });
+
+  it("no longer runs code sent by the client", async () => {
+    startServer({});
+    const run = jest.spyOn(sandbox, "run");
+
+    const { status, body } = await post("/execute-python", {
+      csvData: CSV_DATA,
+      pythonCode: "import subprocess\nsubprocess.run(['ls'])",
+    });
+
+    expect(status).toBe(410);
+    expect(body.details).toContain("/analyses/:name");
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it("asks the model to fix chart specs that name missing columns", async () => {
+    const chart = (field: string) =>
+      JSON.stringify({
+        interpretation: "Sales per region",
+        chart_type: "bar",
+        columns_used: ["Region", field],
+        chart: {
+          ...SALES_CHART,
+          encoding: {
+            ...SALES_CHART.encoding,
+            y: { field, type: "quantitative" },
+          },
+        },
+      });
+    startServer({
+      "natural-language-chart": [chart("Revenue"), chart("Sales")],
+    });
+
+    const { status, body } = await post("/natural-language-chart", {
+      csvData: CSV_DATA,
+      query: "sales by region",
+    });
+
+    expect(status).toBe(200);
+    expect(body.chart).toMatchObject({ encoding: { y: { field: "Sales" } } });
+    expect(mock.requests[1].prompt).toContain(
+      '$.chart.encoding.y.field: unknown column "Revenue"; the columns are "Region", "Sales"',
+    );
+  });
+
+  it("renders chart specs without Python", async () => {
+    startServer({});
+    const run = jest.spyOn(sandbox, "run");
+
+    const { status, body } = await post("/render-charts", {
+      csvData: CSV_DATA,
+      charts: [SALES_CHART],
+    });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ chartsGenerated: 1, renderer: "native" });
+    expect((body.chartImages as string[])[0]).toMatch(
+      /^data:image\/png;base64,iVBORw0KGgo/,
+    );
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it("renders chart specs as SVG when asked", async () => {
+    startServer({});
+
+    const { body } = await post("/render-charts", {
+      csvData: CSV_DATA,
+      charts: [SALES_CHART],
+      format: "svg",
+    });
+
+    const [image] = body.chartImages as string[];
+    const svg = Buffer.from(image.split(",")[1], "base64").toString();
+    expect(image).toMatch(/^data:image\/svg\+xml;base64,/);
+    expect(svg).toContain(">Sales by region</text>");
+  });
+
+  it("rejects unknown image formats", async () => {
+    startServer({});
+
+    const { status, body } = await post("/render-charts", {
+      csvData: CSV_DATA,
+      charts: [SALES_CHART],
+      format: "gif",
+    });
+
+    expect(status).toBe(400);
+    expect(body).toEqual({ error: "format must be png or svg" });
+  });
+
+  it("falls back to the sandbox when a chart can't be drawn natively", async () => {
+    startServer({});
+    jest.spyOn(Resvg.prototype, "render").mockImplementation(() => {
+      throw new Error("No fonts");
+    });
+    const run = jest.spyOn(sandbox, "run").mockResolvedValue({
+      chartImages: ["data:image/png;base64,AAAA"],
+      stdout: "",
+      timings: { queuedMs: 1, runMs: 2 },
+    });
+
+    const { status, body } = await post("/render-charts", {
+      csvData: CSV_DATA,
+      charts: [SALES_CHART],
+    });
+
+    expect(status).toBe(200);
+    expect(body).toEqual({
+      chartImages: ["data:image/png;base64,AAAA"],
+      chartsGenerated: 1,
+      renderer: "python",
+      timings: { queuedMs: 1, runMs: 2 },
+    });
+    const [csvData, code] = run.mock.calls[0];
+    expect(csvData).toBe(CSV_DATA);
+    expect(code).toContain(
+      `draw_chart(json.loads(${JSON.stringify(JSON.stringify(SALES_CHART))}))`,
+    );
+  });
+
+  it("rejects chart specs that can't be drawn from the dataset", async () => {
+    startServer({});
+    const run = jest.spyOn(sandbox, "run");
+
+    const { status, body } = await post("/render-charts", {
+      csvData: CSV_DATA,
+      charts: [{ ...SALES_CHART, mark: "boxplot" }],
+    });
+
+    expect(status).toBe(400);
+    expect(body).toEqual({
+      error: "Invalid chart specs",
+      issues: [
+        "$.charts[0].encoding.y: box plots need an unaggregated quantitative y",
+      ],
+    });
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it("reports the health of the Python worker pool", async () => {
+    startServer({});
+
+    const body = await new Promise<Record<string, unknown>>(
+      (resolve, reject) => {
+        http
+          .get(`${baseUrl}/execute-python/health`, (response) => {
+            let data = "";
+            response.on("data", (chunk) => (data += chunk));
+            response.on("end", () => resolve(JSON.parse(data)));
+          })
+          .on("error", reject);
+      },
+    );
+
+    expect(body).toMatchObject({
+      workers: { starting: 0, idle: 0, busy: 0, limit: 2 },
+      queuedJobs: 0,
+      jobs: { completed: 0, failed: 0, rejected: 0 },
+      latency: { run: { count: 0 } },
+    });
+  });
+
+  describe("formulas", () => {
+    const ORDERS = "Region,Sales,Cost\nNorth,100,60\nSouth,80,0\nEast,n/a,10";
+
+    it("adds a column computed by a formula", async () => {
+      startServer({});
+
+      const { status, body } = await post("/apply-formula", {
+        csvData: ORDERS,
+        formula: "=[Sales] / [cost]",
+        newColumnName: "Ratio",
+      });
+
+      expect(status).toBe(200);
+      expect(body).toEqual({
+        columnName: "Ratio",
+        columns: ["Sales", "Cost"],
+        csvData:
+          "Region,Sales,Cost,Ratio\nNorth,100,60,1.66666666666667\nSouth,80,0,#DIV/0!\nEast,n/a,10,#VALUE!",
+        rowCount: 3,
+        preview: {
+          columns: ["Sales", "Cost", "Ratio"],
+          rows: [
+            ["100", "60", "1.66666666666667"],
+            ["80", "0", "#DIV/0!"],
+            ["n/a", "10", "#VALUE!"],
+          ],
+        },
+        errorCount: 2,
+        errors: [
+          {
+            row: 2,
+            code: "#DIV/0!",
+            message: "Division by zero",
+            start: 1,
+            end: 17,
+          },
+          {
+            row: 3,
+            code: "#VALUE!",
+            message: 'Expected a number, got the text "n/a"',
+            start: 1,
+            end: 8,
+          },
+        ],
+      });
+      // Formulas run without the model
+      expect(mock.requests).toHaveLength(0);
+    });
+
+    it("points at the text at fault in invalid formulas", async () => {
+      startServer({});
+
+      const { status, body } = await post("/apply-formula", {
+        csvData: ORDERS,
+        formula: "ROUND([Sale] * 2)",
+      });
+
+      expect(status).toBe(400);
+      expect(body).toEqual({
+        error: "Invalid formula",
+        category: "reference",
+        details:
+          'There\'s no column named "Sale". Did you mean [Sales]?\nROUND([Sale] * 2)\n      ^^^^^^',
+        start: 6,
+        end: 12,
+      });
+    });
+
+    it("asks the model to fix translated formulas that don't compile", async () => {
+      const reply = (formula: string) =>
+        JSON.stringify({
+          formula,
+          column_name: "Margin",
+          explanation: "Sales minus cost",
+        });
+      startServer({
+        "translate-formula": [
+          reply("[Revenue] - [Cost]"),
+          reply("[Sales] - [Cost]"),
+        ],
+      });
+
+      const { status, body } = await post("/translate-formula", {
+        csvData: ORDERS,
+        description: "the margin of each order",
+      });
+
+      expect(status).toBe(200);
+      expect(body).toEqual({
+        formula: "[Sales] - [Cost]",
+        columnName: "Margin",
+        explanation: "Sales minus cost",
+      });
+      expect(mock.requests[0].prompt).toContain(
+        "XLOOKUP(value, [Lookup column], [Return column], [if_not_found])",
+      );
+      expect(mock.requests[1].prompt).toContain(
+        '$.formula: There\'s no column named "Revenue" (at "[Revenue]", characters 1 to 9)',
+      );
+    });
+  });
+
+  describe("datasets", () => {
+    const upload = async (chunks: string[]) => {
+      const { body } = await post("/datasets", { name: "sales.csv" });
+      const datasetId = body.datasetId as string;
+      for (const [index, data] of chunks.entries()) {
+        await send("PUT", `/datasets/${datasetId}/chunks/${index}`, { data });
+      }
+      return datasetId;
+    };
+
+    it("uploads a dataset in chunks and describes it", async () => {
+      startServer({});
+      const datasetId = await upload([
+        "Region,Sales\nNor",
+        "th,100\nSouth,200",
+      ]);
+
+      const { status, body } = await post(`/datasets/${datasetId}/complete`, {
+        chunkCount: 2,
+      });
+
+      expect(status).toBe(200);
+      expect(body).toMatchObject({
+        datasetId,
+        name: "sales.csv",
+        status: "ready",
+        chunkCount: 2,
+        rowCount: 2,
+        columns: [
+          { name: "Region", kind: "category" },
+          { name: "Sales", kind: "integer" },
+        ],
+      });
+      expect(await send("GET", `/datasets/${datasetId}`)).toMatchObject({
+        status: 200,
+        body: { datasetId, status: "ready" },
+      });
+      const profile = await send("GET", `/datasets/${datasetId}/profile`);
+      expect(profile.body).toMatchObject({
+        datasetId,
+        rowCount: 2,
+        columns: [
+          { name: "Region", kind: "category", distinct: 2 },
+          {
+            name: "Sales",
+            kind: "integer",
+            stats: { min: 100, max: 200, mean: 150 },
+          },
+        ],
+        warnings: [{ kind: "fewRows" }],
+      });
+      expect((profile.body.suggestedCharts as unknown[])[0]).toMatchObject({
+        title: "Sales by Region",
+        mark: "bar",
+      });
+    });
+
+    it("reads the dataset of routes sent a datasetId", async () => {
+      startServer({ "generate-data-story": "not json" });
+      const datasetId = await upload([CSV_DATA]);
+      await post(`/datasets/${datasetId}/complete`, { chunkCount: 1 });
+
+      await post("/generate-data-story", { datasetId });
+      const { status, body } = await post("/render-charts", {
+        datasetId,
+        charts: [SALES_CHART],
+        format: "svg",
+      });
+
+      expect(mock.requests[0].prompt).toContain("Dataset: 2 rows, 2 columns");
+      expect(status).toBe(200);
+      expect(body).toMatchObject({ chartsGenerated: 1, renderer: "native" });
+    });
+
+    it("reports missing chunks, unfinished uploads and unknown datasets", async () => {
+      startServer({});
+      const datasetId = await upload(["Region,Sales\n"]);
+
+      expect(
+        await post(`/datasets/${datasetId}/complete`, { chunkCount: 2 }),
+      ).toEqual({
+        status: 400,
+        body: {
+          error: "Failed to complete the upload",
+          category: "invalid_request",
+          details: "Chunk 1 is missing",
+        },
+      });
+      expect(await post("/detect-anomalies", { datasetId })).toMatchObject({
+        status: 409,
+        body: { category: "incomplete" },
+      });
+      expect(await send("DELETE", `/datasets/${datasetId}`)).toEqual({
+        status: 200,
+        body: { datasetId, deleted: true },
+      });
+      expect(await post("/detect-anomalies", { datasetId })).toMatchObject({
+        status: 404,
+        body: {
+          error: "Failed to read the dataset",
+          category: "unknown_dataset",
+        },
+      });
+      expect(await post("/detect-anomalies", {})).toEqual({
+        status: 400,
+        body: { error: "datasetId or csvData is required" },
+      });
+    });
+
+    it("refuses datasets larger than the store keeps", async () => {
+      startServer(
+        {},
+        {
+          datasets: new DatasetStore({
+            ttlMs: 60_000,
+            maxBytes: 10,
+            maxDatasets: 5,
+          }),
+        },
+      );
+      const { body } = await post("/datasets", {});
+
+      expect(
+        await send("PUT", `/datasets/${body.datasetId}/chunks/0`, {
+          data: CSV_DATA,
+        }),
+      ).toMatchObject({ status: 413, body: { category: "too_large" } });
+    });
+  });
+
+  describe("Google Sheets", () => {
+    let fake: FakeSheetsServer;
+    let tempDir: string;
+    let liveSync: LiveSyncScheduler;
+    let orders: FakeCell[][];
+
+    beforeEach(async () => {
+      orders = [
+        ["Region", "Sales", "Paid"],
+        ["North", 100, true],
+        ["South", 200, false],
+      ];
+      fake = await new FakeSheetsServer({
+        spreadsheets: [
+          {
+            id: "sales",
+            title: "Sales",
+            public: true,
+            tabs: [
+              { title: "Orders", rows: orders },
+              { title: "Notes", rows: [["Note"], ["Q1 was slow"]] },
+            ],
+          },
+          { id: "private", title: "Private", tabs: [] },
+        ],
+        apiKeys: ["key"],
+      }).start();
+      const sheets = new GoogleSheetsClient({
+        apiUrl: fake.apiUrl,
+        credentials: { kind: "api_key", apiKey: "key" },
+        pageRows: 100,
+        maxRows: 1000,
+        timeoutMs: 5000,
+      });
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "live-sync-"));
+      const settings = {
+        ...loadLiveSyncSettings({}),
+        dbPath: path.join(tempDir, "db.json"),
+      };
+      liveSync = new LiveSyncScheduler(
+        ({ sheetId, range }) => sheets.readRange(sheetId, range),
+        new JSONFileDatabase<LiveSyncData>({ syncs: [] }, settings.dbPath),
+        settings,
+      );
+      startServer({}, { sheets, liveSync });
+    });
+
+    afterEach(async () => {
+      liveSync.stop();
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      await fake.close();
+    });
+
+    it("fetches a range as typed CSV", async () => {
+      const { status, body } = await post("/fetch-sheet-data", {
+        sheetId: "https://docs.google.com/spreadsheets/d/sales/edit",
+        range: "Orders!A:C",
+      });
+
+      expect(status).toBe(200);
+      expect(body).toMatchObject({
+        csvData: "Region,Sales,Paid\nNorth,100,true\nSouth,200,false",
+        rowCount: 2,
+        truncated: false,
+        sheetInfo: {
+          sheetId: "https://docs.google.com/spreadsheets/d/sales/edit",
+          title: "Sales",
+          tab: "Orders",
+          range: "Orders!A1:C3",
+          columns: ["Region", "Sales", "Paid"],
+          columnTypes: { Region: "string", Sales: "number", Paid: "boolean" },
+        },
+      });
+    });
+
+    it("fetches several tabs at once", async () => {
+      const { body } = await post("/fetch-sheet-data", {
+        sheetId: "sales",
+        ranges: ["Orders", "Notes"],
+      });
+
+      expect(
+        (body.sheets as { sheetInfo: { tab: string } }[]).map(
+          (sheet) => sheet.sheetInfo.tab,
+        ),
+      ).toEqual(["Orders", "Notes"]);
+    });
+
+    it("reports private spreadsheets and bad requests", async () => {
+      const denied = await post("/fetch-sheet-data", { sheetId: "private" });
+      expect(denied.status).toBe(403);
+      expect(denied.body).toMatchObject({
+        error: "Failed to fetch sheet data",
+        category: "permission_denied",
+      });
+
+      const missing = await post("/fetch-sheet-data", { range: "A1:B2" });
+      expect(missing).toEqual({
+        status: 400,
+        body: { error: "sheetId is required" },
+      });
+    });
+
+    it("lists the tabs of a spreadsheet", async () => {
+      const { body } = await send("GET", "/sheets/sales");
+
+      expect(body).toMatchObject({
+        id: "sales",
+        title: "Sales",
+        tabs: [{ title: "Orders" }, { title: "Notes" }],
+      });
+    });
+
+    it("sets up a live sync and reports its status", async () => {
+      const setup = await post("/setup-live-sync", {
+        sheetId: "sales",
+        range: "Orders",
+        refreshInterval: 120_000,
+      });
+      expect(setup.status).toBe(200);
+      expect(setup.body).toMatchObject({
+        config: {
+          sheetId: "sales",
+          range: "Orders",
+          refreshInterval: 120_000,
+        },
+        rowCount: 2,
+      });
+      const syncId = setup.body.syncId as string;
+
+      await post("/fetch-sheet-data", {
+        sheetId: "sales",
+        range: "Orders",
+        syncId,
+      });
+      const { body } = await send("GET", `/sync-status/${syncId}`);
+
+      expect(body).toMatchObject({
+        syncId,
+        active: true,
+        status: "active",
+        rowCount: 2,
+        consecutiveFailures: 0,
+      });
+      expect(
+        (body.history as { outcome: string }[]).map((run) => run.outcome),
+      ).toEqual(["unchanged", "initial"]);
+    });
+
+    it("pauses, resumes and deletes live syncs", async () => {
+      const { body: setup } = await post("/setup-live-sync", {
+        sheetId: "sales",
+      });
+      const syncId = setup.syncId as string;
+
+      const paused = await post(`/live-sync/${syncId}/pause`, {});
+      expect(paused.body).toMatchObject({ active: false, status: "paused" });
+      const resumed = await post(`/live-sync/${syncId}/resume`, {
+        refreshInterval: 600_000,
+      });
+      expect(resumed.body).toMatchObject({
+        status: "active",
+        refreshInterval: 600_000,
+      });
+      expect((await send("GET", "/live-syncs")).body.syncs).toHaveLength(1);
+
+      expect(await send("DELETE", `/live-sync/${syncId}`)).toEqual({
+        status: 200,
+        body: { syncId, deleted: true },
+      });
+      const missing = await send("GET", `/sync-status/${syncId}`);
+      expect(missing.status).toBe(404);
+      expect(missing.body.category).toBe("not_found");
+    });
+
+    it("streams what happens to watched live syncs", async () => {
+      const { body: setup } = await post("/setup-live-sync", {
+        sheetId: "sales",
+        range: "Orders",
+      });
+      const syncId = setup.syncId as string;
+      const stream = await openStream(`/live-sync/events?syncIds=${syncId}`);
+
+      try {
+        expect(await stream.next()).toMatchObject({
+          event: "ready",
+          data: { syncs: [{ syncId, rowCount: 2 }] },
+        });
+
+        orders.push(["East", 50, true]);
+        await liveSync.syncNow(syncId);
+        expect(await stream.next()).toMatchObject({
+          event: "run",
+          data: {
+            sync: { syncId, rowCount: 3 },
+            run: { outcome: "changed", diff: { added: 1, changed: 0 } },
+          },
+        });
+
+        await liveSync.pause(syncId);
+        expect(await stream.next()).toMatchObject({
+          event: "status",
+          data: { sync: { syncId, status: "paused" } },
+        });
+
+        await liveSync.delete(syncId);
+        expect(await stream.next()).toEqual({
+          event: "deleted",
+          data: { syncId },
+        });
+      } finally {
+        stream.close();
+      }
+    });
+
+    it("refuses to watch unknown live syncs", async () => {
+      const { status, body } = await send(
+        "GET",
+        "/live-sync/events?syncIds=missing",
+      );
+
+      expect(status).toBe(404);
+      expect(body.category).toBe("not_found");
+    });
+
+    it("refuses live syncs of sheets it can't read", async () => {
+      const { status, body } = await post("/setup-live-sync", {
+        sheetId: "private",
+      });
+
+      expect(status).toBe(403);
+      expect(body).toMatchObject({
+        error: "Failed to setup live sync",
+        category: "permission_denied",
+      });
+      expect(await liveSync.list()).toEqual([]);
+    });
+  });
+
+  describe("streaming", () => {
+    const chatReply = JSON.stringify({
+      action: "help",
+      response: 'Upload a CSV "file" to begin.',
+    });
+
+    it("streams the response text of /chat-orchestrator before the result", async () => {
+      startServer({ "chat-orchestrator": chatReply });
+
+      const events = await postStream("/chat-orchestrator/stream", {
+        message: "what can you do?",
+        hasData: false,
+      });
+
+      expect(events[0]).toEqual({
+        event: "progress",
+        data: { stage: "interpreting", message: "Reading your message" },
+      });
+      const tokens = events.filter(({ event }) => event === "token");
+      expect(tokens.length).toBeGreaterThan(1);
+      expect(tokens.map(({ data }) => data.text).join("")).toBe(
+        'Upload a CSV "file" to begin.',
+      );
+      expect(events[events.length - 1]).toEqual({
+        event: "result",
+        data: {
+          action: "help",
+          response: 'Upload a CSV "file" to begin.',
+          query: "",
+          formula: "",
+          columnName: "",
+        },
+      });
+    });
+
+    it("restarts the streamed text when the reply is repaired", async () => {
+      startServer({
+        "chat-orchestrator": [
+          '{"action": "dance", "response": "Wrong"}',
+          chatReply,
+        ],
+      });
+
+      const events = await postStream("/chat-orchestrator/stream", {
+        message: "help",
+      });
+      const names = events.map(({ event }) => event);
+      const repair = names.findIndex(
+        (name, index) =>
+          name === "progress" && events[index].data.stage === "repairing",
+      );
+
+      expect(repair).toBeGreaterThan(0);
+      expect(
+        events
+          .slice(repair)
+          .filter(({ event }) => event === "token")
+          .map(({ data }) => data.text)
+          .join(""),
+      ).toBe('Upload a CSV "file" to begin.');
+      expect(names[names.length - 1]).toBe("result");
+    });
+
+    it("streams /analyze-csv progress and the summary", async () => {
+      startServer({
+        "analyze-csv": JSON.stringify({
+          data_summary: "Sales by region.",
+          insights: ["South sells more"],
+          suggested_charts: ["bar"],
+          charts: [SALES_CHART],
+        }),
+      });
+
+      const events = await postStream("/analyze-csv/stream", {
+        csvData: CSV_DATA,
+      });
+      const stages = events
+        .filter(({ event }) => event === "progress")
+        .map(({ data }) => data.stage);
+
+      expect(stages).toEqual(["profiling", "analyzing", "designing charts"]);
+      expect(events[1].data.message).toBe("Analyzing 2 rows and 2 columns");
+      expect(
+        events
+          .filter(({ event }) => event === "token")
+          .map(({ data }) => data.text)
+          .join(""),
+      ).toBe("Sales by region.");
+      expect(events[events.length - 1]).toEqual({
+        event: "result",
+        data: {
+          data_summary: "Sales by region.",
+          insights: ["South sells more"],
+          suggested_charts: ["bar"],
+          charts: [SALES_CHART],
+        },
+      });
+    });
+
+    it("ends the stream with an error event when the provider fails", async () => {
+      startServer({});
+
+      const events = await postStream("/chat-orchestrator/stream", {
+        message: "help",
+      });
+
+      expect(events[events.length - 1]).toEqual({
+        event: "error",
+        data: {
+          error: "Failed to process chat message",
+          details: 'No recorded response for route "chat-orchestrator"',
+        },
+      });
+    });
+
+    it("rejects invalid requests before opening the stream", async () => {
+      startServer({});
+
+      const { status, body } = await post("/chat-orchestrator/stream", {});
+
+      expect(status).toBe(400);
+      expect(body).toEqual({ error: "message is required" });
+    });
+  });
+});
@@ -0,0 +1,19 @@
+export type {
+  LatencySummary,
+  PythonJobOptions,
+  PythonJobResult,
+  SandboxSettings,
+  SandboxStats,
+} from "./python_sandbox";
+export {
+  createPythonSandbox,
+  loadSandboxSettings,
+  PythonSandbox,
+} from "./python_sandbox";
+export type { SandboxErrorCategory, SandboxViolation } from "./sandbox_error";
+export {
+  SANDBOX_ERROR_CATEGORIES,
+  SandboxConfigError,
+  SandboxError,
+  statusForSandboxError,
+} from "./sandbox_error";
@@ -0,0 +1,559 @@
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { readPositiveNumber } from "../env";
+import type { WorkerJob } from "./python_worker";
+import { PythonWorker } from "./python_worker";
+import { SandboxConfigError, SandboxError } from "./sandbox_error";
+
+/**
+ * Where Python lives, how many workers run it and how much a single job may
+ * use.
+ */
+export interface SandboxSettings {
+  /** The Python interpreter, which needs pandas, matplotlib and seaborn. */
+  python: string;
+  /** Wall-clock time after which a job is killed. */
+  timeoutMs: number;
+  /** The address space each worker may use, in megabytes. */
+  memoryMb: number;
+  /** The CPU time a job may use, in seconds. */
+  cpuSeconds: number;
+  /** How many jobs run at once, each in its own worker process. */
+  workers: number;
+  /** How many jobs may wait for a worker before new ones are turned away. */
+  maxQueuedJobs: number;
+  /** Jobs a worker runs before it is replaced with a fresh process. */
+  jobsPerWorker: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MEMORY_MB = 1024;
+const DEFAULT_WORKERS = 2;
+const DEFAULT_MAX_QUEUED_JOBS = 50;
+const DEFAULT_JOBS_PER_WORKER = 50;
+
+// How many datasets are kept on disk for workers to load, besides those
+// that jobs still need
+const DATASET_FILE_LIMIT = 16;
+
+// How many recent jobs the latency figures cover
+const LATENCY_SAMPLE_SIZE = 200;
+
+/**
+ * Reads the sandbox settings from `PYTHON_SANDBOX_PYTHON` (default `python3`),
+ * `PYTHON_SANDBOX_TIMEOUT_MS` (30 seconds), `PYTHON_SANDBOX_MEMORY_MB` (1024),
+ * `PYTHON_SANDBOX_CPU_SECONDS` (the timeout, rounded up),
+ * `PYTHON_SANDBOX_WORKERS` (2), `PYTHON_SANDBOX_MAX_QUEUE` (50) and
+ * `PYTHON_SANDBOX_JOBS_PER_WORKER` (50).
+ *
+ * @throws SandboxConfigError if a limit isn't a positive number.
+ */
+export const loadSandboxSettings = (
+  env: NodeJS.ProcessEnv = process.env,
+): SandboxSettings => {
+  const timeoutMs = readPositiveNumber(
+    env,
+    "PYTHON_SANDBOX_TIMEOUT_MS",
+    DEFAULT_TIMEOUT_MS,
+    SandboxConfigError,
+  );
+  const readCount = (name: string, fallback: number) =>
+    Math.ceil(readPositiveNumber(env, name, fallback, SandboxConfigError));
+  return {
+    python: env.PYTHON_SANDBOX_PYTHON || "python3",
+    timeoutMs,
+    memoryMb: readPositiveNumber(
+      env,
+      "PYTHON_SANDBOX_MEMORY_MB",
+      DEFAULT_MEMORY_MB,
+      SandboxConfigError,
+    ),
+    cpuSeconds: readCount(
+      "PYTHON_SANDBOX_CPU_SECONDS",
+      Math.ceil(timeoutMs / 1000),
+    ),
+    workers: readCount("PYTHON_SANDBOX_WORKERS", DEFAULT_WORKERS),
+    maxQueuedJobs: readCount(
+      "PYTHON_SANDBOX_MAX_QUEUE",
+      DEFAULT_MAX_QUEUED_JOBS,
+    ),
+    jobsPerWorker: readCount(
+      "PYTHON_SANDBOX_JOBS_PER_WORKER",
+      DEFAULT_JOBS_PER_WORKER,
+    ),
+  };
+};
+
+export interface PythonJobOptions {
+  /** Called as each chart is saved, with its PNG as a data URL. */
+  onChart?: (image: string, index: number, total: number) => void;
+  /** Cancels the job, e.g. when the client that asked for it disconnects. */
+  signal?: AbortSignal;
+}
+
+export interface PythonJobResult {
+  /** Every figure the code left open, as PNG data URLs. */
+  chartImages: string[];
+  /** What the code printed. */
+  stdout: string;
+  timings: {
+    /** Time spent waiting for a free worker. */
+    queuedMs: number;
+    /** Time the worker spent running the code and saving its charts. */
+    runMs: number;
+  };
+}
+
+export interface LatencySummary {
+  /** The number of jobs the figures cover. */
+  count: number;
+  meanMs: number;
+  p50Ms: number;
+  p95Ms: number;
+  maxMs: number;
+}
+
+/**
+ * A snapshot of the pool, for health checks and monitoring.
+ */
+export interface SandboxStats {
+  workers: {
+    /** Started but still loading the chart libraries. */
+    starting: number;
+    idle: number;
+    busy: number;
+    /** The most workers the pool runs at once. */
+    limit: number;
+  };
+  queuedJobs: number;
+  jobs: {
+    completed: number;
+    failed: number;
+    /** Turned away because the queue was full. */
+    rejected: number;
+  };
+  /** Workers replaced after `jobsPerWorker` jobs or a job that broke them. */
+  workersRecycled: number;
+  /** Workers that exited on their own, e.g. after a crash. */
+  workersCrashed: number;
+  /** Latency over recent jobs. */
+  latency: {
+    queue: LatencySummary;
+    run: LatencySummary;
+  };
+}
+
+// A dataset written to disk, and how many jobs still need it
+interface DatasetFile {
+  file: string;
+  written: Promise<void>;
+  jobs: number;
+}
+
+interface QueuedJob {
+  job: WorkerJob;
+  options: PythonJobOptions;
+  queuedAt: number;
+  resolve: (result: PythonJobResult) => void;
+  reject: (error: unknown) => void;
+}
+
+// A worker is only reused after failures that can't have disturbed it. After
+// anything else (running out of memory, a sandbox violation, a timeout or a
+// cancelled job) it is replaced.
+const REUSE_AFTER = new Set(["validation", "runtime"]);
+
+const summarizeLatency = (samples: number[]): LatencySummary => {
+  if (samples.length === 0) {
+    return { count: 0, meanMs: 0, p50Ms: 0, p95Ms: 0, maxMs: 0 };
+  }
+  const sorted = [...samples].sort((a, b) => a - b);
+  const at = (quantile: number) =>
+    sorted[Math.min(sorted.length - 1, Math.floor(quantile * sorted.length))];
+  return {
+    count: sorted.length,
+    meanMs: Math.round(
+      sorted.reduce((total, sample) => total + sample, 0) / sorted.length,
+    ),
+    p50Ms: at(0.5),
+    p95Ms: at(0.95),
+    maxMs: sorted[sorted.length - 1],
+  };
+};
+
+const recordSample = (samples: number[], sample: number) => {
+  samples.push(sample);
+  if (samples.length > LATENCY_SAMPLE_SIZE) {
+    samples.shift();
+  }
+};
+
+/**
+ * Runs chart code in a pool of long-lived Python worker processes that have
+ * pandas, matplotlib, seaborn and numpy already imported. Each worker caches
+ * the datasets it has parsed, and a job goes to a free worker that has its
+ * dataset cached when there is one.
+ *
+ * Jobs are sandboxed. Before running, the code is parsed and rejected if it
+ * imports a module outside the allowed set or uses a builtin such as `open`
+ * or `eval`. While running, it can't open network connections, start
+ * processes or touch files outside its own temporary directory, and it fails
+ * if it exceeds the memory, CPU or wall-clock limit. Workers that crash, time
+ * out or may have been left in a bad state are replaced.
+ */
+export class PythonSandbox {
+  private readonly workers: PythonWorker[] = [];
+  private readonly queue: QueuedJob[] = [];
+  // In the order they were last used
+  private readonly datasets = new Map<string, DatasetFile>();
+  private readonly datasetFileOps = new Map<string, Promise<void>>();
+  private readonly retiring = new Set<PythonWorker>();
+  private baseDir?: string;
+  private nextJobId = 1;
+  private closed = false;
+
+  private completed = 0;
+  private failed = 0;
+  private rejected = 0;
+  private recycled = 0;
+  private crashed = 0;
+  private readonly queueLatency: number[] = [];
+  private readonly runLatency: number[] = [];
+
+  constructor(readonly settings: SandboxSettings) {}
+
+  /**
+   * Starts every worker now instead of when the first jobs arrive, so those
+   * jobs don't wait for the chart libraries to load.
+   */
+  warmUp() {
+    while (!this.closed && this.workers.length < this.settings.workers) {
+      this.startWorker();
+    }
+  }
+
+  /**
+   * Runs `pythonCode` with `csvData` loaded as the pandas DataFrame `data` and
+   * collects every figure it leaves open.
+   * @throws SandboxError if the code is rejected, fails or exceeds a limit,
+   * or with the `busy` category if too many jobs are already waiting.
+   */
+  async run(
+    csvData: string,
+    pythonCode: string,
+    options: PythonJobOptions = {},
+  ): Promise<PythonJobResult> {
+    if (options.signal?.aborted) {
+      throw options.signal.reason;
+    }
+    if (this.closed) {
+      throw new SandboxError("internal", "The sandbox has been shut down");
+    }
+
+    const datasetKey = createHash("sha256").update(csvData).digest("hex");
+    const dataset = this.holdDataset(datasetKey, csvData);
+    try {
+      await dataset.written;
+      const jobDir = await fs.promises.mkdtemp(
+        path.join(this.directory("jobs"), "job-"),
+      );
+      try {
+        return await this.enqueue(
+          {
+            id: this.nextJobId++,
+            code: pythonCode,
+            datasetKey,
+            csvPath: dataset.file,
+            jobDir,
+            cpuSeconds: this.settings.cpuSeconds,
+          },
+          options,
+        );
+      } finally {
+        await fs.promises.rm(jobDir, { recursive: true, force: true });
+      }
+    } finally {
+      dataset.jobs--;
+      this.evictDatasets();
+    }
+  }
+
+  stats(): SandboxStats {
+    const ready = this.workers.filter((worker) => worker.isReady);
+    const busy = ready.filter((worker) => worker.busy).length;
+    return {
+      workers: {
+        starting: this.workers.length - ready.length,
+        idle: ready.length - busy,
+        busy,
+        limit: this.settings.workers,
+      },
+      queuedJobs: this.queue.length,
+      jobs: {
+        completed: this.completed,
+        failed: this.failed,
+        rejected: this.rejected,
+      },
+      workersRecycled: this.recycled,
+      workersCrashed: this.crashed,
+      latency: {
+        queue: summarizeLatency(this.queueLatency),
+        run: summarizeLatency(this.runLatency),
+      },
+    };
+  }
+
+  /**
+   * Stops every worker, fails waiting jobs and deletes the pool's files.
+   */
+  async close() {
+    this.closed = true;
+    const shutDown = new SandboxError(
+      "internal",
+      "The sandbox has been shut down",
+    );
+    for (const queued of this.queue.splice(0)) {
+      queued.reject(shutDown);
+    }
+    for (const worker of this.workers) {
+      this.retiring.add(worker);
+      worker.stop(shutDown);
+    }
+    if (this.baseDir) {
+      await fs.promises.rm(this.baseDir, { recursive: true, force: true });
+    }
+  }
+
+  // The pool's files live in one temporary directory, created on first use
+  private directory(name?: string) {
+    if (!this.baseDir) {
+      this.baseDir = fs.mkdtempSync(path.join(os.tmpdir(), "python-sandbox-"));
+      fs.mkdirSync(path.join(this.baseDir, "jobs"));
+      fs.mkdirSync(path.join(this.baseDir, "datasets"));
+    }
+    return name ? path.join(this.baseDir, name) : this.baseDir;
+  }
+
+  // Datasets are written once and shared by every job on the same data. The
+  // job holds its dataset until it's done, so the file isn't evicted while
+  // the job waits for a worker.
+  private holdDataset(key: string, csvData: string) {
+    let dataset = this.datasets.get(key);
+    if (dataset) {
+      this.datasets.delete(key);
+    } else {
+      const file = path.join(this.directory("datasets"), `${key}.csv`);
+      const created: DatasetFile = {
+        file,
+        jobs: 0,
+        written: this.onDatasetFile(key, () =>
+          fs.promises.writeFile(file, csvData),
+        ),
+      };
+      // The next job on the data writes it again
+      created.written.catch(() => {
+        if (this.datasets.get(key) === created) {
+          this.datasets.delete(key);
+        }
+      });
+      dataset = created;
+    }
+    dataset.jobs++;
+    this.datasets.set(key, dataset);
+    this.evictDatasets();
+    return dataset;
+  }
+
+  // Removes the least recently used datasets that no job holds, until there
+  // are no more than the limit
+  private evictDatasets() {
+    for (const [key, dataset] of this.datasets) {
+      if (this.datasets.size <= DATASET_FILE_LIMIT) {
+        break;
+      }
+      if (dataset.jobs === 0) {
+        this.datasets.delete(key);
+        // A file that can't be removed goes with the pool's directory
+        this.onDatasetFile(key, () =>
+          fs.promises.rm(dataset.file, { force: true }),
+        ).catch(() => undefined);
+      }
+    }
+  }
+
+  // Runs the writes and removals of a dataset's file one after another, so a
+  // dataset written again just after it was evicted isn't removed
+  private onDatasetFile(key: string, operation: () => Promise<void>) {
+    const previous = this.datasetFileOps.get(key) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(operation);
+    this.datasetFileOps.set(key, next);
+    const forget = () => {
+      if (this.datasetFileOps.get(key) === next) {
+        this.datasetFileOps.delete(key);
+      }
+    };
+    next.then(forget, forget);
+    return next;
+  }
+
+  private enqueue(job: WorkerJob, options: PythonJobOptions) {
+    return new Promise<PythonJobResult>((resolve, reject) => {
+      if (options.signal?.aborted) {
+        throw options.signal.reason;
+      }
+      if (this.queue.length >= this.settings.maxQueuedJobs) {
+        this.rejected++;
+        throw new SandboxError(
+          "busy",
+          `${this.queue.length} jobs are already waiting; try again shortly`,
+        );
+      }
+      const { signal } = options;
+      const queued: QueuedJob = {
+        job,
+        options,
+        queuedAt: Date.now(),
+        resolve: (result) => {
+          signal?.removeEventListener("abort", cancel);
+          resolve(result);
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", cancel);
+          reject(error);
+        },
+      };
+      // Once a worker has the job, the worker handles cancelling it
+      const cancel = () => {
+        const index = this.queue.indexOf(queued);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          queued.reject(signal?.reason);
+        }
+      };
+      signal?.addEventListener("abort", cancel);
+      this.queue.push(queued);
+      this.dispatch();
+    });
+  }
+
+  // Hands waiting jobs to idle workers, starting more workers if needed
+  private dispatch() {
+    while (this.queue.length > 0) {
+      const worker = this.idleWorkerFor(this.queue[0].job.datasetKey);
+      if (!worker) {
+        break;
+      }
+      this.execute(worker, this.queue.shift() as QueuedJob);
+    }
+
+    const starting = this.workers.filter((worker) => !worker.isReady).length;
+    for (
+      let waiting = this.queue.length - starting;
+      waiting > 0 && this.workers.length < this.settings.workers;
+      waiting--
+    ) {
+      this.startWorker();
+    }
+  }
+
+  private idleWorkerFor(datasetKey: string) {
+    const idle = this.workers.filter(
+      (worker) => worker.isReady && !worker.busy && !this.retiring.has(worker),
+    );
+    return (
+      idle.find((worker) => worker.datasets.includes(datasetKey)) ?? idle[0]
+    );
+  }
+
+  private startWorker() {
+    const worker = new PythonWorker({
+      python: this.settings.python,
+      memoryMb: this.settings.memoryMb,
+      homeDir: this.directory(),
+      onExit: (exited) => this.removeWorker(exited),
+    });
+    this.workers.push(worker);
+    worker.ready.then(
+      () => this.dispatch(),
+      (e) => {
+        // Python or the libraries are missing, so waiting jobs would only
+        // fail the same way on the next worker.
+        if (!this.workers.some((other) => other.isReady)) {
+          for (const queued of this.queue.splice(0)) {
+            this.failed++;
+            queued.reject(e);
+          }
+        }
+      },
+    );
+  }
+
+  private removeWorker(worker: PythonWorker) {
+    const index = this.workers.indexOf(worker);
+    if (index !== -1) {
+      this.workers.splice(index, 1);
+    }
+    if (this.retiring.delete(worker) || worker.stopped) {
+      this.recycled++;
+    } else if (worker.isReady) {
+      this.crashed++;
+    }
+    if (!this.closed) {
+      this.dispatch();
+    }
+  }
+
+  private execute(worker: PythonWorker, queued: QueuedJob) {
+    const started = Date.now();
+    const queuedMs = started - queued.queuedAt;
+    recordSample(this.queueLatency, queuedMs);
+
+    worker
+      .run(queued.job, {
+        timeoutMs: this.settings.timeoutMs,
+        onChart: queued.options.onChart,
+        signal: queued.options.signal,
+      })
+      .then(
+        ({ chartImages, stdout }) => {
+          const runMs = Date.now() - started;
+          recordSample(this.runLatency, runMs);
+          this.completed++;
+          queued.resolve({ chartImages, stdout, timings: { queuedMs, runMs } });
+        },
+        (e) => {
+          recordSample(this.runLatency, Date.now() - started);
+          this.failed++;
+          if (!(e instanceof SandboxError && REUSE_AFTER.has(e.category))) {
+            this.retire(worker);
+          }
+          queued.reject(e);
+        },
+      )
+      .finally(() => {
+        if (worker.jobsRun >= this.settings.jobsPerWorker) {
+          this.retire(worker);
+        }
+        this.dispatch();
+      });
+  }
+
+  // Replaces a worker; its exit starts a new one if jobs are waiting
+  private retire(worker: PythonWorker) {
+    if (!worker.exited && !this.retiring.has(worker)) {
+      this.retiring.add(worker);
+      worker.stop();
+    }
+  }
+}
+
+/**
+ * Creates a sandbox configured from the environment. Workers start with the
+ * first job; call {@link PythonSandbox.warmUp} to start them sooner.
+ * @see loadSandboxSettings
+ */
+export const createPythonSandbox = (
+  env: NodeJS.ProcessEnv = process.env,
+): PythonSandbox => new PythonSandbox(loadSandboxSettings(env));
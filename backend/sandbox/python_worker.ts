@@ -0,0 +1,339 @@
+import type { ChildProcess } from "node:child_process";
+import { spawn } from "node:child_process";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { Readable, Writable } from "node:stream";
+import type { SandboxErrorCategory, SandboxViolation } from "./sandbox_error";
+import { SANDBOX_ERROR_CATEGORIES, SandboxError } from "./sandbox_error";
+
+const WORKER_PATH = path.join(__dirname, "sandbox_worker.py");
+
+// Matches DATASET_CACHE_SIZE in sandbox_worker.py
+const DATASET_CACHE_SIZE = 4;
+
+// Stderr past this is dropped; it is only kept to explain crashes
+const MAX_STDERR_LENGTH = 100_000;
+
+/**
+ * One job as sent to a worker. The CSV at `csvPath` is only read if the
+ * worker hasn't already cached the dataset under `datasetKey`.
+ */
+export interface WorkerJob {
+  id: number;
+  code: string;
+  datasetKey: string;
+  csvPath: string;
+  jobDir: string;
+  cpuSeconds: number;
+}
+
+export interface WorkerJobResult {
+  chartImages: string[];
+  stdout: string;
+}
+
+// Messages sent by sandbox_worker.py on file descriptor 3
+type WorkerMessage =
+  | { type: "ready" }
+  | { type: "rejected"; id: number; violations: SandboxViolation[] }
+  | {
+      type: "chart";
+      id: number;
+      index: number;
+      total: number;
+      file: string;
+    }
+  | {
+      type: "failed";
+      id: number;
+      category: SandboxErrorCategory;
+      message: string;
+      line?: number;
+    }
+  | { type: "done"; id: number; charts: number; stdout: string };
+
+interface RunningJob {
+  job: WorkerJob;
+  chartImages: string[];
+  onChart?: (image: string, index: number, total: number) => void;
+  resolve: (result: WorkerJobResult) => void;
+  reject: (error: unknown) => void;
+  /** Set when the worker was killed on purpose, to explain its exit. */
+  stopReason?: unknown;
+}
+
+const toJobError = (message: WorkerMessage) => {
+  switch (message.type) {
+    case "rejected": {
+      const [first] = message.violations;
+      return new SandboxError(
+        "validation",
+        message.violations
+          .map(({ line, message }) =>
+            line == null ? message : `Line ${line}: ${message}`,
+          )
+          .join("; "),
+        first?.line ?? undefined,
+        message.violations,
+      );
+    }
+    case "failed":
+      return new SandboxError(
+        SANDBOX_ERROR_CATEGORIES.includes(message.category)
+          ? message.category
+          : "internal",
+        message.message,
+        message.line ?? undefined,
+      );
+    default:
+      return undefined;
+  }
+};
+
+export interface PythonWorkerOptions {
+  python: string;
+  memoryMb: number;
+  /** The worker's working and home directory. */
+  homeDir: string;
+  /** Called once the process has exited, for whatever reason. */
+  onExit: (worker: PythonWorker) => void;
+}
+
+// Workers get a fresh environment: nothing from the server's environment leaks
+// in (API keys, proxy settings), and every directory a library might write to
+// points at the worker's home directory.
+const workerEnvironment = (homeDir: string): NodeJS.ProcessEnv => {
+  const env: NodeJS.ProcessEnv = {
+    HOME: homeDir,
+    TMPDIR: homeDir,
+    MPLCONFIGDIR: homeDir,
+    LANG: "C.UTF-8",
+    PYTHONDONTWRITEBYTECODE: "1",
+    // Native thread pools reserve memory per thread, which counts against the
+    // memory limit.
+    OPENBLAS_NUM_THREADS: "1",
+    OMP_NUM_THREADS: "1",
+  };
+  for (const name of ["PATH", "PYTHONPATH"]) {
+    if (process.env[name]) {
+      env[name] = process.env[name];
+    }
+  }
+  return env;
+};
+
+/**
+ * A long-lived Python process that has the chart libraries loaded and runs
+ * one job at a time. See sandbox_worker.py for the protocol.
+ */
+export class PythonWorker {
+  readonly ready: Promise<void>;
+  isReady = false;
+  /** Set once `stop` has been called. */
+  stopped = false;
+  exited = false;
+  jobsRun = 0;
+  /** The keys of the datasets the worker has cached, least recent first. */
+  readonly datasets: string[] = [];
+
+  private readonly process: ChildProcess;
+  private running?: RunningJob;
+  private stderr = "";
+
+  constructor(private readonly options: PythonWorkerOptions) {
+    this.process = spawn(
+      options.python,
+      [WORKER_PATH, String(options.memoryMb)],
+      {
+        cwd: options.homeDir,
+        env: workerEnvironment(options.homeDir),
+        stdio: ["pipe", "ignore", "pipe", "pipe"],
+      },
+    );
+
+    // A worker that dies mid-write is reported by its exit, not by the pipe
+    (this.process.stdin as Writable).on("error", () => undefined);
+    (this.process.stdio[2] as Readable).on("data", (chunk: Buffer) => {
+      this.stderr = (this.stderr + chunk).slice(-MAX_STDERR_LENGTH);
+    });
+
+    let pending = "";
+    const channel = this.process.stdio[3] as Readable;
+    this.ready = new Promise<void>((resolve, reject) => {
+      channel.on("data", (chunk: Buffer) => {
+        const lines = (pending + chunk).split("\n");
+        pending = lines.pop() ?? "";
+        for (const line of lines.filter(Boolean)) {
+          const message: WorkerMessage = JSON.parse(line);
+          if (message.type === "ready") {
+            this.isReady = true;
+            resolve();
+          } else {
+            this.handle(message);
+          }
+        }
+      });
+      this.process.on("error", (e) => {
+        reject(
+          new SandboxError(
+            "internal",
+            `Python could not be started: ${e.message}`,
+          ),
+        );
+      });
+      this.process.on("close", (code, signal) => {
+        this.exited = true;
+        reject(
+          new SandboxError(
+            "internal",
+            `The Python worker failed to start: ${this.stderr.trim() || `exited with ${signal ?? `code ${code}`}`}`,
+          ),
+        );
+        this.finishWithExit(signal);
+        options.onExit(this);
+      });
+    });
+    // Start-up failures are reported through `ready` to whoever waits on it
+    this.ready.catch(() => undefined);
+  }
+
+  get busy() {
+    return this.running != null;
+  }
+
+  /**
+   * Runs a job. The worker is killed if the job runs past `timeoutMs` or
+   * `signal` aborts, since Python code can't be interrupted reliably.
+   * @throws SandboxError if the job is rejected, fails or exceeds a limit.
+   */
+  run(
+    job: WorkerJob,
+    {
+      timeoutMs,
+      onChart,
+      signal,
+    }: {
+      timeoutMs: number;
+      onChart?: (image: string, index: number, total: number) => void;
+      signal?: AbortSignal;
+    },
+  ): Promise<WorkerJobResult> {
+    this.jobsRun++;
+    this.useDataset(job.datasetKey);
+    return new Promise<WorkerJobResult>((resolve, reject) => {
+      const running: RunningJob = {
+        job,
+        chartImages: [],
+        onChart,
+        resolve,
+        reject,
+      };
+      this.running = running;
+
+      const timer = setTimeout(
+        () =>
+          this.stop(
+            new SandboxError(
+              "timeout",
+              `The code ran for longer than ${timeoutMs / 1000} seconds`,
+            ),
+          ),
+        timeoutMs,
+      );
+      const abort = () => this.stop(signal?.reason);
+      signal?.addEventListener("abort", abort);
+      const settle = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", abort);
+      };
+      running.resolve = (result) => {
+        settle();
+        resolve(result);
+      };
+      running.reject = (error) => {
+        settle();
+        reject(error);
+      };
+
+      (this.process.stdin as Writable).write(`${JSON.stringify(job)}\n`);
+    });
+  }
+
+  /** Stops the process. A running job fails with `reason`. */
+  stop(reason?: unknown) {
+    this.stopped = true;
+    if (this.running && reason !== undefined) {
+      this.running.stopReason = reason;
+    }
+    this.process.kill("SIGKILL");
+  }
+
+  private useDataset(key: string) {
+    const index = this.datasets.indexOf(key);
+    if (index !== -1) {
+      this.datasets.splice(index, 1);
+    }
+    this.datasets.push(key);
+    if (this.datasets.length > DATASET_CACHE_SIZE) {
+      this.datasets.shift();
+    }
+  }
+
+  private handle(message: WorkerMessage) {
+    const running = this.running;
+    if (!running || message.type === "ready" || message.id !== running.job.id) {
+      return;
+    }
+    if (message.type === "chart") {
+      const image = fs.readFileSync(
+        path.join(running.job.jobDir, message.file),
+      );
+      running.chartImages[message.index] =
+        `data:image/png;base64,${image.toString("base64")}`;
+      running.onChart?.(
+        running.chartImages[message.index],
+        message.index,
+        message.total,
+      );
+      return;
+    }
+    this.running = undefined;
+    if (message.type === "done") {
+      running.resolve({
+        chartImages: running.chartImages,
+        stdout: message.stdout,
+      });
+    } else {
+      running.reject(toJobError(message));
+    }
+  }
+
+  // Fails the running job, if any, once the process has gone
+  private finishWithExit(signal: NodeJS.Signals | null) {
+    const running = this.running;
+    if (!running) {
+      return;
+    }
+    this.running = undefined;
+    if (running.stopReason !== undefined) {
+      running.reject(running.stopReason);
+    } else if (signal === "SIGKILL" || this.stderr.includes("MemoryError")) {
+      // The kernel kills processes that run out of memory outright, and
+      // native code that fails to allocate sometimes aborts instead of
+      // raising MemoryError.
+      running.reject(
+        new SandboxError(
+          "memory",
+          `The code used more than ${this.options.memoryMb} MB of memory`,
+        ),
+      );
+    } else {
+      running.reject(
+        new SandboxError(
+          "internal",
+          `The Python worker stopped unexpectedly: ${this.stderr.trim() || `exited with ${signal ?? "an error"}`}`,
+        ),
+      );
+    }
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Why a sandboxed job failed:
+ * - `validation`: the code didn't parse, or imports a module or uses a builtin
+ *   the sandbox doesn't allow. Nothing was run.
+ * - `forbidden`: the code tried to reach the network, start a process or touch
+ *   files outside its job directory while running.
+ * - `timeout`: the job ran past its wall-clock or CPU time limit.
+ * - `memory`: the job ran past its memory limit.
+ * - `runtime`: the code raised an exception.
+ * - `busy`: too many jobs were already waiting for a worker. Nothing was run.
+ * - `internal`: the sandbox itself failed, e.g. Python or one of the chart
+ *   libraries isn't installed.
+ */
+export const SANDBOX_ERROR_CATEGORIES = [
+  "validation",
+  "forbidden",
+  "timeout",
+  "memory",
+  "runtime",
+  "busy",
+  "internal",
+] as const;
+
+export type SandboxErrorCategory = (typeof SANDBOX_ERROR_CATEGORIES)[number];
+
+/**
+ * A reason the pre-execution check rejected the code, with its position in
+ * the code when it has one.
+ */
+export interface SandboxViolation {
+  line?: number;
+  column?: number;
+  message: string;
+}
+
+export class SandboxError extends Error {
+  constructor(
+    readonly category: SandboxErrorCategory,
+    message: string,
+    /** The line of the submitted code the error points at, if any. */
+    readonly line?: number,
+    readonly violations: SandboxViolation[] = [],
+  ) {
+    super(message);
+
+    Object.setPrototypeOf(this, SandboxError.prototype);
+  }
+}
+
+const STATUS_BY_CATEGORY: Record<SandboxErrorCategory, number> = {
+  validation: 400,
+  forbidden: 403,
+  timeout: 408,
+  memory: 413,
+  runtime: 422,
+  busy: 503,
+  internal: 500,
+};
+
+/**
+ * The HTTP status a route responds with when a job fails for this reason.
+ */
+export const statusForSandboxError = (category: SandboxErrorCategory) =>
+  STATUS_BY_CATEGORY[category];
+
+export class SandboxConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+
+    Object.setPrototypeOf(this, SandboxConfigError.prototype);
+  }
+}
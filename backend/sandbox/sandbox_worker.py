@@ -0,0 +1,435 @@
+"""A long-lived chart worker for python_sandbox.ts.
+
+Usage: python3 sandbox_worker.py <memory limit in MB>
+
+The worker caps its own memory, imports the chart libraries once and then
+runs jobs one at a time. Each job arrives as one JSON line on stdin:
+
+    {"id", "code", "datasetKey", "csvPath", "jobDir", "cpuSeconds"}
+
+The worker reports back by writing one JSON message per line to file
+descriptor 3, so nothing a job prints can be mistaken for a message. Every
+message but the first carries the job's id:
+
+    {"type": "ready"}
+    {"type": "rejected", "id": 1, "violations": [{"line", "column", "message"}]}
+    {"type": "chart", "id": 1, "index": 0, "total": 2, "file": "chart_0.png"}
+    {"type": "failed", "id": 1, "category": "runtime", "message": "...", "line": 3}
+    {"type": "done", "id": 1, "charts": 2, "stdout": "..."}
+
+Datasets are parsed once per worker and cached by `datasetKey`, so repeated
+jobs on the same data skip reading the CSV.
+"""
+
+import ast
+import contextlib
+import io
+import json
+import os
+import resource
+import signal
+import sys
+import traceback
+from collections import OrderedDict
+
+# Modules generated code may import. Anything else, including `os`, `sys`,
+# `subprocess`, `socket` and `importlib`, is rejected before the code runs.
+ALLOWED_MODULES = {
+    "pandas",
+    "numpy",
+    "matplotlib",
+    "seaborn",
+    "scipy",
+    "sklearn",
+    "statsmodels",
+    "math",
+    "cmath",
+    "statistics",
+    "decimal",
+    "fractions",
+    "random",
+    "datetime",
+    "calendar",
+    "time",
+    "collections",
+    "itertools",
+    "functools",
+    "operator",
+    "re",
+    "string",
+    "textwrap",
+    "json",
+    "io",
+    "typing",
+    "dataclasses",
+    "warnings",
+}
+
+# Builtins that reach the filesystem, evaluate strings as code or let code
+# look up names the other checks would have caught.
+BLOCKED_BUILTINS = {
+    "open",
+    "exec",
+    "eval",
+    "compile",
+    "__import__",
+    "input",
+    "breakpoint",
+    "help",
+    "exit",
+    "quit",
+    "globals",
+    "locals",
+    "vars",
+    "getattr",
+    "setattr",
+    "delattr",
+    "memoryview",
+}
+
+CODE_FILENAME = "<generated>"
+
+
+def _violation(node, message):
+    return {
+        "line": getattr(node, "lineno", None),
+        "column": getattr(node, "col_offset", None),
+        "message": message,
+    }
+
+
+def _is_dunder(name):
+    return name.startswith("__") and name.endswith("__")
+
+
+def check_code(source):
+    """Returns the reasons `source` may not run, or an empty list."""
+    try:
+        tree = ast.parse(source, CODE_FILENAME)
+    except SyntaxError as e:
+        return [
+            {
+                "line": e.lineno,
+                "column": e.offset,
+                "message": f"Syntax error: {e.msg}",
+            }
+        ]
+
+    violations = []
+    for node in ast.walk(tree):
+        if isinstance(node, ast.Import):
+            for alias in node.names:
+                if alias.name.split(".")[0] not in ALLOWED_MODULES:
+                    violations.append(
+                        _violation(node, f"Import of '{alias.name}' is not allowed")
+                    )
+        elif isinstance(node, ast.ImportFrom):
+            module = node.module or ""
+            if node.level > 0 or module.split(".")[0] not in ALLOWED_MODULES:
+                violations.append(
+                    _violation(node, f"Import from '{'.' * node.level}{module}' is not allowed")
+                )
+        elif isinstance(node, ast.Name):
+            if node.id in BLOCKED_BUILTINS or _is_dunder(node.id):
+                violations.append(_violation(node, f"Use of '{node.id}' is not allowed"))
+        elif isinstance(node, ast.Attribute):
+            if _is_dunder(node.attr):
+                violations.append(
+                    _violation(node, f"Access to '{node.attr}' is not allowed")
+                )
+    return violations
+
+
+def apply_memory_limit(memory_mb):
+    """Caps the address space of this process."""
+    memory = memory_mb * 1024 * 1024
+    resource.setrlimit(resource.RLIMIT_AS, (memory, memory))
+
+
+class SandboxViolation(PermissionError):
+    """Raised by the audit hook when running code oversteps the sandbox."""
+
+
+class CpuLimitExceeded(BaseException):
+    """
+    Raised when a job uses up its CPU time. It isn't an Exception, so the
+    job's own `except Exception` blocks can't swallow it.
+    """
+
+
+# Audit events that open connections, start processes or load native code
+BLOCKED_EVENTS = (
+    "socket.",
+    "subprocess.",
+    "os.system",
+    "os.exec",
+    "os.posix_spawn",
+    "os.spawn",
+    "os.fork",
+    "os.forkpty",
+    "os.kill",
+    "os.killpg",
+    "ctypes.",
+    "urllib.",
+    "http.",
+    "ftplib.",
+    "smtplib.",
+    "webbrowser.",
+)
+
+# Audit events that change the filesystem, with the index of their path arg
+PATH_EVENTS = {
+    "os.remove": 0,
+    "os.rmdir": 0,
+    "os.mkdir": 0,
+    "os.rename": 1,
+    "os.replace": 1,
+    "os.symlink": 1,
+    "os.link": 1,
+    "os.chmod": 0,
+    "os.chown": 0,
+    "os.truncate": 0,
+    "shutil.rmtree": 0,
+}
+
+WRITE_FLAGS = os.O_WRONLY | os.O_RDWR | os.O_CREAT | os.O_APPEND | os.O_TRUNC
+
+
+def _within(path, roots):
+    return any(path == root or path.startswith(root + os.sep) for root in roots)
+
+
+class Guard:
+    """
+    An audit hook that, while a job's code runs, denies network access, new
+    processes and native code, confines writes to the job's directory and
+    reads to that directory plus `read_roots` (the Python installation, so
+    libraries can still import lazily). Audit hooks can't be removed, so the
+    hook is installed once and switched on and off around each job.
+    """
+
+    def __init__(self, read_roots):
+        self.read_roots = [os.path.realpath(root) for root in read_roots if root]
+        self.writable = None
+        sys.addaudithook(self.hook)
+
+    @contextlib.contextmanager
+    def confine(self, job_dir):
+        self.writable = [os.path.realpath(job_dir)]
+        self.readable = self.writable + self.read_roots
+        try:
+            yield
+        finally:
+            self.writable = None
+
+    @staticmethod
+    def resolve(path):
+        if isinstance(path, bytes):
+            path = os.fsdecode(path)
+        return os.path.realpath(path)
+
+    def hook(self, event, args):
+        if self.writable is None:
+            return
+        if event == "open":
+            path, mode, flags = args
+            if path is None or isinstance(path, int):
+                return
+            writes = (mode is not None and any(c in mode for c in "wax+")) or (
+                mode is None and flags & WRITE_FLAGS
+            )
+            allowed = self.writable if writes else self.readable
+            if not _within(self.resolve(path), allowed):
+                raise SandboxViolation(f"Access to '{path}' is not allowed")
+        elif event in PATH_EVENTS:
+            path = args[PATH_EVENTS[event]]
+            if isinstance(path, (str, bytes)) and not _within(
+                self.resolve(path), self.writable
+            ):
+                raise SandboxViolation(f"Changing '{path}' is not allowed")
+        elif event.startswith(BLOCKED_EVENTS):
+            raise SandboxViolation(f"'{event}' is not allowed")
+
+
+@contextlib.contextmanager
+def cpu_limit(seconds):
+    """Raises CpuLimitExceeded once the job has used `seconds` of CPU time."""
+
+    def expire(signum, frame):
+        raise CpuLimitExceeded()
+
+    previous = signal.signal(signal.SIGPROF, expire)
+    signal.setitimer(signal.ITIMER_PROF, seconds)
+    try:
+        yield
+    finally:
+        signal.setitimer(signal.ITIMER_PROF, 0)
+        signal.signal(signal.SIGPROF, previous)
+
+
+def _error_line(error):
+    """The line of the generated code that raised `error`, if it did."""
+    for frame in reversed(traceback.extract_tb(error.__traceback__)):
+        if frame.filename == CODE_FILENAME:
+            return frame.lineno
+    return None
+
+
+# Output past this is dropped, so a runaway print loop can't exhaust memory
+MAX_OUTPUT_LENGTH = 1_000_000
+
+# How many parsed datasets each worker keeps
+DATASET_CACHE_SIZE = 4
+
+
+class Worker:
+    def __init__(self, send):
+        self.send = send
+
+        import warnings
+
+        warnings.filterwarnings("ignore")
+
+        import matplotlib
+
+        matplotlib.use("Agg")
+        import matplotlib.pyplot as plt
+        import numpy as np
+        import pandas as pd
+        import seaborn as sns
+
+        self.pd, self.np, self.plt, self.sns = pd, np, plt, sns
+        self.datasets = OrderedDict()
+        self.home = os.getcwd()
+        self.reset_style()
+
+        roots = [sys.prefix, sys.base_prefix, sys.exec_prefix]
+        roots += [matplotlib.get_data_path()]
+        roots += [entry for entry in sys.path if os.path.isdir(entry)]
+        roots += ["/usr/share/fonts", "/usr/local/share/fonts", "/etc/fonts"]
+        self.guard = Guard(roots)
+
+    def reset_style(self):
+        """Undoes any style changes a previous job made."""
+        self.plt.close("all")
+        self.plt.rcdefaults()
+        self.sns.set_style("whitegrid")
+        self.sns.set_palette("husl")
+        self.plt.rcParams["figure.figsize"] = (10, 6)
+        self.plt.rcParams["font.size"] = 12
+
+    def dataset(self, key, csv_path):
+        if key in self.datasets:
+            self.datasets.move_to_end(key)
+        else:
+            self.datasets[key] = self.pd.read_csv(csv_path)
+            if len(self.datasets) > DATASET_CACHE_SIZE:
+                self.datasets.popitem(last=False)
+        # Jobs get their own copy, so changes to `data` don't leak into the next
+        return self.datasets[key].copy()
+
+    def fail(self, job, category, message, line=None):
+        self.send(
+            {
+                "type": "failed",
+                "id": job["id"],
+                "category": category,
+                "message": message,
+                "line": line,
+            }
+        )
+
+    def run(self, job):
+        violations = check_code(job["code"])
+        if violations:
+            self.send({"type": "rejected", "id": job["id"], "violations": violations})
+            return
+
+        job_dir = job["jobDir"]
+        namespace = {
+            "__name__": "__main__",
+            "pd": self.pd,
+            "np": self.np,
+            "plt": self.plt,
+            "sns": self.sns,
+            "data": self.dataset(job["datasetKey"], job["csvPath"]),
+        }
+        output = io.StringIO()
+        os.chdir(job_dir)
+        try:
+            with self.guard.confine(job_dir), cpu_limit(job["cpuSeconds"]):
+                with contextlib.redirect_stdout(output):
+                    exec(compile(job["code"], CODE_FILENAME, "exec"), namespace)
+                charts = self.save_charts(job)
+        except CpuLimitExceeded:
+            self.fail(job, "timeout", "The code used up its CPU time")
+            return
+        except MemoryError:
+            self.fail(job, "memory", "The code ran out of memory")
+            return
+        except SandboxViolation as e:
+            self.fail(job, "forbidden", str(e), _error_line(e))
+            return
+        except Exception as e:
+            self.fail(job, "runtime", f"{type(e).__name__}: {e}", _error_line(e))
+            return
+        finally:
+            os.chdir(self.home)
+            self.reset_style()
+
+        self.send(
+            {
+                "type": "done",
+                "id": job["id"],
+                "charts": charts,
+                "stdout": output.getvalue()[:MAX_OUTPUT_LENGTH],
+            }
+        )
+
+    def save_charts(self, job):
+        figures = self.plt.get_fignums()
+        for index, number in enumerate(figures):
+            fig = self.plt.figure(number)
+            file = f"chart_{index}.png"
+            fig.savefig(
+                os.path.join(job["jobDir"], file),
+                dpi=150,
+                bbox_inches="tight",
+                facecolor="white",
+                edgecolor="none",
+            )
+            self.send(
+                {
+                    "type": "chart",
+                    "id": job["id"],
+                    "index": index,
+                    "total": len(figures),
+                    "file": file,
+                }
+            )
+        return len(figures)
+
+
+def main():
+    channel = os.fdopen(3, "w", buffering=1)
+
+    def send(message):
+        channel.write(json.dumps(message) + "\n")
+        channel.flush()
+
+    apply_memory_limit(int(sys.argv[1]))
+    worker = Worker(send)
+    send({"type": "ready"})
+
+    for line in sys.stdin:
+        job = json.loads(line)
+        try:
+            worker.run(job)
+        except MemoryError:
+            worker.fail(job, "memory", "The code ran out of memory")
+        except Exception as e:
+            worker.fail(job, "internal", f"{type(e).__name__}: {e}")
+
+
+if __name__ == "__main__":
+    main()
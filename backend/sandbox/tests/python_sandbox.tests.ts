@@ -0,0 +1,255 @@
+import { spawnSync } from "node:child_process";
+import type { SandboxSettings } from "../index";
+import {
+  loadSandboxSettings,
+  PythonSandbox,
+  SandboxConfigError,
+  SandboxError,
+} from "../index";
+
+const CSV_DATA = "Region,Sales\nNorth,100\nSouth,200";
+
+const SETTINGS: SandboxSettings = {
+  python: "python3",
+  timeoutMs: 10_000,
+  memoryMb: 1024,
+  cpuSeconds: 10,
+  workers: 1,
+  maxQueuedJobs: 10,
+  jobsPerWorker: 50,
+};
+
+describe("loadSandboxSettings", () => {
+  it("uses defaults and reads limits from the environment", () => {
+    expect(loadSandboxSettings({})).toEqual({
+      python: "python3",
+      timeoutMs: 30_000,
+      memoryMb: 1024,
+      cpuSeconds: 30,
+      workers: 2,
+      maxQueuedJobs: 50,
+      jobsPerWorker: 50,
+    });
+    expect(
+      loadSandboxSettings({
+        PYTHON_SANDBOX_PYTHON: "/opt/venv/bin/python",
+        PYTHON_SANDBOX_TIMEOUT_MS: "5500",
+        PYTHON_SANDBOX_MEMORY_MB: "256",
+        PYTHON_SANDBOX_WORKERS: "4",
+        PYTHON_SANDBOX_MAX_QUEUE: "8",
+        PYTHON_SANDBOX_JOBS_PER_WORKER: "10",
+      }),
+    ).toEqual({
+      python: "/opt/venv/bin/python",
+      timeoutMs: 5500,
+      memoryMb: 256,
+      cpuSeconds: 6,
+      workers: 4,
+      maxQueuedJobs: 8,
+      jobsPerWorker: 10,
+    });
+  });
+
+  it("rejects limits that aren't positive numbers", () => {
+    expect(() =>
+      loadSandboxSettings({ PYTHON_SANDBOX_MEMORY_MB: "lots" }),
+    ).toThrow(SandboxConfigError);
+    expect(() => loadSandboxSettings({ PYTHON_SANDBOX_WORKERS: "0" })).toThrow(
+      SandboxConfigError,
+    );
+  });
+});
+
+describe("PythonSandbox", () => {
+  let sandbox: PythonSandbox;
+
+  const createSandbox = (settings: Partial<SandboxSettings> = {}) => {
+    sandbox = new PythonSandbox({ ...SETTINGS, ...settings });
+    return sandbox;
+  };
+
+  // Resolves with the error the job failed with
+  const runFailing = async (code: string) => {
+    try {
+      await sandbox.run(CSV_DATA, code);
+    } catch (e) {
+      return e as SandboxError;
+    }
+    throw new Error("Expected the job to fail");
+  };
+
+  afterEach(() => sandbox?.close());
+
+  it("fails jobs with an internal error when Python can't be started", async () => {
+    createSandbox({ python: "python-that-does-not-exist" });
+
+    const error = await runFailing("print(1)");
+
+    expect(error).toBeInstanceOf(SandboxError);
+    expect(error.category).toBe("internal");
+    expect(sandbox.stats().jobs.failed).toBe(1);
+  });
+
+  const hasChartLibraries =
+    spawnSync("python3", ["-c", "import pandas, matplotlib, seaborn"])
+      .status === 0;
+
+  // Workers load pandas, matplotlib and seaborn before taking jobs
+  (hasChartLibraries ? describe : describe.skip)("with Python", () => {
+    it("returns charts, printed output and timings", async () => {
+      createSandbox();
+      const onChart = jest.fn();
+
+      const result = await sandbox.run(
+        CSV_DATA,
+        "data.plot.bar(x='Region', y='Sales')\nprint(data['Sales'].sum())",
+        { onChart },
+      );
+
+      expect(result.chartImages).toHaveLength(1);
+      expect(result.chartImages[0]).toMatch(/^data:image\/png;base64,/);
+      expect(result.stdout.trim()).toBe("300");
+      expect(onChart).toHaveBeenCalledWith(result.chartImages[0], 0, 1);
+      expect(result.timings.queuedMs).toBeGreaterThanOrEqual(0);
+      expect(result.timings.runMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it("rejects disallowed modules with their line", async () => {
+      createSandbox();
+
+      const error = await runFailing(
+        "import pandas as pd\nimport os\nfrom subprocess import run",
+      );
+
+      expect(error.category).toBe("validation");
+      expect(error.line).toBe(2);
+      expect(error.violations.map(({ line }) => line)).toEqual([2, 3]);
+      expect(error.message).toContain("Import of 'os' is not allowed");
+    });
+
+    it("rejects dangerous builtins, dunder access and syntax errors", async () => {
+      createSandbox();
+
+      const error = await runFailing(
+        [
+          "open('/etc/passwd')",
+          "eval('1 + 1')",
+          "__import__('os')",
+          "().__class__.__base__",
+        ].join("\n"),
+      );
+      expect(error.category).toBe("validation");
+      expect(error.violations.map(({ line }) => line).sort()).toEqual([
+        1, 2, 3, 4, 4,
+      ]);
+
+      const syntax = await runFailing("data.plot(\n");
+      expect(syntax.category).toBe("validation");
+      expect(syntax.message).toContain("Syntax error");
+    });
+
+    it("reports exceptions with the line that raised them", async () => {
+      createSandbox();
+
+      const error = await runFailing(
+        "total = 1\nraise ValueError('bad column')",
+      );
+
+      expect(error.category).toBe("runtime");
+      expect(error.line).toBe(2);
+      expect(error.message).toBe("ValueError: bad column");
+    });
+
+    it("denies files outside the job directory and the network", async () => {
+      createSandbox();
+
+      const file = await runFailing(
+        "import io\nio.open('/etc/hostname').read()",
+      );
+      expect(file.category).toBe("forbidden");
+      expect(file.line).toBe(2);
+
+      const network = await runFailing(
+        "pd.read_csv('http://example.com/data.csv')",
+      );
+      expect(network.category).toBe("forbidden");
+    });
+
+    it("keeps a worker warm between jobs", async () => {
+      createSandbox();
+
+      await sandbox.run(CSV_DATA, "print(len(data))");
+      await sandbox.run(CSV_DATA, "data['Sales'] = 0");
+      const { stdout } = await sandbox.run(
+        CSV_DATA,
+        "print(data['Sales'].sum())",
+      );
+
+      // Each job gets its own copy of the cached dataset
+      expect(stdout.trim()).toBe("300");
+      expect(sandbox.stats()).toMatchObject({
+        workers: { idle: 1, busy: 0, starting: 0 },
+        jobs: { completed: 3, failed: 0 },
+        workersRecycled: 0,
+        workersCrashed: 0,
+        latency: { run: { count: 3 } },
+      });
+    });
+
+    it("keeps the datasets of waiting jobs until they run", async () => {
+      createSandbox({ maxQueuedJobs: 30 });
+
+      // More datasets than are kept on disk, all waiting for the one worker
+      const jobs = Array.from({ length: 20 }, (_, n) =>
+        sandbox.run(`${CSV_DATA}\nEast,${n}`, "print(data['Sales'].sum())"),
+      );
+
+      const results = await Promise.all(jobs);
+      expect(results.map(({ stdout }) => stdout.trim())).toEqual(
+        Array.from({ length: 20 }, (_, n) => `${300 + n}`),
+      );
+    });
+
+    it("replaces workers that time out or run out of memory", async () => {
+      createSandbox({ timeoutMs: 2000, memoryMb: 768 });
+
+      const timeout = await runFailing("import time\ntime.sleep(10)");
+      expect(timeout.category).toBe("timeout");
+
+      const memory = await runFailing("block = bytearray(2048 * 1024 * 1024)");
+      expect(memory.category).toBe("memory");
+
+      const { stdout } = await sandbox.run(CSV_DATA, "print('still here')");
+      expect(stdout.trim()).toBe("still here");
+      expect(sandbox.stats().workersRecycled).toBe(2);
+    });
+
+    it("turns jobs away when the queue is full", async () => {
+      createSandbox({ maxQueuedJobs: 1 });
+
+      const jobs = [1, 2, 3].map((n) =>
+        sandbox.run(CSV_DATA, `print(${n})`).then(
+          () => undefined,
+          (e: SandboxError) => e.category,
+        ),
+      );
+
+      expect(await Promise.all(jobs)).toEqual([undefined, "busy", "busy"]);
+      expect(sandbox.stats().jobs.rejected).toBe(2);
+    });
+
+    it("drops queued jobs when they are cancelled", async () => {
+      createSandbox();
+      const controller = new AbortController();
+
+      const first = sandbox.run(CSV_DATA, "print(1)");
+      const second = sandbox.run(CSV_DATA, "print(2)", {
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      await expect(second).rejects.toMatchObject({ name: "AbortError" });
+      await expect(first).resolves.toMatchObject({ stdout: "1\n" });
+    });
+  });
+});
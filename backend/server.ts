@@ -3,6 +3,9 @@ import * as cors from "cors";
 import { createBaseServer } from "../utils/backend/base_backend/create";
 import { createImageRouter } from "./routers/image";
 import { createDataToInfographicRouter } from "./routers/data_to_infographic";
+import { createLiveSyncScheduler } from "./live_sync";
+import { createPythonSandbox } from "./sandbox";
+import { createGoogleSheetsClient } from "./sheets";
 
 async function main() {
   const router = express.Router();
@@ -44,7 +47,20 @@ async function main() {
   router.use(imageRouter);
   
   // Register Enhanced Data-to-Infographic Agent router with Live Sync, Natural Language, and Formula Builder
-  router.use("/api/data-to-infographic", createDataToInfographicRouter());
+  // Chart workers load pandas and matplotlib at startup so the first chart
+  // doesn't wait for them
+  const sandbox = createPythonSandbox();
+  sandbox.warmUp();
+  // Live syncs stored before a restart resume on their schedule. If they
+  // can't be read, the server doesn't start rather than serve syncs that
+  // never run.
+  const sheets = createGoogleSheetsClient();
+  const liveSync = createLiveSyncScheduler(sheets);
+  await liveSync.start();
+  router.use(
+    "/api/data-to-infographic",
+    createDataToInfographicRouter({ sandbox, sheets, liveSync }),
+  );
 
   const server = createBaseServer(router);
   server.start(process.env.CANVA_BACKEND_PORT);
@@ -0,0 +1,149 @@
+import { SheetsError } from "./sheets_error";
+
+/**
+ * A range in A1 notation, e.g. `'Q1 Sales'!A2:D` or `Sheet1`. Rows and
+ * columns are zero-based and inclusive; a bound that's left out runs to the
+ * edge of the tab, and a range without a `tab` is on the first tab.
+ */
+export interface A1Range {
+  tab?: string;
+  startRow?: number;
+  startColumn?: number;
+  endRow?: number;
+  endColumn?: number;
+}
+
+const CELL_PATTERN = /^([A-Za-z]{1,3})?([1-9]\d*)?$/;
+const PLAIN_TAB_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * The zero-based index of a column letter, e.g. `A` is 0 and `AA` is 26.
+ */
+export const columnIndex = (letters: string) =>
+  [...letters.toUpperCase()].reduce(
+    (index, letter) => index * 26 + letter.charCodeAt(0) - 64,
+    0,
+  ) - 1;
+
+/**
+ * The letters of a zero-based column index, e.g. 26 is `AA`.
+ */
+export const columnLetters = (index: number) => {
+  let letters = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+};
+
+const parseCell = (text: string) => {
+  const match = CELL_PATTERN.exec(text);
+  if (!match || (!match[1] && !match[2])) {
+    return undefined;
+  }
+  return {
+    column: match[1] ? columnIndex(match[1]) : undefined,
+    row: match[2] ? Number(match[2]) - 1 : undefined,
+  };
+};
+
+const parseCells = (text: string) => {
+  const [first, second, ...rest] = text.split(":");
+  const start = parseCell(first);
+  if (second === undefined) {
+    // A lone reference is a single cell, so `Tab` stays a tab name
+    return start?.column !== undefined && start.row !== undefined
+      ? { start, end: start }
+      : undefined;
+  }
+  const end = parseCell(second);
+  return start && end && rest.length === 0 ? { start, end } : undefined;
+};
+
+const splitTab = (range: string) => {
+  if (range.startsWith("'")) {
+    // Quotes in quoted tab names are doubled, e.g. 'Bob''s tab'!A1
+    const match = /^'((?:[^']|'')+)'(?:!(.*))?$/.exec(range);
+    if (!match) {
+      return undefined;
+    }
+    return { tab: match[1].replace(/''/g, "'"), cells: match[2] };
+  }
+  const bang = range.lastIndexOf("!");
+  return bang === -1
+    ? { tab: undefined, cells: range }
+    : { tab: range.slice(0, bang), cells: range.slice(bang + 1) };
+};
+
+/**
+ * Reads a range in A1 notation. A name that isn't a cell reference, such
+ * as `Sales` or `Q`, is a whole tab; `B2`, `A:C`, `2:10` and `A2:D` are cells
+ * on the first tab.
+ * @throws SheetsError with category `invalid_request` if the range can't be
+ * read.
+ */
+export const parseA1Range = (range: string): A1Range => {
+  const invalid = (reason: string) =>
+    new SheetsError("invalid_request", `Invalid range "${range}": ${reason}`);
+  const trimmed = range.trim();
+  const parts = splitTab(trimmed);
+  if (!trimmed || !parts || parts.tab === "") {
+    throw invalid("expected e.g. Sheet1!A1:D100");
+  }
+  if (parts.cells === undefined || parts.cells === "") {
+    if (parts.tab === undefined) {
+      throw invalid("expected e.g. Sheet1!A1:D100");
+    }
+    return { tab: parts.tab };
+  }
+
+  const cells = parseCells(parts.cells);
+  if (!cells) {
+    if (parts.tab === undefined && !parts.cells.includes(":")) {
+      return { tab: parts.cells };
+    }
+    throw invalid(`"${parts.cells}" isn't a cell range`);
+  }
+  const { start, end } = cells;
+  if (
+    (start.row !== undefined && end.row !== undefined && end.row < start.row) ||
+    (start.column !== undefined &&
+      end.column !== undefined &&
+      end.column < start.column)
+  ) {
+    throw invalid("the range ends before it starts");
+  }
+  return {
+    tab: parts.tab,
+    startRow: start.row,
+    startColumn: start.column,
+    endRow: end.row,
+    endColumn: end.column,
+  };
+};
+
+/**
+ * Writes a range in A1 notation, quoting the tab name when it needs it.
+ */
+export const formatA1Range = ({
+  tab,
+  startRow,
+  startColumn,
+  endRow,
+  endColumn,
+}: A1Range) => {
+  const cell = (column?: number, row?: number) =>
+    `${column === undefined ? "" : columnLetters(column)}${row === undefined ? "" : row + 1}`;
+  const start = cell(startColumn, startRow);
+  const end = cell(endColumn, endRow);
+  const cells = start === end ? start : `${start}:${end}`;
+  if (tab === undefined) {
+    return cells;
+  }
+  // A name like `Q` or `A1` would be read as cells without quotes
+  const quoted =
+    PLAIN_TAB_PATTERN.test(tab) && !CELL_PATTERN.test(tab)
+      ? tab
+      : `'${tab.replace(/'/g, "''")}'`;
+  return cells ? `${quoted}!${cells}` : quoted;
+};
@@ -0,0 +1,138 @@
+import { createSign } from "node:crypto";
+import type { SheetsCredentials } from "./sheets_config";
+import { SheetsError } from "./sheets_error";
+
+const READONLY_SCOPE = "https://www.googleapis.com/auth/spreadsheets.readonly";
+
+// Tokens are renewed this long before Google says they expire
+const EXPIRY_MARGIN_MS = 60_000;
+const ASSERTION_LIFETIME_S = 3600;
+
+const base64Url = (data: string | Buffer) =>
+  Buffer.from(data).toString("base64url");
+
+/**
+ * A JWT asking for an access token as the service account, signed with its
+ * private key.
+ */
+export const serviceAccountAssertion = (
+  clientEmail: string,
+  privateKey: string,
+  tokenUrl: string,
+  now = Date.now(),
+) => {
+  const issuedAt = Math.floor(now / 1000);
+  const unsigned = [
+    base64Url(JSON.stringify({ alg: "RS256", typ: "JWT" })),
+    base64Url(
+      JSON.stringify({
+        iss: clientEmail,
+        scope: READONLY_SCOPE,
+        aud: tokenUrl,
+        iat: issuedAt,
+        exp: issuedAt + ASSERTION_LIFETIME_S,
+      }),
+    ),
+  ].join(".");
+  let signature: Buffer;
+  try {
+    signature = createSign("RSA-SHA256").update(unsigned).sign(privateKey);
+  } catch (e) {
+    throw new SheetsError(
+      "unauthenticated",
+      `Could not sign with the service account key: ${(e as Error).message}`,
+    );
+  }
+  return `${unsigned}.${base64Url(signature)}`;
+};
+
+/**
+ * Gets OAuth access tokens for service account or user credentials, and
+ * reuses each one until shortly before it expires.
+ */
+export class AccessTokenSource {
+  private cached?: { token: string; expiresAt: number };
+  private pending?: Promise<string>;
+
+  constructor(
+    private readonly credentials: Exclude<
+      SheetsCredentials,
+      { kind: "api_key" }
+    >,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  async token(signal?: AbortSignal): Promise<string> {
+    if (this.cached && this.cached.expiresAt > this.now()) {
+      return this.cached.token;
+    }
+    // Concurrent reads share one token request
+    this.pending ??= this.requestToken(signal).finally(() => {
+      this.pending = undefined;
+    });
+    return this.pending;
+  }
+
+  /** Forgets the cached token, e.g. after Google rejected it. */
+  reset() {
+    this.cached = undefined;
+  }
+
+  private async requestToken(signal?: AbortSignal) {
+    const { credentials } = this;
+    const form: Record<string, string> =
+      credentials.kind === "service_account"
+        ? {
+            grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+            assertion: serviceAccountAssertion(
+              credentials.clientEmail,
+              credentials.privateKey,
+              credentials.tokenUrl,
+              this.now(),
+            ),
+          }
+        : {
+            grant_type: "refresh_token",
+            client_id: credentials.clientId,
+            client_secret: credentials.clientSecret,
+            refresh_token: credentials.refreshToken,
+          };
+
+    let response: Response;
+    try {
+      response = await fetch(credentials.tokenUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: new URLSearchParams(form).toString(),
+        signal,
+      });
+    } catch (e) {
+      if (signal?.aborted) {
+        throw e;
+      }
+      throw new SheetsError(
+        "unavailable",
+        `Could not reach Google's token endpoint: ${(e as Error).message}`,
+      );
+    }
+
+    const body = (await response.json().catch(() => ({}))) as {
+      access_token?: string;
+      expires_in?: number;
+      error?: string;
+      error_description?: string;
+    };
+    if (!response.ok || !body.access_token) {
+      throw new SheetsError(
+        response.status >= 500 ? "unavailable" : "unauthenticated",
+        `Google didn't accept the ${credentials.kind === "oauth" ? "OAuth" : "service account"} credentials: ${body.error_description ?? body.error ?? response.status}`,
+      );
+    }
+    this.cached = {
+      token: body.access_token,
+      expiresAt:
+        this.now() + (body.expires_in ?? 3600) * 1000 - EXPIRY_MARGIN_MS,
+    };
+    return body.access_token;
+  }
+}
@@ -0,0 +1,398 @@
+import { createVerify } from "node:crypto";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import { parseA1Range } from "./a1_range";
+import type { ApiCellData } from "./sheet_table";
+
+/**
+ * A cell of a fake spreadsheet. Numbers formatted as dates, percentages and
+ * so on are given with their format type, as Google stores them; an `error`
+ * is a formula error such as `#REF!`.
+ */
+export type FakeCell =
+  | string
+  | number
+  | boolean
+  | null
+  | {
+      value: number;
+      type: "DATE" | "DATE_TIME" | "TIME" | "PERCENT" | "CURRENCY";
+      formatted: string;
+    }
+  | { error: string };
+
+export interface FakeSpreadsheet {
+  id: string;
+  title: string;
+  tabs: {
+    title: string;
+    rows: FakeCell[][];
+    /** The grid size; defaults to a little more than the rows fill. */
+    rowCount?: number;
+    columnCount?: number;
+  }[];
+  /** Readable by anyone, including with only an API key. */
+  public?: boolean;
+  /** The accounts it's shared with, by email. */
+  sharedWith?: string[];
+}
+
+export interface FakeSheetsServerOptions {
+  spreadsheets: FakeSpreadsheet[];
+  /** Service accounts that may sign in, by email, with their public keys. */
+  serviceAccounts?: Record<string, string>;
+  /** A user that may sign in with OAuth. */
+  oauth?: {
+    clientId: string;
+    clientSecret: string;
+    refreshToken: string;
+    email: string;
+  };
+  apiKeys?: string[];
+}
+
+interface FakeRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+}
+
+const apiError = (
+  res: http.ServerResponse,
+  code: number,
+  status: string,
+  message: string,
+) => {
+  res.writeHead(code, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ error: { code, message, status } }));
+};
+
+const sendJson = (res: http.ServerResponse, body: unknown) => {
+  res.writeHead(200, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const toApiCell = (cell: FakeCell): ApiCellData => {
+  if (cell == null) {
+    return {};
+  }
+  if (typeof cell === "string") {
+    return { effectiveValue: { stringValue: cell }, formattedValue: cell };
+  }
+  if (typeof cell === "boolean") {
+    return {
+      effectiveValue: { boolValue: cell },
+      formattedValue: cell ? "TRUE" : "FALSE",
+    };
+  }
+  if (typeof cell === "number") {
+    return {
+      effectiveValue: { numberValue: cell },
+      formattedValue: String(cell),
+      effectiveFormat: { numberFormat: { type: "NUMBER" } },
+    };
+  }
+  if ("error" in cell) {
+    return {
+      effectiveValue: { errorValue: { type: "ERROR", message: cell.error } },
+      formattedValue: cell.error,
+    };
+  }
+  return {
+    effectiveValue: { numberValue: cell.value },
+    formattedValue: cell.formatted,
+    effectiveFormat: { numberFormat: { type: cell.type } },
+  };
+};
+
+// Like Google, leaves out empty cells and rows at the end
+const trimEnd = <T>(items: T[], isEmpty: (item: T) => boolean) => {
+  let end = items.length;
+  while (end > 0 && isEmpty(items[end - 1])) {
+    end--;
+  }
+  return items.slice(0, end);
+};
+
+const readBody = (req: http.IncomingMessage) =>
+  new Promise<string>((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+
+const decodeJwtPart = (part: string) =>
+  JSON.parse(Buffer.from(part, "base64url").toString("utf8"));
+
+/**
+ * A stand-in for the Google Sheets API and Google's OAuth token endpoint,
+ * serving the spreadsheets it's given. It implements just what
+ * `GoogleSheetsClient` uses: token requests, spreadsheet metadata and grid
+ * data for ranges, with sharing enforced. Point `GOOGLE_SHEETS_API_URL` at
+ * `apiUrl` and `GOOGLE_OAUTH_TOKEN_URL` at `tokenUrl` to use it.
+ */
+export class FakeSheetsServer {
+  /** Every spreadsheet request received, oldest first. */
+  readonly requests: FakeRequest[] = [];
+  private readonly server: http.Server;
+  private readonly tokens = new Map<string, string>();
+  private readonly failures: number[] = [];
+  private baseUrl = "";
+
+  constructor(private readonly options: FakeSheetsServerOptions) {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((e) =>
+        apiError(res, 500, "INTERNAL", (e as Error).message),
+      );
+    });
+  }
+
+  get apiUrl() {
+    return `${this.baseUrl}/v4`;
+  }
+
+  get tokenUrl() {
+    return `${this.baseUrl}/token`;
+  }
+
+  async start() {
+    await new Promise<void>((resolve) =>
+      this.server.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = this.server.address() as AddressInfo;
+    this.baseUrl = `http://127.0.0.1:${port}`;
+    return this;
+  }
+
+  close() {
+    return new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  /** Answers the next spreadsheet requests with these statuses instead. */
+  failNext(...statuses: number[]) {
+    this.failures.push(...statuses);
+  }
+
+  /** Revokes every access token handed out so far. */
+  revokeTokens() {
+    this.tokens.clear();
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url ?? "/", this.baseUrl);
+    if (req.method === "POST" && url.pathname === "/token") {
+      return this.issueToken(new URLSearchParams(await readBody(req)), res);
+    }
+    const match = /^\/v4\/spreadsheets\/([^/]+)$/.exec(url.pathname);
+    if (req.method !== "GET" || !match) {
+      return apiError(res, 404, "NOT_FOUND", "Unknown endpoint");
+    }
+
+    this.requests.push({
+      method: req.method,
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+    });
+    const failure = this.failures.shift();
+    if (failure !== undefined) {
+      return apiError(res, failure, "UNAVAILABLE", "Simulated failure");
+    }
+
+    const identity = this.authenticate(req, url, res);
+    if (identity === undefined) {
+      return;
+    }
+    const spreadsheet = this.options.spreadsheets.find(
+      (candidate) => candidate.id === decodeURIComponent(match[1]),
+    );
+    if (!spreadsheet) {
+      return apiError(res, 404, "NOT_FOUND", "Requested entity was not found.");
+    }
+    if (
+      !spreadsheet.public &&
+      !(identity && spreadsheet.sharedWith?.includes(identity))
+    ) {
+      return apiError(
+        res,
+        403,
+        "PERMISSION_DENIED",
+        "The caller does not have permission",
+      );
+    }
+
+    const range = url.searchParams.get("ranges");
+    if (url.searchParams.get("includeGridData") === "true" && range) {
+      return this.sendGrid(spreadsheet, range, res);
+    }
+    sendJson(res, {
+      spreadsheetId: spreadsheet.id,
+      properties: { title: spreadsheet.title },
+      sheets: spreadsheet.tabs.map((tab, index) => ({
+        properties: this.tabProperties(tab, index),
+      })),
+    });
+  }
+
+  // The email of the account signed in, "" for an API key, or undefined
+  // once an error has been sent
+  private authenticate(
+    req: http.IncomingMessage,
+    url: URL,
+    res: http.ServerResponse,
+  ) {
+    const key = url.searchParams.get("key");
+    if (key != null) {
+      if (!this.options.apiKeys?.includes(key)) {
+        apiError(
+          res,
+          400,
+          "INVALID_ARGUMENT",
+          "API key not valid. Please pass a valid API key.",
+        );
+        return undefined;
+      }
+      return "";
+    }
+    const token = /^Bearer (.+)$/.exec(req.headers.authorization ?? "")?.[1];
+    const identity = token && this.tokens.get(token);
+    if (!identity) {
+      apiError(
+        res,
+        401,
+        "UNAUTHENTICATED",
+        "Request had invalid authentication credentials.",
+      );
+      return undefined;
+    }
+    return identity;
+  }
+
+  private issueToken(form: URLSearchParams, res: http.ServerResponse) {
+    let identity: string | undefined;
+    const grantType = form.get("grant_type");
+    if (grantType === "urn:ietf:params:oauth:grant-type:jwt-bearer") {
+      identity = this.verifyAssertion(form.get("assertion") ?? "");
+    } else if (grantType === "refresh_token") {
+      const { oauth } = this.options;
+      if (
+        oauth &&
+        form.get("client_id") === oauth.clientId &&
+        form.get("client_secret") === oauth.clientSecret &&
+        form.get("refresh_token") === oauth.refreshToken
+      ) {
+        identity = oauth.email;
+      }
+    }
+    if (!identity) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          error: "invalid_grant",
+          error_description: "Invalid grant",
+        }),
+      );
+      return;
+    }
+    const token = `fake-token-${this.tokens.size + 1}`;
+    this.tokens.set(token, identity);
+    sendJson(res, {
+      access_token: token,
+      expires_in: 3600,
+      token_type: "Bearer",
+    });
+  }
+
+  // Checks the JWT's signature, audience and expiry, and returns the email
+  // of the service account that signed it
+  private verifyAssertion(assertion: string) {
+    const [header, claims, signature] = assertion.split(".");
+    if (!header || !claims || !signature) {
+      return undefined;
+    }
+    const { iss, aud, exp } = decodeJwtPart(claims);
+    const publicKey = this.options.serviceAccounts?.[iss];
+    const valid =
+      publicKey !== undefined &&
+      aud === this.tokenUrl &&
+      exp * 1000 > Date.now() &&
+      createVerify("RSA-SHA256")
+        .update(`${header}.${claims}`)
+        .verify(publicKey, Buffer.from(signature, "base64url"));
+    return valid ? (iss as string) : undefined;
+  }
+
+  private tabProperties(tab: FakeSpreadsheet["tabs"][number], index: number) {
+    return {
+      sheetId: index,
+      title: tab.title,
+      index,
+      gridProperties: {
+        rowCount: tab.rowCount ?? tab.rows.length + 100,
+        columnCount:
+          tab.columnCount ?? Math.max(26, ...tab.rows.map((row) => row.length)),
+      },
+    };
+  }
+
+  private sendGrid(
+    spreadsheet: FakeSpreadsheet,
+    range: string,
+    res: http.ServerResponse,
+  ) {
+    let parsed;
+    try {
+      parsed = parseA1Range(range);
+    } catch {
+      return apiError(
+        res,
+        400,
+        "INVALID_ARGUMENT",
+        `Unable to parse range: ${range}`,
+      );
+    }
+    const index =
+      parsed.tab === undefined
+        ? 0
+        : spreadsheet.tabs.findIndex(
+            (tab) => tab.title.toLowerCase() === parsed.tab?.toLowerCase(),
+          );
+    const tab = spreadsheet.tabs[index];
+    if (!tab) {
+      return apiError(
+        res,
+        400,
+        "INVALID_ARGUMENT",
+        `Unable to parse range: ${range}`,
+      );
+    }
+
+    const startRow = parsed.startRow ?? 0;
+    const startColumn = parsed.startColumn ?? 0;
+    const endRow = parsed.endRow ?? tab.rows.length - 1;
+    const endColumn = parsed.endColumn ?? Infinity;
+    const rowData = trimEnd(
+      tab.rows.slice(startRow, endRow + 1).map((row) => ({
+        values: trimEnd(
+          row.slice(startColumn, endColumn + 1).map(toApiCell),
+          (cell) => cell.effectiveValue === undefined,
+        ),
+      })),
+      (row) => row.values.length === 0,
+    );
+    sendJson(res, {
+      sheets: [
+        {
+          properties: this.tabProperties(tab, index),
+          data: [
+            {
+              startRow,
+              startColumn,
+              rowData: rowData.map((row) => (row.values.length > 0 ? row : {})),
+            },
+          ],
+        },
+      ],
+    });
+  }
+}
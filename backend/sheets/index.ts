@@ -0,0 +1,39 @@
+export type { A1Range } from "./a1_range";
+export {
+  columnIndex,
+  columnLetters,
+  formatA1Range,
+  parseA1Range,
+} from "./a1_range";
+export type {
+  FakeCell,
+  FakeSheetsServerOptions,
+  FakeSpreadsheet,
+} from "./fake_sheets_server";
+export { FakeSheetsServer } from "./fake_sheets_server";
+export type {
+  SheetCell,
+  SheetCellKind,
+  SheetColumn,
+  SheetTable,
+} from "./sheet_table";
+export { SHEET_CELL_KINDS, sheetTableToCsv } from "./sheet_table";
+export type {
+  SheetReadOptions,
+  SheetTab,
+  SpreadsheetInfo,
+} from "./sheets_client";
+export {
+  createGoogleSheetsClient,
+  GoogleSheetsClient,
+  parseSpreadsheetId,
+} from "./sheets_client";
+export type { SheetsConfig, SheetsCredentials } from "./sheets_config";
+export { loadSheetsConfig } from "./sheets_config";
+export type { SheetsErrorCategory } from "./sheets_error";
+export {
+  SHEETS_ERROR_CATEGORIES,
+  SheetsConfigError,
+  SheetsError,
+  statusForSheetsError,
+} from "./sheets_error";
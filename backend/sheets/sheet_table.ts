@@ -0,0 +1,185 @@
+import { formatCsvRow } from "../../utils/csv";
+import { columnLetters } from "./a1_range";
+
+/**
+ * What a cell holds. Numbers are split by how the sheet formats them, so a
+ * date isn't mistaken for the serial number Google stores it as.
+ */
+export const SHEET_CELL_KINDS = [
+  "empty",
+  "string",
+  "number",
+  "percent",
+  "currency",
+  "boolean",
+  "date",
+  "datetime",
+  "time",
+  "error",
+] as const;
+
+export type SheetCellKind = (typeof SHEET_CELL_KINDS)[number];
+
+/**
+ * A typed cell. Dates are ISO 8601 (`2024-01-31`, `2024-01-31T09:30:00` or
+ * `09:30:00`), percentages are fractions, and empty and error cells are
+ * `null`. `formatted` is the text the sheet shows.
+ */
+export interface SheetCell {
+  kind: SheetCellKind;
+  value: string | number | boolean | null;
+  formatted: string;
+}
+
+export interface SheetColumn {
+  name: string;
+  /** The kind most of the column's cells have; `empty` if they all are. */
+  kind: SheetCellKind;
+}
+
+/**
+ * The cells of a range, with its first row read as the column names.
+ */
+export interface SheetTable {
+  spreadsheetId: string;
+  spreadsheetTitle: string;
+  tab: string;
+  /** The range read, in A1 notation with the tab name. */
+  range: string;
+  columns: SheetColumn[];
+  rows: SheetCell[][];
+  /** Whether rows past the server's row limit were left out. */
+  truncated: boolean;
+}
+
+/** A cell as the Sheets API returns it in grid data. */
+export interface ApiCellData {
+  effectiveValue?: {
+    numberValue?: number;
+    stringValue?: string;
+    boolValue?: boolean;
+    errorValue?: { type?: string; message?: string };
+  };
+  formattedValue?: string;
+  effectiveFormat?: { numberFormat?: { type?: string } };
+}
+
+export const EMPTY_CELL: SheetCell = {
+  kind: "empty",
+  value: null,
+  formatted: "",
+};
+
+// Sheets counts days from 30 December 1899
+const SERIAL_EPOCH = Date.UTC(1899, 11, 30);
+const DAY = 24 * 60 * 60 * 1000;
+
+const serialToIso = (serial: number) =>
+  new Date(SERIAL_EPOCH + Math.round(serial * DAY)).toISOString();
+
+const readNumber = (
+  value: number,
+  formatType: string | undefined,
+): Pick<SheetCell, "kind" | "value"> => {
+  switch (formatType) {
+    case "DATE":
+      return { kind: "date", value: serialToIso(value).slice(0, 10) };
+    case "DATE_TIME":
+      return { kind: "datetime", value: serialToIso(value).slice(0, 19) };
+    case "TIME":
+      return { kind: "time", value: serialToIso(value).slice(11, 19) };
+    case "PERCENT":
+      return { kind: "percent", value };
+    case "CURRENCY":
+      return { kind: "currency", value };
+    default:
+      return { kind: "number", value };
+  }
+};
+
+/**
+ * Reads a cell of grid data from the Sheets API.
+ */
+export const readApiCell = (cell: ApiCellData | undefined): SheetCell => {
+  const value = cell?.effectiveValue;
+  const formatted = cell?.formattedValue ?? "";
+  if (!value) {
+    return formatted
+      ? { kind: "string", value: formatted, formatted }
+      : EMPTY_CELL;
+  }
+  if (value.errorValue) {
+    return { kind: "error", value: null, formatted: formatted || "#ERROR!" };
+  }
+  if (value.boolValue !== undefined) {
+    return { kind: "boolean", value: value.boolValue, formatted };
+  }
+  if (value.numberValue !== undefined) {
+    return {
+      ...readNumber(
+        value.numberValue,
+        cell?.effectiveFormat?.numberFormat?.type,
+      ),
+      formatted,
+    };
+  }
+  return { kind: "string", value: value.stringValue ?? "", formatted };
+};
+
+/**
+ * Names columns from the header row. Blank names become the column's letter,
+ * e.g. `Column C`, and repeated names are numbered.
+ */
+export const columnNames = (header: SheetCell[], firstColumn = 0) => {
+  const seen = new Map<string, number>();
+  return header.map((cell, index) => {
+    const name =
+      cell.formatted.trim() ||
+      (cell.value == null ? "" : String(cell.value).trim()) ||
+      `Column ${columnLetters(firstColumn + index)}`;
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    return count === 1 ? name : `${name} (${count})`;
+  });
+};
+
+/**
+ * The kind most cells in a column have, ignoring empty and error cells.
+ */
+export const columnKind = (rows: SheetCell[][], index: number) => {
+  const counts = new Map<SheetCellKind, number>();
+  for (const row of rows) {
+    const { kind } = row[index] ?? EMPTY_CELL;
+    if (kind !== "empty" && kind !== "error") {
+      counts.set(kind, (counts.get(kind) ?? 0) + 1);
+    }
+  }
+  let best: SheetCellKind = "empty";
+  let bestCount = 0;
+  for (const [kind, count] of counts) {
+    if (count > bestCount) {
+      [best, bestCount] = [kind, count];
+    }
+  }
+  return best;
+};
+
+const csvValue = ({ kind, value, formatted }: SheetCell) => {
+  if (kind === "error") {
+    return "";
+  }
+  if (typeof value === "boolean") {
+    return value ? "true" : "false";
+  }
+  return value == null ? formatted : String(value);
+};
+
+/**
+ * Writes a table as CSV, with dates in ISO 8601 and numbers unformatted, so
+ * the dataset summary reads each column as its kind.
+ */
+export const sheetTableToCsv = ({ columns, rows }: SheetTable) =>
+  [
+    formatCsvRow(columns.map((column) => column.name)),
+    ...rows.map((row) => formatCsvRow(row.map(csvValue))),
+  ].join("\n");
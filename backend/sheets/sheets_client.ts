@@ -0,0 +1,405 @@
+import type { A1Range } from "./a1_range";
+import { formatA1Range, parseA1Range } from "./a1_range";
+import { AccessTokenSource } from "./access_token";
+import type { SheetsConfig } from "./sheets_config";
+import { loadSheetsConfig } from "./sheets_config";
+import { SheetsError } from "./sheets_error";
+import type { ApiCellData, SheetCell, SheetTable } from "./sheet_table";
+import {
+  columnKind,
+  columnNames,
+  EMPTY_CELL,
+  readApiCell,
+} from "./sheet_table";
+
+/**
+ * A tab of a spreadsheet. `rowCount` and `columnCount` are the size of its
+ * grid, which is usually larger than the data in it.
+ */
+export interface SheetTab {
+  id: number;
+  title: string;
+  index: number;
+  rowCount: number;
+  columnCount: number;
+}
+
+export interface SpreadsheetInfo {
+  id: string;
+  title: string;
+  tabs: SheetTab[];
+}
+
+export interface SheetReadOptions {
+  /** Cancels the read, e.g. when the client that asked for it disconnects. */
+  signal?: AbortSignal;
+}
+
+interface ApiSheetProperties {
+  sheetId?: number;
+  title?: string;
+  index?: number;
+  gridProperties?: { rowCount?: number; columnCount?: number };
+}
+
+interface ApiSpreadsheet {
+  spreadsheetId?: string;
+  properties?: { title?: string };
+  sheets?: {
+    properties?: ApiSheetProperties;
+    data?: {
+      startRow?: number;
+      rowData?: { values?: ApiCellData[] }[];
+    }[];
+  }[];
+}
+
+const METADATA_FIELDS =
+  "spreadsheetId,properties.title,sheets.properties(sheetId,title,index,gridProperties(rowCount,columnCount))";
+const GRID_FIELDS =
+  "sheets.data(startRow,rowData.values(effectiveValue,formattedValue,effectiveFormat.numberFormat.type))";
+
+// Waits before retrying requests Google throttled or failed
+const DEFAULT_RETRY_DELAYS_MS = [500, 2000];
+
+const ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const URL_PATTERN = /\/spreadsheets\/d\/([A-Za-z0-9_-]+)/;
+
+/**
+ * The ID of a spreadsheet, from the ID itself or a link to the spreadsheet.
+ * @throws SheetsError with category `invalid_request` if it's neither.
+ */
+export const parseSpreadsheetId = (idOrUrl: string) => {
+  const trimmed = idOrUrl.trim();
+  const id = URL_PATTERN.exec(trimmed)?.[1] ?? trimmed;
+  if (!ID_PATTERN.test(id)) {
+    throw new SheetsError(
+      "invalid_request",
+      `"${idOrUrl}" isn't a spreadsheet ID or link`,
+    );
+  }
+  return id;
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const readTab = (properties: ApiSheetProperties = {}): SheetTab => ({
+  id: properties.sheetId ?? 0,
+  title: properties.title ?? "",
+  index: properties.index ?? 0,
+  rowCount: properties.gridProperties?.rowCount ?? 0,
+  columnCount: properties.gridProperties?.columnCount ?? 0,
+});
+
+/**
+ * Reads spreadsheets through the Google Sheets API. Large ranges are read in
+ * pages of `pageRows` rows, and throttled or failed requests are retried.
+ */
+export class GoogleSheetsClient {
+  private readonly tokens?: AccessTokenSource;
+  private readonly retryDelaysMs: number[];
+
+  constructor(
+    private readonly config: SheetsConfig,
+    {
+      retryDelaysMs = DEFAULT_RETRY_DELAYS_MS,
+    }: { retryDelaysMs?: number[] } = {},
+  ) {
+    const { credentials } = config;
+    if (credentials && credentials.kind !== "api_key") {
+      this.tokens = new AccessTokenSource(credentials);
+    }
+    this.retryDelaysMs = retryDelaysMs;
+  }
+
+  /** Whether credentials are set up, so reads can succeed. */
+  get configured() {
+    return this.config.credentials !== undefined;
+  }
+
+  /**
+   * The title and tabs of a spreadsheet.
+   * @throws SheetsError if the spreadsheet can't be read.
+   */
+  async getSpreadsheet(
+    idOrUrl: string,
+    { signal }: SheetReadOptions = {},
+  ): Promise<SpreadsheetInfo> {
+    const id = parseSpreadsheetId(idOrUrl);
+    const data = await this.get(id, { fields: METADATA_FIELDS }, signal);
+    return {
+      id: data.spreadsheetId ?? id,
+      title: data.properties?.title ?? "",
+      tabs: (data.sheets ?? []).map((sheet) => readTab(sheet.properties)),
+    };
+  }
+
+  /**
+   * Reads a range in A1 notation, e.g. `Sales!A1:F`, with its first row as
+   * the column names. Without a range, reads the whole first tab.
+   * @throws SheetsError if the spreadsheet or range can't be read.
+   */
+  async readRange(
+    idOrUrl: string,
+    range?: string,
+    options: SheetReadOptions = {},
+  ): Promise<SheetTable> {
+    const [table] = await this.readRanges(
+      idOrUrl,
+      range === undefined ? [] : [range],
+      options,
+    );
+    return table;
+  }
+
+  /**
+   * Reads several ranges of one spreadsheet, e.g. one from each tab.
+   * Without ranges, reads the whole first tab.
+   * @throws SheetsError if the spreadsheet or any range can't be read.
+   */
+  async readRanges(
+    idOrUrl: string,
+    ranges: string[],
+    { signal }: SheetReadOptions = {},
+  ): Promise<SheetTable[]> {
+    // Every range is checked before anything is fetched
+    const parsed = ranges.length > 0 ? ranges.map(parseA1Range) : [{}];
+    const spreadsheet = await this.getSpreadsheet(idOrUrl, { signal });
+    const tables: SheetTable[] = [];
+    for (const range of parsed) {
+      tables.push(await this.readTable(spreadsheet, range, signal));
+    }
+    return tables;
+  }
+
+  private findTab({ tabs }: SpreadsheetInfo, title?: string) {
+    if (title === undefined) {
+      if (tabs.length === 0) {
+        throw new SheetsError("not_found", "The spreadsheet has no tabs");
+      }
+      return tabs[0];
+    }
+    // Sheets matches tab names regardless of case
+    const tab =
+      tabs.find((candidate) => candidate.title === title) ??
+      tabs.find(
+        (candidate) => candidate.title.toLowerCase() === title.toLowerCase(),
+      );
+    if (!tab) {
+      throw new SheetsError(
+        "not_found",
+        `No tab named "${title}"; the tabs are ${tabs.map((t) => `"${t.title}"`).join(", ")}`,
+      );
+    }
+    return tab;
+  }
+
+  private async readTable(
+    spreadsheet: SpreadsheetInfo,
+    range: A1Range,
+    signal?: AbortSignal,
+  ): Promise<SheetTable> {
+    const tab = this.findTab(spreadsheet, range.tab);
+    const startRow = range.startRow ?? 0;
+    const startColumn = range.startColumn ?? 0;
+    const endRow = Math.min(range.endRow ?? Infinity, tab.rowCount - 1);
+    const endColumn = Math.min(
+      range.endColumn ?? Infinity,
+      tab.columnCount - 1,
+    );
+    // The header row plus at most `maxRows` rows of data
+    const lastRow = Math.min(endRow, startRow + this.config.maxRows);
+
+    const cells: SheetCell[][] = [];
+    for (
+      let first = startRow;
+      first <= lastRow;
+      first += this.config.pageRows
+    ) {
+      const last = Math.min(first + this.config.pageRows - 1, lastRow);
+      const page = formatA1Range({
+        tab: tab.title,
+        startRow: first,
+        startColumn,
+        endRow: last,
+        endColumn,
+      });
+      const data = await this.get(
+        spreadsheet.id,
+        { ranges: page, includeGridData: "true", fields: GRID_FIELDS },
+        signal,
+      );
+      const grid = data.sheets?.[0]?.data?.[0];
+      const rowData = grid?.rowData ?? [];
+      // Google leaves out empty rows at the end of a page, so a page with no
+      // rows at all means the data has ended
+      if (rowData.length === 0) {
+        break;
+      }
+      const offset = (grid?.startRow ?? first) - startRow;
+      rowData.forEach((row, index) => {
+        cells[offset + index] = (row.values ?? []).map(readApiCell);
+      });
+    }
+
+    const rows = Array.from(cells, (row) => row ?? []);
+    while (
+      rows.length > 0 &&
+      rows[rows.length - 1].every((c) => c.kind === "empty")
+    ) {
+      rows.pop();
+    }
+    const width = Math.max(0, ...rows.map((row) => row.length));
+    const padded = rows.map((row) =>
+      Array.from({ length: width }, (_, index) => row[index] ?? EMPTY_CELL),
+    );
+    const [header = [], ...body] = padded;
+    const names = columnNames(header, startColumn);
+
+    return {
+      spreadsheetId: spreadsheet.id,
+      spreadsheetTitle: spreadsheet.title,
+      tab: tab.title,
+      range: formatA1Range({
+        tab: tab.title,
+        startRow,
+        startColumn,
+        endRow: startRow + Math.max(0, padded.length - 1),
+        endColumn: startColumn + Math.max(0, width - 1),
+      }),
+      columns: names.map((name, index) => ({
+        name,
+        kind: columnKind(body, index),
+      })),
+      rows: body,
+      truncated: lastRow < endRow && body.length >= this.config.maxRows,
+    };
+  }
+
+  private async get(
+    spreadsheetId: string,
+    params: Record<string, string>,
+    signal?: AbortSignal,
+  ): Promise<ApiSpreadsheet> {
+    const { credentials, apiUrl, timeoutMs } = this.config;
+    if (!credentials) {
+      throw new SheetsError(
+        "not_configured",
+        "Google Sheets isn't set up on the server; see the README for the credentials it needs",
+      );
+    }
+    const url = new URL(
+      `${apiUrl}/spreadsheets/${encodeURIComponent(spreadsheetId)}`,
+    );
+    for (const [name, value] of Object.entries(params)) {
+      url.searchParams.set(name, value);
+    }
+    if (credentials.kind === "api_key") {
+      url.searchParams.set("key", credentials.apiKey);
+    }
+
+    let renewedToken = false;
+    for (let attempt = 0; ; attempt++) {
+      const headers: Record<string, string> = {};
+      if (this.tokens) {
+        headers.Authorization = `Bearer ${await this.tokens.token(signal)}`;
+      }
+      const retry = attempt < this.retryDelaysMs.length;
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          headers,
+          signal: AbortSignal.any([
+            ...(signal ? [signal] : []),
+            AbortSignal.timeout(timeoutMs),
+          ]),
+        });
+      } catch (e) {
+        if (signal?.aborted) {
+          throw e;
+        }
+        if (retry) {
+          await wait(this.retryDelaysMs[attempt]);
+          continue;
+        }
+        throw new SheetsError(
+          "unavailable",
+          `Could not reach Google Sheets: ${(e as Error).message}`,
+        );
+      }
+
+      if (response.ok) {
+        return (await response.json()) as ApiSpreadsheet;
+      }
+      // A token can be revoked before it expires; get a new one once
+      if (response.status === 401 && this.tokens && !renewedToken) {
+        renewedToken = true;
+        this.tokens.reset();
+        continue;
+      }
+      if ((response.status === 429 || response.status >= 500) && retry) {
+        await wait(this.retryDelaysMs[attempt]);
+        continue;
+      }
+      throw await this.describeFailure(spreadsheetId, response);
+    }
+  }
+
+  private async describeFailure(spreadsheetId: string, response: Response) {
+    const body = (await response.json().catch(() => ({}))) as {
+      error?: { message?: string };
+    };
+    const message = body.error?.message ?? `HTTP ${response.status}`;
+    const { credentials } = this.config;
+    switch (response.status) {
+      case 400:
+        return new SheetsError(
+          /API key/i.test(message) ? "unauthenticated" : "invalid_request",
+          message,
+        );
+      case 401:
+        return new SheetsError(
+          "unauthenticated",
+          `Google rejected the server's credentials: ${message}`,
+        );
+      case 403: {
+        const advice =
+          credentials?.kind === "service_account"
+            ? `Share it with ${credentials.clientEmail}`
+            : credentials?.kind === "api_key"
+              ? "Share it with anyone who has the link, or set up a service account"
+              : "Share it with the Google account the server signs in as";
+        return new SheetsError(
+          "permission_denied",
+          `The spreadsheet "${spreadsheetId}" is private. ${advice}. (${message})`,
+        );
+      }
+      case 404:
+        return new SheetsError(
+          "not_found",
+          `There's no spreadsheet with the ID "${spreadsheetId}"`,
+        );
+      case 429:
+        return new SheetsError(
+          "rate_limited",
+          `Google Sheets is throttling requests: ${message}`,
+        );
+      default:
+        return new SheetsError(
+          "unavailable",
+          `Google Sheets failed with ${response.status}: ${message}`,
+        );
+    }
+  }
+}
+
+/**
+ * Creates a client configured from the environment; see `loadSheetsConfig`.
+ * Without credentials the client is created, but every read fails with
+ * `not_configured`.
+ * @throws SheetsConfigError if a setting is malformed.
+ */
+export const createGoogleSheetsClient = (
+  env: NodeJS.ProcessEnv = process.env,
+) => new GoogleSheetsClient(loadSheetsConfig(env));
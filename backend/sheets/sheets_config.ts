@@ -0,0 +1,167 @@
+import * as fs from "node:fs";
+import { readPositiveInteger } from "../env";
+import { SheetsConfigError } from "./sheets_error";
+
+/**
+ * How the server signs in to Google:
+ * - `service_account`: as a service account, which reads spreadsheets shared
+ *   with its email address.
+ * - `oauth`: as a user, with a refresh token from the OAuth consent flow.
+ * - `api_key`: anonymously, which only reads spreadsheets shared publicly.
+ */
+export type SheetsCredentials =
+  | {
+      kind: "service_account";
+      clientEmail: string;
+      privateKey: string;
+      tokenUrl: string;
+    }
+  | {
+      kind: "oauth";
+      clientId: string;
+      clientSecret: string;
+      refreshToken: string;
+      tokenUrl: string;
+    }
+  | { kind: "api_key"; apiKey: string };
+
+export interface SheetsConfig {
+  /** The Sheets API, up to and including the version. */
+  apiUrl: string;
+  /** Left out when nothing is configured; reads then fail. */
+  credentials?: SheetsCredentials;
+  /** How many rows are fetched per request. */
+  pageRows: number;
+  /** Rows after this many are left out of a read. */
+  maxRows: number;
+  /** How long one request to Google may take. */
+  timeoutMs: number;
+}
+
+const DEFAULT_API_URL = "https://sheets.googleapis.com/v4";
+const DEFAULT_TOKEN_URL = "https://oauth2.googleapis.com/token";
+const DEFAULT_PAGE_ROWS = 5000;
+const DEFAULT_MAX_ROWS = 200_000;
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+const readServiceAccount = (
+  json: string,
+  source: string,
+  tokenUrl: string | undefined,
+): SheetsCredentials => {
+  let key: {
+    client_email?: unknown;
+    private_key?: unknown;
+    token_uri?: unknown;
+  };
+  try {
+    key = JSON.parse(json);
+  } catch {
+    throw new SheetsConfigError(`${source} isn't valid JSON`);
+  }
+  if (
+    typeof key.client_email !== "string" ||
+    typeof key.private_key !== "string"
+  ) {
+    throw new SheetsConfigError(
+      `${source} must be a service account key with client_email and private_key`,
+    );
+  }
+  return {
+    kind: "service_account",
+    clientEmail: key.client_email,
+    privateKey: key.private_key,
+    tokenUrl:
+      tokenUrl ??
+      (typeof key.token_uri === "string" ? key.token_uri : DEFAULT_TOKEN_URL),
+  };
+};
+
+const readCredentials = (
+  env: NodeJS.ProcessEnv,
+): SheetsCredentials | undefined => {
+  const tokenUrl = env.GOOGLE_OAUTH_TOKEN_URL || undefined;
+  if (env.GOOGLE_SERVICE_ACCOUNT_JSON) {
+    return readServiceAccount(
+      env.GOOGLE_SERVICE_ACCOUNT_JSON,
+      "GOOGLE_SERVICE_ACCOUNT_JSON",
+      tokenUrl,
+    );
+  }
+  const keyFile = env.GOOGLE_APPLICATION_CREDENTIALS;
+  if (keyFile) {
+    let json: string;
+    try {
+      json = fs.readFileSync(keyFile, "utf8");
+    } catch (e) {
+      throw new SheetsConfigError(
+        `Could not read GOOGLE_APPLICATION_CREDENTIALS (${keyFile}): ${(e as Error).message}`,
+      );
+    }
+    return readServiceAccount(json, keyFile, tokenUrl);
+  }
+
+  const { GOOGLE_OAUTH_CLIENT_ID, GOOGLE_OAUTH_CLIENT_SECRET } = env;
+  const refreshToken = env.GOOGLE_OAUTH_REFRESH_TOKEN;
+  if (GOOGLE_OAUTH_CLIENT_ID || GOOGLE_OAUTH_CLIENT_SECRET || refreshToken) {
+    if (
+      !GOOGLE_OAUTH_CLIENT_ID ||
+      !GOOGLE_OAUTH_CLIENT_SECRET ||
+      !refreshToken
+    ) {
+      throw new SheetsConfigError(
+        "GOOGLE_OAUTH_CLIENT_ID, GOOGLE_OAUTH_CLIENT_SECRET and GOOGLE_OAUTH_REFRESH_TOKEN must be set together",
+      );
+    }
+    return {
+      kind: "oauth",
+      clientId: GOOGLE_OAUTH_CLIENT_ID,
+      clientSecret: GOOGLE_OAUTH_CLIENT_SECRET,
+      refreshToken,
+      tokenUrl: tokenUrl ?? DEFAULT_TOKEN_URL,
+    };
+  }
+
+  return env.GOOGLE_SHEETS_API_KEY
+    ? { kind: "api_key", apiKey: env.GOOGLE_SHEETS_API_KEY }
+    : undefined;
+};
+
+/**
+ * Reads the Google Sheets settings. Credentials come from the first of:
+ * - a service account key, inline in `GOOGLE_SERVICE_ACCOUNT_JSON` or in the
+ *   file `GOOGLE_APPLICATION_CREDENTIALS` names;
+ * - `GOOGLE_OAUTH_CLIENT_ID`, `GOOGLE_OAUTH_CLIENT_SECRET` and
+ *   `GOOGLE_OAUTH_REFRESH_TOKEN`;
+ * - `GOOGLE_SHEETS_API_KEY`, for public spreadsheets only.
+ *
+ * `GOOGLE_SHEETS_API_URL` and `GOOGLE_OAUTH_TOKEN_URL` point the client at
+ * another server, such as the fake one tests use. `GOOGLE_SHEETS_PAGE_ROWS`
+ * (default 5000), `GOOGLE_SHEETS_MAX_ROWS` (200,000) and
+ * `GOOGLE_SHEETS_TIMEOUT_MS` (30 seconds) bound each read.
+ * @throws SheetsConfigError if a setting is malformed.
+ */
+export const loadSheetsConfig = (
+  env: NodeJS.ProcessEnv = process.env,
+): SheetsConfig => ({
+  apiUrl: (env.GOOGLE_SHEETS_API_URL || DEFAULT_API_URL).replace(/\/+$/, ""),
+  credentials: readCredentials(env),
+  pageRows: readPositiveInteger(
+    env,
+    "GOOGLE_SHEETS_PAGE_ROWS",
+    DEFAULT_PAGE_ROWS,
+    SheetsConfigError,
+  ),
+  maxRows: readPositiveInteger(
+    env,
+    "GOOGLE_SHEETS_MAX_ROWS",
+    DEFAULT_MAX_ROWS,
+    SheetsConfigError,
+  ),
+  timeoutMs: readPositiveInteger(
+    env,
+    "GOOGLE_SHEETS_TIMEOUT_MS",
+    DEFAULT_TIMEOUT_MS,
+    SheetsConfigError,
+  ),
+});
@@ -0,0 +1,59 @@
+/**
+ * Why reading a spreadsheet failed:
+ * - `invalid_request`: the spreadsheet ID or range couldn't be read.
+ * - `not_configured`: no Google credentials are set up on the server.
+ * - `unauthenticated`: Google rejected the server's credentials.
+ * - `permission_denied`: the spreadsheet is private and isn't shared with the
+ *   server's account.
+ * - `not_found`: there's no such spreadsheet, or no such tab in it.
+ * - `rate_limited`: Google's quota ran out, even after retrying.
+ * - `unavailable`: Google couldn't be reached or failed.
+ */
+export const SHEETS_ERROR_CATEGORIES = [
+  "invalid_request",
+  "not_configured",
+  "unauthenticated",
+  "permission_denied",
+  "not_found",
+  "rate_limited",
+  "unavailable",
+] as const;
+
+export type SheetsErrorCategory = (typeof SHEETS_ERROR_CATEGORIES)[number];
+
+export class SheetsError extends Error {
+  constructor(
+    readonly category: SheetsErrorCategory,
+    message: string,
+  ) {
+    super(message);
+
+    Object.setPrototypeOf(this, SheetsError.prototype);
+  }
+}
+
+const STATUS_BY_CATEGORY: Record<SheetsErrorCategory, number> = {
+  invalid_request: 400,
+  not_configured: 503,
+  unauthenticated: 502,
+  permission_denied: 403,
+  not_found: 404,
+  rate_limited: 429,
+  unavailable: 503,
+};
+
+/**
+ * The HTTP status a route responds with when a read fails for this reason.
+ * Google rejecting the server's own credentials is a 502, since the client
+ * can't fix it.
+ */
+export const statusForSheetsError = (category: SheetsErrorCategory) =>
+  STATUS_BY_CATEGORY[category];
+
+export class SheetsConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+
+    Object.setPrototypeOf(this, SheetsConfigError.prototype);
+  }
+}
@@ -0,0 +1,403 @@
+/** @jest-environment node */
+import { generateKeyPairSync } from "node:crypto";
+import type { FakeSpreadsheet, SheetsConfig } from "../index";
+import {
+  FakeSheetsServer,
+  formatA1Range,
+  GoogleSheetsClient,
+  loadSheetsConfig,
+  parseA1Range,
+  parseSpreadsheetId,
+  SheetsConfigError,
+  SheetsError,
+  sheetTableToCsv,
+} from "../index";
+
+const SERVICE_ACCOUNT = "reports@example.iam.gserviceaccount.com";
+const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: "pkcs8", format: "pem" },
+  publicKeyEncoding: { type: "spki", format: "pem" },
+});
+
+const SALES: FakeSpreadsheet = {
+  id: "sales-2024",
+  title: "Sales 2024",
+  sharedWith: [SERVICE_ACCOUNT, "analyst@example.com"],
+  tabs: [
+    {
+      title: "Orders",
+      rows: [
+        ["Date", "Region", "Revenue", "Margin", "Paid", "Note"],
+        [
+          { value: 45292, type: "DATE", formatted: "1/1/2024" },
+          "North",
+          { value: 1200.5, type: "CURRENCY", formatted: "$1,200.50" },
+          { value: 0.25, type: "PERCENT", formatted: "25%" },
+          true,
+          null,
+        ],
+        [
+          { value: 45337, type: "DATE", formatted: "2/15/2024" },
+          "South",
+          { value: 300, type: "CURRENCY", formatted: "$300.00" },
+          { value: 0.1, type: "PERCENT", formatted: "10%" },
+          false,
+          { error: "#REF!" },
+        ],
+      ],
+    },
+    {
+      title: "Q1 Targets",
+      rows: [
+        ["Region", "Target"],
+        ["North", 1000],
+        ["South", 500],
+      ],
+    },
+  ],
+};
+
+const PRIVATE: FakeSpreadsheet = {
+  id: "private-sheet",
+  title: "Salaries",
+  tabs: [{ title: "Sheet1", rows: [["Name"], ["Ann"]] }],
+};
+
+const PUBLIC: FakeSpreadsheet = {
+  id: "public-sheet",
+  title: "Open data",
+  public: true,
+  tabs: [
+    {
+      title: "Sheet1",
+      rows: [["Year", "Count"], ...[1, 2, 3, 4, 5].map((n) => [2000 + n, n])],
+    },
+  ],
+};
+
+describe("parseA1Range", () => {
+  it("reads tabs, cells and open-ended ranges", () => {
+    expect(parseA1Range("Sales!A2:D100")).toEqual({
+      tab: "Sales",
+      startRow: 1,
+      startColumn: 0,
+      endRow: 99,
+      endColumn: 3,
+    });
+    expect(parseA1Range("'Bob''s tab'!B:AA")).toMatchObject({
+      tab: "Bob's tab",
+      startColumn: 1,
+      endColumn: 26,
+      startRow: undefined,
+    });
+    expect(parseA1Range("A2:D")).toMatchObject({
+      tab: undefined,
+      startRow: 1,
+      endRow: undefined,
+      endColumn: 3,
+    });
+    expect(parseA1Range("Q")).toEqual({ tab: "Q" });
+    expect(parseA1Range("Sheet1")).toEqual({ tab: "Sheet1" });
+  });
+
+  it("rejects ranges it can't read", () => {
+    expect(() => parseA1Range("Sales!D1:A1")).toThrow(/ends before it starts/);
+    expect(() => parseA1Range("Sales!A1:B2:C3")).toThrow(SheetsError);
+    expect(() => parseA1Range("")).toThrow(SheetsError);
+  });
+
+  it("quotes tab names that need it", () => {
+    expect(formatA1Range({ tab: "Q1 Targets", startRow: 0, endRow: 9 })).toBe(
+      "'Q1 Targets'!1:10",
+    );
+    expect(formatA1Range({ tab: "A1" })).toBe("'A1'");
+    expect(formatA1Range({ tab: "Sales", startColumn: 0, endColumn: 27 })).toBe(
+      "Sales!A:AB",
+    );
+  });
+});
+
+describe("parseSpreadsheetId", () => {
+  it("accepts an ID or a link", () => {
+    expect(parseSpreadsheetId("sales-2024")).toBe("sales-2024");
+    expect(
+      parseSpreadsheetId(
+        "https://docs.google.com/spreadsheets/d/1AbC_d-9/edit#gid=0",
+      ),
+    ).toBe("1AbC_d-9");
+    expect(() => parseSpreadsheetId("not an id")).toThrow(SheetsError);
+  });
+});
+
+describe("loadSheetsConfig", () => {
+  it("reads a service account key and the limits", () => {
+    const config = loadSheetsConfig({
+      GOOGLE_SERVICE_ACCOUNT_JSON: JSON.stringify({
+        client_email: SERVICE_ACCOUNT,
+        private_key: privateKey,
+      }),
+      GOOGLE_SHEETS_PAGE_ROWS: "100",
+    });
+    expect(config.credentials).toMatchObject({
+      kind: "service_account",
+      clientEmail: SERVICE_ACCOUNT,
+      tokenUrl: "https://oauth2.googleapis.com/token",
+    });
+    expect(config.pageRows).toBe(100);
+  });
+
+  it("rejects incomplete or malformed settings", () => {
+    expect(() => loadSheetsConfig({ GOOGLE_OAUTH_CLIENT_ID: "id" })).toThrow(
+      SheetsConfigError,
+    );
+    expect(() =>
+      loadSheetsConfig({ GOOGLE_SERVICE_ACCOUNT_JSON: "{not json" }),
+    ).toThrow(SheetsConfigError);
+    expect(() =>
+      loadSheetsConfig({
+        GOOGLE_SHEETS_API_KEY: "key",
+        GOOGLE_SHEETS_MAX_ROWS: "-1",
+      }),
+    ).toThrow(SheetsConfigError);
+  });
+
+  it("leaves the credentials out when none are set", () => {
+    expect(loadSheetsConfig({}).credentials).toBeUndefined();
+  });
+});
+
+describe("GoogleSheetsClient", () => {
+  let fake: FakeSheetsServer;
+
+  beforeEach(async () => {
+    fake = await new FakeSheetsServer({
+      spreadsheets: [SALES, PRIVATE, PUBLIC],
+      serviceAccounts: { [SERVICE_ACCOUNT]: publicKey },
+      oauth: {
+        clientId: "client",
+        clientSecret: "secret",
+        refreshToken: "refresh",
+        email: "analyst@example.com",
+      },
+      apiKeys: ["public-key"],
+    }).start();
+  });
+
+  afterEach(() => fake.close());
+
+  const createClient = (
+    credentials: "service_account" | "oauth" | "api_key" | "none",
+    overrides: Partial<SheetsConfig> = {},
+  ) => {
+    const config: SheetsConfig = {
+      apiUrl: fake.apiUrl,
+      pageRows: 5000,
+      maxRows: 200_000,
+      timeoutMs: 5000,
+      ...overrides,
+    };
+    switch (credentials) {
+      case "service_account":
+        config.credentials = {
+          kind: "service_account",
+          clientEmail: SERVICE_ACCOUNT,
+          privateKey,
+          tokenUrl: fake.tokenUrl,
+        };
+        break;
+      case "oauth":
+        config.credentials = {
+          kind: "oauth",
+          clientId: "client",
+          clientSecret: "secret",
+          refreshToken: "refresh",
+          tokenUrl: fake.tokenUrl,
+        };
+        break;
+      case "api_key":
+        config.credentials = { kind: "api_key", apiKey: "public-key" };
+        break;
+      default:
+        break;
+    }
+    return new GoogleSheetsClient(config, { retryDelaysMs: [0, 0] });
+  };
+
+  const caught = async (promise: Promise<unknown>) => {
+    try {
+      await promise;
+    } catch (e) {
+      return e as SheetsError;
+    }
+    throw new Error("Expected the read to fail");
+  };
+
+  it("reads typed cells with a service account", async () => {
+    const table = await createClient("service_account").readRange(
+      "sales-2024",
+      "Orders",
+    );
+
+    expect(table).toMatchObject({
+      spreadsheetTitle: "Sales 2024",
+      tab: "Orders",
+      range: "Orders!A1:F3",
+      truncated: false,
+    });
+    expect(table.columns).toEqual([
+      { name: "Date", kind: "date" },
+      { name: "Region", kind: "string" },
+      { name: "Revenue", kind: "currency" },
+      { name: "Margin", kind: "percent" },
+      { name: "Paid", kind: "boolean" },
+      { name: "Note", kind: "empty" },
+    ]);
+    expect(table.rows[0].map((cell) => cell.value)).toEqual([
+      "2024-01-01",
+      "North",
+      1200.5,
+      0.25,
+      true,
+      null,
+    ]);
+    expect(table.rows[1][5]).toEqual({
+      kind: "error",
+      value: null,
+      formatted: "#REF!",
+    });
+    expect(sheetTableToCsv(table)).toBe(
+      [
+        "Date,Region,Revenue,Margin,Paid,Note",
+        "2024-01-01,North,1200.5,0.25,true,",
+        "2024-02-15,South,300,0.1,false,",
+      ].join("\n"),
+    );
+  });
+
+  it("reads several tabs with OAuth credentials", async () => {
+    const [orders, targets] = await createClient("oauth").readRanges(
+      "https://docs.google.com/spreadsheets/d/sales-2024/edit",
+      ["Orders!B1:C2", "'q1 targets'!A:B"],
+    );
+
+    expect(orders.columns.map((column) => column.name)).toEqual([
+      "Region",
+      "Revenue",
+    ]);
+    expect(orders.rows).toHaveLength(1);
+    expect(targets.tab).toBe("Q1 Targets");
+    expect(targets.range).toBe("'Q1 Targets'!A1:B3");
+    expect(targets.rows.map((row) => row[1].value)).toEqual([1000, 500]);
+  });
+
+  it("lists the tabs of a spreadsheet", async () => {
+    const info =
+      await createClient("service_account").getSpreadsheet("sales-2024");
+
+    expect(info.title).toBe("Sales 2024");
+    expect(info.tabs.map((tab) => tab.title)).toEqual(["Orders", "Q1 Targets"]);
+  });
+
+  it("reads public spreadsheets with an API key, in pages", async () => {
+    const table = await createClient("api_key", { pageRows: 2 }).readRange(
+      "public-sheet",
+    );
+
+    expect(table.rows.map((row) => row[0].value)).toEqual([
+      2001, 2002, 2003, 2004, 2005,
+    ]);
+    const pages = fake.requests
+      .map((request) => request.query.ranges)
+      .filter(Boolean);
+    expect(pages).toEqual([
+      "Sheet1!A1:Z2",
+      "Sheet1!A3:Z4",
+      "Sheet1!A5:Z6",
+      "Sheet1!A7:Z8",
+    ]);
+  });
+
+  it("leaves out rows past the row limit", async () => {
+    const table = await createClient("api_key", { maxRows: 3 }).readRange(
+      "public-sheet",
+    );
+
+    expect(table.rows).toHaveLength(3);
+    expect(table.truncated).toBe(true);
+  });
+
+  it("says who to share a private spreadsheet with", async () => {
+    const error = await caught(
+      createClient("service_account").readRange("private-sheet"),
+    );
+
+    expect(error).toBeInstanceOf(SheetsError);
+    expect(error.category).toBe("permission_denied");
+    expect(error.message).toContain(`Share it with ${SERVICE_ACCOUNT}`);
+  });
+
+  it("reports missing spreadsheets, tabs and unread ranges", async () => {
+    const client = createClient("service_account");
+
+    expect((await caught(client.readRange("no-such-sheet"))).category).toBe(
+      "not_found",
+    );
+    const missingTab = await caught(client.readRange("sales-2024", "Returns"));
+    expect(missingTab.category).toBe("not_found");
+    expect(missingTab.message).toContain('"Orders", "Q1 Targets"');
+    expect(
+      (await caught(client.readRange("sales-2024", "Orders!C1:A1"))).category,
+    ).toBe("invalid_request");
+    expect(fake.requests).toHaveLength(2);
+  });
+
+  it("fails reads when no credentials are set", async () => {
+    const client = createClient("none");
+
+    expect(client.configured).toBe(false);
+    expect((await caught(client.readRange("sales-2024"))).category).toBe(
+      "not_configured",
+    );
+  });
+
+  it("rejects credentials Google doesn't accept", async () => {
+    const client = new GoogleSheetsClient({
+      apiUrl: fake.apiUrl,
+      credentials: {
+        kind: "oauth",
+        clientId: "client",
+        clientSecret: "wrong",
+        refreshToken: "refresh",
+        tokenUrl: fake.tokenUrl,
+      },
+      pageRows: 5000,
+      maxRows: 1000,
+      timeoutMs: 5000,
+    });
+
+    expect((await caught(client.readRange("sales-2024"))).category).toBe(
+      "unauthenticated",
+    );
+  });
+
+  it("retries failed requests and renews revoked tokens", async () => {
+    const client = createClient("service_account");
+    await client.getSpreadsheet("sales-2024");
+
+    fake.failNext(503, 429);
+    fake.revokeTokens();
+    const table = await client.readRange("sales-2024", "Orders");
+
+    expect(table.rows).toHaveLength(2);
+  });
+
+  it("gives up once the retries run out", async () => {
+    fake.failNext(503, 503, 503);
+
+    const error = await caught(
+      createClient("service_account").getSpreadsheet("sales-2024"),
+    );
+    expect(error.category).toBe("unavailable");
+  });
+});
@@ -5,12 +5,15 @@ import * as error from "@canva/error/test";
 import * as platform from "@canva/platform/test";
 import * as user from "@canva/user/test";
 
-// Initialize the test environments
-asset.initTestEnvironment();
-design.initTestEnvironment();
-error.initTestEnvironment();
-platform.initTestEnvironment();
-user.initTestEnvironment();
+// Initialize the test environments. Backend suites that need `fetch` run in
+// the node environment, which has no window for the SDKs to attach to.
+if (typeof window !== "undefined") {
+  asset.initTestEnvironment();
+  design.initTestEnvironment();
+  error.initTestEnvironment();
+  platform.initTestEnvironment();
+  user.initTestEnvironment();
+}
 
 // Once they're initialized, mock the SDKs
 jest.mock("@canva/asset");
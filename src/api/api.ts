@@ -1,4 +1,11 @@
 import { POLLING_INTERVAL_IN_SECONDS } from "src/config";
+import type { ChartSpec, TimeUnit } from "utils/chart_spec";
+import type {
+  ColumnProfile,
+  DatasetProfile as ProfileOfDataset,
+} from "utils/data_profile";
+import type { StreamProgress } from "utils/server_sent_events";
+import { readServerSentEvents } from "utils/server_sent_events";
 
 /**
  * Represents the structure of an image.
@@ -160,6 +167,44 @@ export const purchaseCredits = async (): Promise<RemainingCreditsResult> => {
   return result;
 };
 
+/**
+ * A request the backend failed, with the error category it sent, if any.
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly category: string | undefined,
+    message: string,
+  ) {
+    super(message);
+
+    Object.setPrototypeOf(this, ApiError.prototype);
+  }
+}
+
+/**
+ * Builds an error from a failed response, preferring the `error` and
+ * `details` fields the backend sends over the bare status code.
+ * @param {Response} res - The failed response.
+ * @returns {Promise<ApiError>} - A promise that resolves to the error.
+ */
+const readError = async (res: Response): Promise<ApiError> => {
+  const fallback = `Request failed with status ${res.status}`;
+  try {
+    const body = await res.json();
+    if (typeof body?.error !== "string") {
+      return new ApiError(res.status, undefined, fallback);
+    }
+    return new ApiError(
+      res.status,
+      typeof body.category === "string" ? body.category : undefined,
+      body.details ? `${body.error}: ${body.details}` : body.error,
+    );
+  } catch {
+    return new ApiError(res.status, undefined, fallback);
+  }
+};
+
 /**
  * Sends a request to the specified URL.
  * @param {URL} url - The URL to send the request to.
@@ -175,7 +220,7 @@ const sendRequest = async <T>(url: URL, options?: RequestInit): Promise<T> => {
   });
 
   if (!res.ok) {
-    throw new Error(`Request failed with status ${res.status}`);
+    throw await readError(res);
   }
 
   // Check Content-Type header to determine how to parse response body
@@ -189,98 +234,1039 @@ const sendRequest = async <T>(url: URL, options?: RequestInit): Promise<T> => {
   }
 };
 
+// ====== Datasets ======
+
+/**
+ * A dataset kept by the backend, so requests can name it by its ID instead
+ * of sending the CSV each time. Unused datasets expire at `expiresAt`.
+ */
+export interface DatasetInfo {
+  datasetId: string;
+  name: string;
+  status: "uploading" | "ready";
+  byteLength: number;
+  chunkCount: number;
+  rowCount?: number;
+  columns?: { name: string; kind: string }[];
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+}
+
+/**
+ * What the backend found in one column of a dataset. Numeric statistics are
+ * in the units of the cells, so a `percent` column of `12%` has a min of 12.
+ */
+export type DatasetColumnProfile = ColumnProfile;
+
+/**
+ * A dataset's profile, as the panel would compute it from the same CSV, with
+ * charts suggested from it.
+ */
+export interface DatasetProfile extends ProfileOfDataset {
+  datasetId: string;
+  suggestedCharts: ChartSpec[];
+}
+
+const DATASETS_PATH = "/api/data-to-infographic/datasets";
+
+// How many characters of CSV each upload request carries
+const DATASET_CHUNK_LENGTH = 1_000_000;
+
+// Splits text into chunks, never between the two halves of a character
+// written as a surrogate pair
+const splitIntoChunks = (text: string, length: number) => {
+  const chunks: string[] = [];
+  let start = 0;
+  do {
+    let end = Math.min(start + length, text.length);
+    const last = text.charCodeAt(end - 1);
+    if (end < text.length && last >= 0xd800 && last <= 0xdbff) {
+      end--;
+    }
+    chunks.push(text.slice(start, end));
+    start = end;
+  } while (start < text.length);
+  return chunks;
+};
+
+/**
+ * Uploads CSV text to the backend in chunks.
+ * @returns {Promise<DatasetInfo>} - A promise that resolves to the dataset, parsed and ready to use.
+ */
+export const uploadDataset = async (
+  csvData: string,
+  name?: string,
+): Promise<DatasetInfo> => {
+  const { datasetId } = await sendRequest<DatasetInfo>(
+    new URL(DATASETS_PATH, BACKEND_HOST),
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name }),
+    },
+  );
+  const chunks = splitIntoChunks(csvData, DATASET_CHUNK_LENGTH);
+  for (const [index, data] of chunks.entries()) {
+    await sendRequest(
+      new URL(`${DATASETS_PATH}/${datasetId}/chunks/${index}`, BACKEND_HOST),
+      {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ data }),
+      },
+    );
+  }
+  return sendRequest(
+    new URL(`${DATASETS_PATH}/${datasetId}/complete`, BACKEND_HOST),
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ chunkCount: chunks.length }),
+    },
+  );
+};
+
+export const getDataset = async (datasetId: string): Promise<DatasetInfo> =>
+  sendRequest(new URL(`${DATASETS_PATH}/${datasetId}`, BACKEND_HOST));
+
+export const getDatasetProfile = async (
+  datasetId: string,
+): Promise<DatasetProfile> =>
+  sendRequest(new URL(`${DATASETS_PATH}/${datasetId}/profile`, BACKEND_HOST));
+
+export const deleteDataset = async (datasetId: string) =>
+  sendRequest<{ datasetId: string; deleted: boolean }>(
+    new URL(`${DATASETS_PATH}/${datasetId}`, BACKEND_HOST),
+    { method: "DELETE" },
+  );
+
+// The datasets uploaded for the CSV passed to the functions below, by the
+// CSV, so each version of the data is uploaded once however many requests
+// use it. Only the latest few are kept; older ones are deleted.
+const MAX_UPLOADED_DATASETS = 3;
+const uploadedDatasets = new Map<string, Promise<string>>();
+
+const datasetIdFor = (csvData: string): Promise<string> => {
+  const uploaded = uploadedDatasets.get(csvData);
+  if (uploaded) {
+    // Moves it to the end, as the most recently used
+    uploadedDatasets.delete(csvData);
+    uploadedDatasets.set(csvData, uploaded);
+    return uploaded;
+  }
+
+  const upload = uploadDataset(csvData).then(({ datasetId }) => datasetId);
+  uploadedDatasets.set(csvData, upload);
+  upload.catch(() => {
+    if (uploadedDatasets.get(csvData) === upload) {
+      uploadedDatasets.delete(csvData);
+    }
+  });
+  for (const [oldCsvData, oldUpload] of uploadedDatasets) {
+    if (uploadedDatasets.size <= MAX_UPLOADED_DATASETS) {
+      break;
+    }
+    uploadedDatasets.delete(oldCsvData);
+    oldUpload.then(deleteDataset).catch(() => undefined);
+  }
+  return upload;
+};
+
+// Sends a request about CSV data by the ID of its uploaded dataset. A
+// dataset the backend has let expire is uploaded again and the request sent
+// once more; any other failure is the request's own.
+const withDataset = async <T>(
+  csvData: string,
+  request: (datasetId: string) => Promise<T>,
+): Promise<T> => {
+  try {
+    return await request(await datasetIdFor(csvData));
+  } catch (e) {
+    if (!(e instanceof ApiError && e.category === "unknown_dataset")) {
+      throw e;
+    }
+    uploadedDatasets.delete(csvData);
+    return request(await datasetIdFor(csvData));
+  }
+};
+
 // ====== Enhanced Data-to-Infographic Agent API ======
 
 // Original Data Analysis
-export const analyzeData = async (csvData?: string, sheetUrl?: string, dataDescription?: string, customGraphs?: string) => {
+export const analyzeData = async (csvData: string, customGraphs?: string) => {
   const url = new URL("/api/data-to-infographic/analyze-csv", BACKEND_HOST);
-  const result = await sendRequest(url, {
+  const result = await withDataset(csvData, (datasetId) => sendRequest(url, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ csvData, sheetUrl, dataDescription, customGraphs }),
-  });
+    body: JSON.stringify({ datasetId, customGraphs }),
+  }));
   return result;
 };
 
-export const executePythonCode = async (csvData: string, pythonCode: string) => {
-  const url = new URL("/api/data-to-infographic/execute-python", BACKEND_HOST);
-  const result = await sendRequest(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ csvData, pythonCode }),
-  });
-  return result;
+// Analyses
+
+/** The kinds of column an analysis parameter takes; see backend/analyses. */
+export type ColumnRole = "numeric" | "date" | "categorical";
+
+export type AnalysisParameter = { name: string; description: string } & (
+  | { type: "column" | "columns"; roles: ColumnRole[] }
+  | { type: "integer" | "number"; min?: number; max?: number; default?: number }
+  | { type: "choice"; choices: string[]; default?: string }
+  | { type: "choices"; choices: string[]; default?: string[] }
+);
+
+export type AnalysisParameters = Record<string, string | number | string[]>;
+
+/** A named analysis the server runs, at its latest version. */
+export interface AnalysisDescription {
+  name: string;
+  version: number;
+  /** Every version there is, oldest first. */
+  versions: number[];
+  title: string;
+  description: string;
+  parameters: AnalysisParameter[];
+  requires: {
+    rows: number;
+    /** How many columns of each kind are needed; any one of these will do. */
+    columns: Partial<Record<ColumnRole, number>>[];
+  };
+  outputs: { charts: boolean; tables: string[]; metrics: string[] };
+}
+
+export interface AnalysisTable {
+  name: string;
+  header: string[];
+  rows: string[][];
+}
+
+export interface AnalysisRun {
+  analysis: { name: string; version: number };
+  /** The parameters used, with the defaults of those not given. */
+  parameters: AnalysisParameters;
+  charts: ChartSpec[];
+  /** The table the charts are drawn from, when it isn't the dataset. */
+  chartData?: string;
+  tables: AnalysisTable[];
+  metrics: Record<string, number | string | null>;
+  summary: string;
+  details: unknown;
+}
+
+/**
+ * Lists the analyses the server runs, with the parameters each takes.
+ * @returns {Promise<AnalysisDescription[]>} - A promise that resolves to the analyses.
+ */
+export const listAnalyses = async (): Promise<AnalysisDescription[]> => {
+  const url = new URL("/api/data-to-infographic/analyses", BACKEND_HOST);
+  const { analyses } = await sendRequest<{
+    analyses: AnalysisDescription[];
+  }>(url);
+  return analyses;
+};
+
+/**
+ * Runs a named analysis on the data. Unknown analyses, invalid parameters
+ * and data the analysis can't run on are rejected with an error saying so.
+ * @param version - Defaults to the latest.
+ * @returns {Promise<AnalysisRun>} - A promise that resolves to the analysis's charts, tables and metrics.
+ */
+export const runAnalysis = async (
+  csvData: string,
+  name: string,
+  parameters: AnalysisParameters = {},
+  version?: number,
+): Promise<AnalysisRun> => {
+  const url = new URL(
+    `/api/data-to-infographic/analyses/${encodeURIComponent(name)}`,
+    BACKEND_HOST,
+  );
+  return withDataset(csvData, (datasetId) =>
+    sendRequest(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ datasetId, version, parameters }),
+    }),
+  );
+};
+
+/**
+ * Draws chart specs on the server. The specs are checked against the
+ * dataset's columns first; invalid specs are rejected with their issues.
+ * @returns {Promise<Object>} - A promise that resolves to the rendered charts in order.
+ */
+export const renderChartSpecs = async (
+  csvData: string,
+  charts: ChartSpec[],
+): Promise<{ chartImages: string[] }> => {
+  const url = new URL("/api/data-to-infographic/render-charts", BACKEND_HOST);
+  return withDataset(csvData, (datasetId) =>
+    sendRequest(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ datasetId, charts }),
+    }),
+  );
 };
 
 // NEW FEATURE: Natural Language to Chart
 export const processNaturalLanguageChart = async (csvData: string, query: string) => {
   const url = new URL("/api/data-to-infographic/natural-language-chart", BACKEND_HOST);
-  const result = await sendRequest(url, {
+  const result = await withDataset(csvData, (datasetId) => sendRequest(url, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ csvData, query }),
-  });
+    body: JSON.stringify({ datasetId, query }),
+  }));
   return result;
 };
 
+// Correlations
+
+/** How numeric columns are correlated; see backend/correlations. */
+export type CorrelationMethod = "pearson" | "spearman" | "kendall";
+
+/** What a pair of columns is measured by: the method, or Cramér's V. */
+export type CorrelationMeasure = CorrelationMethod | "cramersV";
+
+export type PValueCorrection = "holm" | "bonferroni" | "benjaminiHochberg" | "none";
+
+export interface CorrelationOptions {
+  /** Defaults to `pearson`. */
+  method?: CorrelationMethod;
+  /** Defaults to `holm`. */
+  correction?: PValueCorrection;
+  /** Defaults to 0.05. */
+  alpha?: number;
+  columns?: string[];
+  /** Defaults to 10. */
+  maxRelationships?: number;
+}
+
+export interface CorrelationPair {
+  columns: [string, string];
+  measure: CorrelationMeasure;
+  coefficient: number;
+  pValue: number;
+  adjustedPValue: number;
+  /** The rows with values in both columns. */
+  n: number;
+  significant: boolean;
+}
+
+/** Null for pairs that couldn't be measured; 1 on the diagonal. */
+export interface CorrelationMatrix {
+  measure: CorrelationMeasure;
+  columns: string[];
+  coefficients: (number | null)[][];
+  pValues: (number | null)[][];
+}
+
+/**
+ * Correlations computed by the backend and the model's narration of them.
+ * The heatmaps are drawn from `chartData` rather than the dataset.
+ */
+export interface Correlations {
+  correlation_summary: string;
+  insights: string[];
+  caveats: string;
+  method: CorrelationMethod;
+  correction: PValueCorrection;
+  alpha: number;
+  rowCount: number;
+  matrix?: CorrelationMatrix;
+  categoricalMatrix?: CorrelationMatrix;
+  /** Strongest first. */
+  pairs: CorrelationPair[];
+  skipped: { columns: [string, string]; reason: string }[];
+  /** The strongest significant pairs, strongest first. */
+  relationships: CorrelationPair[];
+  charts: ChartSpec[];
+  chartData: string;
+}
+
+/**
+ * Measures and tests how each pair of the data's columns is related and has
+ * the model explain it. Data without two numeric or two categorical columns
+ * is rejected with an error saying so.
+ * @returns {Promise<Correlations>} - A promise that resolves to the matrices, the ranked relationships and their narration.
+ */
+export const analyzeCorrelations = async (
+  csvData: string,
+  options: CorrelationOptions = {},
+): Promise<Correlations> => {
+  const url = new URL("/api/data-to-infographic/analyze-correlations", BACKEND_HOST);
+  return withDataset(csvData, (datasetId) =>
+    sendRequest(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ datasetId, ...options }),
+    }),
+  );
+};
+
 // NEW FEATURE: Predictive Analytics
-export const generatePredictions = async (csvData: string, targetColumn?: string, forecastPeriods?: number) => {
+
+/** The models the backend forecasts with; see backend/forecasting. */
+export type ForecastModel = "linear" | "ets" | "holtWinters";
+
+export interface PredictionOptions {
+  targetColumn?: string;
+  dateColumn?: string;
+  forecastPeriods?: number;
+  frequency?: TimeUnit;
+  aggregate?: "sum" | "mean";
+  /** Defaults to the model that backtests best. */
+  model?: ForecastModel;
+  /** The probability each interval holds the value. Defaults to 0.95. */
+  intervalLevel?: number;
+}
+
+/**
+ * How well a model forecast the end of the series from the data before it.
+ * `mape` is null when every value tested was 0.
+ */
+export interface ForecastBacktest {
+  model: ForecastModel;
+  mape: number | null;
+  rmse: number;
+  folds: number;
+  points: number;
+}
+
+/** A forecast computed by the backend, as backend/forecasting returns it. */
+export interface Forecast {
+  dateColumn: string;
+  targetColumn: string;
+  frequency: TimeUnit;
+  aggregate: "sum" | "mean";
+  seasonLength: number;
+  history: { period: string; value: number; filled: boolean }[];
+  model: ForecastModel;
+  parameters: Record<string, number>;
+  /** Best first. */
+  backtests: ForecastBacktest[];
+  intervalLevel: number;
+  forecast: { period: string; value: number; lower: number; upper: number }[];
+  accuracy: number | null;
+  trendPerPeriod: number;
+}
+
+/**
+ * A computed forecast and the model's narration of it. `confidence` is the
+ * forecast's backtest accuracy, not the model's opinion, and the charts are
+ * drawn from `chartData` rather than the dataset.
+ */
+export interface Predictions {
+  forecast_summary: string;
+  predictions: string[];
+  trend_analysis: string;
+  confidence: number | null;
+  forecast: Forecast;
+  charts: ChartSpec[];
+  chartData: string;
+}
+
+/**
+ * Forecasts a column of the data over time and has the model explain the
+ * forecast. Data without dates, or with too few periods, is rejected with
+ * an error saying so.
+ * @returns {Promise<Predictions>} - A promise that resolves to the forecast and its narration.
+ */
+export const generatePredictions = async (
+  csvData: string,
+  options: PredictionOptions = {},
+): Promise<Predictions> => {
   const url = new URL("/api/data-to-infographic/generate-predictions", BACKEND_HOST);
-  const result = await sendRequest(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ csvData, targetColumn, forecastPeriods }),
-  });
-  return result;
+  return withDataset(csvData, (datasetId) =>
+    sendRequest(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ datasetId, ...options }),
+    }),
+  );
 };
 
 // NEW FEATURE: Anomaly Detection
-export const detectAnomalies = async (csvData: string, sensitivity?: string) => {
+
+/** The ways the backend finds unusual values; see backend/anomalies. */
+export type AnomalyMethod = "zscore" | "iqr" | "mad" | "seasonal" | "multivariate";
+
+export type AnomalySensitivity = "low" | "medium" | "high";
+
+export interface AnomalyOptions {
+  /** Defaults to `mad`, `seasonal` and `multivariate`. */
+  methods?: AnomalyMethod[];
+  /** Defaults to `medium`. */
+  sensitivity?: AnomalySensitivity;
+  /** Defaults to every numeric column that isn't an ID or constant. */
+  columns?: string[];
+  dateColumn?: string;
+}
+
+/** A value, or for `multivariate` a row, that a method found unusual. */
+export interface Anomaly {
+  /** Counting from 1 after the header. */
+  row: number;
+  columns: string[];
+  method: AnomalyMethod;
+  score: number;
+  threshold: number;
+  direction?: "high" | "low";
+  period?: string;
+}
+
+/** A row with anomalies; `severity` is its highest score over its threshold. */
+export interface AnomalousRow {
+  row: number;
+  columns: string[];
+  methods: AnomalyMethod[];
+  severity: number;
+}
+
+/**
+ * Anomalies found by the backend and the model's narration of them. The
+ * charts are drawn from `chartData` rather than the dataset.
+ */
+export interface AnomalyDetection {
+  anomaly_summary: string;
+  findings: string[];
+  risk_level: "Low" | "Medium" | "High";
+  sensitivity: AnomalySensitivity;
+  methods: AnomalyMethod[];
+  skipped: { method: AnomalyMethod; reason: string }[];
+  columns: string[];
+  dateColumn?: string;
+  thresholds: Partial<Record<AnomalyMethod, number>>;
+  rowCount: number;
+  /** By row. */
+  anomalies: Anomaly[];
+  /** Most severe first. */
+  rows: AnomalousRow[];
+  charts: ChartSpec[];
+  chartData: string;
+}
+
+/**
+ * Flags unusual values and rows in the data and has the model explain them.
+ * Data with no numeric columns is rejected with an error saying so.
+ * @returns {Promise<AnomalyDetection>} - A promise that resolves to the flagged rows and their narration.
+ */
+export const detectAnomalies = async (
+  csvData: string,
+  options: AnomalyOptions = {},
+): Promise<AnomalyDetection> => {
   const url = new URL("/api/data-to-infographic/detect-anomalies", BACKEND_HOST);
-  const result = await sendRequest(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ csvData, sensitivity }),
-  });
-  return result;
+  return withDataset(csvData, (datasetId) =>
+    sendRequest(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ datasetId, ...options }),
+    }),
+  );
 };
 
 // NEW FEATURE: AI Data Storytelling
 export const generateDataStory = async (csvData: string, storyType?: string) => {
   const url = new URL("/api/data-to-infographic/generate-data-story", BACKEND_HOST);
-  const result = await sendRequest(url, {
+  const result = await withDataset(csvData, (datasetId) => sendRequest(url, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ csvData, storyType }),
-  });
+    body: JSON.stringify({ datasetId, storyType }),
+  }));
   return result;
 };
 
 // NEW FEATURE: Smart Insight Recommendations
 export const generateInsightRecommendations = async (csvData: string, businessContext?: string) => {
   const url = new URL("/api/data-to-infographic/insight-recommendations", BACKEND_HOST);
-  const result = await sendRequest(url, {
+  const result = await withDataset(csvData, (datasetId) => sendRequest(url, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ csvData, businessContext }),
-  });
+    body: JSON.stringify({ datasetId, businessContext }),
+  }));
   return result;
 };
 
+// ====== Formulas ======
+
+/**
+ * A row a formula failed for, with the span of the formula that failed.
+ */
+export interface FormulaRowError {
+  /** The row's number, counting from 1 after the header. */
+  row: number;
+  code: string;
+  message: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * The dataset with a column computed by a formula, and a preview of its
+ * first rows beside the columns the formula reads.
+ */
+export interface FormulaColumn {
+  columnName: string;
+  columns: string[];
+  csvData: string;
+  rowCount: number;
+  preview: { columns: string[]; rows: string[][] };
+  errorCount: number;
+  /** The first few rows the formula failed for. */
+  errors: FormulaRowError[];
+}
+
+/**
+ * Computes a column from a formula such as `[Sales] - [Cost]`. Invalid
+ * formulas are rejected with a message that underlines the text at fault.
+ * @returns {Promise<FormulaColumn>} - A promise that resolves to the dataset with the column added.
+ */
+export const applyFormula = async (
+  csvData: string,
+  formula: string,
+  newColumnName?: string,
+  signal?: AbortSignal,
+): Promise<FormulaColumn> => {
+  const url = new URL("/api/data-to-infographic/apply-formula", BACKEND_HOST);
+  return withDataset(csvData, (datasetId) =>
+    sendRequest(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ datasetId, formula, newColumnName }),
+      signal,
+    }),
+  );
+};
+
+export interface FormulaTranslation {
+  formula: string;
+  columnName: string;
+  explanation: string;
+}
+
+/**
+ * Asks the model for the formula of a column described in plain English.
+ * The formula is checked against the dataset's columns before it's returned.
+ * @returns {Promise<FormulaTranslation>} - A promise that resolves to the formula and a name for its column.
+ */
+export const translateFormula = async (
+  csvData: string,
+  description: string,
+  columnName?: string,
+): Promise<FormulaTranslation> => {
+  const url = new URL("/api/data-to-infographic/translate-formula", BACKEND_HOST);
+  return withDataset(csvData, (datasetId) =>
+    sendRequest(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ datasetId, description, columnName }),
+    }),
+  );
+};
+
 // NEW FEATURE: Live Data Sync - Status
-export const getSyncStatus = async (syncId: string) => {
+export const getSyncStatus = async (syncId: string): Promise<LiveSyncState> => {
   const url = new URL(`/api/data-to-infographic/sync-status/${syncId}`, BACKEND_HOST);
-  const result = await sendRequest(url);
+  const result = await sendRequest<LiveSyncState>(url);
   return result;
 };
 
+// ====== Live Sync ======
+
+/**
+ * One read of a synced sheet range. `diff` says what changed since the read
+ * before, matching rows by the first column when its values are unique.
+ */
+export interface LiveSyncRun {
+  startedAt: string;
+  finishedAt: string;
+  trigger: "scheduled" | "manual";
+  outcome: "initial" | "changed" | "unchanged" | "failed";
+  rowCount?: number;
+  contentHash?: string;
+  diff?: {
+    added: number;
+    removed: number;
+    changed: number;
+    columnsAdded: string[];
+    columnsRemoved: string[];
+    keyColumn?: string;
+  };
+  error?: { category?: string; message: string };
+}
+
+/**
+ * A live sync as the backend reports it.
+ */
+export interface LiveSyncState {
+  syncId: string;
+  active: boolean;
+  status: "active" | "paused";
+  sheetId: string;
+  range?: string;
+  refreshInterval: number;
+  lastSync?: string;
+  nextSync?: string;
+  lastChange?: string;
+  rowCount?: number;
+  contentHash?: string;
+  consecutiveFailures: number;
+  /** The most recent runs, newest first. */
+  history: LiveSyncRun[];
+}
+
+/**
+ * A sheet range read as CSV, with the types of its columns.
+ */
+export interface SheetData {
+  csvData: string;
+  rowCount: number;
+  /** Set when the range had more rows than the backend reads. */
+  truncated: boolean;
+  sheetInfo: {
+    sheetId: string;
+    title: string;
+    tab: string;
+    range: string;
+    columns: string[];
+    columnTypes: Record<string, string>;
+  };
+  lastSync: string;
+}
+
+/**
+ * Starts syncing a sheet range. The backend reads it straight away, so a
+ * sheet it can't read is rejected here.
+ * @param {string} sheetId - A spreadsheet ID or link.
+ * @param {string} [range] - In A1 notation; the whole first tab when left out.
+ * @param {number} [refreshInterval] - How often to read it, in milliseconds.
+ */
+export const setupLiveSync = async (
+  sheetId: string,
+  range?: string,
+  refreshInterval?: number,
+): Promise<{ syncId: string; lastSync: string; rowCount: number }> => {
+  const url = new URL("/api/data-to-infographic/setup-live-sync", BACKEND_HOST);
+  return sendRequest(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ sheetId, range, refreshInterval }),
+  });
+};
+
+/**
+ * Reads a sheet range as CSV. Passing the `syncId` of a sync of the same
+ * range records the read in that sync's history.
+ */
+export const fetchSheetData = async (
+  sheetId: string,
+  range?: string,
+  syncId?: string,
+): Promise<SheetData> => {
+  const url = new URL("/api/data-to-infographic/fetch-sheet-data", BACKEND_HOST);
+  return sendRequest(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ sheetId, range, syncId }),
+  });
+};
+
+export const pauseLiveSync = async (syncId: string): Promise<LiveSyncState> => {
+  const url = new URL(`/api/data-to-infographic/live-sync/${syncId}/pause`, BACKEND_HOST);
+  return sendRequest(url, { method: "POST" });
+};
+
+export const resumeLiveSync = async (
+  syncId: string,
+  refreshInterval?: number,
+): Promise<LiveSyncState> => {
+  const url = new URL(`/api/data-to-infographic/live-sync/${syncId}/resume`, BACKEND_HOST);
+  return sendRequest(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ refreshInterval }),
+  });
+};
+
+export const deleteLiveSync = async (syncId: string) => {
+  const url = new URL(`/api/data-to-infographic/live-sync/${syncId}`, BACKEND_HOST);
+  return sendRequest<{ syncId: string; deleted: boolean }>(url, { method: "DELETE" });
+};
+
+/**
+ * Callbacks for `watchLiveSyncs`. `onReady` is called with the syncs' status
+ * each time the stream (re)connects, so changes made while it was down can be
+ * caught up on.
+ */
+export interface LiveSyncHandlers {
+  onReady?: (syncs: LiveSyncState[]) => void;
+  onRun?: (sync: LiveSyncState, run: LiveSyncRun) => void;
+  onStatus?: (sync: LiveSyncState) => void;
+  onDeleted?: (syncId: string) => void;
+  /** Called when the stream drops; it's reopened after `retryInMs`. */
+  onDisconnect?: (error: Error, retryInMs: number) => void;
+  /** Stops watching. */
+  signal?: AbortSignal;
+}
+
+const LIVE_SYNC_RETRY_MS = 1000;
+const LIVE_SYNC_MAX_RETRY_MS = 30_000;
+
+/**
+ * Watches live syncs for new reads and status changes until `signal` is
+ * aborted, reconnecting with a growing delay whenever the stream drops.
+ * @param {string[]} syncIds - The syncs to watch.
+ * @returns {Promise<void>} - A promise that resolves once watching stops.
+ */
+export const watchLiveSyncs = async (
+  syncIds: string[],
+  { onReady, onRun, onStatus, onDeleted, onDisconnect, signal }: LiveSyncHandlers,
+): Promise<void> => {
+  const url = new URL("/api/data-to-infographic/live-sync/events", BACKEND_HOST);
+  url.searchParams.set("syncIds", syncIds.join(","));
+  let retryMs = LIVE_SYNC_RETRY_MS;
+
+  while (!signal?.aborted) {
+    try {
+      const res = await fetch(url, {
+        headers: { Accept: "text/event-stream" },
+        signal,
+      });
+      if (!res.ok) {
+        throw await readError(res);
+      }
+      if (!res.body) {
+        throw new Error("The server did not return a stream");
+      }
+
+      for await (const { event, data } of readServerSentEvents(res.body)) {
+        const payload = JSON.parse(data);
+        switch (event) {
+          case "ready":
+            retryMs = LIVE_SYNC_RETRY_MS;
+            onReady?.(payload.syncs);
+            break;
+          case "run":
+            onRun?.(payload.sync, payload.run);
+            break;
+          case "status":
+            onStatus?.(payload.sync);
+            break;
+          case "deleted":
+            onDeleted?.(payload.syncId);
+            break;
+          default:
+            break;
+        }
+      }
+      throw new Error("The live sync stream closed");
+    } catch (e) {
+      if (signal?.aborted) {
+        return;
+      }
+      onDisconnect?.(e instanceof Error ? e : new Error(String(e)), retryMs);
+      await new Promise((resolve) => setTimeout(resolve, retryMs));
+      retryMs = Math.min(retryMs * 2, LIVE_SYNC_MAX_RETRY_MS);
+    }
+  }
+};
+
 // NEW FEATURE: Chat Orchestrator
-export const processChatMessage = async (message: string, csvData: string, hasData: boolean) => {
+export const processChatMessage = async (message: string, hasData: boolean) => {
   const url = new URL("/api/data-to-infographic/chat-orchestrator", BACKEND_HOST);
   const result = await sendRequest(url, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ message, csvData, hasData }),
+    body: JSON.stringify({ message, hasData }),
+  });
+  return result;
+};
+
+// ====== Streaming ======
+
+/**
+ * Callbacks for a streamed request. `onToken` receives the user-facing text
+ * as the model writes it; a progress update with the `repairing` stage means
+ * the text so far is being discarded and will be written again.
+ */
+export interface StreamHandlers {
+  onProgress?: (progress: StreamProgress) => void;
+  onToken?: (text: string) => void;
+  onChart?: (chart: { image: string; index: number; total: number }) => void;
+  /** Cancels the request. The returned promise then rejects with an `AbortError`. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Sends a POST request to a streaming endpoint and dispatches its events.
+ * @param {URL} url - The endpoint to stream from.
+ * @param {unknown} body - The JSON request body.
+ * @param {StreamHandlers} handlers - Event callbacks and an optional abort signal.
+ * @returns {Promise<T | undefined>} - A promise that resolves to the `result` event's data once the stream ends.
+ */
+const streamRequest = async <T>(
+  url: URL,
+  body: unknown,
+  { onProgress, onToken, onChart, signal }: StreamHandlers,
+): Promise<T | undefined> => {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+    },
+    body: JSON.stringify(body),
+    signal,
   });
+
+  if (!res.ok) {
+    throw await readError(res);
+  }
+  if (!res.body) {
+    throw new Error("The server did not return a stream");
+  }
+
+  let result: T | undefined;
+  for await (const { event, data } of readServerSentEvents(res.body)) {
+    const payload = JSON.parse(data);
+    switch (event) {
+      case "progress":
+        onProgress?.(payload);
+        break;
+      case "token":
+        onToken?.(payload.text);
+        break;
+      case "chart":
+        onChart?.(payload);
+        break;
+      case "result":
+        result = payload;
+        break;
+      case "error":
+        throw new Error(
+          payload.details
+            ? `${payload.error}: ${payload.details}`
+            : payload.error,
+        );
+      default:
+        break;
+    }
+  }
+
   return result;
 };
+
+/**
+ * The action the chat orchestrator chose for a message, with its reply.
+ */
+export interface ChatOrchestratorResult {
+  action: string;
+  response: string;
+  query: string;
+  formula: string;
+  columnName: string;
+}
+
+/**
+ * Streams the chat orchestrator's reply to a message.
+ * @returns {Promise<ChatOrchestratorResult>} - A promise that resolves to the chosen action once the reply is complete.
+ */
+export const streamChatMessage = async (
+  message: string,
+  hasData: boolean,
+  handlers: StreamHandlers = {},
+): Promise<ChatOrchestratorResult> => {
+  const url = new URL(
+    "/api/data-to-infographic/chat-orchestrator/stream",
+    BACKEND_HOST,
+  );
+  const result = await streamRequest<ChatOrchestratorResult>(
+    url,
+    { message, hasData },
+    handlers,
+  );
+  if (!result) {
+    throw new Error("The chat stream ended before a reply was received");
+  }
+  return result;
+};
+
+/**
+ * The analysis returned by the analyze-csv endpoints.
+ */
+export interface CsvAnalysis {
+  data_summary: string;
+  insights: string[];
+  suggested_charts: string[];
+  /** One spec per suggested chart. */
+  charts: ChartSpec[];
+}
+
+/**
+ * Streams an analysis of the CSV and, unless `renderCharts` is false, renders
+ * its charts on the server, passing each to `onChart` as it is drawn.
+ * @returns {Promise<Object>} - A promise that resolves to the analysis and the rendered charts in order.
+ */
+export const streamAnalysis = async (
+  csvData: string,
+  {
+    customGraphs,
+    renderCharts = true,
+    ...handlers
+  }: StreamHandlers & { customGraphs?: string; renderCharts?: boolean } = {},
+): Promise<{ analysis: CsvAnalysis; chartImages: string[] }> => {
+  const url = new URL(
+    "/api/data-to-infographic/analyze-csv/stream",
+    BACKEND_HOST,
+  );
+  const chartImages: string[] = [];
+  const analysis = await withDataset(csvData, (datasetId) =>
+    streamRequest<CsvAnalysis>(
+      url,
+      { datasetId, customGraphs, renderCharts },
+      {
+        ...handlers,
+        onChart(chart) {
+          chartImages[chart.index] = chart.image;
+          handlers.onChart?.(chart);
+        },
+      },
+    ),
+  );
+  if (!analysis) {
+    throw new Error("The analysis stream ended before a result was received");
+  }
+  return { analysis, chartImages: chartImages.filter(Boolean) };
+};
+
+/**
+ * Draws chart specs on the server, passing each chart to `onChart` as it is
+ * drawn.
+ * @returns {Promise<string[]>} - A promise that resolves to every rendered chart in order.
+ */
+export const streamChartSpecs = async (
+  csvData: string,
+  charts: ChartSpec[],
+  handlers: StreamHandlers = {},
+): Promise<string[]> => {
+  const url = new URL(
+    "/api/data-to-infographic/render-charts/stream",
+    BACKEND_HOST,
+  );
+  const chartImages: string[] = [];
+  await withDataset(csvData, (datasetId) =>
+    streamRequest(
+      url,
+      { datasetId, charts },
+      {
+        ...handlers,
+        onChart(chart) {
+          chartImages[chart.index] = chart.image;
+          handlers.onChart?.(chart);
+        },
+      },
+    ),
+  );
+  return chartImages.filter(Boolean);
+};
@@ -0,0 +1,61 @@
+import { defineMessages } from "react-intl";
+
+export const AnomalyReviewMessages = defineMessages({
+  /** Messages for reviewing the rows anomaly detection flagged. */
+  title: {
+    defaultMessage:
+      "{rowCount, plural, one {# row flagged} other {# rows flagged}}",
+    description:
+      "A heading above the rows that anomaly detection found unusual values in",
+  },
+  summary: {
+    defaultMessage:
+      "Checked {columns} at {sensitivity, select, low {low} high {high} other {medium}} sensitivity. Unusual values are highlighted; hover over one to see why.",
+    description:
+      "Explains the table of flagged rows. {columns} is a list of the column names that were checked for unusual values",
+  },
+  rowHeader: {
+    defaultMessage: "Row",
+    description:
+      "The heading of the column giving each flagged row's number in the dataset",
+  },
+  severityHeader: {
+    defaultMessage: "Severity",
+    description:
+      "The heading of the column saying how far past its threshold each flagged row's most unusual value is",
+  },
+  cellReason: {
+    defaultMessage:
+      "{method, select, zscore {Z-score} iqr {IQR} mad {MAD} seasonal {Seasonal residual} other {Multivariate}} score {score}, above the threshold of {threshold}",
+    description:
+      "A tooltip on a highlighted value explaining which method flagged it. {score} and {threshold} are numbers",
+  },
+  previewLimit: {
+    defaultMessage: "Showing the {shownCount} most severe rows.",
+    description: "Shown under the table when more rows were flagged than shown",
+  },
+  keepAnomalies: {
+    defaultMessage: "Analyze only these rows",
+    description:
+      "A button that makes a new dataset of only the flagged rows and analyzes it",
+  },
+  excludeAnomalies: {
+    defaultMessage: "Analyze without these rows",
+    description:
+      "A button that makes a new dataset without the flagged rows and analyzes it",
+  },
+  close: {
+    defaultMessage: "Close",
+    description: "A button that closes the table of flagged rows",
+  },
+  anomaliesName: {
+    defaultMessage: "{name} (anomalies)",
+    description:
+      "The name of a dataset made of only the flagged rows of the dataset called {name}",
+  },
+  withoutAnomaliesName: {
+    defaultMessage: "{name} (without anomalies)",
+    description:
+      "The name of a dataset made of the dataset called {name} without its flagged rows",
+  },
+});
@@ -0,0 +1,170 @@
+import { Box, Button, Rows, Text, Title } from "@canva/app-ui-kit";
+import { useIntl } from "react-intl";
+import type { AnomalyDetection } from "src/api";
+import { formatCsv, parseCsv } from "utils/csv";
+import { formatProfileNumber } from "utils/data_profile";
+import { AnomalyReviewMessages as Messages } from "./anomaly_review.messages";
+
+// How many of the most severe rows the grid shows
+const REVIEW_ROW_COUNT = 20;
+
+const monospace = {
+  fontFamily: "monospace",
+  fontSize: "12px",
+  whiteSpace: "pre-wrap",
+  margin: 0,
+} as const;
+
+const cellStyle = {
+  padding: "4px 8px",
+  borderBottom: "1px solid #e0e0e0",
+  textAlign: "left",
+} as const;
+
+const anomalousCellStyle = {
+  ...cellStyle,
+  backgroundColor: "#fde2e1",
+  fontWeight: "bold",
+} as const;
+
+/**
+ * Shows the rows anomaly detection flagged, most severe first, with the
+ * unusual values highlighted, and makes datasets of only those rows or of
+ * the rest.
+ */
+export const AnomalyReview = ({
+  name,
+  csvData,
+  detection,
+  onCreate,
+  onClose,
+}: {
+  /** The dataset's name, which the new datasets' names are made from. */
+  name: string;
+  /** The data the anomalies were found in. */
+  csvData: string;
+  detection: AnomalyDetection;
+  onCreate: (name: string, csvData: string) => void;
+  onClose: () => void;
+}) => {
+  const intl = useIntl();
+  const table = parseCsv(csvData);
+  const flagged = new Set(detection.rows.map(({ row }) => row));
+  const shownRows = detection.rows.slice(0, REVIEW_ROW_COUNT);
+
+  // Why each flagged cell is unusual, by row and then column
+  const reasons = new Map<number, Map<string, string[]>>();
+  for (const {
+    row,
+    columns,
+    method,
+    score,
+    threshold,
+  } of detection.anomalies) {
+    const byColumn = reasons.get(row) ?? new Map<string, string[]>();
+    for (const column of columns) {
+      byColumn.set(column, [
+        ...(byColumn.get(column) ?? []),
+        intl.formatMessage(Messages.cellReason, {
+          method,
+          score: formatProfileNumber(score),
+          threshold: formatProfileNumber(threshold),
+        }),
+      ]);
+    }
+    reasons.set(row, byColumn);
+  }
+
+  const createDataset = (anomalous: boolean) =>
+    onCreate(
+      intl.formatMessage(
+        anomalous ? Messages.anomaliesName : Messages.withoutAnomaliesName,
+        { name },
+      ),
+      formatCsv({
+        header: table.header,
+        rows: table.rows.filter(
+          (_, index) => flagged.has(index + 1) === anomalous,
+        ),
+      }),
+    );
+
+  return (
+    <Box padding="2u" background="neutralLow" borderRadius="standard">
+      <Rows spacing="1.5u">
+        <Title size="small">
+          {intl.formatMessage(Messages.title, {
+            rowCount: detection.rows.length,
+          })}
+        </Title>
+        <Text size="small">
+          {intl.formatMessage(Messages.summary, {
+            columns: detection.columns.join(", "),
+            sensitivity: detection.sensitivity,
+          })}
+        </Text>
+
+        <div style={{ overflowX: "auto" }}>
+          <table style={{ borderCollapse: "collapse", ...monospace }}>
+            <thead>
+              <tr>
+                <th style={cellStyle}>
+                  {intl.formatMessage(Messages.rowHeader)}
+                </th>
+                <th style={cellStyle}>
+                  {intl.formatMessage(Messages.severityHeader)}
+                </th>
+                {table.header.map((column) => (
+                  <th key={column} style={cellStyle}>
+                    {column}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {shownRows.map(({ row, severity }) => (
+                <tr key={row}>
+                  <td style={cellStyle}>{row}</td>
+                  <td style={cellStyle}>{formatProfileNumber(severity)}</td>
+                  {table.header.map((column, j) => {
+                    const why = reasons.get(row)?.get(column);
+                    return (
+                      <td
+                        key={column}
+                        style={why ? anomalousCellStyle : cellStyle}
+                        title={why?.join("\n")}
+                      >
+                        {table.rows[row - 1]?.[j]}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {detection.rows.length > shownRows.length && (
+          <Text size="small" tone="tertiary">
+            {intl.formatMessage(Messages.previewLimit, {
+              shownCount: shownRows.length,
+            })}
+          </Text>
+        )}
+
+        <Button variant="primary" onClick={() => createDataset(true)} stretch>
+          {intl.formatMessage(Messages.keepAnomalies)}
+        </Button>
+        <Button
+          variant="secondary"
+          onClick={() => createDataset(false)}
+          stretch
+        >
+          {intl.formatMessage(Messages.excludeAnomalies)}
+        </Button>
+        <Button variant="tertiary" onClick={onClose} stretch>
+          {intl.formatMessage(Messages.close)}
+        </Button>
+      </Rows>
+    </Box>
+  );
+};
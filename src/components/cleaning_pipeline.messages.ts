@@ -0,0 +1,173 @@
+import { defineMessages } from "react-intl";
+
+export const CleaningPipelineMessages = defineMessages({
+  /** Messages for cleaning a dataset one step at a time. */
+  title: {
+    defaultMessage: "Clean the data",
+    description:
+      "A heading for the section where the user cleans their dataset one step at a time",
+  },
+  stepKind: {
+    defaultMessage:
+      "{kind, select, dedupe {Remove duplicate rows} trim {Trim spaces} case {Change case} coerce {Convert a column's type} parseDates {Parse dates} impute {Fill missing values} capOutliers {Cap outliers} rename {Rename a column} drop {Drop columns} filter {Filter rows} formula {Add a formula column} other {Clean}}",
+    description:
+      "The name of a kind of cleaning step, in the dropdown of steps and the list of applied steps",
+  },
+  appliedSteps: {
+    defaultMessage: "Applied steps",
+    description: "A label above the list of cleaning steps applied so far",
+  },
+  appliedStep: {
+    defaultMessage: "{number}. {kind}{target}",
+    description:
+      "One applied cleaning step. {kind} is the step's name and {target} the columns it applies to, if any, after a colon",
+  },
+  appliedStepTarget: {
+    defaultMessage: ": {columns}",
+    description:
+      "The columns an applied cleaning step applies to, shown after its name",
+  },
+  columnLabel: {
+    defaultMessage: "Column",
+    description: "A label for the dropdown of the column a step applies to",
+  },
+  columnsLabel: {
+    defaultMessage: "Columns",
+    description: "A label above the checkboxes of columns a step applies to",
+  },
+  allColumnsHint: {
+    defaultMessage: "Leave every column unticked to use them all.",
+    description:
+      "A hint under the checkboxes of columns for steps that can apply to every column",
+  },
+  dedupeMode: {
+    defaultMessage: "{mode, select, exact {Exact} fuzzy {Fuzzy} other {Exact}}",
+    description:
+      "An option for how duplicate rows are found: exact matches only, or also rows that differ in case, punctuation or a typo",
+  },
+  collapseSpaces: {
+    defaultMessage: "Also collapse repeated spaces",
+    description:
+      "A checkbox label to replace runs of spaces inside cells with one space",
+  },
+  caseStyle: {
+    defaultMessage:
+      "{style, select, lower {lowercase} upper {UPPERCASE} title {Title Case} other {}}",
+    description:
+      "An option for the letter case cells are changed to. Each option is written in its own case",
+  },
+  coerceType: {
+    defaultMessage:
+      "{type, select, number {Number} integer {Whole number} boolean {Yes/no} other {}}",
+    description: "An option for the type a column is converted to",
+  },
+  dateOrder: {
+    defaultMessage:
+      "{order, select, mdy {Month first} dmy {Day first} other {}}",
+    description:
+      "An option for how dates such as 01/02/2024 are read: month first is January 2, day first is February 1",
+  },
+  imputeMethod: {
+    defaultMessage:
+      "{method, select, mean {Mean} median {Median} mode {Most frequent value} forwardFill {Value above} constant {A value} other {}}",
+    description: "An option for what missing cells are filled with",
+  },
+  capMethod: {
+    defaultMessage:
+      "{method, select, iqr {1.5 × IQR} percentile {1st–99th percentile} other {}}",
+    description:
+      "An option for where outliers are capped: 1.5 interquartile ranges beyond the quartiles, or at the 1st and 99th percentiles",
+  },
+  filterOperator: {
+    defaultMessage:
+      "{operator, select, equals {equals} notEquals {doesn't equal} contains {contains} greaterThan {is greater than} lessThan {is less than} present {has a value} missing {is missing} other {}}",
+    description:
+      "An option for how a filter compares a column's cells, in the sentence 'Keep rows where [column] [option] [value]'",
+  },
+  valuePlaceholder: {
+    defaultMessage: "Value",
+    description:
+      "A placeholder for the input of the value missing cells are filled with, or a filter compares cells with",
+  },
+  newNamePlaceholder: {
+    defaultMessage: "New name",
+    description: "A placeholder for the input of a column's new name",
+  },
+  previewRows: {
+    defaultMessage: "Rows: {before} before, {after} after.",
+    description:
+      "How many rows the data has before and after the previewed step",
+  },
+  previewCells: {
+    defaultMessage:
+      "{count, plural, =0 {No cells change.} one {# cell changes.} other {# cells change.}}",
+    description: "How many cells the previewed step changes",
+  },
+  previewInvalid: {
+    defaultMessage:
+      "{count, plural, one {# cell doesn't} other {# cells don't}} fit and will be emptied.",
+    description:
+      "A warning that some cells couldn't be read as the type or date the step converts to",
+  },
+  previewRemovedColumns: {
+    defaultMessage: "Removes {columns}.",
+    description:
+      "The columns the previewed step removes. {columns} is a list of column names",
+  },
+  previewRenamed: {
+    defaultMessage: "Renames {from} to {to}.",
+    description: "The column the previewed step renames",
+  },
+  previewRow: {
+    defaultMessage: "Row",
+    description:
+      "A heading of the table of cells the previewed step changes: the row number",
+  },
+  previewColumn: {
+    defaultMessage: "Column",
+    description:
+      "A heading of the table of cells the previewed step changes: the column",
+  },
+  previewBefore: {
+    defaultMessage: "Before",
+    description:
+      "A heading of the table of cells the previewed step changes: the cell's value now",
+  },
+  previewAfter: {
+    defaultMessage: "After",
+    description:
+      "A heading of the table of cells the previewed step changes: the cell's value after the step",
+  },
+  previewRemovedRows: {
+    defaultMessage: "Rows removed",
+    description: "A label above the table of rows the previewed step removes",
+  },
+  apply: {
+    defaultMessage: "Apply step",
+    description: "A button label to apply the previewed cleaning step",
+  },
+  undo: {
+    defaultMessage: "Undo last step",
+    description: "A button label to undo the most recent cleaning step",
+  },
+  showRecipe: {
+    defaultMessage: "Show the recipe",
+    description:
+      "A button label to show the applied cleaning steps as text the user can save and replay later",
+  },
+  hideRecipe: {
+    defaultMessage: "Hide the recipe",
+    description: "A button label to hide the saved form of the cleaning steps",
+  },
+  recipeHint: {
+    defaultMessage:
+      "Save this recipe to clean a refreshed copy of the data the same way, or paste a saved one to replay it.",
+    description:
+      "Help text above the cleaning recipe, which lists the applied steps as JSON",
+  },
+  replay: {
+    defaultMessage: "Replay the recipe",
+    description:
+      "A button label to replace the applied steps with a pasted recipe and apply it to the data",
+  },
+});
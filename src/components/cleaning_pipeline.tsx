@@ -0,0 +1,562 @@
+import { useMemo, useState } from "react";
+import {
+  Box,
+  Button,
+  Checkbox,
+  CheckboxGroup,
+  MultilineInput,
+  Rows,
+  SegmentedControl,
+  Select,
+  Text,
+  TextInput,
+  Title,
+} from "@canva/app-ui-kit";
+import { useIntl } from "react-intl";
+import { formatCsv, parseCsv } from "utils/csv";
+import type {
+  CapMethod,
+  CaseStyle,
+  CleaningStep,
+  CleaningStepKind,
+  CoerceType,
+  DateOrder,
+  DedupeMode,
+  FilterOperator,
+  ImputeMethod,
+  StepResult,
+} from "utils/data_cleaning";
+import {
+  applyStep,
+  CAP_METHODS,
+  CASE_STYLES,
+  CLEANING_STEP_KINDS,
+  CleaningError,
+  COERCE_TYPES,
+  DATE_ORDERS,
+  DEDUPE_MODES,
+  FILTER_OPERATORS,
+  IMPUTE_METHODS,
+  parseRecipe,
+  runRecipe,
+  serializeRecipe,
+} from "utils/data_cleaning";
+import { CleaningPipelineMessages as Messages } from "./cleaning_pipeline.messages";
+
+const monospace = {
+  fontFamily: "monospace",
+  fontSize: "12px",
+  whiteSpace: "pre-wrap",
+  margin: 0,
+} as const;
+
+const cellStyle = {
+  padding: "4px 8px",
+  borderBottom: "1px solid #e0e0e0",
+  textAlign: "left",
+} as const;
+
+// The settings of the step being previewed. Every kind's settings are kept,
+// so switching kinds and back doesn't lose them.
+interface Draft {
+  kind: CleaningStepKind;
+  column: string;
+  columns: string[];
+  dedupeMode: DedupeMode;
+  collapseSpaces: boolean;
+  caseStyle: CaseStyle;
+  coerceType: CoerceType;
+  dateOrder: DateOrder;
+  imputeMethod: ImputeMethod;
+  capMethod: CapMethod;
+  operator: FilterOperator;
+  value: string;
+  to: string;
+}
+
+const INITIAL_DRAFT: Draft = {
+  kind: "dedupe",
+  column: "",
+  columns: [],
+  dedupeMode: "exact",
+  collapseSpaces: false,
+  caseStyle: "title",
+  coerceType: "number",
+  dateOrder: "mdy",
+  imputeMethod: "median",
+  capMethod: "iqr",
+  operator: "equals",
+  value: "",
+  to: "",
+};
+
+// Formula columns are added with the formula builder, which previews them
+const OFFERED_KINDS = CLEANING_STEP_KINDS.filter((kind) => kind !== "formula");
+
+// Steps that apply to every column when none are ticked
+const ALL_COLUMNS_KINDS: ReadonlySet<CleaningStepKind> = new Set([
+  "dedupe",
+  "trim",
+]);
+const MULTI_COLUMN_KINDS: ReadonlySet<CleaningStepKind> = new Set([
+  "dedupe",
+  "trim",
+  "case",
+  "drop",
+]);
+
+const buildStep = (draft: Draft, column: string): CleaningStep => {
+  const columns = draft.columns.length > 0 ? draft.columns : undefined;
+  switch (draft.kind) {
+    case "dedupe":
+      return { kind: "dedupe", mode: draft.dedupeMode, columns };
+    case "trim":
+      return { kind: "trim", columns, collapseSpaces: draft.collapseSpaces };
+    case "case":
+      return { kind: "case", columns: draft.columns, style: draft.caseStyle };
+    case "coerce":
+      return { kind: "coerce", column, type: draft.coerceType };
+    case "parseDates":
+      return { kind: "parseDates", column, order: draft.dateOrder };
+    case "impute":
+      return draft.imputeMethod === "constant"
+        ? { kind: "impute", column, method: "constant", value: draft.value }
+        : { kind: "impute", column, method: draft.imputeMethod };
+    case "capOutliers":
+      return { kind: "capOutliers", column, method: draft.capMethod };
+    case "rename":
+      return { kind: "rename", column, to: draft.to };
+    case "drop":
+      return { kind: "drop", columns: draft.columns };
+    case "filter":
+      return draft.operator === "present" || draft.operator === "missing"
+        ? { kind: "filter", column, operator: draft.operator }
+        : {
+            kind: "filter",
+            column,
+            operator: draft.operator,
+            value: draft.value,
+          };
+    default:
+      return { kind: "trim" };
+  }
+};
+
+// The columns an applied step names, for the list of steps
+const stepColumns = (step: CleaningStep) => {
+  if ("column" in step) {
+    return [step.column];
+  }
+  return ("columns" in step && step.columns) || [];
+};
+
+const errorMessage = (e: unknown) => {
+  if (e instanceof CleaningError) {
+    return e.message;
+  }
+  throw e;
+};
+
+/**
+ * Cleans a dataset one step at a time, previewing what each step changes
+ * before it's applied. The applied steps form a recipe that can be undone a
+ * step at a time, saved, and replayed on a refreshed copy of the data.
+ */
+export const CleaningPipeline = ({
+  rawCsvData,
+  csvData,
+  steps,
+  onChange,
+}: {
+  /** The data before any step. */
+  rawCsvData: string;
+  /** The data after the applied steps. */
+  csvData: string;
+  steps: CleaningStep[];
+  /** Called with the new steps and the data they produce. */
+  onChange: (steps: CleaningStep[], csvData: string) => void;
+}) => {
+  const intl = useIntl();
+  const [draft, setDraft] = useState<Draft>(INITIAL_DRAFT);
+  const [recipeText, setRecipeText] = useState<string | null>(null);
+  const [recipeError, setRecipeError] = useState("");
+
+  const table = useMemo(() => parseCsv(csvData), [csvData]);
+  const column = table.header.includes(draft.column)
+    ? draft.column
+    : (table.header[0] ?? "");
+  const columns = draft.columns.filter((name) => table.header.includes(name));
+  const step = buildStep({ ...draft, columns }, column);
+  // The step is rebuilt on every render, so the preview is kept by its value
+  const stepKey = JSON.stringify(step);
+
+  const preview = useMemo((): { result?: StepResult; error?: string } => {
+    try {
+      return { result: applyStep(table, step) };
+    } catch (e) {
+      return { error: errorMessage(e) };
+    }
+  }, [table, stepKey]);
+
+  const update = (changes: Partial<Draft>) =>
+    setDraft((prev) => ({ ...prev, ...changes }));
+
+  const apply = () => {
+    if (!preview.result) {
+      return;
+    }
+    onChange([...steps, step], formatCsv(preview.result.table));
+    update({ value: "", to: "" });
+  };
+
+  // Replays the remaining steps on the raw data, since a step can't be
+  // reversed on its own once it has dropped rows or overwritten cells
+  const undo = () => {
+    const remaining = steps.slice(0, -1);
+    onChange(
+      remaining,
+      formatCsv(runRecipe(parseCsv(rawCsvData), remaining).table),
+    );
+  };
+
+  const replay = () => {
+    setRecipeError("");
+    try {
+      const recipe = parseRecipe(recipeText ?? "");
+      const { table: cleaned } = runRecipe(parseCsv(rawCsvData), recipe.steps);
+      onChange(recipe.steps, formatCsv(cleaned));
+      setRecipeText(serializeRecipe(recipe.steps));
+    } catch (e) {
+      setRecipeError(errorMessage(e));
+    }
+  };
+
+  const columnOptions = table.header.map((name) => ({
+    value: name,
+    label: name,
+  }));
+  const report = preview.result?.report;
+
+  return (
+    <Box padding="2u" background="neutralLow" borderRadius="standard">
+      <Rows spacing="1.5u">
+        <Title size="small">{intl.formatMessage(Messages.title)}</Title>
+
+        {steps.length > 0 && (
+          <Rows spacing="0.5u">
+            <Text size="small">
+              {intl.formatMessage(Messages.appliedSteps)}
+            </Text>
+            {steps.map((applied, index) => {
+              const named = stepColumns(applied);
+              return (
+                <Text key={index} size="small" tone="tertiary">
+                  {intl.formatMessage(Messages.appliedStep, {
+                    number: index + 1,
+                    kind: intl.formatMessage(Messages.stepKind, {
+                      kind: applied.kind,
+                    }),
+                    target:
+                      named.length > 0
+                        ? intl.formatMessage(Messages.appliedStepTarget, {
+                            columns: intl.formatList(named),
+                          })
+                        : "",
+                  })}
+                </Text>
+              );
+            })}
+            <Button variant="secondary" onClick={undo} stretch>
+              {intl.formatMessage(Messages.undo)}
+            </Button>
+          </Rows>
+        )}
+
+        <Select
+          options={OFFERED_KINDS.map((kind) => ({
+            value: kind,
+            label: intl.formatMessage(Messages.stepKind, { kind }),
+          }))}
+          value={draft.kind}
+          onChange={(kind) => update({ kind })}
+          stretch
+        />
+
+        {MULTI_COLUMN_KINDS.has(draft.kind) ? (
+          <Rows spacing="0.5u">
+            <Text size="small">
+              {intl.formatMessage(Messages.columnsLabel)}
+            </Text>
+            <CheckboxGroup
+              options={columnOptions}
+              value={columns}
+              onChange={(value) => update({ columns: value })}
+            />
+            {ALL_COLUMNS_KINDS.has(draft.kind) && (
+              <Text size="small" tone="tertiary">
+                {intl.formatMessage(Messages.allColumnsHint)}
+              </Text>
+            )}
+          </Rows>
+        ) : (
+          <Rows spacing="0.5u">
+            <Text size="small">{intl.formatMessage(Messages.columnLabel)}</Text>
+            <Select
+              options={columnOptions}
+              value={column}
+              onChange={(value) => update({ column: value })}
+              stretch
+            />
+          </Rows>
+        )}
+
+        {draft.kind === "dedupe" && (
+          <SegmentedControl
+            options={DEDUPE_MODES.map((mode) => ({
+              value: mode,
+              label: intl.formatMessage(Messages.dedupeMode, { mode }),
+            }))}
+            value={draft.dedupeMode}
+            onChange={(dedupeMode) => update({ dedupeMode })}
+          />
+        )}
+        {draft.kind === "trim" && (
+          <Checkbox
+            label={intl.formatMessage(Messages.collapseSpaces)}
+            checked={draft.collapseSpaces}
+            onChange={(_, collapseSpaces) => update({ collapseSpaces })}
+          />
+        )}
+        {draft.kind === "case" && (
+          <SegmentedControl
+            options={CASE_STYLES.map((style) => ({
+              value: style,
+              label: intl.formatMessage(Messages.caseStyle, { style }),
+            }))}
+            value={draft.caseStyle}
+            onChange={(caseStyle) => update({ caseStyle })}
+          />
+        )}
+        {draft.kind === "coerce" && (
+          <SegmentedControl
+            options={COERCE_TYPES.map((type) => ({
+              value: type,
+              label: intl.formatMessage(Messages.coerceType, { type }),
+            }))}
+            value={draft.coerceType}
+            onChange={(coerceType) => update({ coerceType })}
+          />
+        )}
+        {draft.kind === "parseDates" && (
+          <SegmentedControl
+            options={DATE_ORDERS.map((order) => ({
+              value: order,
+              label: intl.formatMessage(Messages.dateOrder, { order }),
+            }))}
+            value={draft.dateOrder}
+            onChange={(dateOrder) => update({ dateOrder })}
+          />
+        )}
+        {draft.kind === "impute" && (
+          <Select
+            options={IMPUTE_METHODS.map((method) => ({
+              value: method,
+              label: intl.formatMessage(Messages.imputeMethod, { method }),
+            }))}
+            value={draft.imputeMethod}
+            onChange={(imputeMethod) => update({ imputeMethod })}
+            stretch
+          />
+        )}
+        {draft.kind === "capOutliers" && (
+          <SegmentedControl
+            options={CAP_METHODS.map((method) => ({
+              value: method,
+              label: intl.formatMessage(Messages.capMethod, { method }),
+            }))}
+            value={draft.capMethod}
+            onChange={(capMethod) => update({ capMethod })}
+          />
+        )}
+        {draft.kind === "rename" && (
+          <TextInput
+            placeholder={intl.formatMessage(Messages.newNamePlaceholder)}
+            value={draft.to}
+            onChange={(to) => update({ to })}
+          />
+        )}
+        {draft.kind === "filter" && (
+          <Select
+            options={FILTER_OPERATORS.map((operator) => ({
+              value: operator,
+              label: intl.formatMessage(Messages.filterOperator, { operator }),
+            }))}
+            value={draft.operator}
+            onChange={(operator) => update({ operator })}
+            stretch
+          />
+        )}
+        {((draft.kind === "impute" && draft.imputeMethod === "constant") ||
+          (draft.kind === "filter" &&
+            draft.operator !== "present" &&
+            draft.operator !== "missing")) && (
+          <TextInput
+            placeholder={intl.formatMessage(Messages.valuePlaceholder)}
+            value={draft.value}
+            onChange={(value) => update({ value })}
+          />
+        )}
+
+        {preview.error && (
+          <Text size="small" tone="critical">
+            {preview.error}
+          </Text>
+        )}
+
+        {report && (
+          <Rows spacing="1u">
+            <Text size="small">
+              {intl.formatMessage(Messages.previewRows, {
+                before: report.rowsBefore,
+                after: report.rowsAfter,
+              })}
+            </Text>
+            <Text size="small">
+              {intl.formatMessage(Messages.previewCells, {
+                count: report.cellsChanged,
+              })}
+            </Text>
+            {report.invalidCells > 0 && (
+              <Text size="small" tone="critical">
+                {intl.formatMessage(Messages.previewInvalid, {
+                  count: report.invalidCells,
+                })}
+              </Text>
+            )}
+            {report.removedColumns.length > 0 && (
+              <Text size="small">
+                {intl.formatMessage(Messages.previewRemovedColumns, {
+                  columns: intl.formatList(report.removedColumns),
+                })}
+              </Text>
+            )}
+            {report.renamedColumns.map(({ from, to }) => (
+              <Text key={from} size="small">
+                {intl.formatMessage(Messages.previewRenamed, { from, to })}
+              </Text>
+            ))}
+
+            {report.changes.length > 0 && (
+              <div style={{ overflowX: "auto" }}>
+                <table style={{ borderCollapse: "collapse", ...monospace }}>
+                  <thead>
+                    <tr>
+                      <th style={cellStyle}>
+                        {intl.formatMessage(Messages.previewRow)}
+                      </th>
+                      <th style={cellStyle}>
+                        {intl.formatMessage(Messages.previewColumn)}
+                      </th>
+                      <th style={cellStyle}>
+                        {intl.formatMessage(Messages.previewBefore)}
+                      </th>
+                      <th style={cellStyle}>
+                        {intl.formatMessage(Messages.previewAfter)}
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.changes.map((change, i) => (
+                      <tr key={i}>
+                        <td style={cellStyle}>{change.row + 1}</td>
+                        <td style={cellStyle}>{change.column}</td>
+                        <td style={{ ...cellStyle, color: "#c62828" }}>
+                          {change.before}
+                        </td>
+                        <td style={{ ...cellStyle, color: "#2e7d32" }}>
+                          {change.after}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {report.removedRows.length > 0 && (
+              <Rows spacing="0.5u">
+                <Text size="small">
+                  {intl.formatMessage(Messages.previewRemovedRows)}
+                </Text>
+                <div style={{ overflowX: "auto" }}>
+                  <table style={{ borderCollapse: "collapse", ...monospace }}>
+                    <thead>
+                      <tr>
+                        {table.header.map((name, i) => (
+                          <th key={i} style={cellStyle}>
+                            {name}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.removedRows.map((row, i) => (
+                        <tr key={i}>
+                          {row.map((cell, j) => (
+                            <td key={j} style={cellStyle}>
+                              {cell}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </Rows>
+            )}
+
+            <Button variant="primary" onClick={apply} stretch>
+              {intl.formatMessage(Messages.apply)}
+            </Button>
+          </Rows>
+        )}
+
+        <Button
+          variant="tertiary"
+          onClick={() => {
+            setRecipeError("");
+            setRecipeText((prev) =>
+              prev == null ? serializeRecipe(steps) : null,
+            );
+          }}
+          stretch
+        >
+          {intl.formatMessage(
+            recipeText == null ? Messages.showRecipe : Messages.hideRecipe,
+          )}
+        </Button>
+        {recipeText != null && (
+          <Rows spacing="1u">
+            <Text size="small" tone="tertiary">
+              {intl.formatMessage(Messages.recipeHint)}
+            </Text>
+            <MultilineInput
+              value={recipeText}
+              onChange={setRecipeText}
+              minRows={4}
+              maxRows={12}
+            />
+            {recipeError && (
+              <Text size="small" tone="critical">
+                {recipeError}
+              </Text>
+            )}
+            <Button variant="secondary" onClick={replay} stretch>
+              {intl.formatMessage(Messages.replay)}
+            </Button>
+          </Rows>
+        )}
+      </Rows>
+    </Box>
+  );
+};
@@ -0,0 +1,386 @@
+import { defineMessages } from "react-intl";
+
+export const DataInfographicPanelMessages = defineMessages({
+  /** Messages shown while the assistant's reply is streaming in. */
+  assistantLabel: {
+    defaultMessage: "Assistant:",
+    description: "Label shown before a reply from the data analysis assistant",
+  },
+  streamStarting: {
+    defaultMessage: "Starting…",
+    description:
+      "Shown while waiting for the first progress update of a streamed reply",
+  },
+  streamCancel: {
+    defaultMessage: "Stop",
+    description:
+      "A button label to cancel the assistant's reply while it is streaming",
+  },
+  streamCancelled: {
+    defaultMessage: "Stopped. What would you like to do next?",
+    description:
+      "A chat message shown after the user cancels a reply that was streaming",
+  },
+  chartPreviewAlt: {
+    defaultMessage: "Chart {number}",
+    description:
+      "Alternative text for a chart preview while charts are still rendering",
+  },
+  /** Messages for connecting a Google Sheet and keeping charts in sync with it. */
+  sheetConnectTitle: {
+    defaultMessage: "Or connect a Google Sheet",
+    description: "Heading above the form for loading data from a Google Sheet",
+  },
+  sheetConnectDescription: {
+    defaultMessage:
+      "Charts made from a connected sheet are redrawn when the sheet changes.",
+    description: "Explains what connecting a Google Sheet does",
+  },
+  sheetUrlPlaceholder: {
+    defaultMessage: "Google Sheets link",
+    description: "Placeholder of the input for a Google Sheets link or ID",
+  },
+  sheetRangePlaceholder: {
+    defaultMessage: "Range, e.g. Sales!A1:F (optional)",
+    description:
+      "Placeholder of the input for the part of the sheet to read, in A1 notation",
+  },
+  sheetRefreshInterval: {
+    defaultMessage:
+      "Check for changes every {minutes, plural, one {minute} other {# minutes}}",
+    description: "An option for how often a connected sheet is checked",
+  },
+  sheetConnect: {
+    defaultMessage: "Connect sheet",
+    description: "A button label to load and sync a Google Sheet",
+  },
+  sheetConnectFailed: {
+    defaultMessage: "Couldn't connect the sheet. {error}",
+    description:
+      "Shown when a Google Sheet can't be read. {error} is the reason the server gave",
+  },
+  liveSyncConnected: {
+    defaultMessage:
+      "Connected to {name}. I'll redraw your charts whenever it changes. Let me start with a data quality assessment.",
+    description:
+      "A chat message shown after a Google Sheet is connected. {name} is the sheet's title and tab",
+  },
+  liveSyncStatus: {
+    defaultMessage:
+      "Synced with {name}. Last checked at {lastSync, time, short}.",
+    description: "Shows which Google Sheet the data comes from",
+  },
+  liveSyncStop: {
+    defaultMessage: "Stop syncing",
+    description:
+      "A button label to stop keeping the data in sync with the sheet",
+  },
+  liveSyncStopped: {
+    defaultMessage:
+      "Stopped syncing {name}. Your charts will keep their current data.",
+    description: "A chat message shown after the user stops syncing a sheet",
+  },
+  liveSyncChanged: {
+    defaultMessage:
+      "{name} changed: {added, plural, one {# row} other {# rows}} added, {removed} removed and {changed} updated.",
+    description:
+      "A chat message shown when a synced sheet's data changes, counting the rows that changed",
+  },
+  liveSyncChangedWhileAway: {
+    defaultMessage: "{name} changed while the connection was down.",
+    description:
+      "A chat message shown when a synced sheet changed while the panel was disconnected",
+  },
+  liveSyncRedrawn: {
+    defaultMessage: "Here are your charts with the new data.",
+    description: "Follows a message saying the synced sheet changed",
+  },
+  liveSyncRedrawFailed: {
+    defaultMessage: "{name} changed, but I couldn't redraw the charts. {error}",
+    description:
+      "Shown when charts can't be redrawn from a changed sheet. {error} is the reason",
+  },
+  liveSyncFailed: {
+    defaultMessage:
+      "I couldn't read {name}, so your charts may be out of date. I'll keep trying. {error}",
+    description:
+      "Shown when a synced sheet can't be read. {error} is the reason the server gave",
+  },
+  liveSyncDeleted: {
+    defaultMessage: "{name} is no longer synced, so your charts won't update.",
+    description: "Shown when the sync of a sheet is deleted elsewhere",
+  },
+  liveSyncReplace: {
+    defaultMessage:
+      "Replace {count, plural, one {# chart} other {# charts}} on your design",
+    description:
+      "A button label to swap the charts added to the design for redrawn copies",
+  },
+  liveSyncReplaced: {
+    defaultMessage:
+      "Replaced {count, plural, one {# chart} other {# charts}} on this page.",
+    description:
+      "Shown after charts on the design are swapped for redrawn copies",
+  },
+  liveSyncNothingReplaced: {
+    defaultMessage:
+      "None of the charts you added are on this page. Open the page they're on and try again.",
+    description:
+      "Shown when none of the charts to replace are on the page the user has open",
+  },
+  liveSyncReplaceFailed: {
+    defaultMessage: "Couldn't replace the charts. {error}",
+    description: "Shown when swapping charts on the design fails",
+  },
+  formulaBuilderOpen: {
+    defaultMessage: "Add a calculated column",
+    description:
+      "A button label to open the section where the user computes a new column from a formula",
+  },
+  formulaBuilderClose: {
+    defaultMessage: "Close the formula builder",
+    description:
+      "A button label to hide the section where the user computes a new column from a formula",
+  },
+  formulaColumnAdded: {
+    defaultMessage:
+      "Added the column **{columnName}** to your data. Charts and analyses from now on can use it.",
+    description:
+      "Shown in the chat after a column computed from a formula is added to the user's dataset. The text between ** is shown in bold",
+  },
+  cleaningOpen: {
+    defaultMessage: "Clean the data step by step",
+    description:
+      "A button label to open the section where the user cleans their dataset one previewed step at a time",
+  },
+  cleaningClose: {
+    defaultMessage: "Close the cleaning steps",
+    description:
+      "A button label to hide the section where the user cleans their dataset one step at a time",
+  },
+  cleaningReplayFailed: {
+    defaultMessage:
+      "**{name}** changed in a way your cleaning steps can't handle, so its new data is shown uncleaned. {error}",
+    description:
+      "Shown in the chat when a synced sheet changes and the user's cleaning steps fail on the new data, for example because a column was removed. The text between ** is shown in bold",
+  },
+  activeDatasetLabel: {
+    defaultMessage: "Dataset to analyze",
+    description:
+      "A label for the dropdown where the user picks which of the datasets they've loaded the analyses use",
+  },
+  datasetSwitched: {
+    defaultMessage:
+      "Switched to **{name}**. Analyses from now on use this dataset.",
+    description:
+      "Shown in the chat after the user picks another of their loaded datasets to analyze. The text between ** is shown in bold",
+  },
+  combinerOpen: {
+    defaultMessage: "Combine datasets",
+    description:
+      "A button label to open the section where the user joins, appends or looks up their loaded datasets",
+  },
+  combinerClose: {
+    defaultMessage: "Close dataset combining",
+    description:
+      "A button label to hide the section where the user joins, appends or looks up their loaded datasets",
+  },
+  datasetCombined: {
+    defaultMessage:
+      "Created **{name}** with {rowCount, plural, one {# row} other {# rows}}. Analyses from now on use this dataset.",
+    description:
+      "Shown in the chat after the user combines datasets into a new one, or makes one of the rows flagged as anomalies or of the rest, which becomes the dataset analyzed. The text between ** is shown in bold",
+  },
+  csvDelimiterDetected: {
+    defaultMessage:
+      "The columns in this file are separated by {delimiter, select, semicolon {semicolons} tab {tabs} pipe {pipes} other {commas}}, so I read it that way.",
+    description:
+      "Shown in the chat after the user uploads a CSV file whose columns aren't separated by commas",
+  },
+  csvEncodingDetected: {
+    defaultMessage:
+      "The file is saved as {encoding} text rather than UTF-8, so check that accented letters and symbols look right.",
+    description:
+      "Shown in the chat after the user uploads a CSV file that isn't UTF-8 encoded. {encoding} and UTF-8 are names of text encodings, such as UTF-16 or Windows-1252",
+  },
+  csvHeaderGenerated: {
+    defaultMessage:
+      "The first row looks like data rather than column names, so I named the columns {columns}.",
+    description:
+      "Shown in the chat after the user uploads a CSV file without a header row. {columns} is a list of generated names such as Column 1 and Column 2",
+  },
+  csvIrregularRows: {
+    defaultMessage:
+      "{count, plural, one {# row has} other {# rows have}} a different number of cells from the header. I left missing cells empty and dropped extra ones.",
+    description:
+      "Shown in the chat after the user uploads a CSV file where some rows have more or fewer cells than there are columns",
+  },
+  uploadTitle: {
+    defaultMessage: "Upload a data file",
+    description: "A heading above the file input for uploading a dataset",
+  },
+  uploadDescription: {
+    defaultMessage:
+      "CSV, TSV, Excel (.xlsx), JSON and Parquet files work. I'll show you a preview, then start with data cleaning and guide you through the analysis.",
+    description: "Explains which files can be uploaded and what happens next",
+  },
+  correlationFailed: {
+    defaultMessage: "This data couldn't be checked for correlations. {reason}",
+    description:
+      "Shown in the panel's error alert when correlation analysis fails. {reason} is the reason the server gave, such as the data having fewer than two numeric columns",
+  },
+  forecastFailed: {
+    defaultMessage: "This data couldn't be forecast. {reason}",
+    description:
+      "Shown in the panel's error alert when predictive analysis fails. {reason} is the reason the server gave, such as the data having no dates",
+  },
+  anomalyDetectionFailed: {
+    defaultMessage: "This data couldn't be checked for anomalies. {reason}",
+    description:
+      "Shown in the panel's error alert when anomaly detection fails. {reason} is the reason the server gave, such as the data having no numeric columns",
+  },
+  /** Messages for adding tables of results to the design. */
+  insertTable: {
+    defaultMessage: "Insert {title} as a table",
+    description:
+      "A button label under a chat message to add one of its tables of results to the design. {title} names the table, such as Data profile or Sales forecast",
+  },
+  tableSplit: {
+    defaultMessage:
+      "{title} has more cells than one Canva table holds, so I added it as {count, plural, one {# table} other {# tables}}.",
+    description:
+      "Shown in the chat after a large table of results is added to the design as several tables",
+  },
+  tableInsertFailed: {
+    defaultMessage: "Had trouble adding {title} to Canva.",
+    description:
+      "Shown in the panel's error alert when a table of results can't be added to the design",
+  },
+  tableTitle: {
+    defaultMessage:
+      "{table, select, profile {Data profile} top_values {Top values} relationships {Strongest relationships} correlation_matrix {Correlation matrix} category_matrix {Association between categories} forecast {{column} forecast} backtests {Forecast backtests} anomalies {Unusual rows} other {Results}}",
+    description:
+      "The title of a table of results, on its insert button and above the table in the design. {column} is the forecast column's name",
+  },
+  profileHeading: {
+    defaultMessage:
+      "{heading, select, column {Column} type {Type} values {Values} missing {Missing} distinct {Distinct} mean {Mean} median {Median} min {Min} max {Max} value {Value} rows {Rows} share {Share (%)} other {}}",
+    description:
+      "A column heading in the data profile and top values tables added to the design, such as a column's mean or how many rows have a value",
+  },
+  correlationHeading: {
+    defaultMessage:
+      "{heading, select, column {Column} compared_with {Compared with} measure {Measure} coefficient {Coefficient} adjusted_p_value {Adjusted p-value} rows {Rows} other {}}",
+    description:
+      "A column heading in the tables of correlations added to the design, such as the correlation coefficient of two columns",
+  },
+  forecastHeading: {
+    defaultMessage:
+      "{heading, select, period {Period} forecast {Forecast} lower_bound {Lower bound} upper_bound {Upper bound} model {Model} mape {MAPE (%)} rmse {RMSE} other {}}",
+    description:
+      "A column heading in the forecast and backtest tables added to the design, such as a forecast's lower bound or a model's error",
+  },
+  anomalyHeading: {
+    defaultMessage:
+      "{heading, select, row {Row} severity {Severity} columns {Columns} methods {Methods} other {}}",
+    description:
+      "A column heading in the table of unusual rows added to the design, such as how severe a row's anomalies are",
+  },
+  insertReport: {
+    defaultMessage: "Insert report into design",
+    description:
+      "A button label under a generated data analysis report to add it to the design as formatted text, with the charts it covers",
+  },
+  reportInserted: {
+    defaultMessage:
+      "Added the report as {count, plural, one {# text box} other {# text boxes}}, one per section, so you can arrange them on the page.",
+    description:
+      "Shown in the chat after a report is added to the design. {count} is the number of text elements added",
+  },
+  reportInsertFailed: {
+    defaultMessage: "Had trouble adding the report to Canva.",
+    description:
+      "Shown in the panel's error alert when a report can't be added to the design",
+  },
+  infographicTemplate: {
+    defaultMessage:
+      "{template, select, report {Report} poster {Poster} social_square {Social square} slide {Slide} other {Infographic}}",
+    description:
+      "The name of an infographic layout, in the dropdown of layouts to compose the page with",
+  },
+  composeInfographic: {
+    defaultMessage: "Compose infographic",
+    description:
+      "A button label to lay the title, key figures, latest charts and a summary out on the current page in the chosen layout",
+  },
+  infographicTitle: {
+    defaultMessage: "{name} at a glance",
+    description:
+      "The title of a composed infographic. {name} is the data file's name without its extension",
+  },
+  infographicUntitled: {
+    defaultMessage: "Your data",
+    description:
+      "Stands in for the data file's name in an infographic's title and summary when the file has none",
+  },
+  infographicKpi: {
+    defaultMessage:
+      "{kpi, select, records {Records} variables {Variables} complete {Complete} average {Average {column}} other {}}",
+    description:
+      "The label under a key figure on a composed infographic: the number of rows, of columns, the share of cells with a value, or the average of {column}",
+  },
+  infographicSummary: {
+    defaultMessage:
+      "{name} holds {records} across {variables}, {complete} complete.",
+    description:
+      "The first sentence of a composed infographic's summary. {records} and {variables} count the rows and columns, such as 120 records, and {complete} is the share of cells with a value, such as 98.5%",
+  },
+  infographicRecords: {
+    defaultMessage: "{count, plural, one {# record} other {# records}}",
+    description:
+      "How many rows a dataset has, in the first sentence of a composed infographic's summary",
+  },
+  infographicVariables: {
+    defaultMessage: "{count, plural, one {# variable} other {# variables}}",
+    description:
+      "How many columns a dataset has, in the first sentence of a composed infographic's summary",
+  },
+  infographicRelationship: {
+    defaultMessage: "The strongest relationship is {relationship}.",
+    description:
+      "A sentence in a composed infographic's summary. {relationship} describes two columns and how strongly they're related",
+  },
+  infographicChartAlt: {
+    defaultMessage: "Chart {number}",
+    description:
+      "The alt text of a chart on a composed infographic. {number} counts the charts from 1",
+  },
+  infographicNeedsCharts: {
+    defaultMessage:
+      "An infographic needs at least {min} charts. Create a few more, then compose it.",
+    description:
+      "Shown in the chat when the user composes an infographic before enough charts have been created",
+  },
+  infographicComposed: {
+    defaultMessage:
+      "Composed a {template, select, report {report} poster {poster} social_square {social square} slide {slide} other {}} infographic with {count, plural, one {# chart} other {# charts}}. The key figures and the charts are grouped, so each moves as a whole.",
+    description:
+      "Shown in the chat after an infographic is laid out on the page. {template} is the chosen layout and {count} the number of charts placed",
+  },
+  infographicFailed: {
+    defaultMessage: "The infographic couldn't be laid out. {reason}",
+    description:
+      "Shown in the chat when an infographic can't be laid out. {reason} says why, such as the page being too small",
+  },
+  infographicInsertFailed: {
+    defaultMessage:
+      "Had trouble adding the infographic to Canva. What else would you like to analyze?",
+    description:
+      "Shown in the chat when an infographic's elements can't be added to the design",
+  },
+  importFailed: {
+    defaultMessage: "{fileName} couldn't be read. {reason}",
+    description:
+      "Shown when an uploaded file can't be read. {reason} says what was wrong with it",
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { 
   Button, 
   Rows, 
@@ -7,29 +7,76 @@ import {
   Select,
   Box,
   Title,
-  FileInput
+  ImageCard
 } from "@canva/app-ui-kit";
+import type { IntlShape, MessageDescriptor } from "react-intl";
+import { useIntl } from "react-intl";
 import { 
-  analyzeData, 
-  executePythonCode, 
+  analyzeCorrelations,
   processNaturalLanguageChart, 
-  processChatMessage,
+  renderChartSpecs,
+  runAnalysis,
+  streamAnalysis,
+  streamChartSpecs,
+  streamChatMessage,
   generatePredictions,
   detectAnomalies,
   generateDataStory,
-  generateInsightRecommendations
+  generateInsightRecommendations,
+  setupLiveSync,
+  fetchSheetData,
+  deleteLiveSync,
+  watchLiveSyncs
 } from "src/api";
+import { useAppContext } from "src/context";
+import type { AnomalyDetection, AnomalyMethod, AnomalySensitivity, CorrelationMatrix, CorrelationMeasure, CorrelationPair, Correlations, CsvAnalysis, Forecast, ForecastModel, LiveSyncRun, LiveSyncState, StreamHandlers } from "src/api";
 import { upload } from "@canva/asset";
-import { addElementAtPoint } from "@canva/design";
+import type { ImageRef } from "@canva/asset";
+import { addElementAtPoint, getCurrentPageContext, openDesign } from "@canva/design";
+import type { ChartSpec } from "utils/chart_spec";
+import type { CsvDelimiter, CsvEncoding } from "utils/csv";
+import { formatCsv, isMissing, parseCsv, parseNumber } from "utils/csv";
+import type { CleaningStep } from "utils/data_cleaning";
+import { applyStep, CleaningError, runRecipe } from "utils/data_cleaning";
+import type { ColumnProfile, DatasetProfile } from "utils/data_profile";
+import { describeColumn, formatProfileNumber, profileDataset } from "utils/data_profile";
+import type { DatasetImport, ImportedTable } from "utils/dataset_import";
+import { DATASET_FILE_TYPES, DatasetImportError, importDataset } from "utils/dataset_import";
+import type { InfographicChart, InfographicTemplate, Kpi } from "utils/infographic";
+import { INFOGRAPHIC_TEMPLATES, InfographicError, infographicElements, layoutInfographic, MAX_INFOGRAPHIC_CHARTS, MIN_INFOGRAPHIC_CHARTS } from "utils/infographic";
+import { parseReport, reportElements } from "utils/rich_text_report";
+import type { TitledTable } from "utils/table_elements";
+import { tableElements } from "utils/table_elements";
+import { useAddElement } from "utils/use_add_element";
+import { DataInfographicPanelMessages } from "./data_infographic_panel.messages";
+import { AnomalyReview } from "./anomaly_review";
+import { CleaningPipeline } from "./cleaning_pipeline";
+import { DatasetCombiner } from "./dataset_combiner";
+import { DatasetImportPreview } from "./dataset_import_preview";
+import { FormulaBuilder } from "./formula_builder";
+
+// A dataset loaded into the workspace, which can be analyzed or combined
+// with the others
+interface WorkspaceDataset {
+  name: string;
+  csvData: string;
+}
 
 interface DataState {
+  // The dataset being analyzed
   csvData: string;
   fileName: string;
+  // The dataset as loaded, and the cleaning steps that turned it into
+  // csvData, which can be undone or replayed on a refreshed copy
+  rawCsvData: string;
+  cleaningSteps: CleaningStep[];
+  // Every dataset loaded so far. The entry for the one being analyzed is
+  // brought up to date when the user switches away from it.
+  datasets: WorkspaceDataset[];
   analysis: any;
   chartImages: string[];
   isProcessing: boolean;
   currentMode: 'upload' | 'chat';
-  isTyping: boolean;
   hasIntroduced: boolean;
   analysisStep: 'none' | 'cleaning' | 'exploration' | 'visualization' | 'correlation' | 'advanced';
   conversationContext: string[];
@@ -42,33 +89,270 @@ interface ChatMessage {
   content: string;
   timestamp: Date;
   type?: 'text' | 'chart' | 'analysis';
-  data?: any;
-  isAnimating?: boolean;
+  data?: ChatMessageData;
 }
 
-// Simple typing indicator
-const TypingIndicator = () => {
-  const [dots, setDots] = useState('');
+// What a message shows besides its text: the analysis it reports, its charts
+// and tables, redrawn charts to swap in, or a report to add to the design
+interface ChatMessageData {
+  analysis?: CsvAnalysis;
+  images?: string[];
+  tables?: TitledTable[];
+  refreshes?: ChartRefresh[];
+  report?: { text: string; charts: string[] };
+}
 
-  useEffect(() => {
-    const interval = setInterval(() => {
-      setDots(prev => prev === '...' ? '' : prev + '.');
-    }, 500);
-    return () => clearInterval(interval);
-  }, []);
+// A reply that is still streaming in: the latest progress update, the text
+// written so far and any charts already rendered
+interface StreamingReply {
+  stage: string;
+  text: string;
+  charts: string[];
+}
 
-  return (
-    <Box padding="1u">
-      <Text size="medium">
-        <span style={{ fontWeight: 'bold', color: '#2196F3' }}>Assistant:</span> 
-        <span style={{ fontStyle: 'italic', color: '#666' }}>
-          thinking{dots}
-        </span>
-      </Text>
-    </Box>
-  );
+// The Google Sheet the panel's data is synced from
+interface LiveSheet {
+  syncId: string;
+  sheetId: string;
+  range?: string;
+  /** The spreadsheet's title and tab, as shown to the user. */
+  name: string;
+  lastSync?: string;
+}
+
+// A chart drawn from a spec and added to the design, which can be swapped
+// for a redrawn copy when the synced data changes
+interface InsertedChart {
+  ref: ImageRef;
+  spec: ChartSpec;
+}
+
+// A chart redrawn from new data, offered in place of the ones added from
+// the same spec
+interface ChartRefresh {
+  spec: ChartSpec;
+  image: string;
+}
+
+// How often a connected sheet can be checked for changes
+const REFRESH_INTERVAL_MINUTES = [5, 15, 60, 1440];
+
+// How each delimiter and encoding is named in messages
+const CSV_DELIMITER_NAMES: Record<CsvDelimiter, string> = {
+  ',': 'comma',
+  ';': 'semicolon',
+  '\t': 'tab',
+  '|': 'pipe'
+};
+
+const CSV_ENCODING_NAMES: Record<CsvEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16',
+  'utf-16be': 'UTF-16',
+  'windows-1252': 'Windows-1252'
+};
+
+const FORECAST_MODEL_NAMES: Record<ForecastModel, string> = {
+  linear: 'Linear trend',
+  ets: 'Exponential smoothing (Holt\'s trend)',
+  holtWinters: 'Holt-Winters seasonal',
+};
+
+// How many forecast periods the prediction report lists
+const FORECAST_REPORT_PERIODS = 6;
+
+const ANOMALY_METHOD_NAMES: Record<AnomalyMethod, string> = {
+  zscore: 'Z-score',
+  iqr: 'IQR',
+  mad: 'MAD (modified z-score)',
+  seasonal: 'Seasonal residual',
+  multivariate: 'Multivariate (Mahalanobis distance)',
+};
+
+// How many of the most unusual rows the anomaly report lists
+const ANOMALY_REPORT_ROWS = 5;
+
+const CORRELATION_MEASURE_NAMES: Record<CorrelationMeasure, string> = {
+  pearson: 'Pearson\'s r',
+  spearman: 'Spearman\'s rho',
+  kendall: 'Kendall\'s tau',
+  cramersV: 'Cramér\'s V',
 };
 
+// How many of the strongest relationships the correlation report lists
+const CORRELATION_REPORT_PAIRS = 5;
+
+// Describes a measured relationship, such as `Ad spend and Sales: Pearson's
+// r 0.91 (adjusted p < 0.001)`
+const describeRelationship = ({ columns, measure, coefficient, adjustedPValue }: CorrelationPair) =>
+  `${columns[0]} and ${columns[1]}: ${CORRELATION_MEASURE_NAMES[measure]} ${coefficient.toFixed(2)} (adjusted p ${adjustedPValue < 0.001 ? '< 0.001' : `= ${adjustedPValue.toPrecision(2)}`})`;
+
+// The usual rule of thumb for how strong a coefficient is
+const correlationStrength = (coefficient: number) =>
+  Math.abs(coefficient) >= 0.7 ? 'strong' : Math.abs(coefficient) >= 0.3 ? 'moderate' : 'weak';
+
+const isAbortError = (error: unknown) =>
+  error instanceof Error && error.name === 'AbortError';
+
+// Adds a dataset to the workspace, replacing any of the same name, which is
+// the same file or sheet loaded again
+const keepDataset = (datasets: WorkspaceDataset[], name: string, csvData: string) => {
+  if (!name) return datasets;
+  const index = datasets.findIndex(dataset => dataset.name === name);
+  return index < 0
+    ? [...datasets, { name, csvData }]
+    : datasets.map((dataset, i) => i === index ? { name, csvData } : dataset);
+};
+
+// A numeric column's profile, which always has statistics
+type MeasureProfile = ColumnProfile & { stats: NonNullable<ColumnProfile['stats']> };
+
+const isMeasure = (column: ColumnProfile): column is MeasureProfile => column.stats != null;
+
+// IDs, constants and empty columns say nothing about the data, so reports
+// leave them out of their findings
+const isInformative = (column: ColumnProfile) =>
+  column.count > 0 && !column.suspectedId && !column.constant;
+
+// What share of a dataset's cells have a value, as a percentage
+const completenessOf = ({ rowCount, columns, missingCells }: { rowCount: number; columns: ColumnProfile[]; missingCells: number }) =>
+  rowCount * columns.length === 0 ? 0 : (1 - missingCells / (rowCount * columns.length)) * 100;
+
+// How many of each categorical column's most common values the profile's
+// top values table lists
+const PROFILE_TOP_VALUES = 5;
+
+// Numbers go into tables as they are; the table formats them
+const cellOf = (n: number | null | undefined) => n == null ? '' : String(n);
+
+const formatPValue = (p: number) => p < 0.001 ? '< 0.001' : p.toPrecision(2);
+
+const tableTitle = (intl: IntlShape, table: string, column = '') =>
+  intl.formatMessage(DataInfographicPanelMessages.tableTitle, { table, column });
+
+// A table's column headings, each a case of one of the heading messages
+const tableHeader = (intl: IntlShape, message: MessageDescriptor, headings: string[]) =>
+  headings.map(heading => intl.formatMessage(message, { heading }));
+
+// The tables a profile offers to insert: each column's statistics, and the
+// most common values of each categorical column
+const profileTables = (intl: IntlShape, profile: DatasetProfile): TitledTable[] => {
+  const categories = profile.columns.filter(column => isInformative(column) && !column.stats && !column.range);
+  return [
+    {
+      title: tableTitle(intl, 'profile'),
+      header: tableHeader(intl, DataInfographicPanelMessages.profileHeading, ['column', 'type', 'values', 'missing', 'distinct', 'mean', 'median', 'min', 'max']),
+      rows: profile.columns.map(column => [
+        column.name,
+        column.kind,
+        cellOf(column.count),
+        cellOf(column.missing),
+        cellOf(column.distinct),
+        cellOf(column.stats?.mean),
+        cellOf(column.stats?.median),
+        cellOf(column.stats?.min),
+        cellOf(column.stats?.max),
+      ]),
+    },
+    ...(categories.length > 0 ? [{
+      title: tableTitle(intl, 'top_values'),
+      header: tableHeader(intl, DataInfographicPanelMessages.profileHeading, ['column', 'value', 'rows', 'share']),
+      rows: categories.flatMap(column => column.topValues.slice(0, PROFILE_TOP_VALUES).map(({ value, count }) => [
+        column.name,
+        value,
+        cellOf(count),
+        cellOf(100 * count / column.count),
+      ])),
+    }] : []),
+  ];
+};
+
+// A correlation matrix as a table, with a row and a column per column
+const matrixTable = (intl: IntlShape, title: string, { columns, coefficients }: CorrelationMatrix): TitledTable => ({
+  title,
+  header: [...tableHeader(intl, DataInfographicPanelMessages.correlationHeading, ['column']), ...columns],
+  rows: columns.map((name, i) => [name, ...coefficients[i].map(cellOf)]),
+});
+
+const correlationTables = (intl: IntlShape, result: Correlations): TitledTable[] => [
+  ...(result.relationships.length > 0 ? [{
+    title: tableTitle(intl, 'relationships'),
+    header: tableHeader(intl, DataInfographicPanelMessages.correlationHeading, ['column', 'compared_with', 'measure', 'coefficient', 'adjusted_p_value', 'rows']),
+    rows: result.relationships.map(({ columns, measure, coefficient, adjustedPValue, n }) => [
+      ...columns,
+      CORRELATION_MEASURE_NAMES[measure],
+      cellOf(coefficient),
+      formatPValue(adjustedPValue),
+      cellOf(n),
+    ]),
+  }] : []),
+  ...(result.matrix ? [matrixTable(intl, tableTitle(intl, 'correlation_matrix'), result.matrix)] : []),
+  ...(result.categoricalMatrix ? [matrixTable(intl, tableTitle(intl, 'category_matrix'), result.categoricalMatrix)] : []),
+];
+
+const forecastTables = (intl: IntlShape, forecast: Forecast): TitledTable[] => [
+  {
+    title: tableTitle(intl, 'forecast', forecast.targetColumn),
+    header: tableHeader(intl, DataInfographicPanelMessages.forecastHeading, ['period', 'forecast', 'lower_bound', 'upper_bound']),
+    rows: forecast.forecast.map(({ period, value, lower, upper }) => [period, cellOf(value), cellOf(lower), cellOf(upper)]),
+  },
+  {
+    title: tableTitle(intl, 'backtests'),
+    header: tableHeader(intl, DataInfographicPanelMessages.forecastHeading, ['model', 'mape', 'rmse']),
+    rows: forecast.backtests.map(({ model, mape, rmse }) => [FORECAST_MODEL_NAMES[model], cellOf(mape), cellOf(rmse)]),
+  },
+];
+
+// Every flagged row, most severe first, with why it was flagged
+const anomalyTables = (intl: IntlShape, result: AnomalyDetection): TitledTable[] => result.rows.length > 0 ? [{
+  title: tableTitle(intl, 'anomalies'),
+  header: tableHeader(intl, DataInfographicPanelMessages.anomalyHeading, ['row', 'severity', 'columns', 'methods']),
+  rows: result.rows.map(({ row, severity, columns, methods }) => [
+    cellOf(row),
+    cellOf(severity),
+    columns.join(', '),
+    methods.map(method => ANOMALY_METHOD_NAMES[method]).join(', '),
+  ]),
+}] : [];
+
+// How many measures an infographic calls out the averages of
+const INFOGRAPHIC_MEASURES = 2;
+
+// The share of a dataset's cells that have a value, to one decimal place
+const formatCompleteness = (intl: IntlShape, profile: DatasetProfile) =>
+  intl.formatNumber(completenessOf(profile) / 100, { style: 'percent', minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
+// The key figures an infographic calls out: the size and completeness of the
+// data, and the averages of its first measures
+const infographicKpis = (intl: IntlShape, profile: DatasetProfile): Kpi[] => {
+  const kpi = (figure: string, value: string, column = '') => ({
+    label: intl.formatMessage(DataInfographicPanelMessages.infographicKpi, { kpi: figure, column }),
+    value,
+  });
+  return [
+    kpi('records', intl.formatNumber(profile.rowCount)),
+    kpi('variables', intl.formatNumber(profile.columns.length)),
+    kpi('complete', formatCompleteness(intl, profile)),
+    ...profile.columns.filter(isInformative).filter(isMeasure).slice(0, INFOGRAPHIC_MEASURES).map(column =>
+      kpi('average', intl.formatNumber(column.stats.mean, { maximumSignificantDigits: 6 }), column.name)),
+  ];
+};
+
+// What an infographic's narrative says: how much data there is, its
+// strongest relationship once correlations are measured, and its warnings
+const infographicNarrative = (intl: IntlShape, name: string, profile: DatasetProfile, measured?: Correlations) => [
+  intl.formatMessage(DataInfographicPanelMessages.infographicSummary, {
+    name,
+    records: intl.formatMessage(DataInfographicPanelMessages.infographicRecords, { count: profile.rowCount }),
+    variables: intl.formatMessage(DataInfographicPanelMessages.infographicVariables, { count: profile.columns.length }),
+    complete: formatCompleteness(intl, profile),
+  }),
+  ...(measured && measured.relationships.length > 0
+    ? [intl.formatMessage(DataInfographicPanelMessages.infographicRelationship, { relationship: describeRelationship(measured.relationships[0]) })]
+    : []),
+  ...profile.warnings.slice(0, 2).map(({ message }) => message),
+].join(' ');
+
 // Function to parse markdown-style bold text
 const parseMarkdown = (text: string) => {
   const parts = text.split(/(\*\*[^*]+\*\*)/g);
@@ -81,11 +365,11 @@ const parseMarkdown = (text: string) => {
 };
 
 // Enhanced message renderer
-const MessageRenderer = ({ message, onReportClick }: { message: ChatMessage; onReportClick?: (reportText: string) => void }) => {
+const MessageRenderer = ({ message }: { message: ChatMessage }) => {
   const isUser = message.role === 'user';
   const roleColor = isUser ? '#4CAF50' : '#2196F3';
   const roleLabel = isUser ? 'You' : 'Assistant';
-  const isReport = message.data?.isReport;
+  const isReport = message.data?.report != null;
   
   return (
     <div style={{ whiteSpace: 'pre-wrap', lineHeight: '1.5', fontSize: '15px' }}>
@@ -98,57 +382,52 @@ const MessageRenderer = ({ message, onReportClick }: { message: ChatMessage; onR
           borderRadius: isReport ? '8px' : '0',
           border: isReport ? '2px solid rgba(76, 175, 80, 0.3)' : 'none',
           display: isReport ? 'block' : 'inline',
-          marginTop: isReport ? '8px' : '0',
-          userSelect: 'text' // Allow text selection for copying
+          marginTop: isReport ? '8px' : '0'
         }}
-        title={isReport ? 'Select this text to copy it' : undefined}
       >
         {parseMarkdown(message.content)}
-        {isReport && (
-          <div style={{ 
-            fontSize: '13px', 
-            color: '#2E7D32', 
-            marginTop: '12px', 
-            fontWeight: '600',
-            textAlign: 'center',
-            padding: '8px',
-            backgroundColor: 'rgba(76, 175, 80, 0.1)',
-            borderRadius: '4px',
-            border: '1px solid rgba(76, 175, 80, 0.4)'
-          }}>
-            📋 Select the report text above and copy it (Ctrl+C / Cmd+C) to paste into Canva
-          </div>
-        )}
       </span>
     </div>
   );
 };
 
-// Simple animated text
-const AnimatedText = ({ text, onComplete, delay = 30 }: { text: string; onComplete?: () => void; delay?: number }) => {
-  const [displayText, setDisplayText] = useState('');
-  const [currentIndex, setCurrentIndex] = useState(0);
-
-  useEffect(() => {
-    if (currentIndex < text.length) {
-      const timer = setTimeout(() => {
-        setDisplayText(prev => prev + text[currentIndex]);
-        setCurrentIndex(prev => prev + 1);
-      }, delay);
-      return () => clearTimeout(timer);
-    } else if (onComplete) {
-      onComplete();
-    }
-  }, [currentIndex, text, delay, onComplete]);
+// Shows a reply as it streams in, with a button to stop it
+const StreamingMessage = ({ reply, onCancel, onChartClick }: {
+  reply: StreamingReply;
+  onCancel: () => void;
+  onChartClick: (image: string) => void;
+}) => {
+  const intl = useIntl();
 
   return (
-    <div style={{ whiteSpace: 'pre-wrap', lineHeight: '1.5', fontSize: '15px' }}>
-      <span style={{ fontWeight: 'bold', color: '#2196F3' }}>Assistant:</span>{' '}
-      <span style={{ color: '#444' }}>
-        {parseMarkdown(displayText)}
-        {currentIndex < text.length && <span style={{ opacity: 0.5 }}>|</span>}
-      </span>
-    </div>
+    <Box padding="1u">
+      <Rows spacing="1u">
+        <div style={{ whiteSpace: 'pre-wrap', lineHeight: '1.5', fontSize: '15px' }}>
+          <span style={{ fontWeight: 'bold', color: '#2196F3', marginRight: '0.25em' }}>
+            {intl.formatMessage(DataInfographicPanelMessages.assistantLabel)}
+          </span>
+          <span style={{ color: '#444' }}>
+            {parseMarkdown(reply.text)}
+            <span style={{ borderRight: '2px solid #2196F3', marginLeft: '1px' }} />
+          </span>
+        </div>
+        <Text size="small" tone="tertiary">
+          {reply.stage || intl.formatMessage(DataInfographicPanelMessages.streamStarting)}
+        </Text>
+        {reply.charts.map((image, index) => image && (
+          <ImageCard
+            key={index}
+            thumbnailUrl={image}
+            alt={intl.formatMessage(DataInfographicPanelMessages.chartPreviewAlt, { number: index + 1 })}
+            borderRadius="standard"
+            onClick={() => onChartClick(image)}
+          />
+        ))}
+        <Button variant="secondary" onClick={onCancel}>
+          {intl.formatMessage(DataInfographicPanelMessages.streamCancel)}
+        </Button>
+      </Rows>
+    </Box>
   );
 };
 
@@ -156,11 +435,13 @@ export const DataInfographicPanel = () => {
   const [dataState, setDataState] = useState<DataState>({
     csvData: '',
     fileName: '',
+    rawCsvData: '',
+    cleaningSteps: [],
+    datasets: [],
     analysis: null,
     chartImages: [],
     isProcessing: false,
     currentMode: 'chat',
-    isTyping: false,
     hasIntroduced: false,
     analysisStep: 'none',
     conversationContext: [],
@@ -169,34 +450,130 @@ export const DataInfographicPanel = () => {
 
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [userInput, setUserInput] = useState('');
+  const [streamingReply, setStreamingReply] = useState<StreamingReply | null>(null);
+  const [liveSheet, setLiveSheet] = useState<LiveSheet | null>(null);
+  const [showFormulaBuilder, setShowFormulaBuilder] = useState(false);
+  const [showCombiner, setShowCombiner] = useState(false);
+  const [showCleaning, setShowCleaning] = useState(false);
+  // The last correlations measured, and the data they were measured on
+  const [correlations, setCorrelations] = useState<{ csvData: string; result: Correlations } | null>(null);
+  // The last anomaly detection, and the data it ran on
+  const [anomalies, setAnomalies] = useState<{ csvData: string; result: AnomalyDetection } | null>(null);
+  // The rows the last anomaly detection flagged, and the data it ran on
+  const [anomalyReview, setAnomalyReview] = useState<{ name: string; csvData: string; detection: AnomalyDetection } | null>(null);
+  // An uploaded file waiting for the user to pick a sheet or table
+  const [pendingImport, setPendingImport] = useState<DatasetImport | null>(null);
+  const [importError, setImportError] = useState('');
+  const [infographicTemplate, setInfographicTemplate] = useState<InfographicTemplate>('report');
+  const [sheetForm, setSheetForm] = useState({
+    sheetUrl: '',
+    range: '',
+    refreshMinutes: '15',
+    isConnecting: false,
+    error: ''
+  });
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  const streamControllerRef = useRef<AbortController | null>(null);
+  // The spec each chart image was drawn from, and the charts added to the
+  // design from a spec, so both can be redrawn when the synced data changes
+  const chartSpecsRef = useRef(new Map<string, ChartSpec>());
+  const insertedChartsRef = useRef<InsertedChart[]>([]);
+  // When the synced sheet last changed, as far as the charts shown know
+  const lastChangeRef = useRef<string | undefined>(undefined);
+  // The cleaning steps, for replaying on the synced sheet's changes
+  const cleaningStepsRef = useRef<CleaningStep[]>([]);
+  const intl = useIntl();
+  const addElement = useAddElement();
+  const { setAppError } = useAppContext();
+
+  // Runs a streamed request, showing its progress and partial output in the
+  // chat until it settles. Rejects with an AbortError if the user stops it.
+  const runStreamed = async <T,>(request: (handlers: StreamHandlers) => Promise<T>): Promise<T> => {
+    const controller = new AbortController();
+    streamControllerRef.current = controller;
+    setStreamingReply({ stage: '', text: '', charts: [] });
+
+    try {
+      return await request({
+        signal: controller.signal,
+        onProgress: (progress) => setStreamingReply(prev => prev && {
+          ...prev,
+          stage: progress.message,
+          // A repair attempt rewrites the reply from the start
+          text: progress.stage === 'repairing' ? '' : prev.text
+        }),
+        onToken: (text) => setStreamingReply(prev => prev && { ...prev, text: prev.text + text }),
+        onChart: ({ image, index }) => setStreamingReply(prev => {
+          if (!prev) return prev;
+          const charts = [...prev.charts];
+          charts[index] = image;
+          return { ...prev, charts };
+        })
+      });
+    } finally {
+      streamControllerRef.current = null;
+      setStreamingReply(null);
+    }
+  };
+
+  const cancelStream = () => streamControllerRef.current?.abort();
+
+  // Remembers the spec each chart was drawn from. Images only line up with
+  // their specs when every spec was drawn.
+  const rememberChartSpecs = (images: string[], specs: ChartSpec[] | undefined) => {
+    if (specs && images.length === specs.length) {
+      images.forEach((image, index) => chartSpecsRef.current.set(image, specs[index]));
+    }
+  };
+
+  // Forgets the charts of the previous dataset, which new data can't redraw
+  const resetChartTracking = () => {
+    chartSpecsRef.current = new Map();
+    insertedChartsRef.current = [];
+  };
+
+  const addCancelledMessage = () => {
+    setDataState(prev => ({ ...prev, isProcessing: false }));
+    addChatMessage('assistant', intl.formatMessage(DataInfographicPanelMessages.streamCancelled));
+  };
+
+  // Uploads a chart image, and remembers the spec of a chart drawn from one
+  // so live sync can redraw it
+  const uploadChart = async (chartImageUrl: string) => {
+    const queuedImage = await upload({
+      type: "image",
+      mimeType: "image/png",
+      thumbnailUrl: chartImageUrl,
+      url: chartImageUrl,
+      width: 800,
+      height: 600,
+      aiDisclosure: "app_generated",
+    });
+    const spec = chartSpecsRef.current.get(chartImageUrl);
+    if (spec) {
+      insertedChartsRef.current.push({ ref: queuedImage.ref, spec });
+    }
+    return queuedImage.ref;
+  };
 
   // Enhanced Canva integration
   const addChartToCanva = async (chartImageUrl: string) => {
     try {
-      const queuedImage = await upload({
-        type: "image",
-        mimeType: "image/png",
-        thumbnailUrl: chartImageUrl,
-        url: chartImageUrl,
-        width: 800,
-        height: 600,
-        aiDisclosure: "app_generated",
-      });
+      const ref = await uploadChart(chartImageUrl);
 
       await addElementAtPoint({
         type: "image",
         altText: { text: "Data visualization chart", decorative: false },
-        ref: queuedImage.ref,
+        ref,
       });
 
       // Just a simple success indicator without redundant text
       
     } catch (error) {
       console.error('Error adding chart to Canva:', error);
-      addChatMessageWithTyping('assistant', 'Had trouble adding to Canva. What else would you like to analyze?', 'text', null, 500);
+      addChatMessage('assistant', 'Had trouble adding to Canva. What else would you like to analyze?');
       
       // Fallback download
       const link = document.createElement('a');
@@ -211,51 +588,26 @@ export const DataInfographicPanel = () => {
   // Generate comprehensive data analysis report for Canva
   const generateAnalysisReport = async () => {
     if (!dataState.csvData) {
-      addChatMessageWithTyping('assistant', 'Need data first. Upload a CSV file to generate a report.', 'text', null, 500);
+      addChatMessage('assistant', 'Need data first. Upload a CSV file to generate a report.');
       return;
     }
 
     setDataState(prev => ({ ...prev, isProcessing: true }));
-    addChatMessageWithTyping('assistant', 'Generating your data analysis report...', 'text', null, 500);
+    addChatMessage('assistant', 'Generating your data analysis report...');
 
     try {
-      // Parse the actual CSV data for insights
-      const lines = dataState.csvData.trim().split('\n');
-      const headers = lines[0].split(',').map(h => h.trim().replace(/['"]/g, ''));
-      const dataRows = lines.slice(1).filter(row => row.trim() !== '');
-      const rows = dataRows.length;
-      const columns = headers.length;
+      // Profile the data once; every figure in the report comes from it
+      const profile = profileDataset(dataState.csvData);
+      const measured = currentCorrelations();
+      const detected = currentAnomalies();
+      const rows = profile.rowCount;
+      const columns = profile.columns.length;
       const fileName = dataState.fileName;
       const currentDate = new Date().toLocaleDateString();
       
-      // Analyze data for insights
-      const columnAnalysis: { [key: string]: any } = {};
-      const numericColumns: string[] = [];
-      const categoryColumns: string[] = [];
-      
-      headers.forEach((header, colIndex) => {
-        const values = dataRows.map(row => {
-          const cells = row.split(',');
-          return cells[colIndex] ? cells[colIndex].trim().replace(/['"]/g, '') : '';
-        }).filter(val => val !== '');
-        
-        if (values.length === 0) return;
-        
-        const numericValues = values.map(v => parseFloat(v)).filter(v => !isNaN(v));
-        const isNumeric = numericValues.length > values.length * 0.8;
-        
-        if (isNumeric) {
-          numericColumns.push(header);
-          const min = Math.min(...numericValues);
-          const max = Math.max(...numericValues);
-          const avg = numericValues.reduce((a, b) => a + b, 0) / numericValues.length;
-          columnAnalysis[header] = { type: 'numeric', min, max, avg, count: numericValues.length };
-        } else {
-          categoryColumns.push(header);
-          const uniqueValues = [...new Set(values)];
-          columnAnalysis[header] = { type: 'category', uniqueCount: uniqueValues.length };
-        }
-      });
+      const informative = profile.columns.filter(isInformative);
+      const numericColumns = informative.filter(isMeasure);
+      const categoryColumns = informative.filter(column => !column.stats && !column.range);
       
       const completedAnalyses = dataState.completedAnalyses;
       
@@ -264,37 +616,32 @@ export const DataInfographicPanel = () => {
 
 Dataset: ${fileName}
 Analysis Date: ${currentDate}
-Records: ${rows} | Variables: ${columns}
+Records: **${rows}** | Variables: **${columns}**
 
 EXECUTIVE SUMMARY
 Analysis of ${fileName} reveals a ${rows}-record dataset with ${numericColumns.length} quantitative measures and ${categoryColumns.length} categorical dimensions. The analysis demonstrates strong analytical potential with ${completedAnalyses.length} completed analysis types and ${dataState.chartImages.length} visualizations created.
 
 DATA PROFILE
-${headers.map(header => {
-  const analysis = columnAnalysis[header];
-  if (analysis?.type === 'numeric') {
-    return `• ${header}: ${analysis.count} values | Range: ${analysis.min.toLocaleString()}-${analysis.max.toLocaleString()} | Average: ${analysis.avg.toFixed(2)}`;
-  } else if (analysis?.type === 'category') {
-    return `• ${header}: ${analysis.uniqueCount} categories`;
-  }
-  return `• ${header}: Mixed data`;
-}).join('\n')}
+${profile.columns.map(column => `• ${describeColumn(column, { topValues: 3, quartiles: false })}`).join('\n')}
+
+DATA WARNINGS
+${profile.warnings.length > 0 ? profile.warnings.map(warning => `• ${warning.message}`).join('\n') : '• None found'}
 
 ANALYSIS SUMMARY
-${completedAnalyses.includes('correlation') && numericColumns.length >= 2 ? `• Correlation Analysis: ${numericColumns[0]} and ${numericColumns[1]} statistical relationship examined` : ''}
-${completedAnalyses.includes('predictive') && numericColumns.length > 0 ? `• Predictive Models: ${numericColumns[0]} trend analysis with forecasting (${columnAnalysis[numericColumns[0]]?.max > columnAnalysis[numericColumns[0]]?.avg * 1.5 ? 'high volatility detected' : 'stable patterns identified'})` : ''}
-${completedAnalyses.includes('advanced') ? `• Advanced Analytics: Clustering analysis performed on ${rows} records, anomaly detection completed` : ''}
+${completedAnalyses.includes('correlation') && measured ? `• Correlation Analysis: ${measured.relationships.length} significant relationships among ${measured.pairs.length} pairs tested${measured.relationships.length > 0 ? `; strongest ${describeRelationship(measured.relationships[0])}` : ''}` : ''}
+${completedAnalyses.includes('predictive') && numericColumns.length > 0 ? `• Predictive Models: ${numericColumns[0].name} trend analysis with forecasting (${numericColumns[0].stats.max > numericColumns[0].stats.mean * 1.5 ? 'high volatility detected' : 'stable patterns identified'})` : ''}
+${detected ? `• Anomaly Detection: ${detected.rowCount} records checked by ${detected.methods.length} methods` : ''}
 ${dataState.chartImages.length > 0 ? `• Visualizations: ${dataState.chartImages.length} professional charts generated for presentation` : ''}
 
 KEY FINDINGS FROM DATA
-${numericColumns.length > 0 ? `• ${numericColumns[0]} Analysis: Average ${columnAnalysis[numericColumns[0]]?.avg.toFixed(1)}, Range ${columnAnalysis[numericColumns[0]]?.min.toFixed(1)}-${columnAnalysis[numericColumns[0]]?.max.toFixed(1)} (${((columnAnalysis[numericColumns[0]]?.max - columnAnalysis[numericColumns[0]]?.min) / columnAnalysis[numericColumns[0]]?.avg * 100).toFixed(1)}% variance)` : ''}
-${numericColumns.length > 1 ? `• ${numericColumns[1]} Performance: Average ${columnAnalysis[numericColumns[1]]?.avg.toFixed(1)} with ${columnAnalysis[numericColumns[1]]?.count} valid records` : ''}
-${categoryColumns.length > 0 ? `• ${categoryColumns[0]} Distribution: ${columnAnalysis[categoryColumns[0]]?.uniqueCount} distinct categories identified` : ''}
-• Data Quality: ${rows} records analyzed across ${columns} variables with ${((numericColumns.length + categoryColumns.length) / columns * 100).toFixed(1)}% data completeness
-${completedAnalyses.includes('advanced') ? `• Anomaly Detection: Approximately ${Math.floor(rows * 0.1)} outlier records flagged for review` : ''}
+${numericColumns.length > 0 ? `• ${numericColumns[0].name} Analysis: Average **${numericColumns[0].stats.mean.toFixed(1)}**, Median **${numericColumns[0].stats.median.toFixed(1)}**, Range **${numericColumns[0].stats.min.toFixed(1)}-${numericColumns[0].stats.max.toFixed(1)}** (${((numericColumns[0].stats.max - numericColumns[0].stats.min) / numericColumns[0].stats.mean * 100).toFixed(1)}% variance)` : ''}
+${numericColumns.length > 1 ? `• ${numericColumns[1].name} Performance: Average **${numericColumns[1].stats.mean.toFixed(1)}** with ${numericColumns[1].count} valid records` : ''}
+${categoryColumns.length > 0 ? `• ${categoryColumns[0].name} Distribution: **${categoryColumns[0].distinct}** distinct categories identified` : ''}
+• Data Quality: ${rows} records analyzed across ${columns} variables with **${completenessOf(profile).toFixed(1)}%** data completeness
+${detected ? `• Anomaly Detection: ${detected.rows.length} of ${detected.rowCount} records flagged for review, ${detected.risk_level} risk` : ''}
 
 RECOMMENDATIONS
-1. ${numericColumns.length >= 2 ? `Focus on ${numericColumns[0]}-${numericColumns[1]} relationship analysis for strategic insights` : 'Leverage categorical data for targeted segmentation strategies'}
+1. ${numericColumns.length >= 2 ? `Focus on ${numericColumns[0].name}-${numericColumns[1].name} relationship analysis for strategic insights` : 'Leverage categorical data for targeted segmentation strategies'}
 2. ${completedAnalyses.includes('predictive') ? 'Implement forecasting models for business planning and trend monitoring' : 'Apply predictive modeling techniques for future planning'}
 3. ${completedAnalyses.includes('advanced') ? 'Investigate identified anomalies for potential opportunities or risk mitigation' : 'Perform advanced analytics to uncover hidden patterns'}
 4. Continue regular data quality monitoring to maintain analysis accuracy
@@ -308,25 +655,10 @@ Analysis Date: ${currentDate}`;
 
       setDataState(prev => ({ ...prev, isProcessing: false }));
       
-      // Add the report as copyable text
-      setTimeout(() => {
-        const reportMessage = {
-          id: Date.now().toString(),
-          role: 'assistant' as const,
-          content: `📋 **Data Analysis Report Generated!**
-
-Your comprehensive report is ready. Simply select all the text below and copy it (Ctrl+C / Cmd+C), then paste it into a Canva text element.
-
-${reportContent}
-
----
-💡 **To add to Canva:** Select the report text above → Copy (Ctrl+C / Cmd+C) → Add text element in Canva → Paste`,
-          timestamp: new Date(),
-          type: 'text' as const,
-          data: { isReport: true, reportText: reportContent }
-        };
-        setChatMessages(prev => [...prev, reportMessage]);
-      }, 1000);
+      // Keep the charts it counts, to add to the design alongside it
+      addChatMessage('assistant', `📋 **Data Analysis Report Generated!**
+
+${reportContent}`, 'text', { report: { text: reportContent, charts: dataState.chartImages }, tables: profileTables(intl, profile) });
       
       // Mark as completed
       setDataState(prev => ({ 
@@ -342,7 +674,7 @@ ${reportContent}
       const basicReport = `DATA ANALYSIS SUMMARY
 
 Dataset: ${dataState.fileName}
-Records: ${dataState.csvData.split('\n').length - 1}
+Records: ${parseCsv(dataState.csvData).rows.length}
 Date: ${new Date().toLocaleDateString()}
 
 COMPLETED ANALYSES: ${dataState.completedAnalyses.length}
@@ -352,21 +684,9 @@ Your data has been successfully analyzed with multiple techniques including stat
 
 Generated by AI Data Analysis Assistant`;
       
-      setTimeout(() => {
-        const reportMessage = {
-          id: Date.now().toString(),
-          role: 'assistant' as const,
-          content: `📋 **Simple Report Generated**
-
-${basicReport}
-
-Select the text above and copy it (Ctrl+C / Cmd+C) to paste into Canva.`,
-          timestamp: new Date(),
-          type: 'text' as const,
-          data: { isReport: true, reportText: basicReport }
-        };
-        setChatMessages(prev => [...prev, reportMessage]);
-      }, 1000);
+      addChatMessage('assistant', `📋 **Simple Report Generated**
+
+${basicReport}`, 'text', { report: { text: basicReport, charts: dataState.chartImages } });
       
       setDataState(prev => ({ 
         ...prev, 
@@ -377,32 +697,24 @@ Select the text above and copy it (Ctrl+C / Cmd+C) to paste into Canva.`,
 
   // Generate a data-driven report with actual insights from the dataset
   const generateFallbackReport = (fileName: string, rows: number, columns: number, completedAnalyses: string[], date: string) => {
-    // Analyze actual data for real insights
-    const lines = dataState.csvData.split('\n');
-    const headers = lines[0].split(',').map(h => h.trim());
-    const dataRows = lines.slice(1).filter(line => line.trim());
-    
-    // Parse and analyze the data
-    const numericData: { [key: string]: number[] } = {};
-    const categoricalData: { [key: string]: string[] } = {};
-    
-    headers.forEach(header => {
-      const values = dataRows.map(row => {
-        const cells = row.split(',');
-        const headerIndex = headers.indexOf(header);
-        return cells[headerIndex]?.trim() || '';
-      }).filter(val => val);
-      
-      const numericValues = values.map(v => parseFloat(v)).filter(v => !isNaN(v));
-      if (numericValues.length / values.length > 0.8 && numericValues.length > 0) {
-        numericData[header] = numericValues;
-      } else {
-        categoricalData[header] = values;
-      }
-    });
+    // Profile the data once; statistics come from the profile, and only
+    // trends and correlations read the values themselves
+    const table = parseCsv(dataState.csvData);
+    const profile = profileDataset(table);
+    const informative = profile.columns.filter(isInformative);
+    const measures = informative.filter(isMeasure);
+    const categories = informative.filter(column => !column.stats && !column.range);
+    const numericColumns = measures.map(column => column.name);
+    const categoricalColumns = categories.map(column => column.name);
     
-    const numericColumns = Object.keys(numericData);
-    const categoricalColumns = Object.keys(categoricalData);
+    // A numeric column's values, in row order
+    const numbersOf = (name: string) => {
+      const index = table.header.indexOf(name);
+      return table.rows
+        .map(row => row[index] ?? '')
+        .filter(cell => !isMissing(cell))
+        .map(cell => parseNumber(cell) as number);
+    };
     
     // Generate real insights
     let keyFindings: string[] = [];
@@ -410,45 +722,34 @@ Select the text above and copy it (Ctrl+C / Cmd+C) to paste into Canva.`,
     let specificMetrics: string[] = [];
     
     // Numeric insights
-    if (numericColumns.length > 0) {
-      const firstCol = numericColumns[0];
-      const values = numericData[firstCol];
-      const avg = values.reduce((a, b) => a + b, 0) / values.length;
-      const max = Math.max(...values);
-      const min = Math.min(...values);
-      const aboveAvg = values.filter(v => v > avg).length;
-      const total = values.reduce((a, b) => a + b, 0);
+    if (measures.length > 0) {
+      const { name: firstCol, count, stats: { mean: avg, min, max } } = measures[0];
+      const aboveAvg = numbersOf(firstCol).filter(v => v > avg).length;
+      const total = avg * count;
       
       // More business-focused findings
       keyFindings.push(`${firstCol} performance: ${avg.toFixed(1)} average with ${((max - min) / avg * 100).toFixed(1)}% variance range`);
-      keyFindings.push(`${aboveAvg} high-performing records (${((aboveAvg / values.length) * 100).toFixed(1)}%) exceed ${avg.toFixed(1)} benchmark`);
+      keyFindings.push(`${aboveAvg} high-performing records (${((aboveAvg / count) * 100).toFixed(1)}%) exceed ${avg.toFixed(1)} benchmark`);
       keyFindings.push(`Peak performance of ${max.toFixed(1)} represents ${((max / avg - 1) * 100).toFixed(1)}% above average capability`);
       
       specificMetrics.push(`${firstCol} total value: ${total.toFixed(0)}`);
       specificMetrics.push(`Performance spread: ${min.toFixed(1)} to ${max.toFixed(1)} (${((max - min) / avg * 100).toFixed(1)}% variance)`);
       
       businessInsights.push(`${firstCol} ${max > avg * 2 ? 'shows high volatility requiring risk management strategies' : 'demonstrates stable operational performance'}`);
-      businessInsights.push(`${((aboveAvg / values.length) * 100).toFixed(1)}% success rate ${aboveAvg / values.length > 0.5 ? 'exceeds industry benchmarks' : 'indicates optimization opportunities'}`);
+      businessInsights.push(`${((aboveAvg / count) * 100).toFixed(1)}% success rate ${aboveAvg / count > 0.5 ? 'exceeds industry benchmarks' : 'indicates optimization opportunities'}`);
     }
     
     // Categorical insights
-    if (categoricalColumns.length > 0) {
-      const firstCat = categoricalColumns[0];
-      const values = categoricalData[firstCat];
-      const uniqueCount = new Set(values).size;
-      const mostCommon = values.reduce((a, b, _, arr) => 
-        arr.filter(v => v === a).length >= arr.filter(v => v === b).length ? a : b
-      );
-      const mostCommonCount = values.filter(v => v === mostCommon).length;
-      const dominancePercent = ((mostCommonCount / values.length) * 100).toFixed(1);
-      const secondMost = values.filter(v => v !== mostCommon).reduce((a, b, _, arr) => 
-        arr.filter(v => v === a).length >= arr.filter(v => v === b).length ? a : b, ''
-      );
-      const secondCount = values.filter(v => v === secondMost).length;
+    if (categories.length > 0) {
+      const { name: firstCat, count, distinct: uniqueCount, topValues } = categories[0];
+      const { value: mostCommon, count: mostCommonCount } = topValues[0];
+      const dominancePercent = ((mostCommonCount / count) * 100).toFixed(1);
+      const secondMost = topValues[1]?.value ?? '';
+      const secondCount = topValues[1]?.count ?? 0;
       
       keyFindings.push(`${firstCat} distribution: '${mostCommon}' leads with ${dominancePercent}% market share (${mostCommonCount} records)`);
       if (secondMost) {
-        keyFindings.push(`Secondary segment '${secondMost}' accounts for ${((secondCount / values.length) * 100).toFixed(1)}% (${secondCount} records)`);
+        keyFindings.push(`Secondary segment '${secondMost}' accounts for ${((secondCount / count) * 100).toFixed(1)}% (${secondCount} records)`);
       }
       keyFindings.push(`Market fragmentation: ${uniqueCount} distinct ${firstCat} segments with ${dominancePercent}% concentration ratio`);
       
@@ -458,39 +759,25 @@ Select the text above and copy it (Ctrl+C / Cmd+C) to paste into Canva.`,
       businessInsights.push(`${dominancePercent}% market concentration in '${mostCommon}' ${parseFloat(dominancePercent) > 70 ? 'indicates monopolistic position' : parseFloat(dominancePercent) > 50 ? 'suggests market leadership' : 'shows competitive market structure'}`);
     }
     
-    // Correlation insights
-    if (completedAnalyses.includes('correlation') && numericColumns.length >= 2) {
-      const col1 = numericColumns[0];
-      const col2 = numericColumns[1];
-      const vals1 = numericData[col1];
-      const vals2 = numericData[col2];
-      
-      // Calculate actual correlation
-      const n = Math.min(vals1.length, vals2.length);
-      const mean1 = vals1.slice(0, n).reduce((a, b) => a + b, 0) / n;
-      const mean2 = vals2.slice(0, n).reduce((a, b) => a + b, 0) / n;
-      
-      let numerator = 0, denom1 = 0, denom2 = 0;
-      for (let i = 0; i < n; i++) {
-        const diff1 = vals1[i] - mean1;
-        const diff2 = vals2[i] - mean2;
-        numerator += diff1 * diff2;
-        denom1 += diff1 * diff1;
-        denom2 += diff2 * diff2;
+    // Correlation insights, from the relationships the backend measured
+    const measured = currentCorrelations();
+    if (completedAnalyses.includes('correlation') && measured) {
+      measured.relationships.slice(0, 3).forEach(relationship => {
+        const strength = correlationStrength(relationship.coefficient);
+        const direction = relationship.measure === 'cramersV' ? '' : relationship.coefficient > 0 ? ' positive' : ' negative';
+        keyFindings.push(`${describeRelationship(relationship)}, a ${strength}${direction} relationship`);
+      });
+      specificMetrics.push(`Significant relationships: ${measured.relationships.length} of ${measured.pairs.length} pairs tested`);
+      const [strongest] = measured.relationships;
+      if (strongest) {
+        businessInsights.push(`${correlationStrength(strongest.coefficient)} relationship between ${strongest.columns[0]} and ${strongest.columns[1]} ${Math.abs(strongest.coefficient) > 0.5 ? 'supports predictive modeling' : 'offers limited forecasting capability'}`);
       }
-      
-      const correlation = numerator / Math.sqrt(denom1 * denom2);
-      const strength = Math.abs(correlation) > 0.7 ? 'strong' : Math.abs(correlation) > 0.3 ? 'moderate' : 'weak';
-      
-      keyFindings.push(`${col1}-${col2} correlation coefficient: ${correlation.toFixed(3)} (${strength} ${correlation > 0 ? 'positive' : 'negative'} relationship)`);
-      specificMetrics.push(`Correlation strength: ${Math.abs(correlation).toFixed(3)} (${strength})`);
-      businessInsights.push(`${strength} correlation enables ${Math.abs(correlation) > 0.5 ? 'reliable predictive modeling' : 'limited forecasting capability'} for ${col2} optimization`);
     }
     
     // Predictive insights
     if (completedAnalyses.includes('predictive') && numericColumns.length > 0) {
       const targetCol = numericColumns[0];
-      const values = numericData[targetCol];
+      const values = numbersOf(targetCol);
       const recentAvg = values.slice(-Math.min(10, values.length)).reduce((a, b) => a + b, 0) / Math.min(10, values.length);
       const earlyAvg = values.slice(0, Math.min(10, values.length)).reduce((a, b) => a + b, 0) / Math.min(10, values.length);
       const trend = recentAvg - earlyAvg;
@@ -501,19 +788,13 @@ Select the text above and copy it (Ctrl+C / Cmd+C) to paste into Canva.`,
       businessInsights.push(`${trend > 0 ? 'Positive momentum supports expansion strategies' : 'Declining trend requires immediate corrective action'} for ${targetCol} optimization`);
     }
     
-    // Advanced analysis insights
-    if (completedAnalyses.includes('advanced')) {
-      const outlierCount = Math.floor(rows * 0.1);
-      const clusterCount = Math.min(5, Math.max(2, Math.floor(rows / 15)));
-      
-      keyFindings.push(`${outlierCount} anomalous records identified requiring investigation`);
-      keyFindings.push(`${clusterCount} distinct data segments discovered through clustering`);
-      
-      specificMetrics.push(`Outliers detected: ${outlierCount} records (${((outlierCount / rows) * 100).toFixed(1)}%)`);
-      specificMetrics.push(`Data segments: ${clusterCount} clusters`);
-      
-      businessInsights.push(`${outlierCount} outliers represent ${outlierCount > rows * 0.05 ? 'significant anomalies' : 'normal variation'} in operations`);
-      businessInsights.push(`${clusterCount} segments enable targeted strategies for different data groups`);
+    // Anomaly insights, from the rows the backend flagged
+    const detected = currentAnomalies();
+    if (completedAnalyses.includes('advanced') && detected) {
+      const flagged = detected.rows.length;
+      keyFindings.push(`${flagged} anomalous records identified requiring investigation`);
+      specificMetrics.push(`Outliers detected: ${flagged} records (${((flagged / Math.max(1, detected.rowCount)) * 100).toFixed(1)}%)`);
+      businessInsights.push(`${flagged} outliers carry ${detected.risk_level.toLowerCase()} risk for operations`);
     }
 
     // Generate chart analysis section
@@ -523,21 +804,20 @@ Select the text above and copy it (Ctrl+C / Cmd+C) to paste into Canva.`,
     if (completedAnalyses.includes('visualizations') || dataState.chartImages.length > 0) {
       chartAnalysis.push('CHART ANALYSIS & INSIGHTS');
       
-      if (numericColumns.length > 0) {
-        const firstCol = numericColumns[0];
-        const values = numericData[firstCol];
-        const avg = values.reduce((a, b) => a + b, 0) / values.length;
+      if (measures.length > 0) {
+        const { name: firstCol, stats: { mean: avg } } = measures[0];
         
         chartAnalysis.push(`📊 Distribution Chart: Shows ${firstCol} distribution with average of ${avg.toFixed(1)}`);
-        chartAnalysis.push(`📈 Trend Analysis: Reveals ${values.filter(v => v > avg).length} records above average performance`);
+        chartAnalysis.push(`📈 Trend Analysis: Reveals ${numbersOf(firstCol).filter(v => v > avg).length} records above average performance`);
         chartRecommendations.push(`Add Distribution Chart to show ${firstCol} performance patterns`);
       }
       
-      if (completedAnalyses.includes('correlation') && numericColumns.length >= 2) {
-        const col1 = numericColumns[0];
-        const col2 = numericColumns[1];
-        chartAnalysis.push(`🔗 Correlation Matrix: Maps relationships between ${col1} and ${col2}`);
-        chartRecommendations.push(`Include Correlation Chart to demonstrate ${col1}-${col2} relationship strength`);
+      if (completedAnalyses.includes('correlation') && measured?.matrix) {
+        chartAnalysis.push(`🔗 Correlation Matrix: Maps relationships between ${measured.matrix.columns.join(', ')}`);
+        const [strongest] = measured.relationships;
+        if (strongest) {
+          chartRecommendations.push(`Include Correlation Chart to demonstrate ${strongest.columns[0]}-${strongest.columns[1]} relationship strength`);
+        }
       }
       
       if (completedAnalyses.includes('predictive')) {
@@ -545,10 +825,9 @@ Select the text above and copy it (Ctrl+C / Cmd+C) to paste into Canva.`,
         chartRecommendations.push('Add Trend Forecasting Chart to support future planning discussions');
       }
       
-      if (completedAnalyses.includes('advanced')) {
-        const outlierCount = Math.floor(rows * 0.1);
-        chartAnalysis.push(`🎯 Advanced Analytics: Clustering and anomaly detection identified ${outlierCount} outliers`);
-        chartRecommendations.push('Include Clustering Chart to visualize data segments and outlier patterns');
+      if (completedAnalyses.includes('advanced') && detected) {
+        chartAnalysis.push(`🎯 Advanced Analytics: Anomaly detection identified ${detected.rows.length} outliers`);
+        chartRecommendations.push('Include the anomaly charts to show where the outliers are');
       }
     }
 
@@ -573,14 +852,15 @@ ${businessInsights.map(insight => `• ${insight}`).join('\n')}
 ${chartAnalysis.length > 0 ? `${chartAnalysis[0]}\n${chartAnalysis.slice(1).map(analysis => `• ${analysis}`).join('\n')}\n` : ''}
 
 ANALYSIS SUMMARY
-${completedAnalyses.includes('correlation') && numericColumns.length >= 2 ? `• Correlation Analysis revealed ${numericColumns[0]} and ${numericColumns[1]} relationship patterns with statistical significance` : ''}
-${completedAnalyses.includes('predictive') && numericColumns.length > 0 ? `• Predictive Models identified ${numericData[numericColumns[0]].slice(-10).reduce((a, b) => a + b, 0) / 10 > numericData[numericColumns[0]].slice(0, 10).reduce((a, b) => a + b, 0) / 10 ? 'upward' : 'downward'} trend in ${numericColumns[0]} performance` : ''}
-${completedAnalyses.includes('advanced') ? `• Advanced Analytics detected ${Math.floor(rows * 0.1)} anomalous records requiring investigation` : ''}
+${completedAnalyses.includes('correlation') && measured ? `• Correlation Analysis found ${measured.relationships.length > 0 ? `${measured.relationships.length} significant relationships, the strongest ${describeRelationship(measured.relationships[0])}` : 'no significant relationships'}` : ''}
+${completedAnalyses.includes('predictive') && numericColumns.length > 0 ? `• Predictive Models identified ${numbersOf(numericColumns[0]).slice(-10).reduce((a, b) => a + b, 0) / 10 > numbersOf(numericColumns[0]).slice(0, 10).reduce((a, b) => a + b, 0) / 10 ? 'upward' : 'downward'} trend in ${numericColumns[0]} performance` : ''}
+${completedAnalyses.includes('advanced') && detected ? `• Advanced Analytics detected ${detected.rows.length} anomalous records requiring investigation` : ''}
 ${dataState.chartImages.length > 0 ? `• Data Visualizations generated ${dataState.chartImages.length} professional charts for executive presentation` : ''}
 
 DATA QUALITY ASSESSMENT
-• Completeness: ${((rows - Math.floor(rows * 0.05)) / rows * 100).toFixed(1)}% of records contain valid data
+• Completeness: ${completenessOf(profile).toFixed(1)}% of cells contain valid data
 • Structure: ${numericColumns.length} numeric and ${categoricalColumns.length} categorical variables
+${profile.warnings.map(warning => `• ${warning.message}`).join('\n')}
 • Analysis Confidence: ${rows > 500 ? 'High' : rows > 100 ? 'Moderate' : 'Preliminary'} (based on ${rows} records)
 
 RECOMMENDATIONS
@@ -600,6 +880,25 @@ ${fileName} analysis provides concrete insights: ${keyFindings.length} specific
 Generated by AI Data Analysis Assistant`;
   };
 
+  // Adds a table of results to the design, as several tables when it has
+  // more cells than one can hold
+  const addTableToCanva = async (table: TitledTable) => {
+    try {
+      const elements = tableElements(table, { locale: intl.locale });
+      for (const element of elements) {
+        await addElement(element);
+      }
+      if (elements.length > 1) {
+        addChatMessage('assistant', intl.formatMessage(DataInfographicPanelMessages.tableSplit, {
+          title: table.title,
+          count: elements.length
+        }));
+      }
+    } catch {
+      setAppError(intl.formatMessage(DataInfographicPanelMessages.tableInsertFailed, { title: table.title }));
+    }
+  };
+
   // Add analysis report to Canva
   const addReportToCanva = async (reportImageUrl: string) => {
     try {
@@ -619,28 +918,74 @@ Generated by AI Data Analysis Assistant`;
         ref: queuedImage.ref,
       });
 
-      addChatMessageWithTyping('assistant', 'Analysis report added to Canva! Ready for your next analysis.', 'text', null, 800);
+      addChatMessage('assistant', 'Analysis report added to Canva! Ready for your next analysis.');
       
     } catch (error) {
       console.error('Error adding report to Canva:', error);
-      addChatMessageWithTyping('assistant', 'Report created but had trouble adding to Canva. You can download it manually.', 'text', null, 500);
+      addChatMessage('assistant', 'Report created but had trouble adding to Canva. You can download it manually.');
     }
   };
 
-  // Add text report to Canva as text element with multiple fallback strategies
-  const addTextReportToCanva = async (reportText: string) => {
-    // Simply show the text for manual copying - no automatic addition
-    addChatMessageWithTyping('assistant', `📋 **Report Ready for Copy & Paste**
-
-Here's your comprehensive data analysis report. Select all the text below and copy it (Ctrl+C / Cmd+C):
+  // Adds a report to the design as formatted text, one element per section
+  // so they can be arranged separately, followed by the charts it covers
+  const addTextReportToCanva = async (reportText: string, charts: string[] = []) => {
+    try {
+      const elements = reportElements(parseReport(reportText));
+      for (const element of elements) {
+        await addElement(element);
+      }
+      for (const chart of charts) {
+        await addChartToCanva(chart);
+      }
+      addChatMessage('assistant', intl.formatMessage(DataInfographicPanelMessages.reportInserted, { count: elements.length }));
+    } catch {
+      setAppError(intl.formatMessage(DataInfographicPanelMessages.reportInsertFailed));
+    }
+  };
 
-${reportText}
+  // Composes a full page from the latest charts: a title, key figures and a
+  // narrative, laid out by the chosen template and placed where it puts them
+  const composeInfographic = async () => {
+    const charts = dataState.chartImages.slice(-MAX_INFOGRAPHIC_CHARTS);
+    if (!dataState.csvData || charts.length < MIN_INFOGRAPHIC_CHARTS) {
+      addChatMessage('assistant', intl.formatMessage(DataInfographicPanelMessages.infographicNeedsCharts, { min: MIN_INFOGRAPHIC_CHARTS }));
+      return;
+    }
 
-**To add to Canva:**
-1. Select all the report text above
-2. Copy it (Ctrl+C / Cmd+C) 
-3. Go to Canva and add a text element
-4. Paste the report (Ctrl+V / Cmd+V)`, 'text', null, 500);
+    setDataState(prev => ({ ...prev, isProcessing: true }));
+    try {
+      const profile = profileDataset(dataState.csvData);
+      const name = dataState.fileName.replace(/\.[^.]+$/, '') || intl.formatMessage(DataInfographicPanelMessages.infographicUntitled);
+      const content = {
+        title: intl.formatMessage(DataInfographicPanelMessages.infographicTitle, { name }),
+        kpis: infographicKpis(intl, profile),
+        charts,
+        narrative: infographicNarrative(intl, name, profile, currentCorrelations()),
+      };
+      // Pages without a size, such as whiteboards, take the template's own
+      const { dimensions } = await getCurrentPageContext();
+      const layout = layoutInfographic(content, { template: infographicTemplate, page: dimensions });
+      const uploaded: InfographicChart[] = [];
+      for (const [index, chart] of charts.entries()) {
+        uploaded.push({
+          ref: await uploadChart(chart),
+          altText: intl.formatMessage(DataInfographicPanelMessages.infographicChartAlt, { number: index + 1 }),
+        });
+      }
+      for (const element of infographicElements({ ...content, charts: uploaded }, layout)) {
+        await addElementAtPoint(element);
+      }
+      addChatMessage('assistant', intl.formatMessage(DataInfographicPanelMessages.infographicComposed, {
+        template: infographicTemplate,
+        count: charts.length
+      }));
+    } catch (error) {
+      setAppError(error instanceof InfographicError
+        ? intl.formatMessage(DataInfographicPanelMessages.infographicFailed, { reason: error.message })
+        : intl.formatMessage(DataInfographicPanelMessages.infographicInsertFailed));
+    } finally {
+      setDataState(prev => ({ ...prev, isProcessing: false }));
+    }
   };
 
 
@@ -648,18 +993,19 @@ ${reportText}
   // Data analysis workflow following analyst steps
   const performDataCleaning = async (csvData: string, fileName: string) => {
     setDataState(prev => ({ ...prev, isProcessing: true, analysisStep: 'cleaning' }));
-    
-    addChatMessageWithTyping('assistant', 'Analyzing data quality...', 'text', null, 500);
+    const table = parseCsv(csvData);
     
     try {
-      const analysis = await analyzeData(csvData) as any;
+      const { analysis } = await runStreamed(handlers =>
+        streamAnalysis(csvData, { ...handlers, renderCharts: false })
+      );
       
       const cleaningReport = `**Data Summary**
 ${analysis?.data_summary || 'Data loaded successfully'}
 
 **Data Quality Assessment for ${fileName}:**
-• **Rows:** ${csvData.split('\n').length - 1}
-• **Columns:** ${csvData.split('\n')[0].split(',').length}
+• **Rows:** ${table.rows.length}
+• **Columns:** ${table.header.length}
 
 **Key Observations:**${analysis?.insights?.length > 0 ? 
   `\n${analysis.insights.map((insight: string, i: number) => `${i + 1}. ${insight}`).join('\n')}` : 
@@ -675,68 +1021,43 @@ Data cleaning complete! You can now create visualizations and run advanced analy
         conversationContext: [...prev.conversationContext, `Cleaned data: ${fileName}`]
       }));
       
-      addChatMessageWithTyping('assistant', cleaningReport, 'analysis', analysis, 1000);
+      addChatMessage('assistant', cleaningReport, 'analysis', analysis && { analysis });
       
     } catch (error) {
+      if (isAbortError(error)) {
+        addCancelledMessage();
+        return;
+      }
       console.error('Analysis error:', error);
       
       // Fallback: Do basic data assessment without API
-      const lines = csvData.split('\n');
-      const headers = lines[0].split(',');
-      const dataRows = lines.length - 1;
+      const headers = table.header;
+      const dataRows = table.rows.length;
       
-      // Basic data quality check
-      let hasEmptyRows = false;
-      let totalCells = 0;
-      let emptyCells = 0;
-      
-      for (let i = 1; i < lines.length; i++) {
-        const cells = lines[i].split(',');
-        totalCells += cells.length;
-        cells.forEach(cell => {
-          if (!cell.trim()) emptyCells++;
-        });
-        if (cells.length !== headers.length) hasEmptyRows = true;
-      }
+      // Basic data quality check; rows with too few or too many cells were
+      // padded or trimmed when the data was parsed
+      const hasEmptyRows = table.irregularRows > 0;
+      const totalCells = dataRows * headers.length;
+      const emptyCells = table.rows.reduce((count, row) => count + row.filter(cell => !cell.trim()).length, 0);
       
       const completeness = ((totalCells - emptyCells) / totalCells * 100).toFixed(1);
       
       let cleaningActions: string[] = [];
       let cleanedData = csvData;
+      const cleaningSteps: CleaningStep[] = [];
       
-      // Actually clean the data if issues are found
-      if (emptyCells > 0 || hasEmptyRows) {
-        const cleanedLines = [];
-        const originalLines = csvData.split('\n');
-        
-        // Add header
-        cleanedLines.push(originalLines[0]);
-        
-        // Clean data rows
-        for (let i = 1; i < originalLines.length; i++) {
-          const line = originalLines[i].trim();
-          if (!line) continue; // Skip empty lines
-          
-          const cells = line.split(',');
-          
-          // Ensure consistent column count
-          while (cells.length < headers.length) {
-            cells.push(''); 
-          }
-          if (cells.length > headers.length) {
-            cells.splice(headers.length);
-          }
-          
-          // Clean individual cells (replace empty with N/A)
-          const cleanedCells = cells.map(cell => cell.trim() || 'N/A');
-          cleanedLines.push(cleanedCells.join(','));
-        }
-        
-        cleanedData = cleanedLines.join('\n');
-        
-        if (emptyCells > 0) cleaningActions.push(`Filled ${emptyCells} empty cells with 'N/A'`);
-        if (hasEmptyRows) cleaningActions.push('Standardized row lengths to match headers');
+      // Trimming is the one fix that's always safe, so it becomes the first
+      // cleaning step. Empty cells are left empty: filling them with text
+      // would turn numeric columns into text.
+      const trimStep: CleaningStep = { kind: 'trim' };
+      const trimmed = applyStep(table, trimStep);
+      if (trimmed.report.cellsChanged > 0) {
+        cleanedData = formatCsv(trimmed.table);
+        cleaningSteps.push(trimStep);
+        cleaningActions.push(`Trimmed spaces around ${trimmed.report.cellsChanged} cells`);
       }
+      if (hasEmptyRows) cleaningActions.push('Standardized row lengths to match headers');
+      if (emptyCells > 0) cleaningActions.push(`Found ${emptyCells} empty cells, which you can fill with the cleaning steps`);
       
       const fallbackReport = `**Data Summary**
 Successfully loaded ${fileName}
@@ -756,13 +1077,14 @@ Data cleaning complete! You can now create visualizations and run advanced analy
       setDataState(prev => ({ 
         ...prev, 
         csvData: cleanedData,
+        cleaningSteps: [...prev.cleaningSteps, ...cleaningSteps],
         analysis: { basic_assessment: true },
         isProcessing: false,
         analysisStep: 'exploration',
         conversationContext: [...prev.conversationContext, `Cleaned data: ${fileName}`]
       }));
       
-      addChatMessageWithTyping('assistant', fallbackReport, 'analysis', null, 1000);
+      addChatMessage('assistant', fallbackReport, 'analysis');
     }
   };
 
@@ -771,663 +1093,252 @@ Data cleaning complete! You can now create visualizations and run advanced analy
 
     setDataState(prev => ({ ...prev, isProcessing: true, analysisStep: 'visualization' }));
     
-    addChatMessageWithTyping('assistant', 'Creating visualizations...', 'text', null, 300);
-    
     try {
-      const analysis = dataState.analysis || await analyzeData(dataState.csvData);
+      let analysis = dataState.analysis;
+      let chartImages: string[] = [];
+      if (!analysis) {
+        ({ analysis, chartImages } = await runStreamed(handlers =>
+          streamAnalysis(dataState.csvData, handlers)
+        ));
+        setDataState(prev => ({ ...prev, analysis }));
+      } else if (analysis.charts?.length) {
+        const charts = analysis.charts;
+        chartImages = await runStreamed(handlers =>
+          streamChartSpecs(dataState.csvData, charts, handlers)
+        );
+      }
+      rememberChartSpecs(chartImages, analysis?.charts);
       
-      if (analysis?.python_code) {
-        const result = await executePythonCode(dataState.csvData, analysis.python_code) as any;
-        
-        if (result.chartImages?.length > 0) {
+      if (analysis?.charts?.length) {
+        if (chartImages.length > 0) {
           setDataState(prev => ({
             ...prev,
-            chartImages: result.chartImages,
+            chartImages,
             isProcessing: false,
             analysisStep: 'visualization',
             conversationContext: [...prev.conversationContext, 'Created initial visualizations']
           }));
 
-          addChatMessageWithTyping('assistant', 'Key visualizations created! Click any chart to add to Canva.', 'chart', result.chartImages, 800);
+          addChatMessage('assistant', 'Key visualizations created! Click any chart to add to Canva.', 'chart', { images: chartImages });
         } else {
           setDataState(prev => ({ ...prev, isProcessing: false }));
-          addChatMessageWithTyping('assistant', 'No charts generated. What specific visualization would you like?', 'text', null, 500);
+          addChatMessage('assistant', 'No charts generated. What specific visualization would you like?');
         }
       } else {
-        // Create basic visualizations if no analysis available
-        const basicVisualizationCode = `
-import pandas as pd
-import matplotlib.pyplot as plt
-import seaborn as sns
-import numpy as np
-import warnings
-warnings.filterwarnings('ignore')
-
-plt.switch_backend('Agg')
-
-# Load data
-from io import StringIO
-data = pd.read_csv(StringIO('''${dataState.csvData.replace(/'/g, "\\'")}'''))
-
-# Create basic visualizations
-numeric_cols = data.select_dtypes(include=[np.number]).columns
-categorical_cols = data.select_dtypes(include=['object']).columns
-
-fig_count = 0
-
-# Numeric distributions
-for col in numeric_cols[:3]:  # Max 3 numeric columns
-    plt.figure(figsize=(10, 6))
-    plt.hist(data[col].dropna(), bins=20, alpha=0.7, color='skyblue', edgecolor='black')
-    plt.title(f'Distribution of {col}')
-    plt.xlabel(col)
-    plt.ylabel('Frequency')
-    plt.grid(True, alpha=0.3)
-    plt.tight_layout()
-    plt.savefig(f'chart_{fig_count}.png', dpi=300, bbox_inches='tight')
-    plt.close()
-    fig_count += 1
-
-# Categorical distributions
-for col in categorical_cols[:2]:  # Max 2 categorical columns
-    if data[col].nunique() <= 20:  # Only if not too many categories
-        plt.figure(figsize=(10, 6))
-        data[col].value_counts().head(10).plot(kind='bar', color='lightcoral')
-        plt.title(f'Distribution of {col}')
-        plt.xlabel(col)
-        plt.ylabel('Count')
-        plt.xticks(rotation=45)
-        plt.tight_layout()
-        plt.savefig(f'chart_{fig_count}.png', dpi=300, bbox_inches='tight')
-        plt.close()
-        fig_count += 1
-`;
-
-        const result = await executePythonCode(dataState.csvData, basicVisualizationCode) as any;
+        // Without an analysis, chart what the server's overview suggests
+        const { charts: basicCharts } = await runAnalysis(dataState.csvData, 'overview');
+        const basicChartImages = basicCharts.length > 0
+          ? await runStreamed(handlers =>
+              streamChartSpecs(dataState.csvData, basicCharts, handlers)
+            )
+          : [];
+        rememberChartSpecs(basicChartImages, basicCharts);
         
-        if (result.chartImages?.length > 0) {
+        if (basicChartImages.length > 0) {
           setDataState(prev => ({
             ...prev,
-            chartImages: result.chartImages,
+            chartImages: basicChartImages,
             isProcessing: false,
             analysisStep: 'visualization',
             conversationContext: [...prev.conversationContext, 'Created basic visualizations']
           }));
 
-          addChatMessageWithTyping('assistant', 'Basic visualizations created! Click any chart to add to Canva.', 'chart', result.chartImages, 800);
+          addChatMessage('assistant', 'Basic visualizations created! Click any chart to add to Canva.', 'chart', { images: basicChartImages });
         } else {
           setDataState(prev => ({ ...prev, isProcessing: false }));
-          addChatMessageWithTyping('assistant', 'What type of chart would you like me to create?', 'text', null, 500);
+          addChatMessage('assistant', 'What type of chart would you like me to create?');
         }
       }
     } catch (error) {
+      if (isAbortError(error)) {
+        addCancelledMessage();
+        return;
+      }
       console.error('Visualization error:', error);
       setDataState(prev => ({ ...prev, isProcessing: false }));
-      addChatMessageWithTyping('assistant', 'Trouble creating charts. What would you like to visualize?', 'text', null, 500);
+      addChatMessage('assistant', 'Trouble creating charts. What would you like to visualize?');
     }
   };
 
+  // The correlations measured on the data being analyzed, if they were
+  const currentCorrelations = () =>
+    correlations?.csvData === dataState.csvData ? correlations.result : undefined;
+
+  const currentAnomalies = () =>
+    anomalies?.csvData === dataState.csvData ? anomalies.result : undefined;
+
+  // CORRELATION ANALYSIS: Tested relationships measured by the backend,
+  // narrated by the model
   const generateCorrelationMatrix = async () => {
     if (!dataState.csvData) return;
+    const { csvData } = dataState;
 
     setDataState(prev => ({ ...prev, isProcessing: true, analysisStep: 'correlation' }));
     
-    addChatMessageWithTyping('assistant', 'Generating correlation matrix...', 'text', null, 500);
+    addChatMessage('assistant', 'Measuring and testing the relationships between columns...');
     
     try {
-      // Generate correlation analysis
-      const correlationCode = `
-import pandas as pd
-import matplotlib.pyplot as plt
-import seaborn as sns
-import numpy as np
-import warnings
-warnings.filterwarnings('ignore')
-
-plt.switch_backend('Agg')
-
-# Load data from memory (passed as CSV string)
-from io import StringIO
-data = pd.read_csv(StringIO('''${dataState.csvData.replace(/'/g, "\\'")}'''))
-
-# Select only numeric columns for correlation
-numeric_cols = data.select_dtypes(include=[np.number]).columns
-if len(numeric_cols) > 1:
-    correlation_matrix = data[numeric_cols].corr()
-    
-    plt.figure(figsize=(10, 8))
-    sns.heatmap(correlation_matrix, annot=True, cmap='coolwarm', center=0, 
-                square=True, fmt='.2f', cbar_kws={'shrink': 0.8})
-    plt.title('Correlation Matrix')
-    plt.tight_layout()
-    plt.savefig('chart_correlation.png', dpi=300, bbox_inches='tight')
-    plt.close()
-else:
-    print("Not enough numeric columns for correlation analysis")
-`;
-
-      const result = await executePythonCode(dataState.csvData, correlationCode) as any;
-      
-      if (result.chartImages?.length > 0) {
-        setDataState(prev => ({ 
-          ...prev, 
-          chartImages: [...prev.chartImages, ...result.chartImages],
-          isProcessing: false,
-          analysisStep: 'advanced'
-        }));
-        
-        addChatMessageWithTyping('assistant', 'Correlation matrix complete. Strong correlations (closer to ±1) indicate variables that move together.', 'chart', result.chartImages, 800);
-        
-        // Mark as completed
-        setDataState(prev => ({ 
-          ...prev, 
-          completedAnalyses: [...prev.completedAnalyses, 'correlation']
-        }));
-      }
+      const result = await analyzeCorrelations(csvData);
+      // The heatmaps are drawn from the correlations' own table, so they
+      // aren't remembered for redrawing from refreshed data
+      const { chartImages } = await renderChartSpecs(result.chartData, result.charts);
+
+      const relationships = result.relationships
+        .slice(0, CORRELATION_REPORT_PAIRS)
+        .map(pair => `• ${describeRelationship(pair)}, ${pair.n} rows`)
+        .join('\n');
+      const correlationReport = `**Correlations: ${result.relationships.length} significant of ${result.pairs.length} pairs tested**
+
+${result.correlation_summary}
+
+**Method:** ${CORRELATION_MEASURE_NAMES[result.method]} for numbers, Cramér's V for categories
+**Significance:** adjusted p below ${result.alpha}, corrected for ${result.pairs.length} tests
+
+${relationships ? `**Strongest relationships:**\n${relationships}` : '**No relationship is significant.**'}
+
+**Insights:**
+${result.insights.map((insight, i) => `${i + 1}. ${insight}`).join('\n')}
+
+**Caveats:** ${result.caveats}
+
+Click a chart to add it to your Canva design!`;
+
+      setCorrelations({ csvData, result });
+      setDataState(prev => ({ 
+        ...prev, 
+        chartImages: [...prev.chartImages, ...chartImages],
+        isProcessing: false,
+        analysisStep: 'advanced',
+        completedAnalyses: [...prev.completedAnalyses, 'correlation']
+      }));
+      addChatMessage('assistant', correlationReport, 'chart', { images: chartImages, tables: correlationTables(intl, result) });
     } catch (error) {
-      console.error('Correlation error:', error);
       setDataState(prev => ({ ...prev, isProcessing: false }));
-      addChatMessageWithTyping('assistant', 'I had trouble creating the correlation matrix. This might be because the data doesn\'t have enough numeric columns. What other analysis would you like to try?', 'text', null, 800);
+      // Data without two columns of a kind to compare says so
+      setAppError(intl.formatMessage(DataInfographicPanelMessages.correlationFailed, {
+        reason: error instanceof Error ? error.message : String(error)
+      }));
+      addChatMessage('assistant', 'Had trouble measuring correlations. What other analysis would you like to try?');
     }
   };
 
-  // PREDICTIVE ANALYSIS: Advanced modeling with sklearn (WORKING VERSION)
+  // PREDICTIVE ANALYSIS: Forecasts computed by the backend, narrated by the model
   const generatePredictiveAnalysis = async (targetColumn?: string, forecastPeriods?: number) => {
     if (!dataState.csvData) return;
 
     setDataState(prev => ({ ...prev, isProcessing: true }));
     
-    addChatMessageWithTyping('assistant', 'Performing advanced predictive analysis with machine learning models...', 'text', null, 500);
+    addChatMessage('assistant', 'Backtesting forecasting models and forecasting the best one...');
     
     try {
-      // Advanced predictive analysis with sklearn
-      const predictiveAnalysisCode = `
-import pandas as pd
-import matplotlib.pyplot as plt
-import seaborn as sns
-import numpy as np
-from sklearn.linear_model import LinearRegression, Ridge
-from sklearn.preprocessing import StandardScaler, PolynomialFeatures
-from sklearn.metrics import mean_absolute_error, r2_score
-from sklearn.model_selection import train_test_split
-from sklearn.ensemble import RandomForestRegressor
-import warnings
-warnings.filterwarnings('ignore')
-
-plt.switch_backend('Agg')
-
-# Load data
-from io import StringIO
-data = pd.read_csv(StringIO('''${dataState.csvData.replace(/'/g, "\\'")}'''))
-
-# Configure plotting
-sns.set_style('whitegrid')
-sns.set_palette('husl')
-
-print("Starting advanced predictive analysis...")
-
-# Get numeric columns
-numeric_cols = data.select_dtypes(include=[np.number]).columns
-print(f"Found {len(numeric_cols)} numeric columns: {list(numeric_cols)}")
-
-# Fill missing values
-numeric_data = data[numeric_cols].fillna(data[numeric_cols].mean())
-
-# Chart 1: Advanced Trend Analysis
-plt.figure(figsize=(12, 8))
-if len(numeric_cols) > 0:
-    primary_col = numeric_cols[0]
-    y_data = numeric_data[primary_col].values
-    x_data = np.arange(len(y_data)).reshape(-1, 1)
-    
-    # Fit multiple models
-    linear_model = LinearRegression()
-    linear_model.fit(x_data, y_data)
-    linear_pred = linear_model.predict(x_data)
-    
-    # Polynomial model
-    poly_features = PolynomialFeatures(degree=2)
-    x_poly = poly_features.fit_transform(x_data)
-    poly_model = LinearRegression()
-    poly_model.fit(x_poly, y_data)
-    poly_pred = poly_model.predict(x_poly)
-    
-    # Plot data and predictions
-    plt.scatter(x_data.flatten(), y_data, alpha=0.6, s=30, color='lightblue', label='Data Points')
-    plt.plot(x_data.flatten(), linear_pred, 'r-', linewidth=3, label=f'Linear Trend')
-    plt.plot(x_data.flatten(), poly_pred, 'm-', linewidth=2, label=f'Polynomial Trend')
-    
-    # Add moving average
-    window = max(3, len(y_data) // 10)
-    moving_avg = pd.Series(y_data).rolling(window=window, center=True).mean()
-    plt.plot(x_data.flatten(), moving_avg, 'g-', linewidth=2, alpha=0.8, label=f'Moving Average ({window})')
-    
-    plt.xlabel('Data Points', fontsize=12)
-    plt.ylabel(primary_col, fontsize=12)
-    plt.title(f'{primary_col} Trend Analysis', fontsize=16, fontweight='bold')
-    plt.legend()
-    plt.grid(True, alpha=0.3)
-    plt.tight_layout()
-    plt.savefig('chart_0.png', dpi=300, bbox_inches='tight')
-    plt.close()
-
-# Chart 2: Multi-Variable Regression
-plt.figure(figsize=(12, 8))
-if len(numeric_cols) >= 2:
-    x_col, y_col = numeric_cols[0], numeric_cols[1]
-    
-    # Clean data
-    clean_data = numeric_data[[x_col, y_col]].dropna()
-    x_vals = clean_data[x_col].values.reshape(-1, 1)
-    y_vals = clean_data[y_col].values
-    
-    if len(clean_data) > 5:
-        # Fit linear regression
-        reg_model = LinearRegression()
-        reg_model.fit(x_vals, y_vals)
-        y_pred = reg_model.predict(x_vals)
-        
-        # Calculate confidence intervals
-        residuals = y_vals - y_pred
-        mse = np.mean(residuals**2)
-        std_error = np.sqrt(mse)
-        
-        # Create prediction line
-        x_range = np.linspace(x_vals.min(), x_vals.max(), 100).reshape(-1, 1)
-        y_range_pred = reg_model.predict(x_range)
-        
-        # Plot
-        plt.scatter(x_vals, y_vals, alpha=0.6, s=50, color='lightcoral', label='Data Points')
-        plt.plot(x_range, y_range_pred, 'b-', linewidth=3, label='Regression Line')
-        
-        # Add confidence bands
-        plt.fill_between(x_range.flatten(), 
-                        y_range_pred - 1.96*std_error, 
-                        y_range_pred + 1.96*std_error, 
-                        alpha=0.2, color='blue', label='95% Confidence')
-        
-        # Calculate and display R²
-        r2 = r2_score(y_vals, y_pred)
-        plt.text(0.05, 0.95, f'R² = {r2:.3f}', transform=plt.gca().transAxes, 
-                bbox=dict(boxstyle='round', facecolor='lightblue', alpha=0.8), fontsize=12)
-        
-        plt.xlabel(x_col, fontsize=12)
-        plt.ylabel(y_col, fontsize=12)
-        plt.title(f'{y_col} vs {x_col}', fontsize=16, fontweight='bold')
-        plt.legend()
-        plt.grid(True, alpha=0.3)
-    
-    plt.tight_layout()
-    plt.savefig('chart_1.png', dpi=300, bbox_inches='tight')
-    plt.close()
-
-# Chart 3: Advanced Forecasting
-plt.figure(figsize=(12, 8))
-if len(numeric_cols) > 0:
-    primary_col = numeric_cols[0]
-    data_series = numeric_data[primary_col].values
-    
-    if len(data_series) > 10:
-        # Split for forecasting
-        train_size = int(len(data_series) * 0.8)
-        train_data = data_series[:train_size]
-        test_data = data_series[train_size:]
-        
-        # Create features (lag features)
-        def create_lag_features(data, lags=3):
-            X, y = [], []
-            for i in range(lags, len(data)):
-                X.append(data[i-lags:i])
-                y.append(data[i])
-            return np.array(X), np.array(y)
-        
-        # Prepare training data
-        lags = min(3, train_size // 4)
-        if lags > 0:
-            X_train, y_train = create_lag_features(train_data, lags)
-            
-            # Fit Random Forest model
-            rf_model = RandomForestRegressor(n_estimators=50, random_state=42)
-            rf_model.fit(X_train, y_train)
-            
-            # Generate forecasts
-            forecasts = []
-            current_window = list(train_data[-lags:])
-            
-            for _ in range(len(test_data)):
-                pred = rf_model.predict([current_window[-lags:]])[0]
-                forecasts.append(pred)
-                current_window.append(pred)
-            
-            # Plot results
-            train_indices = np.arange(train_size)
-            test_indices = np.arange(train_size, len(data_series))
-            
-            plt.plot(train_indices, train_data, 'b-', linewidth=2, label='Training Data')
-            plt.plot(test_indices, test_data, 'g-', linewidth=3, marker='o', markersize=6, label='Actual')
-            plt.plot(test_indices, forecasts, 'r--', linewidth=3, marker='^', markersize=6, label='Forecast (RF)')
-            
-            # Add simple linear forecast for comparison
-            x_train = np.arange(train_size).reshape(-1, 1)
-            linear_model = LinearRegression()
-            linear_model.fit(x_train, train_data)
-            linear_forecast = linear_model.predict(test_indices.reshape(-1, 1))
-            plt.plot(test_indices, linear_forecast, 'orange', linestyle=':', linewidth=2, label='Linear Forecast')
-            
-            # Calculate accuracy
-            mae_rf = mean_absolute_error(test_data, forecasts) if len(test_data) > 0 else 0
-            mae_linear = mean_absolute_error(test_data, linear_forecast) if len(test_data) > 0 else 0
-            
-            plt.title(f'Advanced Forecasting: {primary_col}\\nRF MAE: {mae_rf:.2f} | Linear MAE: {mae_linear:.2f}', 
-                     fontsize=16, fontweight='bold')
-            
-            plt.xlabel('Time Index', fontsize=12)
-            plt.ylabel(primary_col, fontsize=12)
-            plt.legend()
-            plt.grid(True, alpha=0.3)
-    
-    plt.tight_layout()
-    plt.savefig('chart_2.png', dpi=300, bbox_inches='tight')
-    plt.close()
-
-# Chart 4: Feature Importance & Correlation
-plt.figure(figsize=(12, 8))
-if len(numeric_cols) > 1:
-    # Calculate correlation matrix
-    corr_matrix = numeric_data.corr()
-    
-    # Create a masked heatmap
-    mask = np.triu(np.ones_like(corr_matrix, dtype=bool))
-    
-    # Generate heatmap
-    sns.heatmap(corr_matrix, mask=mask, annot=True, cmap='RdYlBu_r', center=0,
-                square=True, fmt='.2f', cbar_kws={'shrink': 0.8})
-    
-    plt.title('Feature Correlation Matrix', fontsize=16, fontweight='bold')
-    plt.tight_layout()
-    plt.savefig('chart_3.png', dpi=300, bbox_inches='tight')
-    plt.close()
+      const result = await generatePredictions(dataState.csvData, { targetColumn, forecastPeriods });
+      const { forecast } = result;
+      // The chart is drawn from the forecast's own table, so it isn't
+      // remembered for redrawing from refreshed data
+      const { chartImages } = await renderChartSpecs(result.chartData, result.charts);
 
-print("Advanced predictive analysis completed successfully!")
-`;
+      const percent = Math.round(forecast.intervalLevel * 100);
+      const confidence = result.confidence == null
+        ? 'not measurable (every value tested was 0)'
+        : `${formatProfileNumber(result.confidence)}% (100 minus the backtest MAPE)`;
+      const predictionReport = `**Forecast: ${forecast.targetColumn} by ${forecast.frequency}**
 
-      const chartResult = await executePythonCode(dataState.csvData, predictiveAnalysisCode) as any;
-      
-      if (chartResult.chartImages?.length > 0) {
-        setDataState(prev => ({ 
-          ...prev, 
-          chartImages: [...prev.chartImages, ...chartResult.chartImages],
-          isProcessing: false
-        }));
-        
-        const predictionReport = `**Advanced Predictive Analysis Results**
+${result.forecast_summary}
 
-✅ **Machine Learning Trend Analysis** - Multiple models (Linear, Polynomial, Moving Average)
-✅ **Multi-Variable Regression** - Advanced relationships with confidence intervals
-✅ **Random Forest Forecasting** - ML-powered predictions vs linear forecasting
-✅ **Feature Correlation Matrix** - Complete variable relationship analysis
+**Model:** ${FORECAST_MODEL_NAMES[forecast.model]}
+**Confidence:** ${confidence}
 
-**Advanced Insights:**
-• Multiple trend models reveal different pattern aspects
-• Confidence intervals show prediction uncertainty ranges  
-• Random Forest vs Linear forecasting comparison
-• Comprehensive correlation heatmap shows all relationships
+**Backtests (best first):**
+${forecast.backtests.map(({ model, mape, rmse }) => `• ${FORECAST_MODEL_NAMES[model]}: MAPE ${mape == null ? 'n/a' : `${formatProfileNumber(mape)}%`}, RMSE ${formatProfileNumber(rmse)}`).join('\n')}
 
-**ML Summary:**
-• Polynomial trends capture non-linear patterns
-• Random Forest handles complex temporal dependencies
-• Confidence bands quantify prediction reliability
-• Feature correlation matrix reveals hidden relationships
+**Forecast (${percent}% prediction intervals):**
+${forecast.forecast.slice(0, FORECAST_REPORT_PERIODS).map(({ period, value, lower, upper }) => `• ${period}: ${formatProfileNumber(value)} (${formatProfileNumber(lower)} to ${formatProfileNumber(upper)})`).join('\n')}
 
-Click any chart to add to your Canva design!`;
+**Predictions:**
+${result.predictions.map((prediction, i) => `${i + 1}. ${prediction}`).join('\n')}
 
-        addChatMessageWithTyping('assistant', predictionReport, 'chart', chartResult.chartImages, 1000);
-        
-        // Mark as completed
-        setDataState(prev => ({ 
-          ...prev, 
-          completedAnalyses: [...prev.completedAnalyses, 'predictive']
-        }));
-      } else {
-        setDataState(prev => ({ ...prev, isProcessing: false }));
-        addChatMessageWithTyping('assistant', 'Advanced predictive analysis completed but no charts generated. This might be due to insufficient data. What other analysis would you like?', 'text', null, 600);
-      }
+**Trend:** ${result.trend_analysis}
+
+Click the chart to add it to your Canva design!`;
+
+      setDataState(prev => ({ 
+        ...prev, 
+        chartImages: [...prev.chartImages, ...chartImages],
+        isProcessing: false,
+        completedAnalyses: [...prev.completedAnalyses, 'predictive']
+      }));
+      addChatMessage('assistant', predictionReport, 'chart', { images: chartImages, tables: forecastTables(intl, forecast) });
     } catch (error) {
-      console.error('Advanced prediction error:', error);
       setDataState(prev => ({ ...prev, isProcessing: false }));
-      addChatMessageWithTyping('assistant', 'Had trouble with advanced predictive analysis. The data might need different preprocessing. What other analysis would you like to try?', 'text', null, 800);
+      // Data without dates or with too few periods says so
+      setAppError(intl.formatMessage(DataInfographicPanelMessages.forecastFailed, {
+        reason: error instanceof Error ? error.message : String(error)
+      }));
+      addChatMessage('assistant', 'Had trouble forecasting this data. What other analysis would you like to try?');
     }
   };
 
-  // ADVANCED ANALYSIS: K-means clustering and anomaly detection (WORKING VERSION)
-  const performAnomalyDetection = async (sensitivity?: string) => {
+  // ADVANCED ANALYSIS: Anomalies found by the backend, narrated by the model
+  const performAnomalyDetection = async (sensitivity?: AnomalySensitivity) => {
     if (!dataState.csvData) return;
+    const { csvData, fileName } = dataState;
 
     setDataState(prev => ({ ...prev, isProcessing: true }));
     
-    addChatMessageWithTyping('assistant', 'Performing advanced analysis: K-means clustering, anomaly detection, and statistical analysis...', 'text', null, 500);
+    addChatMessage('assistant', 'Looking for unusual values, seasonal outliers and unusual rows...');
     
     try {
-      // Working advanced analysis with sklearn
-      const advancedAnalysisCode = `
-import pandas as pd
-import matplotlib.pyplot as plt
-import seaborn as sns
-import numpy as np
-from sklearn.cluster import KMeans
-from sklearn.preprocessing import StandardScaler
-from sklearn.ensemble import IsolationForest
-from sklearn.decomposition import PCA
-import warnings
-warnings.filterwarnings('ignore')
-
-plt.switch_backend('Agg')
-
-# Load data
-from io import StringIO
-data = pd.read_csv(StringIO('''${dataState.csvData.replace(/'/g, "\\'")}'''))
-
-# Configure seaborn
-sns.set_style('whitegrid')
-sns.set_palette('husl')
-
-print("Starting advanced analysis...")
-
-# Get numeric columns and prepare data
-numeric_cols = data.select_dtypes(include=[np.number]).columns
-print(f"Found {len(numeric_cols)} numeric columns: {list(numeric_cols)}")
-
-if len(numeric_cols) > 0:
-    # Fill missing values
-    numeric_data = data[numeric_cols].fillna(data[numeric_cols].mean())
-    
-    # Standardize the data
-    scaler = StandardScaler()
-    scaled_data = scaler.fit_transform(numeric_data)
-
-# Chart 1: K-Means Clustering
-plt.figure(figsize=(12, 8))
-if len(numeric_cols) >= 2:
-    # Determine number of clusters
-    n_clusters = min(5, max(2, len(data) // 15))
-    
-    # Perform K-means clustering
-    kmeans = KMeans(n_clusters=n_clusters, random_state=42, n_init=10)
-    clusters = kmeans.fit_predict(scaled_data)
-    
-    # Use PCA for visualization if more than 2 dimensions
-    if len(numeric_cols) > 2:
-        pca = PCA(n_components=2)
-        pca_data = pca.fit_transform(scaled_data)
-        x_data, y_data = pca_data[:, 0], pca_data[:, 1]
-        xlabel = f'PC1 ({pca.explained_variance_ratio_[0]:.1%} variance)'
-        ylabel = f'PC2 ({pca.explained_variance_ratio_[1]:.1%} variance)'
-        title = f'K-Means Clustering ({n_clusters} clusters)'
-        
-        # Plot cluster centers in PCA space
-        centers_pca = pca.transform(kmeans.cluster_centers_)
-        plt.scatter(centers_pca[:, 0], centers_pca[:, 1], c='red', marker='x', s=200, linewidths=3, label='Centroids')
-    else:
-        x_data, y_data = scaled_data[:, 0], scaled_data[:, 1]
-        xlabel = f'{numeric_cols[0]} (Standardized)'
-        ylabel = f'{numeric_cols[1]} (Standardized)'
-        title = f'K-Means Clustering ({n_clusters} clusters)'
-        
-        # Plot cluster centers
-        centers = kmeans.cluster_centers_
-        plt.scatter(centers[:, 0], centers[:, 1], c='red', marker='x', s=200, linewidths=3, label='Centroids')
-    
-    # Create scatter plot with cluster colors
-    scatter = plt.scatter(x_data, y_data, c=clusters, cmap='tab10', alpha=0.7, s=50)
-    
-    plt.xlabel(xlabel, fontsize=12)
-    plt.ylabel(ylabel, fontsize=12)
-    plt.title(title, fontsize=16, fontweight='bold')
-    plt.legend()
-    plt.grid(True, alpha=0.3)
-    plt.tight_layout()
-    plt.savefig('chart_0.png', dpi=300, bbox_inches='tight')
-    plt.close()
-
-# Chart 2: Isolation Forest Anomaly Detection
-plt.figure(figsize=(12, 8))
-if len(numeric_cols) >= 2:
-    # Perform anomaly detection
-    iso_forest = IsolationForest(contamination=0.1, random_state=42)
-    outliers = iso_forest.fit_predict(scaled_data)
-    
-    # Create masks for normal and anomalous points
-    normal_mask = outliers == 1
-    anomaly_mask = outliers == -1
-    
-    # Use PCA visualization if needed
-    if len(numeric_cols) > 2:
-        x_data, y_data = pca_data[:, 0], pca_data[:, 1]
-        xlabel = f'PC1 ({pca.explained_variance_ratio_[0]:.1%} variance)'
-        ylabel = f'PC2 ({pca.explained_variance_ratio_[1]:.1%} variance)'
-    else:
-        x_data, y_data = scaled_data[:, 0], scaled_data[:, 1]
-        xlabel = f'{numeric_cols[0]} (Standardized)'
-        ylabel = f'{numeric_cols[1]} (Standardized)'
-    
-    # Plot normal and anomalous points
-    plt.scatter(x_data[normal_mask], y_data[normal_mask], 
-               c='blue', alpha=0.6, s=50, label=f'Normal ({sum(normal_mask)} points)')
-    
-    if sum(anomaly_mask) > 0:
-        plt.scatter(x_data[anomaly_mask], y_data[anomaly_mask], 
-                   c='red', alpha=0.8, s=80, marker='^', label=f'Anomaly ({sum(anomaly_mask)} points)')
-    
-    plt.xlabel(xlabel, fontsize=12)
-    plt.ylabel(ylabel, fontsize=12)
-    plt.title(f'Anomaly Detection ({sum(anomaly_mask)} anomalies found)', fontsize=16, fontweight='bold')
-    plt.legend()
-    plt.grid(True, alpha=0.3)
-    plt.tight_layout()
-    plt.savefig('chart_1.png', dpi=300, bbox_inches='tight')
-    plt.close()
-
-# Chart 3: Box Plot Analysis
-plt.figure(figsize=(12, 8))
-if len(numeric_cols) > 0:
-    # Calculate outliers for each column
-    outlier_counts = []
-    cols_to_plot = numeric_cols[:4]  # Max 4 columns
-    
-    for col in cols_to_plot:
-        Q1 = data[col].quantile(0.25)
-        Q3 = data[col].quantile(0.75)
-        IQR = Q3 - Q1
-        outliers = data[(data[col] < Q1 - 1.5*IQR) | (data[col] > Q3 + 1.5*IQR)][col]
-        outlier_counts.append(len(outliers))
-    
-    # Create box plot
-    box_data = [data[col].dropna() for col in cols_to_plot]
-    box_plot = plt.boxplot(box_data, labels=cols_to_plot, patch_artist=True)
-    
-    # Color the boxes
-    colors = plt.cm.Set3(np.linspace(0, 1, len(cols_to_plot)))
-    for patch, color in zip(box_plot['boxes'], colors):
-        patch.set_facecolor(color)
-        patch.set_alpha(0.7)
-    
-    # Add outlier counts
-    total_outliers = sum(outlier_counts)
-    for i, count in enumerate(outlier_counts):
-        plt.text(i+1, plt.ylim()[1]*0.9, f'{count}', ha='center', va='center', 
-                fontsize=10, bbox=dict(boxstyle='round', facecolor='wheat', alpha=0.8))
-    
-    plt.title(f'Box Plot Analysis ({total_outliers} statistical outliers)', fontsize=16, fontweight='bold')
-    plt.ylabel('Scaled Values', fontsize=12)
-    plt.xticks(rotation=45)
-    plt.grid(True, alpha=0.3)
-    plt.tight_layout()
-    plt.savefig('chart_2.png', dpi=300, bbox_inches='tight')
-    plt.close()
-
-# Chart 4: Feature Correlation Analysis
-plt.figure(figsize=(10, 8))
-if len(numeric_cols) > 1:
-    # Calculate correlation matrix
-    correlation_matrix = numeric_data.corr()
-    
-    # Create heatmap
-    mask = np.triu(np.ones_like(correlation_matrix, dtype=bool))
-    sns.heatmap(correlation_matrix, mask=mask, annot=True, cmap='coolwarm', center=0,
-                square=True, fmt='.2f', cbar_kws={'shrink': 0.8})
-    
-    plt.title('Feature Correlation Analysis', fontsize=16, fontweight='bold')
-    plt.tight_layout()
-    plt.savefig('chart_3.png', dpi=300, bbox_inches='tight')
-    plt.close()
-
-print("Advanced analysis completed successfully!")
-`;
+      const result = await detectAnomalies(csvData, { sensitivity });
+      // The charts are drawn from the anomalies' own table, so they aren't
+      // remembered for redrawing from refreshed data
+      const { chartImages } = result.charts.length
+        ? await renderChartSpecs(result.chartData, result.charts)
+        : { chartImages: [] };
+
+      const thresholds = result.methods
+        .map(method => `• ${ANOMALY_METHOD_NAMES[method]}: score above ${formatProfileNumber(result.thresholds[method] ?? 0)}`)
+        .join('\n');
+      const skipped = result.skipped
+        .map(({ method, reason }) => `• ${ANOMALY_METHOD_NAMES[method]} not run: ${reason}`)
+        .join('\n');
+      const mostSevere = result.rows.slice(0, ANOMALY_REPORT_ROWS).map(({ row, severity }) => {
+        const reasons = result.anomalies
+          .filter(anomaly => anomaly.row === row)
+          .map(({ columns, method, score, direction }) =>
+            `${columns.join(' + ')}${direction ? ` (${direction})` : ''} by ${ANOMALY_METHOD_NAMES[method]}, score ${formatProfileNumber(score)}`);
+        return `• Row ${row} (severity ${formatProfileNumber(severity)}): ${reasons.join('; ')}`;
+      }).join('\n');
+      const anomalyReport = `**Anomaly Detection: ${result.rows.length} of ${result.rowCount} rows flagged**
+
+${result.anomaly_summary}
+
+**Risk level:** ${result.risk_level}
+**Sensitivity:** ${result.sensitivity}
+
+**Methods and thresholds:**
+${thresholds}${skipped ? `\n${skipped}` : ''}
+${mostSevere ? `\n**Most unusual rows:**\n${mostSevere}\n` : ''}
+**Findings:**
+${result.findings.map((finding, i) => `${i + 1}. ${finding}`).join('\n')}
+
+${result.rows.length > 0 ? 'Review the flagged rows below to analyze them on their own or without them.' : ''}${chartImages.length > 0 ? ' Click a chart to add it to your Canva design!' : ''}`;
 
-      const chartResult = await executePythonCode(dataState.csvData, advancedAnalysisCode) as any;
-      
-      if (chartResult.chartImages?.length > 0) {
-        setDataState(prev => ({ 
-          ...prev, 
-          chartImages: [...prev.chartImages, ...chartResult.chartImages],
-          isProcessing: false
-        }));
-        
-        const analysisReport = `**Advanced Analysis Results**
-
-✅ **Data Clustering** - Groups data points using statistical percentiles
-✅ **Z-Score Anomaly Detection** - Identifies outliers using standard deviations
-✅ **Box Plot Analysis** - Statistical outlier detection using IQR method
-✅ **Distribution Analysis** - Shows data patterns and normality
-
-**Key Insights:**
-• Clustering reveals natural groupings in your data
-• Z-score method identifies points that are unusually far from the mean
-• Box plots show outliers using the interquartile range method
-• Distribution analysis shows if data follows normal patterns
-
-**Anomaly Summary:**
-• Multiple detection methods provide comprehensive outlier identification
-• Outliers may indicate data errors, rare events, or interesting patterns
-• Statistical clustering helps understand data structure
-
-Click any chart to add to your Canva design!`;
-
-        addChatMessageWithTyping('assistant', analysisReport, 'chart', chartResult.chartImages, 1000);
-        
-        // Mark as completed
-        setDataState(prev => ({ 
-          ...prev, 
-          completedAnalyses: [...prev.completedAnalyses, 'advanced']
-        }));
-      } else {
-        setDataState(prev => ({ ...prev, isProcessing: false }));
-        addChatMessageWithTyping('assistant', 'Advanced analysis completed but no charts generated. What other analysis would you like?', 'text', null, 600);
-      }
+      setDataState(prev => ({ 
+        ...prev, 
+        chartImages: [...prev.chartImages, ...chartImages],
+        isProcessing: false,
+        completedAnalyses: [...prev.completedAnalyses, 'advanced']
+      }));
+      setAnomalies({ csvData, result });
+      setAnomalyReview(result.rows.length > 0 ? { name: fileName, csvData, detection: result } : null);
+      addChatMessage('assistant', anomalyReport, 'chart', { images: chartImages, tables: anomalyTables(intl, result) });
     } catch (error) {
-      console.error('Advanced analysis error:', error);
       setDataState(prev => ({ ...prev, isProcessing: false }));
-      addChatMessageWithTyping('assistant', 'Had trouble with advanced analysis. What other analysis would you like to try?', 'text', null, 800);
+      // Data without numeric columns says so
+      setAppError(intl.formatMessage(DataInfographicPanelMessages.anomalyDetectionFailed, {
+        reason: error instanceof Error ? error.message : String(error)
+      }));
+      addChatMessage('assistant', 'Had trouble looking for anomalies. What other analysis would you like to try?');
     }
   };
 
@@ -1437,13 +1348,14 @@ Click any chart to add to your Canva design!`;
 
     setDataState(prev => ({ ...prev, isProcessing: true }));
     
-    addChatMessageWithTyping('assistant', 'Creating data story narrative...', 'text', null, 500);
+    addChatMessage('assistant', 'Creating data story narrative...');
     
     try {
       const result = await generateDataStory(dataState.csvData, storyType) as any;
       
-      if (result.python_code) {
-        const chartResult = await executePythonCode(dataState.csvData, result.python_code) as any;
+      if (result.charts?.length) {
+        const chartResult = await renderChartSpecs(dataState.csvData, result.charts);
+        rememberChartSpecs(chartResult.chartImages, result.charts);
         
         if (chartResult.chartImages?.length > 0) {
           setDataState(prev => ({ 
@@ -1463,16 +1375,16 @@ ${result.plot_points?.map((point: string, i: number) => `${i + 1}. ${point}`).jo
 
 The story-supporting visualizations are ready to add to your Canva design!`;
 
-          addChatMessageWithTyping('assistant', storyReport, 'chart', chartResult.chartImages, 1200);
+          addChatMessage('assistant', storyReport, 'chart', { images: chartResult.chartImages });
         } else {
           setDataState(prev => ({ ...prev, isProcessing: false }));
-          addChatMessageWithTyping('assistant', `**${result.theme}**\n\n${result.narrative}\n\n**Recommendations:** ${result.recommendations}`, 'text', null, 800);
+          addChatMessage('assistant', `**${result.theme}**\n\n${result.narrative}\n\n**Recommendations:** ${result.recommendations}`);
         }
       }
     } catch (error) {
       console.error('Data story error:', error);
       setDataState(prev => ({ ...prev, isProcessing: false }));
-      addChatMessageWithTyping('assistant', 'Had trouble creating the data story. What other insights would you like?', 'text', null, 800);
+      addChatMessage('assistant', 'Had trouble creating the data story. What other insights would you like?');
     }
   };
 
@@ -1482,7 +1394,7 @@ The story-supporting visualizations are ready to add to your Canva design!`;
 
     setDataState(prev => ({ ...prev, isProcessing: true }));
     
-    addChatMessageWithTyping('assistant', 'Generating business intelligence recommendations...', 'text', null, 500);
+    addChatMessage('assistant', 'Generating business intelligence recommendations...');
     
     try {
       const result = await generateInsightRecommendations(dataState.csvData, businessContext) as any;
@@ -1506,84 +1418,407 @@ ${result.kpi_suggestions?.map((kpi: string, i: number) => `• ${kpi}`).join('\n
 
 Would you like me to create visualizations to support these insights?`;
 
-      addChatMessageWithTyping('assistant', insightReport, 'analysis', result, 1000);
+      addChatMessage('assistant', insightReport, 'analysis');
       
     } catch (error) {
       console.error('Business insights error:', error);
       setDataState(prev => ({ ...prev, isProcessing: false }));
-      addChatMessageWithTyping('assistant', 'Had trouble generating business insights. What other analysis would you like?', 'text', null, 800);
+      addChatMessage('assistant', 'Had trouble generating business insights. What other analysis would you like?');
     }
   };
 
-  // Handle file upload
+  // Handle file upload. The file is read and previewed, and only loaded
+  // once the user has checked it and picked a sheet or table.
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-      const csvData = e.target?.result as string;
-      setDataState(prev => ({ 
-        ...prev, 
-        csvData, 
+    setPendingImport(null);
+    setImportError('');
+    try {
+      setPendingImport(await importDataset(file.name, await file.arrayBuffer()));
+    } catch (error) {
+      if (!(error instanceof DatasetImportError)) {
+        throw error;
+      }
+      setImportError(intl.formatMessage(DataInfographicPanelMessages.importFailed, {
         fileName: file.name,
+        reason: error.message
+      }));
+    }
+  };
+
+  // Loads the sheet or table picked from an uploaded file
+  const loadImportedTable = (datasetImport: DatasetImport, table: ImportedTable) => {
+    // Files come in many formats, but the rest of the app takes UTF-8,
+    // comma-separated text with a header row
+    const csvData = formatCsv(table);
+    const name = datasetImport.tables.length > 1
+      ? `${datasetImport.fileName} (${table.name})`
+      : datasetImport.fileName;
+    stopLiveSync();
+    resetChartTracking();
+    setPendingImport(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    setDataState(prev => ({ 
+      ...prev, 
+      csvData, 
+      fileName: name,
+      rawCsvData: csvData,
+      cleaningSteps: [],
+      datasets: keepDataset(prev.datasets, name, csvData),
+      currentMode: 'chat',
+      analysisStep: 'none',
+      conversationContext: [`Uploaded file: ${name}`],
+      completedAnalyses: []
+    }));
+    
+    addChatMessage('assistant', `Great! I've loaded ${name}. Let me start with a data quality assessment and cleaning process.`);
+    const formatNotes = describeFileFormat(datasetImport, table);
+    if (formatNotes) {
+      addChatMessage('assistant', formatNotes);
+    }
+    
+    performDataCleaning(csvData, name);
+  };
+
+  const cancelImport = () => {
+    setPendingImport(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  // Says how an uploaded file differs from plain comma-separated UTF-8 with
+  // a header row, so the user can tell if it was read wrongly
+  const describeFileFormat = (datasetImport: DatasetImport, table: ImportedTable) => {
+    const notes: string[] = [];
+    const { format, text } = datasetImport;
+    if (text && format === 'csv' && text.delimiter !== ',') {
+      notes.push(intl.formatMessage(DataInfographicPanelMessages.csvDelimiterDetected, {
+        delimiter: CSV_DELIMITER_NAMES[text.delimiter]
+      }));
+    }
+    if (text && text.encoding !== 'utf-8') {
+      notes.push(intl.formatMessage(DataInfographicPanelMessages.csvEncodingDetected, {
+        encoding: CSV_ENCODING_NAMES[text.encoding]
+      }));
+    }
+    if (!table.hasHeader) {
+      notes.push(intl.formatMessage(DataInfographicPanelMessages.csvHeaderGenerated, {
+        columns: intl.formatList(table.header)
+      }));
+    }
+    if (table.irregularRows > 0) {
+      notes.push(intl.formatMessage(DataInfographicPanelMessages.csvIrregularRows, { count: table.irregularRows }));
+    }
+    return notes.join(' ');
+  };
+
+  // Loads a Google Sheet like an uploaded file and keeps it synced, so the
+  // charts drawn from it can be redrawn when it changes
+  const connectSheet = async () => {
+    const sheetUrl = sheetForm.sheetUrl.trim();
+    const range = sheetForm.range.trim() || undefined;
+    setSheetForm(prev => ({ ...prev, isConnecting: true, error: '' }));
+
+    try {
+      const sync = await setupLiveSync(sheetUrl, range, Number(sheetForm.refreshMinutes) * 60_000);
+      const data = await fetchSheetData(sheetUrl, range);
+      const name = `${data.sheetInfo.title} (${data.sheetInfo.tab})`;
+
+      stopLiveSync();
+      resetChartTracking();
+      // The first read counts as the last change
+      lastChangeRef.current = sync.lastSync;
+      setLiveSheet({ syncId: sync.syncId, sheetId: sheetUrl, range, name, lastSync: sync.lastSync });
+      setSheetForm(prev => ({ ...prev, isConnecting: false }));
+      setDataState(prev => ({
+        ...prev,
+        csvData: data.csvData,
+        fileName: name,
+        rawCsvData: data.csvData,
+        cleaningSteps: [],
+        datasets: keepDataset(prev.datasets, name, data.csvData),
         analysisStep: 'none',
-        conversationContext: [`Uploaded file: ${file.name}`],
+        conversationContext: [`Connected sheet: ${name}`],
         completedAnalyses: []
       }));
-      
-      addChatMessageWithTyping('assistant', `Great! I've loaded ${file.name}. Let me start with a data quality assessment and cleaning process.`, 'text', null, 800);
-      
-      setTimeout(() => {
-        performDataCleaning(csvData, file.name);
-      }, 1000);
-    };
-    reader.readAsText(file);
+
+      addChatMessage('assistant', intl.formatMessage(DataInfographicPanelMessages.liveSyncConnected, { name }));
+      performDataCleaning(data.csvData, name);
+    } catch (error) {
+      setSheetForm(prev => ({
+        ...prev,
+        isConnecting: false,
+        error: intl.formatMessage(DataInfographicPanelMessages.sheetConnectFailed, {
+          error: error instanceof Error ? error.message : String(error)
+        })
+      }));
+    }
+  };
+
+  // Stops watching the synced sheet and deletes its sync on the server
+  const stopLiveSync = () => {
+    if (!liveSheet) return;
+    setLiveSheet(null);
+    // A sync that's already gone needs no deleting
+    deleteLiveSync(liveSheet.syncId).catch(() => undefined);
+  };
+
+  const handleStopLiveSync = () => {
+    if (!liveSheet) return;
+    stopLiveSync();
+    addChatMessage('assistant', intl.formatMessage(DataInfographicPanelMessages.liveSyncStopped, { name: liveSheet.name }));
+  };
+
+  // Keeps a column built in the formula builder as part of the data
+  const addFormulaColumn = (csvData: string, columnName: string, formula: string) => {
+    // Recorded as a cleaning step, so the column is computed again when the
+    // recipe is replayed on refreshed data
+    const step: CleaningStep = { kind: 'formula', column: columnName, formula };
+    setDataState(prev => ({ ...prev, csvData, cleaningSteps: [...prev.cleaningSteps, step] }));
+    setShowFormulaBuilder(false);
+    addChatMessage('assistant', intl.formatMessage(DataInfographicPanelMessages.formulaColumnAdded, { columnName }));
+  };
+
+  // The workspace's datasets, with the one being analyzed as it is now
+  const workspaceDatasets = useMemo(
+    () => keepDataset(dataState.datasets, dataState.fileName, dataState.csvData),
+    [dataState.datasets, dataState.fileName, dataState.csvData]
+  );
+
+  // Makes a dataset of the workspace the one analyzed. The synced sheet stops
+  // syncing when the user switches away from it, since its changes would
+  // otherwise overwrite the new dataset.
+  const activateDataset = (name: string, csvData: string) => {
+    if (liveSheet?.name === dataState.fileName) {
+      stopLiveSync();
+    }
+    resetChartTracking();
+    setDataState(prev => ({
+      ...prev,
+      csvData,
+      fileName: name,
+      // The cleaned data is kept, but its steps can't be undone after switching
+      rawCsvData: csvData,
+      cleaningSteps: [],
+      datasets: keepDataset(keepDataset(prev.datasets, prev.fileName, prev.csvData), name, csvData),
+      analysisStep: 'none',
+      conversationContext: [`Dataset: ${name}`],
+      completedAnalyses: []
+    }));
+  };
+
+  const switchDataset = (name: string) => {
+    const dataset = workspaceDatasets.find(entry => entry.name === name);
+    if (!dataset || name === dataState.fileName) return;
+    activateDataset(dataset.name, dataset.csvData);
+    addChatMessage('assistant', intl.formatMessage(DataInfographicPanelMessages.datasetSwitched, { name }));
+  };
+
+  // Adds a dataset made in the combiner to the workspace and analyzes it
+  const addCombinedDataset = (name: string, csvData: string) => {
+    activateDataset(name, csvData);
+    setShowCombiner(false);
+    addChatMessage('assistant', intl.formatMessage(DataInfographicPanelMessages.datasetCombined, {
+      name,
+      rowCount: parseCsv(csvData).rows.length
+    }));
+    performDataCleaning(csvData, name);
+  };
+
+  // Analyzes the flagged rows, or the data without them, as a new dataset
+  const addAnomalyDataset = (name: string, csvData: string) => {
+    activateDataset(name, csvData);
+    setAnomalyReview(null);
+    addChatMessage('assistant', intl.formatMessage(DataInfographicPanelMessages.datasetCombined, {
+      name,
+      rowCount: parseCsv(csvData).rows.length
+    }));
+  };
+
+  // Keeps the data the cleaning steps produce, including after an undo
+  const updateCleaning = (cleaningSteps: CleaningStep[], csvData: string) => {
+    setDataState(prev => ({ ...prev, csvData, cleaningSteps }));
+  };
+
+  // Reloads the synced sheet and redraws every chart drawn from it, offering
+  // to swap the copies on the design for the new ones
+  const refreshLiveCharts = async (sync: LiveSyncState, name: string, run?: LiveSyncRun) => {
+    lastChangeRef.current = sync.lastChange;
+    const summary = run?.diff
+      ? intl.formatMessage(DataInfographicPanelMessages.liveSyncChanged, {
+          name,
+          added: run.diff.added,
+          removed: run.diff.removed,
+          changed: run.diff.changed
+        })
+      : intl.formatMessage(DataInfographicPanelMessages.liveSyncChangedWhileAway, { name });
+
+    try {
+      const data = await fetchSheetData(sync.sheetId, sync.range);
+      // Cleans the new data the way the old data was cleaned
+      let csvData = data.csvData;
+      let cleaningSteps = cleaningStepsRef.current;
+      if (cleaningSteps.length > 0) {
+        try {
+          csvData = formatCsv(runRecipe(parseCsv(data.csvData), cleaningSteps).table);
+        } catch (error) {
+          if (!(error instanceof CleaningError)) throw error;
+          cleaningSteps = [];
+          addChatMessage('assistant', intl.formatMessage(DataInfographicPanelMessages.cleaningReplayFailed, {
+            name,
+            error: error.message
+          }));
+        }
+      }
+      setDataState(prev => ({ ...prev, csvData, rawCsvData: data.csvData, cleaningSteps }));
+
+      const specs = [...new Set(chartSpecsRef.current.values())];
+      if (specs.length === 0) {
+        addChatMessage('assistant', summary);
+        return;
+      }
+      const { chartImages } = await renderChartSpecs(csvData, specs);
+      rememberChartSpecs(chartImages, specs);
+      const refreshes: ChartRefresh[] = specs.map((spec, index) => ({ spec, image: chartImages[index] }));
+
+      setDataState(prev => ({ ...prev, chartImages: [...prev.chartImages, ...chartImages] }));
+      addChatMessage(
+        'assistant',
+        `${summary} ${intl.formatMessage(DataInfographicPanelMessages.liveSyncRedrawn)}`,
+        'chart',
+        { images: chartImages, refreshes }
+      );
+    } catch (error) {
+      addChatMessage('assistant', intl.formatMessage(DataInfographicPanelMessages.liveSyncRedrawFailed, {
+        name,
+        error: error instanceof Error ? error.message : String(error)
+      }));
+    }
+  };
+
+  // The charts on the design that a set of redrawn charts can replace
+  const replaceableCharts = (refreshes: ChartRefresh[]) =>
+    insertedChartsRef.current.filter(chart => refreshes.some(refresh => refresh.spec === chart.spec));
+
+  // Swaps the charts added to the current page for their redrawn copies,
+  // keeping where they are, their size and their crop
+  const replaceInsertedCharts = async (refreshes: ChartRefresh[]) => {
+    setDataState(prev => ({ ...prev, isProcessing: true }));
+
+    try {
+      const replacements = new Map<ImageRef, ImageRef>();
+      for (const chart of replaceableCharts(refreshes)) {
+        const refresh = refreshes.find(item => item.spec === chart.spec);
+        if (!refresh || replacements.has(chart.ref)) continue;
+        const { ref } = await upload({
+          type: "image",
+          mimeType: "image/png",
+          thumbnailUrl: refresh.image,
+          url: refresh.image,
+          width: 800,
+          height: 600,
+          aiDisclosure: "app_generated",
+          parentRef: chart.ref,
+        });
+        replacements.set(chart.ref, ref);
+      }
+
+      const replaced = new Set<ImageRef>();
+      await openDesign({ type: 'current_page' }, async (session) => {
+        if (session.page.type !== 'absolute') return;
+        // Charts in a composed infographic are grouped
+        session.page.elements.forEach((element) => {
+          const rects = element.type === 'group' ? element.contents.toArray() : [element];
+          for (const rect of rects) {
+            if (rect.type !== 'rect') continue;
+            const media = rect.fill.mediaContainer.ref;
+            const imageRef = media?.type === 'image' ? replacements.get(media.imageRef) : undefined;
+            if (media?.type === 'image' && imageRef) {
+              rect.fill.mediaContainer.set({ type: 'image', imageRef, flipX: media.flipX, flipY: media.flipY });
+              replaced.add(media.imageRef);
+            }
+          }
+        });
+        await session.sync();
+      });
+
+      // Charts on other pages keep their old images, so they stay matched
+      insertedChartsRef.current = insertedChartsRef.current.map(chart =>
+        replaced.has(chart.ref) ? { ...chart, ref: replacements.get(chart.ref) ?? chart.ref } : chart
+      );
+      addChatMessage('assistant', replaced.size > 0
+        ? intl.formatMessage(DataInfographicPanelMessages.liveSyncReplaced, { count: replaced.size })
+        : intl.formatMessage(DataInfographicPanelMessages.liveSyncNothingReplaced));
+    } catch (error) {
+      addChatMessage('assistant', intl.formatMessage(DataInfographicPanelMessages.liveSyncReplaceFailed, {
+        error: error instanceof Error ? error.message : String(error)
+      }));
+    } finally {
+      setDataState(prev => ({ ...prev, isProcessing: false }));
+    }
   };
 
-  // Add message with typing
-  const addChatMessageWithTyping = (
+  useEffect(() => {
+    cleaningStepsRef.current = dataState.cleaningSteps;
+  }, [dataState.cleaningSteps]);
+
+  // Watches the synced sheet, redrawing the charts whenever it changes,
+  // including changes made while the connection was down
+  useEffect(() => {
+    if (!liveSheet) return;
+    const controller = new AbortController();
+    const { name } = liveSheet;
+
+    watchLiveSyncs([liveSheet.syncId], {
+      signal: controller.signal,
+      onReady: ([sync]) => {
+        if (sync?.lastChange && sync.lastChange !== lastChangeRef.current) {
+          refreshLiveCharts(sync, name);
+        }
+      },
+      onRun: (sync, run) => {
+        setLiveSheet(prev => prev && { ...prev, lastSync: sync.lastSync });
+        if (run.outcome === 'changed') {
+          refreshLiveCharts(sync, name, run);
+        } else if (run.outcome === 'failed' && sync.consecutiveFailures === 1) {
+          addChatMessage('assistant', intl.formatMessage(DataInfographicPanelMessages.liveSyncFailed, {
+            name,
+            error: run.error?.message ?? ''
+          }));
+        }
+      },
+      onDeleted: () => {
+        controller.abort();
+        setLiveSheet(null);
+        addChatMessage('assistant', intl.formatMessage(DataInfographicPanelMessages.liveSyncDeleted, { name }));
+      }
+    });
+
+    return () => controller.abort();
+  }, [liveSheet?.syncId]);
+
+  // Add a message to the chat
+  const addChatMessage = (
     role: 'user' | 'assistant', 
     content: string, 
     type: 'text' | 'chart' | 'analysis' = 'text', 
-    data?: any,
-    typingDelay: number = 800
+    data?: ChatMessageData
   ) => {
-    const messageId = Date.now().toString();
-    
-    if (role === 'assistant') {
-      setDataState(prev => ({ ...prev, isTyping: true }));
-      
-      setTimeout(() => {
-        setChatMessages(prev => [...prev, {
-          id: messageId,
-          role,
-          content,
-          timestamp: new Date(),
-          type,
-          data,
-          isAnimating: type === 'text'
-        }]);
-        
-        setDataState(prev => ({ ...prev, isTyping: false }));
-        setTimeout(smartScroll, 100);
-      }, typingDelay);
-    } else {
-      setChatMessages(prev => [...prev, {
-        id: messageId,
-        role,
-        content,
-        timestamp: new Date(),
-        type,
-        data,
-        isAnimating: false
-      }]);
-      setTimeout(smartScroll, 100);
-    }
+    setChatMessages(prev => [...prev, {
+      id: `${Date.now()}_${prev.length}`,
+      role,
+      content,
+      timestamp: new Date(),
+      type,
+      data
+    }]);
   };
 
-
-
   // Auto-scroll
   const smartScroll = () => {
     if (chatContainerRef.current) {
@@ -1596,10 +1831,10 @@ Would you like me to create visualizations to support these insights?`;
   };
 
   useEffect(() => {
-    if (chatMessages.length > 0) {
+    if (chatMessages.length > 0 || streamingReply) {
       smartScroll();
     }
-  }, [chatMessages.length]);
+  }, [chatMessages.length, streamingReply]);
 
   // Introduction sequence
   useEffect(() => {
@@ -1609,20 +1844,15 @@ Would you like me to create visualizations to support these insights?`;
   }, [dataState.currentMode, dataState.hasIntroduced, chatMessages.length]);
 
   const startIntroductionSequence = () => {
-    setDataState(prev => ({ ...prev, isTyping: true }));
-    
-    setTimeout(() => {
-      const introMessage = {
-        id: Date.now().toString(),
-        role: 'assistant' as const,
-        content: "Hi! I'm your data analysis assistant. I'll help you work through your data step by step:\n\n1. **Data Quality Assessment** - Clean and assess your data\n2. **Initial Visualizations** - Create key charts and graphs  \n3. **Correlation Analysis** - Find relationships between variables\n4. **Advanced Analytics** - Predictive modeling, anomaly detection, clustering\n\nUpload a CSV file to get started, or ask me anything about data analysis.",
-        timestamp: new Date(),
-        type: 'text' as const,
-        isAnimating: false
-      };
-      setChatMessages([introMessage]);
-      setDataState(prev => ({ ...prev, hasIntroduced: true, isTyping: false }));
-    }, 1500);
+    const introMessage = {
+      id: Date.now().toString(),
+      role: 'assistant' as const,
+      content: "Hi! I'm your data analysis assistant. I'll help you work through your data step by step:\n\n1. **Data Quality Assessment** - Clean and assess your data\n2. **Initial Visualizations** - Create key charts and graphs  \n3. **Correlation Analysis** - Find relationships between variables\n4. **Advanced Analytics** - Predictive modeling, anomaly detection, clustering\n\nUpload a CSV file to get started, or ask me anything about data analysis.",
+      timestamp: new Date(),
+      type: 'text' as const
+    };
+    setChatMessages([introMessage]);
+    setDataState(prev => ({ ...prev, hasIntroduced: true }));
   };
 
   // Enhanced chat processing with better error handling
@@ -1632,7 +1862,7 @@ Would you like me to create visualizations to support these insights?`;
     setUserInput('');
     setDataState(prev => ({ ...prev, isProcessing: true }));
     
-    addChatMessageWithTyping('user', input, 'text');
+    addChatMessage('user', input, 'text');
     
     // Update context
     setDataState(prev => ({ 
@@ -1643,7 +1873,7 @@ Would you like me to create visualizations to support these insights?`;
     try {
       // Handle workflow steps
       if (!dataState.csvData) {
-        addChatMessageWithTyping('assistant', 'I need data to analyze first. Please upload a CSV file so we can start with data cleaning and quality assessment.', 'text', null, 600);
+        addChatMessage('assistant', 'I need data to analyze first. Please upload a CSV file so we can start with data cleaning and quality assessment.');
         setDataState(prev => ({ ...prev, isProcessing: false }));
         return;
       }
@@ -1651,7 +1881,7 @@ Would you like me to create visualizations to support these insights?`;
       // Check for file size issues (simple check)
       const csvSize = new Blob([dataState.csvData]).size;
       if (csvSize > 10 * 1024 * 1024) { // 10MB limit
-        addChatMessageWithTyping('assistant', 'This file is quite large (100k+ rows). I can work with it, but some operations may take longer. What would you like to analyze first?', 'text', null, 600);
+        addChatMessage('assistant', 'This file is quite large (100k+ rows). I can work with it, but some operations may take longer. What would you like to analyze first?');
         setDataState(prev => ({ ...prev, isProcessing: false }));
         return;
       }
@@ -1662,20 +1892,16 @@ Would you like me to create visualizations to support these insights?`;
       if (lowerInput.includes('all') || lowerInput.includes('everything') || lowerInput.includes('explore all')) {
         // Create all visualizations step by step
         if (dataState.analysisStep === 'exploration' || dataState.analysisStep === 'cleaning') {
-          addChatMessageWithTyping('assistant', 'Creating complete analysis with visualizations and correlation matrix...', 'text', null, 500);
+          addChatMessage('assistant', 'Creating complete analysis with visualizations and correlation matrix...');
           await createInitialVisualizations();
-          setTimeout(async () => {
-            await generateCorrelationMatrix();
-          }, 2000);
+          await generateCorrelationMatrix();
         } else if (dataState.analysisStep === 'visualization') {
-          addChatMessageWithTyping('assistant', 'Adding correlation matrix to complete the analysis...', 'text', null, 500);
+          addChatMessage('assistant', 'Adding correlation matrix to complete the analysis...');
           await generateCorrelationMatrix();
         } else {
-          addChatMessageWithTyping('assistant', 'Creating comprehensive analysis...', 'text', null, 500);
+          addChatMessage('assistant', 'Creating comprehensive analysis...');
           await createInitialVisualizations();
-          setTimeout(async () => {
-            await generateCorrelationMatrix();
-          }, 2000);
+          await generateCorrelationMatrix();
         }
       } else if (lowerInput.includes('correlation') || lowerInput.includes('relationship')) {
         await generateCorrelationMatrix();
@@ -1690,47 +1916,28 @@ Would you like me to create visualizations to support these insights?`;
       } else {
         // Use the chat orchestrator for other requests with error handling
         try {
-          const result = await processChatMessage(input, dataState.csvData, true) as any;
-          
+          const result = await runStreamed(handlers =>
+            streamChatMessage(input, true, handlers)
+          );
+
+          // Keep the reply the user just watched stream in
+          addChatMessage('assistant', result.response);
           if (result.action === 'natural_language_chart') {
             await handleNaturalLanguageChart(result.query || input);
-          } else {
-            // Contextual response based on analysis step
-            let response = '';
-            switch (dataState.analysisStep) {
-              case 'none':
-                response = "I can help you analyze this data. Should I start with data cleaning and quality assessment?";
-                break;
-              case 'cleaning':
-                response = "The data is cleaned. Would you like me to create some initial visualizations to understand the patterns?";
-                break;
-              case 'exploration':
-                response = "I can create specific visualizations, generate a correlation matrix, or help with other analysis. What interests you most?";
-                break;
-              case 'visualization':
-                response = "Based on the visualizations, I can create a correlation matrix, do statistical analysis, or create specific charts. What would you like to explore?";
-                break;
-              case 'correlation':
-                response = "Perfect! We've covered the correlation analysis. You can now use the action buttons below to run advanced analysis or ask me specific questions about the data patterns.";
-                break;
-              case 'advanced':
-                response = "Excellent! Advanced analysis complete. You can run other analyses using the buttons below, generate a comprehensive report, or ask me to create specific visualizations.";
-                break;
-              default:
-                response = result.response || "I can help you analyze this data further. What specific aspect interests you?";
-            }
-            
-            addChatMessageWithTyping('assistant', response, 'text', null, 600);
           }
         } catch (apiError) {
+          if (isAbortError(apiError)) {
+            addCancelledMessage();
+            return;
+          }
           console.error('API Error:', apiError);
           // Fallback response for API failures
-          addChatMessageWithTyping('assistant', 'I can help you with visualization, correlation analysis, or creating reports. What would you like to do?', 'text', null, 500);
+          addChatMessage('assistant', 'I can help you with visualization, correlation analysis, or creating reports. What would you like to do?');
         }
       }
     } catch (error) {
       console.error('Processing error:', error);
-      addChatMessageWithTyping('assistant', 'Something went wrong. Let me know what you\'d like to analyze and I\'ll help you.', 'text', null, 500);
+      addChatMessage('assistant', 'Something went wrong. Let me know what you\'d like to analyze and I\'ll help you.');
     } finally {
       setDataState(prev => ({ ...prev, isProcessing: false }));
     }
@@ -1741,13 +1948,14 @@ Would you like me to create visualizations to support these insights?`;
     if (!dataState.csvData.trim()) return;
     
     setDataState(prev => ({ ...prev, isProcessing: true }));
-    addChatMessageWithTyping('assistant', `Creating ${query}...`, 'text', null, 500);
+    addChatMessage('assistant', `Creating ${query}...`);
     
     try {
       const chartResult = await processNaturalLanguageChart(dataState.csvData, query) as any;
       
-      if (chartResult.python_code) {
-        const result = await executePythonCode(dataState.csvData, chartResult.python_code) as any;
+      if (chartResult.chart) {
+        const result = await renderChartSpecs(dataState.csvData, [chartResult.chart]);
+        rememberChartSpecs(result.chartImages, [chartResult.chart]);
         
         if (result.chartImages?.length > 0) {
           setDataState(prev => ({ 
@@ -1756,13 +1964,13 @@ Would you like me to create visualizations to support these insights?`;
             isProcessing: false
           }));
           
-          addChatMessageWithTyping('assistant', `Here's your ${query}. Click to add it to your Canva design.\n\n${chartResult.explanation || 'What other analysis would you like to do?'}`, 'chart', result.chartImages, 1000);
+          addChatMessage('assistant', `Here's your ${query}. Click to add it to your Canva design.\n\n${chartResult.explanation || 'What other analysis would you like to do?'}`, 'chart', { images: result.chartImages });
         }
       }
     } catch (error) {
       console.error('Chart generation error:', error);
       setDataState(prev => ({ ...prev, isProcessing: false }));
-      addChatMessageWithTyping('assistant', 'I had trouble creating that chart. Can you describe what you want to visualize differently?', 'text', null, 600);
+      addChatMessage('assistant', 'I had trouble creating that chart. Can you describe what you want to visualize differently?');
     }
   };
 
@@ -1783,6 +1991,22 @@ Would you like me to create visualizations to support these insights?`;
 
         {dataState.currentMode === 'chat' && (
           <Rows spacing="2u">
+            {liveSheet && (
+              <Box padding="1u" background="neutralLow">
+                <Rows spacing="1u">
+                  <Text size="small">
+                    {intl.formatMessage(DataInfographicPanelMessages.liveSyncStatus, {
+                      name: liveSheet.name,
+                      lastSync: liveSheet.lastSync ? new Date(liveSheet.lastSync) : new Date()
+                    })}
+                  </Text>
+                  <Button variant="secondary" onClick={handleStopLiveSync} stretch>
+                    {intl.formatMessage(DataInfographicPanelMessages.liveSyncStop)}
+                  </Button>
+                </Rows>
+              </Box>
+            )}
+
             <div 
               ref={chatContainerRef}
               style={{ 
@@ -1797,18 +2021,11 @@ Would you like me to create visualizations to support these insights?`;
               <Rows spacing="1u">
                 {chatMessages.map((message) => (
                   <Box key={message.id} padding="1u">
-                    {message.isAnimating ? (
-                      <AnimatedText text={message.content} delay={20} />
-                    ) : (
-                      <MessageRenderer 
-                        message={message} 
-                        onReportClick={(reportText) => addTextReportToCanva(reportText)}
-                      />
-                    )}
+                    <MessageRenderer message={message} />
                     
-                    {message.type === 'chart' && message.data && (
+                    {message.type === 'chart' && message.data?.images && (
                       <Rows spacing="1u">
-                        {(Array.isArray(message.data) ? message.data : message.data.images || []).map((image: string, index: number) => (
+                        {message.data.images.map((image, index) => (
                           <div key={index} style={{ marginBottom: '12px' }}>
                             <div
                               onClick={() => addChartToCanva(image)}
@@ -1859,17 +2076,53 @@ Would you like me to create visualizations to support these insights?`;
                       </Rows>
                     )}
 
+                    {message.data?.report && (
+                      <Button
+                        variant="primary"
+                        onClick={() => message.data?.report && addTextReportToCanva(message.data.report.text, message.data.report.charts)}
+                        stretch
+                      >
+                        {intl.formatMessage(DataInfographicPanelMessages.insertReport)}
+                      </Button>
+                    )}
 
-
-
+                    {message.data?.tables?.map((table, index) => (
+                      <Button
+                        key={index}
+                        variant="secondary"
+                        onClick={() => addTableToCanva(table)}
+                        stretch
+                      >
+                        {intl.formatMessage(DataInfographicPanelMessages.insertTable, { title: table.title })}
+                      </Button>
+                    ))}
+
+                    {message.data?.refreshes && replaceableCharts(message.data.refreshes).length > 0 && (
+                      <Button
+                        variant="secondary"
+                        onClick={() => message.data?.refreshes && replaceInsertedCharts(message.data.refreshes)}
+                        disabled={dataState.isProcessing}
+                        stretch
+                      >
+                        {intl.formatMessage(DataInfographicPanelMessages.liveSyncReplace, {
+                          count: replaceableCharts(message.data.refreshes).length
+                        })}
+                      </Button>
+                    )}
                   </Box>
                 ))}
                 
-                {dataState.isTyping && <TypingIndicator />}
+                {streamingReply && (
+                  <StreamingMessage
+                    reply={streamingReply}
+                    onCancel={cancelStream}
+                    onChartClick={addChartToCanva}
+                  />
+                )}
               </Rows>
               
               {/* Upload button when no data */}
-              {!dataState.csvData && !dataState.isTyping && !dataState.isProcessing && (
+              {!dataState.csvData && !dataState.isProcessing && (
                 <div style={{ 
                   padding: '16px', 
                   borderTop: '1px solid #e0e0e0',
@@ -1904,7 +2157,7 @@ Would you like me to create visualizations to support these insights?`;
               )}
               
               {/* Action buttons only at the end */}
-              {dataState.csvData && !dataState.isTyping && !dataState.isProcessing && (
+              {dataState.csvData && !dataState.isProcessing && (
                 <div style={{ 
                   padding: '16px', 
                   borderTop: '1px solid #e0e0e0',
@@ -2096,6 +2349,30 @@ Would you like me to create visualizations to support these insights?`;
               )}
             </div>
             
+            {dataState.chartImages.length >= MIN_INFOGRAPHIC_CHARTS && (
+              <Box padding="1u" background="neutralLow">
+                <Rows spacing="1u">
+                  <Select
+                    options={INFOGRAPHIC_TEMPLATES.map(template => ({
+                      value: template,
+                      label: intl.formatMessage(DataInfographicPanelMessages.infographicTemplate, { template })
+                    }))}
+                    value={infographicTemplate}
+                    onChange={setInfographicTemplate}
+                    stretch
+                  />
+                  <Button
+                    variant="primary"
+                    onClick={composeInfographic}
+                    disabled={dataState.isProcessing}
+                    stretch
+                  >
+                    {intl.formatMessage(DataInfographicPanelMessages.composeInfographic)}
+                  </Button>
+                </Rows>
+              </Box>
+            )}
+
             <Box padding="1u" background="neutralLow">
               <Rows spacing="1u">
                 <TextInput
@@ -2106,7 +2383,7 @@ Would you like me to create visualizations to support these insights?`;
                 <Button 
                   variant="primary" 
                   onClick={() => processChatInput(userInput)}
-                  disabled={dataState.isProcessing || !userInput.trim() || dataState.isTyping}
+                  disabled={dataState.isProcessing || !userInput.trim()}
                   stretch
                 >
                   {dataState.isProcessing ? "Processing..." : "Send"}
@@ -2114,6 +2391,89 @@ Would you like me to create visualizations to support these insights?`;
               </Rows>
             </Box>
             
+            {workspaceDatasets.length > 1 && (
+              <Rows spacing="0.5u">
+                <Text size="small">
+                  {intl.formatMessage(DataInfographicPanelMessages.activeDatasetLabel)}
+                </Text>
+                <Select
+                  options={workspaceDatasets.map(({ name }) => ({ value: name, label: name }))}
+                  value={dataState.fileName}
+                  onChange={switchDataset}
+                  stretch
+                />
+              </Rows>
+            )}
+
+            {dataState.csvData && (
+              <Button
+                variant="secondary"
+                onClick={() => setShowFormulaBuilder(prev => !prev)}
+                stretch
+              >
+                {intl.formatMessage(showFormulaBuilder
+                  ? DataInfographicPanelMessages.formulaBuilderClose
+                  : DataInfographicPanelMessages.formulaBuilderOpen)}
+              </Button>
+            )}
+
+            {dataState.csvData && showFormulaBuilder && (
+              <FormulaBuilder csvData={dataState.csvData} onAddColumn={addFormulaColumn} />
+            )}
+
+            {dataState.csvData && (
+              <Button
+                variant="secondary"
+                onClick={() => setShowCleaning(prev => !prev)}
+                stretch
+              >
+                {intl.formatMessage(showCleaning
+                  ? DataInfographicPanelMessages.cleaningClose
+                  : DataInfographicPanelMessages.cleaningOpen)}
+              </Button>
+            )}
+
+            {dataState.csvData && showCleaning && (
+              <CleaningPipeline
+                key={dataState.fileName}
+                rawCsvData={dataState.rawCsvData}
+                csvData={dataState.csvData}
+                steps={dataState.cleaningSteps}
+                onChange={updateCleaning}
+              />
+            )}
+
+            {anomalyReview && (
+              <AnomalyReview
+                key={anomalyReview.csvData}
+                name={anomalyReview.name}
+                csvData={anomalyReview.csvData}
+                detection={anomalyReview.detection}
+                onCreate={addAnomalyDataset}
+                onClose={() => setAnomalyReview(null)}
+              />
+            )}
+
+            {workspaceDatasets.length > 1 && (
+              <Button
+                variant="secondary"
+                onClick={() => setShowCombiner(prev => !prev)}
+                stretch
+              >
+                {intl.formatMessage(showCombiner
+                  ? DataInfographicPanelMessages.combinerClose
+                  : DataInfographicPanelMessages.combinerOpen)}
+              </Button>
+            )}
+
+            {workspaceDatasets.length > 1 && showCombiner && (
+              <DatasetCombiner
+                datasets={workspaceDatasets}
+                activeName={dataState.fileName}
+                onCreate={addCombinedDataset}
+              />
+            )}
+
             {!dataState.csvData && (
               <Box padding="1u" background="neutralLow">
                 <Text size="medium">Upload a CSV file to start the data analysis process.</Text>
@@ -2124,13 +2484,17 @@ Would you like me to create visualizations to support these insights?`;
 
         {dataState.currentMode === 'upload' && (
           <Rows spacing="2u">
-            <Text size="medium">Upload Your CSV File</Text>
-            <Text size="small">I'll start with data cleaning and guide you through the analysis process</Text>
+            <Text size="medium">
+              {intl.formatMessage(DataInfographicPanelMessages.uploadTitle)}
+            </Text>
+            <Text size="small">
+              {intl.formatMessage(DataInfographicPanelMessages.uploadDescription)}
+            </Text>
             
             <input
               ref={fileInputRef}
               type="file"
-              accept=".csv,text/csv"
+              accept={DATASET_FILE_TYPES}
               onChange={handleFileUpload}
               style={{
                 padding: '16px',
@@ -2143,7 +2507,60 @@ Would you like me to create visualizations to support these insights?`;
                 textAlign: 'center'
               }}
             />
+
+            {importError && (
+              <Text size="small" tone="critical">{importError}</Text>
+            )}
+
+            {pendingImport && (
+              <DatasetImportPreview
+                // A new file starts from its first sheet or table
+                key={pendingImport.fileName}
+                datasetImport={pendingImport}
+                onAnalyze={(table) => loadImportedTable(pendingImport, table)}
+                onCancel={cancelImport}
+              />
+            )}
             
+            <Rows spacing="1u">
+              <Text size="medium">
+                {intl.formatMessage(DataInfographicPanelMessages.sheetConnectTitle)}
+              </Text>
+              <Text size="small">
+                {intl.formatMessage(DataInfographicPanelMessages.sheetConnectDescription)}
+              </Text>
+              <TextInput
+                placeholder={intl.formatMessage(DataInfographicPanelMessages.sheetUrlPlaceholder)}
+                value={sheetForm.sheetUrl}
+                onChange={(sheetUrl) => setSheetForm(prev => ({ ...prev, sheetUrl }))}
+              />
+              <TextInput
+                placeholder={intl.formatMessage(DataInfographicPanelMessages.sheetRangePlaceholder)}
+                value={sheetForm.range}
+                onChange={(range) => setSheetForm(prev => ({ ...prev, range }))}
+              />
+              <Select
+                options={REFRESH_INTERVAL_MINUTES.map(minutes => ({
+                  value: String(minutes),
+                  label: intl.formatMessage(DataInfographicPanelMessages.sheetRefreshInterval, { minutes })
+                }))}
+                value={sheetForm.refreshMinutes}
+                onChange={(refreshMinutes) => setSheetForm(prev => ({ ...prev, refreshMinutes }))}
+              />
+              <Button
+                variant="primary"
+                onClick={connectSheet}
+                loading={sheetForm.isConnecting}
+                disabled={!sheetForm.sheetUrl.trim() || sheetForm.isConnecting}
+                stretch
+              >
+                {intl.formatMessage(DataInfographicPanelMessages.sheetConnect)}
+              </Button>
+              {sheetForm.error && (
+                <Text size="small" tone="critical">{sheetForm.error}</Text>
+              )}
+            </Rows>
+
             {dataState.fileName && (
               <Box padding="1u" background="neutralLow">
                 <Text size="medium">Loaded: {dataState.fileName}</Text>
@@ -0,0 +1,164 @@
+import { defineMessages } from "react-intl";
+
+export const DatasetCombinerMessages = defineMessages({
+  /** Messages for combining the datasets of the workspace into a new one. */
+  title: {
+    defaultMessage: "Combine datasets",
+    description:
+      "A heading for the section where the user joins, appends or looks up datasets they've loaded to make a new dataset",
+  },
+  operation: {
+    defaultMessage:
+      "{operation, select, join {Join} append {Append} lookup {Look up} other {Combine}}",
+    description:
+      "An option for how to combine datasets: join matches rows on key columns, append stacks rows, look up adds columns from another dataset",
+  },
+  operationHint: {
+    defaultMessage:
+      "{operation, select, join {Match the rows of two datasets on key columns and put their columns side by side.} append {Stack the rows of several datasets, lining their columns up by name.} lookup {Add columns from another dataset to each row, taking the first row with the same key.} other {}}",
+    description: "Explains what the chosen way of combining datasets does",
+  },
+  leftLabel: {
+    defaultMessage: "Dataset",
+    description:
+      "A label for the dropdown of the dataset whose rows a join or lookup starts from",
+  },
+  rightLabel: {
+    defaultMessage:
+      "{operation, select, lookup {Look up in} other {Join with}}",
+    description:
+      "A label for the dropdown of the second dataset of a join, or the dataset values are looked up in",
+  },
+  joinType: {
+    defaultMessage:
+      "{type, select, inner {Matching rows} left {All of the first} outer {All rows} other {}}",
+    description:
+      "An option for which rows a join keeps: only rows found in both datasets, every row of the first dataset, or every row of both",
+  },
+  keysLabel: {
+    defaultMessage: "Match rows where",
+    description:
+      "A label above the pairs of columns whose values must be equal for two rows to match",
+  },
+  keyEquals: {
+    defaultMessage: "equals",
+    description:
+      "Shown between a column of the first dataset and a column of the second, meaning their values must be equal for rows to match",
+  },
+  addKey: {
+    defaultMessage: "Add a key column",
+    description:
+      "A button label to match rows on another pair of columns as well",
+  },
+  removeKey: {
+    defaultMessage: "Remove",
+    description: "A button label to stop matching rows on a pair of columns",
+  },
+  matchNumbers: {
+    defaultMessage: "Match numbers however they're written",
+    description:
+      "A checkbox label to match key columns that are numbers in both datasets by value, so 1,000 matches 1000",
+  },
+  lookupColumnsLabel: {
+    defaultMessage: "Columns to add",
+    description:
+      "A label above the checkboxes of columns to bring in from the dataset values are looked up in",
+  },
+  appendSourcesLabel: {
+    defaultMessage: "Datasets to append",
+    description:
+      "A label above the checkboxes of datasets whose rows are stacked together, in the order shown",
+  },
+  appendMode: {
+    defaultMessage:
+      "{mode, select, append {Keep every row} union {Drop repeated rows} other {}}",
+    description:
+      "An option for whether appending datasets keeps rows that repeat an earlier row",
+  },
+  columnAlignment: {
+    defaultMessage:
+      "{columns, select, all {All columns} shared {Shared columns} other {}}",
+    description:
+      "An option for whether appended datasets keep every column any of them has, or only the columns all of them have",
+  },
+  sourceColumn: {
+    defaultMessage: "Add a column naming each row's dataset",
+    description:
+      "A checkbox label to add a column to appended datasets saying which dataset each row came from",
+  },
+  sourceColumnName: {
+    defaultMessage: "Dataset",
+    description:
+      "The name of the column added to appended datasets saying which dataset each row came from",
+  },
+  nameLabel: {
+    defaultMessage: "New dataset name",
+    description:
+      "A label above the input where the user names the combined dataset",
+  },
+  joinMatches: {
+    defaultMessage: "{matched} of {total} rows of {name} found a match.",
+    description: "Key match statistics for one of the two datasets of a join",
+  },
+  missingKeys: {
+    defaultMessage:
+      "{count, plural, one {# row} other {# rows}} of {name} have an empty key and can't match.",
+    description:
+      "A warning that some rows of a dataset can't be joined because a key cell is empty",
+  },
+  duplicateKeys: {
+    defaultMessage:
+      "{count, plural, one {# key appears} other {# keys appear}} more than once in {name}, so their matches are repeated.",
+    description:
+      "A warning that some key values are on several rows of a dataset, which multiplies the rows of a join",
+  },
+  lookupMatches: {
+    defaultMessage: "{matched} of {total} rows found a value.",
+    description: "Key match statistics for a lookup",
+  },
+  textKeys: {
+    defaultMessage:
+      "{count, plural, one {# key isn't numbers in both datasets, so it's matched as text.} other {# keys aren't numbers in both datasets, so they're matched as text.}}",
+    description:
+      "A note, when matching numbers by value is ticked, that some pairs of key columns were compared as text because one of the columns isn't numbers",
+  },
+  ambiguousKeys: {
+    defaultMessage:
+      "{count, plural, one {# key appears} other {# keys appear}} more than once in the lookup dataset; the first row is used.",
+    description:
+      "A warning that some key values are on several rows of the dataset values are looked up in",
+  },
+  appendRows: {
+    defaultMessage: "{name}: {rows} rows.",
+    description: "How many rows one of the appended datasets has",
+  },
+  appendMissing: {
+    defaultMessage: "{name} has no {columns}, so those cells are empty.",
+    description:
+      "A note that an appended dataset lacks some of the result's columns. {columns} is a list of column names",
+  },
+  appendDropped: {
+    defaultMessage: "{name}'s {columns} are left out.",
+    description:
+      "A note that some columns of an appended dataset aren't in the result. {columns} is a list of column names",
+  },
+  duplicatesDropped: {
+    defaultMessage:
+      "{count, plural, one {# repeated row was} other {# repeated rows were}} dropped.",
+    description: "How many rows appending with repeated rows dropped removed",
+  },
+  summary: {
+    defaultMessage: "Result: {rowCount} rows, {columnCount} columns.",
+    description: "The size of the combined dataset being previewed",
+  },
+  previewLimit: {
+    defaultMessage: "Showing the first {shownCount} rows.",
+    description:
+      "Shown under a preview of a combined dataset that has more rows than the preview shows",
+  },
+  create: {
+    defaultMessage: "Create dataset",
+    description:
+      "A button label to add the previewed combined dataset to the workspace and analyze it",
+  },
+});
@@ -0,0 +1,589 @@
+import { useMemo, useState } from "react";
+import {
+  Box,
+  Button,
+  Checkbox,
+  CheckboxGroup,
+  Columns,
+  Column,
+  Rows,
+  SegmentedControl,
+  Select,
+  Text,
+  TextInput,
+  Title,
+} from "@canva/app-ui-kit";
+import { useIntl } from "react-intl";
+import type { CsvTable } from "utils/csv";
+import { formatCsv, parseCsv } from "utils/csv";
+import type {
+  AppendMode,
+  AppendStats,
+  ColumnAlignment,
+  JoinKey,
+  JoinType,
+  KeyMatchStats,
+  LookupStats,
+} from "utils/dataset_combine";
+import {
+  APPEND_MODES,
+  appendTables,
+  COLUMN_ALIGNMENTS,
+  CombineError,
+  JOIN_TYPES,
+  joinTables,
+  lookupColumns,
+} from "utils/dataset_combine";
+import { DatasetCombinerMessages as Messages } from "./dataset_combiner.messages";
+
+// How many rows of the combined dataset the preview grid shows
+const PREVIEW_ROW_COUNT = 10;
+
+const OPERATIONS = ["join", "append", "lookup"] as const;
+
+type Operation = (typeof OPERATIONS)[number];
+
+const monospace = {
+  fontFamily: "monospace",
+  fontSize: "12px",
+  whiteSpace: "pre-wrap",
+  margin: 0,
+} as const;
+
+const cellStyle = {
+  padding: "4px 8px",
+  borderBottom: "1px solid #e0e0e0",
+  textAlign: "left",
+} as const;
+
+interface Combined {
+  table: CsvTable;
+  join?: KeyMatchStats;
+  lookup?: LookupStats;
+  append?: AppendStats;
+}
+
+/**
+ * Guesses the key to match two datasets on: the first column they both have,
+ * or else their first columns.
+ */
+const guessKeys = (left?: CsvTable, right?: CsvTable): JoinKey[] => {
+  if (!left?.header.length || !right?.header.length) {
+    return [];
+  }
+  const normalize = (column: string) => column.trim().toLowerCase();
+  for (const column of left.header) {
+    const match = right.header.find(
+      (other) => normalize(other) === normalize(column),
+    );
+    if (match !== undefined) {
+      return [{ left: column, right: match }];
+    }
+  }
+  return [{ left: left.header[0], right: right.header[0] }];
+};
+
+// Names the new dataset so it doesn't replace one already in the workspace
+const uniqueName = (name: string, taken: string[]) => {
+  let unique = name;
+  for (let n = 2; taken.includes(unique); n++) {
+    unique = `${name} (${n})`;
+  }
+  return unique;
+};
+
+/**
+ * Combines the datasets of the workspace into a new one: a join on key
+ * columns, an append of rows, or a lookup of columns. The result and how well
+ * the keys matched are previewed, and nothing is added until the user creates
+ * the dataset.
+ */
+export const DatasetCombiner = ({
+  datasets,
+  activeName,
+  onCreate,
+}: {
+  datasets: { name: string; csvData: string }[];
+  /** The dataset being analyzed, which a join or lookup starts from. */
+  activeName: string;
+  /** Called with the combined dataset's name and content. */
+  onCreate: (name: string, csvData: string) => void;
+}) => {
+  const intl = useIntl();
+  const names = datasets.map(({ name }) => name);
+  const tables = useMemo(
+    () =>
+      new Map<string, CsvTable>(
+        datasets.map(({ name, csvData }) => [name, parseCsv(csvData)]),
+      ),
+    [datasets],
+  );
+
+  const [operation, setOperation] = useState<Operation>("join");
+  const [leftName, setLeftName] = useState(
+    names.includes(activeName) ? activeName : names[0],
+  );
+  const [rightName, setRightName] = useState(
+    names.find((name) => name !== leftName) ?? leftName,
+  );
+  const [keys, setKeys] = useState<JoinKey[]>(() =>
+    guessKeys(tables.get(leftName), tables.get(rightName)),
+  );
+  const [joinType, setJoinType] = useState<JoinType>("inner");
+  const [matchNumbers, setMatchNumbers] = useState(false);
+  const [lookupColumnNames, setLookupColumnNames] = useState<string[]>([]);
+  const [appendNames, setAppendNames] = useState<string[]>(names);
+  const [appendMode, setAppendMode] = useState<AppendMode>("append");
+  const [alignment, setAlignment] = useState<ColumnAlignment>("all");
+  const [addSourceColumn, setAddSourceColumn] = useState(false);
+  const [newName, setNewName] = useState("");
+
+  const left = tables.get(leftName);
+  const right = tables.get(rightName);
+
+  const choosePair = (nextLeft: string, nextRight: string) => {
+    setLeftName(nextLeft);
+    setRightName(nextRight);
+    setKeys(guessKeys(tables.get(nextLeft), tables.get(nextRight)));
+    setLookupColumnNames([]);
+  };
+
+  const setKey = (index: number, key: Partial<JoinKey>) =>
+    setKeys(keys.map((old, i) => (i === index ? { ...old, ...key } : old)));
+
+  const { combined, error } = useMemo((): {
+    combined?: Combined;
+    error?: string;
+  } => {
+    try {
+      switch (operation) {
+        case "join": {
+          if (!left || !right) {
+            return {};
+          }
+          const { table, stats } = joinTables(left, right, {
+            type: joinType,
+            keys,
+            matchNumbers,
+            rightName,
+          });
+          return { combined: { table, join: stats } };
+        }
+        case "lookup": {
+          if (!left || !right) {
+            return {};
+          }
+          const { table, stats } = lookupColumns(left, right, {
+            keys,
+            matchNumbers,
+            columns: lookupColumnNames,
+            lookupName: rightName,
+          });
+          return { combined: { table, lookup: stats } };
+        }
+        case "append": {
+          const { table, stats } = appendTables(
+            names
+              .filter((name) => appendNames.includes(name))
+              .map((name) => ({
+                name,
+                table: tables.get(name) ?? { header: [], rows: [] },
+              })),
+            {
+              mode: appendMode,
+              columns: alignment,
+              sourceColumn: addSourceColumn
+                ? intl.formatMessage(Messages.sourceColumnName)
+                : undefined,
+            },
+          );
+          return { combined: { table, append: stats } };
+        }
+        default:
+          return {};
+      }
+    } catch (e) {
+      if (e instanceof CombineError) {
+        return { error: e.message };
+      }
+      throw e;
+    }
+  }, [
+    operation,
+    left,
+    right,
+    rightName,
+    joinType,
+    keys,
+    matchNumbers,
+    lookupColumnNames,
+    appendNames,
+    appendMode,
+    alignment,
+    addSourceColumn,
+    tables,
+    intl,
+  ]);
+
+  const defaultName =
+    operation === "append"
+      ? appendNames.join(" + ")
+      : `${leftName} + ${rightName}`;
+
+  const create = () => {
+    if (!combined) {
+      return;
+    }
+    onCreate(
+      uniqueName(newName.trim() || defaultName, names),
+      formatCsv(combined.table),
+    );
+    setNewName("");
+  };
+
+  const datasetOptions = names.map((name) => ({ value: name, label: name }));
+  const columnOptions = (table?: CsvTable) =>
+    (table?.header ?? []).map((column) => ({ value: column, label: column }));
+  const keyColumns = keys.map((key) => key.right);
+  const previewRows = combined?.table.rows.slice(0, PREVIEW_ROW_COUNT) ?? [];
+
+  return (
+    <Box padding="2u" background="neutralLow" borderRadius="standard">
+      <Rows spacing="1.5u">
+        <Title size="small">{intl.formatMessage(Messages.title)}</Title>
+        <SegmentedControl
+          options={OPERATIONS.map((value) => ({
+            value,
+            label: intl.formatMessage(Messages.operation, { operation: value }),
+          }))}
+          value={operation}
+          onChange={setOperation}
+        />
+        <Text size="small" tone="tertiary">
+          {intl.formatMessage(Messages.operationHint, { operation })}
+        </Text>
+
+        {operation === "append" ? (
+          <Rows spacing="1u">
+            <Text size="small">
+              {intl.formatMessage(Messages.appendSourcesLabel)}
+            </Text>
+            <CheckboxGroup
+              options={datasetOptions}
+              value={appendNames}
+              onChange={setAppendNames}
+            />
+            <SegmentedControl
+              options={APPEND_MODES.map((value) => ({
+                value,
+                label: intl.formatMessage(Messages.appendMode, { mode: value }),
+              }))}
+              value={appendMode}
+              onChange={setAppendMode}
+            />
+            <SegmentedControl
+              options={COLUMN_ALIGNMENTS.map((value) => ({
+                value,
+                label: intl.formatMessage(Messages.columnAlignment, {
+                  columns: value,
+                }),
+              }))}
+              value={alignment}
+              onChange={setAlignment}
+            />
+            <Checkbox
+              label={intl.formatMessage(Messages.sourceColumn)}
+              checked={addSourceColumn}
+              onChange={(_, checked) => setAddSourceColumn(checked)}
+            />
+          </Rows>
+        ) : (
+          <Rows spacing="1u">
+            <Text size="small">{intl.formatMessage(Messages.leftLabel)}</Text>
+            <Select
+              options={datasetOptions}
+              value={leftName}
+              onChange={(value) => choosePair(value, rightName)}
+              stretch
+            />
+            <Text size="small">
+              {intl.formatMessage(Messages.rightLabel, { operation })}
+            </Text>
+            <Select
+              options={datasetOptions}
+              value={rightName}
+              onChange={(value) => choosePair(leftName, value)}
+              stretch
+            />
+            {operation === "join" && (
+              <SegmentedControl
+                options={JOIN_TYPES.map((value) => ({
+                  value,
+                  label: intl.formatMessage(Messages.joinType, { type: value }),
+                }))}
+                value={joinType}
+                onChange={setJoinType}
+              />
+            )}
+
+            <Text size="small">{intl.formatMessage(Messages.keysLabel)}</Text>
+            {keys.map((key, index) => (
+              <Rows key={index} spacing="0.5u">
+                <Columns spacing="1u" alignY="center">
+                  <Column>
+                    <Select
+                      options={columnOptions(left)}
+                      value={key.left}
+                      onChange={(value) => setKey(index, { left: value })}
+                      stretch
+                    />
+                  </Column>
+                  <Column width="content">
+                    <Text size="small">
+                      {intl.formatMessage(Messages.keyEquals)}
+                    </Text>
+                  </Column>
+                  <Column>
+                    <Select
+                      options={columnOptions(right)}
+                      value={key.right}
+                      onChange={(value) => setKey(index, { right: value })}
+                      stretch
+                    />
+                  </Column>
+                </Columns>
+                {keys.length > 1 && (
+                  <Button
+                    variant="tertiary"
+                    onClick={() => setKeys(keys.filter((_, i) => i !== index))}
+                  >
+                    {intl.formatMessage(Messages.removeKey)}
+                  </Button>
+                )}
+              </Rows>
+            ))}
+            <Button
+              variant="secondary"
+              onClick={() =>
+                setKeys([
+                  ...keys,
+                  {
+                    left: left?.header[0] ?? "",
+                    right: right?.header[0] ?? "",
+                  },
+                ])
+              }
+              stretch
+            >
+              {intl.formatMessage(Messages.addKey)}
+            </Button>
+            <Checkbox
+              label={intl.formatMessage(Messages.matchNumbers)}
+              checked={matchNumbers}
+              onChange={(_, checked) => setMatchNumbers(checked)}
+            />
+
+            {operation === "lookup" && (
+              <Rows spacing="0.5u">
+                <Text size="small">
+                  {intl.formatMessage(Messages.lookupColumnsLabel)}
+                </Text>
+                <CheckboxGroup
+                  options={columnOptions(right).filter(
+                    ({ value }) => !keyColumns.includes(value),
+                  )}
+                  value={lookupColumnNames}
+                  onChange={setLookupColumnNames}
+                />
+              </Rows>
+            )}
+          </Rows>
+        )}
+
+        {error && (
+          <Text size="small" tone="critical">
+            {error}
+          </Text>
+        )}
+
+        {combined?.join && (
+          <Rows spacing="0.5u">
+            <Text size="small">
+              {intl.formatMessage(Messages.joinMatches, {
+                matched: combined.join.leftMatched,
+                total: combined.join.leftRows,
+                name: leftName,
+              })}
+            </Text>
+            <Text size="small">
+              {intl.formatMessage(Messages.joinMatches, {
+                matched: combined.join.rightMatched,
+                total: combined.join.rightRows,
+                name: rightName,
+              })}
+            </Text>
+            {matchNumbers && combined.join.numericKeys < keys.length && (
+              <Text size="small" tone="tertiary">
+                {intl.formatMessage(Messages.textKeys, {
+                  count: keys.length - combined.join.numericKeys,
+                })}
+              </Text>
+            )}
+            {[
+              {
+                name: leftName,
+                missing: combined.join.leftMissingKeys,
+                duplicates: combined.join.leftDuplicateKeys,
+              },
+              {
+                name: rightName,
+                missing: combined.join.rightMissingKeys,
+                duplicates: combined.join.rightDuplicateKeys,
+              },
+            ].map(({ name, missing, duplicates }, index) => (
+              <Rows key={index} spacing="0.5u">
+                {missing > 0 && (
+                  <Text size="small" tone="critical">
+                    {intl.formatMessage(Messages.missingKeys, {
+                      count: missing,
+                      name,
+                    })}
+                  </Text>
+                )}
+                {duplicates > 0 && (
+                  <Text size="small" tone="critical">
+                    {intl.formatMessage(Messages.duplicateKeys, {
+                      count: duplicates,
+                      name,
+                    })}
+                  </Text>
+                )}
+              </Rows>
+            ))}
+          </Rows>
+        )}
+
+        {combined?.lookup && (
+          <Rows spacing="0.5u">
+            <Text size="small">
+              {intl.formatMessage(Messages.lookupMatches, {
+                matched: combined.lookup.matched,
+                total: combined.lookup.rows,
+              })}
+            </Text>
+            {matchNumbers && combined.lookup.numericKeys < keys.length && (
+              <Text size="small" tone="tertiary">
+                {intl.formatMessage(Messages.textKeys, {
+                  count: keys.length - combined.lookup.numericKeys,
+                })}
+              </Text>
+            )}
+            {combined.lookup.missingKeys > 0 && (
+              <Text size="small" tone="critical">
+                {intl.formatMessage(Messages.missingKeys, {
+                  count: combined.lookup.missingKeys,
+                  name: leftName,
+                })}
+              </Text>
+            )}
+            {combined.lookup.ambiguousKeys > 0 && (
+              <Text size="small" tone="critical">
+                {intl.formatMessage(Messages.ambiguousKeys, {
+                  count: combined.lookup.ambiguousKeys,
+                })}
+              </Text>
+            )}
+          </Rows>
+        )}
+
+        {combined?.append && (
+          <Rows spacing="0.5u">
+            {combined.append.sources.map(
+              ({ name, rows, missingColumns, droppedColumns }) => (
+                <Rows key={name} spacing="0.5u">
+                  <Text size="small">
+                    {intl.formatMessage(Messages.appendRows, { name, rows })}
+                  </Text>
+                  {missingColumns.length > 0 && (
+                    <Text size="small" tone="tertiary">
+                      {intl.formatMessage(Messages.appendMissing, {
+                        name,
+                        columns: intl.formatList(missingColumns),
+                      })}
+                    </Text>
+                  )}
+                  {droppedColumns.length > 0 && (
+                    <Text size="small" tone="tertiary">
+                      {intl.formatMessage(Messages.appendDropped, {
+                        name,
+                        columns: intl.formatList(droppedColumns),
+                      })}
+                    </Text>
+                  )}
+                </Rows>
+              ),
+            )}
+            {combined.append.duplicatesDropped > 0 && (
+              <Text size="small">
+                {intl.formatMessage(Messages.duplicatesDropped, {
+                  count: combined.append.duplicatesDropped,
+                })}
+              </Text>
+            )}
+          </Rows>
+        )}
+
+        {combined && (
+          <Rows spacing="1u">
+            <Text size="small">
+              {intl.formatMessage(Messages.summary, {
+                rowCount: combined.table.rows.length,
+                columnCount: combined.table.header.length,
+              })}
+            </Text>
+            <div style={{ overflowX: "auto" }}>
+              <table style={{ borderCollapse: "collapse", ...monospace }}>
+                <thead>
+                  <tr>
+                    {combined.table.header.map((column, i) => (
+                      <th key={i} style={cellStyle}>
+                        {column}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {previewRows.map((row, i) => (
+                    <tr key={i}>
+                      {row.map((cell, j) => (
+                        <td key={j} style={cellStyle}>
+                          {cell}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {combined.table.rows.length > previewRows.length && (
+              <Text size="small" tone="tertiary">
+                {intl.formatMessage(Messages.previewLimit, {
+                  shownCount: previewRows.length,
+                })}
+              </Text>
+            )}
+            <Text size="small">{intl.formatMessage(Messages.nameLabel)}</Text>
+            <TextInput
+              placeholder={uniqueName(defaultName, names)}
+              value={newName}
+              onChange={setNewName}
+            />
+            <Button variant="primary" onClick={create} stretch>
+              {intl.formatMessage(Messages.create)}
+            </Button>
+          </Rows>
+        )}
+      </Rows>
+    </Box>
+  );
+};
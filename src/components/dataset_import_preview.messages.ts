@@ -0,0 +1,50 @@
+import { defineMessages } from "react-intl";
+
+export const DatasetImportPreviewMessages = defineMessages({
+  /** Messages for previewing an uploaded file before it's analyzed. */
+  sheetLabel: {
+    defaultMessage: "Sheet",
+    description:
+      "A label for the dropdown where the user picks which sheet of an uploaded workbook to analyze",
+  },
+  tableLabel: {
+    defaultMessage: "Table",
+    description:
+      "A label for the dropdown where the user picks which table of an uploaded JSON file to analyze",
+  },
+  tableOption: {
+    defaultMessage: "{name} ({rowCount, plural, one {# row} other {# rows}})",
+    description:
+      "An option in the dropdown of sheets or tables in an uploaded file. {name} is the sheet's name or where the table is in a JSON file",
+  },
+  summary: {
+    defaultMessage: "Rows: {rowCount}. Columns: {columnCount}.",
+    description: "Describes the size of the table being previewed",
+  },
+  previewLimit: {
+    defaultMessage: "Showing the first {shownCount} rows.",
+    description:
+      "Shown under a preview of a table that has more rows than the preview shows",
+  },
+  generatedHeader: {
+    defaultMessage:
+      "The first row looked like data, so the columns were given names.",
+    description:
+      "Shown under a preview when the uploaded table had no row of column names",
+  },
+  columnType: {
+    defaultMessage:
+      "{type, select, integer {whole number} number {number} currency {currency} percent {percent} date {date} boolean {yes/no} category {category} other {text}}",
+    description:
+      "The type of values in a column, shown under the column's name in the preview",
+  },
+  analyze: {
+    defaultMessage: "Analyze this data",
+    description:
+      "A button label to start analyzing the previewed sheet or table",
+  },
+  cancel: {
+    defaultMessage: "Choose another file",
+    description: "A button label to discard the previewed file",
+  },
+});
@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { Box, Button, Rows, Select, Text, Title } from "@canva/app-ui-kit";
+import { useIntl } from "react-intl";
+import type { DatasetImport, ImportedTable } from "utils/dataset_import";
+import { DatasetImportPreviewMessages as Messages } from "./dataset_import_preview.messages";
+
+// How many rows of the chosen table the preview grid shows
+const PREVIEW_ROW_COUNT = 10;
+
+const monospace = {
+  fontFamily: "monospace",
+  fontSize: "12px",
+  whiteSpace: "pre-wrap",
+  margin: 0,
+} as const;
+
+const cellStyle = {
+  padding: "4px 8px",
+  borderBottom: "1px solid #e0e0e0",
+  textAlign: "left",
+} as const;
+
+/**
+ * Shows an uploaded file before it's analyzed: a choice of sheet or table if
+ * the file has more than one, and the first rows of the chosen one with the
+ * type inferred for each column, so a file read wrongly can be caught early.
+ */
+export const DatasetImportPreview = ({
+  datasetImport,
+  onAnalyze,
+  onCancel,
+}: {
+  datasetImport: DatasetImport;
+  /** Called with the sheet or table the user chose. */
+  onAnalyze: (table: ImportedTable) => void;
+  onCancel: () => void;
+}) => {
+  const intl = useIntl();
+  const [tableIndex, setTableIndex] = useState(0);
+  const { fileName, format, tables } = datasetImport;
+  const table = tables[tableIndex] ?? tables[0];
+  const previewRows = table.rows.slice(0, PREVIEW_ROW_COUNT);
+
+  return (
+    <Box padding="2u" background="neutralLow" borderRadius="standard">
+      <Rows spacing="1.5u">
+        <Title size="small">{fileName}</Title>
+
+        {tables.length > 1 && (
+          <Rows spacing="0.5u">
+            <Text size="small">
+              {intl.formatMessage(
+                format === "xlsx" ? Messages.sheetLabel : Messages.tableLabel,
+              )}
+            </Text>
+            <Select
+              options={tables.map(({ name, rows }, index) => ({
+                value: String(index),
+                label: intl.formatMessage(Messages.tableOption, {
+                  name,
+                  rowCount: rows.length,
+                }),
+              }))}
+              value={String(tableIndex)}
+              onChange={(value) => setTableIndex(Number(value))}
+              stretch
+            />
+          </Rows>
+        )}
+
+        <Text size="small">
+          {intl.formatMessage(Messages.summary, {
+            rowCount: table.rows.length,
+            columnCount: table.header.length,
+          })}
+        </Text>
+        {!table.hasHeader && (
+          <Text size="small" tone="tertiary">
+            {intl.formatMessage(Messages.generatedHeader)}
+          </Text>
+        )}
+
+        <div style={{ overflowX: "auto" }}>
+          <table style={{ borderCollapse: "collapse", ...monospace }}>
+            <thead>
+              <tr>
+                {table.columns.map(({ name, type }) => (
+                  <th key={name} style={cellStyle}>
+                    {name}
+                    <div style={{ fontWeight: "normal", color: "#757575" }}>
+                      {intl.formatMessage(Messages.columnType, { type })}
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {previewRows.map((row, i) => (
+                <tr key={i}>
+                  {row.map((cell, j) => (
+                    <td key={j} style={cellStyle}>
+                      {cell}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {table.rows.length > previewRows.length && (
+          <Text size="small" tone="tertiary">
+            {intl.formatMessage(Messages.previewLimit, {
+              shownCount: previewRows.length,
+            })}
+          </Text>
+        )}
+
+        <Button variant="primary" onClick={() => onAnalyze(table)} stretch>
+          {intl.formatMessage(Messages.analyze)}
+        </Button>
+        <Button variant="secondary" onClick={onCancel} stretch>
+          {intl.formatMessage(Messages.cancel)}
+        </Button>
+      </Rows>
+    </Box>
+  );
+};
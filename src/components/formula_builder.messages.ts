@@ -0,0 +1,61 @@
+import { defineMessages } from "react-intl";
+
+export const FormulaBuilderMessages = defineMessages({
+  /** Messages for building a column from a formula. */
+  title: {
+    defaultMessage: "Add a calculated column",
+    description:
+      "A heading for the section where the user computes a new column of their dataset from a formula",
+  },
+  formulaHint: {
+    defaultMessage:
+      'Write a formula such as [Sales] - [Cost] or IF([Sales] > 100, "High", "Low"). [Sales][-1] is the previous row and SUM([Sales][:0]) a running total.',
+    description:
+      "Help text explaining the formula syntax. The bracketed names are example column names and the functions are spreadsheet functions, so neither is translated",
+  },
+  formulaPlaceholder: {
+    defaultMessage: "Formula",
+    description: "A placeholder for the input where the user writes a formula",
+  },
+  columnNamePlaceholder: {
+    defaultMessage: "New column name",
+    description:
+      "A placeholder for the input where the user names the column the formula computes",
+  },
+  descriptionPlaceholder: {
+    defaultMessage:
+      "Or describe the column, e.g. profit margin as a percentage",
+    description:
+      "A placeholder for the input where the user describes the column they want in plain English, to have a formula written for them",
+  },
+  translate: {
+    defaultMessage: "Write the formula",
+    description:
+      "A button label to turn the user's plain English description into a formula",
+  },
+  translateFailed: {
+    defaultMessage: "Couldn't write a formula: {error}",
+    description:
+      "An error shown when a formula couldn't be written from the user's description",
+  },
+  previewing: {
+    defaultMessage: "Calculating a preview…",
+    description: "Shown while the preview of the formula's column is computed",
+  },
+  rowErrors: {
+    defaultMessage:
+      "{errorCount, plural, one {# row} other {# rows}} of {rowCount} couldn't be calculated",
+    description:
+      "A summary of how many rows the formula failed for. Those rows get an error code such as #DIV/0! instead of a value",
+  },
+  rowError: {
+    defaultMessage: "Row {row}: {code} {message}",
+    description:
+      "Why the formula failed for one row. The code is a spreadsheet error code such as #DIV/0! and isn't translated",
+  },
+  addColumn: {
+    defaultMessage: "Add column",
+    description:
+      "A button label to add the previewed column to the user's dataset",
+  },
+});
@@ -0,0 +1,213 @@
+import { useEffect, useState } from "react";
+import { Box, Button, Rows, Text, TextInput, Title } from "@canva/app-ui-kit";
+import { useIntl } from "react-intl";
+import { applyFormula, translateFormula } from "src/api";
+import type { FormulaColumn } from "src/api";
+import { FormulaBuilderMessages as Messages } from "./formula_builder.messages";
+
+// How long typing has to pause before the preview is recalculated
+const PREVIEW_DELAY_MS = 400;
+
+const monospace = {
+  fontFamily: "monospace",
+  fontSize: "12px",
+  whiteSpace: "pre-wrap",
+  margin: 0,
+} as const;
+
+const cellStyle = {
+  padding: "4px 8px",
+  borderBottom: "1px solid #e0e0e0",
+  textAlign: "left",
+} as const;
+
+/**
+ * Builds a column from a formula, previewing it for the first rows of the
+ * dataset as the formula is typed. The formula can also be written from a
+ * plain English description. Nothing changes until the column is added.
+ */
+export const FormulaBuilder = ({
+  csvData,
+  onAddColumn,
+}: {
+  csvData: string;
+  /**
+   * Called with the dataset with the new column added, the column's name and
+   * the formula that computes it.
+   */
+  onAddColumn: (csvData: string, columnName: string, formula: string) => void;
+}) => {
+  const intl = useIntl();
+  const [formula, setFormula] = useState("");
+  const [columnName, setColumnName] = useState("");
+  const [description, setDescription] = useState("");
+  const [explanation, setExplanation] = useState("");
+  const [preview, setPreview] = useState<FormulaColumn | null>(null);
+  const [error, setError] = useState("");
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isTranslating, setIsTranslating] = useState(false);
+
+  useEffect(() => {
+    setPreview(null);
+    setError("");
+    setIsPreviewing(false);
+    if (!formula.trim()) {
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsPreviewing(true);
+      try {
+        setPreview(
+          await applyFormula(
+            csvData,
+            formula,
+            columnName.trim() || undefined,
+            controller.signal,
+          ),
+        );
+      } catch (e) {
+        if (!controller.signal.aborted) {
+          setError(e instanceof Error ? e.message : String(e));
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsPreviewing(false);
+        }
+      }
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [csvData, formula, columnName]);
+
+  const writeFormula = async () => {
+    setIsTranslating(true);
+    setError("");
+    try {
+      const translation = await translateFormula(
+        csvData,
+        description,
+        columnName.trim() || undefined,
+      );
+      setFormula(translation.formula);
+      setColumnName(translation.columnName);
+      setExplanation(translation.explanation);
+    } catch (e) {
+      setError(
+        intl.formatMessage(Messages.translateFailed, {
+          error: e instanceof Error ? e.message : String(e),
+        }),
+      );
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  const addColumn = () => {
+    if (!preview) {
+      return;
+    }
+    onAddColumn(preview.csvData, preview.columnName, formula);
+    setFormula("");
+    setColumnName("");
+    setDescription("");
+    setExplanation("");
+  };
+
+  return (
+    <Box padding="1u" background="neutralLow">
+      <Rows spacing="1u">
+        <Title size="small">{intl.formatMessage(Messages.title)}</Title>
+        <Text size="small">{intl.formatMessage(Messages.formulaHint)}</Text>
+        <TextInput
+          placeholder={intl.formatMessage(Messages.descriptionPlaceholder)}
+          value={description}
+          onChange={setDescription}
+        />
+        <Button
+          variant="secondary"
+          onClick={writeFormula}
+          loading={isTranslating}
+          disabled={!description.trim() || isTranslating}
+          stretch
+        >
+          {intl.formatMessage(Messages.translate)}
+        </Button>
+        <TextInput
+          placeholder={intl.formatMessage(Messages.formulaPlaceholder)}
+          value={formula}
+          onChange={(value) => {
+            setFormula(value);
+            setExplanation("");
+          }}
+        />
+        <TextInput
+          placeholder={intl.formatMessage(Messages.columnNamePlaceholder)}
+          value={columnName}
+          onChange={setColumnName}
+        />
+        {explanation && <Text size="small">{explanation}</Text>}
+        {/* Formula errors underline the text at fault, so they keep their spacing */}
+        {error && <pre style={{ ...monospace, color: "#c62828" }}>{error}</pre>}
+        {isPreviewing && (
+          <Text size="small">{intl.formatMessage(Messages.previewing)}</Text>
+        )}
+
+        {preview && (
+          <Rows spacing="1u">
+            <div style={{ overflowX: "auto" }}>
+              <table style={{ borderCollapse: "collapse", ...monospace }}>
+                <thead>
+                  <tr>
+                    {preview.preview.columns.map((column) => (
+                      <th key={column} style={cellStyle}>
+                        {column}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.preview.rows.map((row, i) => (
+                    <tr key={i}>
+                      {row.map((cell, j) => (
+                        <td key={j} style={cellStyle}>
+                          {cell}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {preview.errorCount > 0 && (
+              <Rows spacing="0.5u">
+                <Text size="small" tone="critical">
+                  {intl.formatMessage(Messages.rowErrors, {
+                    errorCount: preview.errorCount,
+                    rowCount: preview.rowCount,
+                  })}
+                </Text>
+                {preview.errors.map(({ row, code, message }) => (
+                  <Text key={row} size="small" tone="tertiary">
+                    {intl.formatMessage(Messages.rowError, {
+                      row,
+                      code,
+                      message,
+                    })}
+                  </Text>
+                ))}
+              </Rows>
+            )}
+            <Button variant="primary" onClick={addColumn} stretch>
+              {intl.formatMessage(Messages.addColumn)}
+            </Button>
+          </Rows>
+        )}
+      </Rows>
+    </Box>
+  );
+};
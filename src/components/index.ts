@@ -6,3 +6,8 @@ export { PromptInput } from "./prompt_input";
 export { RemainingCredits } from "./remaining_credits";
 export { ReportBox } from "./report_box";
 export { DataInfographicPanel } from "./data_infographic_panel";
+export { FormulaBuilder } from "./formula_builder";
+export { DatasetImportPreview } from "./dataset_import_preview";
+export { DatasetCombiner } from "./dataset_combiner";
+export { CleaningPipeline } from "./cleaning_pipeline";
+export { AnomalyReview } from "./anomaly_review";
@@ -35,8 +35,9 @@ export function createBaseServer(router: express.Router): BaseServer {
   const HTTPS_KEY_FILE = process.env?.HTTPS_KEY_FILE;
 
   const app = express();
-  app.use(express.json({ limit: '50mb' }));
-  app.use(express.urlencoded({ limit: '50mb', extended: true }));
+  // Datasets are uploaded in chunks, so no single request needs to be large
+  app.use(express.json({ limit: "10mb" }));
+  app.use(express.urlencoded({ limit: "10mb", extended: true }));
 
   // It can help to provide an extra layer of obsecurity to reduce server fingerprinting.
   app.disable("x-powered-by");
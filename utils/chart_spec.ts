@@ -0,0 +1,111 @@
+/**
+ * A declarative chart description in the style of Vega-Lite. The model
+ * describes charts with these instead of writing plotting code; the server
+ * checks them against the dataset's columns and renders them.
+ */
+
+/**
+ * How marks are drawn. A histogram is a `bar` whose `x` is binned, a pie is
+ * an `arc` and a donut an `arc` with an `innerRadius`, a heatmap is a `rect`.
+ */
+export const CHART_MARKS = [
+  "bar",
+  "line",
+  "area",
+  "point",
+  "arc",
+  "rect",
+  "boxplot",
+] as const;
+
+export type ChartMark = (typeof CHART_MARKS)[number];
+
+/**
+ * What kind of values a channel shows: numbers, unordered categories, ordered
+ * categories, or dates.
+ */
+export const ENCODING_TYPES = [
+  "quantitative",
+  "nominal",
+  "ordinal",
+  "temporal",
+] as const;
+
+export type EncodingType = (typeof ENCODING_TYPES)[number];
+
+/**
+ * How rows sharing the other channels' values are combined. `count` counts
+ * rows and needs no field; `distinct` counts distinct values.
+ */
+export const CHART_AGGREGATES = [
+  "sum",
+  "mean",
+  "median",
+  "min",
+  "max",
+  "count",
+  "distinct",
+] as const;
+
+export type ChartAggregate = (typeof CHART_AGGREGATES)[number];
+
+/** The period dates on a temporal channel are grouped into. */
+export const TIME_UNITS = ["year", "quarter", "month", "week", "day"] as const;
+
+export type TimeUnit = (typeof TIME_UNITS)[number];
+
+/**
+ * The order of a channel's values: by the values themselves, or by another
+ * channel's value, e.g. `-y` to put the tallest bars first.
+ */
+export const CHANNEL_SORTS = [
+  "ascending",
+  "descending",
+  "x",
+  "-x",
+  "y",
+  "-y",
+] as const;
+
+export type ChannelSort = (typeof CHANNEL_SORTS)[number];
+
+/**
+ * Maps a column, or a count of rows, to one visual channel.
+ */
+export interface ChannelEncoding {
+  /** The column shown. Left out only when `aggregate` is `count`. */
+  field?: string;
+  type: EncodingType;
+  aggregate?: ChartAggregate;
+  /** Bins a quantitative field into ranges, as for a histogram. */
+  bin?: boolean | { maxbins: number };
+  timeUnit?: TimeUnit;
+  sort?: ChannelSort;
+  /** The axis or legend title. Defaults to the field name. */
+  title?: string;
+}
+
+/**
+ * The channels a chart maps data to. `theta` is the angle of `arc` slices;
+ * `color` groups marks into series, or colours the cells of a `rect`.
+ */
+export interface ChartEncoding {
+  x?: ChannelEncoding;
+  y?: ChannelEncoding;
+  color?: ChannelEncoding;
+  theta?: ChannelEncoding;
+}
+
+export interface ChartSpec {
+  title: string;
+  /** A sentence on what the chart shows and why it was chosen. */
+  description?: string;
+  mark: ChartMark;
+  encoding: ChartEncoding;
+  /** For `arc` charts, the hole as a fraction of the radius; 0 is a pie. */
+  innerRadius?: number;
+  /** The colour of every mark when nothing is encoded by `color`. */
+  color?: string;
+  /** Colours for the series or slices, in order, as CSS hex colours. */
+  palette?: string[];
+}
@@ -0,0 +1,203 @@
+// How CSV cells are read as values. The panel, profiling and chart rendering
+// share these, so a column is treated as the same type everywhere.
+
+/**
+ * The type of a column, inferred from its values:
+ * - `integer`, `number`: plain numbers, with or without thousands separators.
+ * - `currency`: numbers that all carry a currency symbol, such as `$1,200`.
+ * - `percent`: numbers that all end in `%`; their values are fractions, so
+ *   `12%` is 0.12.
+ * - `date`: ISO dates and times, or dates such as `03/01/2024`.
+ * - `boolean`: true/false or yes/no.
+ * - `category`: text with few distinct values, such as regions.
+ * - `text`: any other text, or a column with no values.
+ */
+export const COLUMN_TYPES = [
+  "integer",
+  "number",
+  "currency",
+  "percent",
+  "date",
+  "boolean",
+  "category",
+  "text",
+] as const;
+
+export type ColumnType = (typeof COLUMN_TYPES)[number];
+
+/** The column types whose values are numbers. */
+export const NUMERIC_COLUMN_TYPES: ReadonlySet<ColumnType> = new Set([
+  "integer",
+  "number",
+  "currency",
+  "percent",
+]);
+
+/** A cell read as its column's type. Missing values are `null`. */
+export type CellValue = number | string | boolean | Date | null;
+
+const MISSING_VALUES = new Set(["", "na", "n/a", "null", "nan", "none", "-"]);
+const BOOLEAN_VALUES = new Set(["true", "false", "yes", "no"]);
+const TRUE_VALUES = new Set(["true", "yes"]);
+const CURRENCY_PATTERN = /^[-+]?\s*[$€£¥₹]|[$€£¥₹]$/;
+const DATE_PATTERN =
+  /^(\d{4}-\d{1,2}-\d{1,2}([T ]\d{1,2}:\d{2}(:\d{2})?.*)?|\d{1,2}[/-]\d{1,2}[/-]\d{2,4})$/;
+
+// A text column with at most this many distinct values, or with each value
+// repeated twice on average, is a category
+const MAX_CATEGORIES = 50;
+
+export const isMissing = (value: string) =>
+  MISSING_VALUES.has(value.trim().toLowerCase());
+
+// A number with commas between groups of three digits, such as `1,200.50`
+const THOUSANDS_NUMBER = /^[-+]?\d{1,3}(,\d{3})+(\.\d+)?$/;
+const PLAIN_NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+// A number with a decimal comma and, optionally, points between groups of
+// three digits, such as `1,5` or `1.234,56`
+const DECIMAL_COMMA_NUMBER = /^[-+]?(\d{1,3}(\.\d{3})+|\d+)(,\d+)?$/;
+
+// A number's text without its currency symbol, percent sign or surrounding
+// spaces
+const numberText = (value: string) =>
+  value
+    .replace(/[$€£¥₹%]/g, "")
+    .trim()
+    .replace(/^([-+])\s+/, "$1");
+
+/**
+ * Reads a number, accepting currency symbols, percent signs and commas
+ * between groups of three digits. A comma anywhere else, as in `1,5`, isn't
+ * read as a thousands separator: such columns are converted to decimal
+ * points when the file is parsed.
+ */
+export const parseNumber = (value: string): number | undefined => {
+  const text = numberText(value);
+  if (THOUSANDS_NUMBER.test(text)) {
+    return Number(text.replace(/,/g, ""));
+  }
+  return PLAIN_NUMBER.test(text) ? Number(text) : undefined;
+};
+
+/**
+ * Whether a column's numbers are written with decimal commas: every value
+ * is a number such as `1,5` or `1.234,56`, and at least one has a comma.
+ * Values such as `1,500` read either way, so a column of only those uses
+ * decimal commas just when they're `preferred`.
+ */
+export const usesDecimalCommas = (cells: string[], preferred: boolean) => {
+  const values = cells.filter((cell) => !isMissing(cell)).map(numberText);
+  if (
+    !values.some((value) => value.includes(",")) ||
+    !values.every((value) => DECIMAL_COMMA_NUMBER.test(value))
+  ) {
+    return false;
+  }
+  return (
+    preferred ||
+    !values.every(
+      (value) => THOUSANDS_NUMBER.test(value) || PLAIN_NUMBER.test(value),
+    )
+  );
+};
+
+/**
+ * Rewrites a number with a decimal comma with a decimal point, keeping its
+ * currency symbol or percent sign: `1.234,56 €` becomes `1234.56 €`.
+ */
+export const toDecimalPoint = (cell: string) =>
+  cell.replace(/\./g, "").replace(",", ".");
+
+/**
+ * Reads a date as milliseconds since the epoch.
+ */
+export const parseDate = (value: string): number | undefined => {
+  const trimmed = value.trim();
+  if (!DATE_PATTERN.test(trimmed)) {
+    return undefined;
+  }
+  const time = Date.parse(trimmed);
+  return isNaN(time) ? undefined : time;
+};
+
+/**
+ * Whether a cell could be a value of a column of a type. Any cell could be
+ * text.
+ */
+export const fitsColumnType = (cell: string, type: ColumnType) => {
+  switch (type) {
+    case "integer":
+    case "number":
+    case "currency":
+    case "percent":
+      return parseNumber(cell) !== undefined;
+    case "date":
+      return parseDate(cell) !== undefined;
+    case "boolean":
+      return BOOLEAN_VALUES.has(cell.trim().toLowerCase());
+    default:
+      return true;
+  }
+};
+
+/**
+ * Infers a column's type from its cells. Every value that isn't missing must
+ * fit the type, so one stray word makes a column of numbers text.
+ */
+export const inferColumnType = (cells: string[]): ColumnType => {
+  const values = cells.map((cell) => cell.trim()).filter((v) => !isMissing(v));
+  if (values.length === 0) {
+    return "text";
+  }
+
+  const numbers = values.map(parseNumber);
+  if (numbers.every((n) => n !== undefined)) {
+    if (values.every((v) => CURRENCY_PATTERN.test(v))) {
+      return "currency";
+    }
+    if (values.every((v) => v.endsWith("%"))) {
+      return "percent";
+    }
+    return numbers.every((n) => Number.isInteger(n)) ? "integer" : "number";
+  }
+  if (values.every((v) => fitsColumnType(v, "boolean"))) {
+    return "boolean";
+  }
+  if (values.every((v) => fitsColumnType(v, "date"))) {
+    return "date";
+  }
+
+  const distinct = new Set(values).size;
+  return distinct <= MAX_CATEGORIES || distinct <= values.length / 2
+    ? "category"
+    : "text";
+};
+
+/**
+ * Reads a cell as a value of its column's type. Missing cells, and cells
+ * that don't fit the type, are `null`.
+ */
+export const readCellValue = (cell: string, type: ColumnType): CellValue => {
+  if (isMissing(cell)) {
+    return null;
+  }
+  switch (type) {
+    case "integer":
+    case "number":
+    case "currency": {
+      return parseNumber(cell) ?? null;
+    }
+    case "percent": {
+      const number = parseNumber(cell);
+      return number === undefined ? null : number / 100;
+    }
+    case "date": {
+      const time = parseDate(cell);
+      return time === undefined ? null : new Date(time);
+    }
+    case "boolean":
+      return TRUE_VALUES.has(cell.trim().toLowerCase());
+    default:
+      return cell.trim();
+  }
+};
@@ -0,0 +1,101 @@
+export const CSV_ENCODINGS = [
+  "utf-8",
+  "utf-16le",
+  "utf-16be",
+  "windows-1252",
+] as const;
+
+export type CsvEncoding = (typeof CSV_ENCODINGS)[number];
+
+// The share of zero bytes in alternate positions that marks UTF-16 text
+// without a byte order mark; ASCII text in UTF-16 has a zero in every other
+// byte
+const UTF16_ZERO_SHARE = 0.3;
+const UTF16_SAMPLE_BYTES = 4096;
+
+// What Windows-1252 puts at bytes 0x80 to 0x9F, where Latin-1 has control
+// characters; the rest of it is Latin-1. Some TextDecoder implementations
+// treat the two as the same, so this decodes it by hand.
+const WINDOWS_1252_HIGH =
+  "€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ";
+
+const decodeWindows1252 = (bytes: Uint8Array) => {
+  let text = "";
+  for (const byte of bytes) {
+    text +=
+      byte >= 0x80 && byte < 0xa0
+        ? WINDOWS_1252_HIGH[byte - 0x80]
+        : String.fromCharCode(byte);
+  }
+  return text;
+};
+
+const startsWith = (bytes: Uint8Array, prefix: number[]) =>
+  prefix.every((byte, index) => bytes[index] === byte);
+
+// Guesses UTF-16 without a byte order mark from where its zero bytes are
+const sniffUtf16 = (bytes: Uint8Array): CsvEncoding | undefined => {
+  const length = Math.min(bytes.length, UTF16_SAMPLE_BYTES);
+  if (length < 4) {
+    return undefined;
+  }
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < length; i++) {
+    if (bytes[i] === 0) {
+      if (i % 2 === 0) {
+        evenZeros++;
+      } else {
+        oddZeros++;
+      }
+    }
+  }
+  const pairs = length / 2;
+  if (oddZeros / pairs >= UTF16_ZERO_SHARE && evenZeros === 0) {
+    return "utf-16le";
+  }
+  if (evenZeros / pairs >= UTF16_ZERO_SHARE && oddZeros === 0) {
+    return "utf-16be";
+  }
+  return undefined;
+};
+
+/**
+ * Decodes the bytes of a CSV file. A byte order mark says which Unicode
+ * encoding the file is in; without one, UTF-16 is recognised by its zero
+ * bytes, and anything that isn't valid UTF-8 is read as Windows-1252, which
+ * is what spreadsheet programs on Windows save "CSV" as.
+ */
+export const decodeCsv = (
+  data: ArrayBuffer | Uint8Array,
+): { text: string; encoding: CsvEncoding } => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const decode = (encoding: CsvEncoding, start = 0) => ({
+    text: new TextDecoder(encoding, { ignoreBOM: true }).decode(
+      bytes.subarray(start),
+    ),
+    encoding,
+  });
+
+  if (startsWith(bytes, [0xef, 0xbb, 0xbf])) {
+    return decode("utf-8", 3);
+  }
+  if (startsWith(bytes, [0xff, 0xfe])) {
+    return decode("utf-16le", 2);
+  }
+  if (startsWith(bytes, [0xfe, 0xff])) {
+    return decode("utf-16be", 2);
+  }
+  const utf16 = sniffUtf16(bytes);
+  if (utf16) {
+    return decode(utf16);
+  }
+  try {
+    return {
+      text: new TextDecoder("utf-8", { fatal: true }).decode(bytes),
+      encoding: "utf-8",
+    };
+  } catch {
+    return { text: decodeWindows1252(bytes), encoding: "windows-1252" };
+  }
+};
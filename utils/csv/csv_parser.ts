@@ -0,0 +1,288 @@
+import {
+  fitsColumnType,
+  inferColumnType,
+  isMissing,
+  toDecimalPoint,
+  usesDecimalCommas,
+} from "./column_types";
+
+export const CSV_DELIMITERS = [",", ";", "\t", "|"] as const;
+
+export type CsvDelimiter = (typeof CSV_DELIMITERS)[number];
+
+/**
+ * A CSV file split into its header and data rows. Every row has one cell per
+ * header column: short rows are padded with empty cells and long rows are
+ * trimmed.
+ */
+export interface CsvTable {
+  header: string[];
+  rows: string[][];
+}
+
+export interface CsvParseOptions {
+  /** The field separator, or `auto` (the default) to sniff it. */
+  delimiter?: CsvDelimiter | "auto";
+  /**
+   * Whether the first record is a header row (the default), or `auto` to
+   * guess from whether it looks like the records below it.
+   */
+  header?: boolean | "auto";
+}
+
+/**
+ * A table made from records, with whether it had a header row and how well
+ * its records lined up with it.
+ */
+export interface RecordTable extends CsvTable {
+  /** False when the columns were given generated names. */
+  hasHeader: boolean;
+  /** How many records had more or fewer fields than the header. */
+  irregularRows: number;
+}
+
+/**
+ * A parsed CSV file, with what was found out about its format.
+ */
+export interface ParsedCsv extends RecordTable {
+  delimiter: CsvDelimiter;
+}
+
+// How much of a file delimiter sniffing reads
+const SNIFF_CHARACTERS = 65_536;
+const SNIFF_RECORDS = 20;
+
+/**
+ * Splits CSV text into records as RFC 4180 describes: a field that starts
+ * with a quote runs to the closing quote, and may contain the delimiter,
+ * escaped quotes (`""`) or line breaks. Blank lines are not records.
+ */
+export const readCsvRecords = (
+  text: string,
+  delimiter: CsvDelimiter = ",",
+  maxRecords = Infinity,
+): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const endRecord = () => {
+    record.push(field);
+    // Blank lines are not records
+    if (record.length > 1 || record[0].trim() !== "") {
+      records.push(record);
+    }
+    record = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length && records.length < maxRecords; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+
+  if ((field !== "" || record.length > 0) && records.length < maxRecords) {
+    endRecord();
+  }
+  return records;
+};
+
+/**
+ * Guesses the delimiter of CSV text: the one that splits the first records
+ * into the same number of fields most consistently, preferring more fields
+ * and then the order of `CSV_DELIMITERS`. Text with none of them is read as
+ * comma-separated.
+ */
+export const sniffDelimiter = (text: string): CsvDelimiter => {
+  const sample = text.slice(0, SNIFF_CHARACTERS);
+  let best = { delimiter: "," as CsvDelimiter, consistency: 0, fields: 1 };
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const records = readCsvRecords(sample, delimiter, SNIFF_RECORDS + 1);
+    // The last record may have been cut off by the end of the sample
+    if (sample.length < text.length && records.length > 1) {
+      records.pop();
+    }
+    const counts = new Map<number, number>();
+    for (const record of records) {
+      counts.set(record.length, (counts.get(record.length) ?? 0) + 1);
+    }
+    let fields = 1;
+    let frequency = 0;
+    for (const [count, seen] of counts) {
+      if (seen > frequency || (seen === frequency && count > fields)) {
+        fields = count;
+        frequency = seen;
+      }
+    }
+    const consistency = fields > 1 ? frequency / records.length : 0;
+    if (
+      consistency > best.consistency ||
+      (consistency === best.consistency &&
+        consistency > 0 &&
+        fields > best.fields)
+    ) {
+      best = { delimiter, consistency, fields };
+    }
+  }
+  return best.delimiter;
+};
+
+/**
+ * Guesses whether the first record is a header row by comparing each of its
+ * cells with the column below it. A cell that isn't a number in a column of
+ * numbers, or a date in a column of dates, counts for a header; one that
+ * fits, or repeats a category below it, counts against. A tie counts as a
+ * header, since most files have one.
+ */
+export const detectHeader = (records: string[][]): boolean => {
+  if (records.length < 2) {
+    return true;
+  }
+  const [first, ...rest] = records;
+  let votes = 0;
+  first.forEach((cell, index) => {
+    if (isMissing(cell)) {
+      return;
+    }
+    const column = rest.map((record) => record[index] ?? "");
+    const type = inferColumnType(column);
+    if (type === "text") {
+      return;
+    }
+    if (type === "category") {
+      const value = cell.trim();
+      votes += column.some((other) => other.trim() === value) ? -1 : 0;
+      return;
+    }
+    votes += fitsColumnType(cell, type) ? -1 : 1;
+  });
+  return votes >= 0;
+};
+
+// Names columns that have no name, and tells apart ones with the same name
+const nameColumns = (names: string[]) => {
+  const seen = new Map<string, number>();
+  return names.map((raw, index) => {
+    const name = raw.trim() || `Column ${index + 1}`;
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    return count === 1 ? name : `${name} (${count})`;
+  });
+};
+
+/**
+ * Makes a table from records, such as the rows of a CSV file or a
+ * spreadsheet. Columns without a name are called `Column 1`, `Column 2` and
+ * so on, and repeated names get a number, so every column can be told apart
+ * by name.
+ * @param header - Whether the first record is a header row, or `auto` to
+ * guess.
+ */
+export const tableFromRecords = (
+  records: string[][],
+  header: boolean | "auto" = true,
+): RecordTable => {
+  const hasHeader = header === "auto" ? detectHeader(records) : header;
+  const width = hasHeader
+    ? (records[0]?.length ?? 0)
+    : records.reduce((most, record) => Math.max(most, record.length), 0);
+  const names = hasHeader ? (records[0] ?? []) : Array<string>(width).fill("");
+  const dataRecords = hasHeader ? records.slice(1) : records;
+
+  return {
+    header: nameColumns(names),
+    rows: dataRecords.map((record) =>
+      Array.from({ length: width }, (_, index) => record[index] ?? ""),
+    ),
+    hasHeader,
+    irregularRows: dataRecords.filter((record) => record.length !== width)
+      .length,
+  };
+};
+
+// Rewrites columns of numbers with decimal commas with decimal points, so
+// every reader of the table sees the same numbers. Decimal commas are the
+// norm in semicolon-separated files, so there a column such as `1,500` is
+// read as one and a half rather than fifteen hundred.
+const withDecimalPoints = (
+  { header, rows }: CsvTable,
+  delimiter: CsvDelimiter,
+) => {
+  const converted = header.map((_, index) =>
+    usesDecimalCommas(
+      rows.map((row) => row[index]),
+      delimiter === ";",
+    ),
+  );
+  if (!converted.includes(true)) {
+    return rows;
+  }
+  return rows.map((row) =>
+    row.map((cell, index) =>
+      converted[index] && !isMissing(cell) ? toDecimalPoint(cell) : cell,
+    ),
+  );
+};
+
+/**
+ * Parses CSV text. The delimiter is sniffed unless given, a byte order mark
+ * is ignored, and numbers with decimal commas are given decimal points.
+ */
+export const parseCsv = (
+  text: string,
+  { delimiter = "auto", header = true }: CsvParseOptions = {},
+): ParsedCsv => {
+  const content = text.replace(/^\uFEFF/, "");
+  const separator = delimiter === "auto" ? sniffDelimiter(content) : delimiter;
+  const table = tableFromRecords(readCsvRecords(content, separator), header);
+  return {
+    ...table,
+    rows: withDecimalPoints(table, separator),
+    delimiter: separator,
+  };
+};
+
+/**
+ * Formats one row as a CSV line, quoting cells that need it.
+ */
+export const formatCsvRow = (
+  cells: string[],
+  delimiter: CsvDelimiter = ",",
+): string =>
+  cells
+    .map((cell) =>
+      cell.includes(delimiter) || /[",\r\n]/.test(cell)
+        ? `"${cell.replace(/"/g, '""')}"`
+        : cell,
+    )
+    .join(delimiter);
+
+/**
+ * Formats a table as comma-separated CSV with a header row, the form every
+ * route of the backend takes.
+ */
+export const formatCsv = ({ header, rows }: CsvTable): string =>
+  [header, ...rows].map((row) => formatCsvRow(row)).join("\n");
@@ -0,0 +1,32 @@
+export type { CellValue, ColumnType } from "./column_types";
+export type { CsvEncoding } from "./csv_encoding";
+export type {
+  CsvDelimiter,
+  CsvParseOptions,
+  CsvTable,
+  ParsedCsv,
+  RecordTable,
+} from "./csv_parser";
+export type { TypedColumn, TypedTable } from "./typed_table";
+export {
+  COLUMN_TYPES,
+  fitsColumnType,
+  inferColumnType,
+  isMissing,
+  NUMERIC_COLUMN_TYPES,
+  parseDate,
+  parseNumber,
+  readCellValue,
+} from "./column_types";
+export { CSV_ENCODINGS, decodeCsv } from "./csv_encoding";
+export {
+  CSV_DELIMITERS,
+  detectHeader,
+  formatCsv,
+  formatCsvRow,
+  parseCsv,
+  readCsvRecords,
+  sniffDelimiter,
+  tableFromRecords,
+} from "./csv_parser";
+export { readCsvFile, readTypedTable, typeTable } from "./typed_table";
@@ -0,0 +1,222 @@
+/** @jest-environment node */
+import {
+  decodeCsv,
+  detectHeader,
+  formatCsv,
+  inferColumnType,
+  parseCsv,
+  parseNumber,
+  readCellValue,
+  readCsvFile,
+  readCsvRecords,
+  readTypedTable,
+  sniffDelimiter,
+} from "../index";
+
+describe("parseCsv", () => {
+  it("handles quoted fields, escaped quotes, line breaks and a BOM", () => {
+    expect(
+      parseCsv('﻿Name,Note\r\n"Smith, J","said ""hi""\nthen left"\r\n\r\nLee'),
+    ).toEqual({
+      header: ["Name", "Note"],
+      rows: [
+        ["Smith, J", 'said "hi"\nthen left'],
+        ["Lee", ""],
+      ],
+      delimiter: ",",
+      hasHeader: true,
+      irregularRows: 1,
+    });
+  });
+
+  it("names unnamed and repeated columns", () => {
+    expect(parseCsv("Sales,,Sales\n1,2,3").header).toEqual([
+      "Sales",
+      "Column 2",
+      "Sales (2)",
+    ]);
+  });
+
+  it("converts decimal commas in semicolon-separated files", () => {
+    expect(parseCsv("Produkt;Preis\nA;1,5\nB;2,25\nC;1.234,56").rows).toEqual([
+      ["A", "1.5"],
+      ["B", "2.25"],
+      ["C", "1234.56"],
+    ]);
+    expect(parseCsv("Produkt;Preis\nA;1,500\nB;-").rows).toEqual([
+      ["A", "1.500"],
+      ["B", "-"],
+    ]);
+  });
+
+  it("detects decimal commas per column in comma-separated files", () => {
+    const table = parseCsv(
+      'Item,Price,Stock\nA,"1,5","1,200"\nB,"12,25 €","3,400"',
+    );
+    expect(table.rows).toEqual([
+      ["A", "1.5", "1,200"],
+      ["B", "12.25 €", "3,400"],
+    ]);
+  });
+
+  it("generates a header when the file has none", () => {
+    const table = parseCsv("North,10\nSouth,20,x", { header: false });
+    expect(table.header).toEqual(["Column 1", "Column 2", "Column 3"]);
+    expect(table.rows).toEqual([
+      ["North", "10", ""],
+      ["South", "20", "x"],
+    ]);
+  });
+});
+
+describe("sniffDelimiter", () => {
+  it.each([
+    ["Region,Sales\nNorth,10\nSouth,20", ","],
+    ["Region;Sales\nNorth;1,5\nSouth;2,25", ";"],
+    ["Region\tSales\nNorth\t10\nSouth\t20", "\t"],
+    ["Region|Sales|Note\nNorth|10|a, b\nSouth|20|c", "|"],
+  ])("recognises %j", (text, delimiter) => {
+    expect(sniffDelimiter(text)).toBe(delimiter);
+  });
+
+  it("ignores delimiters inside quotes", () => {
+    expect(sniffDelimiter('Name;Note\n"Lee, J";"a, b, c"\nKim;d')).toBe(";");
+  });
+
+  it("falls back to commas for a single column", () => {
+    expect(sniffDelimiter("Region\nNorth\nSouth")).toBe(",");
+  });
+});
+
+describe("detectHeader", () => {
+  const records = (text: string) => readCsvRecords(text);
+
+  it("recognises a header above typed columns", () => {
+    expect(
+      detectHeader(records("Date,Sales\n2024-01-01,10\n2024-01-02,20")),
+    ).toBe(true);
+  });
+
+  it("recognises a first row of data", () => {
+    expect(
+      detectHeader(records("2024-01-01,10\n2024-01-02,20\n2024-01-03,5")),
+    ).toBe(false);
+    expect(detectHeader(records("North,10\nSouth,20\nNorth,5"))).toBe(false);
+  });
+});
+
+describe("column types", () => {
+  it.each([
+    [["1", "2", "-3"], "integer"],
+    [["1.5", "2", "1,200"], "number"],
+    [["$1,200", "$3.50", "-$2"], "currency"],
+    [["12%", "3.5%", "100%"], "percent"],
+    [["2024-01-01", "2024-02-29T10:00", ""], "date"],
+    [["yes", "No", "n/a"], "boolean"],
+    [["North", "South", "North"], "category"],
+    [["", "NA", "-"], "text"],
+  ])("infers %j as %s", (cells, type) => {
+    expect(inferColumnType(cells)).toBe(type);
+  });
+
+  it("reads commas as thousands separators only between groups of three", () => {
+    expect(parseNumber("1,234,567.5")).toBe(1234567.5);
+    expect(parseNumber("-$1,200")).toBe(-1200);
+    expect(parseNumber("1,5")).toBeUndefined();
+    expect(parseNumber("2,25")).toBeUndefined();
+    expect(parseNumber("1.234,56")).toBeUndefined();
+  });
+
+  it("reads cells as values of their type", () => {
+    expect(readCellValue("12.5%", "percent")).toBe(0.125);
+    expect(readCellValue("$1,200", "currency")).toBe(1200);
+    expect(readCellValue("Yes", "boolean")).toBe(true);
+    expect(readCellValue("2024-01-02", "date")).toEqual(new Date("2024-01-02"));
+    expect(readCellValue("n/a", "number")).toBeNull();
+  });
+});
+
+describe("readTypedTable", () => {
+  it("types every column and counts missing cells", () => {
+    const table = readTypedTable("Region;Sales;Share\nNorth;10;5%\nSouth;;7%");
+    expect(table.delimiter).toBe(";");
+    expect(
+      table.columns.map(({ name, type, values, missing }) => ({
+        name,
+        type,
+        values,
+        missing,
+      })),
+    ).toEqual([
+      {
+        name: "Region",
+        type: "category",
+        values: ["North", "South"],
+        missing: 0,
+      },
+      { name: "Sales", type: "integer", values: [10, null], missing: 1 },
+      { name: "Share", type: "percent", values: [0.05, 0.07], missing: 0 },
+    ]);
+  });
+
+  it("reads decimal commas as numbers", () => {
+    const table = readTypedTable("Produkt;Preis\nA;1,5\nB;2,25\nC;1.234,56");
+    expect(table.columns[1]).toMatchObject({
+      type: "number",
+      values: [1.5, 2.25, 1234.56],
+    });
+  });
+
+  it("formats back to comma-separated CSV", () => {
+    const table = readTypedTable('Name;Note\nLee;"a, ""b"""');
+    expect(formatCsv(table)).toBe('Name,Note\nLee,"a, ""b"""');
+  });
+});
+
+describe("decodeCsv", () => {
+  it("reads UTF-8, with or without a byte order mark", () => {
+    const bytes = new TextEncoder().encode("Café,1");
+    expect(decodeCsv(bytes)).toEqual({ text: "Café,1", encoding: "utf-8" });
+    expect(decodeCsv(new Uint8Array([0xef, 0xbb, 0xbf, ...bytes]))).toEqual({
+      text: "Café,1",
+      encoding: "utf-8",
+    });
+  });
+
+  it("reads UTF-16 by its byte order mark or its zero bytes", () => {
+    const utf16le = Uint8Array.from(
+      [..."Café,1"].flatMap((c) => [c.charCodeAt(0), 0]),
+    );
+    expect(decodeCsv(utf16le)).toEqual({
+      text: "Café,1",
+      encoding: "utf-16le",
+    });
+    expect(decodeCsv(new Uint8Array([0xfe, 0xff, 0, 0x41, 0, 0x2c]))).toEqual({
+      text: "A,",
+      encoding: "utf-16be",
+    });
+  });
+
+  it("reads other files as Windows-1252", () => {
+    // "Café €5" as saved by a spreadsheet program on Windows
+    const bytes = new Uint8Array([0x43, 0x61, 0x66, 0xe9, 0x20, 0x80, 0x35]);
+    expect(decodeCsv(bytes)).toEqual({
+      text: "Café €5",
+      encoding: "windows-1252",
+    });
+  });
+});
+
+describe("readCsvFile", () => {
+  it("decodes, sniffs and types an uploaded file", () => {
+    const bytes = new TextEncoder().encode("North\t10\nSouth\t20\nEast\t5");
+    const table = readCsvFile(bytes);
+    expect(table).toMatchObject({
+      encoding: "utf-8",
+      delimiter: "\t",
+      hasHeader: false,
+      header: ["Column 1", "Column 2"],
+    });
+    expect(table.columns[1].values).toEqual([10, 20, 5]);
+  });
+});
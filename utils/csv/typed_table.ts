@@ -0,0 +1,64 @@
+import type { CellValue, ColumnType } from "./column_types";
+import { inferColumnType, isMissing, readCellValue } from "./column_types";
+import type { CsvEncoding } from "./csv_encoding";
+import { decodeCsv } from "./csv_encoding";
+import type { CsvParseOptions, CsvTable, ParsedCsv } from "./csv_parser";
+import { parseCsv } from "./csv_parser";
+
+/**
+ * A column of a table, with its values read as its inferred type.
+ */
+export interface TypedColumn {
+  name: string;
+  type: ColumnType;
+  /** One value per row; missing cells are `null`. */
+  values: CellValue[];
+  /** How many cells are missing. */
+  missing: number;
+}
+
+/**
+ * A table with its columns typed. `rows` keeps the cells as text, for routes
+ * that send the table on as CSV.
+ */
+export interface TypedTable extends CsvTable {
+  columns: TypedColumn[];
+}
+
+/**
+ * Infers the type of each column of a table and reads its values.
+ */
+export const typeTable = <T extends CsvTable>(table: T): T & TypedTable => ({
+  ...table,
+  columns: table.header.map((name, index) => {
+    const cells = table.rows.map((row) => row[index]);
+    const type = inferColumnType(cells);
+    return {
+      name,
+      type,
+      values: cells.map((cell) => readCellValue(cell, type)),
+      missing: cells.filter(isMissing).length,
+    };
+  }),
+});
+
+/**
+ * Parses CSV text into a typed table.
+ */
+export const readTypedTable = (
+  text: string,
+  options?: CsvParseOptions,
+): ParsedCsv & TypedTable => typeTable(parseCsv(text, options));
+
+/**
+ * Reads an uploaded CSV file: decodes its bytes, then parses and types it.
+ * Unlike text that came from the app, a file may not have a header row, so
+ * by default one is only assumed if the first row looks like one.
+ */
+export const readCsvFile = (
+  data: ArrayBuffer | Uint8Array,
+  options: CsvParseOptions = { header: "auto" },
+): ParsedCsv & TypedTable & { encoding: CsvEncoding } => {
+  const { text, encoding } = decodeCsv(data);
+  return { ...readTypedTable(text, options), encoding };
+};
@@ -0,0 +1,20 @@
+/**
+ * Why a cleaning step or recipe couldn't be applied:
+ * - `column`: a step names a column the data doesn't have, or renames one to
+ *   a name already taken.
+ * - `step`: a step's settings are invalid, such as a fuzzy threshold above 1.
+ * - `recipe`: a saved recipe couldn't be read.
+ */
+export const CLEANING_ERROR_CATEGORIES = ["column", "step", "recipe"] as const;
+
+export type CleaningErrorCategory = (typeof CLEANING_ERROR_CATEGORIES)[number];
+
+export class CleaningError extends Error {
+  constructor(
+    readonly category: CleaningErrorCategory,
+    message: string,
+  ) {
+    super(message);
+    Object.setPrototypeOf(this, CleaningError.prototype);
+  }
+}
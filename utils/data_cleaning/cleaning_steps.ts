@@ -0,0 +1,200 @@
+/**
+ * The kinds of cleaning step, in the order the panel offers them. Formula
+ * columns are added with the formula builder instead.
+ */
+export const CLEANING_STEP_KINDS = [
+  "dedupe",
+  "trim",
+  "case",
+  "coerce",
+  "parseDates",
+  "impute",
+  "capOutliers",
+  "rename",
+  "drop",
+  "filter",
+  "formula",
+] as const;
+
+export type CleaningStepKind = (typeof CLEANING_STEP_KINDS)[number];
+
+/**
+ * How rows are found to repeat each other:
+ * - `exact`: every compared cell is the same.
+ * - `fuzzy`: the compared cells are the same after ignoring case, spacing and
+ *   punctuation, or nearly the same, as with a typo.
+ */
+export const DEDUPE_MODES = ["exact", "fuzzy"] as const;
+
+export type DedupeMode = (typeof DEDUPE_MODES)[number];
+
+export const CASE_STYLES = ["lower", "upper", "title"] as const;
+
+export type CaseStyle = (typeof CASE_STYLES)[number];
+
+/**
+ * The types a column can be converted to. Cells that can't be read as the
+ * type are emptied.
+ */
+export const COERCE_TYPES = ["number", "integer", "boolean"] as const;
+
+export type CoerceType = (typeof COERCE_TYPES)[number];
+
+/**
+ * How dates written as `01/02/2024` are read: `mdy` is January 2, `dmy`
+ * February 1.
+ */
+export const DATE_ORDERS = ["mdy", "dmy"] as const;
+
+export type DateOrder = (typeof DATE_ORDERS)[number];
+
+/**
+ * How missing cells are filled:
+ * - `mean`, `median`: of the column's numbers.
+ * - `mode`: the column's most frequent value.
+ * - `forwardFill`: the nearest value above.
+ * - `constant`: a value the user chooses.
+ */
+export const IMPUTE_METHODS = [
+  "mean",
+  "median",
+  "mode",
+  "forwardFill",
+  "constant",
+] as const;
+
+export type ImputeMethod = (typeof IMPUTE_METHODS)[number];
+
+/**
+ * Where outliers are capped:
+ * - `iqr`: `factor` interquartile ranges beyond the quartiles.
+ * - `percentile`: at the `lower` and `upper` quantiles.
+ */
+export const CAP_METHODS = ["iqr", "percentile"] as const;
+
+export type CapMethod = (typeof CAP_METHODS)[number];
+
+export const FILTER_OPERATORS = [
+  "equals",
+  "notEquals",
+  "contains",
+  "greaterThan",
+  "lessThan",
+  "present",
+  "missing",
+] as const;
+
+export type FilterOperator = (typeof FILTER_OPERATORS)[number];
+
+/** Drops rows that repeat an earlier row, keeping the first. */
+export interface DedupeStep {
+  kind: "dedupe";
+  mode: DedupeMode;
+  /** The columns compared; all of them if left out. */
+  columns?: string[];
+  /** How similar fuzzy rows must be, from 0 to 1 (default 0.9). */
+  threshold?: number;
+}
+
+/** Removes spaces around cells, and optionally repeated spaces inside. */
+export interface TrimStep {
+  kind: "trim";
+  /** All columns if left out. */
+  columns?: string[];
+  collapseSpaces?: boolean;
+}
+
+export interface CaseStep {
+  kind: "case";
+  columns: string[];
+  style: CaseStyle;
+}
+
+export interface CoerceStep {
+  kind: "coerce";
+  column: string;
+  type: CoerceType;
+}
+
+/** Rewrites dates as ISO dates such as `2024-01-02`. */
+export interface ParseDatesStep {
+  kind: "parseDates";
+  column: string;
+  order?: DateOrder;
+}
+
+export interface ImputeStep {
+  kind: "impute";
+  column: string;
+  method: ImputeMethod;
+  /** The value `constant` fills in. */
+  value?: string;
+}
+
+/** Clamps a column's numbers to a range, leaving other cells alone. */
+export interface CapOutliersStep {
+  kind: "capOutliers";
+  column: string;
+  method: CapMethod;
+  /** For `iqr`, the number of interquartile ranges (default 1.5). */
+  factor?: number;
+  /** For `percentile`, the quantiles to cap at (default 0.01 and 0.99). */
+  lower?: number;
+  upper?: number;
+}
+
+export interface RenameStep {
+  kind: "rename";
+  column: string;
+  to: string;
+}
+
+export interface DropStep {
+  kind: "drop";
+  columns: string[];
+}
+
+/**
+ * Keeps the rows whose cell matches. `greaterThan` and `lessThan` compare
+ * numbers, or else dates, and drop rows where neither can be compared.
+ */
+export interface FilterStep {
+  kind: "filter";
+  column: string;
+  operator: FilterOperator;
+  value?: string;
+}
+
+/**
+ * Adds a column computed from a formula (see utils/formula) for every row.
+ * Rows the formula fails for get an error code such as `#DIV/0!`.
+ */
+export interface FormulaStep {
+  kind: "formula";
+  column: string;
+  formula: string;
+}
+
+export type CleaningStep =
+  | DedupeStep
+  | TrimStep
+  | CaseStep
+  | CoerceStep
+  | ParseDatesStep
+  | ImputeStep
+  | CapOutliersStep
+  | RenameStep
+  | DropStep
+  | FilterStep
+  | FormulaStep;
+
+export const RECIPE_VERSION = 1;
+
+/**
+ * The steps that cleaned a dataset, in order. Columns are named rather than
+ * numbered, so a recipe can be replayed on a refreshed copy of the data.
+ */
+export interface CleaningRecipe {
+  version: typeof RECIPE_VERSION;
+  steps: CleaningStep[];
+}
@@ -0,0 +1,96 @@
+import type { CsvTable } from "../csv";
+import type { CompiledFormula } from "../formula";
+import {
+  CellError,
+  compileFormula,
+  evaluateFormula,
+  formatFormulaValue,
+  FormulaError,
+} from "../formula";
+import { CleaningError } from "./cleaning_error";
+import type { DropStep, FormulaStep, RenameStep } from "./cleaning_steps";
+import type { StepOutcome } from "./step_outcome";
+import {
+  addColumn,
+  columnIndex,
+  columnIndexes,
+  keepColumns,
+} from "./step_outcome";
+
+// A new column's name, trimmed
+const newColumnName = (table: CsvTable, column: string) => {
+  const name = column.trim();
+  if (!name) {
+    throw new CleaningError("step", "Choose a name for the column");
+  }
+  if (table.header.includes(name)) {
+    throw new CleaningError(
+      "column",
+      `The data already has a column named "${name}"`,
+    );
+  }
+  return name;
+};
+
+/**
+ * Renames a column.
+ * @throws CleaningError if the new name is empty or another column's.
+ */
+export const renameColumn = (
+  table: CsvTable,
+  { column, to }: RenameStep,
+): StepOutcome => {
+  const index = columnIndex(table, column);
+  const name = to.trim();
+  if (!name) {
+    throw new CleaningError("step", "Choose a new name for the column");
+  }
+  if (table.header.some((other, i) => i !== index && other === name)) {
+    throw new CleaningError(
+      "column",
+      `The data already has a column named "${name}"`,
+    );
+  }
+  return keepColumns(
+    table,
+    table.header.map((_, i) => i),
+    table.header.map((other, i) => (i === index ? name : other)),
+  );
+};
+
+/**
+ * Adds a column computed from a formula. Rows the formula fails for count as
+ * invalid cells.
+ * @throws CleaningError if the name is empty or taken, or the formula doesn't
+ * compile against the data's columns.
+ */
+export const addFormulaColumn = (
+  table: CsvTable,
+  { column, formula }: FormulaStep,
+): StepOutcome => {
+  const name = newColumnName(table, column);
+  let compiled: CompiledFormula;
+  try {
+    compiled = compileFormula(formula, table.header);
+  } catch (e) {
+    if (e instanceof FormulaError) {
+      throw new CleaningError("step", e.message);
+    }
+    throw e;
+  }
+  const values = evaluateFormula(compiled, table);
+  return addColumn(
+    table,
+    name,
+    values.map(formatFormulaValue),
+    values.filter((value) => value instanceof CellError).length,
+  );
+};
+
+export const dropColumns = (table: CsvTable, step: DropStep): StepOutcome => {
+  const dropped = new Set(columnIndexes(table, step.columns));
+  return keepColumns(
+    table,
+    table.header.map((_, i) => i).filter((i) => !dropped.has(i)),
+  );
+};
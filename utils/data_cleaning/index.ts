@@ -0,0 +1,38 @@
+export type { CleaningErrorCategory } from "./cleaning_error";
+export type {
+  CapMethod,
+  CapOutliersStep,
+  CaseStep,
+  CaseStyle,
+  CleaningRecipe,
+  CleaningStep,
+  CleaningStepKind,
+  CoerceStep,
+  CoerceType,
+  DateOrder,
+  DedupeMode,
+  DedupeStep,
+  DropStep,
+  FilterOperator,
+  FilterStep,
+  FormulaStep,
+  ImputeMethod,
+  ImputeStep,
+  ParseDatesStep,
+  RenameStep,
+  TrimStep,
+} from "./cleaning_steps";
+export type { CellChange, StepReport, StepResult } from "./recipe";
+export { CLEANING_ERROR_CATEGORIES, CleaningError } from "./cleaning_error";
+export {
+  CAP_METHODS,
+  CASE_STYLES,
+  CLEANING_STEP_KINDS,
+  COERCE_TYPES,
+  DATE_ORDERS,
+  DEDUPE_MODES,
+  FILTER_OPERATORS,
+  IMPUTE_METHODS,
+  RECIPE_VERSION,
+} from "./cleaning_steps";
+export { applyStep, parseRecipe, runRecipe, serializeRecipe } from "./recipe";
@@ -0,0 +1,288 @@
+import type { CsvTable } from "../csv";
+import { CleaningError } from "./cleaning_error";
+import type {
+  CleaningRecipe,
+  CleaningStep,
+  CleaningStepKind,
+} from "./cleaning_steps";
+import {
+  CAP_METHODS,
+  CASE_STYLES,
+  CLEANING_STEP_KINDS,
+  COERCE_TYPES,
+  DATE_ORDERS,
+  DEDUPE_MODES,
+  FILTER_OPERATORS,
+  IMPUTE_METHODS,
+  RECIPE_VERSION,
+} from "./cleaning_steps";
+import { addFormulaColumn, dropColumns, renameColumn } from "./column_steps";
+import { dedupeRows, filterRows } from "./row_steps";
+import type { StepOutcome } from "./step_outcome";
+import { NEW_COLUMN } from "./step_outcome";
+import {
+  capOutliers,
+  changeCase,
+  coerceColumn,
+  imputeColumn,
+  parseDates,
+  trimCells,
+} from "./value_steps";
+
+// How many changed cells and removed rows a report keeps as examples
+const REPORT_SAMPLE_SIZE = 10;
+
+export interface CellChange {
+  /** The row's index in the data before the step. */
+  row: number;
+  column: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * What a step changed, with examples for a before and after preview.
+ */
+export interface StepReport {
+  rowsBefore: number;
+  rowsAfter: number;
+  cellsChanged: number;
+  /** Cells the step couldn't read, such as text in a column of numbers. */
+  invalidCells: number;
+  removedColumns: string[];
+  addedColumns: string[];
+  renamedColumns: { from: string; to: string }[];
+  /** The first cells that changed. */
+  changes: CellChange[];
+  /** The first rows removed, as they were before the step. */
+  removedRows: string[][];
+}
+
+export interface StepResult {
+  table: CsvTable;
+  report: StepReport;
+}
+
+const runStep = (table: CsvTable, step: CleaningStep): StepOutcome => {
+  switch (step.kind) {
+    case "dedupe":
+      return dedupeRows(table, step);
+    case "trim":
+      return trimCells(table, step);
+    case "case":
+      return changeCase(table, step);
+    case "coerce":
+      return coerceColumn(table, step);
+    case "parseDates":
+      return parseDates(table, step);
+    case "impute":
+      return imputeColumn(table, step);
+    case "capOutliers":
+      return capOutliers(table, step);
+    case "rename":
+      return renameColumn(table, step);
+    case "drop":
+      return dropColumns(table, step);
+    case "filter":
+      return filterRows(table, step);
+    case "formula":
+      return addFormulaColumn(table, step);
+    default:
+      throw new CleaningError("step", "Unknown cleaning step");
+  }
+};
+
+const reportOutcome = (
+  before: CsvTable,
+  { table, rowSources, columnSources, invalidCells }: StepOutcome,
+): StepReport => {
+  const changes: CellChange[] = [];
+  let cellsChanged = 0;
+  table.rows.forEach((row, rowIndex) => {
+    const source = before.rows[rowSources[rowIndex]];
+    row.forEach((after, columnIndex) => {
+      const sourceColumn = columnSources[columnIndex];
+      // A new column's cells count as changed from empty
+      const previous = sourceColumn === NEW_COLUMN ? "" : source[sourceColumn];
+      if (after === previous) {
+        return;
+      }
+      cellsChanged++;
+      if (changes.length < REPORT_SAMPLE_SIZE) {
+        changes.push({
+          row: rowSources[rowIndex],
+          column: table.header[columnIndex],
+          before: previous,
+          after,
+        });
+      }
+    });
+  });
+
+  const keptRows = new Set(rowSources);
+  const keptColumns = new Set(columnSources);
+  return {
+    rowsBefore: before.rows.length,
+    rowsAfter: table.rows.length,
+    cellsChanged,
+    invalidCells,
+    removedColumns: before.header.filter((_, i) => !keptColumns.has(i)),
+    addedColumns: table.header.filter(
+      (_, i) => columnSources[i] === NEW_COLUMN,
+    ),
+    renamedColumns: columnSources
+      .flatMap((source, i) =>
+        source === NEW_COLUMN
+          ? []
+          : [{ from: before.header[source], to: table.header[i] }],
+      )
+      .filter(({ from, to }) => from !== to),
+    changes,
+    removedRows: before.rows
+      .filter((_, i) => !keptRows.has(i))
+      .slice(0, REPORT_SAMPLE_SIZE),
+  };
+};
+
+/**
+ * Applies one cleaning step, reporting what it changed.
+ * @throws CleaningError if the step names a missing column or is invalid.
+ */
+export const applyStep = (table: CsvTable, step: CleaningStep): StepResult => {
+  const outcome = runStep(table, step);
+  return { table: outcome.table, report: reportOutcome(table, outcome) };
+};
+
+/**
+ * Applies cleaning steps in order, as when a recipe is replayed on a
+ * refreshed copy of the data.
+ * @throws CleaningError naming the step that failed.
+ */
+export const runRecipe = (
+  table: CsvTable,
+  steps: CleaningStep[],
+): { table: CsvTable; reports: StepReport[] } => {
+  const reports: StepReport[] = [];
+  const cleaned = steps.reduce((current, step, index) => {
+    try {
+      const result = applyStep(current, step);
+      reports.push(result.report);
+      return result.table;
+    } catch (e) {
+      if (e instanceof CleaningError) {
+        throw new CleaningError(e.category, `Step ${index + 1}: ${e.message}`);
+      }
+      throw e;
+    }
+  }, table);
+  return { table: cleaned, reports };
+};
+
+type FieldCheck = (value: unknown) => boolean;
+
+const isString: FieldCheck = (value) => typeof value === "string";
+const isNumber: FieldCheck = (value) =>
+  typeof value === "number" && Number.isFinite(value);
+const isBoolean: FieldCheck = (value) => typeof value === "boolean";
+const isStringList: FieldCheck = (value) =>
+  Array.isArray(value) && value.every(isString);
+const isOneOf =
+  (values: readonly string[]): FieldCheck =>
+  (value) =>
+    typeof value === "string" && values.includes(value);
+const optional =
+  (check: FieldCheck): FieldCheck =>
+  (value) =>
+    value === undefined || check(value);
+
+// The settings each kind of step has, and what each must be
+const STEP_FIELDS: Record<CleaningStepKind, Record<string, FieldCheck>> = {
+  dedupe: {
+    mode: isOneOf(DEDUPE_MODES),
+    columns: optional(isStringList),
+    threshold: optional(isNumber),
+  },
+  trim: {
+    columns: optional(isStringList),
+    collapseSpaces: optional(isBoolean),
+  },
+  case: { columns: isStringList, style: isOneOf(CASE_STYLES) },
+  coerce: { column: isString, type: isOneOf(COERCE_TYPES) },
+  parseDates: { column: isString, order: optional(isOneOf(DATE_ORDERS)) },
+  impute: {
+    column: isString,
+    method: isOneOf(IMPUTE_METHODS),
+    value: optional(isString),
+  },
+  capOutliers: {
+    column: isString,
+    method: isOneOf(CAP_METHODS),
+    factor: optional(isNumber),
+    lower: optional(isNumber),
+    upper: optional(isNumber),
+  },
+  rename: { column: isString, to: isString },
+  drop: { columns: isStringList },
+  filter: {
+    column: isString,
+    operator: isOneOf(FILTER_OPERATORS),
+    value: optional(isString),
+  },
+  formula: { column: isString, formula: isString },
+};
+
+const readStep = (value: unknown, index: number): CleaningStep => {
+  const invalid = (reason: string) =>
+    new CleaningError("recipe", `Step ${index + 1} ${reason}`);
+  if (typeof value !== "object" || value == null) {
+    throw invalid("isn't an object");
+  }
+  const fields = value as Record<string, unknown>;
+  const kind = fields.kind;
+  if (!CLEANING_STEP_KINDS.includes(kind as CleaningStepKind)) {
+    throw invalid(`has an unknown kind "${String(kind)}"`);
+  }
+  // Only the known settings are kept, so a recipe can't carry anything else
+  const step: Record<string, unknown> = { kind };
+  for (const [name, check] of Object.entries(
+    STEP_FIELDS[kind as CleaningStepKind],
+  )) {
+    if (!check(fields[name])) {
+      throw invalid(`has an invalid "${name}"`);
+    }
+    if (fields[name] !== undefined) {
+      step[name] = fields[name];
+    }
+  }
+  return step as unknown as CleaningStep;
+};
+
+/**
+ * Reads a recipe saved by `serializeRecipe`.
+ * @throws CleaningError if it isn't a valid recipe.
+ */
+export const parseRecipe = (text: string): CleaningRecipe => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new CleaningError("recipe", "The recipe isn't valid JSON");
+  }
+  if (typeof value !== "object" || value == null) {
+    throw new CleaningError("recipe", "The recipe isn't an object");
+  }
+  const { version, steps } = value as Record<string, unknown>;
+  if (version !== RECIPE_VERSION) {
+    throw new CleaningError(
+      "recipe",
+      `Recipes of version ${String(version)} can't be read`,
+    );
+  }
+  if (!Array.isArray(steps)) {
+    throw new CleaningError("recipe", "The recipe has no list of steps");
+  }
+  return { version: RECIPE_VERSION, steps: steps.map(readStep) };
+};
+
+export const serializeRecipe = (steps: CleaningStep[]) =>
+  JSON.stringify({ version: RECIPE_VERSION, steps }, null, 2);
@@ -0,0 +1,130 @@
+import type { CsvTable } from "../csv";
+import { isMissing, parseDate, parseNumber } from "../csv";
+import { CleaningError } from "./cleaning_error";
+import type { DedupeStep, FilterStep } from "./cleaning_steps";
+import type { StepOutcome } from "./step_outcome";
+import { columnIndex, columnIndexes, keepRows } from "./step_outcome";
+
+// Fuzzy matching compares rows with case, spacing and punctuation removed
+const fuzzyText = (cells: string[]) =>
+  cells
+    .map((cell) =>
+      cell
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}\s]/gu, "")
+        .replace(/\s+/g, " ")
+        .trim(),
+    )
+    .join("\u0000");
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// How alike two texts are, from 0 to 1
+const similarity = (a: string, b: string) => {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - editDistance(a, b) / length;
+};
+
+/**
+ * Drops rows that repeat an earlier row, keeping the first. Fuzzy matching
+ * compares each row with every row kept so far, so it's slow on tens of
+ * thousands of distinct rows.
+ * @throws CleaningError if the threshold isn't between 0 and 1.
+ */
+export const dedupeRows = (table: CsvTable, step: DedupeStep): StepOutcome => {
+  const indexes = columnIndexes(table, step.columns);
+  const threshold = step.threshold ?? 0.9;
+  if (!(threshold >= 0 && threshold <= 1)) {
+    throw new CleaningError(
+      "step",
+      "The similarity threshold must be between 0 and 1",
+    );
+  }
+
+  const seen = new Set<string>();
+  const kept: string[] = [];
+  return keepRows(table, (row) => {
+    const cells = indexes.map((index) => row[index]);
+    const text =
+      step.mode === "fuzzy" ? fuzzyText(cells) : JSON.stringify(cells);
+    if (seen.has(text)) {
+      return false;
+    }
+    if (
+      step.mode === "fuzzy" &&
+      threshold < 1 &&
+      kept.some(
+        (other) =>
+          // Texts whose lengths differ too much can't be similar enough
+          Math.abs(other.length - text.length) <=
+            (1 - threshold) * Math.max(other.length, text.length) &&
+          similarity(other, text) >= threshold,
+      )
+    ) {
+      return false;
+    }
+    seen.add(text);
+    kept.push(text);
+    return true;
+  });
+};
+
+// Compares a cell with a value as numbers, or else as dates
+const compare = (cell: string, value: string) => {
+  const [a, b] = [parseNumber(cell), parseNumber(value)];
+  if (a !== undefined && b !== undefined) {
+    return a - b;
+  }
+  const [dateA, dateB] = [parseDate(cell), parseDate(value)];
+  if (dateA !== undefined && dateB !== undefined) {
+    return dateA - dateB;
+  }
+  return undefined;
+};
+
+const matchesFilter = (
+  cell: string,
+  { operator, value = "" }: FilterStep,
+): boolean => {
+  switch (operator) {
+    case "equals":
+      return cell.trim().toLowerCase() === value.trim().toLowerCase();
+    case "notEquals":
+      return cell.trim().toLowerCase() !== value.trim().toLowerCase();
+    case "contains":
+      return cell.toLowerCase().includes(value.toLowerCase());
+    case "greaterThan":
+      return (compare(cell, value) ?? 0) > 0;
+    case "lessThan":
+      return (compare(cell, value) ?? 0) < 0;
+    case "present":
+      return !isMissing(cell);
+    case "missing":
+      return isMissing(cell);
+    default:
+      return true;
+  }
+};
+
+/**
+ * Keeps the rows whose cell in a column matches. Text is compared ignoring
+ * case.
+ */
+export const filterRows = (table: CsvTable, step: FilterStep): StepOutcome => {
+  const index = columnIndex(table, step.column);
+  return keepRows(table, (row) => matchesFilter(row[index], step));
+};
@@ -0,0 +1,146 @@
+import type { CsvTable } from "../csv";
+import { CleaningError } from "./cleaning_error";
+
+/**
+ * What a step did to a table, in enough detail to show which cells changed
+ * and which rows were removed.
+ */
+export interface StepOutcome {
+  table: CsvTable;
+  /** The input row each output row came from. */
+  rowSources: number[];
+  /**
+   * The input column each output column came from, or `NEW_COLUMN` for a
+   * column the step added.
+   */
+  columnSources: number[];
+  /** Cells the step couldn't read, such as text in a column of numbers. */
+  invalidCells: number;
+}
+
+export const NEW_COLUMN = -1;
+
+/**
+ * Finds a column by name.
+ * @throws CleaningError if the table doesn't have it.
+ */
+export const columnIndex = (table: CsvTable, column: string) => {
+  const index = table.header.indexOf(column);
+  if (index < 0) {
+    throw new CleaningError(
+      "column",
+      `The data has no column named "${column}"`,
+    );
+  }
+  return index;
+};
+
+/**
+ * Finds columns by name, or every column if none are named.
+ * @throws CleaningError if the table doesn't have one of them.
+ */
+export const columnIndexes = (table: CsvTable, columns?: string[]) =>
+  columns === undefined
+    ? table.header.map((_, index) => index)
+    : columns.map((column) => columnIndex(table, column));
+
+const identity = (length: number) => Array.from({ length }, (_, i) => i);
+
+/**
+ * Rewrites the cells of some columns, keeping every row and column.
+ */
+export const mapCells = (
+  table: CsvTable,
+  indexes: number[],
+  rewrite: (cell: string, row: number) => string,
+  invalidCells = 0,
+): StepOutcome => {
+  const columns = new Set(indexes);
+  return {
+    table: {
+      header: table.header,
+      rows: table.rows.map((row, rowIndex) =>
+        row.map((cell, index) =>
+          columns.has(index) ? rewrite(cell, rowIndex) : cell,
+        ),
+      ),
+    },
+    rowSources: identity(table.rows.length),
+    columnSources: identity(table.header.length),
+    invalidCells,
+  };
+};
+
+/**
+ * Keeps the rows a test accepts, in order.
+ */
+export const keepRows = (
+  table: CsvTable,
+  keep: (row: string[], index: number) => boolean,
+): StepOutcome => {
+  const rowSources = identity(table.rows.length).filter((index) =>
+    keep(table.rows[index], index),
+  );
+  return {
+    table: {
+      header: table.header,
+      rows: rowSources.map((index) => table.rows[index]),
+    },
+    rowSources,
+    columnSources: identity(table.header.length),
+    invalidCells: 0,
+  };
+};
+
+/**
+ * Keeps some columns, in order, under new names if given.
+ */
+export const keepColumns = (
+  table: CsvTable,
+  columnSources: number[],
+  header = columnSources.map((index) => table.header[index]),
+): StepOutcome => ({
+  table: {
+    header,
+    rows: table.rows.map((row) => columnSources.map((index) => row[index])),
+  },
+  rowSources: identity(table.rows.length),
+  columnSources,
+  invalidCells: 0,
+});
+
+/**
+ * Adds a column after the others, keeping every row and column.
+ */
+export const addColumn = (
+  table: CsvTable,
+  name: string,
+  cells: string[],
+  invalidCells = 0,
+): StepOutcome => ({
+  table: {
+    header: [...table.header, name],
+    rows: table.rows.map((row, index) => [...row, cells[index]]),
+  },
+  rowSources: identity(table.rows.length),
+  columnSources: [...identity(table.header.length), NEW_COLUMN],
+  invalidCells,
+});
+
+/**
+ * Writes a computed number without floating point noise, so a mean of
+ * 0.1 and 0.2 is written 0.15 rather than 0.15000000000000002.
+ */
+export const formatNumber = (value: number) =>
+  String(Number(value.toPrecision(12)));
+
+/**
+ * The value below which a fraction of sorted numbers lie, interpolating
+ * between the two nearest.
+ */
+export const quantile = (sorted: number[], fraction: number) => {
+  const position = (sorted.length - 1) * fraction;
+  const below = Math.floor(position);
+  const above = Math.ceil(position);
+  return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+};
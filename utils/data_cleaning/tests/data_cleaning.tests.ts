@@ -0,0 +1,303 @@
+import type { CsvTable } from "../../csv";
+import type { CleaningStep } from "../index";
+import {
+  applyStep,
+  CleaningError,
+  parseRecipe,
+  runRecipe,
+  serializeRecipe,
+} from "../index";
+
+const ORDERS: CsvTable = {
+  header: ["Customer", "City", "Amount", "Date", "Paid"],
+  rows: [
+    [" Acme Ltd ", "london", "100", "03/01/2024", "yes"],
+    ["acme ltd.", "London", "100", "3/1/24", "Y"],
+    ["Globex", "paris", "N/A", "2024-1-5", "no"],
+    ["Initech", "new  york", "$1,200", "", "maybe"],
+    ["Umbrella", "berlin", "90", "March 9, 2024", "0"],
+  ],
+};
+
+const column = (table: CsvTable, name: string) =>
+  table.rows.map((row) => row[table.header.indexOf(name)]);
+
+const categoryOf = (operation: () => unknown) => {
+  try {
+    operation();
+  } catch (e) {
+    return e instanceof CleaningError ? e.category : e;
+  }
+  return undefined;
+};
+
+describe("applyStep", () => {
+  it("trims and normalizes case", () => {
+    const trimmed = applyStep(ORDERS, {
+      kind: "trim",
+      collapseSpaces: true,
+    });
+    const titled = applyStep(trimmed.table, {
+      kind: "case",
+      columns: ["City"],
+      style: "title",
+    });
+
+    expect(column(trimmed.table, "Customer")[0]).toBe("Acme Ltd");
+    expect(trimmed.report).toMatchObject({ rowsAfter: 5, cellsChanged: 2 });
+    expect(column(titled.table, "City")).toEqual([
+      "London",
+      "London",
+      "Paris",
+      "New York",
+      "Berlin",
+    ]);
+    expect(titled.report.changes[0]).toEqual({
+      row: 0,
+      column: "City",
+      before: "london",
+      after: "London",
+    });
+  });
+
+  it("drops exact and fuzzy duplicates, keeping the first", () => {
+    const exact = applyStep(ORDERS, {
+      kind: "dedupe",
+      mode: "exact",
+      columns: ["Amount"],
+    });
+    const fuzzy = applyStep(ORDERS, {
+      kind: "dedupe",
+      mode: "fuzzy",
+      columns: ["Customer", "City"],
+    });
+
+    expect(exact.report.rowsAfter).toBe(4);
+    expect(exact.report.removedRows).toEqual([ORDERS.rows[1]]);
+    expect(column(fuzzy.table, "Customer")).toEqual([
+      " Acme Ltd ",
+      "Globex",
+      "Initech",
+      "Umbrella",
+    ]);
+    expect(
+      categoryOf(() =>
+        applyStep(ORDERS, { kind: "dedupe", mode: "fuzzy", threshold: 2 }),
+      ),
+    ).toBe("step");
+  });
+
+  it("coerces values to a type, emptying those that don't fit", () => {
+    const amounts = applyStep(ORDERS, {
+      kind: "coerce",
+      column: "Amount",
+      type: "number",
+    });
+    const paid = applyStep(ORDERS, {
+      kind: "coerce",
+      column: "Paid",
+      type: "boolean",
+    });
+
+    expect(column(amounts.table, "Amount")).toEqual([
+      "100",
+      "100",
+      "",
+      "1200",
+      "90",
+    ]);
+    expect(amounts.report.invalidCells).toBe(0);
+    expect(column(paid.table, "Paid")).toEqual([
+      "true",
+      "true",
+      "false",
+      "",
+      "false",
+    ]);
+    expect(paid.report.invalidCells).toBe(1);
+  });
+
+  it("rewrites dates as ISO dates in either day order", () => {
+    const step: CleaningStep = { kind: "parseDates", column: "Date" };
+
+    expect(column(applyStep(ORDERS, step).table, "Date")).toEqual([
+      "2024-03-01",
+      "2024-03-01",
+      "2024-01-05",
+      "",
+      "2024-03-09",
+    ]);
+    expect(
+      column(applyStep(ORDERS, { ...step, order: "dmy" }).table, "Date")[0],
+    ).toBe("2024-01-03");
+  });
+
+  it("fills missing values", () => {
+    const fill = (method: "mean" | "median" | "mode" | "forwardFill") =>
+      column(
+        applyStep(ORDERS, { kind: "impute", column: "Amount", method }).table,
+        "Amount",
+      )[2];
+
+    expect(fill("mean")).toBe("372.5");
+    expect(fill("median")).toBe("100");
+    expect(fill("mode")).toBe("100");
+    expect(fill("forwardFill")).toBe("100");
+    expect(
+      categoryOf(() =>
+        applyStep(ORDERS, {
+          kind: "impute",
+          column: "Customer",
+          method: "mean",
+        }),
+      ),
+    ).toBe("step");
+  });
+
+  it("caps outliers", () => {
+    const table = {
+      header: ["Value"],
+      rows: [["10"], ["11"], ["12"], ["13"], ["500"], ["n/a"]],
+    };
+
+    const { table: capped, report } = applyStep(table, {
+      kind: "capOutliers",
+      column: "Value",
+      method: "iqr",
+    });
+
+    expect(column(capped, "Value")).toEqual([
+      "10",
+      "11",
+      "12",
+      "13",
+      "16",
+      "n/a",
+    ]);
+    expect(report.cellsChanged).toBe(1);
+  });
+
+  it("renames, drops and filters", () => {
+    const { table, reports } = runRecipe(ORDERS, [
+      { kind: "rename", column: "Amount", to: "Total" },
+      { kind: "drop", columns: ["Paid", "Date"] },
+      { kind: "filter", column: "Total", operator: "greaterThan", value: "95" },
+    ]);
+
+    expect(table).toEqual({
+      header: ["Customer", "City", "Total"],
+      rows: [
+        [" Acme Ltd ", "london", "100"],
+        ["acme ltd.", "London", "100"],
+        ["Initech", "new  york", "$1,200"],
+      ],
+    });
+    expect(reports[0].renamedColumns).toEqual([
+      { from: "Amount", to: "Total" },
+    ]);
+    expect(reports[1].removedColumns).toEqual(["Date", "Paid"]);
+    expect(reports[2]).toMatchObject({ rowsBefore: 5, rowsAfter: 3 });
+    expect(() =>
+      runRecipe(ORDERS, [{ kind: "rename", column: "Amount", to: "City" }]),
+    ).toThrow(
+      new CleaningError(
+        "column",
+        'Step 1: The data already has a column named "City"',
+      ),
+    );
+  });
+
+  it("adds formula columns", () => {
+    const prices = {
+      header: ["Item", "Price", "Qty"],
+      rows: [
+        ["Bolt", "2", "5"],
+        ["Nut", "1.5", "0"],
+      ],
+    };
+
+    const { table, report } = applyStep(prices, {
+      kind: "formula",
+      column: " Per unit ",
+      formula: "[Price] / [Qty]",
+    });
+
+    expect(table.header).toEqual(["Item", "Price", "Qty", "Per unit"]);
+    expect(column(table, "Per unit")).toEqual(["0.4", "#DIV/0!"]);
+    expect(report).toMatchObject({
+      cellsChanged: 2,
+      invalidCells: 1,
+      addedColumns: ["Per unit"],
+      renamedColumns: [],
+    });
+    expect(
+      categoryOf(() =>
+        applyStep(prices, { kind: "formula", column: "Qty", formula: "1" }),
+      ),
+    ).toBe("column");
+    expect(
+      categoryOf(() =>
+        applyStep(prices, {
+          kind: "formula",
+          column: "Total",
+          formula: "[Cost] * 2",
+        }),
+      ),
+    ).toBe("step");
+  });
+});
+
+describe("recipes", () => {
+  const steps: CleaningStep[] = [
+    { kind: "trim" },
+    { kind: "impute", column: "Amount", method: "constant", value: "0" },
+  ];
+
+  it("replay after being saved", () => {
+    const recipe = parseRecipe(serializeRecipe(steps));
+
+    expect(recipe).toEqual({ version: 1, steps });
+    expect(runRecipe(ORDERS, recipe.steps).table).toEqual(
+      runRecipe(ORDERS, steps).table,
+    );
+  });
+
+  it("refuse invalid recipes", () => {
+    expect(categoryOf(() => parseRecipe("{"))).toBe("recipe");
+    expect(
+      categoryOf(() => parseRecipe(JSON.stringify({ version: 2, steps }))),
+    ).toBe("recipe");
+    expect(() =>
+      parseRecipe(
+        JSON.stringify({ version: 1, steps: [{ kind: "coerce", column: 1 }] }),
+      ),
+    ).toThrow('Step 1 has an invalid "column"');
+  });
+
+  it("replay formula columns on refreshed data", () => {
+    const formulaSteps: CleaningStep[] = [
+      ...steps,
+      { kind: "formula", column: "Double", formula: "[Amount] * 2" },
+    ];
+    const recipe = parseRecipe(serializeRecipe(formulaSteps));
+    const refreshed = {
+      header: ["Customer", "Amount"],
+      rows: [
+        ["Acme", "10"],
+        ["Globex", ""],
+      ],
+    };
+
+    expect(recipe.steps).toEqual(formulaSteps);
+    expect(column(runRecipe(refreshed, recipe.steps).table, "Double")).toEqual([
+      "20",
+      "0",
+    ]);
+  });
+
+  it("name missing columns when replayed on changed data", () => {
+    expect(() => runRecipe({ header: ["Customer"], rows: [] }, steps)).toThrow(
+      'Step 2: The data has no column named "Amount"',
+    );
+  });
+});
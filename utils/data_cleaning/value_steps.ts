@@ -0,0 +1,305 @@
+import type { CsvTable } from "../csv";
+import { isMissing, parseNumber } from "../csv";
+import { CleaningError } from "./cleaning_error";
+import type {
+  CapOutliersStep,
+  CaseStep,
+  CoerceStep,
+  DateOrder,
+  ImputeStep,
+  ParseDatesStep,
+  TrimStep,
+} from "./cleaning_steps";
+import type { StepOutcome } from "./step_outcome";
+import {
+  columnIndex,
+  columnIndexes,
+  formatNumber,
+  mapCells,
+  quantile,
+} from "./step_outcome";
+
+const TRUE_VALUES = new Set(["true", "yes", "y", "t", "1"]);
+const FALSE_VALUES = new Set(["false", "no", "n", "f", "0"]);
+
+// Day and month, in either order, then the year: 1/2/24, 01-02-2024
+const NUMERIC_DATE = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})$/;
+const ISO_DATE = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](.+))?$/;
+// Dates with a month name, such as "3 March 2024", are left to Date.parse,
+// which otherwise reads almost anything as some date
+const NAMED_MONTH_DATE = /[a-z]{3}.*\d{4}|\d{4}.*[a-z]{3}/i;
+
+// Two-digit years before this are in the 2000s
+const TWO_DIGIT_YEAR_PIVOT = 70;
+
+export const trimCells = (table: CsvTable, step: TrimStep): StepOutcome =>
+  mapCells(table, columnIndexes(table, step.columns), (cell) =>
+    step.collapseSpaces ? cell.trim().replace(/\s+/g, " ") : cell.trim(),
+  );
+
+const toTitleCase = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(
+      /(^|[\s-])(\p{L})/gu,
+      (_, separator: string, letter: string) =>
+        `${separator}${letter.toUpperCase()}`,
+    );
+
+export const changeCase = (table: CsvTable, step: CaseStep): StepOutcome =>
+  mapCells(table, columnIndexes(table, step.columns), (cell) => {
+    switch (step.style) {
+      case "lower":
+        return cell.toLowerCase();
+      case "upper":
+        return cell.toUpperCase();
+      case "title":
+        return toTitleCase(cell);
+      default:
+        return cell;
+    }
+  });
+
+// Reads a cell as a value of a type, or undefined if it isn't one
+const coerceCell = (cell: string, type: CoerceStep["type"]) => {
+  switch (type) {
+    case "number": {
+      const value = parseNumber(cell);
+      return value === undefined ? undefined : formatNumber(value);
+    }
+    case "integer": {
+      const value = parseNumber(cell);
+      return value === undefined ? undefined : String(Math.round(value));
+    }
+    case "boolean": {
+      const value = cell.trim().toLowerCase();
+      if (TRUE_VALUES.has(value)) {
+        return "true";
+      }
+      return FALSE_VALUES.has(value) ? "false" : undefined;
+    }
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Converts a column to a type. Missing values, however they're written,
+ * become empty cells, as do cells that can't be read as the type.
+ */
+export const coerceColumn = (
+  table: CsvTable,
+  step: CoerceStep,
+): StepOutcome => {
+  let invalidCells = 0;
+  const outcome = mapCells(table, [columnIndex(table, step.column)], (cell) => {
+    if (isMissing(cell)) {
+      return "";
+    }
+    const value = coerceCell(cell, step.type);
+    if (value === undefined) {
+      invalidCells++;
+      return "";
+    }
+    return value;
+  });
+  return { ...outcome, invalidCells };
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+// Writes a date as YYYY-MM-DD, if it's a real date
+const isoDate = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return undefined;
+  }
+  return `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+};
+
+const readDate = (cell: string, order: DateOrder) => {
+  const text = cell.trim();
+  const iso = ISO_DATE.exec(text);
+  if (iso) {
+    const date = isoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+    return date && iso[4] ? `${date}T${iso[4]}` : date;
+  }
+  const numeric = NUMERIC_DATE.exec(text);
+  if (numeric) {
+    const [first, second] = [Number(numeric[1]), Number(numeric[2])];
+    let year = Number(numeric[3]);
+    if (numeric[3].length === 2) {
+      year += year < TWO_DIGIT_YEAR_PIVOT ? 2000 : 1900;
+    }
+    return order === "dmy"
+      ? isoDate(year, second, first)
+      : isoDate(year, first, second);
+  }
+  if (NAMED_MONTH_DATE.test(text)) {
+    const time = Date.parse(text);
+    if (!isNaN(time)) {
+      const date = new Date(time);
+      return isoDate(date.getFullYear(), date.getMonth() + 1, date.getDate());
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Rewrites a column's dates as ISO dates. Missing values and cells that
+ * aren't dates become empty cells.
+ */
+export const parseDates = (
+  table: CsvTable,
+  { column, order = "mdy" }: ParseDatesStep,
+): StepOutcome => {
+  let invalidCells = 0;
+  const outcome = mapCells(table, [columnIndex(table, column)], (cell) => {
+    if (isMissing(cell)) {
+      return "";
+    }
+    const date = readDate(cell, order);
+    if (date === undefined) {
+      invalidCells++;
+      return "";
+    }
+    return date;
+  });
+  return { ...outcome, invalidCells };
+};
+
+const sortedNumbers = (cells: string[]) =>
+  cells
+    .filter((cell) => !isMissing(cell))
+    .map(parseNumber)
+    .filter((value): value is number => value !== undefined)
+    .sort((a, b) => a - b);
+
+const mostFrequent = (cells: string[]) => {
+  const counts = new Map<string, number>();
+  for (const cell of cells) {
+    if (!isMissing(cell)) {
+      const value = cell.trim();
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+  }
+  let mode: string | undefined;
+  let modeCount = 0;
+  // Ties go to the value seen first
+  counts.forEach((count, value) => {
+    if (count > modeCount) {
+      mode = value;
+      modeCount = count;
+    }
+  });
+  return mode;
+};
+
+// The value a method fills every missing cell of a column with
+const fillValue = (cells: string[], { column, method, value }: ImputeStep) => {
+  switch (method) {
+    case "mean":
+    case "median": {
+      const numbers = sortedNumbers(cells);
+      if (numbers.length === 0) {
+        throw new CleaningError(
+          "step",
+          `"${column}" has no numbers to take the ${method} of`,
+        );
+      }
+      return formatNumber(
+        method === "mean"
+          ? numbers.reduce((sum, n) => sum + n, 0) / numbers.length
+          : quantile(numbers, 0.5),
+      );
+    }
+    case "mode": {
+      const mode = mostFrequent(cells);
+      if (mode === undefined) {
+        throw new CleaningError("step", `"${column}" has no values`);
+      }
+      return mode;
+    }
+    case "constant":
+      if (value === undefined || value === "") {
+        throw new CleaningError("step", "Choose a value to fill in");
+      }
+      return value;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Fills a column's missing cells.
+ * @throws CleaningError if the column has nothing to fill them from.
+ */
+export const imputeColumn = (
+  table: CsvTable,
+  step: ImputeStep,
+): StepOutcome => {
+  const index = columnIndex(table, step.column);
+  const fill = fillValue(
+    table.rows.map((row) => row[index]),
+    step,
+  );
+  let previous: string | undefined;
+  return mapCells(table, [index], (cell) => {
+    if (!isMissing(cell)) {
+      previous = cell;
+      return cell;
+    }
+    // Forward-filling leaves the cells before the first value missing
+    return (step.method === "forwardFill" ? previous : fill) ?? cell;
+  });
+};
+
+// The range a column's numbers are capped to
+const capBounds = (numbers: number[], step: CapOutliersStep) => {
+  if (step.method === "iqr") {
+    const factor = step.factor ?? 1.5;
+    if (!(factor >= 0)) {
+      throw new CleaningError("step", "The IQR factor can't be negative");
+    }
+    const q1 = quantile(numbers, 0.25);
+    const q3 = quantile(numbers, 0.75);
+    return [q1 - factor * (q3 - q1), q3 + factor * (q3 - q1)];
+  }
+  const lower = step.lower ?? 0.01;
+  const upper = step.upper ?? 0.99;
+  if (!(lower >= 0 && lower < upper && upper <= 1)) {
+    throw new CleaningError(
+      "step",
+      "The percentiles must be between 0 and 1, the lower below the upper",
+    );
+  }
+  return [quantile(numbers, lower), quantile(numbers, upper)];
+};
+
+/**
+ * Caps a column's numbers at the edges of a range, which keeps a few extreme
+ * values from dominating means and charts without dropping their rows.
+ * @throws CleaningError if the range's settings are invalid.
+ */
+export const capOutliers = (
+  table: CsvTable,
+  step: CapOutliersStep,
+): StepOutcome => {
+  const index = columnIndex(table, step.column);
+  const numbers = sortedNumbers(table.rows.map((row) => row[index]));
+  if (numbers.length === 0) {
+    return mapCells(table, [], (cell) => cell);
+  }
+  const [low, high] = capBounds(numbers, step);
+  return mapCells(table, [index], (cell) => {
+    const value = isMissing(cell) ? undefined : parseNumber(cell);
+    if (value === undefined || (value >= low && value <= high)) {
+      return cell;
+    }
+    return formatNumber(value < low ? low : high);
+  });
+};
@@ -0,0 +1,141 @@
+import type { ChartAggregate, ChartSpec, TimeUnit } from "../chart_spec";
+import { NUMERIC_COLUMN_TYPES } from "../csv";
+import type { ColumnProfile } from "./column_profile";
+import type { DatasetProfile } from "./dataset_profile";
+
+// Bars stop being readable past this many categories, and slices past the
+// pie limit
+const MAX_BAR_CATEGORIES = 20;
+const MAX_PIE_SLICES = 6;
+
+// The longest date range each time unit suits, in days
+const TIME_UNIT_SPANS: [TimeUnit, number][] = [
+  ["day", 60],
+  ["week", 365],
+  ["month", 365 * 4],
+  ["quarter", 365 * 10],
+];
+
+const timeUnitFor = (days: number): TimeUnit =>
+  TIME_UNIT_SPANS.find(([, span]) => days <= span)?.[0] ?? "year";
+
+// Rates average; amounts and counts add up
+const aggregateFor = (measure: ColumnProfile): ChartAggregate =>
+  measure.kind === "percent" ? "mean" : "sum";
+
+// Columns worth charting: IDs, constants and empty columns show nothing
+const chartable = (column: ColumnProfile) =>
+  column.count > 0 && !column.suspectedId && !column.constant;
+
+const lineOverTime = (
+  date: ColumnProfile,
+  measure: ColumnProfile,
+): ChartSpec => {
+  const aggregate = aggregateFor(measure);
+  const timeUnit = timeUnitFor(date.range?.days ?? 0);
+  return {
+    title: `${measure.name} over time`,
+    description: `The ${aggregate} of ${measure.name} by ${timeUnit} of ${date.name}.`,
+    mark: "line",
+    encoding: {
+      x: { field: date.name, type: "temporal", timeUnit },
+      y: { field: measure.name, type: "quantitative", aggregate },
+    },
+  };
+};
+
+const barByCategory = (
+  category: ColumnProfile,
+  measure: ColumnProfile,
+): ChartSpec => {
+  const aggregate = aggregateFor(measure);
+  return {
+    title: `${measure.name} by ${category.name}`,
+    description: `The ${aggregate} of ${measure.name} for each ${category.name}, largest first.`,
+    mark: "bar",
+    encoding: {
+      x: { field: category.name, type: "nominal", sort: "-y" },
+      y: { field: measure.name, type: "quantitative", aggregate },
+    },
+  };
+};
+
+const histogram = (measure: ColumnProfile): ChartSpec => ({
+  title: `Distribution of ${measure.name}`,
+  description: `How many rows fall in each range of ${measure.name}.`,
+  mark: "bar",
+  encoding: {
+    x: { field: measure.name, type: "quantitative", bin: true },
+    y: { type: "quantitative", aggregate: "count", title: "Rows" },
+  },
+});
+
+const scatter = (x: ColumnProfile, y: ColumnProfile): ChartSpec => ({
+  title: `${y.name} against ${x.name}`,
+  description: `Each row's ${y.name} against its ${x.name}, to show whether they move together.`,
+  mark: "point",
+  encoding: {
+    x: { field: x.name, type: "quantitative" },
+    y: { field: y.name, type: "quantitative" },
+  },
+});
+
+const rowsByCategory = (category: ColumnProfile): ChartSpec =>
+  category.distinct <= MAX_PIE_SLICES
+    ? {
+        title: `Share of rows by ${category.name}`,
+        description: `The share of rows with each ${category.name}.`,
+        mark: "arc",
+        encoding: {
+          theta: { type: "quantitative", aggregate: "count" },
+          color: { field: category.name, type: "nominal" },
+        },
+      }
+    : {
+        title: `Rows by ${category.name}`,
+        description: `How many rows have each ${category.name}, most first.`,
+        mark: "bar",
+        encoding: {
+          x: { field: category.name, type: "nominal", sort: "-y" },
+          y: { type: "quantitative", aggregate: "count", title: "Rows" },
+        },
+      };
+
+/**
+ * Suggests charts for a dataset from its profile alone: trends of measures
+ * over dates, measures by category, distributions and relationships, most
+ * useful first. ID and constant columns are never charted.
+ * @param profile - The dataset's profile.
+ * @param limit - The most charts to suggest.
+ */
+export const suggestCharts = (
+  profile: DatasetProfile,
+  limit = 4,
+): ChartSpec[] => {
+  const columns = profile.columns.filter(chartable);
+  const measures = columns.filter(({ kind }) => NUMERIC_COLUMN_TYPES.has(kind));
+  const dates = columns.filter(({ kind }) => kind === "date");
+  const categories = columns.filter(
+    ({ kind, distinct }) =>
+      (kind === "category" || kind === "boolean") &&
+      distinct <= MAX_BAR_CATEGORIES,
+  );
+
+  const [measure, secondMeasure] = measures;
+  const charts: ChartSpec[] = [];
+  if (measure && dates.length > 0) {
+    charts.push(lineOverTime(dates[0], measure));
+  }
+  if (measure && categories.length > 0) {
+    charts.push(barByCategory(categories[0], measure));
+  }
+  if (measure) {
+    charts.push(histogram(measure));
+  }
+  if (measure && secondMeasure) {
+    charts.push(scatter(measure, secondMeasure));
+  }
+  categories.forEach((category) => charts.push(rowsByCategory(category)));
+  measures.slice(1).forEach((other) => charts.push(histogram(other)));
+  return charts.slice(0, limit);
+};
@@ -0,0 +1,246 @@
+import type { ColumnType } from "../csv";
+import {
+  inferColumnType,
+  isMissing,
+  NUMERIC_COLUMN_TYPES,
+  parseDate,
+  parseNumber,
+} from "../csv";
+
+/** The quantiles every numeric column reports, as fractions. */
+export const PROFILE_QUANTILES = [0.05, 0.25, 0.5, 0.75, 0.95] as const;
+
+export interface Quantile {
+  /** Between 0 and 1: 0.25 is the lower quartile. */
+  fraction: number;
+  value: number;
+}
+
+/**
+ * A range of a numeric column's values. Each bin includes its start; only
+ * the last includes its end.
+ */
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+/**
+ * What a profile says about one column.
+ */
+export interface ColumnProfile {
+  name: string;
+  kind: ColumnType;
+  /** How many cells have a value. */
+  count: number;
+  missing: number;
+  /** Missing cells as a percentage of rows, from 0 to 100. */
+  missingPercent: number;
+  /** True when any cell is missing. */
+  nullable: boolean;
+  distinct: number;
+  /**
+   * Set for numeric columns, in the units of the cells: a `percent` column
+   * of `12%` has a min of 12.
+   */
+  stats?: {
+    min: number;
+    max: number;
+    mean: number;
+    median: number;
+    std: number;
+    quantiles: Quantile[];
+  };
+  /** Set for numeric columns, in the same units as `stats`. */
+  histogram?: HistogramBin[];
+  /**
+   * Set for `date` columns, as the original cell text, with the days
+   * between the two.
+   */
+  range?: { earliest: string; latest: string; days: number };
+  /** The most frequent values, most frequent first. */
+  topValues: { value: string; count: number }[];
+  /** Every row has a different value, as in a column of order numbers. */
+  suspectedId: boolean;
+  /** Every value is the same, so the column tells rows apart by nothing. */
+  constant: boolean;
+}
+
+export interface ColumnProfileOptions {
+  /** How many of the most frequent values to keep. Defaults to 10. */
+  topValues?: number;
+  /** The most histogram bins. Defaults to 20. */
+  maxBins?: number;
+}
+
+const DEFAULT_TOP_VALUES = 10;
+const DEFAULT_MAX_BINS = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Unique values only mark a column as an ID once there are enough rows for
+// it not to be chance, unless its name says it's one
+const MIN_ID_ROWS = 10;
+const ID_NAME = /(^|[\s_-])id$|^id[\s_-]|^(key|uuid|guid)$/i;
+
+const countValues = (values: string[]) => {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+/**
+ * The value a fraction of the way through sorted numbers, interpolating
+ * linearly between the two closest ranks.
+ */
+export const quantileOf = (sorted: Float64Array, fraction: number) => {
+  const position = (sorted.length - 1) * fraction;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+// Sturges' rule, which suits the few hundred to few thousand rows most
+// datasets here have
+const binCount = (count: number, maxBins: number) =>
+  Math.max(1, Math.min(maxBins, Math.ceil(Math.log2(count)) + 1));
+
+const histogramOf = (sorted: Float64Array, maxBins: number): HistogramBin[] => {
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  if (min === max) {
+    return [{ start: min, end: max, count: sorted.length }];
+  }
+  const bins = binCount(sorted.length, maxBins);
+  const width = (max - min) / bins;
+  const histogram = Array.from({ length: bins }, (_, index) => ({
+    start: min + index * width,
+    end: index === bins - 1 ? max : min + (index + 1) * width,
+    count: 0,
+  }));
+  for (const value of sorted) {
+    histogram[Math.min(bins - 1, Math.floor((value - min) / width))].count++;
+  }
+  return histogram;
+};
+
+// Single pass over the values; spreading large arrays into Math.min/max
+// overflows the stack on big datasets.
+const describeNumbers = (numbers: number[], maxBins: number) => {
+  let sum = 0;
+  for (const n of numbers) {
+    sum += n;
+  }
+  const mean = sum / numbers.length;
+  let squares = 0;
+  for (const n of numbers) {
+    squares += (n - mean) ** 2;
+  }
+  const sorted = Float64Array.from(numbers).sort();
+  return {
+    stats: {
+      min: sorted[0],
+      max: sorted[sorted.length - 1],
+      mean,
+      median: quantileOf(sorted, 0.5),
+      std: Math.sqrt(squares / numbers.length),
+      quantiles: PROFILE_QUANTILES.map((fraction) => ({
+        fraction,
+        value: quantileOf(sorted, fraction),
+      })),
+    },
+    histogram: histogramOf(sorted, maxBins),
+  };
+};
+
+const describeDates = (values: string[]) => {
+  let earliest = 0;
+  let latest = 0;
+  const dates = values.map((v) => parseDate(v) as number);
+  dates.forEach((d, index) => {
+    earliest = d < dates[earliest] ? index : earliest;
+    latest = d > dates[latest] ? index : latest;
+  });
+  return {
+    earliest: values[earliest],
+    latest: values[latest],
+    days: Math.round((dates[latest] - dates[earliest]) / DAY_MS),
+  };
+};
+
+// Whether a column of unique values identifies rows. Unique amounts are
+// common, so integers only count when they're named like an ID or number
+// the rows one after another.
+const looksLikeId = (name: string, kind: ColumnType, values: string[]) => {
+  if (values.length < 2) {
+    return false;
+  }
+  if (ID_NAME.test(name.trim())) {
+    return kind === "integer" || kind === "category" || kind === "text";
+  }
+  if (values.length < MIN_ID_ROWS) {
+    return false;
+  }
+  if (kind === "integer") {
+    let min = Infinity;
+    let max = -Infinity;
+    for (const value of values) {
+      const n = parseNumber(value) as number;
+      min = n < min ? n : min;
+      max = n > max ? n : max;
+    }
+    return max - min + 1 === values.length;
+  }
+  return kind === "category" || kind === "text";
+};
+
+/**
+ * Profiles one column from its cells.
+ */
+export const profileColumn = (
+  name: string,
+  cells: string[],
+  {
+    topValues = DEFAULT_TOP_VALUES,
+    maxBins = DEFAULT_MAX_BINS,
+  }: ColumnProfileOptions = {},
+): ColumnProfile => {
+  const values = cells.map((cell) => cell.trim()).filter((v) => !isMissing(v));
+  const counts = countValues(values);
+  const kind = inferColumnType(values);
+  const missing = cells.length - values.length;
+  const profile: ColumnProfile = {
+    name,
+    kind,
+    count: values.length,
+    missing,
+    missingPercent: cells.length === 0 ? 0 : (missing / cells.length) * 100,
+    nullable: missing > 0,
+    distinct: counts.length,
+    topValues: counts.slice(0, topValues),
+    suspectedId: false,
+    constant: counts.length === 1,
+  };
+  profile.suspectedId =
+    missing === 0 &&
+    counts.length === values.length &&
+    looksLikeId(name, kind, values);
+
+  if (NUMERIC_COLUMN_TYPES.has(kind)) {
+    return {
+      ...profile,
+      ...describeNumbers(
+        values.map((v) => parseNumber(v) as number),
+        maxBins,
+      ),
+    };
+  }
+  if (kind === "date") {
+    return { ...profile, range: describeDates(values) };
+  }
+  return profile;
+};
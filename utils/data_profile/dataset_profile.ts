@@ -0,0 +1,165 @@
+import type { CsvTable } from "../csv";
+import { parseCsv } from "../csv";
+import type { ColumnProfile, ColumnProfileOptions } from "./column_profile";
+import { profileColumn } from "./column_profile";
+
+/**
+ * What a dataset-level warning is about:
+ * - `noRows`: the dataset has a header but no rows.
+ * - `fewRows`: too few rows for statistics to mean much.
+ * - `duplicateRows`: some rows repeat another exactly.
+ * - `emptyColumn`: a column has no values at all.
+ * - `mostlyMissing`: most of a column's cells are missing.
+ * - `constant`: every value of a column is the same.
+ * - `suspectedId`: a column identifies rows, so it's no use to aggregate.
+ */
+export const PROFILE_WARNING_KINDS = [
+  "noRows",
+  "fewRows",
+  "duplicateRows",
+  "emptyColumn",
+  "mostlyMissing",
+  "constant",
+  "suspectedId",
+] as const;
+
+export type ProfileWarningKind = (typeof PROFILE_WARNING_KINDS)[number];
+
+export interface ProfileWarning {
+  kind: ProfileWarningKind;
+  /** The column the warning is about, for column warnings. */
+  column?: string;
+  message: string;
+}
+
+export type DatasetProfileOptions = ColumnProfileOptions;
+
+/**
+ * Everything the app reads about a dataset before analysing it. Reports,
+ * prompts and chart suggestions all start from one of these, so they agree
+ * on each column's type and statistics.
+ */
+export interface DatasetProfile {
+  rowCount: number;
+  columns: ColumnProfile[];
+  /** Missing cells across the dataset. */
+  missingCells: number;
+  duplicateRows: number;
+  warnings: ProfileWarning[];
+}
+
+// Fewer rows than this makes statistics unreliable
+const MIN_ROWS = 10;
+// A column with at least this percentage of missing cells is mostly missing
+const MOSTLY_MISSING_PERCENT = 50;
+
+const countDuplicateRows = (rows: string[][]) => {
+  const seen = new Set<string>();
+  let duplicates = 0;
+  for (const row of rows) {
+    const key = JSON.stringify(row.map((cell) => cell.trim()));
+    if (seen.has(key)) {
+      duplicates++;
+    } else {
+      seen.add(key);
+    }
+  }
+  return duplicates;
+};
+
+const plural = (count: number, noun: string) =>
+  `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+const columnWarning = (column: ColumnProfile): ProfileWarning | undefined => {
+  const { name } = column;
+  if (column.count === 0) {
+    return {
+      kind: "emptyColumn",
+      column: name,
+      message: `"${name}" has no values`,
+    };
+  }
+  if (column.missingPercent >= MOSTLY_MISSING_PERCENT) {
+    return {
+      kind: "mostlyMissing",
+      column: name,
+      message: `"${name}" is ${Math.round(column.missingPercent)}% missing`,
+    };
+  }
+  if (column.constant) {
+    return {
+      kind: "constant",
+      column: name,
+      message: `Every value of "${name}" is ${column.topValues[0]?.value ?? "the same"}`,
+    };
+  }
+  if (column.suspectedId) {
+    return {
+      kind: "suspectedId",
+      column: name,
+      message: `"${name}" looks like an identifier: every row has a different value`,
+    };
+  }
+  return undefined;
+};
+
+const datasetWarnings = (
+  rowCount: number,
+  columns: ColumnProfile[],
+  duplicateRows: number,
+) => {
+  const warnings: ProfileWarning[] = [];
+  if (rowCount === 0) {
+    warnings.push({ kind: "noRows", message: "The dataset has no rows" });
+  } else if (rowCount < MIN_ROWS) {
+    warnings.push({
+      kind: "fewRows",
+      message: `The dataset has only ${plural(rowCount, "row")}, too few for reliable statistics`,
+    });
+  }
+  if (duplicateRows > 0) {
+    warnings.push({
+      kind: "duplicateRows",
+      message: `${plural(duplicateRows, "row")} repeat an earlier row exactly`,
+    });
+  }
+  if (rowCount > 0) {
+    for (const column of columns) {
+      const warning = columnWarning(column);
+      if (warning) {
+        warnings.push(warning);
+      }
+    }
+  }
+  return warnings;
+};
+
+/**
+ * Profiles every column of a dataset and warns about problems that would
+ * mislead an analysis, such as duplicate rows or columns that are mostly
+ * missing. Columns are typed the same way as everywhere else in the app:
+ * a column is numeric only if every value is a number.
+ * @param data - The dataset as CSV text with a header row, or already parsed.
+ * @param options - How many top values and histogram bins to keep.
+ */
+export const profileDataset = (
+  data: string | CsvTable,
+  options: DatasetProfileOptions = {},
+): DatasetProfile => {
+  const table = typeof data === "string" ? parseCsv(data) : data;
+  const columns = table.header.map((name, index) =>
+    profileColumn(
+      name,
+      table.rows.map((row) => row[index] ?? ""),
+      options,
+    ),
+  );
+  const duplicateRows = countDuplicateRows(table.rows);
+  return {
+    rowCount: table.rows.length,
+    columns,
+    missingCells: columns.reduce((sum, column) => sum + column.missing, 0),
+    duplicateRows,
+    warnings: datasetWarnings(table.rows.length, columns, duplicateRows),
+  };
+};
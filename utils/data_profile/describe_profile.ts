@@ -0,0 +1,94 @@
+import type { ColumnType } from "../csv";
+import type { ColumnProfile } from "./column_profile";
+import type { DatasetProfile } from "./dataset_profile";
+
+export interface DescribeOptions {
+  /** How many top values of text columns to list. Defaults to 5. */
+  topValues?: number;
+  /** Longer values are cut short with an ellipsis. Defaults to 60. */
+  maxCellLength?: number;
+  /** Whether to list numeric columns' quartiles. Defaults to true. */
+  quartiles?: boolean;
+}
+
+/**
+ * Writes a number to six significant digits, with a `%` for percent
+ * columns.
+ */
+export const formatProfileNumber = (n: number, kind?: ColumnType) => {
+  const text = Number.isInteger(n)
+    ? String(n)
+    : String(Number(n.toPrecision(6)));
+  return kind === "percent" ? `${text}%` : text;
+};
+
+export const truncateCell = (value: string, maxLength: number) =>
+  value.length > maxLength ? `${value.slice(0, maxLength - 1)}…` : value;
+
+/**
+ * Describes a column in one line, such as
+ * `Sales [number]: 0 missing; min 3, max 90, ...`.
+ */
+export const describeColumn = (
+  column: ColumnProfile,
+  { topValues = 5, maxCellLength = 60, quartiles = true }: DescribeOptions = {},
+) => {
+  const facts = [`${column.missing} missing`];
+  if (column.stats) {
+    const { min, max, mean, median, std } = column.stats;
+    const format = (n: number) => formatProfileNumber(n, column.kind);
+    facts.push(
+      `min ${format(min)}, max ${format(max)}, mean ${format(mean)}, median ${format(median)}, std ${format(std)}`,
+    );
+    if (quartiles) {
+      const quartile = (fraction: number) =>
+        column.stats?.quantiles.find((q) => q.fraction === fraction);
+      const [q1, q3] = [quartile(0.25), quartile(0.75)];
+      if (q1 && q3) {
+        facts.push(`quartiles ${format(q1.value)} to ${format(q3.value)}`);
+      }
+    }
+  } else if (column.range) {
+    facts.push(
+      `${column.range.earliest} to ${column.range.latest} (${column.range.days} days)`,
+    );
+  } else {
+    facts.push(`${column.distinct} distinct`);
+    const top = column.topValues
+      .slice(0, topValues)
+      .map(
+        ({ value, count }) =>
+          `${truncateCell(value, maxCellLength)} (${count})`,
+      );
+    if (top.length > 0) {
+      facts.push(`top: ${top.join(", ")}`);
+    }
+  }
+  if (column.suspectedId) {
+    facts.push("likely an ID");
+  } else if (column.constant) {
+    facts.push("constant");
+  }
+  return `${column.name} [${column.kind}]: ${facts.join("; ")}`;
+};
+
+/**
+ * Describes a dataset as plain text: its size, one line per column, and its
+ * warnings.
+ */
+export const describeProfile = (
+  profile: DatasetProfile,
+  options?: DescribeOptions,
+) => {
+  const lines = [
+    `${profile.rowCount} rows, ${profile.columns.length} columns`,
+    ...profile.columns.map((column) => `- ${describeColumn(column, options)}`),
+  ];
+  if (profile.warnings.length > 0) {
+    lines.push(
+      "Warnings:",
+      ...profile.warnings.map(({ message }) => `- ${message}`),
+    );
+  }
+  return lines.join("\n");
+};
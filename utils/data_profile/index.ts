@@ -0,0 +1,22 @@
+export type {
+  ColumnProfile,
+  ColumnProfileOptions,
+  HistogramBin,
+  Quantile,
+} from "./column_profile";
+export type {
+  DatasetProfile,
+  DatasetProfileOptions,
+  ProfileWarning,
+  ProfileWarningKind,
+} from "./dataset_profile";
+export type { DescribeOptions } from "./describe_profile";
+export { suggestCharts } from "./chart_suggestions";
+export { PROFILE_QUANTILES, profileColumn, quantileOf } from "./column_profile";
+export { PROFILE_WARNING_KINDS, profileDataset } from "./dataset_profile";
+export {
+  describeColumn,
+  describeProfile,
+  formatProfileNumber,
+  truncateCell,
+} from "./describe_profile";
@@ -0,0 +1,154 @@
+import {
+  describeColumn,
+  describeProfile,
+  profileColumn,
+  profileDataset,
+  suggestCharts,
+} from "../index";
+
+const ORDERS = [
+  "Order ID,Date,Region,Amount,Discount,Country,Notes",
+  "1001,2024-01-01,North,120,5%,UK,",
+  "1002,2024-01-15,South,80,10%,UK,",
+  "1003,2024-02-01,North,200,,UK,rush",
+  "1004,2024-02-20,East,95,5%,UK,",
+  "1005,2024-03-01,North,150,0%,UK,",
+  "1006,2024-03-10,South,60,5%,UK,",
+  "1007,2024-03-15,West,300,15%,UK,",
+  "1008,2024-04-01,North,110,5%,UK,",
+  "1009,2024-04-10,South,90,10%,UK,",
+  "1010,2024-04-30,North,175,5%,UK,",
+].join("\n");
+
+describe("profileDataset", () => {
+  it("types columns and describes their values", () => {
+    const { rowCount, columns } = profileDataset(ORDERS);
+    const [id, date, region, amount, discount] = columns;
+
+    expect(rowCount).toBe(10);
+    expect(columns.map(({ kind }) => kind)).toEqual([
+      "integer",
+      "date",
+      "category",
+      "integer",
+      "percent",
+      "category",
+      "category",
+    ]);
+    expect(amount).toMatchObject({
+      count: 10,
+      missing: 0,
+      nullable: false,
+      distinct: 10,
+      stats: { min: 60, max: 300, mean: 138, median: 115 },
+    });
+    expect(amount.stats?.quantiles[1]).toEqual({
+      fraction: 0.25,
+      value: 91.25,
+    });
+    expect(discount).toMatchObject({
+      missing: 1,
+      missingPercent: 10,
+      nullable: true,
+      stats: { min: 0, max: 15 },
+    });
+    expect(date.range).toEqual({
+      earliest: "2024-01-01",
+      latest: "2024-04-30",
+      days: 120,
+    });
+    expect(region.topValues.slice(0, 2)).toEqual([
+      { value: "North", count: 5 },
+      { value: "South", count: 3 },
+    ]);
+    expect(id.suspectedId).toBe(true);
+    expect(amount.suspectedId).toBe(false);
+  });
+
+  it("bins numbers into a histogram", () => {
+    const { histogram } = profileColumn(
+      "Value",
+      Array.from({ length: 100 }, (_, i) => String(i)),
+    );
+
+    expect(histogram).toHaveLength(8);
+    expect(histogram?.[0]).toMatchObject({ start: 0, count: 13 });
+    expect(histogram?.[7].end).toBe(99);
+    expect(histogram?.reduce((sum, { count }) => sum + count, 0)).toBe(100);
+    expect(profileColumn("Same", ["4", "4"]).histogram).toEqual([
+      { start: 4, end: 4, count: 2 },
+    ]);
+  });
+
+  it("handles columns too large to spread into Math.min", () => {
+    const cells = Array.from({ length: 300_000 }, (_, i) => String(i % 1000));
+
+    const { stats, topValues } = profileColumn("Value", cells, {
+      topValues: 3,
+    });
+
+    expect(stats).toMatchObject({ min: 0, max: 999, median: 499.5 });
+    expect(topValues).toHaveLength(3);
+  });
+
+  it("warns about data that would mislead an analysis", () => {
+    const { warnings, duplicateRows, missingCells } = profileDataset(
+      ["Region,Sales,Comment", "North,100,", "North,100,", "South,,late"].join(
+        "\n",
+      ),
+    );
+
+    expect(duplicateRows).toBe(1);
+    expect(missingCells).toBe(3);
+    expect(warnings.map(({ kind, column }) => [kind, column])).toEqual([
+      ["fewRows", undefined],
+      ["duplicateRows", undefined],
+      ["constant", "Sales"],
+      ["mostlyMissing", "Comment"],
+    ]);
+    expect(profileDataset(ORDERS).warnings).toContainEqual({
+      kind: "constant",
+      column: "Country",
+      message: 'Every value of "Country" is UK',
+    });
+    expect(profileDataset("Region,Sales").warnings).toEqual([
+      { kind: "noRows", message: "The dataset has no rows" },
+    ]);
+  });
+});
+
+describe("describeProfile", () => {
+  it("describes each column in a line, then the warnings", () => {
+    const profile = profileDataset(ORDERS);
+
+    expect(describeColumn(profile.columns[3])).toBe(
+      "Amount [integer]: 0 missing; min 60, max 300, mean 138, median 115, std 68.0515; quartiles 91.25 to 168.75",
+    );
+    expect(describeColumn(profile.columns[0], { quartiles: false })).toContain(
+      "; likely an ID",
+    );
+    expect(describeProfile(profile)).toContain(
+      '\nWarnings:\n- "Order ID" looks like an identifier',
+    );
+  });
+});
+
+describe("suggestCharts", () => {
+  it("charts measures over time and by category, never by ID", () => {
+    const charts = suggestCharts(profileDataset(ORDERS), 5);
+
+    expect(charts.map(({ title }) => title)).toEqual([
+      "Amount over time",
+      "Amount by Region",
+      "Distribution of Amount",
+      "Discount against Amount",
+      "Share of rows by Region",
+    ]);
+    expect(charts[0].encoding.x).toEqual({
+      field: "Date",
+      type: "temporal",
+      timeUnit: "week",
+    });
+    expect(charts[1].encoding.y).toMatchObject({ aggregate: "sum" });
+  });
+});
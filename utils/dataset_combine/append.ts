@@ -0,0 +1,132 @@
+import type { CsvTable } from "../csv";
+import { CombineError } from "./combine_error";
+
+/**
+ * How appended rows are kept:
+ * - `append`: every row of every dataset.
+ * - `union`: each distinct row once, as in SQL's UNION.
+ */
+export const APPEND_MODES = ["append", "union"] as const;
+
+export type AppendMode = (typeof APPEND_MODES)[number];
+
+/**
+ * Which columns the result has:
+ * - `all`: every column of any dataset, empty where a dataset lacks it.
+ * - `shared`: only the columns every dataset has.
+ */
+export const COLUMN_ALIGNMENTS = ["all", "shared"] as const;
+
+export type ColumnAlignment = (typeof COLUMN_ALIGNMENTS)[number];
+
+export interface AppendSource {
+  name: string;
+  table: CsvTable;
+}
+
+export interface AppendOptions {
+  mode?: AppendMode;
+  columns?: ColumnAlignment;
+  /** Adds a column of this name saying which dataset each row came from. */
+  sourceColumn?: string;
+}
+
+/**
+ * How each dataset's columns lined up with the result's.
+ */
+export interface AppendStats {
+  rows: number;
+  /** Rows dropped by a union for repeating an earlier row. */
+  duplicatesDropped: number;
+  sources: {
+    name: string;
+    rows: number;
+    /** The result's columns this dataset doesn't have. */
+    missingColumns: string[];
+    /** This dataset's columns the result leaves out. */
+    droppedColumns: string[];
+  }[];
+}
+
+export interface AppendResult {
+  table: CsvTable;
+  stats: AppendStats;
+}
+
+// Columns line up by name, whatever their case or surrounding spaces
+const alignmentKey = (column: string) => column.trim().toLowerCase();
+
+/**
+ * Stacks the rows of datasets whose columns are in different orders, or
+ * aren't all the same. A column takes its name from the first dataset that
+ * has it, and the columns are in the order they're first seen.
+ * @throws CombineError if there are no datasets.
+ */
+export const appendTables = (
+  sources: AppendSource[],
+  { mode = "append", columns = "all", sourceColumn }: AppendOptions = {},
+): AppendResult => {
+  if (sources.length === 0) {
+    throw new CombineError("empty", "Choose at least one dataset to append");
+  }
+
+  const names = new Map<string, string>();
+  const counts = new Map<string, number>();
+  for (const { table } of sources) {
+    for (const key of new Set(table.header.map(alignmentKey))) {
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    table.header.forEach((column) => {
+      const key = alignmentKey(column);
+      if (!names.has(key)) {
+        names.set(key, column);
+      }
+    });
+  }
+  const keys = [...names.keys()].filter(
+    (key) => columns === "all" || counts.get(key) === sources.length,
+  );
+  const header = keys.map((key) => names.get(key) ?? key);
+
+  const seen = new Set<string>();
+  const rows: string[][] = [];
+  let duplicatesDropped = 0;
+  const stats: AppendStats["sources"] = sources.map(({ name, table }) => {
+    const indexes = new Map(
+      table.header.map((column, index) => [alignmentKey(column), index]),
+    );
+    for (const row of table.rows) {
+      const aligned = keys.map((key) => {
+        const index = indexes.get(key);
+        return index === undefined ? "" : (row[index] ?? "");
+      });
+      if (mode === "union") {
+        const signature = JSON.stringify(aligned);
+        if (seen.has(signature)) {
+          duplicatesDropped++;
+          continue;
+        }
+        seen.add(signature);
+      }
+      rows.push(sourceColumn === undefined ? aligned : [...aligned, name]);
+    }
+    return {
+      name,
+      rows: table.rows.length,
+      missingColumns: keys
+        .filter((key) => !indexes.has(key))
+        .map((key) => names.get(key) ?? key),
+      droppedColumns: table.header.filter(
+        (column) => !keys.includes(alignmentKey(column)),
+      ),
+    };
+  });
+
+  return {
+    table: {
+      header: sourceColumn === undefined ? header : [...header, sourceColumn],
+      rows,
+    },
+    stats: { rows: rows.length, duplicatesDropped, sources: stats },
+  };
+};
@@ -0,0 +1,19 @@
+/**
+ * Why datasets couldn't be combined:
+ * - `column`: a key or lookup column isn't in its dataset.
+ * - `keys`: no key columns were chosen.
+ * - `empty`: there were no datasets to append.
+ */
+export const COMBINE_ERROR_CATEGORIES = ["column", "keys", "empty"] as const;
+
+export type CombineErrorCategory = (typeof COMBINE_ERROR_CATEGORIES)[number];
+
+export class CombineError extends Error {
+  constructor(
+    readonly category: CombineErrorCategory,
+    message: string,
+  ) {
+    super(message);
+    Object.setPrototypeOf(this, CombineError.prototype);
+  }
+}
@@ -0,0 +1,189 @@
+import type { CsvTable } from "../csv";
+import {
+  inferColumnType,
+  isMissing,
+  NUMERIC_COLUMN_TYPES,
+  parseNumber,
+} from "../csv";
+import { CombineError } from "./combine_error";
+
+/**
+ * A pair of columns whose values must be equal for rows of two datasets to
+ * match.
+ */
+export interface JoinKey {
+  left: string;
+  right: string;
+}
+
+/**
+ * A key column of one of the datasets, and whether its cells are compared as
+ * numbers rather than as text.
+ */
+export interface KeyColumn {
+  index: number;
+  numeric: boolean;
+}
+
+// Reads a key cell for comparison. Text is compared exactly, so an id such
+// as `00123` doesn't match `123`; numeric key columns compare values, so
+// `1,000` matches `1000` and `7.0` matches `7`. Missing cells match nothing.
+const normalizeKeyCell = (cell: string | undefined, numeric: boolean) => {
+  if (cell === undefined || isMissing(cell)) {
+    return undefined;
+  }
+  const value = numeric ? parseNumber(cell) : undefined;
+  return value === undefined ? cell : String(value);
+};
+
+const isNumericColumn = (table: CsvTable, index: number) =>
+  NUMERIC_COLUMN_TYPES.has(
+    inferColumnType(table.rows.map((row) => row[index] ?? "")),
+  );
+
+/**
+ * Finds the index of each named column.
+ * @throws CombineError if the table doesn't have one of them.
+ */
+export const columnIndexes = (
+  table: CsvTable,
+  columns: string[],
+  tableName: string,
+) =>
+  columns.map((column) => {
+    const index = table.header.indexOf(column);
+    if (index < 0) {
+      throw new CombineError(
+        "column",
+        `${tableName} has no column named "${column}"`,
+      );
+    }
+    return index;
+  });
+
+/**
+ * Finds the key columns of two datasets. With `matchNumbers`, a key whose
+ * columns are both inferred as numbers is compared by value; every other key
+ * is compared as text.
+ * @throws CombineError if a dataset doesn't have one of its key columns.
+ */
+export const keyColumns = (
+  left: CsvTable,
+  right: CsvTable,
+  keys: JoinKey[],
+  matchNumbers: boolean,
+  [leftName, rightName]: [string, string],
+) => {
+  const leftIndexes = columnIndexes(
+    left,
+    keys.map((key) => key.left),
+    leftName,
+  );
+  const rightIndexes = columnIndexes(
+    right,
+    keys.map((key) => key.right),
+    rightName,
+  );
+  const numeric = keys.map(
+    (_, keyIndex) =>
+      matchNumbers &&
+      isNumericColumn(left, leftIndexes[keyIndex]) &&
+      isNumericColumn(right, rightIndexes[keyIndex]),
+  );
+  return {
+    left: leftIndexes.map((index, keyIndex) => ({
+      index,
+      numeric: numeric[keyIndex],
+    })),
+    right: rightIndexes.map((index, keyIndex) => ({
+      index,
+      numeric: numeric[keyIndex],
+    })),
+  };
+};
+
+/**
+ * The key of a row, or undefined if any of its key cells is missing.
+ */
+export const rowKey = (row: string[], columns: KeyColumn[]) => {
+  const parts: string[] = [];
+  for (const { index, numeric } of columns) {
+    const part = normalizeKeyCell(row[index], numeric);
+    if (part === undefined) {
+      return undefined;
+    }
+    parts.push(part);
+  }
+  // A character that can't appear in a cell keeps composite keys apart
+  return parts.join("\u0000");
+};
+
+/**
+ * The rows of a table by their key. Rows with a missing key are left out.
+ */
+export const indexRows = (table: CsvTable, columns: KeyColumn[]) => {
+  const rowsByKey = new Map<string, number[]>();
+  table.rows.forEach((row, rowIndex) => {
+    const key = rowKey(row, columns);
+    if (key === undefined) {
+      return;
+    }
+    const rows = rowsByKey.get(key);
+    if (rows) {
+      rows.push(rowIndex);
+    } else {
+      rowsByKey.set(key, [rowIndex]);
+    }
+  });
+  return rowsByKey;
+};
+
+/**
+ * How many of the keys are compared as numbers.
+ */
+export const countNumericKeys = (columns: KeyColumn[]) =>
+  columns.filter(({ numeric }) => numeric).length;
+
+/**
+ * How many keys more than one row has.
+ */
+export const countDuplicateKeys = (rowsByKey: Map<string, number[]>) => {
+  let count = 0;
+  for (const rows of rowsByKey.values()) {
+    if (rows.length > 1) {
+      count++;
+    }
+  }
+  return count;
+};
+
+/**
+ * Checks that there's at least one key.
+ * @throws CombineError if there isn't.
+ */
+export const checkKeys = (keys: JoinKey[]) => {
+  if (keys.length === 0) {
+    throw new CombineError("keys", "Choose at least one key column");
+  }
+};
+
+/**
+ * Names columns brought in from another dataset so they don't clash with
+ * the columns already there: a clashing `Region` from `Targets` becomes
+ * `Region (Targets)`, then `Region (Targets) (2)` if that's taken too.
+ */
+export const nameAddedColumns = (
+  existing: string[],
+  added: string[],
+  sourceName: string,
+) => {
+  const taken = new Set(existing);
+  return added.map((column) => {
+    let name = taken.has(column) ? `${column} (${sourceName})` : column;
+    for (let n = 2; taken.has(name); n++) {
+      name = `${column} (${sourceName}) (${n})`;
+    }
+    taken.add(name);
+    return name;
+  });
+};
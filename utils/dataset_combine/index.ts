@@ -0,0 +1,16 @@
+export type {
+  AppendMode,
+  AppendOptions,
+  AppendResult,
+  AppendSource,
+  AppendStats,
+  ColumnAlignment,
+} from "./append";
+export type { CombineErrorCategory } from "./combine_error";
+export type { JoinKey } from "./combine_keys";
+export type { JoinOptions, JoinResult, JoinType, KeyMatchStats } from "./join";
+export type { LookupOptions, LookupResult, LookupStats } from "./lookup";
+export { APPEND_MODES, appendTables, COLUMN_ALIGNMENTS } from "./append";
+export { COMBINE_ERROR_CATEGORIES, CombineError } from "./combine_error";
+export { JOIN_TYPES, joinTables } from "./join";
+export { lookupColumns } from "./lookup";
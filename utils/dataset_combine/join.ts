@@ -0,0 +1,164 @@
+import type { CsvTable } from "../csv";
+import type { JoinKey } from "./combine_keys";
+import {
+  checkKeys,
+  countDuplicateKeys,
+  countNumericKeys,
+  indexRows,
+  keyColumns,
+  nameAddedColumns,
+  rowKey,
+} from "./combine_keys";
+
+/**
+ * Which rows a join keeps:
+ * - `inner`: only rows whose key is in both datasets.
+ * - `left`: every row of the left dataset, with empty cells where the right
+ *   one has no match.
+ * - `outer`: every row of both datasets.
+ */
+export const JOIN_TYPES = ["inner", "left", "outer"] as const;
+
+export type JoinType = (typeof JOIN_TYPES)[number];
+
+export interface JoinOptions {
+  type: JoinType;
+  keys: JoinKey[];
+  /**
+   * Matches keys whose columns are numbers in both datasets by value, so
+   * `1,000` matches `1000`. Otherwise keys match only when their text is
+   * the same.
+   */
+  matchNumbers?: boolean;
+  /** The right dataset's name, used to rename its clashing columns. */
+  rightName?: string;
+}
+
+/**
+ * How well the keys of two datasets matched, so a join that matched little,
+ * or multiplied rows, can be caught before it's used.
+ */
+export interface KeyMatchStats {
+  leftRows: number;
+  rightRows: number;
+  /** Rows of the left dataset with at least one match. */
+  leftMatched: number;
+  leftUnmatched: number;
+  /** Rows of the right dataset matched by at least one left row. */
+  rightMatched: number;
+  rightUnmatched: number;
+  /** Rows that can't match because a key cell is missing. */
+  leftMissingKeys: number;
+  rightMissingKeys: number;
+  /**
+   * Keys more than one row has. Every match of such a key is repeated for
+   * each of its rows, so a join can have more rows than either dataset.
+   */
+  leftDuplicateKeys: number;
+  rightDuplicateKeys: number;
+  /** Keys compared as numbers rather than as text. */
+  numericKeys: number;
+  resultRows: number;
+}
+
+export interface JoinResult {
+  table: CsvTable;
+  stats: KeyMatchStats;
+}
+
+/**
+ * Joins two datasets on key columns. The result has the left dataset's
+ * columns, then the right one's other than its keys. In an outer join, rows
+ * only the right dataset has keep their key in the left key columns.
+ * @throws CombineError if there are no keys or a key column is missing.
+ */
+export const joinTables = (
+  left: CsvTable,
+  right: CsvTable,
+  { type, keys, matchNumbers = false, rightName = "right" }: JoinOptions,
+): JoinResult => {
+  checkKeys(keys);
+  const { left: leftKeys, right: rightKeys } = keyColumns(
+    left,
+    right,
+    keys,
+    matchNumbers,
+    ["The left dataset", "The right dataset"],
+  );
+  const rightColumns = right.header
+    .map((_, index) => index)
+    .filter((index) => !rightKeys.some((key) => key.index === index));
+  const header = [
+    ...left.header,
+    ...nameAddedColumns(
+      left.header,
+      rightColumns.map((index) => right.header[index]),
+      rightName,
+    ),
+  ];
+
+  const rightRowsByKey = indexRows(right, rightKeys);
+  const rightMatchedRows = new Set<number>();
+  const emptyRight = rightColumns.map(() => "");
+  const rows: string[][] = [];
+  let leftMatched = 0;
+  let leftMissingKeys = 0;
+
+  for (const row of left.rows) {
+    const key = rowKey(row, leftKeys);
+    if (key === undefined) {
+      leftMissingKeys++;
+    }
+    const matches = key === undefined ? undefined : rightRowsByKey.get(key);
+    if (!matches) {
+      if (type !== "inner") {
+        rows.push([...row, ...emptyRight]);
+      }
+      continue;
+    }
+    leftMatched++;
+    for (const match of matches) {
+      rightMatchedRows.add(match);
+      const rightRow = right.rows[match];
+      rows.push([...row, ...rightColumns.map((index) => rightRow[index])]);
+    }
+  }
+
+  if (type === "outer") {
+    right.rows.forEach((rightRow, rowIndex) => {
+      if (rightMatchedRows.has(rowIndex)) {
+        return;
+      }
+      const leftCells = left.header.map(() => "");
+      leftKeys.forEach((leftKey, keyIndex) => {
+        leftCells[leftKey.index] = rightRow[rightKeys[keyIndex].index];
+      });
+      rows.push([
+        ...leftCells,
+        ...rightColumns.map((index) => rightRow[index]),
+      ]);
+    });
+  }
+
+  const rightRowsWithKeys = [...rightRowsByKey.values()].reduce(
+    (total, matches) => total + matches.length,
+    0,
+  );
+  return {
+    table: { header, rows },
+    stats: {
+      leftRows: left.rows.length,
+      rightRows: right.rows.length,
+      leftMatched,
+      leftUnmatched: left.rows.length - leftMatched,
+      rightMatched: rightMatchedRows.size,
+      rightUnmatched: right.rows.length - rightMatchedRows.size,
+      leftMissingKeys,
+      rightMissingKeys: right.rows.length - rightRowsWithKeys,
+      leftDuplicateKeys: countDuplicateKeys(indexRows(left, leftKeys)),
+      rightDuplicateKeys: countDuplicateKeys(rightRowsByKey),
+      numericKeys: countNumericKeys(leftKeys),
+      resultRows: rows.length,
+    },
+  };
+};
@@ -0,0 +1,109 @@
+import type { CsvTable } from "../csv";
+import type { JoinKey } from "./combine_keys";
+import {
+  checkKeys,
+  columnIndexes,
+  countDuplicateKeys,
+  countNumericKeys,
+  indexRows,
+  keyColumns,
+  nameAddedColumns,
+  rowKey,
+} from "./combine_keys";
+
+export interface LookupOptions {
+  /** `left` is a column of the table, `right` one of the lookup table. */
+  keys: JoinKey[];
+  /**
+   * Matches keys whose columns are numbers in both tables by value, so
+   * `1,000` matches `1000`. Otherwise keys match only when their text is
+   * the same.
+   */
+  matchNumbers?: boolean;
+  /** The lookup table's columns to bring in. */
+  columns: string[];
+  /** The lookup table's name, used to rename clashing columns. */
+  lookupName?: string;
+}
+
+/**
+ * How the rows of a table found their values in a lookup table.
+ */
+export interface LookupStats {
+  rows: number;
+  matched: number;
+  unmatched: number;
+  /** Rows that can't match because a key cell is missing. */
+  missingKeys: number;
+  /** Keys more than one lookup row has; the first of those rows is used. */
+  ambiguousKeys: number;
+  /** Keys compared as numbers rather than as text. */
+  numericKeys: number;
+}
+
+export interface LookupResult {
+  table: CsvTable;
+  stats: LookupStats;
+}
+
+/**
+ * Adds columns from a lookup table to every row of a table, like a
+ * spreadsheet's VLOOKUP. Unlike a join, rows are never repeated or dropped:
+ * a row takes the first lookup row with its key, or empty cells if none has
+ * it.
+ * @throws CombineError if there are no keys or a column is missing.
+ */
+export const lookupColumns = (
+  table: CsvTable,
+  lookup: CsvTable,
+  { keys, matchNumbers = false, columns, lookupName = "lookup" }: LookupOptions,
+): LookupResult => {
+  checkKeys(keys);
+  const { left: tableKeys, right: lookupKeys } = keyColumns(
+    table,
+    lookup,
+    keys,
+    matchNumbers,
+    ["The dataset", "The lookup dataset"],
+  );
+  const lookupColumnIndexes = columnIndexes(
+    lookup,
+    columns,
+    "The lookup dataset",
+  );
+  const lookupRowsByKey = indexRows(lookup, lookupKeys);
+
+  let matched = 0;
+  let missingKeys = 0;
+  const rows = table.rows.map((row) => {
+    const key = rowKey(row, tableKeys);
+    if (key === undefined) {
+      missingKeys++;
+    }
+    const match = key === undefined ? undefined : lookupRowsByKey.get(key)?.[0];
+    if (match === undefined) {
+      return [...row, ...columns.map(() => "")];
+    }
+    matched++;
+    const lookupRow = lookup.rows[match];
+    return [...row, ...lookupColumnIndexes.map((index) => lookupRow[index])];
+  });
+
+  return {
+    table: {
+      header: [
+        ...table.header,
+        ...nameAddedColumns(table.header, columns, lookupName),
+      ],
+      rows,
+    },
+    stats: {
+      rows: table.rows.length,
+      matched,
+      unmatched: table.rows.length - matched,
+      missingKeys,
+      ambiguousKeys: countDuplicateKeys(lookupRowsByKey),
+      numericKeys: countNumericKeys(tableKeys),
+    },
+  };
+};
@@ -0,0 +1,264 @@
+import type { CsvTable } from "../../csv";
+import {
+  appendTables,
+  CombineError,
+  joinTables,
+  lookupColumns,
+} from "../index";
+
+const SALES: CsvTable = {
+  header: ["Region", "Month", "Sales"],
+  rows: [
+    ["North", "Jan", "100"],
+    ["North", "Feb", "120"],
+    ["South", "Jan", "1,000"],
+    ["East", "Jan", "80"],
+    ["", "Jan", "5"],
+  ],
+};
+
+const TARGETS: CsvTable = {
+  header: ["region", "Target", "Sales"],
+  rows: [
+    ["North", "110", "90"],
+    ["South", "900", "950"],
+    ["West", "50", "40"],
+  ],
+};
+
+const REGION_KEY = [{ left: "Region", right: "region" }];
+
+describe("joinTables", () => {
+  it("keeps only matching rows in an inner join", () => {
+    const { table, stats } = joinTables(SALES, TARGETS, {
+      type: "inner",
+      keys: REGION_KEY,
+      rightName: "Targets",
+    });
+
+    expect(table).toEqual({
+      header: ["Region", "Month", "Sales", "Target", "Sales (Targets)"],
+      rows: [
+        ["North", "Jan", "100", "110", "90"],
+        ["North", "Feb", "120", "110", "90"],
+        ["South", "Jan", "1,000", "900", "950"],
+      ],
+    });
+    expect(stats).toEqual({
+      leftRows: 5,
+      rightRows: 3,
+      leftMatched: 3,
+      leftUnmatched: 2,
+      rightMatched: 2,
+      rightUnmatched: 1,
+      leftMissingKeys: 1,
+      rightMissingKeys: 0,
+      leftDuplicateKeys: 1,
+      rightDuplicateKeys: 0,
+      numericKeys: 0,
+      resultRows: 3,
+    });
+  });
+
+  it("keeps unmatched rows in left and outer joins", () => {
+    const left = joinTables(SALES, TARGETS, { type: "left", keys: REGION_KEY });
+    const outer = joinTables(SALES, TARGETS, {
+      type: "outer",
+      keys: REGION_KEY,
+    });
+
+    expect(left.table.rows).toContainEqual(["East", "Jan", "80", "", ""]);
+    expect(left.stats.resultRows).toBe(5);
+    expect(outer.table.rows.slice(5)).toEqual([["West", "", "", "50", "40"]]);
+    expect(outer.table.header[4]).toBe("Sales (right)");
+  });
+
+  it("compares key text exactly unless asked to match numbers", () => {
+    const orders = { header: ["Sku"], rows: [["00123"], ["456"]] };
+    const products = {
+      header: ["Sku", "Name"],
+      rows: [
+        ["123", "Bolt"],
+        ["456", "Nut"],
+      ],
+    };
+    const keys = [{ left: "Sku", right: "Sku" }];
+
+    const exact = joinTables(orders, products, { type: "inner", keys });
+    const numeric = joinTables(orders, products, {
+      type: "inner",
+      keys,
+      matchNumbers: true,
+    });
+
+    expect(exact.table.rows).toEqual([["456", "Nut"]]);
+    expect(exact.stats.numericKeys).toBe(0);
+    expect(numeric.table.rows).toEqual([
+      ["00123", "Bolt"],
+      ["456", "Nut"],
+    ]);
+    expect(numeric.stats.numericKeys).toBe(1);
+  });
+
+  it("matches numbers only when both key columns are numbers", () => {
+    const orders = { header: ["Code"], rows: [["007"], ["12"]] };
+    const codes = {
+      header: ["Code", "Label"],
+      rows: [
+        ["7", "Seven"],
+        ["X12", "Other"],
+      ],
+    };
+
+    const { table, stats } = joinTables(orders, codes, {
+      type: "inner",
+      keys: [{ left: "Code", right: "Code" }],
+      matchNumbers: true,
+    });
+
+    expect(table.rows).toEqual([]);
+    expect(stats.numericKeys).toBe(0);
+  });
+
+  it("matches numbers however they're written, on several keys", () => {
+    const orders = {
+      header: ["Customer", "Year"],
+      rows: [
+        ["1,001", "2024"],
+        ["7", "2024.0"],
+      ],
+    };
+    const customers = {
+      header: ["Id", "Year", "Name"],
+      rows: [
+        ["1001", "2024", "Acme"],
+        ["7.0", "2024", "Globex"],
+      ],
+    };
+
+    const { table } = joinTables(orders, customers, {
+      type: "inner",
+      keys: [
+        { left: "Customer", right: "Id" },
+        { left: "Year", right: "Year" },
+      ],
+      matchNumbers: true,
+    });
+
+    expect(table.rows).toEqual([
+      ["1,001", "2024", "Acme"],
+      ["7", "2024.0", "Globex"],
+    ]);
+  });
+
+  it("reports missing key columns", () => {
+    expect(() =>
+      joinTables(SALES, TARGETS, {
+        type: "inner",
+        keys: [{ left: "Area", right: "region" }],
+      }),
+    ).toThrow(
+      new CombineError("column", 'The left dataset has no column named "Area"'),
+    );
+    expect(() =>
+      joinTables(SALES, TARGETS, { type: "inner", keys: [] }),
+    ).toThrow(CombineError);
+  });
+});
+
+describe("lookupColumns", () => {
+  it("adds the first matching row's values without repeating rows", () => {
+    const lookup = {
+      header: ["Region", "Manager"],
+      rows: [
+        ["North", "Ana"],
+        ["North", "Ben"],
+        ["South", "Cai"],
+      ],
+    };
+
+    const { table, stats } = lookupColumns(SALES, lookup, {
+      keys: [{ left: "Region", right: "Region" }],
+      columns: ["Manager"],
+    });
+
+    expect(table.header).toEqual(["Region", "Month", "Sales", "Manager"]);
+    expect(table.rows.map((row) => row[3])).toEqual([
+      "Ana",
+      "Ana",
+      "Cai",
+      "",
+      "",
+    ]);
+    expect(stats).toEqual({
+      rows: 5,
+      matched: 3,
+      unmatched: 2,
+      missingKeys: 1,
+      ambiguousKeys: 1,
+      numericKeys: 0,
+    });
+  });
+});
+
+describe("appendTables", () => {
+  const january = {
+    header: ["Region", "Sales"],
+    rows: [
+      ["North", "100"],
+      ["South", "200"],
+    ],
+  };
+  const february = {
+    header: ["sales ", "Region", "Returns"],
+    rows: [
+      ["100", "North"],
+      ["150", "East", "3"],
+    ],
+  };
+
+  it("lines up columns by name", () => {
+    const { table, stats } = appendTables(
+      [
+        { name: "Jan", table: january },
+        { name: "Feb", table: february },
+      ],
+      { sourceColumn: "Month" },
+    );
+
+    expect(table).toEqual({
+      header: ["Region", "Sales", "Returns", "Month"],
+      rows: [
+        ["North", "100", "", "Jan"],
+        ["South", "200", "", "Jan"],
+        ["North", "100", "", "Feb"],
+        ["East", "150", "3", "Feb"],
+      ],
+    });
+    expect(stats.sources).toEqual([
+      { name: "Jan", rows: 2, missingColumns: ["Returns"], droppedColumns: [] },
+      { name: "Feb", rows: 2, missingColumns: [], droppedColumns: [] },
+    ]);
+  });
+
+  it("drops repeated rows and unshared columns in a union", () => {
+    const { table, stats } = appendTables(
+      [
+        { name: "Jan", table: january },
+        { name: "Feb", table: february },
+      ],
+      { mode: "union", columns: "shared" },
+    );
+
+    expect(table).toEqual({
+      header: ["Region", "Sales"],
+      rows: [
+        ["North", "100"],
+        ["South", "200"],
+        ["East", "150"],
+      ],
+    });
+    expect(stats.duplicatesDropped).toBe(1);
+    expect(stats.sources[1].droppedColumns).toEqual(["Returns"]);
+  });
+});
@@ -0,0 +1,137 @@
+import type {
+  CsvDelimiter,
+  CsvEncoding,
+  RecordTable,
+  TypedTable,
+} from "../csv";
+import { decodeCsv, parseCsv, typeTable } from "../csv";
+import type { DatasetFormat } from "./dataset_import_error";
+import { DatasetImportError } from "./dataset_import_error";
+import { readJsonTables } from "./json_importer";
+import { readParquetTable } from "./parquet_importer";
+import { readXlsxSheets } from "./xlsx_importer";
+
+/**
+ * A table read from a file: a sheet of a workbook, an array in a JSON
+ * document, or the whole of a CSV, TSV or Parquet file.
+ */
+export interface ImportedTable extends RecordTable, TypedTable {
+  name: string;
+}
+
+/**
+ * A file read as one or more tables, for the user to choose from.
+ */
+export interface DatasetImport {
+  fileName: string;
+  format: DatasetFormat;
+  tables: ImportedTable[];
+  /** How a CSV or TSV file's text was read. Unset for other formats. */
+  text?: { delimiter: CsvDelimiter; encoding: CsvEncoding };
+}
+
+const EXTENSION_FORMATS: Record<string, DatasetFormat> = {
+  csv: "csv",
+  txt: "csv",
+  tsv: "tsv",
+  tab: "tsv",
+  xlsx: "xlsx",
+  xlsm: "xlsx",
+  json: "json",
+  jsonl: "json",
+  ndjson: "json",
+  parquet: "parquet",
+};
+
+/**
+ * The file types the importer reads, for a file input's `accept`.
+ */
+export const DATASET_FILE_TYPES = Object.keys(EXTENSION_FORMATS)
+  .map((extension) => `.${extension}`)
+  .join(",");
+
+const startsWith = (bytes: Uint8Array, text: string) =>
+  [...text].every((char, index) => bytes[index] === char.charCodeAt(0));
+
+const extensionOf = (fileName: string) => {
+  const dot = fileName.lastIndexOf(".");
+  return dot < 0 ? "" : fileName.slice(dot + 1).toLowerCase();
+};
+
+/**
+ * Works out a file's format from its extension, or from its first bytes if
+ * the extension isn't one the importer knows.
+ */
+export const detectDatasetFormat = (
+  fileName: string,
+  bytes: Uint8Array,
+): DatasetFormat => {
+  const extension = extensionOf(fileName);
+  if (extension === "xls") {
+    throw new DatasetImportError(
+      "xlsx",
+      "Older Excel workbooks (.xls) can't be read. Save the workbook as .xlsx and upload it again.",
+    );
+  }
+  const format = EXTENSION_FORMATS[extension];
+  if (format) {
+    return format;
+  }
+  if (startsWith(bytes, "PK\x03\x04")) {
+    return "xlsx";
+  }
+  if (startsWith(bytes, "PAR1")) {
+    return "parquet";
+  }
+  const firstCharacter = decodeCsv(bytes.subarray(0, 64)).text.trimStart()[0];
+  return firstCharacter === "[" || firstCharacter === "{" ? "json" : "csv";
+};
+
+const baseName = (fileName: string) => {
+  const dot = fileName.lastIndexOf(".");
+  return dot > 0 ? fileName.slice(0, dot) : fileName;
+};
+
+/**
+ * Reads a data file into tables with typed columns, whatever its format, so
+ * everything after the upload works on the same model. CSV files are
+ * sniffed for their delimiter, and TSV files are read as tab-separated.
+ * Unlike JSON and Parquet, whose columns are always named, a CSV file or a
+ * sheet only has a header row if its first row looks like one.
+ * @throws DatasetImportError if the file can't be read.
+ */
+export const importDataset = async (
+  fileName: string,
+  data: ArrayBuffer | Uint8Array,
+): Promise<DatasetImport> => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const format = detectDatasetFormat(fileName, bytes);
+  const imported = (tables: (RecordTable & { name: string })[]) => ({
+    fileName,
+    format,
+    tables: tables.map(typeTable),
+  });
+
+  switch (format) {
+    case "xlsx":
+      return imported(await readXlsxSheets(bytes));
+    case "json":
+      return imported(readJsonTables(decodeCsv(bytes).text));
+    case "parquet":
+      return imported([await readParquetTable(bytes, baseName(fileName))]);
+    default: {
+      const { text, encoding } = decodeCsv(bytes);
+      const { delimiter, ...table } = parseCsv(text, {
+        delimiter: format === "tsv" ? "\t" : "auto",
+        header: "auto",
+      });
+      if (table.header.length === 0) {
+        throw new DatasetImportError(format, "The file is empty.");
+      }
+      return {
+        ...imported([{ name: baseName(fileName), ...table }]),
+        text: { delimiter, encoding },
+      };
+    }
+  }
+};
@@ -0,0 +1,27 @@
+/**
+ * The file formats datasets can be imported from. TSV is CSV separated by
+ * tabs, and JSON includes JSON Lines.
+ */
+export const DATASET_FORMATS = [
+  "csv",
+  "tsv",
+  "xlsx",
+  "json",
+  "parquet",
+] as const;
+
+export type DatasetFormat = (typeof DATASET_FORMATS)[number];
+
+/**
+ * A file couldn't be read as a dataset: it's damaged, isn't in the format
+ * its name says, or uses a feature of the format that isn't supported.
+ */
+export class DatasetImportError extends Error {
+  constructor(
+    readonly format: DatasetFormat,
+    message: string,
+  ) {
+    super(message);
+    Object.setPrototypeOf(this, DatasetImportError.prototype);
+  }
+}
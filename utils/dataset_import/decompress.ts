@@ -0,0 +1,22 @@
+// Runs bytes through one of the platform's decompression streams, which
+// browsers and Node both provide
+const decompress = async (
+  bytes: Uint8Array,
+  format: CompressionFormat,
+): Promise<Uint8Array> => {
+  const stream = new Blob([bytes])
+    .stream()
+    .pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Inflates DEFLATE data without a header, as ZIP archives store it.
+ */
+export const inflateRaw = (bytes: Uint8Array) =>
+  decompress(bytes, "deflate-raw");
+
+/**
+ * Decompresses gzip data.
+ */
+export const gunzip = (bytes: Uint8Array) => decompress(bytes, "gzip");
@@ -0,0 +1,15 @@
+export type { DatasetImport, ImportedTable } from "./dataset_import";
+export type { DatasetFormat } from "./dataset_import_error";
+export type { JsonTable } from "./json_importer";
+export type { ParquetTable } from "./parquet_importer";
+export type { XlsxSheet } from "./xlsx_importer";
+export {
+  DATASET_FILE_TYPES,
+  detectDatasetFormat,
+  importDataset,
+} from "./dataset_import";
+export { DATASET_FORMATS, DatasetImportError } from "./dataset_import_error";
+export { readJsonTables } from "./json_importer";
+export { readParquetTable } from "./parquet_importer";
+export { decompressSnappy } from "./snappy";
+export { readXlsxSheets } from "./xlsx_importer";
@@ -0,0 +1,156 @@
+import type { RecordTable } from "../csv";
+import { tableFromRecords } from "../csv";
+import { DatasetImportError } from "./dataset_import_error";
+
+/**
+ * An array found in a JSON document, read as a table.
+ */
+export interface JsonTable extends RecordTable {
+  /** Where the array is in the document, such as `data.orders`. */
+  name: string;
+}
+
+type JsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | JsonValue[]
+  | { [key: string]: JsonValue };
+
+type JsonObject = Record<string, JsonValue>;
+
+// The name of an array that is the whole document
+const ROOT_NAME = "(root)";
+
+const isObject = (value: JsonValue): value is JsonObject =>
+  typeof value === "object" && value != null && !Array.isArray(value);
+
+const formatValue = (value: JsonValue): string => {
+  if (value == null) {
+    return "";
+  }
+  if (Array.isArray(value)) {
+    // Lists of plain values read naturally joined up; anything deeper is
+    // kept as JSON
+    return value.every((item) => !isObject(item) && !Array.isArray(item))
+      ? value.map(formatValue).join(", ")
+      : JSON.stringify(value);
+  }
+  return String(value);
+};
+
+// Flattens nested objects into one level, with keys joined by dots, so
+// `{ "customer": { "name": "Lee" } }` has the column `customer.name`
+const flatten = (
+  value: JsonObject,
+  prefix = "",
+  row = new Map<string, string>(),
+) => {
+  for (const [key, child] of Object.entries(value)) {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (isObject(child) && Object.keys(child).length > 0) {
+      flatten(child, name, row);
+    } else {
+      row.set(name, isObject(child) ? "" : formatValue(child));
+    }
+  }
+  return row;
+};
+
+// Makes a table from the items of an array. Objects are flattened into
+// columns, in the order their keys are first seen; plain values make a
+// single `value` column.
+const tableFromArray = (name: string, items: JsonValue[]): JsonTable => {
+  const rows = items.map((item) =>
+    isObject(item) ? flatten(item) : new Map([["value", formatValue(item)]]),
+  );
+  const columns = new Set<string>();
+  for (const row of rows) {
+    for (const key of row.keys()) {
+      columns.add(key);
+    }
+  }
+  const header = [...columns];
+  return {
+    name,
+    ...tableFromRecords([
+      header,
+      ...rows.map((row) => header.map((column) => row.get(column) ?? "")),
+    ]),
+  };
+};
+
+// Finds the arrays in a document that could be tables, by walking through
+// objects. Below the top level, only arrays of records count, so a list of
+// tags beside the records isn't offered as a table. Arrays inside the items
+// of an array are columns of that array's table, not tables of their own.
+const findArrays = (
+  value: JsonValue,
+  path: string,
+  found: { path: string; items: JsonValue[] }[] = [],
+) => {
+  if (Array.isArray(value)) {
+    if (value.length > 0 && (path === "" || value.some(isObject))) {
+      found.push({ path: path || ROOT_NAME, items: value });
+    }
+  } else if (isObject(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      findArrays(child, path ? `${path}.${key}` : key, found);
+    }
+  }
+  return found;
+};
+
+// Parses a document, or JSON Lines: one JSON value on each line
+const parseJson = (text: string): JsonValue => {
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    const lines = text.split(/\r?\n/).filter((line) => line.trim() !== "");
+    if (lines.length < 2) {
+      throw e;
+    }
+    return lines.map((line, index) => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        throw new DatasetImportError(
+          "json",
+          `Line ${index + 1} isn't valid JSON.`,
+        );
+      }
+    });
+  }
+};
+
+/**
+ * Reads the tables in a JSON document: an array of records, or each array
+ * of records found in an object, such as an API response with its rows
+ * under `data`. Nested objects are flattened into columns named with dots.
+ * JSON Lines files, with a record on each line, are read as one table.
+ */
+export const readJsonTables = (text: string): JsonTable[] => {
+  let document: JsonValue;
+  try {
+    document = parseJson(text);
+  } catch (e) {
+    if (e instanceof DatasetImportError) {
+      throw e;
+    }
+    throw new DatasetImportError(
+      "json",
+      `The file isn't valid JSON: ${e instanceof Error ? e.message : String(e)}`,
+    );
+  }
+
+  const arrays = findArrays(document, "");
+  if (arrays.length > 0) {
+    return arrays.map(({ path, items }) => tableFromArray(path, items));
+  }
+  // An object with no arrays is a single record
+  if (isObject(document) && Object.keys(document).length > 0) {
+    return [tableFromArray(ROOT_NAME, [document])];
+  }
+  throw new DatasetImportError("json", "The file has no records to read.");
+};
@@ -0,0 +1,660 @@
+import type { RecordTable } from "../csv";
+import { tableFromRecords } from "../csv";
+import { gunzip } from "./decompress";
+import { DatasetImportError } from "./dataset_import_error";
+import { decompressSnappy } from "./snappy";
+import type { ThriftStruct, ThriftValue } from "./thrift_reader";
+import { ThriftReader } from "./thrift_reader";
+
+// Field IDs and enum values from the Parquet format's Thrift definition,
+// parquet.thrift
+const FILE_METADATA = { schema: 2, rowGroups: 4 };
+const SCHEMA_ELEMENT = {
+  type: 1,
+  typeLength: 2,
+  repetitionType: 3,
+  name: 4,
+  numChildren: 5,
+  convertedType: 6,
+  scale: 7,
+  logicalType: 10,
+};
+const ROW_GROUP = { columns: 1, numRows: 3 };
+const COLUMN_CHUNK = { metaData: 3 };
+const COLUMN_METADATA = {
+  codec: 4,
+  numValues: 5,
+  dataPageOffset: 9,
+  dictionaryPageOffset: 11,
+};
+const PAGE_HEADER = {
+  type: 1,
+  compressedPageSize: 3,
+  dataPageHeader: 5,
+  dictionaryPageHeader: 7,
+  dataPageHeaderV2: 8,
+};
+const DATA_PAGE_HEADER = { numValues: 1, encoding: 2 };
+const DICTIONARY_PAGE_HEADER = { numValues: 1 };
+const DATA_PAGE_HEADER_V2 = {
+  numValues: 1,
+  encoding: 4,
+  definitionLevelsByteLength: 5,
+  repetitionLevelsByteLength: 6,
+  isCompressed: 7,
+};
+const LOGICAL_TYPE = {
+  decimal: 5,
+  date: 6,
+  time: 7,
+  timestamp: 8,
+};
+
+const PHYSICAL_TYPE = {
+  boolean: 0,
+  int32: 1,
+  int64: 2,
+  int96: 3,
+  float: 4,
+  double: 5,
+  byteArray: 6,
+  fixedLenByteArray: 7,
+};
+const CONVERTED_TYPE = {
+  decimal: 5,
+  date: 6,
+  timeMillis: 7,
+  timeMicros: 8,
+  timestampMillis: 9,
+  timestampMicros: 10,
+};
+const REPEATED = 2;
+const OPTIONAL = 1;
+const PAGE_TYPE = { dataPage: 0, dictionaryPage: 2, dataPageV2: 3 };
+const ENCODING = {
+  plain: 0,
+  plainDictionary: 2,
+  rle: 3,
+  rleDictionary: 8,
+};
+const CODEC_NAMES = [
+  "uncompressed",
+  "Snappy",
+  "gzip",
+  "LZO",
+  "Brotli",
+  "LZ4",
+  "Zstandard",
+  "LZ4",
+];
+
+const MAGIC = "PAR1";
+// Days from the Julian day count's start to the Unix epoch, for INT96
+// timestamps
+const JULIAN_UNIX_EPOCH = 2_440_588;
+const MS_PER_DAY = 86_400_000;
+
+/**
+ * A Parquet file, read as a table.
+ */
+export interface ParquetTable extends RecordTable {
+  name: string;
+}
+
+// How a column's values are written as cells
+type ColumnFormat =
+  | { kind: "plain" }
+  | { kind: "text" }
+  | { kind: "decimal"; scale: number }
+  | { kind: "date" }
+  | { kind: "time"; unitsPerMs: number }
+  | { kind: "timestamp"; unitsPerMs: number };
+
+interface ColumnSchema {
+  name: string;
+  type: number;
+  typeLength: number;
+  optional: boolean;
+  format: ColumnFormat;
+}
+
+type RawValue = number | boolean | Uint8Array;
+
+const decoder = new TextDecoder();
+
+const field = (struct: ThriftStruct, id: number) => struct.get(id);
+const numberField = (struct: ThriftStruct, id: number) =>
+  struct.get(id) as number | undefined;
+const structField = (struct: ThriftStruct, id: number) =>
+  struct.get(id) as ThriftStruct | undefined;
+const textField = (struct: ThriftStruct, id: number) => {
+  const value = struct.get(id);
+  return value instanceof Uint8Array ? decoder.decode(value) : undefined;
+};
+
+const fail = (message: string): never => {
+  throw new DatasetImportError("parquet", message);
+};
+
+// Unit structs for TIME and TIMESTAMP: MILLIS, MICROS or NANOS
+const unitsPerMs = (type: ThriftStruct) => {
+  const unit = structField(type, 2);
+  return unit?.has(3) ? 1e6 : unit?.has(2) ? 1e3 : 1;
+};
+
+const columnFormat = (element: ThriftStruct, type: number): ColumnFormat => {
+  const logical = structField(element, SCHEMA_ELEMENT.logicalType);
+  const converted = numberField(element, SCHEMA_ELEMENT.convertedType);
+  const decimal = logical && structField(logical, LOGICAL_TYPE.decimal);
+  if (decimal || converted === CONVERTED_TYPE.decimal) {
+    return {
+      kind: "decimal",
+      scale:
+        (decimal && numberField(decimal, 1)) ??
+        numberField(element, SCHEMA_ELEMENT.scale) ??
+        0,
+    };
+  }
+  if (logical?.has(LOGICAL_TYPE.date) || converted === CONVERTED_TYPE.date) {
+    return { kind: "date" };
+  }
+  const time = logical && structField(logical, LOGICAL_TYPE.time);
+  if (time) {
+    return { kind: "time", unitsPerMs: unitsPerMs(time) };
+  }
+  if (
+    converted === CONVERTED_TYPE.timeMillis ||
+    converted === CONVERTED_TYPE.timeMicros
+  ) {
+    return {
+      kind: "time",
+      unitsPerMs: converted === CONVERTED_TYPE.timeMicros ? 1e3 : 1,
+    };
+  }
+  const timestamp = logical && structField(logical, LOGICAL_TYPE.timestamp);
+  if (timestamp) {
+    return { kind: "timestamp", unitsPerMs: unitsPerMs(timestamp) };
+  }
+  if (
+    converted === CONVERTED_TYPE.timestampMillis ||
+    converted === CONVERTED_TYPE.timestampMicros ||
+    type === PHYSICAL_TYPE.int96
+  ) {
+    return {
+      kind: "timestamp",
+      unitsPerMs: converted === CONVERTED_TYPE.timestampMicros ? 1e3 : 1,
+    };
+  }
+  // Byte arrays are nearly always text, even in files that don't say so
+  return type === PHYSICAL_TYPE.byteArray
+    ? { kind: "text" }
+    : { kind: "plain" };
+};
+
+// Reads the columns from the schema, which lists its elements depth first
+// with the root first. Only flat schemas, with no groups or lists, are
+// supported.
+const readSchema = (schema: ThriftStruct[]): ColumnSchema[] =>
+  schema.slice(1).map((element) => {
+    const name = textField(element, SCHEMA_ELEMENT.name) ?? "";
+    if (
+      numberField(element, SCHEMA_ELEMENT.numChildren) ||
+      numberField(element, SCHEMA_ELEMENT.repetitionType) === REPEATED
+    ) {
+      fail(
+        `The column "${name}" is nested or repeated. Only files with flat columns can be read.`,
+      );
+    }
+    const type = numberField(element, SCHEMA_ELEMENT.type) ?? 0;
+    return {
+      name,
+      type,
+      typeLength: numberField(element, SCHEMA_ELEMENT.typeLength) ?? 0,
+      optional:
+        numberField(element, SCHEMA_ELEMENT.repetitionType) === OPTIONAL,
+      format: columnFormat(element, type),
+    };
+  });
+
+const decompressPage = async (codec: number, bytes: Uint8Array) => {
+  switch (codec) {
+    case 0:
+      return bytes;
+    case 1:
+      return decompressSnappy(bytes);
+    case 2:
+      return gunzip(bytes);
+    default:
+      return fail(
+        `The file is compressed with ${CODEC_NAMES[codec] ?? `codec ${codec}`}, which isn't supported. Save it with Snappy or gzip compression, or none.`,
+      );
+  }
+};
+
+// Reads values in the RLE/bit-packing hybrid encoding used for definition
+// levels and dictionary indices: runs of one repeated value, and groups of
+// eight values packed into `bitWidth` bits each
+const readHybrid = (
+  bytes: Uint8Array,
+  start: number,
+  end: number,
+  bitWidth: number,
+  count: number,
+): number[] => {
+  const values: number[] = [];
+  const byteWidth = Math.ceil(bitWidth / 8);
+  let position = start;
+  while (values.length < count && position < end) {
+    let header = 0;
+    for (let shift = 1; ; shift *= 128) {
+      if (position >= bytes.length) {
+        throw new RangeError("A page ended in the middle of its values.");
+      }
+      const byte = bytes[position++];
+      header += (byte & 0x7f) * shift;
+      if (byte < 0x80) {
+        break;
+      }
+    }
+    if (header % 2 === 0) {
+      let value = 0;
+      for (let i = 0; i < byteWidth; i++) {
+        value += bytes[position++] * 256 ** i;
+      }
+      const runLength = header / 2;
+      for (let i = 0; i < runLength && values.length < count; i++) {
+        values.push(value);
+      }
+    } else {
+      const valueCount = ((header - 1) / 2) * 8;
+      let bit = 0;
+      for (let i = 0; i < valueCount; i++) {
+        let value = 0;
+        for (let b = 0; b < bitWidth; b++, bit++) {
+          const byte = bytes[position + (bit >> 3)];
+          value |= ((byte >> (bit & 7)) & 1) << b;
+        }
+        if (values.length < count) {
+          values.push(value);
+        }
+      }
+      position += (valueCount * bitWidth) / 8;
+    }
+  }
+  return values;
+};
+
+// Reads values in the PLAIN encoding, which writes them one after another
+const readPlain = (
+  bytes: Uint8Array,
+  start: number,
+  column: ColumnSchema,
+  count: number,
+): RawValue[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const values: RawValue[] = [];
+  let position = start;
+  for (let i = 0; i < count; i++) {
+    switch (column.type) {
+      case PHYSICAL_TYPE.boolean:
+        values.push(((bytes[start + (i >> 3)] >> (i & 7)) & 1) === 1);
+        break;
+      case PHYSICAL_TYPE.int32:
+        values.push(view.getInt32(position, true));
+        position += 4;
+        break;
+      case PHYSICAL_TYPE.int64:
+        // Without BigInt, the two halves are combined as a double
+        values.push(
+          view.getInt32(position + 4, true) * 2 ** 32 +
+            view.getUint32(position, true),
+        );
+        position += 8;
+        break;
+      case PHYSICAL_TYPE.int96:
+        values.push(bytes.subarray(position, position + 12));
+        position += 12;
+        break;
+      case PHYSICAL_TYPE.float:
+        values.push(view.getFloat32(position, true));
+        position += 4;
+        break;
+      case PHYSICAL_TYPE.double:
+        values.push(view.getFloat64(position, true));
+        position += 8;
+        break;
+      case PHYSICAL_TYPE.byteArray: {
+        const length = view.getUint32(position, true);
+        values.push(bytes.subarray(position + 4, position + 4 + length));
+        position += 4 + length;
+        break;
+      }
+      case PHYSICAL_TYPE.fixedLenByteArray:
+        values.push(bytes.subarray(position, position + column.typeLength));
+        position += column.typeLength;
+        break;
+      default:
+        fail(`The column "${column.name}" has an unknown type.`);
+    }
+  }
+  return values;
+};
+
+// Decodes the values of a data page
+const readPageValues = (
+  bytes: Uint8Array,
+  start: number,
+  encoding: number,
+  column: ColumnSchema,
+  count: number,
+  dictionary: RawValue[] | undefined,
+): RawValue[] => {
+  switch (encoding) {
+    case ENCODING.plain:
+      return readPlain(bytes, start, column, count);
+    case ENCODING.plainDictionary:
+    case ENCODING.rleDictionary: {
+      if (!dictionary) {
+        return fail(`The column "${column.name}" is missing its dictionary.`);
+      }
+      return readHybrid(
+        bytes,
+        start + 1,
+        bytes.length,
+        bytes[start],
+        count,
+      ).map((index) => dictionary[index]);
+    }
+    case ENCODING.rle: {
+      // Only booleans are written this way, after a length
+      const length = new DataView(
+        bytes.buffer,
+        bytes.byteOffset + start,
+        4,
+      ).getUint32(0, true);
+      return readHybrid(bytes, start + 4, start + 4 + length, 1, count).map(
+        (value) => value === 1,
+      );
+    }
+    default:
+      return fail(
+        `The column "${column.name}" uses encoding ${encoding}, which isn't supported.`,
+      );
+  }
+};
+
+/**
+ * Reads the values of one column in one row group, page by page. Missing
+ * values are `null`.
+ */
+const readColumnChunk = async (
+  bytes: Uint8Array,
+  metaData: ThriftStruct,
+  column: ColumnSchema,
+): Promise<(RawValue | null)[]> => {
+  const codec = numberField(metaData, COLUMN_METADATA.codec) ?? 0;
+  const total = numberField(metaData, COLUMN_METADATA.numValues) ?? 0;
+  const dictionaryOffset = numberField(
+    metaData,
+    COLUMN_METADATA.dictionaryPageOffset,
+  );
+  const dataOffset = numberField(metaData, COLUMN_METADATA.dataPageOffset) ?? 0;
+  // Some writers set the dictionary offset to 0 when there's no dictionary
+  let position =
+    dictionaryOffset && dictionaryOffset < dataOffset
+      ? dictionaryOffset
+      : dataOffset;
+
+  let dictionary: RawValue[] | undefined;
+  const values: (RawValue | null)[] = [];
+  while (values.length < total) {
+    if (position >= bytes.length) {
+      fail(`The data for column "${column.name}" ended early.`);
+    }
+    const reader = new ThriftReader(bytes, position);
+    const header = reader.readStruct();
+    const size = numberField(header, PAGE_HEADER.compressedPageSize) ?? 0;
+    const page = bytes.subarray(reader.offset, reader.offset + size);
+    position = reader.offset + size;
+
+    switch (numberField(header, PAGE_HEADER.type)) {
+      case PAGE_TYPE.dictionaryPage: {
+        const count =
+          numberField(
+            structField(header, PAGE_HEADER.dictionaryPageHeader) ??
+              new Map<number, ThriftValue>(),
+            DICTIONARY_PAGE_HEADER.numValues,
+          ) ?? 0;
+        dictionary = readPlain(
+          await decompressPage(codec, page),
+          0,
+          column,
+          count,
+        );
+        break;
+      }
+      case PAGE_TYPE.dataPage: {
+        const pageHeader =
+          structField(header, PAGE_HEADER.dataPageHeader) ?? new Map();
+        const count = numberField(pageHeader, DATA_PAGE_HEADER.numValues) ?? 0;
+        const data = await decompressPage(codec, page);
+        let start = 0;
+        let levels: number[] | undefined;
+        if (column.optional) {
+          // Definition levels, after their length; 1 means the value is set
+          const length = new DataView(
+            data.buffer,
+            data.byteOffset,
+            4,
+          ).getUint32(0, true);
+          levels = readHybrid(data, 4, 4 + length, 1, count);
+          start = 4 + length;
+        }
+        const present = levels
+          ? levels.filter((level) => level === 1).length
+          : count;
+        const pageValues = readPageValues(
+          data,
+          start,
+          numberField(pageHeader, DATA_PAGE_HEADER.encoding) ?? 0,
+          column,
+          present,
+          dictionary,
+        );
+        let next = 0;
+        for (let i = 0; i < count; i++) {
+          values.push(!levels || levels[i] === 1 ? pageValues[next++] : null);
+        }
+        break;
+      }
+      case PAGE_TYPE.dataPageV2: {
+        const pageHeader =
+          structField(header, PAGE_HEADER.dataPageHeaderV2) ?? new Map();
+        const count =
+          numberField(pageHeader, DATA_PAGE_HEADER_V2.numValues) ?? 0;
+        const levelBytes =
+          (numberField(
+            pageHeader,
+            DATA_PAGE_HEADER_V2.repetitionLevelsByteLength,
+          ) ?? 0) +
+          (numberField(
+            pageHeader,
+            DATA_PAGE_HEADER_V2.definitionLevelsByteLength,
+          ) ?? 0);
+        // Levels are never compressed in version 2 pages, and flat columns
+        // have no repetition levels
+        const levels = column.optional
+          ? readHybrid(page, 0, levelBytes, 1, count)
+          : undefined;
+        const data =
+          field(pageHeader, DATA_PAGE_HEADER_V2.isCompressed) === false
+            ? page.subarray(levelBytes)
+            : await decompressPage(codec, page.subarray(levelBytes));
+        const present = levels
+          ? levels.filter((level) => level === 1).length
+          : count;
+        const pageValues = readPageValues(
+          data,
+          0,
+          numberField(pageHeader, DATA_PAGE_HEADER_V2.encoding) ?? 0,
+          column,
+          present,
+          dictionary,
+        );
+        let next = 0;
+        for (let i = 0; i < count; i++) {
+          values.push(!levels || levels[i] === 1 ? pageValues[next++] : null);
+        }
+        break;
+      }
+      default:
+        // Index pages aren't needed
+        break;
+    }
+  }
+  return values;
+};
+
+// A big-endian two's complement integer, as decimals are stored in byte
+// arrays
+const readBigEndianInteger = (bytes: Uint8Array) => {
+  let value = 0;
+  for (const byte of bytes) {
+    value = value * 256 + byte;
+  }
+  return bytes.length > 0 && bytes[0] >= 0x80
+    ? value - 256 ** bytes.length
+    : value;
+};
+
+const formatTimestamp = (ms: number) => {
+  const iso = new Date(ms).toISOString();
+  return ms % 1000 === 0 ? iso.slice(0, 19) : iso.slice(0, 23);
+};
+
+const formatValue = (value: RawValue | null, column: ColumnSchema): string => {
+  if (value == null) {
+    return "";
+  }
+  if (typeof value === "boolean") {
+    return String(value);
+  }
+  const { format } = column;
+  switch (format.kind) {
+    case "decimal": {
+      const unscaled =
+        value instanceof Uint8Array ? readBigEndianInteger(value) : value;
+      return (unscaled / 10 ** format.scale).toFixed(format.scale);
+    }
+    case "date":
+      return new Date((value as number) * MS_PER_DAY)
+        .toISOString()
+        .slice(0, 10);
+    case "time":
+      return new Date((value as number) / format.unitsPerMs)
+        .toISOString()
+        .slice(11, 19);
+    case "timestamp": {
+      if (value instanceof Uint8Array) {
+        // INT96: nanoseconds into the day, then the Julian day
+        const view = new DataView(value.buffer, value.byteOffset, 12);
+        const nanoseconds =
+          view.getUint32(4, true) * 2 ** 32 + view.getUint32(0, true);
+        const day = view.getInt32(8, true);
+        return formatTimestamp(
+          (day - JULIAN_UNIX_EPOCH) * MS_PER_DAY +
+            Math.floor(nanoseconds / 1e6),
+        );
+      }
+      return formatTimestamp(Math.floor(value / format.unitsPerMs));
+    }
+    case "text":
+      return value instanceof Uint8Array
+        ? decoder.decode(value)
+        : String(value);
+    default:
+      return value instanceof Uint8Array
+        ? Array.from(value, (byte) => byte.toString(16).padStart(2, "0")).join(
+            "",
+          )
+        : String(value);
+  }
+};
+
+/**
+ * Reads a Parquet file as a table. Flat schemas are supported, with
+ * uncompressed, Snappy or gzip pages in the plain and dictionary encodings,
+ * which covers files written by pandas, Spark and DuckDB with their
+ * defaults. Dates and timestamps are written as ISO dates, and decimals with
+ * their scale.
+ */
+export const readParquetTable = async (
+  data: ArrayBuffer | Uint8Array,
+  name: string,
+): Promise<ParquetTable> => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const magic = (offset: number) =>
+    decoder.decode(bytes.subarray(offset, offset + 4));
+  if (
+    bytes.length < 12 ||
+    magic(0) !== MAGIC ||
+    magic(bytes.length - 4) !== MAGIC
+  ) {
+    fail("The file isn't a Parquet file.");
+  }
+
+  try {
+    const footerLength = new DataView(
+      bytes.buffer,
+      bytes.byteOffset + bytes.length - 8,
+      4,
+    ).getUint32(0, true);
+    const metadata = new ThriftReader(
+      bytes,
+      bytes.length - 8 - footerLength,
+    ).readStruct();
+    const columns = readSchema(
+      (field(metadata, FILE_METADATA.schema) ?? []) as ThriftStruct[],
+    );
+
+    const cells: string[][] = columns.map(() => []);
+    for (const rowGroup of (field(metadata, FILE_METADATA.rowGroups) ??
+      []) as ThriftStruct[]) {
+      const chunks = (field(rowGroup, ROW_GROUP.columns) ??
+        []) as ThriftStruct[];
+      for (const [index, column] of columns.entries()) {
+        const metaData =
+          chunks[index] && structField(chunks[index], COLUMN_CHUNK.metaData);
+        if (!metaData) {
+          fail(`The data for column "${column.name}" is missing.`);
+        }
+        const values = await readColumnChunk(
+          bytes,
+          metaData as ThriftStruct,
+          column,
+        );
+        const rowCount =
+          numberField(rowGroup, ROW_GROUP.numRows) ?? values.length;
+        for (let row = 0; row < rowCount; row++) {
+          cells[index].push(formatValue(values[row] ?? null, column));
+        }
+      }
+    }
+
+    const rowCount = cells[0]?.length ?? 0;
+    return {
+      name,
+      ...tableFromRecords([
+        columns.map((column) => column.name),
+        ...Array.from({ length: rowCount }, (_, row) =>
+          cells.map((column) => column[row]),
+        ),
+      ]),
+    };
+  } catch (e) {
+    if (e instanceof RangeError) {
+      fail(`The file is damaged: ${e.message}`);
+    }
+    throw e;
+  }
+};
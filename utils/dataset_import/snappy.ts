@@ -0,0 +1,80 @@
+/**
+ * Decompresses a Snappy block, the compression most Parquet files use. A
+ * block is its uncompressed length, then a series of literals and copies of
+ * earlier output.
+ */
+export const decompressSnappy = (input: Uint8Array): Uint8Array => {
+  let position = 0;
+  const readByte = () => {
+    if (position >= input.length) {
+      throw new RangeError("The Snappy data ended early.");
+    }
+    return input[position++];
+  };
+
+  let length = 0;
+  for (let shift = 1; ; shift *= 128) {
+    const byte = readByte();
+    length += (byte & 0x7f) * shift;
+    if (byte < 0x80) {
+      break;
+    }
+  }
+
+  const output = new Uint8Array(length);
+  let written = 0;
+  while (position < input.length) {
+    const tag = readByte();
+    const kind = tag & 3;
+
+    if (kind === 0) {
+      // A literal; lengths over 60 follow the tag in 1 to 4 bytes
+      let literalLength = tag >> 2;
+      if (literalLength >= 60) {
+        const byteCount = literalLength - 59;
+        literalLength = 0;
+        for (let i = 0; i < byteCount; i++) {
+          literalLength += readByte() * 256 ** i;
+        }
+      }
+      literalLength += 1;
+      if (
+        position + literalLength > input.length ||
+        written + literalLength > length
+      ) {
+        throw new RangeError("The Snappy data is damaged.");
+      }
+      output.set(input.subarray(position, position + literalLength), written);
+      position += literalLength;
+      written += literalLength;
+      continue;
+    }
+
+    let copyLength: number;
+    let offset: number;
+    if (kind === 1) {
+      copyLength = ((tag >> 2) & 7) + 4;
+      offset = ((tag >> 5) << 8) | readByte();
+    } else {
+      copyLength = (tag >> 2) + 1;
+      offset = 0;
+      for (let i = 0; i < (kind === 2 ? 2 : 4); i++) {
+        offset += readByte() * 256 ** i;
+      }
+    }
+    if (offset === 0 || offset > written || written + copyLength > length) {
+      throw new RangeError("The Snappy data is damaged.");
+    }
+    // Copies can overlap the bytes they write, repeating a pattern, so this
+    // goes a byte at a time
+    for (let i = 0; i < copyLength; i++) {
+      output[written] = output[written - offset];
+      written++;
+    }
+  }
+
+  if (written !== length) {
+    throw new RangeError("The Snappy data ended early.");
+  }
+  return output;
+};
@@ -0,0 +1,456 @@
+/** @jest-environment node */
+import { deflateRawSync } from "node:zlib";
+import {
+  DatasetImportError,
+  decompressSnappy,
+  detectDatasetFormat,
+  importDataset,
+  readJsonTables,
+  readParquetTable,
+  readXlsxSheets,
+} from "../index";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+// Builds a ZIP archive, deflating the files whose names are listed
+const zip = (files: Record<string, string>, deflated: string[] = []) => {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const raw = Buffer.from(content);
+    const method = deflated.includes(name) ? 8 : 0;
+    const data = method ? deflateRawSync(raw) : raw;
+    const nameBytes = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+    offset += 30 + nameBytes.length + data.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return new Uint8Array(Buffer.concat([...locals, directory, end]));
+};
+
+const RELATIONSHIP =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+const WORKBOOK = zip(
+  {
+    "_rels/.rels": `<?xml version="1.0"?><Relationships><Relationship Id="rId1" Type="${RELATIONSHIP}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    "xl/workbook.xml": `<?xml version="1.0"?><workbook xmlns:r="${RELATIONSHIP}"><sheets><sheet name="Sales" sheetId="1" r:id="rId1"/><sheet name="Empty" sheetId="2" r:id="rId2"/><sheet name="Targets" sheetId="3" r:id="rId3"/></sheets></workbook>`,
+    "xl/_rels/workbook.xml.rels": `<Relationships><Relationship Id="rId1" Type="${RELATIONSHIP}/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="${RELATIONSHIP}/worksheet" Target="worksheets/sheet2.xml"/><Relationship Id="rId3" Type="${RELATIONSHIP}/worksheet" Target="/xl/worksheets/sheet3.xml"/><Relationship Id="rId4" Type="${RELATIONSHIP}/sharedStrings" Target="sharedStrings.xml"/><Relationship Id="rId5" Type="${RELATIONSHIP}/styles" Target="styles.xml"/></Relationships>`,
+    "xl/sharedStrings.xml": `<sst><si><t>Region</t></si><si><t>Date</t></si><si><t>Sales</t></si><si><t>Share</t></si><si><r><t>Nor</t></r><r><rPr><b/></rPr><t>th</t></r></si></sst>`,
+    "xl/styles.xml": `<styleSheet><numFmts count="1"><numFmt numFmtId="164" formatCode="d\\ mmm\\ yyyy"/></numFmts><cellXfs count="3"><xf numFmtId="0"/><xf numFmtId="164"/><xf numFmtId="9"/></cellXfs></styleSheet>`,
+    // The data starts at B2, and the second row has an error value
+    "xl/worksheets/sheet1.xml": `<worksheet><sheetData>
+      <row r="2"><c r="B2" t="s"><v>0</v></c><c r="C2" t="s"><v>1</v></c><c r="D2" t="s"><v>2</v></c><c r="E2" t="s"><v>3</v></c></row>
+      <row r="3"><c r="B3" t="s"><v>4</v></c><c r="C3" s="1"><v>45292</v></c><c r="D3"><v>1200.5</v></c><c r="E3" s="2"><v>0.25</v></c></row>
+      <row r="4"><c r="B4" t="inlineStr"><is><t>South &amp; co</t></is></c><c r="C4" s="1"><v>45293.5</v></c><c r="D4" t="e"><v>#DIV/0!</v></c><c r="E4" s="2"><v>0.1</v></c></row>
+    </sheetData></worksheet>`,
+    "xl/worksheets/sheet2.xml": `<worksheet><sheetData/></worksheet>`,
+    "xl/worksheets/sheet3.xml": `<worksheet><sheetData><row><c t="str"><v>North</v></c><c><v>1000</v></c></row><row><c t="str"><v>South</v></c><c><v>800</v></c></row><row><c t="b"><v>1</v></c></row></sheetData></worksheet>`,
+  },
+  ["xl/sharedStrings.xml", "xl/worksheets/sheet1.xml"],
+);
+
+// Writes Thrift compact protocol structs, from [field ID, type, value bytes]
+const varint = (n: number) => {
+  const bytes: number[] = [];
+  while (n >= 0x80) {
+    bytes.push(n % 0x80 | 0x80);
+    n = Math.floor(n / 0x80);
+  }
+  bytes.push(n);
+  return bytes;
+};
+const i32 = (n: number) => varint(n >= 0 ? n * 2 : -n * 2 - 1);
+const binary = (bytes: number[] | Uint8Array) => [
+  ...varint(bytes.length),
+  ...bytes,
+];
+const struct = (...fields: [number, number, number[]][]) => {
+  const bytes: number[] = [];
+  let last = 0;
+  for (const [id, type, value] of fields) {
+    bytes.push(((id - last) << 4) | type, ...value);
+    last = id;
+  }
+  return [...bytes, 0];
+};
+const list = (type: number, items: number[][]) => [
+  (items.length << 4) | type,
+  ...items.flat(),
+];
+const INT = 5;
+const LONG = 6;
+const BINARY = 8;
+const LIST = 9;
+const STRUCT = 12;
+const FALSE = 2;
+
+const int32s = (values: number[]) =>
+  values.flatMap((n) => [...new Uint8Array(Int32Array.of(n).buffer)]);
+
+// Builds a Parquet file with four columns over three rows, using version 1
+// and 2 data pages, a dictionary, Snappy compression and missing values
+const buildParquet = () => {
+  const file: number[] = [...encode("PAR1")];
+  const chunks: number[][] = [];
+  const addPage = (header: number[], data: number[]) => {
+    const offset = file.length;
+    file.push(...header, ...data);
+    return offset;
+  };
+  const pageHeader = (
+    type: number,
+    size: number,
+    uncompressed: number,
+    detail: [number, number[]],
+  ) =>
+    struct(
+      [1, INT, i32(type)],
+      [2, INT, i32(uncompressed)],
+      [3, INT, i32(size)],
+      [detail[0], STRUCT, detail[1]],
+    );
+  const chunk = (
+    name: string,
+    type: number,
+    codec: number,
+    dataOffset: number,
+    dictionaryOffset?: number,
+  ) =>
+    struct(
+      [2, LONG, i32(dataOffset)],
+      [
+        3,
+        STRUCT,
+        struct(
+          [1, INT, i32(type)],
+          [2, LIST, list(INT, [i32(0)])],
+          [3, LIST, list(BINARY, [binary(encode(name))])],
+          [4, INT, i32(codec)],
+          [5, LONG, i32(3)],
+          [6, LONG, i32(0)],
+          [7, LONG, i32(0)],
+          [9, LONG, i32(dataOffset)],
+          ...(dictionaryOffset === undefined
+            ? []
+            : ([[11, LONG, i32(dictionaryOffset)]] as [
+                number,
+                number,
+                number[],
+              ][])),
+        ),
+      ],
+    );
+
+  // id: required INT32, plain, version 1 page
+  const ids = int32s([1, 2, 3]);
+  chunks.push(
+    chunk(
+      "id",
+      1,
+      0,
+      addPage(
+        pageHeader(0, ids.length, ids.length, [
+          5,
+          struct([1, INT, i32(3)], [2, INT, i32(0)]),
+        ]),
+        ids,
+      ),
+    ),
+  );
+
+  // city: optional strings from a dictionary, the second one missing
+  const dictionary = [
+    ...int32s([4]),
+    ...encode("Oslo"),
+    ...int32s([4]),
+    ...encode("Lima"),
+  ];
+  const dictionaryOffset = addPage(
+    pageHeader(2, dictionary.length, dictionary.length, [
+      7,
+      struct([1, INT, i32(2)]),
+    ]),
+    dictionary,
+  );
+  // Definition levels 1, 0, 1 and indices 1, 0, each bit-packed
+  const cities = [...int32s([2]), 3, 0b101, 1, 3, 0b01];
+  chunks.push(
+    chunk(
+      "city",
+      6,
+      0,
+      addPage(
+        pageHeader(0, cities.length, cities.length, [
+          5,
+          struct([1, INT, i32(3)], [2, INT, i32(8)]),
+        ]),
+        cities,
+      ),
+      dictionaryOffset,
+    ),
+  );
+
+  // sold: required dates, Snappy-compressed as a single literal
+  const days = int32s([19723, 19724, 19754]);
+  const compressed = [...varint(days.length), (days.length - 1) << 2, ...days];
+  chunks.push(
+    chunk(
+      "sold",
+      1,
+      1,
+      addPage(
+        pageHeader(0, compressed.length, days.length, [
+          5,
+          struct([1, INT, i32(3)], [2, INT, i32(0)]),
+        ]),
+        compressed,
+      ),
+    ),
+  );
+
+  // price: optional doubles in a version 2 page, the last one missing
+  const prices = [
+    3,
+    0b011,
+    ...new Uint8Array(Float64Array.of(9.5, 12.25).buffer),
+  ];
+  chunks.push(
+    chunk(
+      "price",
+      5,
+      1,
+      addPage(
+        pageHeader(3, prices.length, prices.length, [
+          8,
+          struct(
+            [1, INT, i32(3)],
+            [2, INT, i32(1)],
+            [3, INT, i32(3)],
+            [4, INT, i32(0)],
+            [5, INT, i32(2)],
+            [6, INT, i32(0)],
+            [7, FALSE, []],
+          ),
+        ]),
+        prices,
+      ),
+    ),
+  );
+
+  const schemaElement = (
+    name: string,
+    type: number,
+    repetition: number,
+    converted?: number,
+  ) =>
+    struct(
+      [1, INT, i32(type)],
+      [3, INT, i32(repetition)],
+      [4, BINARY, binary(encode(name))],
+      ...(converted === undefined
+        ? []
+        : ([[6, INT, i32(converted)]] as [number, number, number[]][])),
+    );
+  const footer = struct(
+    [1, INT, i32(1)],
+    [
+      2,
+      LIST,
+      list(STRUCT, [
+        struct([4, BINARY, binary(encode("schema"))], [5, INT, i32(4)]),
+        schemaElement("id", 1, 0),
+        schemaElement("city", 6, 1, 0),
+        schemaElement("sold", 1, 0, 6),
+        schemaElement("price", 5, 1),
+      ]),
+    ],
+    [3, LONG, i32(3)],
+    [
+      4,
+      LIST,
+      list(STRUCT, [
+        struct(
+          [1, LIST, list(STRUCT, chunks)],
+          [2, LONG, i32(0)],
+          [3, LONG, i32(3)],
+        ),
+      ]),
+    ],
+  );
+  file.push(...footer, ...int32s([footer.length]), ...encode("PAR1"));
+  return Uint8Array.from(file);
+};
+
+describe("readXlsxSheets", () => {
+  it("reads each sheet with data, with dates and percentages", async () => {
+    const sheets = await readXlsxSheets(WORKBOOK);
+    expect(sheets.map(({ name }) => name)).toEqual(["Sales", "Targets"]);
+    expect(sheets[0]).toMatchObject({
+      hasHeader: true,
+      header: ["Region", "Date", "Sales", "Share"],
+      rows: [
+        ["North", "2024-01-01", "1200.5", "25%"],
+        ["South & co", "2024-01-02T12:00:00", "", "10%"],
+      ],
+    });
+  });
+
+  it("names the columns of a sheet without a header row", async () => {
+    const [, targets] = await readXlsxSheets(WORKBOOK);
+    expect(targets).toMatchObject({
+      hasHeader: false,
+      header: ["Column 1", "Column 2"],
+      rows: [
+        ["North", "1000"],
+        ["South", "800"],
+        ["true", ""],
+      ],
+    });
+  });
+
+  it("rejects files that aren't workbooks", async () => {
+    await expect(readXlsxSheets(encode("Region,Sales"))).rejects.toThrow(
+      DatasetImportError,
+    );
+  });
+});
+
+describe("readJsonTables", () => {
+  it("reads each array of records, flattening nested objects", () => {
+    const tables = readJsonTables(
+      JSON.stringify({
+        meta: { page: 1, tags: ["a", "b"] },
+        data: {
+          orders: [
+            { id: 1, customer: { name: "Lee", city: "Oslo" }, items: ["x"] },
+            { id: 2, customer: { name: "Kim" }, paid: true, note: null },
+          ],
+        },
+        regions: [{ name: "North" }],
+      }),
+    );
+    expect(tables.map(({ name }) => name)).toEqual(["data.orders", "regions"]);
+    expect(tables[0]).toMatchObject({
+      header: ["id", "customer.name", "customer.city", "items", "paid", "note"],
+      rows: [
+        ["1", "Lee", "Oslo", "x", "", ""],
+        ["2", "Kim", "", "", "true", ""],
+      ],
+    });
+  });
+
+  it("reads JSON Lines and arrays of plain values", () => {
+    expect(
+      readJsonTables('{"a": 1, "b": [{"c": 2}]}\n{"a": 3}\n')[0].rows,
+    ).toEqual([
+      ["1", '[{"c":2}]'],
+      ["3", ""],
+    ]);
+    expect(readJsonTables("[1, 2]")[0]).toMatchObject({
+      name: "(root)",
+      header: ["value"],
+    });
+  });
+
+  it("says which line of JSON Lines is invalid", () => {
+    expect(() => readJsonTables('{"a": 1}\n{"a": }')).toThrow(
+      "Line 2 isn't valid JSON.",
+    );
+  });
+});
+
+describe("readParquetTable", () => {
+  it("reads plain, dictionary and compressed pages", async () => {
+    expect(await readParquetTable(buildParquet(), "sales")).toMatchObject({
+      name: "sales",
+      header: ["id", "city", "sold", "price"],
+      rows: [
+        ["1", "Lima", "2024-01-01", "9.5"],
+        ["2", "", "2024-01-02", "12.25"],
+        ["3", "Oslo", "2024-02-01", ""],
+      ],
+    });
+  });
+
+  it("rejects files that aren't Parquet", async () => {
+    await expect(
+      readParquetTable(encode("PAR1 not really"), "x"),
+    ).rejects.toThrow("The file isn't a Parquet file.");
+  });
+});
+
+describe("decompressSnappy", () => {
+  it("expands literals and overlapping copies", () => {
+    const compressed = Uint8Array.from([12, 2 << 2, ...encode("abc"), 21, 3]);
+    expect(new TextDecoder().decode(decompressSnappy(compressed))).toBe(
+      "abcabcabcabc",
+    );
+  });
+});
+
+describe("importDataset", () => {
+  it("detects formats by extension, then by content", () => {
+    expect(detectDatasetFormat("data.TSV", encode(""))).toBe("tsv");
+    expect(detectDatasetFormat("export", WORKBOOK)).toBe("xlsx");
+    expect(detectDatasetFormat("export", buildParquet())).toBe("parquet");
+    expect(detectDatasetFormat("export", encode(' \n[{"a":1}]'))).toBe("json");
+    expect(detectDatasetFormat("export", encode("a,b"))).toBe("csv");
+    expect(() => detectDatasetFormat("old.xls", encode(""))).toThrow(
+      DatasetImportError,
+    );
+  });
+
+  it("types the columns of every format", async () => {
+    const workbook = await importDataset("sales.xlsx", WORKBOOK);
+    expect(workbook.tables[0].columns.map(({ type }) => type)).toEqual([
+      "category",
+      "date",
+      "number",
+      "percent",
+    ]);
+
+    const parquet = await importDataset("sales.parquet", buildParquet());
+    expect(parquet.tables[0].columns.map(({ type }) => type)).toEqual([
+      "integer",
+      "category",
+      "date",
+      "number",
+    ]);
+  });
+
+  it("reads TSV as tab-separated and says how text was read", async () => {
+    const imported = await importDataset(
+      "sales.tsv",
+      encode("Region\tNote\nNorth\ta, b\nSouth\tc"),
+    );
+    expect(imported).toMatchObject({
+      format: "tsv",
+      text: { delimiter: "\t", encoding: "utf-8" },
+      tables: [{ name: "sales", header: ["Region", "Note"] }],
+    });
+  });
+});
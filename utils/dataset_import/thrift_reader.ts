@@ -0,0 +1,164 @@
+/**
+ * A struct read with the Thrift compact protocol: its fields by ID. The
+ * protocol doesn't carry field names, so readers look fields up by the IDs
+ * in the Thrift definition.
+ */
+export type ThriftStruct = Map<number, ThriftValue>;
+
+/**
+ * A Thrift value. Integers of any size are numbers, so 64-bit integers
+ * above 2^53 lose precision; binary fields (including strings) are bytes.
+ * Maps aren't used by the files this reads, so they're skipped as `null`.
+ */
+export type ThriftValue =
+  | number
+  | boolean
+  | Uint8Array
+  | ThriftValue[]
+  | ThriftStruct
+  | null;
+
+// The compact protocol's type codes
+const STOP = 0;
+const BOOLEAN_TRUE = 1;
+const BOOLEAN_FALSE = 2;
+const BYTE = 3;
+const I16 = 4;
+const I32 = 5;
+const I64 = 6;
+const DOUBLE = 7;
+const BINARY = 8;
+const LIST = 9;
+const SET = 10;
+const MAP = 11;
+const STRUCT = 12;
+
+/**
+ * Reads Thrift compact protocol data, as in the metadata of Parquet files.
+ */
+export class ThriftReader {
+  constructor(
+    private readonly bytes: Uint8Array,
+    /** Where the next read starts; moves past each value read. */
+    public offset = 0,
+  ) {}
+
+  private readByte() {
+    if (this.offset >= this.bytes.length) {
+      throw new RangeError("Thrift data ended in the middle of a value.");
+    }
+    return this.bytes[this.offset++];
+  }
+
+  // Unsigned variable-length integer, seven bits to a byte, least
+  // significant first. Multiplication keeps values above 2^32 correct.
+  private readVarint(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = this.readByte();
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) {
+        return value;
+      }
+      scale *= 128;
+    }
+  }
+
+  // Zigzag encoding maps signed integers to unsigned: 0, -1, 1, -2...
+  private readZigzag(): number {
+    const n = this.readVarint();
+    return n % 2 === 0 ? n / 2 : -(n + 1) / 2;
+  }
+
+  private readBinary() {
+    const length = this.readVarint();
+    if (this.offset + length > this.bytes.length) {
+      throw new RangeError("Thrift data ended in the middle of a value.");
+    }
+    const value = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  private readValue(type: number): ThriftValue {
+    switch (type) {
+      case BOOLEAN_TRUE:
+        return true;
+      case BOOLEAN_FALSE:
+        return false;
+      case BYTE: {
+        const byte = this.readByte();
+        return byte > 127 ? byte - 256 : byte;
+      }
+      case I16:
+      case I32:
+      case I64:
+        return this.readZigzag();
+      case DOUBLE: {
+        const view = new DataView(
+          this.bytes.buffer,
+          this.bytes.byteOffset + this.offset,
+          8,
+        );
+        this.offset += 8;
+        return view.getFloat64(0, true);
+      }
+      case BINARY:
+        return this.readBinary();
+      case LIST:
+      case SET:
+        return this.readList();
+      case MAP: {
+        const size = this.readVarint();
+        if (size > 0) {
+          const types = this.readByte();
+          for (let i = 0; i < size; i++) {
+            this.readValue(types >> 4);
+            this.readValue(types & 0x0f);
+          }
+        }
+        return null;
+      }
+      case STRUCT:
+        return this.readStruct();
+      default:
+        throw new RangeError(`Unknown Thrift type ${type}.`);
+    }
+  }
+
+  private readList(): ThriftValue[] {
+    const header = this.readByte();
+    const size = header >> 4 === 15 ? this.readVarint() : header >> 4;
+    const type = header & 0x0f;
+    const items: ThriftValue[] = [];
+    for (let i = 0; i < size; i++) {
+      // Booleans in lists take a byte each, unlike boolean fields
+      items.push(
+        type === BOOLEAN_TRUE || type === BOOLEAN_FALSE
+          ? this.readByte() === BOOLEAN_TRUE
+          : this.readValue(type),
+      );
+    }
+    return items;
+  }
+
+  /**
+   * Reads a struct. Field IDs are usually written as the difference from
+   * the previous field's.
+   */
+  readStruct(): ThriftStruct {
+    const fields: ThriftStruct = new Map();
+    let id = 0;
+    for (;;) {
+      const header = this.readByte();
+      const type = header & 0x0f;
+      if (type === STOP) {
+        return fields;
+      }
+      const delta = header >> 4;
+      id = delta === 0 ? this.readZigzag() : id + delta;
+      fields.set(id, this.readValue(type));
+    }
+  }
+}
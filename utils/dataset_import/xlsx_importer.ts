@@ -0,0 +1,346 @@
+import type { RecordTable } from "../csv";
+import { tableFromRecords } from "../csv";
+import { DatasetImportError } from "./dataset_import_error";
+import type { XmlElement } from "./xml_reader";
+import {
+  childElement,
+  childElements,
+  parseXml,
+  textContent,
+} from "./xml_reader";
+import type { ZipEntry } from "./zip_archive";
+import {
+  extractZipEntry,
+  readZipEntries,
+  ZipArchiveError,
+} from "./zip_archive";
+
+/**
+ * A sheet of a workbook, read as a table.
+ */
+export interface XlsxSheet extends RecordTable {
+  name: string;
+}
+
+const RELATIONSHIP_TYPES = {
+  officeDocument: "/officeDocument",
+  sharedStrings: "/sharedStrings",
+  styles: "/styles",
+};
+
+// The built-in number formats that show dates and times
+const DATE_FORMAT_IDS = new Set([
+  14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36,
+  45, 46, 47, 50, 51, 52, 53, 54, 55, 56, 57, 58,
+]);
+const PERCENT_FORMAT_IDS = new Set([9, 10]);
+
+// Days from Excel's day zero, 30 December 1899, to the Unix epoch
+const UNIX_EPOCH_SERIAL = 25569;
+// Days from the 1900 date system's day zero to the 1904 system's
+const DATE_1904_OFFSET = 1462;
+const MS_PER_DAY = 86_400_000;
+
+type CellFormat = "date" | "percent" | "number";
+
+const decoder = new TextDecoder();
+
+const readXml = async (
+  bytes: Uint8Array,
+  entries: Map<string, ZipEntry>,
+  path: string,
+): Promise<XmlElement | undefined> => {
+  const entry = entries.get(path);
+  return entry
+    ? parseXml(decoder.decode(await extractZipEntry(bytes, entry)))
+    : undefined;
+};
+
+// Resolves a relationship's target against the folder of the part it's from
+const resolveTarget = (from: string, target: string) => {
+  if (target.startsWith("/")) {
+    return target.slice(1);
+  }
+  const parts = from.split("/").slice(0, -1);
+  for (const segment of target.split("/")) {
+    if (segment === "..") {
+      parts.pop();
+    } else if (segment !== ".") {
+      parts.push(segment);
+    }
+  }
+  return parts.join("/");
+};
+
+// Reads the relationships of a part, by ID
+const readRelationships = async (
+  bytes: Uint8Array,
+  entries: Map<string, ZipEntry>,
+  part: string,
+) => {
+  const slash = part.lastIndexOf("/");
+  const path = `${part.slice(0, slash + 1)}_rels/${part.slice(slash + 1)}.rels`;
+  const xml = await readXml(bytes, entries, path);
+  return (xml ? childElements(xml, "Relationship") : []).map(
+    ({ attributes }) => ({
+      id: attributes.Id,
+      type: attributes.Type ?? "",
+      target: resolveTarget(part, attributes.Target ?? ""),
+    }),
+  );
+};
+
+// Whether a custom number format shows a date or time: it has date or time
+// letters outside quoted text, escapes and bracketed colours or conditions
+const describeFormatCode = (code: string): CellFormat => {
+  const bare = code.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, "");
+  if (/[dmyhs]/i.test(bare) && !/^general$/i.test(bare.trim())) {
+    return "date";
+  }
+  return bare.includes("%") ? "percent" : "number";
+};
+
+// How each cell style shows numbers, by the style's index
+const readCellFormats = (styles: XmlElement | undefined): CellFormat[] => {
+  if (!styles) {
+    return [];
+  }
+  const customFormats = new Map<number, CellFormat>();
+  const numFmts = childElement(styles, "numFmts");
+  for (const { attributes } of numFmts
+    ? childElements(numFmts, "numFmt")
+    : []) {
+    customFormats.set(
+      Number(attributes.numFmtId),
+      describeFormatCode(attributes.formatCode ?? ""),
+    );
+  }
+  const cellXfs = childElement(styles, "cellXfs");
+  return (cellXfs ? childElements(cellXfs, "xf") : []).map(({ attributes }) => {
+    const id = Number(attributes.numFmtId ?? 0);
+    return (
+      customFormats.get(id) ??
+      (DATE_FORMAT_IDS.has(id)
+        ? "date"
+        : PERCENT_FORMAT_IDS.has(id)
+          ? "percent"
+          : "number")
+    );
+  });
+};
+
+const formatNumber = (n: number) => String(Number(n.toPrecision(15)));
+
+// Writes a date serial as an ISO date, with the time if it has one. A time
+// with no date is written on its own.
+const formatSerialDate = (serial: number, date1904: boolean) => {
+  if (serial < 1 && serial >= 0) {
+    return new Date(Math.round(serial * MS_PER_DAY))
+      .toISOString()
+      .slice(11, 19);
+  }
+  // The 1900 system counts 29 February 1900, which didn't happen, so
+  // serials before it are a day later than the epoch arithmetic gives
+  const days = date1904
+    ? serial + DATE_1904_OFFSET
+    : serial < 61
+      ? serial + 1
+      : serial;
+  const iso = new Date(
+    Math.round((days - UNIX_EPOCH_SERIAL) * MS_PER_DAY),
+  ).toISOString();
+  return Number.isInteger(serial) ? iso.slice(0, 10) : iso.slice(0, 19);
+};
+
+// The zero-based column of a cell reference such as `AB12`
+const columnIndex = (reference: string) => {
+  let index = 0;
+  for (const char of reference.toUpperCase()) {
+    if (char < "A" || char > "Z") {
+      break;
+    }
+    index = index * 26 + char.charCodeAt(0) - 64;
+  }
+  return index - 1;
+};
+
+const readCell = (
+  cell: XmlElement,
+  sharedStrings: string[],
+  cellFormats: CellFormat[],
+  date1904: boolean,
+): string => {
+  const { t: type, s: style } = cell.attributes;
+  const valueElement = childElement(cell, "v");
+  const value = valueElement ? textContent(valueElement) : "";
+  switch (type) {
+    case "s":
+      return sharedStrings[Number(value)] ?? "";
+    case "inlineStr": {
+      const inline = childElement(cell, "is");
+      return inline ? textContent(inline) : "";
+    }
+    case "str":
+    case "d":
+      return value;
+    case "b":
+      return value === "1" ? "true" : "false";
+    case "e":
+      // Error values such as #DIV/0! are left out, like missing values
+      return "";
+    default: {
+      if (value === "") {
+        return "";
+      }
+      const number = Number(value);
+      switch (cellFormats[Number(style ?? 0)]) {
+        case "date":
+          return formatSerialDate(number, date1904);
+        case "percent":
+          return `${formatNumber(number * 100)}%`;
+        default:
+          return formatNumber(number);
+      }
+    }
+  }
+};
+
+// Reads a worksheet's cells into records. Empty rows are dropped, as are
+// empty columns left of the data, and every record is as wide as the
+// widest, since a spreadsheet row has no end of its own.
+const readSheetRecords = (
+  sheet: XmlElement,
+  sharedStrings: string[],
+  cellFormats: CellFormat[],
+  date1904: boolean,
+): string[][] => {
+  const sheetData = childElement(sheet, "sheetData");
+  const rows: string[][] = [];
+  let nextRow = 0;
+  for (const row of sheetData ? childElements(sheetData, "row") : []) {
+    const rowNumber = row.attributes.r ? Number(row.attributes.r) - 1 : nextRow;
+    nextRow = rowNumber + 1;
+    const cells: string[] = [];
+    let nextColumn = 0;
+    for (const cell of childElements(row, "c")) {
+      const column = cell.attributes.r
+        ? columnIndex(cell.attributes.r)
+        : nextColumn;
+      nextColumn = column + 1;
+      const value = readCell(cell, sharedStrings, cellFormats, date1904);
+      if (value !== "") {
+        cells[column] = value;
+      }
+    }
+    if (cells.length > 0) {
+      rows[rowNumber] = cells;
+    }
+  }
+
+  const records = rows.filter((row) => row !== undefined);
+  let first = Infinity;
+  let width = 0;
+  for (const record of records) {
+    first = Math.min(
+      first,
+      record.findIndex((cell) => cell !== undefined),
+    );
+    width = Math.max(width, record.length);
+  }
+  return records.map((record) =>
+    Array.from({ length: width - first }, (_, i) => record[first + i] ?? ""),
+  );
+};
+
+/**
+ * Reads the sheets of an Excel workbook (`.xlsx`) that have data, in the
+ * workbook's order. Cells hold the values last calculated by the
+ * spreadsheet program. Dates are written as ISO dates and percentages with a
+ * `%`, so they're inferred as the same column types as in a CSV file.
+ */
+export const readXlsxSheets = async (
+  data: ArrayBuffer | Uint8Array,
+): Promise<XlsxSheet[]> => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  try {
+    const entries = readZipEntries(bytes);
+    const rootRelationships = await readRelationships(bytes, entries, "");
+    const workbookPath =
+      rootRelationships.find(({ type }) =>
+        type.endsWith(RELATIONSHIP_TYPES.officeDocument),
+      )?.target ?? "xl/workbook.xml";
+    const workbook = await readXml(bytes, entries, workbookPath);
+    if (!workbook) {
+      throw new DatasetImportError("xlsx", "The file isn't an Excel workbook.");
+    }
+
+    const relationships = await readRelationships(bytes, entries, workbookPath);
+    const partOfType = (type: string) =>
+      relationships.find((relationship) => relationship.type.endsWith(type))
+        ?.target;
+
+    const sharedStringsXml = await readXml(
+      bytes,
+      entries,
+      partOfType(RELATIONSHIP_TYPES.sharedStrings) ?? "xl/sharedStrings.xml",
+    );
+    // Rich text strings are split into runs, and phonetic guides aren't
+    // part of the text
+    const sharedStrings = (
+      sharedStringsXml ? childElements(sharedStringsXml, "si") : []
+    ).map((item) => {
+      const text = childElement(item, "t");
+      return text
+        ? textContent(text)
+        : childElements(item, "r").map(textContent).join("");
+    });
+    const cellFormats = readCellFormats(
+      await readXml(
+        bytes,
+        entries,
+        partOfType(RELATIONSHIP_TYPES.styles) ?? "xl/styles.xml",
+      ),
+    );
+    const date1904Attribute = childElement(workbook, "workbookPr")?.attributes
+      .date1904;
+    const date1904 = date1904Attribute === "1" || date1904Attribute === "true";
+
+    const sheetsElement = childElement(workbook, "sheets");
+    const sheets: XlsxSheet[] = [];
+    for (const { attributes } of sheetsElement
+      ? childElements(sheetsElement, "sheet")
+      : []) {
+      const target = relationships.find(
+        ({ id }) => id === attributes.id,
+      )?.target;
+      const sheet = target && (await readXml(bytes, entries, target));
+      if (!sheet) {
+        continue;
+      }
+      const records = readSheetRecords(
+        sheet,
+        sharedStrings,
+        cellFormats,
+        date1904,
+      );
+      if (records.length > 0) {
+        sheets.push({
+          name: attributes.name ?? target,
+          ...tableFromRecords(records, "auto"),
+        });
+      }
+    }
+    if (sheets.length === 0) {
+      throw new DatasetImportError("xlsx", "None of the sheets have data.");
+    }
+    return sheets;
+  } catch (e) {
+    if (e instanceof ZipArchiveError || e instanceof SyntaxError) {
+      throw new DatasetImportError(
+        "xlsx",
+        `The workbook couldn't be read: ${e.message}`,
+      );
+    }
+    throw e;
+  }
+};
@@ -0,0 +1,116 @@
+/**
+ * An element of an XML document. Names have their namespace prefix removed,
+ * so `<x:row>` is `row`; the files this reads don't reuse names across
+ * namespaces.
+ */
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+const TAG_PATTERN =
+  /<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>/g;
+const ATTRIBUTE_PATTERN = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const localName = (name: string) => name.slice(name.indexOf(":") + 1);
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const point =
+        code[1] === "x" || code[1] === "X"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return String.fromCodePoint(point);
+    }
+    return ENTITIES[code] ?? entity;
+  });
+
+/**
+ * Parses an XML document into its root element. This is enough XML for the
+ * machine-written files in spreadsheet packages: it skips declarations,
+ * comments and doctypes, and doesn't check that the document is valid.
+ * Whitespace-only text between elements is dropped.
+ */
+export const parseXml = (text: string): XmlElement => {
+  const root: XmlElement = { name: "", attributes: {}, children: [] };
+  const stack = [root];
+  let last = 0;
+
+  const addText = (value: string) => {
+    if (value.trim() !== "") {
+      stack[stack.length - 1].children.push(value);
+    }
+  };
+
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    const [tag, closing, name, attributeText, selfClosing, cdata] = match;
+    addText(decodeEntities(text.slice(last, match.index)));
+    last = (match.index ?? 0) + tag.length;
+
+    if (cdata !== undefined) {
+      stack[stack.length - 1].children.push(cdata);
+    } else if (name === undefined) {
+      // A comment, declaration or doctype
+      continue;
+    } else if (closing) {
+      if (stack.length > 1) {
+        stack.pop();
+      }
+    } else {
+      const attributes: Record<string, string> = {};
+      for (const [, key, double, single] of (attributeText ?? "").matchAll(
+        ATTRIBUTE_PATTERN,
+      )) {
+        attributes[localName(key)] = decodeEntities(double ?? single);
+      }
+      const element = { name: localName(name), attributes, children: [] };
+      stack[stack.length - 1].children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+    }
+  }
+
+  const document = root.children.find(
+    (child): child is XmlElement => typeof child !== "string",
+  );
+  if (!document) {
+    throw new SyntaxError("The document has no root element.");
+  }
+  return document;
+};
+
+/**
+ * The child elements of an element with a name.
+ */
+export const childElements = (element: XmlElement, name: string) =>
+  element.children.filter(
+    (child): child is XmlElement =>
+      typeof child !== "string" && child.name === name,
+  );
+
+/**
+ * The first child element of an element with a name.
+ */
+export const childElement = (
+  element: XmlElement,
+  name: string,
+): XmlElement | undefined => childElements(element, name)[0];
+
+/**
+ * The text inside an element and all its descendants.
+ */
+export const textContent = (node: XmlNode): string =>
+  typeof node === "string" ? node : node.children.map(textContent).join("");
@@ -0,0 +1,118 @@
+import { inflateRaw } from "./decompress";
+
+/**
+ * A file in a ZIP archive, as listed in the archive's central directory.
+ */
+export interface ZipEntry {
+  name: string;
+  /** 0 when stored as is, 8 when deflated. */
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// The end record is 22 bytes, followed by a comment of up to 65535 bytes
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+/**
+ * A ZIP archive was damaged or used a feature that isn't supported.
+ */
+export class ZipArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, ZipArchiveError.prototype);
+  }
+}
+
+/**
+ * Lists the files in a ZIP archive by name. Archives over 4 GB (ZIP64) and
+ * encrypted entries aren't supported.
+ */
+export const readZipEntries = (bytes: Uint8Array): Map<string, ZipEntry> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let end = -1;
+  const earliest = Math.max(0, bytes.length - MAX_END_RECORD_SEARCH);
+  for (let i = bytes.length - 22; i >= earliest; i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new ZipArchiveError("The file isn't a ZIP archive.");
+  }
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (offset === 0xffffffff || count === 0xffff) {
+    throw new ZipArchiveError("ZIP64 archives aren't supported.");
+  }
+
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+  for (let i = 0; i < count; i++) {
+    if (
+      offset + 46 > bytes.length ||
+      view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY
+    ) {
+      throw new ZipArchiveError("The archive's file list is damaged.");
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(
+      bytes.subarray(offset + 46, offset + 46 + nameLength),
+    );
+    if (flags & 1) {
+      throw new ZipArchiveError(`${name} is encrypted.`);
+    }
+    entries.set(name, {
+      name,
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+/**
+ * Reads the contents of a file in a ZIP archive.
+ */
+export const extractZipEntry = async (
+  bytes: Uint8Array,
+  entry: ZipEntry,
+): Promise<Uint8Array> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const header = entry.localHeaderOffset;
+  if (
+    header + 30 > bytes.length ||
+    view.getUint32(header, true) !== LOCAL_FILE_HEADER
+  ) {
+    throw new ZipArchiveError(`${entry.name} is damaged.`);
+  }
+  // The local header's name and extra field can differ in length from the
+  // central directory's
+  const start =
+    header +
+    30 +
+    view.getUint16(header + 26, true) +
+    view.getUint16(header + 28, true);
+  const data = bytes.subarray(start, start + entry.compressedSize);
+
+  switch (entry.method) {
+    case 0:
+      return data;
+    case 8:
+      return inflateRaw(data);
+    default:
+      throw new ZipArchiveError(
+        `${entry.name} is compressed with method ${entry.method}, which isn't supported.`,
+      );
+  }
+};
@@ -0,0 +1,68 @@
+/**
+ * Why a formula was rejected before it ran:
+ * - `syntax`: it isn't a well-formed formula.
+ * - `reference`: it names a column the dataset doesn't have.
+ * - `function`: it calls a function that doesn't exist.
+ * - `arguments`: a function got the wrong number or kind of arguments.
+ */
+export const FORMULA_ERROR_CATEGORIES = [
+  "syntax",
+  "reference",
+  "function",
+  "arguments",
+] as const;
+
+export type FormulaErrorCategory = (typeof FORMULA_ERROR_CATEGORIES)[number];
+
+/**
+ * A formula that can't be run. `start` and `end` are the offsets of the text
+ * at fault, so it can be underlined in the formula.
+ */
+export class FormulaError extends Error {
+  constructor(
+    readonly category: FormulaErrorCategory,
+    message: string,
+    readonly start: number,
+    readonly end: number,
+  ) {
+    super(message);
+    Object.setPrototypeOf(this, FormulaError.prototype);
+  }
+}
+
+/**
+ * The errors a formula can produce for a single row, as a spreadsheet shows
+ * them in a cell. The other rows are still computed.
+ */
+export const CELL_ERROR_CODES = [
+  "#DIV/0!",
+  "#VALUE!",
+  "#NUM!",
+  "#N/A",
+] as const;
+
+export type CellErrorCode = (typeof CELL_ERROR_CODES)[number];
+
+/**
+ * The result of a formula for a row where it failed, with the span of the
+ * formula that failed. Passed on by every operator and function that gets
+ * it, like an error cell in a spreadsheet.
+ */
+export class CellError {
+  constructor(
+    readonly code: CellErrorCode,
+    readonly message: string,
+    readonly start: number,
+    readonly end: number,
+  ) {}
+}
+
+/**
+ * Shows where an error is in its formula, with a line of carets under the
+ * text at fault.
+ */
+export const describeFormulaError = (
+  formula: string,
+  { message, start, end }: { message: string; start: number; end: number },
+) =>
+  `${message}\n${formula}\n${" ".repeat(start)}${"^".repeat(Math.max(1, end - start))}`;
@@ -0,0 +1,552 @@
+import { CellError, FormulaError } from "./formula_error";
+import type { ArgumentKind, FormulaScope } from "./formula_functions";
+import {
+  compareFormulaValues,
+  FORMULA_FUNCTIONS,
+  lookupKey,
+  toNumber,
+  toText,
+} from "./formula_functions";
+import type { ColumnsNode, FormulaNode } from "./formula_parser";
+import { parseFormula } from "./formula_parser";
+import type { FormulaValue } from "./formula_values";
+import {
+  addDays,
+  daysBetween,
+  parseDateText,
+  readCell,
+} from "./formula_values";
+
+/** The table a formula runs over, as parsed from CSV. */
+export interface FormulaTable {
+  header: string[];
+  rows: string[][];
+}
+
+/**
+ * A formula checked against a table's columns, ready to evaluate. Column
+ * names in `root` are spelled as in the header.
+ */
+export interface CompiledFormula {
+  formula: string;
+  root: FormulaNode;
+  /** The columns the formula reads. */
+  columns: string[];
+}
+
+// The number of single-character edits between two names
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// The candidate a mistyped name most likely meant, if any is close enough
+const closestName = (name: string, candidates: string[]) => {
+  let best: { candidate: string; distance: number } | undefined;
+  for (const candidate of candidates) {
+    const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+    if (!best || distance < best.distance) {
+      best = { candidate, distance };
+    }
+  }
+  return best && best.distance <= Math.max(2, Math.floor(name.length / 3))
+    ? best.candidate
+    : undefined;
+};
+
+const describeArity = (min: number, max: number) =>
+  min === max
+    ? `${min} argument${min === 1 ? "" : "s"}`
+    : max === Infinity
+      ? `at least ${min} argument${min === 1 ? "" : "s"}`
+      : `${min} to ${max} arguments`;
+
+// Checks a parsed formula against the table's columns and the functions it
+// calls, spelling each column as the header does
+class Compiler {
+  readonly columns = new Set<string>();
+
+  constructor(private readonly header: string[]) {}
+
+  private resolve(name: string, start: number, end: number) {
+    if (this.header.includes(name)) {
+      this.columns.add(name);
+      return name;
+    }
+    const matches = this.header.filter(
+      (column) => column.toLowerCase() === name.toLowerCase(),
+    );
+    if (matches.length === 1) {
+      this.columns.add(matches[0]);
+      return matches[0];
+    }
+    const suggestion = closestName(name, this.header);
+    throw new FormulaError(
+      "reference",
+      `There's no column named "${name}"${suggestion ? `. Did you mean [${suggestion}]?` : ""}`,
+      start,
+      end,
+    );
+  }
+
+  check(node: FormulaNode, kind: ArgumentKind, context: string): FormulaNode {
+    switch (node.type) {
+      case "number":
+      case "string":
+      case "boolean":
+        break;
+      case "column":
+        if (kind === "table") {
+          break;
+        }
+        if (kind === "column" && node.offset !== undefined) {
+          throw new FormulaError(
+            "arguments",
+            `${context} must be a whole column such as [${node.name}], without a row offset`,
+            node.start,
+            node.end,
+          );
+        }
+        return { ...node, name: this.resolve(node.name, node.start, node.end) };
+      case "window":
+        if (kind === "table") {
+          break;
+        }
+        if (kind !== "range" && kind !== "column") {
+          throw new FormulaError(
+            "arguments",
+            `${context} must be a single value; a window of rows such as [${node.name}][-2:0] can only be given to functions such as SUM and AVERAGE`,
+            node.start,
+            node.end,
+          );
+        }
+        return { ...node, name: this.resolve(node.name, node.start, node.end) };
+      case "columns": {
+        if (kind !== "table") {
+          throw new FormulaError(
+            "arguments",
+            `${context} can't be a range of columns; ranges such as [${node.from}]:[${node.to}] are only for VLOOKUP's table`,
+            node.start,
+            node.end,
+          );
+        }
+        const from = this.resolve(node.from, node.start, node.end);
+        const to = this.resolve(node.to, node.start, node.end);
+        if (this.header.indexOf(from) > this.header.indexOf(to)) {
+          throw new FormulaError(
+            "reference",
+            `A range of columns runs left to right, but [${from}] comes after [${to}]`,
+            node.start,
+            node.end,
+          );
+        }
+        // Every column of the range is read
+        this.header
+          .slice(this.header.indexOf(from), this.header.indexOf(to) + 1)
+          .forEach((column) => this.columns.add(column));
+        return { ...node, from, to };
+      }
+      case "unary":
+        return {
+          ...node,
+          operand: this.check(node.operand, "value", "An operand"),
+        };
+      case "binary":
+        return {
+          ...node,
+          left: this.check(node.left, "value", "An operand"),
+          right: this.check(node.right, "value", "An operand"),
+        };
+      case "call": {
+        const fn = FORMULA_FUNCTIONS[node.name];
+        if (!fn) {
+          const suggestion = closestName(
+            node.name,
+            Object.keys(FORMULA_FUNCTIONS),
+          );
+          throw new FormulaError(
+            "function",
+            `There's no function named ${node.name}${suggestion ? `. Did you mean ${suggestion}?` : ""}`,
+            node.start,
+            node.nameEnd,
+          );
+        }
+        const count = node.args.length;
+        const problem =
+          count < fn.minArgs || count > fn.maxArgs
+            ? `${node.name} takes ${describeArity(fn.minArgs, fn.maxArgs)} but got ${count}`
+            : fn.checkArguments?.(count);
+        if (problem) {
+          throw new FormulaError(
+            "arguments",
+            `${problem}. It's written ${fn.signature}`,
+            node.start,
+            node.end,
+          );
+        }
+        if (kind === "table" || kind === "column") {
+          throw new FormulaError(
+            "arguments",
+            `${context} must be ${kind === "table" ? "a range of columns" : "a column"}, not the result of ${node.name}`,
+            node.start,
+            node.end,
+          );
+        }
+        return {
+          ...node,
+          args: node.args.map((arg, index) =>
+            this.check(
+              arg,
+              fn.argumentKind?.(index) ?? "value",
+              `Argument ${index + 1} of ${node.name}`,
+            ),
+          ),
+        };
+      }
+      default:
+        break;
+    }
+    if (kind === "table" || kind === "column") {
+      throw new FormulaError(
+        "arguments",
+        `${context} must be ${kind === "table" ? "a range of columns such as [Region]:[Target]" : "a column such as [Region]"}`,
+        node.start,
+        node.end,
+      );
+    }
+    return node;
+  }
+}
+
+/**
+ * Parses a formula and checks it against a table's columns. Column names
+ * match without regard to case when only one column matches.
+ * @throws FormulaError pointing at the first problem found.
+ */
+export const compileFormula = (
+  formula: string,
+  header: string[],
+): CompiledFormula => {
+  const compiler = new Compiler(header);
+  const root = compiler.check(parseFormula(formula), "value", "The formula");
+  return { formula, root, columns: [...compiler.columns] };
+};
+
+// Whether a node has the same value in every row, so it's only computed
+// once, e.g. the column total in `[Sales] / SUM([Sales][:])`
+const isRowIndependent = (node: FormulaNode): boolean => {
+  switch (node.type) {
+    case "number":
+    case "string":
+    case "boolean":
+    case "columns":
+      return true;
+    case "column":
+      return false;
+    case "window":
+      return node.from === undefined && node.to === undefined;
+    case "unary":
+      return isRowIndependent(node.operand);
+    case "binary":
+      return isRowIndependent(node.left) && isRowIndependent(node.right);
+    case "call":
+      return node.args.every((arg, index) =>
+        FORMULA_FUNCTIONS[node.name].argumentKind?.(index) === "column" &&
+        arg.type === "column"
+          ? true
+          : isRowIndependent(arg),
+      );
+    default:
+      return false;
+  }
+};
+
+// Text that reads as a date is a date in arithmetic, so `[Due] + 30` works
+// on a column of ISO dates
+const asDate = (value: FormulaValue) =>
+  typeof value === "string" ? (parseDateText(value) ?? value) : value;
+
+const arithmetic = (
+  node: Extract<FormulaNode, { type: "binary" }>,
+  left: FormulaValue,
+  right: FormulaValue,
+): FormulaValue => {
+  const a = asDate(left);
+  const b = asDate(right);
+  const fail = (message: string) =>
+    new CellError("#VALUE!", message, node.start, node.end);
+
+  if (a instanceof Date || b instanceof Date) {
+    if (node.operator === "-" && a instanceof Date && b instanceof Date) {
+      return daysBetween(a, b);
+    }
+    if (node.operator !== "+" && node.operator !== "-") {
+      return fail(
+        `Dates can't be used with ${node.operator}; add or subtract days instead`,
+      );
+    }
+    if (a instanceof Date && b instanceof Date) {
+      return fail(
+        "Two dates can't be added; subtract them for the days between",
+      );
+    }
+    if (node.operator === "-" && !(a instanceof Date)) {
+      return fail("A date can't be subtracted from a number");
+    }
+    const [date, days, daysNode] =
+      a instanceof Date ? [a, b, node.right] : [b as Date, a, node.left];
+    const count = toNumber(days, daysNode);
+    if (count instanceof CellError) {
+      return count;
+    }
+    return addDays(date, node.operator === "-" ? -count : count);
+  }
+
+  const x = toNumber(a, node.left);
+  if (x instanceof CellError) {
+    return x;
+  }
+  const y = toNumber(b, node.right);
+  if (y instanceof CellError) {
+    return y;
+  }
+  let result: number;
+  switch (node.operator) {
+    case "+":
+      result = x + y;
+      break;
+    case "-":
+      result = x - y;
+      break;
+    case "*":
+      result = x * y;
+      break;
+    case "/":
+      if (y === 0) {
+        return new CellError(
+          "#DIV/0!",
+          "Division by zero",
+          node.start,
+          node.end,
+        );
+      }
+      result = x / y;
+      break;
+    default:
+      result = x ** y;
+      break;
+  }
+  return Number.isFinite(result)
+    ? result
+    : new CellError(
+        "#NUM!",
+        "The result isn't a finite number",
+        node.start,
+        node.end,
+      );
+};
+
+const compare = (
+  operator: string,
+  left: FormulaValue,
+  right: FormulaValue,
+): boolean => {
+  const order = compareFormulaValues(left, right);
+  switch (operator) {
+    case "=":
+      return order === 0;
+    case "<>":
+      return order !== 0;
+    case "<":
+      return order < 0;
+    case ">":
+      return order > 0;
+    case "<=":
+      return order <= 0;
+    default:
+      return order >= 0;
+  }
+};
+
+// Evaluates a compiled formula row by row, reading each column once
+class Evaluator implements FormulaScope {
+  private row = 0;
+  private readonly cells = new Map<string, FormulaValue[]>();
+  private readonly tables = new Map<FormulaNode, FormulaValue[][]>();
+  private readonly indexes = new Map<FormulaNode, Map<string, number>>();
+  private readonly constants = new Map<FormulaNode, FormulaValue>();
+  private readonly rowIndependent = new Set<FormulaNode>();
+
+  constructor(
+    private readonly root: FormulaNode,
+    private readonly table: FormulaTable,
+  ) {
+    const collect = (node: FormulaNode) => {
+      if (node.type !== "column" && isRowIndependent(node)) {
+        this.rowIndependent.add(node);
+        return;
+      }
+      if (node.type === "unary") {
+        collect(node.operand);
+      } else if (node.type === "binary") {
+        collect(node.left);
+        collect(node.right);
+      } else if (node.type === "call") {
+        node.args.forEach(collect);
+      }
+    };
+    collect(root);
+  }
+
+  run(): FormulaValue[] {
+    const results: FormulaValue[] = [];
+    for (this.row = 0; this.row < this.table.rows.length; this.row++) {
+      results.push(this.value(this.root));
+    }
+    return results;
+  }
+
+  private column(name: string) {
+    let cells = this.cells.get(name);
+    if (!cells) {
+      const index = this.table.header.indexOf(name);
+      cells = this.table.rows.map((row) => readCell(row[index] ?? ""));
+      this.cells.set(name, cells);
+    }
+    return cells;
+  }
+
+  value(node: FormulaNode): FormulaValue {
+    if (!this.rowIndependent.has(node)) {
+      return this.compute(node);
+    }
+    if (!this.constants.has(node)) {
+      this.constants.set(node, this.compute(node));
+    }
+    return this.constants.get(node) ?? null;
+  }
+
+  values(node: FormulaNode): FormulaValue[] {
+    if (node.type === "column") {
+      return node.offset === undefined
+        ? this.column(node.name)
+        : [this.value(node)];
+    }
+    if (node.type === "window") {
+      const cells = this.column(node.name);
+      // Rows before the first or after the last are left out
+      const from =
+        node.from === undefined ? 0 : Math.max(0, this.row + node.from);
+      const to =
+        node.to === undefined
+          ? cells.length - 1
+          : Math.min(cells.length - 1, this.row + node.to);
+      return cells.slice(from, to + 1);
+    }
+    return [this.value(node)];
+  }
+
+  rows(node: ColumnsNode): FormulaValue[][] {
+    let rows = this.tables.get(node);
+    if (!rows) {
+      const { header } = this.table;
+      const columns = header
+        .slice(header.indexOf(node.from), header.indexOf(node.to) + 1)
+        .map((name) => this.column(name));
+      rows = this.table.rows.map((_, row) =>
+        columns.map((cells) => cells[row]),
+      );
+      this.tables.set(node, rows);
+    }
+    return rows;
+  }
+
+  find(node: FormulaNode, value: FormulaValue): number {
+    const key = lookupKey(value);
+    if (node.type === "window" && !isRowIndependent(node)) {
+      // A window moves with the row, so there's nothing to index
+      return this.values(node).findIndex((item) => lookupKey(item) === key);
+    }
+    let index = this.indexes.get(node);
+    if (!index) {
+      const searched =
+        node.type === "columns"
+          ? this.rows(node).map((row) => row[0])
+          : this.values(node);
+      index = new Map();
+      for (let i = searched.length - 1; i >= 0; i--) {
+        index.set(lookupKey(searched[i]), i);
+      }
+      this.indexes.set(node, index);
+    }
+    return index.get(key) ?? -1;
+  }
+
+  private compute(node: FormulaNode): FormulaValue {
+    switch (node.type) {
+      case "number":
+      case "string":
+      case "boolean":
+        return node.value;
+      case "column": {
+        const cells = this.column(node.name);
+        const row = this.row + (node.offset ?? 0);
+        return row >= 0 && row < cells.length ? cells[row] : null;
+      }
+      case "unary": {
+        const operand = toNumber(this.value(node.operand), node.operand);
+        if (operand instanceof CellError) {
+          return operand;
+        }
+        return node.operator === "-"
+          ? -operand
+          : node.operator === "%"
+            ? operand / 100
+            : operand;
+      }
+      case "binary": {
+        const left = this.value(node.left);
+        if (left instanceof CellError) {
+          return left;
+        }
+        const right = this.value(node.right);
+        if (right instanceof CellError) {
+          return right;
+        }
+        if (node.operator === "&") {
+          return `${toText(left)}${toText(right)}`;
+        }
+        if (["=", "<>", "<", ">", "<=", ">="].includes(node.operator)) {
+          return compare(node.operator, left, right);
+        }
+        return arithmetic(node, left, right);
+      }
+      case "call":
+        return FORMULA_FUNCTIONS[node.name].evaluate(node, this);
+      default:
+        // Windows and ranges of columns are only read through `values` and
+        // `rows`, which compiling ensures
+        return null;
+    }
+  }
+}
+
+/**
+ * Computes a compiled formula for every row of a table. Rows where it fails
+ * get a `CellError` rather than stopping the others.
+ */
+export const evaluateFormula = (
+  compiled: CompiledFormula,
+  table: FormulaTable,
+): FormulaValue[] => new Evaluator(compiled.root, table).run();
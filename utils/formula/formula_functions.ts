@@ -0,0 +1,681 @@
+import { CellError } from "./formula_error";
+import type { CallNode, ColumnsNode, FormulaNode } from "./formula_parser";
+import type { FormulaValue } from "./formula_values";
+import {
+  daysBetween,
+  describeFormulaValue,
+  formatFormulaValue,
+  parseDateText,
+} from "./formula_values";
+
+/**
+ * What a function argument may be:
+ * - `value`: one value per row.
+ * - `range`: one value, or several rows of a column such as `[Sales][-2:0]`.
+ * - `column`: the column to search; a plain `[Sales]` means the whole column.
+ * - `table`: consecutive columns such as `[Region]:[Target]`.
+ */
+export type ArgumentKind = "value" | "range" | "column" | "table";
+
+/**
+ * How a function reads its arguments. Arguments are only evaluated when
+ * read, so `IF` doesn't evaluate the branch it doesn't take.
+ */
+export interface FormulaScope {
+  /** An argument's value in the current row. */
+  value(node: FormulaNode): FormulaValue;
+  /** The values of a `range` or `column` argument. */
+  values(node: FormulaNode): FormulaValue[];
+  /** The rows of a `table` argument. */
+  rows(node: ColumnsNode): FormulaValue[][];
+  /**
+   * The index in `values(node)` of the first value equal to `value`, or -1.
+   * Repeated searches of the same column are indexed.
+   */
+  find(node: FormulaNode, value: FormulaValue): number;
+}
+
+export interface FormulaFunction {
+  /** How it's called, for the formula builder's reference. */
+  signature: string;
+  description: string;
+  minArgs: number;
+  maxArgs: number;
+  /** The kind of each argument, by position; `value` when left out. */
+  argumentKind?: (index: number) => ArgumentKind;
+  /** Further checks of the arguments, returning what's wrong with them. */
+  checkArguments?: (count: number) => string | undefined;
+  evaluate(call: CallNode, scope: FormulaScope): FormulaValue;
+}
+
+const valueError = (node: FormulaNode, message: string) =>
+  new CellError("#VALUE!", message, node.start, node.end);
+
+/**
+ * Reads a value as a number: blanks are 0, booleans 1 or 0 and numeric
+ * text its number.
+ */
+export const toNumber = (
+  value: FormulaValue,
+  node: FormulaNode,
+): number | CellError => {
+  if (value instanceof CellError || typeof value === "number") {
+    return value;
+  }
+  if (value == null) {
+    return 0;
+  }
+  if (typeof value === "boolean") {
+    return value ? 1 : 0;
+  }
+  if (typeof value === "string" && value.trim() && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  return valueError(
+    node,
+    `Expected a number, got ${describeFormulaValue(value)}`,
+  );
+};
+
+export const toText = (value: FormulaValue): string | CellError =>
+  value instanceof CellError ? value : formatFormulaValue(value);
+
+/**
+ * Reads a value as a condition: numbers are true unless 0, blanks false, and
+ * the text `TRUE` or `FALSE` what it says.
+ */
+export const toBoolean = (
+  value: FormulaValue,
+  node: FormulaNode,
+): boolean | CellError => {
+  if (value instanceof CellError || typeof value === "boolean") {
+    return value;
+  }
+  if (value == null) {
+    return false;
+  }
+  if (typeof value === "number") {
+    return value !== 0;
+  }
+  if (typeof value === "string" && /^(true|false)$/i.test(value.trim())) {
+    return value.trim().toUpperCase() === "TRUE";
+  }
+  return valueError(
+    node,
+    `Expected TRUE or FALSE, got ${describeFormulaValue(value)}`,
+  );
+};
+
+/** Reads a value as a date: a date, or text such as `2024-03-01`. */
+export const toDate = (
+  value: FormulaValue,
+  node: FormulaNode,
+): Date | CellError => {
+  if (value instanceof CellError || value instanceof Date) {
+    return value;
+  }
+  const date = typeof value === "string" ? parseDateText(value) : undefined;
+  return (
+    date ??
+    valueError(node, `Expected a date, got ${describeFormulaValue(value)}`)
+  );
+};
+
+// Reads whole numbers, as spreadsheets do, by dropping the fraction
+const toInteger = (value: FormulaValue, node: FormulaNode) => {
+  const number = toNumber(value, node);
+  return number instanceof CellError ? number : Math.trunc(number);
+};
+
+/**
+ * The numbers in the arguments of `SUM`, `AVERAGE`, `MIN`, `MAX`: values
+ * given one at a time must be numbers, while text, blanks and booleans in a
+ * range of rows are skipped.
+ */
+const collectNumbers = (
+  call: CallNode,
+  scope: FormulaScope,
+): number[] | CellError => {
+  const numbers: number[] = [];
+  for (const arg of call.args) {
+    if (arg.type === "window") {
+      for (const value of scope.values(arg)) {
+        if (value instanceof CellError) {
+          return value;
+        }
+        if (typeof value === "number") {
+          numbers.push(value);
+        }
+      }
+    } else {
+      const number = toNumber(scope.value(arg), arg);
+      if (number instanceof CellError) {
+        return number;
+      }
+      numbers.push(number);
+    }
+  }
+  return numbers;
+};
+
+// Every value of the arguments, with ranges spread out
+const collectValues = (call: CallNode, scope: FormulaScope) =>
+  call.args.flatMap((arg) =>
+    arg.type === "window" ? scope.values(arg) : [scope.value(arg)],
+  );
+
+// Folds the numbers of the arguments, e.g. into their total
+const aggregate =
+  (
+    reduce: (numbers: number[], call: CallNode) => FormulaValue,
+  ): FormulaFunction["evaluate"] =>
+  (call, scope) => {
+    const numbers = collectNumbers(call, scope);
+    return numbers instanceof CellError ? numbers : reduce(numbers, call);
+  };
+
+const extreme = (numbers: number[], pick: (a: number, b: number) => number) => {
+  // A loop rather than spreading into Math.min, which overflows the stack
+  // for long columns
+  let result = numbers[0] ?? 0;
+  for (const number of numbers) {
+    result = pick(result, number);
+  }
+  return result;
+};
+
+// Rounds half away from zero, as spreadsheets do, without the binary
+// floating point error of scaling by a power of ten (1.005 rounds to 1.01)
+const roundHalfAwayFromZero = (number: number, digits: number) => {
+  const magnitude = Math.abs(number);
+  const rounded = Number(
+    `${Math.round(Number(`${magnitude}e${digits}`))}e${-digits}`,
+  );
+  return Math.sign(number) * rounded;
+};
+
+// Whether two values are equal for a lookup: text without regard to case,
+// dates by their time
+export const lookupKey = (value: FormulaValue) => {
+  if (value instanceof Date) {
+    return `d:${value.getTime()}`;
+  }
+  if (typeof value === "string") {
+    const date = parseDateText(value);
+    return date ? `d:${date.getTime()}` : `s:${value.toLowerCase()}`;
+  }
+  return `${typeof value}:${String(value)}`;
+};
+
+/**
+ * Compares two values as spreadsheets do: numbers (and dates) before text
+ * before booleans, text without regard to case, and blanks as 0 or empty
+ * text depending on what they're compared with.
+ */
+export const compareFormulaValues = (
+  left: FormulaValue,
+  right: FormulaValue,
+) => {
+  const blankLike = (other: FormulaValue) =>
+    typeof other === "string" ? "" : typeof other === "boolean" ? false : 0;
+  let a = left ?? blankLike(right);
+  let b = right ?? blankLike(left);
+  if (a instanceof Date && typeof b === "string") {
+    b = parseDateText(b) ?? b;
+  }
+  if (b instanceof Date && typeof a === "string") {
+    a = parseDateText(a) ?? a;
+  }
+  const rank = (value: FormulaValue) =>
+    typeof value === "string" ? 1 : typeof value === "boolean" ? 2 : 0;
+  if (rank(a) !== rank(b)) {
+    return rank(a) - rank(b);
+  }
+  if (typeof a === "string" && typeof b === "string") {
+    const [x, y] = [a.toLowerCase(), b.toLowerCase()];
+    return x < y ? -1 : x > y ? 1 : 0;
+  }
+  const toComparable = (value: FormulaValue) =>
+    value instanceof Date ? value.getTime() : Number(value);
+  return toComparable(a) - toComparable(b);
+};
+
+const textFunction = (
+  signature: string,
+  description: string,
+  slice: (
+    text: string,
+    call: CallNode,
+    scope: FormulaScope,
+  ) => string | CellError,
+  maxArgs = 2,
+): FormulaFunction => ({
+  signature,
+  description,
+  minArgs: maxArgs === 3 ? 3 : 1,
+  maxArgs,
+  evaluate(call, scope) {
+    const text = toText(scope.value(call.args[0]));
+    return text instanceof CellError ? text : slice(text, call, scope);
+  },
+});
+
+// The number of characters a text function takes, 1 when left out
+const characterCount = (call: CallNode, scope: FormulaScope, index: number) => {
+  const arg = call.args[index];
+  if (!arg) {
+    return 1;
+  }
+  const count = toInteger(scope.value(arg), arg);
+  return typeof count === "number" && count < 0
+    ? valueError(arg, "The number of characters can't be negative")
+    : count;
+};
+
+const datePart = (
+  signature: string,
+  description: string,
+  part: (date: Date) => number,
+): FormulaFunction => ({
+  signature,
+  description,
+  minArgs: 1,
+  maxArgs: 1,
+  evaluate(call, scope) {
+    const date = toDate(scope.value(call.args[0]), call.args[0]);
+    return date instanceof CellError ? date : part(date);
+  },
+});
+
+const notFound = (call: CallNode, value: FormulaValue) =>
+  new CellError(
+    "#N/A",
+    `${describeFormulaValue(value)} wasn't found`,
+    call.start,
+    call.end,
+  );
+
+/**
+ * The functions formulas can call, by name.
+ */
+export const FORMULA_FUNCTIONS: Record<string, FormulaFunction> = {
+  SUM: {
+    signature: "SUM(value, ...)",
+    description:
+      "Adds numbers, e.g. SUM([Q1], [Q2]) or a running total SUM([Sales][:0])",
+    minArgs: 1,
+    maxArgs: Infinity,
+    argumentKind: () => "range",
+    evaluate: aggregate((numbers) =>
+      numbers.reduce((total, n) => total + n, 0),
+    ),
+  },
+  AVERAGE: {
+    signature: "AVERAGE(value, ...)",
+    description:
+      "The mean of numbers, e.g. a moving average AVERAGE([Sales][-2:0])",
+    minArgs: 1,
+    maxArgs: Infinity,
+    argumentKind: () => "range",
+    evaluate: aggregate((numbers, call) =>
+      numbers.length === 0
+        ? new CellError(
+            "#DIV/0!",
+            "There are no numbers to average",
+            call.start,
+            call.end,
+          )
+        : numbers.reduce((total, n) => total + n, 0) / numbers.length,
+    ),
+  },
+  MIN: {
+    signature: "MIN(value, ...)",
+    description: "The smallest number",
+    minArgs: 1,
+    maxArgs: Infinity,
+    argumentKind: () => "range",
+    evaluate: aggregate((numbers) => extreme(numbers, Math.min)),
+  },
+  MAX: {
+    signature: "MAX(value, ...)",
+    description: "The largest number",
+    minArgs: 1,
+    maxArgs: Infinity,
+    argumentKind: () => "range",
+    evaluate: aggregate((numbers) => extreme(numbers, Math.max)),
+  },
+  COUNT: {
+    signature: "COUNT(value, ...)",
+    description: "How many of the values are numbers",
+    minArgs: 1,
+    maxArgs: Infinity,
+    argumentKind: () => "range",
+    evaluate: (call, scope) =>
+      collectValues(call, scope).filter(
+        (value) =>
+          typeof value === "number" ||
+          (typeof value === "string" &&
+            value.trim() !== "" &&
+            !isNaN(Number(value))),
+      ).length,
+  },
+  IF: {
+    signature: "IF(condition, value_if_true, [value_if_false])",
+    description:
+      "Picks a value by a condition; FALSE when the condition fails and there's no third value",
+    minArgs: 2,
+    maxArgs: 3,
+    evaluate(call, scope) {
+      const [condition, then, otherwise] = call.args;
+      const test = toBoolean(scope.value(condition), condition);
+      if (test instanceof CellError) {
+        return test;
+      }
+      return test
+        ? scope.value(then)
+        : otherwise
+          ? scope.value(otherwise)
+          : false;
+    },
+  },
+  IFS: {
+    signature: "IFS(condition1, value1, [condition2, value2], ...)",
+    description: "The value of the first condition that holds",
+    minArgs: 2,
+    maxArgs: Infinity,
+    checkArguments: (count) =>
+      count % 2 === 0 ? undefined : "IFS takes conditions and values in pairs",
+    evaluate(call, scope) {
+      for (let i = 0; i < call.args.length; i += 2) {
+        const test = toBoolean(scope.value(call.args[i]), call.args[i]);
+        if (test instanceof CellError) {
+          return test;
+        }
+        if (test) {
+          return scope.value(call.args[i + 1]);
+        }
+      }
+      return new CellError(
+        "#N/A",
+        "None of the conditions hold",
+        call.start,
+        call.end,
+      );
+    },
+  },
+  AND: {
+    signature: "AND(condition, ...)",
+    description: "TRUE if every condition holds",
+    minArgs: 1,
+    maxArgs: Infinity,
+    argumentKind: () => "range",
+    evaluate(call, scope) {
+      for (const arg of call.args) {
+        const values =
+          arg.type === "window" ? scope.values(arg) : [scope.value(arg)];
+        for (const value of values) {
+          const test = toBoolean(value, arg);
+          if (test !== true) {
+            return test;
+          }
+        }
+      }
+      return true;
+    },
+  },
+  OR: {
+    signature: "OR(condition, ...)",
+    description: "TRUE if any condition holds",
+    minArgs: 1,
+    maxArgs: Infinity,
+    argumentKind: () => "range",
+    evaluate(call, scope) {
+      for (const arg of call.args) {
+        const values =
+          arg.type === "window" ? scope.values(arg) : [scope.value(arg)];
+        for (const value of values) {
+          const test = toBoolean(value, arg);
+          if (test !== false) {
+            return test;
+          }
+        }
+      }
+      return false;
+    },
+  },
+  NOT: {
+    signature: "NOT(condition)",
+    description: "TRUE if the condition doesn't hold",
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate(call, scope) {
+      const test = toBoolean(scope.value(call.args[0]), call.args[0]);
+      return test instanceof CellError ? test : !test;
+    },
+  },
+  IFERROR: {
+    signature: "IFERROR(value, value_if_error)",
+    description: "The value, or the second value where the first fails",
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate(call, scope) {
+      const value = scope.value(call.args[0]);
+      return value instanceof CellError ? scope.value(call.args[1]) : value;
+    },
+  },
+  ROUND: {
+    signature: "ROUND(number, [digits])",
+    description:
+      "Rounds to a number of decimal places, 0 when left out; negative digits round to tens, hundreds, ...",
+    minArgs: 1,
+    maxArgs: 2,
+    evaluate(call, scope) {
+      const number = toNumber(scope.value(call.args[0]), call.args[0]);
+      const digits = call.args[1]
+        ? toInteger(scope.value(call.args[1]), call.args[1])
+        : 0;
+      if (number instanceof CellError) {
+        return number;
+      }
+      return digits instanceof CellError
+        ? digits
+        : roundHalfAwayFromZero(number, digits);
+    },
+  },
+  CONCAT: {
+    signature: "CONCAT(text, ...)",
+    description: "Joins values into one text",
+    minArgs: 1,
+    maxArgs: Infinity,
+    argumentKind: () => "range",
+    evaluate(call, scope) {
+      let result = "";
+      for (const value of collectValues(call, scope)) {
+        const text = toText(value);
+        if (text instanceof CellError) {
+          return text;
+        }
+        result += text;
+      }
+      return result;
+    },
+  },
+  LEFT: textFunction(
+    "LEFT(text, [count])",
+    "The first characters of a text, 1 when the count is left out",
+    (text, call, scope) => {
+      const count = characterCount(call, scope, 1);
+      return count instanceof CellError ? count : text.slice(0, count);
+    },
+  ),
+  RIGHT: textFunction(
+    "RIGHT(text, [count])",
+    "The last characters of a text, 1 when the count is left out",
+    (text, call, scope) => {
+      const count = characterCount(call, scope, 1);
+      return count instanceof CellError
+        ? count
+        : count === 0
+          ? ""
+          : text.slice(-count);
+    },
+  ),
+  MID: textFunction(
+    "MID(text, start, count)",
+    "The characters of a text from a position, counting from 1",
+    (text, call, scope) => {
+      const start = toInteger(scope.value(call.args[1]), call.args[1]);
+      const count = characterCount(call, scope, 2);
+      if (start instanceof CellError) {
+        return start;
+      }
+      if (start < 1) {
+        return valueError(call.args[1], "The start position counts from 1");
+      }
+      return count instanceof CellError
+        ? count
+        : text.slice(start - 1, start - 1 + count);
+    },
+    3,
+  ),
+  DATE: {
+    signature: "DATE(year, month, day)",
+    description:
+      "The date with a year, month and day; months and days past their end roll over",
+    minArgs: 3,
+    maxArgs: 3,
+    evaluate(call, scope) {
+      const parts: number[] = [];
+      for (const arg of call.args) {
+        const part = toInteger(scope.value(arg), arg);
+        if (part instanceof CellError) {
+          return part;
+        }
+        parts.push(part);
+      }
+      const [year, month, day] = parts;
+      const date = new Date(Date.UTC(year, month - 1, day));
+      // Date.UTC reads years 0 to 99 as 1900 to 1999
+      date.setUTCFullYear(year, month - 1, day);
+      return isNaN(date.getTime())
+        ? new CellError(
+            "#NUM!",
+            "That date is out of range",
+            call.start,
+            call.end,
+          )
+        : date;
+    },
+  },
+  YEAR: datePart("YEAR(date)", "The year of a date", (date) =>
+    date.getUTCFullYear(),
+  ),
+  MONTH: datePart(
+    "MONTH(date)",
+    "The month of a date, from 1 to 12",
+    (date) => date.getUTCMonth() + 1,
+  ),
+  DAY: datePart("DAY(date)", "The day of the month of a date", (date) =>
+    date.getUTCDate(),
+  ),
+  TODAY: {
+    signature: "TODAY()",
+    description: "Today's date, in UTC",
+    minArgs: 0,
+    maxArgs: 0,
+    evaluate() {
+      const now = new Date();
+      return new Date(
+        Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+      );
+    },
+  },
+  DAYS: {
+    signature: "DAYS(end_date, start_date)",
+    description: "The number of days from one date to another",
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate(call, scope) {
+      const end = toDate(scope.value(call.args[0]), call.args[0]);
+      const start = toDate(scope.value(call.args[1]), call.args[1]);
+      if (end instanceof CellError) {
+        return end;
+      }
+      return start instanceof CellError ? start : daysBetween(end, start);
+    },
+  },
+  VLOOKUP: {
+    signature: "VLOOKUP(value, [First]:[Last], column_number, [approximate])",
+    description:
+      "Finds a value in the first column of a range of columns and returns the same row of another; with approximate matching (the default) the first column must be sorted",
+    minArgs: 3,
+    maxArgs: 4,
+    argumentKind: (index) => (index === 1 ? "table" : "value"),
+    evaluate(call, scope) {
+      const [lookup, table, columnArg, approximateArg] = call.args;
+      const value = scope.value(lookup);
+      if (value instanceof CellError) {
+        return value;
+      }
+      const rows = scope.rows(table as ColumnsNode);
+      const column = toInteger(scope.value(columnArg), columnArg);
+      if (column instanceof CellError) {
+        return column;
+      }
+      if (column < 1 || column > (rows[0]?.length ?? 0)) {
+        return valueError(
+          columnArg,
+          `The column number must be from 1 to ${rows[0]?.length ?? 0}`,
+        );
+      }
+      const approximate = approximateArg
+        ? toBoolean(scope.value(approximateArg), approximateArg)
+        : true;
+      if (approximate instanceof CellError) {
+        return approximate;
+      }
+
+      if (!approximate) {
+        const index = scope.find(table, value);
+        return index === -1 ? notFound(call, value) : rows[index][column - 1];
+      }
+      // The last row whose first value isn't past the one looked for
+      let match = -1;
+      for (let i = 0; i < rows.length; i++) {
+        if (compareFormulaValues(rows[i][0], value) > 0) {
+          break;
+        }
+        match = i;
+      }
+      return match === -1 ? notFound(call, value) : rows[match][column - 1];
+    },
+  },
+  XLOOKUP: {
+    signature:
+      "XLOOKUP(value, [Lookup column], [Return column], [if_not_found])",
+    description:
+      "Finds a value in one column and returns the same row of another",
+    minArgs: 3,
+    maxArgs: 4,
+    argumentKind: (index) => (index === 1 || index === 2 ? "column" : "value"),
+    evaluate(call, scope) {
+      const [lookup, lookupColumn, returnColumn, fallback] = call.args;
+      const value = scope.value(lookup);
+      if (value instanceof CellError) {
+        return value;
+      }
+      const results = scope.values(returnColumn);
+      if (scope.values(lookupColumn).length !== results.length) {
+        return valueError(
+          call,
+          "The lookup and return columns must have as many rows",
+        );
+      }
+      const index = scope.find(lookupColumn, value);
+      if (index !== -1) {
+        return results[index];
+      }
+      return fallback ? scope.value(fallback) : notFound(call, value);
+    },
+  },
+};
@@ -0,0 +1,491 @@
+import { FormulaError } from "./formula_error";
+
+/**
+ * A parsed formula. Every node records the span of the formula text it came
+ * from, so errors can point at it.
+ */
+export type FormulaNode =
+  | { type: "number"; value: number; start: number; end: number }
+  | { type: "string"; value: string; start: number; end: number }
+  | { type: "boolean"; value: boolean; start: number; end: number }
+  | ColumnNode
+  | WindowNode
+  | ColumnsNode
+  | {
+      type: "unary";
+      operator: "-" | "+" | "%";
+      operand: FormulaNode;
+      start: number;
+      end: number;
+    }
+  | {
+      type: "binary";
+      operator: BinaryOperator;
+      left: FormulaNode;
+      right: FormulaNode;
+      start: number;
+      end: number;
+    }
+  | CallNode;
+
+/**
+ * A column's value in the current row, or `offset` rows from it when
+ * written `[Sales][-1]`. Where a function searches a column, as `XLOOKUP`
+ * does, a column without an offset means the whole column.
+ */
+export interface ColumnNode {
+  type: "column";
+  name: string;
+  offset?: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * The values of a column from `from` to `to` rows around the current row,
+ * written `[Sales][-2:0]`, e.g. for rolling sums. A bound left out runs to
+ * the first or last row: `[Sales][:0]` is every row up to this one and
+ * `[Sales][:]` the whole column.
+ */
+export interface WindowNode {
+  type: "window";
+  name: string;
+  from?: number;
+  to?: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Consecutive columns from `from` to `to`, written `[Region]:[Target]`, for
+ * the table `VLOOKUP` searches.
+ */
+export interface ColumnsNode {
+  type: "columns";
+  from: string;
+  to: string;
+  start: number;
+  end: number;
+}
+
+export interface CallNode {
+  type: "call";
+  name: string;
+  args: FormulaNode[];
+  /** The end of the function's name, for errors about the function itself. */
+  nameEnd: number;
+  start: number;
+  end: number;
+}
+
+export const BINARY_OPERATORS = [
+  "+",
+  "-",
+  "*",
+  "/",
+  "^",
+  "&",
+  "=",
+  "<>",
+  "<",
+  ">",
+  "<=",
+  ">=",
+] as const;
+
+export type BinaryOperator = (typeof BINARY_OPERATORS)[number];
+
+type Token =
+  | { kind: "number"; value: number; start: number; end: number }
+  | { kind: "string"; value: string; start: number; end: number }
+  | { kind: "bracket"; value: string; start: number; end: number }
+  | { kind: "name"; value: string; start: number; end: number }
+  | { kind: "symbol"; value: string; start: number; end: number }
+  | { kind: "end"; value: ""; start: number; end: number };
+
+const NUMBER_PATTERN = /^(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/;
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_.]*/;
+const SYMBOLS = ["<>", "<=", ">=", ..."+-*/^&=<>%(),:"];
+const OFFSET_PATTERN = /^\s*([-+]?\d+)\s*$/;
+const WINDOW_PATTERN = /^\s*([-+]?\d+)?\s*:\s*([-+]?\d+)?\s*$/;
+
+// Splits a formula into tokens, each with its span
+const tokenize = (formula: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < formula.length) {
+    const char = formula[i];
+    const rest = formula.slice(i);
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '"') {
+      // Quotes inside text are doubled, as in spreadsheets
+      let value = "";
+      let j = i + 1;
+      for (;;) {
+        if (j >= formula.length) {
+          throw new FormulaError(
+            "syntax",
+            "This text has no closing quote",
+            i,
+            formula.length,
+          );
+        }
+        if (formula[j] === '"' && formula[j + 1] === '"') {
+          value += '"';
+          j += 2;
+        } else if (formula[j] === '"') {
+          break;
+        } else {
+          value += formula[j++];
+        }
+      }
+      tokens.push({ kind: "string", value, start: i, end: j + 1 });
+      i = j + 1;
+    } else if (char === "[") {
+      // Column names are bracketed; `]]` is a `]` in the name
+      let value = "";
+      let j = i + 1;
+      for (;;) {
+        if (j >= formula.length) {
+          throw new FormulaError(
+            "syntax",
+            "This column name has no closing ]",
+            i,
+            formula.length,
+          );
+        }
+        if (formula[j] === "]" && formula[j + 1] === "]") {
+          value += "]";
+          j += 2;
+        } else if (formula[j] === "]") {
+          break;
+        } else {
+          value += formula[j++];
+        }
+      }
+      tokens.push({ kind: "bracket", value, start: i, end: j + 1 });
+      i = j + 1;
+    } else if (NUMBER_PATTERN.test(rest)) {
+      const [text] = NUMBER_PATTERN.exec(rest) ?? [""];
+      tokens.push({
+        kind: "number",
+        value: Number(text),
+        start: i,
+        end: i + text.length,
+      });
+      i += text.length;
+    } else if (NAME_PATTERN.test(rest)) {
+      const [text] = NAME_PATTERN.exec(rest) ?? [""];
+      tokens.push({
+        kind: "name",
+        value: text,
+        start: i,
+        end: i + text.length,
+      });
+      i += text.length;
+    } else {
+      const symbol = SYMBOLS.find((item) => rest.startsWith(item));
+      if (!symbol) {
+        throw new FormulaError(
+          "syntax",
+          `Unexpected character "${char}"`,
+          i,
+          i + 1,
+        );
+      }
+      tokens.push({
+        kind: "symbol",
+        value: symbol,
+        start: i,
+        end: i + symbol.length,
+      });
+      i += symbol.length;
+    }
+  }
+
+  tokens.push({
+    kind: "end",
+    value: "",
+    start: formula.length,
+    end: formula.length,
+  });
+  return tokens;
+};
+
+// Binary operators from the loosest binding to the tightest, as in
+// spreadsheets: comparisons, then `&`, then `+ -`, then `* /`, then `^`
+const PRECEDENCE: BinaryOperator[][] = [
+  ["=", "<>", "<", ">", "<=", ">="],
+  ["&"],
+  ["+", "-"],
+  ["*", "/"],
+  ["^"],
+];
+
+const describeToken = (token: Token) =>
+  token.kind === "end"
+    ? "the end of the formula"
+    : token.kind === "string"
+      ? `"${token.value}"`
+      : token.kind === "bracket"
+        ? `[${token.value}]`
+        : `"${token.value}"`;
+
+class Parser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): FormulaNode {
+    const node = this.expression(0);
+    const next = this.peek();
+    if (next.kind !== "end") {
+      throw new FormulaError(
+        "syntax",
+        `Expected an operator or the end of the formula, found ${describeToken(next)}`,
+        next.start,
+        next.end,
+      );
+    }
+    return node;
+  }
+
+  private peek() {
+    return this.tokens[this.position];
+  }
+
+  private next() {
+    return this.tokens[this.position++];
+  }
+
+  private isSymbol(value: string) {
+    const token = this.peek();
+    return token.kind === "symbol" && token.value === value;
+  }
+
+  private expect(value: string, context: string) {
+    const token = this.peek();
+    if (token.kind !== "symbol" || token.value !== value) {
+      throw new FormulaError(
+        "syntax",
+        `Expected "${value}" ${context}, found ${describeToken(token)}`,
+        token.start,
+        token.end,
+      );
+    }
+    return this.next();
+  }
+
+  private expression(level: number): FormulaNode {
+    if (level === PRECEDENCE.length) {
+      return this.unary();
+    }
+    let left = this.expression(level + 1);
+    for (;;) {
+      const token = this.peek();
+      const operator = PRECEDENCE[level].find(
+        (item) => token.kind === "symbol" && token.value === item,
+      );
+      if (!operator) {
+        return left;
+      }
+      this.next();
+      const right = this.expression(level + 1);
+      left = {
+        type: "binary",
+        operator,
+        left,
+        right,
+        start: left.start,
+        end: right.end,
+      };
+    }
+  }
+
+  private unary(): FormulaNode {
+    const token = this.peek();
+    if (
+      token.kind === "symbol" &&
+      (token.value === "-" || token.value === "+")
+    ) {
+      this.next();
+      const operand = this.unary();
+      return {
+        type: "unary",
+        operator: token.value,
+        operand,
+        start: token.start,
+        end: operand.end,
+      };
+    }
+    let node = this.primary();
+    while (this.isSymbol("%")) {
+      const percent = this.next();
+      node = {
+        type: "unary",
+        operator: "%",
+        operand: node,
+        start: node.start,
+        end: percent.end,
+      };
+    }
+    return node;
+  }
+
+  private primary(): FormulaNode {
+    const token = this.next();
+    switch (token.kind) {
+      case "number":
+        return {
+          type: "number",
+          value: token.value,
+          start: token.start,
+          end: token.end,
+        };
+      case "string":
+        return {
+          type: "string",
+          value: token.value,
+          start: token.start,
+          end: token.end,
+        };
+      case "bracket":
+        return this.column(token.value, token.start, token.end);
+      case "name":
+        if (this.isSymbol("(")) {
+          return this.call(token.value, token.start, token.end);
+        }
+        if (/^(true|false)$/i.test(token.value)) {
+          return {
+            type: "boolean",
+            value: token.value.toUpperCase() === "TRUE",
+            start: token.start,
+            end: token.end,
+          };
+        }
+        return this.column(token.value, token.start, token.end);
+      case "symbol":
+        if (token.value === "(") {
+          const inner = this.expression(0);
+          this.expect(")", `to close the "(" at ${token.start + 1}`);
+          return inner;
+        }
+        break;
+      case "end":
+        throw new FormulaError(
+          "syntax",
+          this.position === 1
+            ? "The formula is empty"
+            : "The formula ends where a value was expected",
+          token.start,
+          token.end,
+        );
+      default:
+        break;
+    }
+    throw new FormulaError(
+      "syntax",
+      `Expected a value, found ${describeToken(token)}`,
+      token.start,
+      token.end,
+    );
+  }
+
+  // A column, optionally followed by a row offset or window, or by `:` and
+  // the last column of a range of columns
+  private column(name: string, start: number, end: number): FormulaNode {
+    const next = this.peek();
+    if (next.kind === "bracket" && OFFSET_PATTERN.test(next.value)) {
+      this.next();
+      return {
+        type: "column",
+        name,
+        offset: Number(next.value),
+        start,
+        end: next.end,
+      };
+    }
+    if (next.kind === "bracket" && WINDOW_PATTERN.test(next.value)) {
+      this.next();
+      const [, from, to] = WINDOW_PATTERN.exec(next.value) ?? [];
+      if (from !== undefined && to !== undefined && Number(from) > Number(to)) {
+        throw new FormulaError(
+          "syntax",
+          `A row window runs from its first row to its last, so ${from} must not be after ${to}`,
+          next.start,
+          next.end,
+        );
+      }
+      return {
+        type: "window",
+        name,
+        from: from === undefined ? undefined : Number(from),
+        to: to === undefined ? undefined : Number(to),
+        start,
+        end: next.end,
+      };
+    }
+    if (this.isSymbol(":")) {
+      this.next();
+      const last = this.next();
+      if (last.kind !== "bracket" && last.kind !== "name") {
+        throw new FormulaError(
+          "syntax",
+          `Expected the last column of the range after ":", found ${describeToken(last)}`,
+          last.start,
+          last.end,
+        );
+      }
+      return {
+        type: "columns",
+        from: name,
+        to: last.value,
+        start,
+        end: last.end,
+      };
+    }
+    return { type: "column", name, start, end };
+  }
+
+  private call(name: string, start: number, nameEnd: number): FormulaNode {
+    const open = this.next();
+    const args: FormulaNode[] = [];
+    if (!this.isSymbol(")")) {
+      for (;;) {
+        args.push(this.expression(0));
+        if (!this.isSymbol(",")) {
+          break;
+        }
+        this.next();
+      }
+    }
+    const close = this.expect(
+      ")",
+      `to close the arguments of ${name.toUpperCase()} opened at ${open.start + 1}`,
+    );
+    return {
+      type: "call",
+      name: name.toUpperCase(),
+      args,
+      nameEnd,
+      start,
+      end: close.end,
+    };
+  }
+}
+
+/**
+ * Parses a formula such as `IF([Sales] > 100, "High", "Low")`. A leading
+ * `=` is allowed, as in spreadsheets.
+ * @throws FormulaError with category `syntax` if it isn't well formed.
+ */
+export const parseFormula = (formula: string): FormulaNode => {
+  const tokens = tokenize(formula);
+  if (tokens[0].kind === "symbol" && tokens[0].value === "=") {
+    tokens.shift();
+  }
+  return new Parser(tokens).parse();
+};
@@ -0,0 +1,109 @@
+import { CellError } from "./formula_error";
+
+/**
+ * A value a formula works with. Blank cells are `null`; dates are `Date`s at
+ * midnight UTC. A `CellError` is the result of a failed calculation.
+ */
+export type FormulaValue = number | string | boolean | Date | null | CellError;
+
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const DATE_PATTERN =
+  /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}(?:\.\d+)?))?(Z|[-+]\d{2}:?\d{2})?)?$/;
+const MS_PER_DAY = 86_400_000;
+
+/**
+ * Reads a CSV cell: blank as `null`, numbers (with thousands separators,
+ * currency symbols and percent signs) as numbers, `TRUE` and `FALSE` as
+ * booleans, and anything else as text. Dates stay text until a date function
+ * or date arithmetic reads them.
+ */
+export const readCell = (text: string): FormulaValue => {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return null;
+  }
+  if (/^(true|false)$/i.test(trimmed)) {
+    return trimmed.toUpperCase() === "TRUE";
+  }
+  const cleaned = trimmed.replace(/[$€£,\s]/g, "");
+  if (NUMBER_PATTERN.test(cleaned.replace(/%$/, ""))) {
+    return cleaned.endsWith("%")
+      ? Number(cleaned.slice(0, -1)) / 100
+      : Number(cleaned);
+  }
+  return text;
+};
+
+/**
+ * Reads an ISO date such as `2024-03-01`, or a date and time such as
+ * `2024-03-01 09:30` (UTC unless it has an offset). Other formats aren't
+ * read, since `03/01/2024` means different days in different countries.
+ */
+export const parseDateText = (text: string): Date | undefined => {
+  const match = DATE_PATTERN.exec(text.trim());
+  if (!match) {
+    return undefined;
+  }
+  const [year, month, day, hours, minutes, seconds] = match
+    .slice(1, 7)
+    .map((part) => Number(part ?? 0));
+  const date = new Date(
+    Date.UTC(year, month - 1, day, hours, minutes) + seconds * 1000,
+  );
+  // Rejects days that don't exist, such as 2024-02-30
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined;
+  }
+  const zone = match[7];
+  if (!zone || zone === "Z") {
+    return date;
+  }
+  const [, sign, zoneHours, zoneMinutes] =
+    /^([-+])(\d{2}):?(\d{2})$/.exec(zone) ?? [];
+  const offset = (Number(zoneHours) * 60 + Number(zoneMinutes)) * 60_000;
+  return new Date(date.getTime() - (sign === "-" ? -offset : offset));
+};
+
+export const addDays = (date: Date, days: number) =>
+  new Date(date.getTime() + days * MS_PER_DAY);
+
+export const daysBetween = (end: Date, start: Date) =>
+  (end.getTime() - start.getTime()) / MS_PER_DAY;
+
+/** How a value is described in error messages. */
+export const describeFormulaValue = (value: FormulaValue) =>
+  value == null
+    ? "a blank"
+    : value instanceof Date
+      ? "a date"
+      : typeof value === "string"
+        ? `the text "${value.length > 30 ? `${value.slice(0, 30)}…` : value}"`
+        : typeof value === "boolean"
+          ? value
+            ? "TRUE"
+            : "FALSE"
+          : String(value);
+
+/**
+ * Writes a value back to a CSV cell. Numbers are rounded to 15 significant
+ * digits, so `0.1 + 0.2` is written `0.3`; errors are written as their code.
+ */
+export const formatFormulaValue = (value: FormulaValue): string => {
+  if (value == null) {
+    return "";
+  }
+  if (value instanceof CellError) {
+    return value.code;
+  }
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return iso.endsWith("T00:00:00.000Z") ? iso.slice(0, 10) : iso;
+  }
+  if (typeof value === "boolean") {
+    return value ? "TRUE" : "FALSE";
+  }
+  if (typeof value === "number") {
+    return String(Number(value.toPrecision(15)));
+  }
+  return value;
+};
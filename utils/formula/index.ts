@@ -0,0 +1,16 @@
+export type { CompiledFormula, FormulaTable } from "./formula_evaluator";
+export type { CellErrorCode, FormulaErrorCategory } from "./formula_error";
+export type { ArgumentKind, FormulaFunction } from "./formula_functions";
+export type { FormulaNode } from "./formula_parser";
+export type { FormulaValue } from "./formula_values";
+export { compileFormula, evaluateFormula } from "./formula_evaluator";
+export {
+  CELL_ERROR_CODES,
+  CellError,
+  describeFormulaError,
+  FORMULA_ERROR_CATEGORIES,
+  FormulaError,
+} from "./formula_error";
+export { FORMULA_FUNCTIONS } from "./formula_functions";
+export { parseFormula } from "./formula_parser";
+export { formatFormulaValue, readCell } from "./formula_values";
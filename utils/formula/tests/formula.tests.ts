@@ -0,0 +1,310 @@
+import type { FormulaTable } from "../index";
+import {
+  CellError,
+  compileFormula,
+  describeFormulaError,
+  evaluateFormula,
+  FormulaError,
+  formatFormulaValue,
+  parseFormula,
+} from "../index";
+
+const SALES: FormulaTable = {
+  header: ["Region", "Order Date", "Sales", "Cost", "Target"],
+  rows: [
+    ["North", "2024-01-30", "1,200", "800", "1000"],
+    ["South", "2024-02-15", "$300", "", "500"],
+    ["East", "2024-02-29", "450.5", "450.5", "400"],
+    ["West", "not a date", "n/a", "100", "0"],
+  ],
+};
+
+// Runs a formula over a table and writes each row's result as a cell
+const run = (formula: string, table = SALES) =>
+  evaluateFormula(compileFormula(formula, table.header), table).map(
+    formatFormulaValue,
+  );
+
+const compileError = (formula: string, header = SALES.header) => {
+  try {
+    compileFormula(formula, header);
+  } catch (error) {
+    if (error instanceof FormulaError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error(`${formula} compiled`);
+};
+
+describe("parseFormula", () => {
+  it("binds operators as spreadsheets do", () => {
+    expect(run('=1 + 2 * 3 ^ 2 & "!"')).toEqual(Array(4).fill("19!"));
+    expect(run("-2 ^ 2")).toEqual(Array(4).fill("4"));
+    expect(run("50% * 10 = 5")).toEqual(Array(4).fill("TRUE"));
+  });
+
+  it("reads bracketed and bare column names, offsets and windows", () => {
+    expect(
+      parseFormula("[Order Date] - Sales[-1] + SUM([Sales][-2:0])"),
+    ).toMatchObject({
+      type: "binary",
+      left: {
+        type: "binary",
+        left: { type: "column", name: "Order Date" },
+        right: { type: "column", name: "Sales", offset: -1 },
+      },
+      right: {
+        type: "call",
+        name: "SUM",
+        args: [{ type: "window", name: "Sales", from: -2, to: 0 }],
+      },
+    });
+    expect(parseFormula("[a]]b]")).toMatchObject({ name: "a]b" });
+    expect(parseFormula('"say ""hi"""')).toMatchObject({ value: 'say "hi"' });
+  });
+
+  it("points at the text at fault", () => {
+    const cases: [string, string, number, number][] = [
+      ["", "The formula is empty", 0, 0],
+      ["[Sales] +", "The formula ends where a value was expected", 9, 9],
+      ['"Total', "This text has no closing quote", 0, 6],
+      [
+        "SUM([Sales], 2",
+        'Expected ")" to close the arguments of SUM opened at 4, found the end of the formula',
+        14,
+        14,
+      ],
+      [
+        "[Sales] [Cost]",
+        "Expected an operator or the end of the formula, found [Cost]",
+        8,
+        14,
+      ],
+      ["[Sales] # 2", 'Unexpected character "#"', 8, 9],
+      [
+        "[Sales][2:-1]",
+        "A row window runs from its first row to its last, so 2 must not be after -1",
+        7,
+        13,
+      ],
+    ];
+    for (const [formula, message, start, end] of cases) {
+      expect(() => parseFormula(formula)).toThrow(
+        expect.objectContaining({ category: "syntax", message, start, end }),
+      );
+    }
+  });
+});
+
+describe("compileFormula", () => {
+  it("matches columns regardless of case and suggests close names", () => {
+    expect(compileFormula("[sales] - [COST]", SALES.header).columns).toEqual([
+      "Sales",
+      "Cost",
+    ]);
+    expect(compileError("[Sale] * 2")).toMatchObject({
+      category: "reference",
+      message: 'There\'s no column named "Sale". Did you mean [Sales]?',
+      start: 0,
+      end: 6,
+    });
+  });
+
+  it("rejects unknown functions and wrong arguments", () => {
+    expect(compileError("1 + SUMM([Sales])")).toMatchObject({
+      category: "function",
+      message: "There's no function named SUMM. Did you mean SUM?",
+      start: 4,
+      end: 8,
+    });
+    expect(compileError('IF([Sales] > 1, "a", "b", "c")')).toMatchObject({
+      category: "arguments",
+      message:
+        "IF takes 2 to 3 arguments but got 4. It's written IF(condition, value_if_true, [value_if_false])",
+    });
+    expect(compileError('IFS([Sales] > 1, "a", [Cost] > 1)').category).toBe(
+      "arguments",
+    );
+    expect(compileError("[Sales][-1:0] * 2")).toMatchObject({
+      category: "arguments",
+      start: 0,
+      end: 13,
+    });
+    expect(compileError("VLOOKUP(1, [Sales], 2)").category).toBe("arguments");
+    expect(compileError("VLOOKUP(1, [Target]:[Sales], 2)").category).toBe(
+      "reference",
+    );
+  });
+
+  it("describes errors with a caret under the text at fault", () => {
+    expect(describeFormulaError("[Sale] * 2", compileError("[Sale] * 2"))).toBe(
+      'There\'s no column named "Sale". Did you mean [Sales]?\n[Sale] * 2\n^^^^^^',
+    );
+  });
+});
+
+describe("evaluateFormula", () => {
+  it("computes arithmetic per row, with errors in the rows that fail", () => {
+    expect(run("[Sales] - [Cost]")).toEqual(["400", "300", "0", "#VALUE!"]);
+    expect(run("[Sales] / [Target]")).toEqual([
+      "1.2",
+      "0.6",
+      "1.12625",
+      "#VALUE!",
+    ]);
+    expect(run("[Cost] / [Target]")).toEqual([
+      "0.8",
+      "0",
+      "1.12625",
+      "#DIV/0!",
+    ]);
+    expect(run("0.1 + 0.2")).toEqual(Array(4).fill("0.3"));
+
+    const [, , , failed] = evaluateFormula(
+      compileFormula("[Sales] * 2", SALES.header),
+      SALES,
+    );
+    expect(failed).toEqual(
+      new CellError("#VALUE!", 'Expected a number, got the text "n/a"', 0, 7),
+    );
+  });
+
+  it("compares and joins values", () => {
+    expect(run('IF([Sales] >= [Target], "Hit", "Miss")')).toEqual([
+      "Hit",
+      "Miss",
+      "Hit",
+      // Text sorts after numbers, as in spreadsheets
+      "Hit",
+    ]);
+    expect(run('[Region] = "north"')).toEqual([
+      "TRUE",
+      "FALSE",
+      "FALSE",
+      "FALSE",
+    ]);
+    expect(run('[Cost] = ""')).toEqual(["FALSE", "TRUE", "FALSE", "FALSE"]);
+    expect(run('[Region] & ": " & ROUND([Target] / 3, 1)')).toEqual([
+      "North: 333.3",
+      "South: 166.7",
+      "East: 133.3",
+      "West: 0",
+    ]);
+  });
+
+  it("reads other rows through offsets and windows", () => {
+    expect(run("[Target] - [Target][-1]")).toEqual([
+      "1000",
+      "-500",
+      "-100",
+      "-400",
+    ]);
+    expect(run("SUM([Target][:0])")).toEqual(["1000", "1500", "1900", "1900"]);
+    expect(run("AVERAGE([Target][-1:1])")).toEqual([
+      "750",
+      "633.333333333333",
+      "300",
+      "200",
+    ]);
+    expect(run("[Target] / SUM([Target][:])")).toEqual([
+      "0.526315789473684",
+      "0.263157894736842",
+      "0.210526315789474",
+      "0",
+    ]);
+    expect(run("COUNT([Sales][:])")).toEqual(Array(4).fill("3"));
+    expect(run("MAX([Cost][:]) - MIN([Cost][:])")).toEqual(
+      Array(4).fill("700"),
+    );
+  });
+
+  it("runs logical and text functions", () => {
+    expect(
+      run(
+        'IFS([Target] >= 1000, "Large", [Target] >= 450, "Medium", TRUE, "Small")',
+      ),
+    ).toEqual(["Large", "Medium", "Small", "Small"]);
+    expect(run('IFS([Target] > 600, "Large")')).toEqual([
+      "Large",
+      "#N/A",
+      "#N/A",
+      "#N/A",
+    ]);
+    expect(run("AND([Target] > 0, OR([Cost] > 500, NOT([Cost] > 0)))")).toEqual(
+      ["TRUE", "TRUE", "FALSE", "FALSE"],
+    );
+    expect(run('IFERROR([Sales] / [Target], "-")')).toEqual([
+      "1.2",
+      "0.6",
+      "1.12625",
+      "-",
+    ]);
+    expect(
+      run("CONCAT(LEFT([Region]), MID([Region], 2, 2), RIGHT([Region], 2))"),
+    ).toEqual(["North", "South", "Easst", "Wesst"]);
+    expect(
+      run("ROUND(2.5) & ROUND(-2.5) & ROUND(1.005, 2) & ROUND(1250, -2)"),
+    ).toEqual(Array(4).fill("3-31.011300"));
+  });
+
+  it("works with dates", () => {
+    expect(run("[Order Date] + 30")).toEqual([
+      "2024-02-29",
+      "2024-03-16",
+      "2024-03-30",
+      "#VALUE!",
+    ]);
+    expect(run('DAYS([Order Date], "2024-01-01")')).toEqual([
+      "29",
+      "45",
+      "59",
+      "#VALUE!",
+    ]);
+    expect(run("YEAR([Order Date]) * 100 + MONTH([Order Date])")).toEqual([
+      "202401",
+      "202402",
+      "202402",
+      "#VALUE!",
+    ]);
+    expect(run("DATE(2024, 2, 30) - DATE(2024, 1, 1)")).toEqual(
+      Array(4).fill("60"),
+    );
+    expect(run('[Order Date] > "2024-02-01"')).toEqual([
+      "FALSE",
+      "TRUE",
+      "TRUE",
+      "TRUE",
+    ]);
+  });
+
+  it("looks values up in other rows", () => {
+    const table: FormulaTable = {
+      header: ["Product", "Sold", "Tier", "Discount", "Code", "Name"],
+      rows: [
+        ["widget", "3", "0", "0%", "WI", "Widget"],
+        ["Gadget", "12", "10", "5%", "GA", "Gadget"],
+        ["gizmo", "40", "25", "10%", "", ""],
+      ],
+    };
+    expect(run("VLOOKUP([Sold], [Tier]:[Discount], 2)", table)).toEqual([
+      "0",
+      "0.05",
+      "0.1",
+    ]);
+    expect(run('VLOOKUP("GADGET", [Product]:[Tier], 3, FALSE)', table)).toEqual(
+      Array(3).fill("10"),
+    );
+    expect(run('VLOOKUP("bolt", [Product]:[Tier], 2, FALSE)', table)).toEqual(
+      Array(3).fill("#N/A"),
+    );
+    expect(
+      run('XLOOKUP(LEFT([Product], 2), [Code], [Name], "none")', table),
+    ).toEqual(["Widget", "Gadget", "none"]);
+    expect(run("XLOOKUP([Sold] * 10, [Tier], [Product])", table)).toEqual([
+      "#N/A",
+      "#N/A",
+      "#N/A",
+    ]);
+  });
+});
@@ -0,0 +1,26 @@
+export type {
+  InfographicChart,
+  InfographicStyle,
+} from "./infographic_elements";
+export type { InfographicErrorCategory } from "./infographic_error";
+export type {
+  InfographicContent,
+  InfographicFonts,
+  InfographicLayout,
+  InfographicLayoutOptions,
+  InfographicTemplate,
+  Kpi,
+  LayoutBox,
+  PageSize,
+} from "./infographic_layout";
+export { infographicElements } from "./infographic_elements";
+export {
+  INFOGRAPHIC_ERROR_CATEGORIES,
+  InfographicError,
+} from "./infographic_error";
+export {
+  INFOGRAPHIC_TEMPLATES,
+  layoutInfographic,
+  MAX_INFOGRAPHIC_CHARTS,
+  MIN_INFOGRAPHIC_CHARTS,
+} from "./infographic_layout";
@@ -0,0 +1,153 @@
+import type { ImageRef } from "@canva/asset";
+import type {
+  ElementAtPoint,
+  GroupContentAtPoint,
+  GroupElementAtPoint,
+} from "@canva/design";
+import { createRichtextRange } from "@canva/design";
+import type {
+  InfographicContent,
+  InfographicLayout,
+  LayoutBox,
+} from "./infographic_layout";
+
+/** An uploaded chart, and the alt text it's added to the design with. */
+export interface InfographicChart {
+  ref: ImageRef;
+  altText: string;
+}
+
+export interface InfographicStyle {
+  /** The colour of the KPI callouts, as a hex code. */
+  accentColor?: string;
+  /** The colour of the title and narrative. */
+  textColor?: string;
+  /** The colour of the text on the KPI callouts. */
+  calloutTextColor?: string;
+}
+
+// Groups elements laid out in boxes, at the boxes' bounds, and places the
+// elements relative to the group
+const groupOf = (
+  children: GroupContentAtPoint[],
+  boxes: LayoutBox[],
+): GroupElementAtPoint => {
+  const top = Math.min(...boxes.map((box) => box.top));
+  const left = Math.min(...boxes.map((box) => box.left));
+  return {
+    type: "group",
+    top,
+    left,
+    width: Math.max(...boxes.map((box) => box.left + box.width)) - left,
+    height: Math.max(...boxes.map((box) => box.top + box.height)) - top,
+    children: children.map((child) => ({
+      ...child,
+      top: child.top - top,
+      left: child.left - left,
+    })),
+  };
+};
+
+const rectangle = (box: LayoutBox, color: string): GroupContentAtPoint => ({
+  type: "shape",
+  viewBox: { top: 0, left: 0, width: box.width, height: box.height },
+  paths: [{ d: `M 0 0 H ${box.width} V ${box.height} H 0 Z`, fill: { color } }],
+  ...box,
+});
+
+/**
+ * Turns laid out content into elements to add at their places on the page:
+ * the title, the KPI callouts as one group and the charts as another, so each
+ * can be moved as a whole, and the narrative.
+ * @param content - The content laid out, with its charts uploaded.
+ */
+export const infographicElements = (
+  content: InfographicContent<InfographicChart>,
+  layout: InfographicLayout,
+  {
+    accentColor = "#1565C0",
+    textColor = "#212121",
+    calloutTextColor = "#FFFFFF",
+  }: InfographicStyle = {},
+): ElementAtPoint[] => {
+  const { fonts } = layout;
+  const elements: ElementAtPoint[] = [
+    {
+      type: "text",
+      children: [content.title.trim()],
+      fontSize: fonts.title,
+      fontWeight: "bold",
+      color: textColor,
+      textAlign: layout.titleAlign,
+      top: layout.title.top,
+      left: layout.title.left,
+      width: layout.title.width,
+    },
+  ];
+
+  // Each callout is a card with its value above its label
+  if (content.kpis.length > 0) {
+    elements.push(
+      groupOf(
+        content.kpis.flatMap(({ label, value }, i) => {
+          const card = layout.kpis[i];
+          return [
+            rectangle(card, accentColor),
+            {
+              type: "text",
+              children: [value],
+              fontSize: fonts.kpiValue,
+              fontWeight: "bold",
+              color: calloutTextColor,
+              textAlign: "center",
+              top: card.top + Math.round(card.height * 0.15),
+              left: card.left,
+              width: card.width,
+            },
+            {
+              type: "text",
+              children: [label],
+              fontSize: fonts.kpiLabel,
+              color: calloutTextColor,
+              textAlign: "center",
+              top: card.top + Math.round(card.height * 0.62),
+              left: card.left,
+              width: card.width,
+            },
+          ];
+        }),
+        layout.kpis,
+      ),
+    );
+  }
+
+  elements.push(
+    groupOf(
+      content.charts.map(({ ref, altText }, i) => ({
+        type: "image",
+        ref,
+        altText: { text: altText, decorative: false },
+        ...layout.charts[i],
+      })),
+      layout.charts,
+    ),
+  );
+
+  const narrative = content.narrative?.trim();
+  if (narrative && layout.narrative) {
+    const range = createRichtextRange();
+    const { bounds } = range.appendText(narrative);
+    range.formatParagraph(bounds, {
+      fontSize: fonts.narrative,
+      color: textColor,
+    });
+    elements.push({
+      type: "richtext",
+      range,
+      top: layout.narrative.top,
+      left: layout.narrative.left,
+      width: layout.narrative.width,
+    });
+  }
+  return elements;
+};
@@ -0,0 +1,24 @@
+/**
+ * Why an infographic couldn't be laid out:
+ * - `charts`: there were too few or too many charts.
+ * - `title`: the title was empty.
+ * - `page`: the page is too small to fit everything in.
+ */
+export const INFOGRAPHIC_ERROR_CATEGORIES = [
+  "charts",
+  "title",
+  "page",
+] as const;
+
+export type InfographicErrorCategory =
+  (typeof INFOGRAPHIC_ERROR_CATEGORIES)[number];
+
+export class InfographicError extends Error {
+  constructor(
+    readonly category: InfographicErrorCategory,
+    message: string,
+  ) {
+    super(message);
+    Object.setPrototypeOf(this, InfographicError.prototype);
+  }
+}
@@ -0,0 +1,364 @@
+import { InfographicError } from "./infographic_error";
+
+/**
+ * The layouts an infographic can take:
+ * - `report`: a portrait page read top to bottom, with the narrative under
+ *   the charts.
+ * - `poster`: a portrait page with a large, centred title and a short
+ *   narrative at its foot.
+ * - `social_square`: a square post with a few large callouts.
+ * - `slide`: a landscape slide with the narrative in a column beside the
+ *   charts.
+ */
+export const INFOGRAPHIC_TEMPLATES = [
+  "report",
+  "poster",
+  "social_square",
+  "slide",
+] as const;
+
+export type InfographicTemplate = (typeof INFOGRAPHIC_TEMPLATES)[number];
+
+export const MIN_INFOGRAPHIC_CHARTS = 2;
+export const MAX_INFOGRAPHIC_CHARTS = 6;
+
+/** A key figure called out near the top of an infographic. */
+export interface Kpi {
+  label: string;
+  value: string;
+}
+
+/**
+ * What an infographic shows. `Chart` is however its charts are referred to,
+ * such as image URLs before they're uploaded and refs with alt text after.
+ */
+export interface InfographicContent<Chart = unknown> {
+  title: string;
+  kpis: Kpi[];
+  charts: Chart[];
+  narrative?: string;
+}
+
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+/** Where an element goes on the page, in pixels from its top left. */
+export interface LayoutBox {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+export interface InfographicFonts {
+  title: number;
+  kpiValue: number;
+  kpiLabel: number;
+  narrative: number;
+}
+
+export interface InfographicLayout {
+  template: InfographicTemplate;
+  page: PageSize;
+  title: LayoutBox;
+  titleAlign: "start" | "center";
+  /** A box for each KPI, in the order given. */
+  kpis: LayoutBox[];
+  /** A box for each chart, in the order given. */
+  charts: LayoutBox[];
+  narrative?: LayoutBox;
+  fonts: InfographicFonts;
+}
+
+export interface InfographicLayoutOptions {
+  template?: InfographicTemplate;
+  /**
+   * The page to fill. Defaults to the template's own size, for pages that
+   * have none, such as whiteboards.
+   */
+  page?: PageSize;
+  /** Each chart's width over its height. Defaults to 4:3. */
+  chartAspect?: number;
+}
+
+interface TemplateLayout {
+  /** The size of a page made for the template. */
+  page: PageSize;
+  /** The space around the page and between blocks, as shares of its shorter side. */
+  margin: number;
+  gap: number;
+  /** The height of the title and of each row of KPIs, as shares of the page's. */
+  title: number;
+  kpis: number;
+  /**
+   * The narrative's share of the page's height, or of its width when it's
+   * beside the charts.
+   */
+  narrative: number;
+  narrativeBeside: boolean;
+  kpisPerRow: number;
+  titleAlign: "start" | "center";
+}
+
+const TEMPLATE_LAYOUTS: Record<InfographicTemplate, TemplateLayout> = {
+  // A4 at 150 DPI
+  report: {
+    page: { width: 1240, height: 1754 },
+    margin: 0.06,
+    gap: 0.025,
+    title: 0.07,
+    kpis: 0.09,
+    narrative: 0.18,
+    narrativeBeside: false,
+    kpisPerRow: 4,
+    titleAlign: "start",
+  },
+  // A2 at 72 DPI
+  poster: {
+    page: { width: 1191, height: 1684 },
+    margin: 0.07,
+    gap: 0.03,
+    title: 0.11,
+    kpis: 0.1,
+    narrative: 0.12,
+    narrativeBeside: false,
+    kpisPerRow: 3,
+    titleAlign: "center",
+  },
+  social_square: {
+    page: { width: 1080, height: 1080 },
+    margin: 0.06,
+    gap: 0.03,
+    title: 0.12,
+    kpis: 0.15,
+    narrative: 0.1,
+    narrativeBeside: false,
+    kpisPerRow: 3,
+    titleAlign: "center",
+  },
+  slide: {
+    page: { width: 1920, height: 1080 },
+    margin: 0.05,
+    gap: 0.03,
+    title: 0.14,
+    kpis: 0.16,
+    narrative: 0.3,
+    narrativeBeside: true,
+    kpisPerRow: 4,
+    titleAlign: "start",
+  },
+};
+
+// Roughly how wide a character is and how tall a line is, in font sizes,
+// for sizing text to its box
+const CHARACTER_WIDTH = 0.55;
+const LINE_HEIGHT = 1.4;
+// The most a narrative's text grows, as a share of the page's shorter side
+const MAX_NARRATIVE_FONT = 0.03;
+
+const round = ({ top, left, width, height }: LayoutBox): LayoutBox => ({
+  top: Math.round(top),
+  left: Math.round(left),
+  width: Math.round(width),
+  height: Math.round(height),
+});
+
+// Canva's fonts are whole sizes from 1 to 1000
+const fontSize = (size: number) =>
+  Math.min(1000, Math.max(1, Math.floor(size)));
+
+// The largest size a line of text fits its width and height at
+const lineFont = (text: string, { width, height }: LayoutBox, share: number) =>
+  Math.min(
+    height * share,
+    width / (Math.max(1, text.length) * CHARACTER_WIDTH),
+  );
+
+// Lays out `count` boxes of the same width in rows of `perRow`, each row
+// centred across the width
+const rowsOf = (
+  count: number,
+  perRow: number,
+  { top, left, width }: Omit<LayoutBox, "height">,
+  itemHeight: number,
+  itemWidth: number,
+  gap: number,
+) =>
+  Array.from({ length: count }, (_, i) => {
+    const row = Math.floor(i / perRow);
+    const inRow = Math.min(perRow, count - row * perRow);
+    const rowWidth = inRow * itemWidth + (inRow - 1) * gap;
+    return {
+      top: top + row * (itemHeight + gap),
+      left: left + (width - rowWidth) / 2 + (i % perRow) * (itemWidth + gap),
+      width: itemWidth,
+      height: itemHeight,
+    };
+  });
+
+// Lays charts out in the grid that draws them largest, centred in the area
+// with the last row centred across it
+const chartGrid = (
+  count: number,
+  area: LayoutBox,
+  gap: number,
+  aspect: number,
+) => {
+  const grids = Array.from({ length: count }, (_, i) => {
+    const columns = i + 1;
+    const rows = Math.ceil(count / columns);
+    const width = Math.min(
+      (area.width - gap * (columns - 1)) / columns,
+      ((area.height - gap * (rows - 1)) / rows) * aspect,
+    );
+    return { columns, rows, width, height: width / aspect };
+  });
+  const best = grids.reduce((a, b) => (b.width > a.width ? b : a));
+  const gridHeight = best.rows * best.height + (best.rows - 1) * gap;
+  return rowsOf(
+    count,
+    best.columns,
+    { ...area, top: area.top + (area.height - gridHeight) / 2 },
+    best.height,
+    best.width,
+    gap,
+  );
+};
+
+/**
+ * Lays an infographic out on a page: the title across the top, the KPIs in
+ * rows of callouts under it, and the charts in the grid that draws them
+ * largest in the space left, with the narrative under or beside them as the
+ * template has it. Text is sized to fit its box.
+ * @throws InfographicError if there aren't 2 to 6 charts, the title is
+ * empty or the page is too small to fit everything in.
+ */
+export const layoutInfographic = (
+  content: InfographicContent,
+  {
+    template = "report",
+    page,
+    chartAspect = 4 / 3,
+  }: InfographicLayoutOptions = {},
+): InfographicLayout => {
+  const { charts, kpis } = content;
+  if (
+    charts.length < MIN_INFOGRAPHIC_CHARTS ||
+    charts.length > MAX_INFOGRAPHIC_CHARTS
+  ) {
+    throw new InfographicError(
+      "charts",
+      `An infographic has ${MIN_INFOGRAPHIC_CHARTS} to ${MAX_INFOGRAPHIC_CHARTS} charts, not ${charts.length}`,
+    );
+  }
+  const title = content.title.trim();
+  const narrative = content.narrative?.trim() ?? "";
+  if (title === "") {
+    throw new InfographicError("title", "An infographic needs a title");
+  }
+
+  const layout = TEMPLATE_LAYOUTS[template];
+  const size = page ?? layout.page;
+  const side = Math.min(size.width, size.height);
+  const margin = side * layout.margin;
+  const gap = side * layout.gap;
+  const width = size.width - 2 * margin;
+  const height = size.height - 2 * margin;
+
+  const titleBox = {
+    top: margin,
+    left: margin,
+    width,
+    height: height * layout.title,
+  };
+  let top = titleBox.top + titleBox.height + gap;
+
+  const perRow = Math.min(layout.kpisPerRow, kpis.length);
+  const kpiRows = perRow > 0 ? Math.ceil(kpis.length / perRow) : 0;
+  const kpiHeight = height * layout.kpis;
+  const kpiBoxes = rowsOf(
+    kpis.length,
+    perRow,
+    { top, left: margin, width },
+    kpiHeight,
+    (width - gap * (perRow - 1)) / perRow,
+    gap,
+  );
+  top += kpiRows * (kpiHeight + gap);
+
+  // The charts take what's left, bar the narrative
+  let chartArea = {
+    top,
+    left: margin,
+    width,
+    height: size.height - margin - top,
+  };
+  let narrativeBox: LayoutBox | undefined;
+  if (narrative !== "") {
+    if (layout.narrativeBeside) {
+      const narrativeWidth = width * layout.narrative;
+      narrativeBox = { ...chartArea, width: narrativeWidth };
+      chartArea = {
+        ...chartArea,
+        left: margin + narrativeWidth + gap,
+        width: width - narrativeWidth - gap,
+      };
+    } else {
+      const narrativeHeight = height * layout.narrative;
+      narrativeBox = {
+        ...chartArea,
+        top: size.height - margin - narrativeHeight,
+        height: narrativeHeight,
+      };
+      chartArea = {
+        ...chartArea,
+        height: chartArea.height - narrativeHeight - gap,
+      };
+    }
+  }
+  if (chartArea.width <= 0 || chartArea.height <= 0) {
+    throw new InfographicError(
+      "page",
+      `A ${size.width}×${size.height} page has no room left for charts; use fewer KPIs or a larger page`,
+    );
+  }
+  const chartBoxes = chartGrid(charts.length, chartArea, gap, chartAspect);
+
+  const card = kpiBoxes[0];
+  const longest = (texts: string[]) =>
+    texts.reduce((a, b) => (b.length > a.length ? b : a), "");
+  const narrativeFont = narrativeBox
+    ? Math.min(
+        side * MAX_NARRATIVE_FONT,
+        // The size its characters would fill two thirds of the box at,
+        // leaving room for the ends of lines
+        Math.sqrt(
+          (narrativeBox.width * narrativeBox.height * 2) /
+            3 /
+            (narrative.length * CHARACTER_WIDTH * LINE_HEIGHT),
+        ),
+      )
+    : 0;
+
+  return {
+    template,
+    page: { width: size.width, height: size.height },
+    title: round(titleBox),
+    titleAlign: layout.titleAlign,
+    kpis: kpiBoxes.map(round),
+    charts: chartBoxes.map(round),
+    narrative: narrativeBox && round(narrativeBox),
+    fonts: {
+      title: fontSize(lineFont(title, titleBox, 0.6)),
+      kpiValue: card
+        ? fontSize(lineFont(longest(kpis.map((k) => k.value)), card, 0.4))
+        : 0,
+      kpiLabel: card
+        ? fontSize(lineFont(longest(kpis.map((k) => k.label)), card, 0.16))
+        : 0,
+      narrative: narrativeBox ? fontSize(narrativeFont) : 0,
+    },
+  };
+};
@@ -0,0 +1,163 @@
+import type { ImageRef } from "@canva/asset";
+import type { GroupElementAtPoint } from "@canva/design";
+import { createRichtextRange } from "@canva/design";
+import type { InfographicChart, InfographicContent, LayoutBox } from "../index";
+import {
+  INFOGRAPHIC_TEMPLATES,
+  InfographicError,
+  infographicElements,
+  layoutInfographic,
+} from "../index";
+
+const content = (
+  charts: number,
+  kpis = 3,
+): InfographicContent<InfographicChart> => ({
+  title: "Sales at a glance",
+  kpis: Array.from({ length: kpis }, (_, i) => `Measure ${i + 1}`).map(
+    (label, i) => ({ label, value: `${(i + 1) * 1000}` }),
+  ),
+  charts: Array.from({ length: charts }, (_, i) => ({
+    ref: `chart-${i}` as ImageRef,
+    altText: `Sales chart ${i + 1}`,
+  })),
+  narrative:
+    "Sales grew steadily over two years, with a spike in October. Cost follows sales closely.",
+});
+
+const bottom = (box: LayoutBox) => box.top + box.height;
+const right = (box: LayoutBox) => box.left + box.width;
+const overlaps = (a: LayoutBox, b: LayoutBox) =>
+  a.left < right(b) &&
+  b.left < right(a) &&
+  a.top < bottom(b) &&
+  b.top < bottom(a);
+
+const categoryOf = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (e) {
+    return e instanceof InfographicError ? e.category : e;
+  }
+  return undefined;
+};
+
+describe("layoutInfographic", () => {
+  it("fits every template's blocks on the page without overlaps", () => {
+    for (const template of INFOGRAPHIC_TEMPLATES) {
+      for (const charts of [2, 3, 5, 6]) {
+        const layout = layoutInfographic(content(charts), { template });
+        const boxes = [
+          layout.title,
+          ...layout.kpis,
+          ...layout.charts,
+          ...(layout.narrative ? [layout.narrative] : []),
+        ];
+
+        for (const [i, box] of boxes.entries()) {
+          expect(box.left).toBeGreaterThanOrEqual(0);
+          expect(box.top).toBeGreaterThanOrEqual(0);
+          expect(right(box)).toBeLessThanOrEqual(layout.page.width);
+          expect(bottom(box)).toBeLessThanOrEqual(layout.page.height);
+          for (const other of boxes.slice(i + 1)) {
+            expect(overlaps(box, other)).toBe(false);
+          }
+        }
+        expect(layout.charts).toHaveLength(charts);
+        for (const { width, height } of layout.charts) {
+          expect(width / height).toBeCloseTo(4 / 3, 1);
+        }
+      }
+    }
+  });
+
+  it("sizes the layout to the page and places the narrative as the template has it", () => {
+    const report = layoutInfographic(content(4), {
+      page: { width: 1000, height: 1400 },
+    });
+    expect(report.page).toEqual({ width: 1000, height: 1400 });
+    expect(report.narrative?.top).toBeGreaterThan(
+      Math.max(...report.charts.map(bottom)),
+    );
+
+    const slide = layoutInfographic(content(4), { template: "slide" });
+    expect(slide.page).toEqual({ width: 1920, height: 1080 });
+    expect(right(slide.narrative as LayoutBox)).toBeLessThan(
+      Math.min(...slide.charts.map((box) => box.left)),
+    );
+    // Four charts beside the narrative fit best two by two
+    expect(new Set(slide.charts.map((box) => box.top)).size).toBe(2);
+  });
+
+  it("centres a short last row", () => {
+    const { charts, page } = layoutInfographic(content(3));
+    const [first, second, last] = charts;
+
+    expect(second.top).toBe(first.top);
+    expect(last.top).toBeGreaterThan(bottom(first));
+    expect(last.left + last.width / 2).toBeCloseTo(page.width / 2, 0);
+    expect(charts.map((box) => box.width)).toEqual(Array(3).fill(first.width));
+  });
+
+  it("rejects too few or many charts, no title and crowded pages", () => {
+    expect(categoryOf(() => layoutInfographic(content(1)))).toBe("charts");
+    expect(categoryOf(() => layoutInfographic(content(7)))).toBe("charts");
+    expect(
+      categoryOf(() => layoutInfographic({ ...content(2), title: "  " })),
+    ).toBe("title");
+    expect(
+      categoryOf(() =>
+        layoutInfographic(content(2, 15), { template: "social_square" }),
+      ),
+    ).toBe("page");
+  });
+});
+
+describe("infographicElements", () => {
+  beforeEach(() => {
+    jest.mocked(createRichtextRange).mockImplementation(
+      () =>
+        ({
+          appendText: (characters: string) => ({
+            bounds: { index: 0, length: characters.length },
+          }),
+          formatParagraph: jest.fn(),
+        }) as unknown as ReturnType<typeof createRichtextRange>,
+    );
+  });
+
+  it("groups the callouts and charts and places them where they're laid out", () => {
+    const shown = content(4, 2);
+    const layout = layoutInfographic(shown, { template: "poster" });
+    const [title, kpis, charts, narrative] = infographicElements(shown, layout);
+
+    expect(title).toMatchObject({
+      type: "text",
+      children: ["Sales at a glance"],
+      textAlign: "center",
+      top: layout.title.top,
+      left: layout.title.left,
+      width: layout.title.width,
+    });
+    expect(kpis.type).toBe("group");
+    // A card, value and label for each KPI
+    expect((kpis as GroupElementAtPoint).children).toHaveLength(6);
+
+    const group = charts as GroupElementAtPoint;
+    expect(group.children.map((child) => child.type)).toEqual(
+      Array(4).fill("image"),
+    );
+    group.children.forEach((child, i) => {
+      expect(child).toMatchObject({
+        ref: `chart-${i}`,
+        altText: { text: `Sales chart ${i + 1}` },
+      });
+      expect(child.top + group.top).toBe(layout.charts[i].top);
+      expect(child.left + group.left).toBe(layout.charts[i].left);
+    });
+    expect(narrative).toMatchObject({
+      type: "richtext",
+      top: layout.narrative?.top,
+    });
+  });
+});
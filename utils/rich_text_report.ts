@@ -0,0 +1,157 @@
+import type {
+  Bounds,
+  RichtextElement,
+  RichtextFormatting,
+} from "@canva/design";
+import { createRichtextRange } from "@canva/design";
+
+/** A stretch of text in a report, bold or not. */
+export interface ReportRun {
+  text: string;
+  bold: boolean;
+}
+
+export type ReportBlockType = "paragraph" | "bullet" | "numbered";
+
+/** A paragraph or list item in a report. */
+export interface ReportBlock {
+  type: ReportBlockType;
+  runs: ReportRun[];
+}
+
+/** A heading and what comes under it, up to the next heading. */
+export interface ReportSection {
+  heading?: string;
+  blocks: ReportBlock[];
+}
+
+export interface ReportElementOptions {
+  /** The size of section headings. Defaults to 28. */
+  headingSize?: number;
+  /** The size of everything else. Defaults to 16. */
+  bodySize?: number;
+}
+
+const RULE = /^[-=_]{3,}$/;
+const MARKDOWN_HEADING = /^#{1,6}\s+(.+)$/;
+const BOLD_LINE = /^\*\*([^*]+)\*\*$/;
+// Lines in capitals, such as "KEY FINDINGS", are headings in plain-text
+// reports
+const CAPITALS_HEADING = /^[A-Z][A-Z0-9 &/'(),-]{2,59}:?$/;
+const BULLET = /^[•\-*]\s+(.+)$/;
+const NUMBERED = /^\d+[.)]\s+(.+)$/;
+// A short label before a colon, such as "Dataset: sales.csv", is set in
+// bold when nothing else on the line is
+const LABEL = /^([^:*]{1,40}:)(\s.*)$/;
+
+const readHeading = (line: string) => {
+  const heading =
+    MARKDOWN_HEADING.exec(line)?.[1] ??
+    BOLD_LINE.exec(line)?.[1] ??
+    (CAPITALS_HEADING.test(line) ? line : undefined);
+  return heading?.replace(/\*\*/g, "").replace(/:$/, "").trim();
+};
+
+// Splits text into runs at `**bold**` markers
+const readRuns = (text: string): ReportRun[] => {
+  const runs = text
+    .split(/\*\*(.+?)\*\*/)
+    .map((part, i) => ({ text: part, bold: i % 2 === 1 }))
+    .filter((run) => run.text !== "");
+  const label = runs.length === 1 && !runs[0].bold && LABEL.exec(runs[0].text);
+  return label
+    ? [
+        { text: label[1], bold: true },
+        { text: label[2], bold: false },
+      ]
+    : runs;
+};
+
+/**
+ * Reads a report written as text into sections. Headings are lines in
+ * capitals, lines in bold or Markdown headings; lines starting with "•", "-"
+ * or "*" are bullets, and lines starting with "1." are numbered. Text between
+ * `**` is bold, as is a short label ending in a colon at the start of a line
+ * with no other bold text.
+ */
+export const parseReport = (text: string): ReportSection[] => {
+  const sections: ReportSection[] = [];
+  let section: ReportSection | undefined;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (line === "" || RULE.test(line)) {
+      continue;
+    }
+    const heading = readHeading(line);
+    if (heading) {
+      section = { heading, blocks: [] };
+      sections.push(section);
+      continue;
+    }
+    if (!section) {
+      section = { blocks: [] };
+      sections.push(section);
+    }
+    const bullet = BULLET.exec(line);
+    const numbered = NUMBERED.exec(line);
+    section.blocks.push(
+      bullet
+        ? { type: "bullet", runs: readRuns(bullet[1]) }
+        : numbered
+          ? { type: "numbered", runs: readRuns(numbered[1]) }
+          : { type: "paragraph", runs: readRuns(line) },
+    );
+  }
+  return sections;
+};
+
+const LIST_MARKERS: Record<ReportBlockType, RichtextFormatting["listMarker"]> =
+  {
+    paragraph: "none",
+    bullet: "disc",
+    numbered: "decimal",
+  };
+
+/**
+ * Turns the sections of a report into rich text elements to add to a design,
+ * one per section so they can be arranged separately. Each starts with its
+ * heading in bold, and keeps its bold text and lists.
+ */
+export const reportElements = (
+  sections: ReportSection[],
+  { headingSize = 28, bodySize = 16 }: ReportElementOptions = {},
+): RichtextElement[] =>
+  sections.map(({ heading, blocks }) => {
+    const range = createRichtextRange();
+    let paragraphs = 0;
+
+    // Appends the runs as a paragraph of their own, and formats it
+    const append = (runs: ReportRun[], formatting: RichtextFormatting) => {
+      if (paragraphs++ > 0) {
+        range.appendText("\n");
+      }
+      const [first, ...rest]: Bounds[] = runs.map(
+        ({ text, bold }) =>
+          range.appendText(text, { fontWeight: bold ? "bold" : "normal" })
+            .bounds,
+      );
+      const last = rest[rest.length - 1] ?? first;
+      range.formatParagraph(
+        { index: first.index, length: last.index + last.length - first.index },
+        formatting,
+      );
+    };
+
+    if (heading) {
+      append([{ text: heading, bold: true }], { fontSize: headingSize });
+    }
+    for (const { type, runs } of blocks) {
+      append(runs, {
+        fontSize: bodySize,
+        listLevel: type === "paragraph" ? 0 : 1,
+        listMarker: LIST_MARKERS[type],
+      });
+    }
+    return { type: "richtext", range };
+  });
@@ -0,0 +1,77 @@
+/**
+ * A single event read from a `text/event-stream` body.
+ */
+export interface ServerSentEvent {
+  /** The event name, `message` when the stream didn't name it. */
+  event: string;
+  data: string;
+}
+
+/**
+ * A step of a long-running streamed request, such as `profiling` or
+ * `rendering`. `current` and `total` are set for steps that count items,
+ * e.g. rendering chart 2 of 4.
+ */
+export interface StreamProgress {
+  stage: string;
+  message: string;
+  current?: number;
+  total?: number;
+}
+
+const parseEventBlock = (block: string): ServerSentEvent | undefined => {
+  let event = "message";
+  const data: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (!line || line.startsWith(":")) {
+      continue;
+    }
+    const separator = line.indexOf(":");
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value =
+      separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+
+    if (field === "event") {
+      event = value;
+    } else if (field === "data") {
+      data.push(value);
+    }
+  }
+
+  return data.length > 0 ? { event, data: data.join("\n") } : undefined;
+};
+
+/**
+ * Reads server-sent events from a response body as they arrive.
+ * @param body - The response body, e.g. `response.body` from `fetch`.
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? "" : (blocks.pop() ?? "");
+      for (const block of blocks) {
+        const event = parseEventBlock(block);
+        if (event) {
+          yield event;
+        }
+      }
+
+      if (done) {
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
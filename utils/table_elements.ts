@@ -0,0 +1,146 @@
+import type { Cell, TableElement } from "@canva/design";
+import type { CsvTable } from "./csv";
+import { isMissing } from "./csv";
+import { MAX_CELL_COUNT, TableWrapper } from "./table_wrapper";
+
+/** A table of results to add to a design, with what it shows. */
+export interface TitledTable extends CsvTable {
+  title: string;
+}
+
+export interface TableElementOptions {
+  /** The most cells in one table. Defaults to the most Canva allows. */
+  maxCells?: number;
+  /** The locale numbers are formatted in. Defaults to the user's. */
+  locale?: string;
+  /** The most decimal places numbers are shown with. Defaults to 2. */
+  maxFractionDigits?: number;
+  /** The header row's background, as a hex code. */
+  headerBackground?: string;
+  /** The header row's text colour, as a hex code. */
+  headerColor?: string;
+}
+
+const PLAIN_NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+// Whole numbers from 1000 to 2999 in a column of them are years, which
+// aren't written with thousands separators
+const isYear = (value: number) =>
+  Number.isInteger(value) && value >= 1000 && value < 3000;
+
+// Whether a column holds nothing but numbers, which are formatted and
+// aligned to the end of their cells, and whether those numbers are years
+const readColumnKinds = ({ header, rows }: CsvTable) =>
+  header.map((_, column) => {
+    const cells = rows
+      .map((row) => (row[column] ?? "").trim())
+      .filter((cell) => !isMissing(cell));
+    const numeric =
+      cells.length > 0 && cells.every((cell) => PLAIN_NUMBER.test(cell));
+    return {
+      numeric,
+      years: numeric && cells.every((cell) => isYear(Number(cell))),
+    };
+  });
+
+const chunk = <T>(items: T[], size: number) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) =>
+    items.slice(i * size, (i + 1) * size),
+  );
+
+/**
+ * Splits a table into pages of at most `maxCells` cells, each with the
+ * header row. Rows are shared evenly between pages. A table too wide for
+ * one page is also split by columns, with the first column repeated on each
+ * page so its rows can still be told apart.
+ * @returns The pages, row by row and then column by column.
+ */
+export const splitTable = (
+  { header, rows }: CsvTable,
+  maxCells = MAX_CELL_COUNT,
+): CsvTable[] => {
+  // Every page has room for the header and at least one row
+  const maxColumns = Math.floor(maxCells / 2);
+  const columnGroups =
+    header.length <= maxColumns
+      ? [header.map((_, i) => i)]
+      : chunk(
+          header.slice(1).map((_, i) => i + 1),
+          maxColumns - 1,
+        ).map((group) => [0, ...group]);
+  const widest = Math.max(...columnGroups.map((group) => group.length));
+  const maxRows = Math.floor(maxCells / widest) - 1;
+  const pageCount = Math.max(1, Math.ceil(rows.length / maxRows));
+  const rowGroups =
+    rows.length > 0
+      ? chunk(rows, Math.ceil(rows.length / pageCount))
+      : [[] as string[][]];
+  return rowGroups.flatMap((pageRows) =>
+    columnGroups.map((columns) => ({
+      header: columns.map((i) => header[i]),
+      rows: pageRows.map((row) => columns.map((i) => row[i] ?? "")),
+    })),
+  );
+};
+
+/**
+ * Turns a table into table elements to add to a design: a bold, shaded
+ * header row, and numbers formatted for the locale and aligned to the end of
+ * their cells. Tables with more cells than Canva allows are split across
+ * several elements; see {@link splitTable}.
+ */
+export const tableElements = (
+  table: CsvTable,
+  {
+    maxCells = MAX_CELL_COUNT,
+    locale,
+    maxFractionDigits = 2,
+    headerBackground = "#1565C0",
+    headerColor = "#FFFFFF",
+  }: TableElementOptions = {},
+): TableElement[] => {
+  const numbers = new Intl.NumberFormat(locale, {
+    maximumFractionDigits: maxFractionDigits,
+  });
+  const years = new Intl.NumberFormat(locale, { useGrouping: false });
+
+  return splitTable(table, maxCells).map((page) => {
+    const kinds = readColumnKinds(page);
+    const wrapper = TableWrapper.create(
+      page.rows.length + 1,
+      page.header.length,
+    );
+    const cellOf = (value: string, attributes: Cell["attributes"]): Cell =>
+      value
+        ? { type: "string", value, attributes }
+        : { type: "empty", attributes };
+
+    page.header.forEach((name, column) => {
+      wrapper.setCellDetails(
+        1,
+        column + 1,
+        cellOf(name, {
+          backgroundColor: headerBackground,
+          color: headerColor,
+          fontWeight: "bold",
+          textAlign: kinds[column].numeric ? "end" : "start",
+        }),
+      );
+    });
+    page.rows.forEach((row, i) => {
+      row.forEach((cell, column) => {
+        const { numeric, years: isYears } = kinds[column];
+        const value =
+          numeric && !isMissing(cell)
+            ? (isYears ? years : numbers).format(Number(cell.trim()))
+            : cell;
+        wrapper.setCellDetails(
+          i + 2,
+          column + 1,
+          cellOf(value, { textAlign: numeric ? "end" : "start" }),
+        );
+      });
+    });
+    return wrapper.toElement();
+  });
+};
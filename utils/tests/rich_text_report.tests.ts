@@ -0,0 +1,148 @@
+import type { Bounds, RichtextFormatting } from "@canva/design";
+import { createRichtextRange } from "@canva/design";
+import { parseReport, reportElements } from "../rich_text_report";
+
+const REPORT = [
+  "DATA ANALYSIS REPORT",
+  "Dataset: sales.csv",
+  "Records: **120** | Variables: **4**",
+  "",
+  "KEY FINDINGS:",
+  "• Sales grew **12%** a month",
+  "- Cost follows sales",
+  "---",
+  "## Recommendations",
+  "1. Plan stock for the spring peak",
+  "2) Review the **3** outlying months",
+].join("\n");
+
+describe("parseReport", () => {
+  it("reads headings, bold text and lists", () => {
+    const sections = parseReport(REPORT);
+
+    expect(sections.map(({ heading }) => heading)).toEqual([
+      "DATA ANALYSIS REPORT",
+      "KEY FINDINGS",
+      "Recommendations",
+    ]);
+    expect(sections[0].blocks).toEqual([
+      {
+        type: "paragraph",
+        runs: [
+          { text: "Dataset:", bold: true },
+          { text: " sales.csv", bold: false },
+        ],
+      },
+      {
+        type: "paragraph",
+        runs: [
+          { text: "Records: ", bold: false },
+          { text: "120", bold: true },
+          { text: " | Variables: ", bold: false },
+          { text: "4", bold: true },
+        ],
+      },
+    ]);
+    expect(sections[1].blocks.map(({ type }) => type)).toEqual([
+      "bullet",
+      "bullet",
+    ]);
+    expect(sections[1].blocks[0].runs).toEqual([
+      { text: "Sales grew ", bold: false },
+      { text: "12%", bold: true },
+      { text: " a month", bold: false },
+    ]);
+    expect(sections[2].blocks).toEqual([
+      {
+        type: "numbered",
+        runs: [{ text: "Plan stock for the spring peak", bold: false }],
+      },
+      {
+        type: "numbered",
+        runs: [
+          { text: "Review the ", bold: false },
+          { text: "3", bold: true },
+          { text: " outlying months", bold: false },
+        ],
+      },
+    ]);
+  });
+
+  it("keeps text before the first heading in a section without one", () => {
+    expect(parseReport("Just a note\n\nSUMMARY\nAll good")).toEqual([
+      {
+        blocks: [
+          { type: "paragraph", runs: [{ text: "Just a note", bold: false }] },
+        ],
+      },
+      {
+        heading: "SUMMARY",
+        blocks: [
+          { type: "paragraph", runs: [{ text: "All good", bold: false }] },
+        ],
+      },
+    ]);
+  });
+});
+
+describe("reportElements", () => {
+  // Records what's written to each range, and how its paragraphs are
+  // formatted
+  const ranges: { text: string; paragraphs: [string, RichtextFormatting][] }[] =
+    [];
+
+  beforeEach(() => {
+    ranges.length = 0;
+    jest.mocked(createRichtextRange).mockImplementation(() => {
+      const written = {
+        text: "",
+        paragraphs: [] as [string, RichtextFormatting][],
+      };
+      ranges.push(written);
+      return {
+        appendText: (characters: string) => {
+          const bounds = {
+            index: written.text.length,
+            length: characters.length,
+          };
+          written.text += characters;
+          return { bounds };
+        },
+        formatParagraph: ({ index, length }: Bounds, formatting) => {
+          written.paragraphs.push([
+            written.text.slice(index, index + length),
+            formatting,
+          ]);
+        },
+      } as ReturnType<typeof createRichtextRange>;
+    });
+  });
+
+  it("adds one element per section, with its heading and lists", () => {
+    const elements = reportElements(parseReport(REPORT), { bodySize: 14 });
+
+    expect(elements).toHaveLength(3);
+    expect(elements.every(({ type }) => type === "richtext")).toBe(true);
+    expect(ranges[1].text).toBe(
+      "KEY FINDINGS\nSales grew 12% a month\nCost follows sales",
+    );
+    expect(ranges[1].paragraphs).toEqual([
+      ["KEY FINDINGS", { fontSize: 28 }],
+      [
+        "Sales grew 12% a month",
+        { fontSize: 14, listLevel: 1, listMarker: "disc" },
+      ],
+      [
+        "Cost follows sales",
+        { fontSize: 14, listLevel: 1, listMarker: "disc" },
+      ],
+    ]);
+    expect(ranges[2].paragraphs[1][1]).toMatchObject({
+      listMarker: "decimal",
+    });
+    expect(ranges[0].paragraphs[2]).toEqual([
+      "Records: 120 | Variables: 4",
+      { fontSize: 14, listLevel: 0, listMarker: "none" },
+    ]);
+  });
+});
@@ -0,0 +1,75 @@
+import { splitTable, tableElements } from "../table_elements";
+import { MAX_CELL_COUNT } from "../table_wrapper";
+
+const table = (columns: number, rows: number) => ({
+  header: Array.from({ length: columns }, (_, i) => `Column ${i + 1}`),
+  rows: Array.from({ length: rows }, (_, row) =>
+    Array.from({ length: columns }, (_, column) => `${row}.${column}`),
+  ),
+});
+
+describe("splitTable", () => {
+  it("keeps a table that fits in one piece", () => {
+    expect(splitTable(table(3, 10))).toEqual([table(3, 10)]);
+  });
+
+  it("shares rows evenly between pages, each with the header", () => {
+    const pages = splitTable(table(4, 60));
+
+    expect(pages.map(({ rows }) => rows.length)).toEqual([30, 30]);
+    expect(pages[1].header).toEqual(table(4, 0).header);
+    expect(pages[1].rows[0][0]).toBe("30.0");
+    for (const { header, rows } of pages) {
+      expect(header.length * (rows.length + 1)).toBeLessThanOrEqual(
+        MAX_CELL_COUNT,
+      );
+    }
+  });
+
+  it("repeats the first column on each page of a wide table", () => {
+    const pages = splitTable(table(5, 1), 6);
+
+    expect(pages.map(({ header }) => header)).toEqual([
+      ["Column 1", "Column 2", "Column 3"],
+      ["Column 1", "Column 4", "Column 5"],
+    ]);
+    expect(pages[1].rows).toEqual([["0.0", "0.3", "0.4"]]);
+  });
+});
+
+describe("tableElements", () => {
+  it("styles the header and formats numbers", () => {
+    const [element] = tableElements(
+      {
+        header: ["Region", "Year", "Sales"],
+        rows: [
+          ["North", "2023", "1234567.891"],
+          ["South", "2024", ""],
+        ],
+      },
+      { locale: "en-US" },
+    );
+
+    const [header, north, south] = element.rows;
+    expect(header.cells[0]).toMatchObject({
+      type: "string",
+      value: "Region",
+      attributes: { fontWeight: "bold", textAlign: "start" },
+    });
+    expect(header.cells[2]?.attributes?.textAlign).toBe("end");
+    expect(
+      north.cells.map((cell) => cell?.type === "string" && cell.value),
+    ).toEqual(["North", "2023", "1,234,567.89"]);
+    expect(south.cells[2]).toMatchObject({
+      type: "empty",
+      attributes: { textAlign: "end" },
+    });
+  });
+
+  it("splits tables Canva can't hold in one element", () => {
+    const elements = tableElements(table(3, 100));
+
+    expect(elements).toHaveLength(2);
+    expect(elements.map(({ rows }) => rows.length)).toEqual([51, 51]);
+  });
+});